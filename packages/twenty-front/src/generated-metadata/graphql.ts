@@ -843,6 +843,13 @@ export type CreateFieldInput = {
   type: FieldMetadataType;
 };
 
+export type CreateMcpPromptInput = {
+  arguments?: InputMaybe<Array<McpPromptArgumentInput>>;
+  description?: InputMaybe<Scalars['String']>;
+  name: Scalars['String'];
+  template: Scalars['String'];
+};
+
 export type CreateObjectInput = {
   description?: InputMaybe<Scalars['String']>;
   icon?: InputMaybe<Scalars['String']>;
@@ -999,7 +1006,10 @@ export type CreateViewSortInput = {
 
 export type CreateWebhookInput = {
   description?: InputMaybe<Scalars['String']>;
+  filters?: InputMaybe<Scalars['JSON']>;
   operations: Array<Scalars['String']>;
+  payloadFields?: InputMaybe<Array<Scalars['String']>>;
+  payloadFormat?: InputMaybe<WebhookPayloadFormat>;
   secret?: InputMaybe<Scalars['String']>;
   targetUrl: Scalars['String'];
 };
@@ -1482,6 +1492,12 @@ export type GetServerlessFunctionSourceCodeInput = {
   version?: Scalars['String'];
 };
 
+export type GetWebhookDeliveriesInput = {
+  limit?: InputMaybe<Scalars['Int']>;
+  status?: InputMaybe<WebhookDeliveryStatus>;
+  webhookId: Scalars['UUID'];
+};
+
 export type GetWebhookInput = {
   id: Scalars['UUID'];
 };
@@ -1564,6 +1580,23 @@ export type ImpersonateOutput = {
   workspace: WorkspaceUrlsAndId;
 };
 
+export type ImportWorkflowInput = {
+  /** Activate the imported draft when every reference was resolved */
+  activate?: InputMaybe<Scalars['Boolean']>;
+  /** Workflow bundle produced by exportWorkflow */
+  bundle: Scalars['JSON'];
+};
+
+export type ImportWorkflowOutput = {
+  __typename?: 'ImportWorkflowOutput';
+  /** Whether the imported draft was activated */
+  activated: Scalars['Boolean'];
+  /** Objects, fields and workflows of the bundle missing in the workspace */
+  unresolvedReferences: Scalars['JSON'];
+  workflowId: Scalars['UUID'];
+  workflowVersionIds: Array<Scalars['UUID']>;
+};
+
 export type Index = {
   __typename?: 'Index';
   createdAt: Scalars['DateTime'];
@@ -1741,6 +1774,35 @@ export type LoginTokenOutput = {
   loginToken: AuthToken;
 };
 
+export type McpPrompt = {
+  __typename?: 'McpPrompt';
+  arguments: Array<McpPromptArgument>;
+  createdAt: Scalars['DateTime'];
+  description?: Maybe<Scalars['String']>;
+  id: Scalars['UUID'];
+  name: Scalars['String'];
+  template: Scalars['String'];
+  updatedAt: Scalars['DateTime'];
+  workspaceId: Scalars['UUID'];
+};
+
+export type McpPromptArgument = {
+  __typename?: 'McpPromptArgument';
+  description?: Maybe<Scalars['String']>;
+  name: Scalars['String'];
+  required?: Maybe<Scalars['Boolean']>;
+};
+
+export type McpPromptArgumentInput = {
+  description?: InputMaybe<Scalars['String']>;
+  name: Scalars['String'];
+  required?: InputMaybe<Scalars['Boolean']>;
+};
+
+export type McpPromptIdInput = {
+  id: Scalars['UUID'];
+};
+
 export enum MessageChannelVisibility {
   METADATA = 'METADATA',
   SHARE_EVERYTHING = 'SHARE_EVERYTHING',
@@ -1784,6 +1846,7 @@ export type Mutation = {
   createFile: File;
   createManyCoreViewFields: Array<CoreViewField>;
   createManyCoreViewGroups: Array<CoreViewGroup>;
+  createMcpPrompt: McpPrompt;
   createOIDCIdentityProvider: SetupSsoOutput;
   createObjectEvent: Analytics;
   createOneAgent: Agent;
@@ -1818,6 +1881,7 @@ export type Mutation = {
   deleteEmailingDomain: Scalars['Boolean'];
   deleteFile: File;
   deleteJobs: DeleteJobsResponse;
+  deleteMcpPrompt: McpPrompt;
   deleteOneAgent: Agent;
   deleteOneCronTrigger: CronTrigger;
   deleteOneDatabaseEventTrigger: DatabaseEventTrigger;
@@ -1865,9 +1929,11 @@ export type Mutation = {
   getAuthorizationUrlForSSO: GetAuthorizationUrlForSsoOutput;
   getLoginTokenFromCredentials: LoginTokenOutput;
   impersonate: ImpersonateOutput;
+  importWorkflow: ImportWorkflowOutput;
   initiateOTPProvisioning: InitiateTwoFactorAuthenticationProvisioningOutput;
   initiateOTPProvisioningForAuthenticatedUser: InitiateTwoFactorAuthenticationProvisioningOutput;
   publishServerlessFunction: ServerlessFunction;
+  redeliverWebhookDelivery: WebhookDelivery;
   removeRoleFromAgent: Scalars['Boolean'];
   renewToken: AuthTokens;
   resendEmailVerificationToken: ResendEmailVerificationTokenOutput;
@@ -1909,6 +1975,7 @@ export type Mutation = {
   updateCoreViewSort: CoreViewSort;
   updateDatabaseConfigVariable: Scalars['Boolean'];
   updateLabPublicFeatureFlag: FeatureFlagDto;
+  updateMcpPrompt: McpPrompt;
   updateOneAgent: Agent;
   updateOneApplicationVariable: Scalars['Boolean'];
   updateOneCronTrigger: CronTrigger;
@@ -2068,6 +2135,10 @@ export type MutationCreateManyCoreViewGroupsArgs = {
 };
 
 
+export type MutationCreateMcpPromptArgs = {
+  input: CreateMcpPromptInput;
+};
+
 export type MutationCreateOidcIdentityProviderArgs = {
   input: SetupOidcSsoInput;
 };
@@ -2238,6 +2309,10 @@ export type MutationDeleteJobsArgs = {
 };
 
 
+export type MutationDeleteMcpPromptArgs = {
+  input: McpPromptIdInput;
+};
+
 export type MutationDeleteOneAgentArgs = {
   input: AgentIdInput;
 };
@@ -2460,6 +2535,11 @@ export type MutationImpersonateArgs = {
 };
 
 
+export type MutationImportWorkflowArgs = {
+  input: ImportWorkflowInput;
+};
+
+
 export type MutationInitiateOtpProvisioningArgs = {
   loginToken: Scalars['String'];
   origin: Scalars['String'];
@@ -2471,6 +2551,11 @@ export type MutationPublishServerlessFunctionArgs = {
 };
 
 
+export type MutationRedeliverWebhookDeliveryArgs = {
+  input: WebhookDeliveryIdInput;
+};
+
+
 export type MutationRemoveRoleFromAgentArgs = {
   agentId: Scalars['UUID'];
 };
@@ -2681,6 +2766,10 @@ export type MutationUpdateLabPublicFeatureFlagArgs = {
 };
 
 
+export type MutationUpdateMcpPromptArgs = {
+  input: UpdateMcpPromptInput;
+};
+
 export type MutationUpdateOneAgentArgs = {
   input: UpdateAgentInput;
 };
@@ -3231,6 +3320,7 @@ export type Query = {
   checkWorkspaceInviteHashIsValid: WorkspaceInviteHashValidOutput;
   currentUser: User;
   currentWorkspace: Workspace;
+  exportWorkflow: Scalars['JSON'];
   field: Field;
   fields: FieldConnection;
   findDistantTablesWithStatus: Array<RemoteTable>;
@@ -3296,12 +3386,15 @@ export type Query = {
   index: Index;
   indexMetadatas: IndexConnection;
   listPlans: Array<BillingPlanOutput>;
+  mcpPrompts: Array<McpPrompt>;
   object: Object;
   objects: ObjectConnection;
   search: SearchResultConnection;
   validatePasswordResetToken: ValidatePasswordResetTokenOutput;
   versionInfo: VersionInfo;
   webhook?: Maybe<Webhook>;
+  webhookDeliveries: Array<WebhookDelivery>;
+  webhookDelivery?: Maybe<WebhookDelivery>;
   webhooks: Array<Webhook>;
 };
 
@@ -3342,6 +3435,11 @@ export type QueryCheckWorkspaceInviteHashIsValidArgs = {
 };
 
 
+export type QueryExportWorkflowArgs = {
+  workflowId: Scalars['UUID'];
+};
+
+
 export type QueryFieldArgs = {
   id: Scalars['UUID'];
 };
@@ -3634,6 +3732,16 @@ export type QueryWebhookArgs = {
   input: GetWebhookInput;
 };
 
+
+export type QueryWebhookDeliveriesArgs = {
+  input: GetWebhookDeliveriesInput;
+};
+
+
+export type QueryWebhookDeliveryArgs = {
+  input: WebhookDeliveryIdInput;
+};
+
 export type QueueJob = {
   __typename?: 'QueueJob';
   attemptsMade: Scalars['Float'];
@@ -3826,8 +3934,12 @@ export type RouteTriggerIdInput = {
 };
 
 export type RunWorkflowVersionInput = {
+  /** Simulate the steps with side effects */
+  isTestRun?: InputMaybe<Scalars['Boolean']>;
   /** Execution result in JSON format */
   payload?: InputMaybe<Scalars['JSON']>;
+  /** Step outputs to use during a test run, by step ID */
+  testRunFixtures?: InputMaybe<Scalars['JSON']>;
   /** Workflow run ID */
   workflowRunId?: InputMaybe<Scalars['UUID']>;
   /** Workflow version ID */
@@ -4191,6 +4303,14 @@ export type TwoFactorAuthenticationMethodDto = {
   twoFactorAuthenticationMethodId: Scalars['UUID'];
 };
 
+export type UpdateMcpPromptInput = {
+  arguments?: InputMaybe<Array<McpPromptArgumentInput>>;
+  description?: InputMaybe<Scalars['String']>;
+  id: Scalars['UUID'];
+  name?: InputMaybe<Scalars['String']>;
+  template?: InputMaybe<Scalars['String']>;
+};
+
 export type UuidFilter = {
   eq?: InputMaybe<Scalars['UUID']>;
   gt?: InputMaybe<Scalars['UUID']>;
@@ -4491,8 +4611,11 @@ export type UpdateViewSortInput = {
 
 export type UpdateWebhookInput = {
   description?: InputMaybe<Scalars['String']>;
+  filters?: InputMaybe<Scalars['JSON']>;
   id: Scalars['UUID'];
   operations?: InputMaybe<Array<Scalars['String']>>;
+  payloadFields?: InputMaybe<Array<Scalars['String']>>;
+  payloadFormat?: InputMaybe<WebhookPayloadFormat>;
   secret?: InputMaybe<Scalars['String']>;
   targetUrl?: InputMaybe<Scalars['String']>;
 };
@@ -4734,11 +4857,16 @@ export enum ViewVisibility {
 
 export type Webhook = {
   __typename?: 'Webhook';
+  consecutiveFailedDeliveryCount: Scalars['Int'];
   createdAt: Scalars['DateTime'];
   deletedAt?: Maybe<Scalars['DateTime']>;
   description?: Maybe<Scalars['String']>;
+  disabledAt?: Maybe<Scalars['DateTime']>;
+  filters?: Maybe<Scalars['JSON']>;
   id: Scalars['UUID'];
   operations: Array<Scalars['String']>;
+  payloadFields?: Maybe<Array<Scalars['String']>>;
+  payloadFormat: WebhookPayloadFormat;
   secret: Scalars['String'];
   targetUrl: Scalars['String'];
   updatedAt: Scalars['DateTime'];
@@ -4746,6 +4874,41 @@ export type Webhook = {
   workspaceId: Scalars['UUID'];
 };
 
+export type WebhookDelivery = {
+  __typename?: 'WebhookDelivery';
+  attemptCount: Scalars['Int'];
+  createdAt: Scalars['DateTime'];
+  error?: Maybe<Scalars['String']>;
+  eventName: Scalars['String'];
+  id: Scalars['UUID'];
+  lastAttemptAt?: Maybe<Scalars['DateTime']>;
+  nextAttemptAt?: Maybe<Scalars['DateTime']>;
+  requestBody: Scalars['JSON'];
+  responseBody?: Maybe<Scalars['String']>;
+  responseStatus?: Maybe<Scalars['Int']>;
+  status: WebhookDeliveryStatus;
+  targetUrl: Scalars['String'];
+  updatedAt: Scalars['DateTime'];
+  webhookId: Scalars['UUID'];
+  workspaceId: Scalars['UUID'];
+};
+
+export type WebhookDeliveryIdInput = {
+  id: Scalars['UUID'];
+};
+
+export enum WebhookDeliveryStatus {
+  FAILED = 'FAILED',
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED'
+}
+
+export enum WebhookPayloadFormat {
+  DIFF = 'DIFF',
+  FULL_RECORD = 'FULL_RECORD',
+  SELECTED_FIELDS = 'SELECTED_FIELDS'
+}
+
 export type WidgetConfiguration = AggregateChartConfiguration | BarChartConfiguration | GaugeChartConfiguration | IframeConfiguration | LineChartConfiguration | PieChartConfiguration | StandaloneRichTextConfiguration;
 
 export enum WidgetType {
@@ -4894,6 +5057,7 @@ export type Workspace = {
   subdomain: Scalars['String'];
   trashRetentionDays: Scalars['Float'];
   updatedAt: Scalars['DateTime'];
+  usage: WorkspaceUsage;
   version?: Maybe<Scalars['String']>;
   viewFields?: Maybe<Array<CoreViewField>>;
   viewFilterGroups?: Maybe<Array<CoreViewFilterGroup>>;
@@ -5006,6 +5170,17 @@ export type WorkspaceUrlsAndId = {
   workspaceUrls: WorkspaceUrls;
 };
 
+export type WorkspaceUsage = {
+  __typename?: 'WorkspaceUsage';
+  pendingInvitations: Scalars['Int'];
+  /** Maximum number of members, null when unlimited */
+  seatsLimit?: Maybe<Scalars['Int']>;
+  seatsUsed: Scalars['Int'];
+  /** Storage quota in bytes, null when unlimited */
+  storageQuotaBytes?: Maybe<Scalars['Float']>;
+  storageUsedBytes: Scalars['Float'];
+};
+
 export type AgentFieldsFragment = { __typename?: 'Agent', id: string, name: string, label: string, description?: string | null, icon?: string | null, prompt: string, modelId: string, responseFormat?: any | null, roleId?: string | null, isCustom: boolean, modelConfiguration?: any | null, evaluationInputs: Array<string>, applicationId?: string | null, createdAt: string, updatedAt: string };
 
 export type AssignRoleToAgentMutationVariables = Exact<{
@@ -6553,6 +6728,11 @@ export type GetWorkspaceFromInviteHashQueryVariables = Exact<{
 
 export type GetWorkspaceFromInviteHashQuery = { __typename?: 'Query', findWorkspaceFromInviteHash: { __typename?: 'Workspace', id: string, displayName?: string | null, logo?: string | null, allowImpersonation: boolean } };
 
+export type GetWorkspaceUsageQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type GetWorkspaceUsageQuery = { __typename?: 'Query', currentWorkspace: { __typename?: 'Workspace', id: string, usage: { __typename?: 'WorkspaceUsage', seatsUsed: number, pendingInvitations: number, seatsLimit?: number | null, storageUsedBytes: number, storageQuotaBytes?: number | null } } };
+
 export const AgentFieldsFragmentDoc = gql`
     fragment AgentFields on Agent {
   id
@@ -15019,4 +15199,45 @@ export function useGetWorkspaceFromInviteHashLazyQuery(baseOptions?: Apollo.Lazy
         }
 export type GetWorkspaceFromInviteHashQueryHookResult = ReturnType<typeof useGetWorkspaceFromInviteHashQuery>;
 export type GetWorkspaceFromInviteHashLazyQueryHookResult = ReturnType<typeof useGetWorkspaceFromInviteHashLazyQuery>;
-export type GetWorkspaceFromInviteHashQueryResult = Apollo.QueryResult<GetWorkspaceFromInviteHashQuery, GetWorkspaceFromInviteHashQueryVariables>;
\ No newline at end of file
+export type GetWorkspaceFromInviteHashQueryResult = Apollo.QueryResult<GetWorkspaceFromInviteHashQuery, GetWorkspaceFromInviteHashQueryVariables>;
+export const GetWorkspaceUsageDocument = gql`
+    query GetWorkspaceUsage {
+  currentWorkspace {
+    id
+    usage {
+      seatsUsed
+      pendingInvitations
+      seatsLimit
+      storageUsedBytes
+      storageQuotaBytes
+    }
+  }
+}
+    `;
+
+/**
+ * __useGetWorkspaceUsageQuery__
+ *
+ * To run a query within a React component, call `useGetWorkspaceUsageQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetWorkspaceUsageQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetWorkspaceUsageQuery({
+ *   variables: {
+ *   },
+ * });
+ */
+export function useGetWorkspaceUsageQuery(baseOptions?: Apollo.QueryHookOptions<GetWorkspaceUsageQuery, GetWorkspaceUsageQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetWorkspaceUsageQuery, GetWorkspaceUsageQueryVariables>(GetWorkspaceUsageDocument, options);
+      }
+export function useGetWorkspaceUsageLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetWorkspaceUsageQuery, GetWorkspaceUsageQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetWorkspaceUsageQuery, GetWorkspaceUsageQueryVariables>(GetWorkspaceUsageDocument, options);
+        }
+export type GetWorkspaceUsageQueryHookResult = ReturnType<typeof useGetWorkspaceUsageQuery>;
+export type GetWorkspaceUsageLazyQueryHookResult = ReturnType<typeof useGetWorkspaceUsageLazyQuery>;
+export type GetWorkspaceUsageQueryResult = Apollo.QueryResult<GetWorkspaceUsageQuery, GetWorkspaceUsageQueryVariables>;
\ No newline at end of file
@@ -839,6 +839,13 @@ export type CreateFieldInput = {
   type: FieldMetadataType;
 };
 
+export type CreateMcpPromptInput = {
+  arguments?: InputMaybe<Array<McpPromptArgumentInput>>;
+  description?: InputMaybe<Scalars['String']>;
+  name: Scalars['String'];
+  template: Scalars['String'];
+};
+
 export type CreateObjectInput = {
   description?: InputMaybe<Scalars['String']>;
   icon?: InputMaybe<Scalars['String']>;
@@ -982,7 +989,10 @@ export type CreateViewSortInput = {
 
 export type CreateWebhookInput = {
   description?: InputMaybe<Scalars['String']>;
+  filters?: InputMaybe<Scalars['JSON']>;
   operations: Array<Scalars['String']>;
+  payloadFields?: InputMaybe<Array<Scalars['String']>>;
+  payloadFormat?: InputMaybe<WebhookPayloadFormat>;
   secret?: InputMaybe<Scalars['String']>;
   targetUrl: Scalars['String'];
 };
@@ -1458,6 +1468,12 @@ export type GetServerlessFunctionSourceCodeInput = {
   version?: Scalars['String'];
 };
 
+export type GetWebhookDeliveriesInput = {
+  limit?: InputMaybe<Scalars['Int']>;
+  status?: InputMaybe<WebhookDeliveryStatus>;
+  webhookId: Scalars['UUID'];
+};
+
 export type GetWebhookInput = {
   id: Scalars['UUID'];
 };
@@ -1540,6 +1556,23 @@ export type ImpersonateOutput = {
   workspace: WorkspaceUrlsAndId;
 };
 
+export type ImportWorkflowInput = {
+  /** Activate the imported draft when every reference was resolved */
+  activate?: InputMaybe<Scalars['Boolean']>;
+  /** Workflow bundle produced by exportWorkflow */
+  bundle: Scalars['JSON'];
+};
+
+export type ImportWorkflowOutput = {
+  __typename?: 'ImportWorkflowOutput';
+  /** Whether the imported draft was activated */
+  activated: Scalars['Boolean'];
+  /** Objects, fields and workflows of the bundle missing in the workspace */
+  unresolvedReferences: Scalars['JSON'];
+  workflowId: Scalars['UUID'];
+  workflowVersionIds: Array<Scalars['UUID']>;
+};
+
 export type Index = {
   __typename?: 'Index';
   createdAt: Scalars['DateTime'];
@@ -1717,6 +1750,35 @@ export type LoginTokenOutput = {
   loginToken: AuthToken;
 };
 
+export type McpPrompt = {
+  __typename?: 'McpPrompt';
+  arguments: Array<McpPromptArgument>;
+  createdAt: Scalars['DateTime'];
+  description?: Maybe<Scalars['String']>;
+  id: Scalars['UUID'];
+  name: Scalars['String'];
+  template: Scalars['String'];
+  updatedAt: Scalars['DateTime'];
+  workspaceId: Scalars['UUID'];
+};
+
+export type McpPromptArgument = {
+  __typename?: 'McpPromptArgument';
+  description?: Maybe<Scalars['String']>;
+  name: Scalars['String'];
+  required?: Maybe<Scalars['Boolean']>;
+};
+
+export type McpPromptArgumentInput = {
+  description?: InputMaybe<Scalars['String']>;
+  name: Scalars['String'];
+  required?: InputMaybe<Scalars['Boolean']>;
+};
+
+export type McpPromptIdInput = {
+  id: Scalars['UUID'];
+};
+
 export enum MessageChannelVisibility {
   METADATA = 'METADATA',
   SHARE_EVERYTHING = 'SHARE_EVERYTHING',
@@ -1759,6 +1821,7 @@ export type Mutation = {
   createFile: File;
   createManyCoreViewFields: Array<CoreViewField>;
   createManyCoreViewGroups: Array<CoreViewGroup>;
+  createMcpPrompt: McpPrompt;
   createOIDCIdentityProvider: SetupSsoOutput;
   createObjectEvent: Analytics;
   createOneAgent: Agent;
@@ -1792,6 +1855,7 @@ export type Mutation = {
   deleteEmailingDomain: Scalars['Boolean'];
   deleteFile: File;
   deleteJobs: DeleteJobsResponse;
+  deleteMcpPrompt: McpPrompt;
   deleteOneAgent: Agent;
   deleteOneCronTrigger: CronTrigger;
   deleteOneDatabaseEventTrigger: DatabaseEventTrigger;
@@ -1837,9 +1901,11 @@ export type Mutation = {
   getAuthorizationUrlForSSO: GetAuthorizationUrlForSsoOutput;
   getLoginTokenFromCredentials: LoginTokenOutput;
   impersonate: ImpersonateOutput;
+  importWorkflow: ImportWorkflowOutput;
   initiateOTPProvisioning: InitiateTwoFactorAuthenticationProvisioningOutput;
   initiateOTPProvisioningForAuthenticatedUser: InitiateTwoFactorAuthenticationProvisioningOutput;
   publishServerlessFunction: ServerlessFunction;
+  redeliverWebhookDelivery: WebhookDelivery;
   removeRoleFromAgent: Scalars['Boolean'];
   renewToken: AuthTokens;
   resendEmailVerificationToken: ResendEmailVerificationTokenOutput;
@@ -1877,6 +1943,7 @@ export type Mutation = {
   updateCoreViewSort: CoreViewSort;
   updateDatabaseConfigVariable: Scalars['Boolean'];
   updateLabPublicFeatureFlag: FeatureFlagDto;
+  updateMcpPrompt: McpPrompt;
   updateOneAgent: Agent;
   updateOneApplicationVariable: Scalars['Boolean'];
   updateOneCronTrigger: CronTrigger;
@@ -2035,6 +2102,10 @@ export type MutationCreateManyCoreViewGroupsArgs = {
 };
 
 
+export type MutationCreateMcpPromptArgs = {
+  input: CreateMcpPromptInput;
+};
+
 export type MutationCreateOidcIdentityProviderArgs = {
   input: SetupOidcSsoInput;
 };
@@ -2195,6 +2266,10 @@ export type MutationDeleteJobsArgs = {
 };
 
 
+export type MutationDeleteMcpPromptArgs = {
+  input: McpPromptIdInput;
+};
+
 export type MutationDeleteOneAgentArgs = {
   input: AgentIdInput;
 };
@@ -2407,6 +2482,11 @@ export type MutationImpersonateArgs = {
 };
 
 
+export type MutationImportWorkflowArgs = {
+  input: ImportWorkflowInput;
+};
+
+
 export type MutationInitiateOtpProvisioningArgs = {
   loginToken: Scalars['String'];
   origin: Scalars['String'];
@@ -2418,6 +2498,11 @@ export type MutationPublishServerlessFunctionArgs = {
 };
 
 
+export type MutationRedeliverWebhookDeliveryArgs = {
+  input: WebhookDeliveryIdInput;
+};
+
+
 export type MutationRemoveRoleFromAgentArgs = {
   agentId: Scalars['UUID'];
 };
@@ -2607,6 +2692,10 @@ export type MutationUpdateLabPublicFeatureFlagArgs = {
 };
 
 
+export type MutationUpdateMcpPromptArgs = {
+  input: UpdateMcpPromptInput;
+};
+
 export type MutationUpdateOneAgentArgs = {
   input: UpdateAgentInput;
 };
@@ -3148,6 +3237,7 @@ export type Query = {
   checkWorkspaceInviteHashIsValid: WorkspaceInviteHashValidOutput;
   currentUser: User;
   currentWorkspace: Workspace;
+  exportWorkflow: Scalars['JSON'];
   field: Field;
   fields: FieldConnection;
   findManyAgents: Array<Agent>;
@@ -3210,12 +3300,15 @@ export type Query = {
   index: Index;
   indexMetadatas: IndexConnection;
   listPlans: Array<BillingPlanOutput>;
+  mcpPrompts: Array<McpPrompt>;
   object: Object;
   objects: ObjectConnection;
   search: SearchResultConnection;
   validatePasswordResetToken: ValidatePasswordResetTokenOutput;
   versionInfo: VersionInfo;
   webhook?: Maybe<Webhook>;
+  webhookDeliveries: Array<WebhookDelivery>;
+  webhookDelivery?: Maybe<WebhookDelivery>;
   webhooks: Array<Webhook>;
 };
 
@@ -3241,6 +3334,11 @@ export type QueryCheckWorkspaceInviteHashIsValidArgs = {
 };
 
 
+export type QueryExportWorkflowArgs = {
+  workflowId: Scalars['UUID'];
+};
+
+
 export type QueryFindOneAgentArgs = {
   input: AgentIdInput;
 };
@@ -3485,6 +3583,16 @@ export type QueryWebhookArgs = {
   input: GetWebhookInput;
 };
 
+
+export type QueryWebhookDeliveriesArgs = {
+  input: GetWebhookDeliveriesInput;
+};
+
+
+export type QueryWebhookDeliveryArgs = {
+  input: WebhookDeliveryIdInput;
+};
+
 export type QueueJob = {
   __typename?: 'QueueJob';
   attemptsMade: Scalars['Float'];
@@ -3663,8 +3771,12 @@ export type RouteTriggerIdInput = {
 };
 
 export type RunWorkflowVersionInput = {
+  /** Simulate the steps with side effects */
+  isTestRun?: InputMaybe<Scalars['Boolean']>;
   /** Execution result in JSON format */
   payload?: InputMaybe<Scalars['JSON']>;
+  /** Step outputs to use during a test run, by step ID */
+  testRunFixtures?: InputMaybe<Scalars['JSON']>;
   /** Workflow run ID */
   workflowRunId?: InputMaybe<Scalars['UUID']>;
   /** Workflow version ID */
@@ -4028,6 +4140,14 @@ export type TwoFactorAuthenticationMethodDto = {
   twoFactorAuthenticationMethodId: Scalars['UUID'];
 };
 
+export type UpdateMcpPromptInput = {
+  arguments?: InputMaybe<Array<McpPromptArgumentInput>>;
+  description?: InputMaybe<Scalars['String']>;
+  id: Scalars['UUID'];
+  name?: InputMaybe<Scalars['String']>;
+  template?: InputMaybe<Scalars['String']>;
+};
+
 export type UuidFilter = {
   eq?: InputMaybe<Scalars['UUID']>;
   gt?: InputMaybe<Scalars['UUID']>;
@@ -4320,8 +4440,11 @@ export type UpdateViewSortInput = {
 
 export type UpdateWebhookInput = {
   description?: InputMaybe<Scalars['String']>;
+  filters?: InputMaybe<Scalars['JSON']>;
   id: Scalars['UUID'];
   operations?: InputMaybe<Array<Scalars['String']>>;
+  payloadFields?: InputMaybe<Array<Scalars['String']>>;
+  payloadFormat?: InputMaybe<WebhookPayloadFormat>;
   secret?: InputMaybe<Scalars['String']>;
   targetUrl?: InputMaybe<Scalars['String']>;
 };
@@ -4553,11 +4676,16 @@ export enum ViewVisibility {
 
 export type Webhook = {
   __typename?: 'Webhook';
+  consecutiveFailedDeliveryCount: Scalars['Int'];
   createdAt: Scalars['DateTime'];
   deletedAt?: Maybe<Scalars['DateTime']>;
   description?: Maybe<Scalars['String']>;
+  disabledAt?: Maybe<Scalars['DateTime']>;
+  filters?: Maybe<Scalars['JSON']>;
   id: Scalars['UUID'];
   operations: Array<Scalars['String']>;
+  payloadFields?: Maybe<Array<Scalars['String']>>;
+  payloadFormat: WebhookPayloadFormat;
   secret: Scalars['String'];
   targetUrl: Scalars['String'];
   updatedAt: Scalars['DateTime'];
@@ -4565,6 +4693,41 @@ export type Webhook = {
   workspaceId: Scalars['UUID'];
 };
 
+export type WebhookDelivery = {
+  __typename?: 'WebhookDelivery';
+  attemptCount: Scalars['Int'];
+  createdAt: Scalars['DateTime'];
+  error?: Maybe<Scalars['String']>;
+  eventName: Scalars['String'];
+  id: Scalars['UUID'];
+  lastAttemptAt?: Maybe<Scalars['DateTime']>;
+  nextAttemptAt?: Maybe<Scalars['DateTime']>;
+  requestBody: Scalars['JSON'];
+  responseBody?: Maybe<Scalars['String']>;
+  responseStatus?: Maybe<Scalars['Int']>;
+  status: WebhookDeliveryStatus;
+  targetUrl: Scalars['String'];
+  updatedAt: Scalars['DateTime'];
+  webhookId: Scalars['UUID'];
+  workspaceId: Scalars['UUID'];
+};
+
+export type WebhookDeliveryIdInput = {
+  id: Scalars['UUID'];
+};
+
+export enum WebhookDeliveryStatus {
+  FAILED = 'FAILED',
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED'
+}
+
+export enum WebhookPayloadFormat {
+  DIFF = 'DIFF',
+  FULL_RECORD = 'FULL_RECORD',
+  SELECTED_FIELDS = 'SELECTED_FIELDS'
+}
+
 export type WidgetConfiguration = AggregateChartConfiguration | BarChartConfiguration | GaugeChartConfiguration | IframeConfiguration | LineChartConfiguration | PieChartConfiguration | StandaloneRichTextConfiguration;
 
 export enum WidgetType {
@@ -4713,6 +4876,7 @@ export type Workspace = {
   subdomain: Scalars['String'];
   trashRetentionDays: Scalars['Float'];
   updatedAt: Scalars['DateTime'];
+  usage: WorkspaceUsage;
   version?: Maybe<Scalars['String']>;
   viewFields?: Maybe<Array<CoreViewField>>;
   viewFilterGroups?: Maybe<Array<CoreViewFilterGroup>>;
@@ -4825,6 +4989,17 @@ export type WorkspaceUrlsAndId = {
   workspaceUrls: WorkspaceUrls;
 };
 
+export type WorkspaceUsage = {
+  __typename?: 'WorkspaceUsage';
+  pendingInvitations: Scalars['Int'];
+  /** Maximum number of members, null when unlimited */
+  seatsLimit?: Maybe<Scalars['Int']>;
+  seatsUsed: Scalars['Int'];
+  /** Storage quota in bytes, null when unlimited */
+  storageQuotaBytes?: Maybe<Scalars['Float']>;
+  storageUsedBytes: Scalars['Float'];
+};
+
 export type SearchQueryVariables = Exact<{
   searchInput: Scalars['String'];
   limit: Scalars['Int'];
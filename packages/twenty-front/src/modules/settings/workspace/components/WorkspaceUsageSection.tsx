@@ -0,0 +1,81 @@
+import { SettingsBillingLabelValueItem } from '@/billing/components/internal/SettingsBillingLabelValueItem';
+import { SubscriptionInfoContainer } from '@/billing/components/SubscriptionInfoContainer';
+import { formatFileSize } from '@/file/utils/formatFileSize';
+import { useTheme } from '@emotion/react';
+import { useLingui } from '@lingui/react/macro';
+import { isDefined } from 'twenty-shared/utils';
+import { H2Title } from 'twenty-ui/display';
+import { ProgressBar } from 'twenty-ui/feedback';
+import { Section } from 'twenty-ui/layout';
+import { BACKGROUND_LIGHT } from 'twenty-ui/theme';
+import { useGetWorkspaceUsageQuery } from '~/generated-metadata/graphql';
+
+const getUsagePercentage = (used: number, limit: number) =>
+  limit > 0 ? Math.min((used / limit) * 100, 100) : 100;
+
+export const WorkspaceUsageSection = () => {
+  const { t } = useLingui();
+  const theme = useTheme();
+
+  const { data } = useGetWorkspaceUsageQuery({
+    fetchPolicy: 'network-only',
+  });
+
+  const usage = data?.currentWorkspace.usage;
+
+  if (!isDefined(usage)) {
+    return null;
+  }
+
+  const { seatsUsed, seatsLimit, storageUsedBytes, storageQuotaBytes } = usage;
+
+  const seatsValue = isDefined(seatsLimit)
+    ? `${seatsUsed}/${seatsLimit}`
+    : t`${seatsUsed} (unlimited)`;
+
+  const formattedStorageUsed = formatFileSize(storageUsedBytes);
+  const storageValue = isDefined(storageQuotaBytes)
+    ? `${formattedStorageUsed}/${formatFileSize(storageQuotaBytes)}`
+    : t`${formattedStorageUsed} (unlimited)`;
+
+  const getBarColor = (percentage: number) =>
+    percentage >= 100 ? theme.color.red8 : theme.color.blue;
+
+  return (
+    <Section>
+      <H2Title
+        title={t`Usage`}
+        description={t`Members and file storage used by this workspace`}
+      />
+      <SubscriptionInfoContainer>
+        <SettingsBillingLabelValueItem label={t`Members`} value={seatsValue} />
+        {isDefined(seatsLimit) && (
+          <ProgressBar
+            value={getUsagePercentage(seatsUsed, seatsLimit)}
+            barColor={getBarColor(getUsagePercentage(seatsUsed, seatsLimit))}
+            backgroundColor={BACKGROUND_LIGHT.tertiary}
+            withBorderRadius={true}
+          />
+        )}
+        <SettingsBillingLabelValueItem
+          label={t`Pending invitations`}
+          value={`${usage.pendingInvitations}`}
+        />
+        <SettingsBillingLabelValueItem
+          label={t`Storage`}
+          value={storageValue}
+        />
+        {isDefined(storageQuotaBytes) && (
+          <ProgressBar
+            value={getUsagePercentage(storageUsedBytes, storageQuotaBytes)}
+            barColor={getBarColor(
+              getUsagePercentage(storageUsedBytes, storageQuotaBytes),
+            )}
+            backgroundColor={BACKGROUND_LIGHT.tertiary}
+            withBorderRadius={true}
+          />
+        )}
+      </SubscriptionInfoContainer>
+    </Section>
+  );
+};
@@ -73,10 +73,12 @@ export const useRunWorkflowVersion = () => {
     workflowId,
     workflowVersionId,
     payload,
+    isTestRun = false,
   }: {
     workflowId: string;
     workflowVersionId: string;
     payload?: Record<string, any>;
+    isTestRun?: boolean;
   }) => {
     const workflowRunId = v4();
 
@@ -86,6 +88,7 @@ export const useRunWorkflowVersion = () => {
       workflowVersionId,
       workflowId,
       createdAt: new Date().toISOString(),
+      isTestRun,
     };
 
     const optimisticRecordInput = computeOptimisticRecordFromInput({
@@ -141,7 +144,9 @@ export const useRunWorkflowVersion = () => {
     });
 
     await mutate({
-      variables: { input: { workflowVersionId, workflowRunId, payload } },
+      variables: {
+        input: { workflowVersionId, workflowRunId, payload, isTestRun },
+      },
     });
   };
 
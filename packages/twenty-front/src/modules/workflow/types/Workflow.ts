@@ -8,21 +8,26 @@ import {
   type workflowCronTriggerSchema,
   type workflowDatabaseEventTriggerSchema,
   type workflowDeleteRecordActionSchema,
+  type workflowEmailReceivedTriggerSchema,
   type workflowEmptyActionSchema,
   type workflowFilterActionSchema,
   type workflowFindRecordsActionSchema,
   type workflowFormActionSchema,
   type workflowHttpRequestActionSchema,
+  type workflowIfElseActionSchema,
   type workflowIteratorActionSchema,
   type workflowManualTriggerSchema,
   type workflowRunSchema,
+  type workflowRunWorkflowActionSchema,
   type workflowRunStateSchema,
   type workflowRunStatusSchema,
   type workflowRunStepStatusSchema,
   type workflowSendEmailActionSchema,
+  type workflowSwitchActionSchema,
   type workflowTriggerSchema,
   type workflowUpdateRecordActionSchema,
   type workflowUpsertRecordActionSchema,
+  type workflowWaitForEventActionSchema,
   type workflowWebhookTriggerSchema,
   type workflowDelayActionSchema,
 } from 'twenty-shared/workflow';
@@ -56,6 +61,14 @@ export type WorkflowHttpRequestAction = z.infer<
 export type WorkflowIteratorAction = z.infer<
   typeof workflowIteratorActionSchema
 >;
+export type WorkflowIfElseAction = z.infer<typeof workflowIfElseActionSchema>;
+export type WorkflowSwitchAction = z.infer<typeof workflowSwitchActionSchema>;
+export type WorkflowRunWorkflowAction = z.infer<
+  typeof workflowRunWorkflowActionSchema
+>;
+export type WorkflowWaitForEventAction = z.infer<
+  typeof workflowWaitForEventActionSchema
+>;
 export type WorkflowAiAgentAction = z.infer<typeof workflowAiAgentActionSchema>;
 export type WorkflowEmptyAction = z.infer<typeof workflowEmptyActionSchema>;
 
@@ -73,6 +86,10 @@ export type WorkflowAction =
   | WorkflowAiAgentAction
   | WorkflowIteratorAction
   | WorkflowDelayAction
+  | WorkflowIfElseAction
+  | WorkflowSwitchAction
+  | WorkflowRunWorkflowAction
+  | WorkflowWaitForEventAction
   | WorkflowEmptyAction;
 
 export type WorkflowActionType = WorkflowAction['type'];
@@ -86,6 +103,9 @@ export type WorkflowCronTrigger = z.infer<typeof workflowCronTriggerSchema>;
 export type WorkflowWebhookTrigger = z.infer<
   typeof workflowWebhookTriggerSchema
 >;
+export type WorkflowEmailReceivedTrigger = z.infer<
+  typeof workflowEmailReceivedTriggerSchema
+>;
 
 export type WorkflowManualTriggerSettings = WorkflowManualTrigger['settings'];
 export type WorkflowManualTriggerAvailability =
@@ -0,0 +1,83 @@
+import {
+  type WorkflowIfElseAction,
+  type WorkflowStep,
+  type WorkflowSwitchAction,
+  type WorkflowWaitForEventAction,
+} from '@/workflow/types/Workflow';
+import { type WorkflowContext } from '@/workflow/workflow-diagram/types/WorkflowContext';
+import {
+  type WorkflowDiagramEdge,
+  type WorkflowDiagramNode,
+} from '@/workflow/workflow-diagram/types/WorkflowDiagram';
+import { generateNodesAndEdgesForDefaultNode } from '@/workflow/workflow-diagram/utils/generateNodesAndEdgesForDefaultNode';
+import { Position } from '@xyflow/react';
+
+// Branch steps are drawn as default nodes whose outgoing edges carry the
+// labels of the branches leading to their target
+export const generateNodesAndEdgesForBranchNode = ({
+  step,
+  steps,
+  xPos,
+  yPos,
+  nodes,
+  edges,
+  workflowContext,
+}: {
+  step:
+    | WorkflowIfElseAction
+    | WorkflowSwitchAction
+    | WorkflowWaitForEventAction;
+  steps: WorkflowStep[];
+  yPos: number;
+  xPos: number;
+  nodes: readonly WorkflowDiagramNode[];
+  edges: readonly WorkflowDiagramEdge[];
+  workflowContext: WorkflowContext;
+}): {
+  nodes: Array<WorkflowDiagramNode>;
+  edges: Array<WorkflowDiagramEdge>;
+} => {
+  const { nodes: updatedNodes, edges: updatedEdges } =
+    generateNodesAndEdgesForDefaultNode({
+      step,
+      steps,
+      xPos,
+      yPos,
+      nodes,
+      edges,
+      workflowContext,
+    });
+
+  const branches: Array<{ label: string; nextStepIds: string[] }> =
+    step.settings.input.branches ?? [];
+
+  return {
+    nodes: updatedNodes,
+    edges: updatedEdges.map((edge) => {
+      if (edge.source !== step.id) {
+        return edge;
+      }
+
+      const label = branches
+        .filter((branch) => branch.nextStepIds.includes(edge.target))
+        .map((branch) => branch.label)
+        .join(' / ');
+
+      if (label === '') {
+        return edge;
+      }
+
+      return {
+        ...edge,
+        data: {
+          ...edge.data,
+          edgeType: 'default',
+          labelOptions: {
+            position: Position.Bottom,
+            label: { id: label, message: label },
+          },
+        },
+      };
+    }),
+  };
+};
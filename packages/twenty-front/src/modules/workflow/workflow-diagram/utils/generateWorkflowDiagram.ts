@@ -11,6 +11,7 @@ import {
   type WorkflowDiagramEdge,
   type WorkflowDiagramNode,
 } from '@/workflow/workflow-diagram/types/WorkflowDiagram';
+import { generateNodesAndEdgesForBranchNode } from '@/workflow/workflow-diagram/utils/generateNodesAndEdgesForBranchNode';
 import { generateNodesAndEdgesForDefaultNode } from '@/workflow/workflow-diagram/utils/generateNodesAndEdgesForDefaultNode';
 import { generateNodesAndEdgesForIteratorNode } from '@/workflow/workflow-diagram/utils/generateNodesAndEdgesForIteratorNode';
 import { getEdgeTypeBetweenTwoNodes } from '@/workflow/workflow-diagram/utils/getEdgeTypeBetweenTwoNodes';
@@ -87,6 +88,25 @@ export const generateWorkflowDiagram = ({
 
         break;
       }
+      case 'IF_ELSE':
+      case 'SWITCH':
+      case 'WAIT_FOR_EVENT': {
+        const { nodes: branchNodes, edges: branchEdges } =
+          generateNodesAndEdgesForBranchNode({
+            step,
+            steps,
+            xPos,
+            yPos: levelYPos,
+            nodes,
+            edges,
+            workflowContext,
+          });
+
+        nodes = branchNodes;
+        edges = branchEdges;
+
+        break;
+      }
       default: {
         const { nodes: defaultNodes, edges: defaultEdges } =
           generateNodesAndEdgesForDefaultNode({
@@ -34,6 +34,12 @@ export const getWorkflowDiagramTriggerNode = ({
 
       break;
     }
+    case 'EMAIL_RECEIVED': {
+      triggerDefaultLabel = 'Email Received';
+      triggerIcon = getTriggerIcon(trigger);
+
+      break;
+    }
     case 'DATABASE_EVENT': {
       const triggerEvent = splitWorkflowTriggerEventName(
         trigger.settings.eventName,
@@ -21,7 +21,8 @@ export const WorkflowDiagramStepNodeIcon = ({
         }
         case 'MANUAL':
         case 'CRON':
-        case 'WEBHOOK': {
+        case 'WEBHOOK':
+        case 'EMAIL_RECEIVED': {
           return <Icon size={theme.icon.size.md} color={theme.color.purple} />;
         }
       }
@@ -52,6 +53,10 @@ export const WorkflowDiagramStepNodeIcon = ({
         case 'DELAY':
         case 'FILTER':
         case 'ITERATOR':
+        case 'IF_ELSE':
+        case 'SWITCH':
+        case 'RUN_WORKFLOW':
+        case 'WAIT_FOR_EVENT':
           return <Icon size={theme.icon.size.md} color={theme.color.green12} />;
         default: {
           return (
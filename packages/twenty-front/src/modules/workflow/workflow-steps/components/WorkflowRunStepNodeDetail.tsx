@@ -5,6 +5,8 @@ import {
 } from '@/workflow/types/Workflow';
 import { getStepDefinitionOrThrow } from '@/workflow/utils/getStepDefinitionOrThrow';
 import { WorkflowEditActionAiAgent } from '@/workflow/workflow-steps/workflow-actions/ai-agent-action/components/WorkflowEditActionAiAgent';
+import { WorkflowEditActionIfElse } from '@/workflow/workflow-steps/workflow-actions/branch-action/components/WorkflowEditActionIfElse';
+import { WorkflowEditActionSwitch } from '@/workflow/workflow-steps/workflow-actions/branch-action/components/WorkflowEditActionSwitch';
 import { WorkflowActionServerlessFunction } from '@/workflow/workflow-steps/workflow-actions/code-action/components/WorkflowActionServerlessFunction';
 import { WorkflowEditActionCreateRecord } from '@/workflow/workflow-steps/workflow-actions/components/WorkflowEditActionCreateRecord';
 import { WorkflowEditActionDeleteRecord } from '@/workflow/workflow-steps/workflow-actions/components/WorkflowEditActionDeleteRecord';
@@ -18,8 +20,11 @@ import { WorkflowEditActionFindRecords } from '@/workflow/workflow-steps/workflo
 import { WorkflowEditActionFormFiller } from '@/workflow/workflow-steps/workflow-actions/form-action/components/WorkflowEditActionFormFiller';
 import { WorkflowEditActionHttpRequest } from '@/workflow/workflow-steps/workflow-actions/http-request-action/components/WorkflowEditActionHttpRequest';
 import { WorkflowEditActionIterator } from '@/workflow/workflow-steps/workflow-actions/iterator-action/components/WorkflowEditActionIterator';
+import { WorkflowEditActionRunWorkflow } from '@/workflow/workflow-steps/workflow-actions/run-workflow-action/components/WorkflowEditActionRunWorkflow';
+import { WorkflowEditActionWaitForEvent } from '@/workflow/workflow-steps/workflow-actions/wait-for-event-action/components/WorkflowEditActionWaitForEvent';
 import { WorkflowEditTriggerCronForm } from '@/workflow/workflow-trigger/components/WorkflowEditTriggerCronForm';
 import { WorkflowEditTriggerDatabaseEventForm } from '@/workflow/workflow-trigger/components/WorkflowEditTriggerDatabaseEventForm';
+import { WorkflowEditTriggerEmailReceivedForm } from '@/workflow/workflow-trigger/components/WorkflowEditTriggerEmailReceivedForm';
 import { WorkflowEditTriggerManual } from '@/workflow/workflow-trigger/components/WorkflowEditTriggerManual';
 import { WorkflowEditTriggerWebhookForm } from '@/workflow/workflow-trigger/components/WorkflowEditTriggerWebhookForm';
 import { assertUnreachable, isDefined } from 'twenty-shared/utils';
@@ -94,6 +99,17 @@ export const WorkflowRunStepNodeDetail = ({
             />
           );
         }
+        case 'EMAIL_RECEIVED': {
+          return (
+            <WorkflowEditTriggerEmailReceivedForm
+              key={stepId}
+              trigger={stepDefinition.definition}
+              triggerOptions={{
+                readonly: true,
+              }}
+            />
+          );
+        }
       }
 
       return assertUnreachable(
@@ -251,6 +267,50 @@ export const WorkflowRunStepNodeDetail = ({
             />
           );
         }
+        case 'IF_ELSE': {
+          return (
+            <WorkflowEditActionIfElse
+              key={stepId}
+              action={stepDefinition.definition}
+              actionOptions={{
+                readonly: true,
+              }}
+            />
+          );
+        }
+        case 'SWITCH': {
+          return (
+            <WorkflowEditActionSwitch
+              key={stepId}
+              action={stepDefinition.definition}
+              actionOptions={{
+                readonly: true,
+              }}
+            />
+          );
+        }
+        case 'RUN_WORKFLOW': {
+          return (
+            <WorkflowEditActionRunWorkflow
+              key={stepId}
+              action={stepDefinition.definition}
+              actionOptions={{
+                readonly: true,
+              }}
+            />
+          );
+        }
+        case 'WAIT_FOR_EVENT': {
+          return (
+            <WorkflowEditActionWaitForEvent
+              key={stepId}
+              action={stepDefinition.definition}
+              actionOptions={{
+                readonly: true,
+              }}
+            />
+          );
+        }
         case 'DELAY': {
           return (
             <WorkflowEditActionDelay
@@ -0,0 +1,65 @@
+import { FormTextFieldInput } from '@/object-record/record-field/ui/form-types/components/FormTextFieldInput';
+import { type WorkflowIfElseAction } from '@/workflow/types/Workflow';
+import { WorkflowStepBody } from '@/workflow/workflow-steps/components/WorkflowStepBody';
+import { WorkflowStepFooter } from '@/workflow/workflow-steps/components/WorkflowStepFooter';
+import { useLingui } from '@lingui/react/macro';
+import { isDefined } from 'twenty-shared/utils';
+
+type WorkflowEditActionIfElseProps = {
+  action: WorkflowIfElseAction;
+  actionOptions:
+    | {
+        readonly: true;
+      }
+    | {
+        readonly?: false;
+        onActionUpdate: (action: WorkflowIfElseAction) => void;
+      };
+};
+
+export const WorkflowEditActionIfElse = ({
+  action,
+  actionOptions,
+}: WorkflowEditActionIfElseProps) => {
+  const { t } = useLingui();
+
+  const handleBranchLabelChange = (branchId: string, label: string) => {
+    if (actionOptions.readonly === true) {
+      return;
+    }
+
+    actionOptions.onActionUpdate({
+      ...action,
+      settings: {
+        ...action.settings,
+        input: {
+          ...action.settings.input,
+          branches: action.settings.input.branches.map((branch) =>
+            branch.id === branchId ? { ...branch, label } : branch,
+          ),
+        },
+      },
+    });
+  };
+
+  return (
+    <>
+      <WorkflowStepBody>
+        {action.settings.input.branches.map((branch) => (
+          <FormTextFieldInput
+            key={branch.id}
+            label={
+              isDefined(branch.filterGroupId)
+                ? t`Branch label`
+                : t`Else branch label`
+            }
+            defaultValue={branch.label}
+            onChange={(label) => handleBranchLabelChange(branch.id, label)}
+            readonly={actionOptions.readonly}
+          />
+        ))}
+      </WorkflowStepBody>
+      {!actionOptions.readonly && <WorkflowStepFooter stepId={action.id} />}
+    </>
+  );
+};
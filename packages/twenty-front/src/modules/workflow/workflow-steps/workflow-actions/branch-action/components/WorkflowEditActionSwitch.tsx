@@ -0,0 +1,102 @@
+import { FormTextFieldInput } from '@/object-record/record-field/ui/form-types/components/FormTextFieldInput';
+import { type WorkflowSwitchAction } from '@/workflow/types/Workflow';
+import { WorkflowStepBody } from '@/workflow/workflow-steps/components/WorkflowStepBody';
+import { WorkflowStepFooter } from '@/workflow/workflow-steps/components/WorkflowStepFooter';
+import { WorkflowVariablePicker } from '@/workflow/workflow-variables/components/WorkflowVariablePicker';
+import { useLingui } from '@lingui/react/macro';
+import { isDefined } from 'twenty-shared/utils';
+import { HorizontalSeparator } from 'twenty-ui/display';
+
+type WorkflowSwitchBranch =
+  WorkflowSwitchAction['settings']['input']['branches'][number];
+
+type WorkflowEditActionSwitchProps = {
+  action: WorkflowSwitchAction;
+  actionOptions:
+    | {
+        readonly: true;
+      }
+    | {
+        readonly?: false;
+        onActionUpdate: (action: WorkflowSwitchAction) => void;
+      };
+};
+
+export const WorkflowEditActionSwitch = ({
+  action,
+  actionOptions,
+}: WorkflowEditActionSwitchProps) => {
+  const { t } = useLingui();
+
+  const updateInput = (
+    input: Partial<WorkflowSwitchAction['settings']['input']>,
+  ) => {
+    if (actionOptions.readonly === true) {
+      return;
+    }
+
+    actionOptions.onActionUpdate({
+      ...action,
+      settings: {
+        ...action.settings,
+        input: {
+          ...action.settings.input,
+          ...input,
+        },
+      },
+    });
+  };
+
+  const handleBranchChange = (
+    branchId: string,
+    update: Partial<Pick<WorkflowSwitchBranch, 'label' | 'caseValue'>>,
+  ) => {
+    updateInput({
+      branches: action.settings.input.branches.map((branch) =>
+        branch.id === branchId ? { ...branch, ...update } : branch,
+      ),
+    });
+  };
+
+  return (
+    <>
+      <WorkflowStepBody>
+        <FormTextFieldInput
+          label={t`Value`}
+          placeholder={t`Enter value or variable expression`}
+          defaultValue={action.settings.input.value}
+          onChange={(value) => updateInput({ value })}
+          readonly={actionOptions.readonly}
+          VariablePicker={WorkflowVariablePicker}
+        />
+        {action.settings.input.branches.map((branch) => (
+          <div key={branch.id}>
+            <HorizontalSeparator noMargin />
+            <FormTextFieldInput
+              label={
+                isDefined(branch.caseValue)
+                  ? t`Branch label`
+                  : t`Default branch label`
+              }
+              defaultValue={branch.label}
+              onChange={(label) => handleBranchChange(branch.id, { label })}
+              readonly={actionOptions.readonly}
+            />
+            {isDefined(branch.caseValue) && (
+              <FormTextFieldInput
+                label={t`Case value`}
+                defaultValue={branch.caseValue}
+                onChange={(caseValue) =>
+                  handleBranchChange(branch.id, { caseValue })
+                }
+                readonly={actionOptions.readonly}
+                VariablePicker={WorkflowVariablePicker}
+              />
+            )}
+          </div>
+        ))}
+      </WorkflowStepBody>
+      {!actionOptions.readonly && <WorkflowStepFooter stepId={action.id} />}
+    </>
+  );
+};
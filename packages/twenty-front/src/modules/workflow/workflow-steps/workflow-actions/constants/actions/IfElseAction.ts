@@ -0,0 +1,11 @@
+import { type WorkflowActionType } from '@/workflow/types/Workflow';
+
+export const IF_ELSE_ACTION: {
+  defaultLabel: string;
+  type: Extract<WorkflowActionType, 'IF_ELSE'>;
+  icon: string;
+} = {
+  defaultLabel: 'If / Else',
+  type: 'IF_ELSE',
+  icon: 'IconGitBranch',
+};
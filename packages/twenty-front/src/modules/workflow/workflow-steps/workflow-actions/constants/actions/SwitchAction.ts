@@ -0,0 +1,11 @@
+import { type WorkflowActionType } from '@/workflow/types/Workflow';
+
+export const SWITCH_ACTION: {
+  defaultLabel: string;
+  type: Extract<WorkflowActionType, 'SWITCH'>;
+  icon: string;
+} = {
+  defaultLabel: 'Switch',
+  type: 'SWITCH',
+  icon: 'IconArrowsSplit',
+};
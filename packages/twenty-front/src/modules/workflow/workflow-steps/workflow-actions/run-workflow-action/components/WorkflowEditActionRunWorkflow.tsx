@@ -0,0 +1,85 @@
+import { FormBooleanFieldInput } from '@/object-record/record-field/ui/form-types/components/FormBooleanFieldInput';
+import { FormRawJsonFieldInput } from '@/object-record/record-field/ui/form-types/components/FormRawJsonFieldInput';
+import { FormSingleRecordPicker } from '@/object-record/record-field/ui/form-types/components/FormSingleRecordPicker';
+import { type WorkflowRunWorkflowAction } from '@/workflow/types/Workflow';
+import { WorkflowStepBody } from '@/workflow/workflow-steps/components/WorkflowStepBody';
+import { WorkflowStepFooter } from '@/workflow/workflow-steps/components/WorkflowStepFooter';
+import { WorkflowVariablePicker } from '@/workflow/workflow-variables/components/WorkflowVariablePicker';
+import { useLingui } from '@lingui/react/macro';
+import { isString } from '@sniptt/guards';
+
+type WorkflowEditActionRunWorkflowProps = {
+  action: WorkflowRunWorkflowAction;
+  actionOptions:
+    | {
+        readonly: true;
+      }
+    | {
+        readonly?: false;
+        onActionUpdate: (action: WorkflowRunWorkflowAction) => void;
+      };
+};
+
+export const WorkflowEditActionRunWorkflow = ({
+  action,
+  actionOptions,
+}: WorkflowEditActionRunWorkflowProps) => {
+  const { t } = useLingui();
+
+  const updateInput = (
+    input: Partial<WorkflowRunWorkflowAction['settings']['input']>,
+  ) => {
+    if (actionOptions.readonly === true) {
+      return;
+    }
+
+    actionOptions.onActionUpdate({
+      ...action,
+      settings: {
+        ...action.settings,
+        input: {
+          ...action.settings.input,
+          ...input,
+        },
+      },
+    });
+  };
+
+  const payload = action.settings.input.payload;
+
+  return (
+    <>
+      <WorkflowStepBody>
+        <FormSingleRecordPicker
+          testId="workflow-run-workflow-workflow-id"
+          label={t`Workflow`}
+          objectNameSingulars={['workflow']}
+          defaultValue={action.settings.input.workflowId}
+          onChange={(workflowId) =>
+            updateInput({ workflowId: workflowId ?? '' })
+          }
+          disabled={actionOptions.readonly}
+        />
+        <FormRawJsonFieldInput
+          label={t`Payload`}
+          placeholder={t`Enter the manual trigger payload as JSON`}
+          defaultValue={
+            isString(payload) ? payload : JSON.stringify(payload, null, 2)
+          }
+          onChange={(payload) => updateInput({ payload: payload ?? '{}' })}
+          readonly={actionOptions.readonly}
+          VariablePicker={WorkflowVariablePicker}
+        />
+        <FormBooleanFieldInput
+          label={t`Wait for completion`}
+          defaultValue={action.settings.input.waitForCompletion}
+          onChange={(waitForCompletion) =>
+            updateInput({ waitForCompletion: waitForCompletion === true })
+          }
+          readonly={actionOptions.readonly}
+        />
+      </WorkflowStepBody>
+      {!actionOptions.readonly && <WorkflowStepFooter stepId={action.id} />}
+    </>
+  );
+};
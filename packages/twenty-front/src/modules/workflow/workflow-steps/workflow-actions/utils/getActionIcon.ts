@@ -24,6 +24,10 @@ export const getActionIcon = (actionType: WorkflowActionType) => {
     case 'ITERATOR':
     case 'DELAY':
     case 'FILTER':
+    case 'IF_ELSE':
+    case 'SWITCH':
+    case 'RUN_WORKFLOW':
+    case 'WAIT_FOR_EVENT':
       return FLOW_ACTIONS.find((item) => item.type === actionType)?.icon;
     case 'EMPTY':
       return 'IconSettingsAutomation';
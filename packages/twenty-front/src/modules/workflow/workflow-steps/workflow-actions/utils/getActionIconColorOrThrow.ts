@@ -26,6 +26,10 @@ export const getActionIconColorOrThrow = ({
     case 'EMPTY':
     case 'FILTER':
     case 'DELAY':
+    case 'IF_ELSE':
+    case 'SWITCH':
+    case 'RUN_WORKFLOW':
+    case 'WAIT_FOR_EVENT':
       return theme.color.green12;
     case 'AI_AGENT':
       return theme.color.pink;
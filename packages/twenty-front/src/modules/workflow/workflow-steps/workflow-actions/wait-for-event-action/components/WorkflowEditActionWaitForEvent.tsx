@@ -0,0 +1,210 @@
+import { useFilteredObjectMetadataItems } from '@/object-metadata/hooks/useFilteredObjectMetadataItems';
+import { FormNumberFieldInput } from '@/object-record/record-field/ui/form-types/components/FormNumberFieldInput';
+import { FormTextFieldInput } from '@/object-record/record-field/ui/form-types/components/FormTextFieldInput';
+import { type FieldMultiSelectValue } from '@/object-record/record-field/ui/types/FieldMetadata';
+import { Select } from '@/ui/input/components/Select';
+import { GenericDropdownContentWidth } from '@/ui/layout/dropdown/constants/GenericDropdownContentWidth';
+import { WorkflowFieldsMultiSelect } from '@/workflow/components/WorkflowEditUpdateEventFieldsMultiSelect';
+import { type WorkflowWaitForEventAction } from '@/workflow/types/Workflow';
+import { splitWorkflowTriggerEventName } from '@/workflow/utils/splitWorkflowTriggerEventName';
+import { WorkflowStepBody } from '@/workflow/workflow-steps/components/WorkflowStepBody';
+import { WorkflowStepFooter } from '@/workflow/workflow-steps/components/WorkflowStepFooter';
+import { DATABASE_TRIGGER_TYPES } from '@/workflow/workflow-trigger/constants/DatabaseTriggerTypes';
+import { WorkflowVariablePicker } from '@/workflow/workflow-variables/components/WorkflowVariablePicker';
+import { useLingui } from '@lingui/react/macro';
+import { isDefined } from 'twenty-shared/utils';
+import { HorizontalSeparator, useIcons } from 'twenty-ui/display';
+
+type WorkflowWaitForEventTimeoutField =
+  | 'days'
+  | 'hours'
+  | 'minutes'
+  | 'seconds';
+
+type WorkflowEditActionWaitForEventProps = {
+  action: WorkflowWaitForEventAction;
+  actionOptions:
+    | {
+        readonly: true;
+      }
+    | {
+        readonly?: false;
+        onActionUpdate: (action: WorkflowWaitForEventAction) => void;
+      };
+};
+
+export const WorkflowEditActionWaitForEvent = ({
+  action,
+  actionOptions,
+}: WorkflowEditActionWaitForEventProps) => {
+  const { t } = useLingui();
+  const { getIcon } = useIcons();
+  const { objectMetadataItems } = useFilteredObjectMetadataItems();
+
+  const { objectType, event } = splitWorkflowTriggerEventName(
+    action.settings.input.eventName,
+  );
+
+  const objectOptions = objectMetadataItems
+    .filter((item) => item.isActive && !item.isSystem)
+    .map((item) => ({
+      label: item.labelPlural,
+      value: item.nameSingular,
+      Icon: getIcon(item.icon),
+    }));
+
+  const eventOptions = DATABASE_TRIGGER_TYPES.map((databaseTriggerType) => ({
+    label: databaseTriggerType.defaultLabel,
+    value: databaseTriggerType.event,
+    Icon: getIcon(databaseTriggerType.icon),
+  }));
+
+  const selectedObjectMetadataItem = objectMetadataItems.find(
+    (item) => item.nameSingular === objectType,
+  );
+
+  const isFieldFilteringSupported = event === 'updated' || event === 'upserted';
+
+  const updateInput = (
+    input: Partial<WorkflowWaitForEventAction['settings']['input']>,
+  ) => {
+    if (actionOptions.readonly === true) {
+      return;
+    }
+
+    actionOptions.onActionUpdate({
+      ...action,
+      settings: {
+        ...action.settings,
+        input: {
+          ...action.settings.input,
+          ...input,
+        },
+      },
+    });
+  };
+
+  const handleEventNameChange = ({
+    nextObjectType,
+    nextEvent,
+  }: {
+    nextObjectType?: string;
+    nextEvent?: string;
+  }) => {
+    updateInput({
+      eventName: `${nextObjectType ?? objectType ?? ''}.${nextEvent ?? event ?? 'updated'}`,
+      fields: undefined,
+    });
+  };
+
+  const handleFieldsChange = (fields: FieldMultiSelectValue | string) => {
+    updateInput({
+      fields: fields ? (Array.isArray(fields) ? fields : [fields]) : undefined,
+    });
+  };
+
+  const handleTimeoutChange = (
+    field: WorkflowWaitForEventTimeoutField,
+    value: number | string | null,
+  ) => {
+    updateInput({
+      timeout: {
+        ...action.settings.input.timeout,
+        [field]: value ?? undefined,
+      },
+    });
+  };
+
+  const handleBranchLabelChange = (branchId: string, label: string) => {
+    updateInput({
+      branches: action.settings.input.branches.map((branch) =>
+        branch.id === branchId ? { ...branch, label } : branch,
+      ),
+    });
+  };
+
+  const timeoutFields: Array<{
+    field: WorkflowWaitForEventTimeoutField;
+    label: string;
+  }> = [
+    { field: 'days', label: t`Timeout days` },
+    { field: 'hours', label: t`Timeout hours` },
+    { field: 'minutes', label: t`Timeout minutes` },
+    { field: 'seconds', label: t`Timeout seconds` },
+  ];
+
+  return (
+    <>
+      <WorkflowStepBody>
+        <Select
+          dropdownId="workflow-edit-action-wait-for-event-object"
+          label={t`Record Type`}
+          options={objectOptions}
+          dropdownWidth={GenericDropdownContentWidth.ExtraLarge}
+          value={objectType}
+          emptyOption={{ label: t`Select an option`, value: '' }}
+          onChange={(nextObjectType) =>
+            handleEventNameChange({ nextObjectType })
+          }
+          withSearchInput
+          disabled={actionOptions.readonly}
+        />
+        <Select
+          dropdownId="workflow-edit-action-wait-for-event-event"
+          label={t`Event`}
+          options={eventOptions}
+          dropdownWidth={GenericDropdownContentWidth.Large}
+          value={event}
+          onChange={(nextEvent) => handleEventNameChange({ nextEvent })}
+          disabled={actionOptions.readonly}
+        />
+        <FormTextFieldInput
+          label={t`Record ID`}
+          placeholder={t`Enter record ID or variable expression`}
+          defaultValue={action.settings.input.recordId}
+          onChange={(recordId) => updateInput({ recordId })}
+          readonly={actionOptions.readonly}
+          VariablePicker={WorkflowVariablePicker}
+        />
+        {isFieldFilteringSupported && isDefined(selectedObjectMetadataItem) && (
+          <WorkflowFieldsMultiSelect
+            label={t`Fields (Optional)`}
+            placeholder={t`Select specific fields to listen to`}
+            objectMetadataItem={selectedObjectMetadataItem}
+            handleFieldsChange={handleFieldsChange}
+            readonly={actionOptions.readonly ?? false}
+            defaultFields={action.settings.input.fields}
+            actionType="UPDATE_RECORD"
+          />
+        )}
+        <HorizontalSeparator noMargin />
+        {timeoutFields.map(({ field, label }) => (
+          <FormNumberFieldInput
+            key={field}
+            label={label}
+            defaultValue={action.settings.input.timeout?.[field]}
+            onChange={(value) => handleTimeoutChange(field, value)}
+            readonly={actionOptions.readonly}
+            VariablePicker={WorkflowVariablePicker}
+            placeholder="0"
+          />
+        ))}
+        <HorizontalSeparator noMargin />
+        {action.settings.input.branches.map((branch) => (
+          <FormTextFieldInput
+            key={branch.id}
+            label={
+              branch.isTimeout === true
+                ? t`Timeout branch label`
+                : t`Event branch label`
+            }
+            defaultValue={branch.label}
+            onChange={(label) => handleBranchLabelChange(branch.id, label)}
+            readonly={actionOptions.readonly}
+          />
+        ))}
+      </WorkflowStepBody>
+      {!actionOptions.readonly && <WorkflowStepFooter stepId={action.id} />}
+    </>
+  );
+};
@@ -0,0 +1,135 @@
+import { FormTextFieldInput } from '@/object-record/record-field/ui/form-types/components/FormTextFieldInput';
+import { Select } from '@/ui/input/components/Select';
+import { GenericDropdownContentWidth } from '@/ui/layout/dropdown/constants/GenericDropdownContentWidth';
+import { type WorkflowEmailReceivedTrigger } from '@/workflow/types/Workflow';
+import { WorkflowStepBody } from '@/workflow/workflow-steps/components/WorkflowStepBody';
+import { WorkflowStepFooter } from '@/workflow/workflow-steps/components/WorkflowStepFooter';
+import { useLingui } from '@lingui/react/macro';
+import { isNonEmptyString } from '@sniptt/guards';
+import { isDefined } from 'twenty-shared/utils';
+import { TRIGGER_STEP_ID } from 'twenty-shared/workflow';
+
+type WorkflowEditTriggerEmailReceivedFormProps = {
+  trigger: WorkflowEmailReceivedTrigger;
+  triggerOptions:
+    | {
+        readonly: true;
+        onTriggerUpdate?: undefined;
+      }
+    | {
+        readonly?: false;
+        onTriggerUpdate: (
+          trigger: WorkflowEmailReceivedTrigger,
+          options?: { computeOutputSchema: boolean },
+        ) => void;
+      };
+};
+
+type AttachmentFilter = 'ANY' | 'WITH' | 'WITHOUT';
+
+export const WorkflowEditTriggerEmailReceivedForm = ({
+  trigger,
+  triggerOptions,
+}: WorkflowEditTriggerEmailReceivedFormProps) => {
+  const { t } = useLingui();
+
+  const updateSettings = (
+    settings: Partial<WorkflowEmailReceivedTrigger['settings']>,
+  ) => {
+    if (triggerOptions.readonly === true) {
+      return;
+    }
+
+    triggerOptions.onTriggerUpdate(
+      {
+        ...trigger,
+        settings: {
+          ...trigger.settings,
+          ...settings,
+        },
+      },
+      { computeOutputSchema: false },
+    );
+  };
+
+  const attachmentFilterOptions: Array<{
+    label: string;
+    value: AttachmentFilter;
+  }> = [
+    { label: t`Any message`, value: 'ANY' },
+    { label: t`With attachments`, value: 'WITH' },
+    { label: t`Without attachments`, value: 'WITHOUT' },
+  ];
+
+  const attachmentFilter: AttachmentFilter = isDefined(
+    trigger.settings.hasAttachment,
+  )
+    ? trigger.settings.hasAttachment
+      ? 'WITH'
+      : 'WITHOUT'
+    : 'ANY';
+
+  return (
+    <>
+      <WorkflowStepBody>
+        <FormTextFieldInput
+          label={t`Sender domain (Optional)`}
+          placeholder={t`acme.com`}
+          defaultValue={trigger.settings.senderDomain}
+          onChange={(senderDomain) =>
+            updateSettings({
+              senderDomain: isNonEmptyString(senderDomain)
+                ? senderDomain
+                : undefined,
+            })
+          }
+          readonly={triggerOptions.readonly}
+        />
+        <FormTextFieldInput
+          label={t`Subject pattern (Optional)`}
+          placeholder={t`Text to find, * and ? as wildcards, e.g. Invoice #*`}
+          defaultValue={trigger.settings.subjectPattern}
+          onChange={(subjectPattern) =>
+            updateSettings({
+              subjectPattern: isNonEmptyString(subjectPattern)
+                ? subjectPattern
+                : undefined,
+            })
+          }
+          readonly={triggerOptions.readonly}
+        />
+        <FormTextFieldInput
+          label={t`Mailbox (Optional)`}
+          placeholder={t`sales@company.com`}
+          defaultValue={trigger.settings.mailbox}
+          onChange={(mailbox) =>
+            updateSettings({
+              mailbox: isNonEmptyString(mailbox) ? mailbox : undefined,
+            })
+          }
+          readonly={triggerOptions.readonly}
+        />
+        <Select
+          dropdownId="workflow-edit-email-received-trigger-attachment"
+          label={t`Attachments`}
+          fullWidth
+          disabled={triggerOptions.readonly}
+          value={attachmentFilter}
+          options={attachmentFilterOptions}
+          dropdownWidth={GenericDropdownContentWidth.ExtraLarge}
+          onChange={(nextAttachmentFilter) =>
+            updateSettings({
+              hasAttachment:
+                nextAttachmentFilter === 'ANY'
+                  ? undefined
+                  : nextAttachmentFilter === 'WITH',
+            })
+          }
+        />
+      </WorkflowStepBody>
+      {!triggerOptions.readonly && (
+        <WorkflowStepFooter stepId={TRIGGER_STEP_ID} />
+      )}
+    </>
+  );
+};
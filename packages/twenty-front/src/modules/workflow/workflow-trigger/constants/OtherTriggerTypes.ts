@@ -1,5 +1,6 @@
 import { type WorkflowTriggerType } from '@/workflow/types/Workflow';
 import { CRON_TRIGGER } from '@/workflow/workflow-trigger/constants/triggers/CronTrigger';
+import { EMAIL_RECEIVED_TRIGGER } from '@/workflow/workflow-trigger/constants/triggers/EmailReceivedTrigger';
 import { MANUAL_TRIGGER } from '@/workflow/workflow-trigger/constants/triggers/ManualTrigger';
 import { WEBHOOK_TRIGGER } from '@/workflow/workflow-trigger/constants/triggers/WebhookTrigger';
 
@@ -7,4 +8,4 @@ export const OTHER_TRIGGER_TYPES: Array<{
   defaultLabel: string;
   type: WorkflowTriggerType;
   icon: string;
-}> = [MANUAL_TRIGGER, CRON_TRIGGER, WEBHOOK_TRIGGER];
+}> = [MANUAL_TRIGGER, CRON_TRIGGER, WEBHOOK_TRIGGER, EMAIL_RECEIVED_TRIGGER];
@@ -0,0 +1,11 @@
+import { type WorkflowTriggerType } from '@/workflow/types/Workflow';
+
+export const EMAIL_RECEIVED_TRIGGER: {
+  defaultLabel: string;
+  type: WorkflowTriggerType;
+  icon: string;
+} = {
+  defaultLabel: 'Email Received',
+  type: 'EMAIL_RECEIVED',
+  icon: 'IconMail',
+};
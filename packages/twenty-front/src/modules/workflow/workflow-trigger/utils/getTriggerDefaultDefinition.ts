@@ -75,6 +75,15 @@ export const getTriggerDefaultDefinition = ({
         },
       };
     }
+    case 'EMAIL_RECEIVED': {
+      return {
+        ...baseTriggerDefinition,
+        type,
+        settings: {
+          outputSchema: {},
+        },
+      };
+    }
     default: {
       return assertUnreachable(type, `Unknown type: ${type}`);
     }
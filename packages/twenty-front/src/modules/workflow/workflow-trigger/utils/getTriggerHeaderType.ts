@@ -10,6 +10,9 @@ export const getTriggerHeaderType = (trigger: WorkflowTrigger) => {
     case 'WEBHOOK': {
       return 'Trigger · Webhook';
     }
+    case 'EMAIL_RECEIVED': {
+      return 'Trigger · Email Received';
+    }
     case 'MANUAL': {
       return 'Trigger · Manual';
     }
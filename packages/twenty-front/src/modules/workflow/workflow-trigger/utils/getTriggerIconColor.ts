@@ -14,6 +14,7 @@ export const getTriggerIconColor = ({
     case 'CRON':
     case 'MANUAL':
     case 'WEBHOOK':
+    case 'EMAIL_RECEIVED':
       return theme.color.purple;
     default:
       return theme.color.purple;
@@ -0,0 +1,16 @@
+import { gql } from '@apollo/client';
+
+export const GET_WORKSPACE_USAGE = gql`
+  query GetWorkspaceUsage {
+    currentWorkspace {
+      id
+      usage {
+        seatsUsed
+        pendingInvitations
+        seatsLimit
+        storageUsedBytes
+        storageQuotaBytes
+      }
+    }
+  }
+`;
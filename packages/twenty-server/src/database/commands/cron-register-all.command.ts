@@ -2,7 +2,13 @@ import { Logger } from '@nestjs/common';
 
 import { Command, CommandRunner } from 'nest-commander';
 
+import { CleanTenantDeletionSnapshotsCronCommand } from 'src/engine/core-modules/admin/crons/commands/clean-tenant-deletion-snapshots.cron.command';
+import { PurgePendingDeletionTenantsCronCommand } from 'src/engine/core-modules/admin/crons/commands/purge-pending-deletion-tenants.cron.command';
 import { CheckPublicDomainsValidRecordsCronCommand } from 'src/engine/core-modules/public-domain/crons/commands/check-public-domains-valid-records.cron.command';
+import { CleanRecordChangesCronCommand } from 'src/engine/core-modules/record-change/crons/commands/clean-record-changes.cron.command';
+import { TenantReconciliationCronCommand } from 'src/engine/core-modules/tenant-reconciliation/commands/tenant-reconciliation.cron.command';
+import { CollectWorkspaceUsageCronCommand } from 'src/engine/core-modules/usage-metering/commands/collect-workspace-usage.cron.command';
+import { CleanWebhookDeliveriesCronCommand } from 'src/engine/core-modules/webhook/crons/commands/clean-webhook-deliveries.cron.command';
 import { CheckCustomDomainValidRecordsCronCommand } from 'src/engine/core-modules/workspace/crons/commands/check-custom-domain-valid-records.cron.command';
 import { CronTriggerCronCommand } from 'src/engine/metadata-modules/cron-trigger/crons/commands/cron-trigger.cron.command';
 import { TrashCleanupCronCommand } from 'src/engine/trash-cleanup/commands/trash-cleanup.cron.command';
@@ -50,6 +56,12 @@ export class CronRegisterAllCommand extends CommandRunner {
     private readonly cleanSuspendedWorkspacesCronCommand: CleanSuspendedWorkspacesCronCommand,
     private readonly cleanOnboardingWorkspacesCronCommand: CleanOnboardingWorkspacesCronCommand,
     private readonly trashCleanupCronCommand: TrashCleanupCronCommand,
+    private readonly collectWorkspaceUsageCronCommand: CollectWorkspaceUsageCronCommand,
+    private readonly purgePendingDeletionTenantsCronCommand: PurgePendingDeletionTenantsCronCommand,
+    private readonly cleanTenantDeletionSnapshotsCronCommand: CleanTenantDeletionSnapshotsCronCommand,
+    private readonly tenantReconciliationCronCommand: TenantReconciliationCronCommand,
+    private readonly cleanRecordChangesCronCommand: CleanRecordChangesCronCommand,
+    private readonly cleanWebhookDeliveriesCronCommand: CleanWebhookDeliveriesCronCommand,
   ) {
     super();
   }
@@ -130,6 +142,30 @@ export class CronRegisterAllCommand extends CommandRunner {
         name: 'TrashCleanup',
         command: this.trashCleanupCronCommand,
       },
+      {
+        name: 'CollectWorkspaceUsage',
+        command: this.collectWorkspaceUsageCronCommand,
+      },
+      {
+        name: 'PurgePendingDeletionTenants',
+        command: this.purgePendingDeletionTenantsCronCommand,
+      },
+      {
+        name: 'CleanTenantDeletionSnapshots',
+        command: this.cleanTenantDeletionSnapshotsCronCommand,
+      },
+      {
+        name: 'TenantReconciliation',
+        command: this.tenantReconciliationCronCommand,
+      },
+      {
+        name: 'CleanRecordChanges',
+        command: this.cleanRecordChangesCronCommand,
+      },
+      {
+        name: 'CleanWebhookDeliveries',
+        command: this.cleanWebhookDeliveriesCronCommand,
+      },
     ];
 
     let successCount = 0;
@@ -7,10 +7,15 @@ import { DataSeedWorkspaceCommand } from 'src/database/commands/data-seed-dev-wo
 import { ConfirmationQuestion } from 'src/database/commands/questions/confirmation.question';
 import { UpgradeVersionCommandModule } from 'src/database/commands/upgrade-version-command/upgrade-version-command.module';
 import { TypeORMModule } from 'src/database/typeorm/typeorm.module';
+import { AdminModule } from 'src/engine/core-modules/admin/admin.module';
 import { ApiKeyModule } from 'src/engine/core-modules/api-key/api-key.module';
 import { FeatureFlagModule } from 'src/engine/core-modules/feature-flag/feature-flag.module';
 import { FileModule } from 'src/engine/core-modules/file/file.module';
 import { PublicDomainModule } from 'src/engine/core-modules/public-domain/public-domain.module';
+import { RecordChangeModule } from 'src/engine/core-modules/record-change/record-change.module';
+import { TenantReconciliationModule } from 'src/engine/core-modules/tenant-reconciliation/tenant-reconciliation.module';
+import { UsageMeteringModule } from 'src/engine/core-modules/usage-metering/usage-metering.module';
+import { WebhookModule } from 'src/engine/core-modules/webhook/webhook.module';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { WorkspaceModule } from 'src/engine/core-modules/workspace/workspace.module';
 import { CronTriggerModule } from 'src/engine/metadata-modules/cron-trigger/cron-trigger.module';
@@ -56,6 +61,11 @@ import { AutomatedTriggerModule } from 'src/modules/workflow/workflow-trigger/au
     WorkspaceMigrationV2Module,
     TrashCleanupModule,
     PublicDomainModule,
+    UsageMeteringModule,
+    AdminModule,
+    TenantReconciliationModule,
+    RecordChangeModule,
+    WebhookModule,
   ],
   providers: [
     ComputeTwentyStandardWorkspaceMigrationCommand,
@@ -0,0 +1,29 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddWorkspaceUsageSnapshot1765500000000
+  implements MigrationInterface
+{
+  name = 'AddWorkspaceUsageSnapshot1765500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "core"."workspaceUsageSnapshot" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "workspaceId" uuid NOT NULL, "collectedAt" TIMESTAMP WITH TIME ZONE NOT NULL, "recordCountsByObject" jsonb NOT NULL DEFAULT '{}', "totalRecordCount" integer NOT NULL DEFAULT 0, "storageBytes" bigint NOT NULL DEFAULT 0, "workflowRunCount" integer NOT NULL DEFAULT 0, "messageCount" integer NOT NULL DEFAULT 0, "apiCallCount" integer NOT NULL DEFAULT 0, "aiTokenCount" bigint NOT NULL DEFAULT 0, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_WORKSPACE_USAGE_SNAPSHOT_ID" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_WORKSPACE_USAGE_SNAPSHOT_WORKSPACE_ID_COLLECTED_AT" ON "core"."workspaceUsageSnapshot" ("workspaceId", "collectedAt") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."workspaceUsageSnapshot" ADD CONSTRAINT "FK_WORKSPACE_USAGE_SNAPSHOT_WORKSPACE_ID" FOREIGN KEY ("workspaceId") REFERENCES "core"."workspace"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."workspaceUsageSnapshot" DROP CONSTRAINT "FK_WORKSPACE_USAGE_SNAPSHOT_WORKSPACE_ID"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_WORKSPACE_USAGE_SNAPSHOT_WORKSPACE_ID_COLLECTED_AT"`,
+    );
+    await queryRunner.query(`DROP TABLE "core"."workspaceUsageSnapshot"`);
+  }
+}
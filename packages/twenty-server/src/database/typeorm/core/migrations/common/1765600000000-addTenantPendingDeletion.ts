@@ -0,0 +1,37 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddTenantPendingDeletion1765600000000
+  implements MigrationInterface
+{
+  name = 'AddTenantPendingDeletion1765600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."workspace" ADD "pendingDeletionAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."workspace" ADD "purgeScheduledAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."workspace" ADD "deletionSnapshotPath" character varying`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_WORKSPACE_PURGE_SCHEDULED_AT" ON "core"."workspace" ("purgeScheduledAt") WHERE "purgeScheduledAt" IS NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_WORKSPACE_PURGE_SCHEDULED_AT"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."workspace" DROP COLUMN "deletionSnapshotPath"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."workspace" DROP COLUMN "purgeScheduledAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."workspace" DROP COLUMN "pendingDeletionAt"`,
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddTenantLifecycleEventDelivery1765700000000
+  implements MigrationInterface
+{
+  name = 'AddTenantLifecycleEventDelivery1765700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "core"."tenantLifecycleEventDelivery_eventtype_enum" AS ENUM('tenant.created', 'tenant.disabled', 'tenant.deleted', 'tenant.user.joined', 'tenant.user.left', 'tenant.quota.exceeded')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "core"."tenantLifecycleEventDelivery_status_enum" AS ENUM('PENDING', 'DELIVERED', 'FAILED')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "core"."tenantLifecycleEventDelivery" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "tenantId" uuid NOT NULL, "eventType" "core"."tenantLifecycleEventDelivery_eventtype_enum" NOT NULL, "payload" jsonb NOT NULL, "targetUrl" character varying NOT NULL, "status" "core"."tenantLifecycleEventDelivery_status_enum" NOT NULL DEFAULT 'PENDING', "attemptCount" integer NOT NULL DEFAULT 0, "lastAttemptAt" TIMESTAMP WITH TIME ZONE, "lastResponseStatus" integer, "lastError" text, "nextAttemptAt" TIMESTAMP WITH TIME ZONE, "deliveredAt" TIMESTAMP WITH TIME ZONE, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_TENANT_LIFECYCLE_EVENT_DELIVERY_ID" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_TENANT_LIFECYCLE_EVENT_DELIVERY_TENANT_ID_CREATED_AT" ON "core"."tenantLifecycleEventDelivery" ("tenantId", "createdAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_TENANT_LIFECYCLE_EVENT_DELIVERY_STATUS" ON "core"."tenantLifecycleEventDelivery" ("status") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_TENANT_LIFECYCLE_EVENT_DELIVERY_STATUS"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_TENANT_LIFECYCLE_EVENT_DELIVERY_TENANT_ID_CREATED_AT"`,
+    );
+    await queryRunner.query(`DROP TABLE "core"."tenantLifecycleEventDelivery"`);
+    await queryRunner.query(
+      `DROP TYPE "core"."tenantLifecycleEventDelivery_status_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "core"."tenantLifecycleEventDelivery_eventtype_enum"`,
+    );
+  }
+}
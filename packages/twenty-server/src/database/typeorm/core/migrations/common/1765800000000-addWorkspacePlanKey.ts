@@ -0,0 +1,17 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddWorkspacePlanKey1765800000000 implements MigrationInterface {
+  name = 'AddWorkspacePlanKey1765800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."workspace" ADD "planKey" character varying`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."workspace" DROP COLUMN "planKey"`,
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddTenantWebhookDelivery1765900000000
+  implements MigrationInterface
+{
+  name = 'AddTenantWebhookDelivery1765900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "core"."tenantWebhookEvent" ("eventId" character varying NOT NULL, "eventType" character varying, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_TENANT_WEBHOOK_EVENT_EVENT_ID" PRIMARY KEY ("eventId"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "core"."tenantWebhookDelivery_outcome_enum" AS ENUM('PROCESSED', 'DUPLICATE', 'REJECTED', 'FAILED')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "core"."tenantWebhookDelivery" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "eventId" character varying, "eventType" character varying, "tenantId" uuid, "outcome" "core"."tenantWebhookDelivery_outcome_enum" NOT NULL, "reason" text, "payload" jsonb, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_TENANT_WEBHOOK_DELIVERY_ID" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_TENANT_WEBHOOK_DELIVERY_CREATED_AT" ON "core"."tenantWebhookDelivery" ("createdAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_TENANT_WEBHOOK_DELIVERY_EVENT_ID" ON "core"."tenantWebhookDelivery" ("eventId") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_TENANT_WEBHOOK_DELIVERY_EVENT_ID"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_TENANT_WEBHOOK_DELIVERY_CREATED_AT"`,
+    );
+    await queryRunner.query(`DROP TABLE "core"."tenantWebhookDelivery"`);
+    await queryRunner.query(
+      `DROP TYPE "core"."tenantWebhookDelivery_outcome_enum"`,
+    );
+    await queryRunner.query(`DROP TABLE "core"."tenantWebhookEvent"`);
+  }
+}
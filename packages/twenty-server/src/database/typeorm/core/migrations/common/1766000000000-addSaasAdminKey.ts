@@ -0,0 +1,41 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddSaasAdminKey1766000000000 implements MigrationInterface {
+  name = 'AddSaasAdminKey1766000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "core"."saasAdminKey_scopes_enum" AS ENUM('tenants:read', 'tenants:write', 'tenants:toggle', 'tenants:delete', 'tenants:archive', 'records:query', 'keys:manage')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "core"."saasAdminKey" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "name" character varying NOT NULL, "keyHash" character varying NOT NULL, "keyPrefix" character varying NOT NULL, "scopes" "core"."saasAdminKey_scopes_enum" array NOT NULL, "expiresAt" TIMESTAMP WITH TIME ZONE, "lastUsedAt" TIMESTAMP WITH TIME ZONE, "revokedAt" TIMESTAMP WITH TIME ZONE, "rotatedFromKeyId" uuid, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_SAAS_ADMIN_KEY_ID" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_SAAS_ADMIN_KEY_KEY_HASH_UNIQUE" ON "core"."saasAdminKey" ("keyHash") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "core"."saasAdminAuditLog" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "keyId" uuid, "keyName" character varying NOT NULL, "method" character varying NOT NULL, "path" character varying NOT NULL, "scope" character varying, "tenantId" uuid, "isAllowed" boolean NOT NULL, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_SAAS_ADMIN_AUDIT_LOG_ID" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_SAAS_ADMIN_AUDIT_LOG_KEY_ID_CREATED_AT" ON "core"."saasAdminAuditLog" ("keyId", "createdAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_SAAS_ADMIN_AUDIT_LOG_CREATED_AT" ON "core"."saasAdminAuditLog" ("createdAt") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_SAAS_ADMIN_AUDIT_LOG_CREATED_AT"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_SAAS_ADMIN_AUDIT_LOG_KEY_ID_CREATED_AT"`,
+    );
+    await queryRunner.query(`DROP TABLE "core"."saasAdminAuditLog"`);
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_SAAS_ADMIN_KEY_KEY_HASH_UNIQUE"`,
+    );
+    await queryRunner.query(`DROP TABLE "core"."saasAdminKey"`);
+    await queryRunner.query(`DROP TYPE "core"."saasAdminKey_scopes_enum"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddWorkflowsDeploySaasAdminKeyScope1766100000000
+  implements MigrationInterface
+{
+  name = 'AddWorkflowsDeploySaasAdminKeyScope1766100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "core"."saasAdminKey_scopes_enum" RENAME TO "saasAdminKey_scopes_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "core"."saasAdminKey_scopes_enum" AS ENUM('tenants:read', 'tenants:write', 'tenants:toggle', 'tenants:delete', 'tenants:archive', 'records:query', 'keys:manage', 'workflows:deploy')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."saasAdminKey" ALTER COLUMN "scopes" TYPE "core"."saasAdminKey_scopes_enum"[] USING "scopes"::"text"[]::"core"."saasAdminKey_scopes_enum"[]`,
+    );
+    await queryRunner.query(`DROP TYPE "core"."saasAdminKey_scopes_enum_old"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "core"."saasAdminKey_scopes_enum_old" AS ENUM('tenants:read', 'tenants:write', 'tenants:toggle', 'tenants:delete', 'tenants:archive', 'records:query', 'keys:manage')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."saasAdminKey" ALTER COLUMN "scopes" TYPE "core"."saasAdminKey_scopes_enum_old"[] USING array_remove("scopes"::"text"[], 'workflows:deploy')::"core"."saasAdminKey_scopes_enum_old"[]`,
+    );
+    await queryRunner.query(`DROP TYPE "core"."saasAdminKey_scopes_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "core"."saasAdminKey_scopes_enum_old" RENAME TO "saasAdminKey_scopes_enum"`,
+    );
+  }
+}
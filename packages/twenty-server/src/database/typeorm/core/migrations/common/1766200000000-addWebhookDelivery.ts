@@ -0,0 +1,43 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddWebhookDelivery1766200000000 implements MigrationInterface {
+  name = 'AddWebhookDelivery1766200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."webhook" ADD "consecutiveFailedDeliveryCount" integer NOT NULL DEFAULT '0'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."webhook" ADD "disabledAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "core"."webhookDelivery_status_enum" AS ENUM('PENDING', 'SUCCEEDED', 'FAILED')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "core"."webhookDelivery" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "webhookId" uuid NOT NULL, "workspaceId" uuid NOT NULL, "eventName" character varying NOT NULL, "status" "core"."webhookDelivery_status_enum" NOT NULL DEFAULT 'PENDING', "attemptCount" integer NOT NULL DEFAULT '0', "targetUrl" character varying NOT NULL, "requestBody" jsonb NOT NULL, "responseStatus" integer, "responseBody" text, "error" text, "lastAttemptAt" TIMESTAMP WITH TIME ZONE, "nextAttemptAt" TIMESTAMP WITH TIME ZONE, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_WEBHOOK_DELIVERY_ID" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_WEBHOOK_DELIVERY_WEBHOOK_ID_CREATED_AT" ON "core"."webhookDelivery" ("webhookId", "createdAt") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."webhookDelivery" ADD CONSTRAINT "FK_WEBHOOK_DELIVERY_WEBHOOK_ID" FOREIGN KEY ("webhookId") REFERENCES "core"."webhook"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."webhookDelivery" DROP CONSTRAINT "FK_WEBHOOK_DELIVERY_WEBHOOK_ID"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_WEBHOOK_DELIVERY_WEBHOOK_ID_CREATED_AT"`,
+    );
+    await queryRunner.query(`DROP TABLE "core"."webhookDelivery"`);
+    await queryRunner.query(`DROP TYPE "core"."webhookDelivery_status_enum"`);
+    await queryRunner.query(
+      `ALTER TABLE "core"."webhook" DROP COLUMN "disabledAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."webhook" DROP COLUMN "consecutiveFailedDeliveryCount"`,
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddWebhookFiltersAndPayloadFormat1766300000000
+  implements MigrationInterface
+{
+  name = 'AddWebhookFiltersAndPayloadFormat1766300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "core"."webhook" ADD "filters" jsonb`);
+    await queryRunner.query(
+      `CREATE TYPE "core"."webhook_payloadFormat_enum" AS ENUM('FULL_RECORD', 'DIFF', 'SELECTED_FIELDS')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."webhook" ADD "payloadFormat" "core"."webhook_payloadFormat_enum" NOT NULL DEFAULT 'FULL_RECORD'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."webhook" ADD "payloadFields" text array`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."webhook" DROP COLUMN "payloadFields"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."webhook" DROP COLUMN "payloadFormat"`,
+    );
+    await queryRunner.query(`DROP TYPE "core"."webhook_payloadFormat_enum"`);
+    await queryRunner.query(
+      `ALTER TABLE "core"."webhook" DROP COLUMN "filters"`,
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddMcpPrompt1766400000000 implements MigrationInterface {
+  name = 'AddMcpPrompt1766400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "core"."mcpPrompt" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "workspaceId" uuid NOT NULL, "name" character varying NOT NULL, "description" text, "template" text NOT NULL, "arguments" jsonb NOT NULL DEFAULT '[]', "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_MCP_PROMPT_ID" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_MCP_PROMPT_WORKSPACE_ID_NAME_UNIQUE" ON "core"."mcpPrompt" ("workspaceId", "name") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."mcpPrompt" ADD CONSTRAINT "FK_MCP_PROMPT_WORKSPACE_ID" FOREIGN KEY ("workspaceId") REFERENCES "core"."workspace"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."mcpPrompt" DROP CONSTRAINT "FK_MCP_PROMPT_WORKSPACE_ID"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_MCP_PROMPT_WORKSPACE_ID_NAME_UNIQUE"`,
+    );
+    await queryRunner.query(`DROP TABLE "core"."mcpPrompt"`);
+  }
+}
@@ -0,0 +1,35 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddRecordChange1766500000000 implements MigrationInterface {
+  name = 'AddRecordChange1766500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "core"."recordChange_action_enum" AS ENUM('created', 'updated', 'deleted', 'destroyed', 'restored', 'upserted')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "core"."recordChange" ("id" BIGSERIAL NOT NULL, "workspaceId" uuid NOT NULL, "objectMetadataId" uuid NOT NULL, "objectNameSingular" character varying NOT NULL, "recordId" uuid NOT NULL, "action" "core"."recordChange_action_enum" NOT NULL, "record" jsonb, "updatedFields" text array, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_RECORD_CHANGE_ID" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_RECORD_CHANGE_WORKSPACE_ID_ID" ON "core"."recordChange" ("workspaceId", "id") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_RECORD_CHANGE_CREATED_AT" ON "core"."recordChange" ("createdAt") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."recordChange" ADD CONSTRAINT "FK_RECORD_CHANGE_WORKSPACE_ID" FOREIGN KEY ("workspaceId") REFERENCES "core"."workspace"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."recordChange" DROP CONSTRAINT "FK_RECORD_CHANGE_WORKSPACE_ID"`,
+    );
+    await queryRunner.query(`DROP INDEX "core"."IDX_RECORD_CHANGE_CREATED_AT"`);
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_RECORD_CHANGE_WORKSPACE_ID_ID"`,
+    );
+    await queryRunner.query(`DROP TABLE "core"."recordChange"`);
+    await queryRunner.query(`DROP TYPE "core"."recordChange_action_enum"`);
+  }
+}
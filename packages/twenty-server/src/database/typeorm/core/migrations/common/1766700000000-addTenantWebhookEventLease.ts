@@ -0,0 +1,29 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddTenantWebhookEventLease1766700000000
+  implements MigrationInterface
+{
+  name = 'AddTenantWebhookEventLease1766700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."tenantWebhookEvent" ADD "claimedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."tenantWebhookEvent" ADD "processedAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    // Claims were only kept for processed events until now
+    await queryRunner.query(
+      `UPDATE "core"."tenantWebhookEvent" SET "claimedAt" = "createdAt", "processedAt" = "createdAt"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."tenantWebhookEvent" DROP COLUMN "processedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."tenantWebhookEvent" DROP COLUMN "claimedAt"`,
+    );
+  }
+}
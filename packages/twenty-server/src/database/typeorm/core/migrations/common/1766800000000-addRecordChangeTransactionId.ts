@@ -0,0 +1,41 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddRecordChangeTransactionId1766800000000
+  implements MigrationInterface
+{
+  name = 'AddRecordChangeTransactionId1766800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Existing changes keep their order before the ones of later transactions
+    await queryRunner.query(
+      `ALTER TABLE "core"."recordChange" ADD "transactionId" bigint NOT NULL DEFAULT 0`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."recordChange" ALTER COLUMN "transactionId" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_RECORD_CHANGE_WORKSPACE_ID_ID"`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_RECORD_CHANGE_WORKSPACE_ID_TRANSACTION_ID_ID" ON "core"."recordChange" ("workspaceId", "transactionId", "id") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_RECORD_CHANGE_WORKSPACE_ID_RECORD_ID_TRANSACTION_ID" ON "core"."recordChange" ("workspaceId", "recordId", "transactionId") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_RECORD_CHANGE_WORKSPACE_ID_RECORD_ID_TRANSACTION_ID"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_RECORD_CHANGE_WORKSPACE_ID_TRANSACTION_ID_ID"`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_RECORD_CHANGE_WORKSPACE_ID_ID" ON "core"."recordChange" ("workspaceId", "id") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."recordChange" DROP COLUMN "transactionId"`,
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddWorkspaceDisabledCause1766900000000
+  implements MigrationInterface
+{
+  name = 'AddWorkspaceDisabledCause1766900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "core"."workspace_disabledcause_enum" AS ENUM('OPERATOR', 'SUBSCRIPTION_CANCELLED', 'TENANT_DIRECTORY', 'PENDING_DELETION')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "core"."workspace" ADD "disabledCause" "core"."workspace_disabledcause_enum"`,
+    );
+    // The cause of earlier disables is unknown, except for the ones done by a
+    // deletion, which restoring the tenant must undo
+    await queryRunner.query(
+      `UPDATE "core"."workspace" SET "disabledCause" = CASE WHEN "disabledAt" = "pendingDeletionAt" THEN 'PENDING_DELETION'::"core"."workspace_disabledcause_enum" ELSE 'OPERATOR'::"core"."workspace_disabledcause_enum" END WHERE "isDisabled" = true`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "core"."workspace" DROP COLUMN "disabledCause"`,
+    );
+    await queryRunner.query(`DROP TYPE "core"."workspace_disabledcause_enum"`);
+  }
+}
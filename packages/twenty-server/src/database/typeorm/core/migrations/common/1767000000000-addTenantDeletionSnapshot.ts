@@ -0,0 +1,33 @@
+import { type MigrationInterface, type QueryRunner } from 'typeorm';
+
+export class AddTenantDeletionSnapshot1767000000000
+  implements MigrationInterface
+{
+  name = 'AddTenantDeletionSnapshot1767000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "core"."tenantDeletionSnapshot" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "tenantId" uuid NOT NULL, "archivePath" character varying NOT NULL, "purgedAt" TIMESTAMP WITH TIME ZONE, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_TENANT_DELETION_SNAPSHOT_ID" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_TENANT_DELETION_SNAPSHOT_TENANT_ID" ON "core"."tenantDeletionSnapshot" ("tenantId") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_TENANT_DELETION_SNAPSHOT_PURGED_AT" ON "core"."tenantDeletionSnapshot" ("purgedAt") `,
+    );
+    // Snapshots of tenants pending deletion were exported before this table
+    await queryRunner.query(
+      `INSERT INTO "core"."tenantDeletionSnapshot" ("tenantId", "archivePath") SELECT "id", "deletionSnapshotPath" FROM "core"."workspace" WHERE "deletionSnapshotPath" IS NOT NULL AND "pendingDeletionAt" IS NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_TENANT_DELETION_SNAPSHOT_PURGED_AT"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "core"."IDX_TENANT_DELETION_SNAPSHOT_TENANT_ID"`,
+    );
+    await queryRunner.query(`DROP TABLE "core"."tenantDeletionSnapshot"`);
+  }
+}
@@ -14,4 +14,5 @@ export const RESOLVER_METHOD_NAMES = {
   DESTROY_MANY: 'destroyMany',
   DESTROY_ONE: 'destroyOne',
   MERGE_MANY: 'mergeMany',
+  ON_EVENT: 'onEvent',
 } as const;
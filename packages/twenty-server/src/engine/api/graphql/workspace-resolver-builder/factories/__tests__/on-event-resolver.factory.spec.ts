@@ -0,0 +1,257 @@
+import { type GraphQLResolveInfo } from 'graphql';
+import { type RedisPubSub } from 'graphql-redis-subscriptions';
+import { FieldMetadataType, type ObjectRecord } from 'twenty-shared/types';
+
+import { type WorkspaceSchemaBuilderContext } from 'src/engine/api/graphql/workspace-schema-builder/interfaces/workspace-schema-builder-context.interface';
+
+import { DatabaseEventAction } from 'src/engine/api/graphql/graphql-query-runner/enums/database-event-action';
+import { OnEventResolverFactory } from 'src/engine/api/graphql/workspace-resolver-builder/factories/on-event-resolver.factory';
+import { type ApiKeyRoleService } from 'src/engine/core-modules/api-key/services/api-key-role.service';
+import { type FlatFieldMetadata } from 'src/engine/metadata-modules/flat-field-metadata/types/flat-field-metadata.type';
+import { PermissionsException } from 'src/engine/metadata-modules/permissions/permissions.exception';
+import { type UserRoleService } from 'src/engine/metadata-modules/user-role/user-role.service';
+import { type DbEventPayload } from 'src/engine/subscriptions/types/db-event-payload.type';
+import { type WorkspaceCacheService } from 'src/engine/workspace-cache/services/workspace-cache.service';
+
+jest.mock(
+  'src/engine/api/graphql/workspace-query-runner/utils/workspace-query-runner-graphql-api-exception-handler.util',
+  () => ({
+    workspaceQueryRunnerGraphqlApiExceptionHandler: (error: Error) => {
+      throw error;
+    },
+  }),
+);
+
+const buildField = (id: string, name: string) =>
+  ({
+    id,
+    name,
+    type: FieldMetadataType.TEXT,
+    objectMetadataId: 'opportunity-id',
+  }) as unknown as FlatFieldMetadata;
+
+const buildPayload = ({
+  workspaceId = 'workspace-id',
+  record = { id: 'record-id', stage: 'WON', secretNote: 'confidential' },
+  recordBefore,
+  ...onDbEvent
+}: Partial<Omit<DbEventPayload['onDbEvent'], 'record'>> & {
+  workspaceId?: string;
+  record?: Record<string, unknown>;
+  recordBefore?: Record<string, unknown>;
+}): DbEventPayload => ({
+  workspaceId,
+  onDbEvent: {
+    action: DatabaseEventAction.UPDATED,
+    objectNameSingular: 'opportunity',
+    eventDate: new Date('2026-01-01'),
+    record: record as ObjectRecord,
+    ...onDbEvent,
+  },
+  ...(recordBefore && { recordBefore: recordBefore as ObjectRecord }),
+});
+
+const toAsyncIterator = (payloads: DbEventPayload[]) =>
+  (async function* () {
+    yield* payloads;
+  })();
+
+describe('OnEventResolverFactory', () => {
+  const stageField = buildField('stage-field-id', 'stage');
+  const secretNoteField = buildField('secret-note-field-id', 'secretNote');
+
+  const context = {
+    authContext: {
+      workspace: { id: 'workspace-id' },
+      userWorkspaceId: 'user-workspace-id',
+    },
+    flatObjectMetadata: {
+      id: 'opportunity-id',
+      nameSingular: 'opportunity',
+      isSystem: false,
+      fieldMetadataIds: [stageField.id, secretNoteField.id],
+    },
+    flatFieldMetadataMaps: {
+      byId: {
+        [stageField.id]: stageField,
+        [secretNoteField.id]: secretNoteField,
+      },
+      idByUniversalIdentifier: {},
+      universalIdentifiersByApplicationId: {},
+    },
+  } as unknown as WorkspaceSchemaBuilderContext;
+
+  let pubSub: { asyncIterator: jest.Mock };
+  let workspaceCacheService: { getOrRecompute: jest.Mock };
+  let factory: OnEventResolverFactory;
+
+  const mockObjectPermissions = (objectPermissions?: Record<string, unknown>) =>
+    workspaceCacheService.getOrRecompute.mockResolvedValue({
+      rolesPermissions: {
+        'role-id': objectPermissions
+          ? { 'opportunity-id': objectPermissions }
+          : {},
+      },
+    });
+
+  const collectEvents = async (
+    payloads: DbEventPayload[],
+    args: Record<string, unknown> = {},
+  ) => {
+    pubSub.asyncIterator.mockReturnValue(toAsyncIterator(payloads));
+
+    const { subscribe, resolve } = factory.create(context);
+    const iterator = (await subscribe(
+      undefined,
+      args,
+      {},
+      {} as GraphQLResolveInfo,
+    )) as AsyncIterableIterator<unknown>;
+
+    const events: unknown[] = [];
+
+    for await (const event of iterator) {
+      events.push(resolve(event, args, {}, {} as GraphQLResolveInfo));
+    }
+
+    return events;
+  };
+
+  beforeEach(() => {
+    pubSub = { asyncIterator: jest.fn() };
+    workspaceCacheService = { getOrRecompute: jest.fn() };
+
+    factory = new OnEventResolverFactory(
+      pubSub as unknown as RedisPubSub,
+      {} as ApiKeyRoleService,
+      {
+        getRoleIdForUserWorkspace: jest.fn().mockResolvedValue('role-id'),
+      } as unknown as UserRoleService,
+      workspaceCacheService as unknown as WorkspaceCacheService,
+    );
+
+    mockObjectPermissions({ canReadObjectRecords: true, restrictedFields: {} });
+  });
+
+  it('should only emit events of the subscribed object and workspace', async () => {
+    const events = await collectEvents([
+      buildPayload({}),
+      buildPayload({ workspaceId: 'other-workspace-id' }),
+      buildPayload({ objectNameSingular: 'company' }),
+    ]);
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        action: DatabaseEventAction.UPDATED,
+        record: { id: 'record-id', stage: 'WON', secretNote: 'confidential' },
+      }),
+    ]);
+  });
+
+  it('should evaluate the filter and the actions on each event', async () => {
+    const events = await collectEvents(
+      [
+        buildPayload({}),
+        buildPayload({
+          record: { id: 'lost-record-id', stage: 'LOST' },
+        }),
+        buildPayload({ action: DatabaseEventAction.CREATED }),
+      ],
+      {
+        filter: { stage: { eq: 'WON' } },
+        actions: [DatabaseEventAction.UPDATED],
+      },
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      record: { id: 'record-id' },
+      isLeavingFilter: false,
+    });
+  });
+
+  it('should emit the update of a record leaving the filter', async () => {
+    const events = await collectEvents(
+      [
+        buildPayload({
+          record: { id: 'record-id', stage: 'LOST' },
+          recordBefore: { id: 'record-id', stage: 'WON' },
+        }),
+        buildPayload({
+          record: { id: 'other-record-id', stage: 'LOST' },
+          recordBefore: { id: 'other-record-id', stage: 'OPEN' },
+        }),
+      ],
+      { filter: { stage: { eq: 'WON' } } },
+    );
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        record: { id: 'record-id', stage: 'LOST' },
+        isLeavingFilter: true,
+      }),
+    ]);
+  });
+
+  it('should remove the fields the role cannot read', async () => {
+    mockObjectPermissions({
+      canReadObjectRecords: true,
+      restrictedFields: { [secretNoteField.id]: { canRead: false } },
+    });
+
+    const events = await collectEvents([buildPayload({})]);
+
+    expect(events).toEqual([
+      expect.objectContaining({ record: { id: 'record-id', stage: 'WON' } }),
+    ]);
+  });
+
+  it('should stop emitting events once the role cannot read the object', async () => {
+    const readablePermissions = {
+      rolesPermissions: {
+        'role-id': {
+          'opportunity-id': {
+            canReadObjectRecords: true,
+            restrictedFields: {},
+          },
+        },
+      },
+    };
+
+    workspaceCacheService.getOrRecompute
+      .mockResolvedValueOnce(readablePermissions)
+      .mockResolvedValueOnce(readablePermissions)
+      .mockResolvedValueOnce({ rolesPermissions: { 'role-id': {} } });
+
+    const events = await collectEvents([
+      buildPayload({}),
+      buildPayload({ record: { id: 'later-record-id', stage: 'WON' } }),
+    ]);
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        record: expect.objectContaining({ id: 'record-id' }),
+      }),
+    ]);
+  });
+
+  it('should reject a filter on a field the role cannot read', async () => {
+    mockObjectPermissions({
+      canReadObjectRecords: true,
+      restrictedFields: { [secretNoteField.id]: { canRead: false } },
+    });
+
+    await expect(
+      collectEvents([], {
+        filter: { or: [{ secretNote: { like: '%deal%' } }] },
+      }),
+    ).rejects.toThrow(PermissionsException);
+  });
+
+  it('should reject the subscription when the role cannot read the object', async () => {
+    mockObjectPermissions();
+
+    await expect(collectEvents([])).rejects.toThrow(PermissionsException);
+    expect(pubSub.asyncIterator).not.toHaveBeenCalled();
+  });
+});
@@ -13,6 +13,7 @@ import { FindDuplicatesResolverFactory } from './find-duplicates-resolver.factor
 import { FindManyResolverFactory } from './find-many-resolver.factory';
 import { FindOneResolverFactory } from './find-one-resolver.factory';
 import { MergeManyResolverFactory } from './merge-many-resolver.factory';
+import { OnEventResolverFactory } from './on-event-resolver.factory';
 import { UpdateOneResolverFactory } from './update-one-resolver.factory';
 
 export const workspaceResolverBuilderFactories = [
@@ -31,6 +32,7 @@ export const workspaceResolverBuilderFactories = [
   RestoreManyResolverFactory,
   MergeManyResolverFactory,
   GroupByResolverFactory,
+  OnEventResolverFactory,
 ];
 
 export const workspaceResolverBuilderMethodNames = {
@@ -53,4 +55,5 @@ export const workspaceResolverBuilderMethodNames = {
     RestoreManyResolverFactory.methodName,
     MergeManyResolverFactory.methodName,
   ],
+  subscriptions: [OnEventResolverFactory.methodName],
 } as const;
@@ -0,0 +1,259 @@
+import { Inject, Injectable } from '@nestjs/common';
+
+import { mapAsyncIterator } from '@graphql-tools/utils';
+import { RedisPubSub } from 'graphql-redis-subscriptions';
+import { withFilter } from 'graphql-subscriptions';
+import { type RecordGqlOperationFilter } from 'twenty-shared/types';
+import { isDefined } from 'twenty-shared/utils';
+
+import { type WorkspaceSubscriptionResolverBuilderFactoryInterface } from 'src/engine/api/graphql/workspace-resolver-builder/interfaces/workspace-resolver-builder-factory.interface';
+import {
+  type OnEventResolverArgs,
+  type SubscriptionResolver,
+} from 'src/engine/api/graphql/workspace-resolver-builder/interfaces/workspace-resolvers-builder.interface';
+import { WorkspaceSchemaBuilderContext } from 'src/engine/api/graphql/workspace-schema-builder/interfaces/workspace-schema-builder-context.interface';
+
+import { workspaceQueryRunnerGraphqlApiExceptionHandler } from 'src/engine/api/graphql/workspace-query-runner/utils/workspace-query-runner-graphql-api-exception-handler.util';
+import { RESOLVER_METHOD_NAMES } from 'src/engine/api/graphql/workspace-resolver-builder/constants/resolver-method-names';
+import { ApiKeyException } from 'src/engine/core-modules/api-key/exceptions/api-key.exception';
+import { ApiKeyRoleService } from 'src/engine/core-modules/api-key/services/api-key-role.service';
+import {
+  PermissionsException,
+  PermissionsExceptionCode,
+  PermissionsExceptionMessage,
+} from 'src/engine/metadata-modules/permissions/permissions.exception';
+import { UserRoleService } from 'src/engine/metadata-modules/user-role/user-role.service';
+import { ON_DB_EVENT_TRIGGER } from 'src/engine/subscriptions/constants/on-db-event-trigger';
+import { type OnDbEventDTO } from 'src/engine/subscriptions/dtos/on-db-event.dto';
+import { type DbEventPayload } from 'src/engine/subscriptions/types/db-event-payload.type';
+import { getUnreadableRecordFieldNames } from 'src/engine/twenty-orm/utils/get-unreadable-record-field-names.util';
+import { isRecordMatchingFilter } from 'src/engine/utils/is-record-matching-filter.util';
+import { WorkspaceCacheService } from 'src/engine/workspace-cache/services/workspace-cache.service';
+
+const LOGICAL_FILTER_KEYS = ['and', 'or', 'not'];
+
+type ReadableDbEvent = Omit<OnDbEventDTO, 'record'> & {
+  record: Record<string, unknown>;
+  isLeavingFilter: boolean;
+};
+
+@Injectable()
+export class OnEventResolverFactory
+  implements WorkspaceSubscriptionResolverBuilderFactoryInterface
+{
+  public static methodName = RESOLVER_METHOD_NAMES.ON_EVENT;
+
+  constructor(
+    @Inject('PUB_SUB') private readonly pubSub: RedisPubSub,
+    private readonly apiKeyRoleService: ApiKeyRoleService,
+    private readonly userRoleService: UserRoleService,
+    private readonly workspaceCacheService: WorkspaceCacheService,
+  ) {}
+
+  create(
+    context: WorkspaceSchemaBuilderContext,
+  ): SubscriptionResolver<OnEventResolverArgs> {
+    const internalContext = context;
+
+    return {
+      subscribe: async (source, args, graphqlContext, info) => {
+        try {
+          // Rejects the subscription upfront, permissions are then checked
+          // again on each event
+          const unreadableFieldNames =
+            await this.getUnreadableFieldNamesOrThrow(internalContext);
+
+          this.assertFilterIsReadable(args, unreadableFieldNames);
+
+          return withFilter(
+            () =>
+              mapAsyncIterator(
+                this.pubSub.asyncIterator<DbEventPayload>(ON_DB_EVENT_TRIGGER),
+                (payload: DbEventPayload) =>
+                  this.toReadableEvent(payload, args, internalContext),
+              ),
+            (event: ReadableDbEvent | null) => isDefined(event),
+          )(source, args, graphqlContext, info);
+        } catch (error) {
+          workspaceQueryRunnerGraphqlApiExceptionHandler(error);
+        }
+      },
+      resolve: (event) => event,
+    };
+  }
+
+  // Returns the event as sent to the subscriber, or null when it must not be
+  // sent. The role is read from the cache on each event so that permission
+  // changes apply to open subscriptions.
+  private async toReadableEvent(
+    payload: DbEventPayload,
+    args: OnEventResolverArgs,
+    context: WorkspaceSchemaBuilderContext,
+  ): Promise<ReadableDbEvent | null> {
+    const { onDbEvent, recordBefore } = payload;
+
+    if (
+      payload.workspaceId !== context.authContext.workspace?.id ||
+      onDbEvent.objectNameSingular !==
+        context.flatObjectMetadata.nameSingular ||
+      !isDefined(onDbEvent.record)
+    ) {
+      return null;
+    }
+
+    if (
+      isDefined(args.actions) &&
+      args.actions.length > 0 &&
+      !args.actions.includes(onDbEvent.action)
+    ) {
+      return null;
+    }
+
+    let unreadableFieldNames: string[];
+
+    try {
+      unreadableFieldNames = await this.getUnreadableFieldNamesOrThrow(context);
+      this.assertFilterIsReadable(args, unreadableFieldNames);
+    } catch (error) {
+      if (
+        error instanceof PermissionsException ||
+        error instanceof ApiKeyException
+      ) {
+        return null;
+      }
+
+      throw error;
+    }
+
+    let isLeavingFilter = false;
+
+    if (isDefined(args.filter)) {
+      const filter = args.filter as RecordGqlOperationFilter;
+
+      if (!isRecordMatchingFilter({ record: onDbEvent.record, filter })) {
+        // An update moving a record out of the filter is sent once, so that
+        // the subscriber can drop it
+        if (
+          !isDefined(recordBefore) ||
+          !isRecordMatchingFilter({ record: recordBefore, filter })
+        ) {
+          return null;
+        }
+
+        isLeavingFilter = true;
+      }
+    }
+
+    return {
+      ...onDbEvent,
+      record: Object.fromEntries(
+        Object.entries(onDbEvent.record).filter(
+          ([fieldName]) => !unreadableFieldNames.includes(fieldName),
+        ),
+      ),
+      ...(isDefined(onDbEvent.updatedFields) && {
+        updatedFields: onDbEvent.updatedFields.filter(
+          (fieldName) => !unreadableFieldNames.includes(fieldName),
+        ),
+      }),
+      isLeavingFilter,
+    };
+  }
+
+  private assertFilterIsReadable(
+    args: OnEventResolverArgs,
+    unreadableFieldNames: string[],
+  ): void {
+    if (
+      isDefined(args.filter) &&
+      this.getFilterFieldNames(args.filter as RecordGqlOperationFilter).some(
+        (fieldName) => unreadableFieldNames.includes(fieldName),
+      )
+    ) {
+      throw new PermissionsException(
+        PermissionsExceptionMessage.PERMISSION_DENIED,
+        PermissionsExceptionCode.PERMISSION_DENIED,
+      );
+    }
+  }
+
+  private async getUnreadableFieldNamesOrThrow(
+    context: WorkspaceSchemaBuilderContext,
+  ): Promise<string[]> {
+    const { authContext, flatObjectMetadata, flatFieldMetadataMaps } = context;
+    const workspaceId = authContext.workspace?.id;
+
+    if (!isDefined(workspaceId)) {
+      throw new PermissionsException(
+        PermissionsExceptionMessage.NO_AUTHENTICATION_CONTEXT,
+        PermissionsExceptionCode.NO_AUTHENTICATION_CONTEXT,
+      );
+    }
+
+    if (flatObjectMetadata.isSystem) {
+      return [];
+    }
+
+    const roleId = await this.getRoleIdOrThrow(context, workspaceId);
+
+    const { rolesPermissions } =
+      await this.workspaceCacheService.getOrRecompute(workspaceId, [
+        'rolesPermissions',
+      ]);
+
+    const objectPermissions = rolesPermissions[roleId]?.[flatObjectMetadata.id];
+
+    if (!objectPermissions?.canReadObjectRecords) {
+      throw new PermissionsException(
+        PermissionsExceptionMessage.PERMISSION_DENIED,
+        PermissionsExceptionCode.PERMISSION_DENIED,
+      );
+    }
+
+    return getUnreadableRecordFieldNames(
+      flatObjectMetadata,
+      flatFieldMetadataMaps,
+      objectPermissions.restrictedFields,
+    );
+  }
+
+  private async getRoleIdOrThrow(
+    { authContext }: WorkspaceSchemaBuilderContext,
+    workspaceId: string,
+  ): Promise<string> {
+    if (isDefined(authContext.apiKey)) {
+      return this.apiKeyRoleService.getRoleIdForApiKey(
+        authContext.apiKey.id,
+        workspaceId,
+      );
+    }
+
+    if (!isDefined(authContext.userWorkspaceId)) {
+      throw new PermissionsException(
+        PermissionsExceptionMessage.NO_AUTHENTICATION_CONTEXT,
+        PermissionsExceptionCode.NO_AUTHENTICATION_CONTEXT,
+      );
+    }
+
+    return this.userRoleService.getRoleIdForUserWorkspace({
+      userWorkspaceId: authContext.userWorkspaceId,
+      workspaceId,
+    });
+  }
+
+  private getFilterFieldNames(filter: RecordGqlOperationFilter): string[] {
+    return Object.entries(filter).flatMap(([key, value]) => {
+      if (!LOGICAL_FILTER_KEYS.includes(key)) {
+        return [key];
+      }
+
+      const subFilters = (Array.isArray(value) ? value : [value]).filter(
+        isDefined,
+      ) as RecordGqlOperationFilter[];
+
+      return subFilters.flatMap((subFilter) =>
+        this.getFilterFieldNames(subFilter),
+      );
+    });
+  }
+}
@@ -1,7 +1,14 @@
 import { type WorkspaceSchemaBuilderContext } from 'src/engine/api/graphql/workspace-schema-builder/interfaces/workspace-schema-builder-context.interface';
 
-import { type Resolver } from './workspace-resolvers-builder.interface';
+import {
+  type Resolver,
+  type SubscriptionResolver,
+} from './workspace-resolvers-builder.interface';
 
 export interface WorkspaceResolverBuilderFactoryInterface {
   create(context: WorkspaceSchemaBuilderContext): Resolver;
 }
+
+export interface WorkspaceSubscriptionResolverBuilderFactoryInterface {
+  create(context: WorkspaceSchemaBuilderContext): SubscriptionResolver;
+}
@@ -10,12 +10,19 @@ import {
   type ObjectRecordOrderBy,
 } from 'src/engine/api/graphql/workspace-query-builder/interfaces/object-record.interface';
 
+import { type DatabaseEventAction } from 'src/engine/api/graphql/graphql-query-runner/enums/database-event-action';
 import { RESOLVER_METHOD_NAMES } from 'src/engine/api/graphql/workspace-resolver-builder/constants/resolver-method-names';
 import { type workspaceResolverBuilderMethodNames } from 'src/engine/api/graphql/workspace-resolver-builder/factories/factories';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type Resolver<Args = any> = GraphQLFieldResolver<any, any, Args>;
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type SubscriptionResolver<Args = any> = {
+  subscribe: Resolver<Args>;
+  resolve: Resolver<Args>;
+};
+
 // Use RESOLVER_METHOD_NAMES as the single source of truth for operation names
 // This avoids duplication and ensures consistency across the codebase
 export const ResolverArgsType = RESOLVER_METHOD_NAMES;
@@ -117,19 +124,29 @@ export interface DestroyManyResolverArgs<Filter = any> {
   filter: Filter;
 }
 
+export interface OnEventResolverArgs<Filter = ObjectRecordFilter> {
+  filter?: Filter;
+  actions?: DatabaseEventAction[];
+}
+
 export type WorkspaceResolverBuilderQueryMethodNames =
   (typeof workspaceResolverBuilderMethodNames.queries)[number];
 
 export type WorkspaceResolverBuilderMutationMethodNames =
   (typeof workspaceResolverBuilderMethodNames.mutations)[number];
 
+export type WorkspaceResolverBuilderSubscriptionMethodNames =
+  (typeof workspaceResolverBuilderMethodNames.subscriptions)[number];
+
 export type WorkspaceResolverBuilderMethodNames =
   | WorkspaceResolverBuilderQueryMethodNames
-  | WorkspaceResolverBuilderMutationMethodNames;
+  | WorkspaceResolverBuilderMutationMethodNames
+  | WorkspaceResolverBuilderSubscriptionMethodNames;
 
 export interface WorkspaceResolverBuilderMethods {
   readonly queries: readonly WorkspaceResolverBuilderQueryMethodNames[];
   readonly mutations: readonly WorkspaceResolverBuilderMutationMethodNames[];
+  readonly subscriptions: readonly WorkspaceResolverBuilderSubscriptionMethodNames[];
 }
 
 export type ResolverArgs =
@@ -143,6 +160,7 @@ export type ResolverArgs =
   | FindManyResolverArgs
   | FindOneResolverArgs
   | MergeManyResolverArgs
+  | OnEventResolverArgs
   | RestoreManyResolverArgs
   | RestoreOneResolverArgs
   | UpdateManyResolverArgs
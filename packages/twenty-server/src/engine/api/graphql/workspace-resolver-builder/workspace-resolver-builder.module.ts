@@ -3,14 +3,26 @@ import { Module } from '@nestjs/common';
 import { CoreCommonApiModule } from 'src/engine/api/common/core-common-api.module';
 import { GraphqlQueryRunnerModule } from 'src/engine/api/graphql/graphql-query-runner/graphql-query-runner.module';
 import { WorkspaceResolverBuilderService } from 'src/engine/api/graphql/workspace-resolver-builder/workspace-resolver-builder.service';
+import { ApiKeyModule } from 'src/engine/core-modules/api-key/api-key.module';
 import { FeatureFlagModule } from 'src/engine/core-modules/feature-flag/feature-flag.module';
+import { UserRoleModule } from 'src/engine/metadata-modules/user-role/user-role.module';
+import { SubscriptionsModule } from 'src/engine/subscriptions/subscriptions.module';
+import { WorkspaceCacheModule } from 'src/engine/workspace-cache/workspace-cache.module';
 
 import { WorkspaceResolverFactory } from './workspace-resolver.factory';
 
 import { workspaceResolverBuilderFactories } from './factories/factories';
 
 @Module({
-  imports: [GraphqlQueryRunnerModule, FeatureFlagModule, CoreCommonApiModule],
+  imports: [
+    GraphqlQueryRunnerModule,
+    FeatureFlagModule,
+    CoreCommonApiModule,
+    SubscriptionsModule,
+    ApiKeyModule,
+    UserRoleModule,
+    WorkspaceCacheModule,
+  ],
   providers: [
     ...workspaceResolverBuilderFactories,
     WorkspaceResolverFactory,
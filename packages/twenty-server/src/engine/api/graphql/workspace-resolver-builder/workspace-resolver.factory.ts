@@ -8,6 +8,7 @@ import { DestroyManyResolverFactory } from 'src/engine/api/graphql/workspace-res
 import { DestroyOneResolverFactory } from 'src/engine/api/graphql/workspace-resolver-builder/factories/destroy-one-resolver.factory';
 import { GroupByResolverFactory } from 'src/engine/api/graphql/workspace-resolver-builder/factories/group-by-resolver.factory';
 import { MergeManyResolverFactory } from 'src/engine/api/graphql/workspace-resolver-builder/factories/merge-many-resolver.factory';
+import { OnEventResolverFactory } from 'src/engine/api/graphql/workspace-resolver-builder/factories/on-event-resolver.factory';
 import { RestoreManyResolverFactory } from 'src/engine/api/graphql/workspace-resolver-builder/factories/restore-many-resolver.factory';
 import { RestoreOneResolverFactory } from 'src/engine/api/graphql/workspace-resolver-builder/factories/restore-one-resolver.factory';
 import { UpdateManyResolverFactory } from 'src/engine/api/graphql/workspace-resolver-builder/factories/update-many-resolver.factory';
@@ -29,10 +30,14 @@ import { FindDuplicatesResolverFactory } from './factories/find-duplicates-resol
 import { FindManyResolverFactory } from './factories/find-many-resolver.factory';
 import { FindOneResolverFactory } from './factories/find-one-resolver.factory';
 import { UpdateOneResolverFactory } from './factories/update-one-resolver.factory';
-import { type WorkspaceResolverBuilderFactoryInterface } from './interfaces/workspace-resolver-builder-factory.interface';
+import {
+  type WorkspaceResolverBuilderFactoryInterface,
+  type WorkspaceSubscriptionResolverBuilderFactoryInterface,
+} from './interfaces/workspace-resolver-builder-factory.interface';
 import {
   type WorkspaceResolverBuilderMethodNames,
   type WorkspaceResolverBuilderMethods,
+  type WorkspaceResolverBuilderSubscriptionMethodNames,
 } from './interfaces/workspace-resolvers-builder.interface';
 
 @Injectable()
@@ -55,6 +60,7 @@ export class WorkspaceResolverFactory {
     private readonly destroyManyResolverFactory: DestroyManyResolverFactory,
     private readonly mergeManyResolverFactory: MergeManyResolverFactory,
     private readonly groupByResolverFactory: GroupByResolverFactory,
+    private readonly onEventResolverFactory: OnEventResolverFactory,
     private readonly workspaceResolverBuilderService: WorkspaceResolverBuilderService,
   ) {}
 
@@ -85,9 +91,14 @@ export class WorkspaceResolverFactory {
       ['updateOne', this.updateOneResolverFactory],
       ['groupBy', this.groupByResolverFactory],
     ]);
+    const subscriptionFactories = new Map<
+      WorkspaceResolverBuilderSubscriptionMethodNames,
+      WorkspaceSubscriptionResolverBuilderFactoryInterface
+    >([['onEvent', this.onEventResolverFactory]]);
     const resolvers: IResolvers = {
       Query: {},
       Mutation: {},
+      Subscription: {},
     };
 
     const workspaceId = authContext.workspace?.id;
@@ -165,6 +176,34 @@ export class WorkspaceResolverFactory {
           });
         }
       }
+
+      // Generate subscription resolvers
+      for (const methodName of workspaceResolverBuilderMethods.subscriptions) {
+        const resolverName = getResolverName(flatObjectMetadata, methodName);
+        const resolverFactory = subscriptionFactories.get(methodName);
+
+        if (!resolverFactory) {
+          this.logger.error(
+            `Unknown subscription resolver type: ${methodName}`,
+            {
+              flatObjectMetadata,
+              methodName,
+              resolverName,
+            },
+          );
+
+          throw new Error(`Unknown subscription resolver type: ${methodName}`);
+        }
+
+        // @ts-expect-error legacy noImplicitAny
+        resolvers.Subscription[resolverName] = resolverFactory.create({
+          authContext,
+          flatObjectMetadata,
+          flatObjectMetadataMaps,
+          flatFieldMetadataMaps,
+          objectIdByNameSingular,
+        });
+      }
     }
 
     return resolvers;
@@ -2,5 +2,6 @@ export enum ObjectTypeDefinitionKind {
   GroupByConnection = 'GroupByConnection',
   Connection = 'Connection',
   Edge = 'Edge',
+  Event = 'Event',
   Plain = '',
 }
@@ -18,8 +18,10 @@ import { EdgeGqlObjectTypeGenerator } from 'src/engine/api/graphql/workspace-sch
 import { GroupByConnectionGqlObjectTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/object-types/group-by-connection-gql-object-type.generator';
 import { ObjectMetadataGqlObjectTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/object-types/object-metadata-gql-object-type.generator';
 import { ObjectMetadataWithRelationsGqlObjectTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/object-types/object-metadata-with-relations-gql-object-type.generator';
+import { ObjectRecordEventGqlObjectTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/object-types/object-record-event-gql-object-type.generator';
 import { MutationTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/root-types/mutation-type.generator';
 import { QueryTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/root-types/query-type.generator';
+import { SubscriptionTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/root-types/subscription-type.generator';
 import { type SchemaGenerationContext } from 'src/engine/api/graphql/workspace-schema-builder/types/schema-generation-context.type';
 import { getFlatFieldsFromFlatObjectMetadata } from 'src/engine/api/graphql/workspace-schema-builder/utils/get-flat-fields-for-flat-object-metadata.util';
 import { FlatFieldMetadata } from 'src/engine/metadata-modules/flat-field-metadata/types/flat-field-metadata.type';
@@ -39,11 +41,13 @@ export class GqlTypeGenerator {
     private readonly edgeGqlObjectTypeGenerator: EdgeGqlObjectTypeGenerator,
     private readonly connectionGqlObjectTypeGenerator: ConnectionGqlObjectTypeGenerator,
     private readonly groupByConnectionGqlObjectTypeGenerator: GroupByConnectionGqlObjectTypeGenerator,
+    private readonly objectRecordEventGqlObjectTypeGenerator: ObjectRecordEventGqlObjectTypeGenerator,
     private readonly objectMetadataWithRelationsGqlObjectTypeGenerator: ObjectMetadataWithRelationsGqlObjectTypeGenerator,
     private readonly relationConnectGqlInputTypeGenerator: RelationConnectGqlInputTypeGenerator,
     private readonly groupByDateGranularityInputTypeGenerator: GroupByDateGranularityInputTypeGenerator,
     private readonly queryTypeGenerator: QueryTypeGenerator,
     private readonly mutationTypeGenerator: MutationTypeGenerator,
+    private readonly subscriptionTypeGenerator: SubscriptionTypeGenerator,
   ) {}
 
   async buildAndStore(context: SchemaGenerationContext) {
@@ -54,6 +58,7 @@ export class GqlTypeGenerator {
     this.buildAndStoreObjectMetadataGqlTypes(context);
     await this.queryTypeGenerator.buildAndStore(context);
     this.mutationTypeGenerator.buildAndStore(context);
+    this.subscriptionTypeGenerator.buildAndStore(context);
   }
 
   private buildAndStoreCompositeFieldMetadataGqlTypes(
@@ -112,6 +117,9 @@ export class GqlTypeGenerator {
       this.groupByConnectionGqlObjectTypeGenerator.buildAndStore(
         flatObjectMetadata,
       );
+      this.objectRecordEventGqlObjectTypeGenerator.buildAndStore(
+        flatObjectMetadata,
+      );
       this.relationConnectGqlInputTypeGenerator.buildAndStore(
         flatObjectMetadata,
         fields,
@@ -13,6 +13,7 @@ export class OrphanedTypesGenerator {
     return this.gqlTypesStorage.getAllGqlTypesExcept([
       GqlOperation.Query,
       GqlOperation.Mutation,
+      GqlOperation.Subscription,
     ]);
   }
 }
@@ -143,6 +143,8 @@ export class RootTypeGenerator {
         return ObjectTypeDefinitionKind.Connection;
       case 'groupBy':
         return ObjectTypeDefinitionKind.GroupByConnection;
+      case 'onEvent':
+        return ObjectTypeDefinitionKind.Event;
       default:
         return ObjectTypeDefinitionKind.Plain;
     }
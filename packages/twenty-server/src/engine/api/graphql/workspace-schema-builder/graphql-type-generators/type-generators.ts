@@ -25,11 +25,13 @@ import { EdgeGqlObjectTypeGenerator } from 'src/engine/api/graphql/workspace-sch
 import { GroupByConnectionGqlObjectTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/object-types/group-by-connection-gql-object-type.generator';
 import { ObjectMetadataGqlObjectTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/object-types/object-metadata-gql-object-type.generator';
 import { ObjectMetadataWithRelationsGqlObjectTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/object-types/object-metadata-with-relations-gql-object-type.generator';
+import { ObjectRecordEventGqlObjectTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/object-types/object-record-event-gql-object-type.generator';
 import { RelationFieldMetadataGqlObjectTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/object-types/relation-field-metadata-gql-object-type.generator';
 import { OrphanedTypesGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/orphaned-types.generator';
 import { MutationTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/root-types/mutation-type.generator';
 import { QueryTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/root-types/query-type.generator';
 import { RootTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/root-types/root-type.generator';
+import { SubscriptionTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/root-types/subscription-type.generator';
 
 export const workspaceSchemaBuilderTypeGenerators = [
   CompositeFieldMetadataGqlEnumTypeGenerator,
@@ -58,10 +60,12 @@ export const workspaceSchemaBuilderTypeGenerators = [
   EdgeGqlObjectTypeGenerator,
   GroupByConnectionGqlObjectTypeGenerator,
   ObjectMetadataWithRelationsGqlObjectTypeGenerator,
+  ObjectRecordEventGqlObjectTypeGenerator,
   AggregationObjectTypeGenerator,
   ArgsTypeGenerator,
   RootTypeGenerator,
   QueryTypeGenerator,
   MutationTypeGenerator,
+  SubscriptionTypeGenerator,
   OrphanedTypesGenerator,
 ];
@@ -0,0 +1,11 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { DatabaseEventAction } from 'src/engine/api/graphql/graphql-query-runner/enums/database-event-action';
+
+export const DatabaseEventActionType = new GraphQLEnumType({
+  name: 'DatabaseEventAction',
+  description: 'This enum is used to specify the action of a record event',
+  values: Object.fromEntries(
+    Object.entries(DatabaseEventAction).map(([key, value]) => [key, { value }]),
+  ),
+});
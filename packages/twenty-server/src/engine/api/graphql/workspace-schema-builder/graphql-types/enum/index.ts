@@ -1 +1,2 @@
+export * from './database-event-action.enum-type';
 export * from './order-by-direction.enum-type';
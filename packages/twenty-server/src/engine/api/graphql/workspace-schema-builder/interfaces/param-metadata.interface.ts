@@ -1,4 +1,4 @@
-import { type GraphQLScalarType } from 'graphql';
+import { type GraphQLEnumType, type GraphQLScalarType } from 'graphql';
 import { type FieldMetadataType } from 'twenty-shared/types';
 
 import { type FieldMetadataDefaultValue } from 'src/engine/metadata-modules/field-metadata/interfaces/field-metadata-default-value.interface';
@@ -7,7 +7,7 @@ import { type GqlInputTypeDefinitionKind } from 'src/engine/api/graphql/workspac
 
 export interface ArgMetadata {
   kind?: GqlInputTypeDefinitionKind;
-  type?: GraphQLScalarType;
+  type?: GraphQLScalarType | GraphQLEnumType;
   isNullable?: boolean;
   isArray?: boolean;
   defaultValue?: FieldMetadataDefaultValue<FieldMetadataType>;
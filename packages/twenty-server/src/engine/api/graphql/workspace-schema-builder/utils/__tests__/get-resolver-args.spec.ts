@@ -3,6 +3,7 @@ import { GraphQLBoolean, GraphQLInt, GraphQLString } from 'graphql';
 import { type WorkspaceResolverBuilderMethodNames } from 'src/engine/api/graphql/workspace-resolver-builder/interfaces/workspace-resolvers-builder.interface';
 
 import { GqlInputTypeDefinitionKind } from 'src/engine/api/graphql/workspace-schema-builder/enums/gql-input-type-definition-kind.enum';
+import { DatabaseEventActionType } from 'src/engine/api/graphql/workspace-schema-builder/graphql-types/enum';
 import { UUIDScalarType } from 'src/engine/api/graphql/workspace-schema-builder/graphql-types/scalars';
 import { getResolverArgs } from 'src/engine/api/graphql/workspace-schema-builder/utils/get-resolver-args.util';
 
@@ -57,6 +58,14 @@ describe('getResolverArgs', () => {
     destroyMany: {
       filter: { kind: GqlInputTypeDefinitionKind.Filter, isNullable: false },
     },
+    onEvent: {
+      filter: { kind: GqlInputTypeDefinitionKind.Filter, isNullable: true },
+      actions: {
+        type: DatabaseEventActionType,
+        isNullable: true,
+        isArray: true,
+      },
+    },
   };
 
   // Test each resolver type
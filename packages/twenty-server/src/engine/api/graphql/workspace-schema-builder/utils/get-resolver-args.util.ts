@@ -4,6 +4,7 @@ import { type WorkspaceResolverBuilderMethodNames } from 'src/engine/api/graphql
 import { type ArgMetadata } from 'src/engine/api/graphql/workspace-schema-builder/interfaces/param-metadata.interface';
 
 import { GqlInputTypeDefinitionKind } from 'src/engine/api/graphql/workspace-schema-builder/enums/gql-input-type-definition-kind.enum';
+import { DatabaseEventActionType } from 'src/engine/api/graphql/workspace-schema-builder/graphql-types/enum';
 import { UUIDScalarType } from 'src/engine/api/graphql/workspace-schema-builder/graphql-types/scalars';
 
 export const getResolverArgs = (
@@ -195,6 +196,18 @@ export const getResolverArgs = (
           isNullable: true,
         },
       };
+    case 'onEvent':
+      return {
+        filter: {
+          kind: GqlInputTypeDefinitionKind.Filter,
+          isNullable: true,
+        },
+        actions: {
+          type: DatabaseEventActionType,
+          isNullable: true,
+          isArray: true,
+        },
+      };
     default:
       throw new Error(`Unknown resolver type: ${type}`);
   }
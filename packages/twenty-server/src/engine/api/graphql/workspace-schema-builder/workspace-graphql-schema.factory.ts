@@ -6,6 +6,7 @@ import { GqlTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builde
 import { OrphanedTypesGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/orphaned-types.generator';
 import { MutationTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/root-types/mutation-type.generator';
 import { QueryTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/root-types/query-type.generator';
+import { SubscriptionTypeGenerator } from 'src/engine/api/graphql/workspace-schema-builder/graphql-type-generators/root-types/subscription-type.generator';
 import { type SchemaGenerationContext } from 'src/engine/api/graphql/workspace-schema-builder/types/schema-generation-context.type';
 
 @Injectable()
@@ -14,6 +15,7 @@ export class WorkspaceGraphQLSchemaGenerator {
     private readonly gqlTypeGenerator: GqlTypeGenerator,
     private readonly queryTypeGenerator: QueryTypeGenerator,
     private readonly mutationTypeGenerator: MutationTypeGenerator,
+    private readonly subscriptionTypeGenerator: SubscriptionTypeGenerator,
     private readonly orphanedTypesGenerator: OrphanedTypesGenerator,
   ) {}
 
@@ -26,6 +28,7 @@ export class WorkspaceGraphQLSchemaGenerator {
     const schema = new GraphQLSchema({
       query: this.queryTypeGenerator.fetchQueryType(),
       mutation: this.mutationTypeGenerator.fetchMutationType(),
+      subscription: this.subscriptionTypeGenerator.fetchSubscriptionType(),
       types: this.orphanedTypesGenerator.fetchOrphanedTypes(),
     });
 
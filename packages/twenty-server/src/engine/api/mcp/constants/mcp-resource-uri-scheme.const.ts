@@ -0,0 +1 @@
+export const MCP_RESOURCE_URI_SCHEME = 'twenty://';
@@ -1,16 +1,21 @@
 import {
   Body,
   Controller,
+  type MessageEvent,
   Post,
+  Sse,
   UseFilters,
   UseGuards,
   UsePipes,
   ValidationPipe,
 } from '@nestjs/common';
 
+import { Observable } from 'rxjs';
+
 import { JsonRpc } from 'src/engine/api/mcp/dtos/json-rpc';
 import { McpProtocolService } from 'src/engine/api/mcp/services/mcp-protocol.service';
 import { RestApiExceptionFilter } from 'src/engine/api/rest/rest-api-exception.filter';
+import { ApiKeyEntity } from 'src/engine/core-modules/api-key/api-key.entity';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { AuthApiKey } from 'src/engine/decorators/auth/auth-api-key.decorator';
 import { AuthUserWorkspaceId } from 'src/engine/decorators/auth/auth-user-workspace-id.decorator';
@@ -36,7 +41,7 @@ export class McpCoreController {
   async handleMcpCore(
     @Body() body: JsonRpc,
     @AuthWorkspace() workspace: WorkspaceEntity,
-    @AuthApiKey() apiKey: string | undefined,
+    @AuthApiKey() apiKey: ApiKeyEntity | undefined,
     @AuthUserWorkspaceId() userWorkspaceId: string | undefined,
   ) {
     return await this.mcpProtocolService.handleMCPCoreQuery(body, {
@@ -45,4 +50,20 @@ export class McpCoreController {
       apiKey,
     });
   }
+
+  // Server-sent events stream carrying resource update notifications
+  @Sse()
+  async streamMcpNotifications(
+    @AuthWorkspace() workspace: WorkspaceEntity,
+    @AuthApiKey() apiKey: ApiKeyEntity | undefined,
+    @AuthUserWorkspaceId() userWorkspaceId: string | undefined,
+  ): Promise<Observable<MessageEvent>> {
+    await this.mcpProtocolService.checkAiEnabled(workspace.id);
+
+    return this.mcpProtocolService.getResourceNotificationStream({
+      workspace,
+      userWorkspaceId,
+      apiKey,
+    });
+  }
 }
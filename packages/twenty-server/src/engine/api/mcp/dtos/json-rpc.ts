@@ -25,6 +25,8 @@ export class JsonRpc {
   params?: {
     name: string;
     arguments: unknown;
+    // Used by the resources methods
+    uri?: string;
   };
 
   @IsOptional()
@@ -5,14 +5,21 @@ import { McpCoreController } from 'src/engine/api/mcp/controllers/mcp-core.contr
 import { McpMetadataController } from 'src/engine/api/mcp/controllers/mcp-metadata.controller';
 import { MCPMetadataService } from 'src/engine/api/mcp/services/mcp-metadata.service';
 import { McpProtocolService } from 'src/engine/api/mcp/services/mcp-protocol.service';
+import { McpResourceSubscriptionService } from 'src/engine/api/mcp/services/mcp-resource-subscription.service';
+import { McpResourceService } from 'src/engine/api/mcp/services/mcp-resource.service';
 import { McpToolExecutorService } from 'src/engine/api/mcp/services/mcp-tool-executor.service';
 import { TokenModule } from 'src/engine/core-modules/auth/token/token.module';
 import { FeatureFlagModule } from 'src/engine/core-modules/feature-flag/feature-flag.module';
+import { McpPromptModule } from 'src/engine/core-modules/mcp-prompt/mcp-prompt.module';
 import { MetricsModule } from 'src/engine/core-modules/metrics/metrics.module';
+import { RecordCrudModule } from 'src/engine/core-modules/record-crud/record-crud.module';
 import { ToolProviderModule } from 'src/engine/core-modules/tool-provider/tool-provider.module';
+import { WorkspaceManyOrAllFlatEntityMapsCacheModule } from 'src/engine/metadata-modules/flat-entity/services/workspace-many-or-all-flat-entity-maps-cache.module';
 import { RoleEntity } from 'src/engine/metadata-modules/role/role.entity';
 import { UserRoleModule } from 'src/engine/metadata-modules/user-role/user-role.module';
+import { SubscriptionsModule } from 'src/engine/subscriptions/subscriptions.module';
 import { WorkspaceCacheStorageModule } from 'src/engine/workspace-cache-storage/workspace-cache-storage.module';
+import { WorkspaceCacheModule } from 'src/engine/workspace-cache/workspace-cache.module';
 
 @Module({
   imports: [
@@ -23,9 +30,20 @@ import { WorkspaceCacheStorageModule } from 'src/engine/workspace-cache-storage/
     MetricsModule,
     UserRoleModule,
     ToolProviderModule,
+    RecordCrudModule,
+    McpPromptModule,
+    SubscriptionsModule,
+    WorkspaceManyOrAllFlatEntityMapsCacheModule,
+    WorkspaceCacheModule,
   ],
   controllers: [McpCoreController, McpMetadataController],
   exports: [McpProtocolService],
-  providers: [McpProtocolService, McpToolExecutorService, MCPMetadataService],
+  providers: [
+    McpProtocolService,
+    McpToolExecutorService,
+    MCPMetadataService,
+    McpResourceService,
+    McpResourceSubscriptionService,
+  ],
 })
 export class McpModule {}
@@ -7,9 +7,13 @@ import { jsonSchema } from 'ai';
 import { MCP_SERVER_METADATA } from 'src/engine/api/mcp/constants/mcp.const';
 import { type JsonRpc } from 'src/engine/api/mcp/dtos/json-rpc';
 import { McpProtocolService } from 'src/engine/api/mcp/services/mcp-protocol.service';
+import { McpResourceSubscriptionService } from 'src/engine/api/mcp/services/mcp-resource-subscription.service';
+import { McpResourceService } from 'src/engine/api/mcp/services/mcp-resource.service';
 import { McpToolExecutorService } from 'src/engine/api/mcp/services/mcp-tool-executor.service';
+import { type ApiKeyEntity } from 'src/engine/core-modules/api-key/api-key.entity';
 import { FeatureFlagKey } from 'src/engine/core-modules/feature-flag/enums/feature-flag-key.enum';
 import { FeatureFlagService } from 'src/engine/core-modules/feature-flag/services/feature-flag.service';
+import { McpPromptService } from 'src/engine/core-modules/mcp-prompt/mcp-prompt.service';
 import { ToolProviderService } from 'src/engine/core-modules/tool-provider/services/tool-provider.service';
 import { type WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { ADMIN_ROLE_LABEL } from 'src/engine/metadata-modules/permissions/constants/admin-role-label.constants';
@@ -22,12 +26,15 @@ describe('McpProtocolService', () => {
   let toolProviderService: jest.Mocked<ToolProviderService>;
   let userRoleService: jest.Mocked<UserRoleService>;
   let mcpToolExecutorService: jest.Mocked<McpToolExecutorService>;
+  let mcpResourceService: jest.Mocked<McpResourceService>;
+  let mcpResourceSubscriptionService: jest.Mocked<McpResourceSubscriptionService>;
+  let mcpPromptService: jest.Mocked<McpPromptService>;
 
   const mockWorkspace = { id: 'workspace-1' } as WorkspaceEntity;
   const mockUserWorkspaceId = 'user-workspace-1';
   const mockRoleId = 'role-1';
   const mockAdminRoleId = 'admin-role-1';
-  const mockApiKey = 'api-key-1';
+  const mockApiKey = { id: 'api-key-1' } as ApiKeyEntity;
 
   beforeEach(async () => {
     const mockFeatureFlagService = {
@@ -47,6 +54,23 @@ describe('McpProtocolService', () => {
       handleToolsListing: jest.fn(),
     };
 
+    const mockMcpResourceService = {
+      listResources: jest.fn(),
+      listResourceTemplates: jest.fn(),
+      readResource: jest.fn(),
+    };
+
+    const mockMcpResourceSubscriptionService = {
+      subscribe: jest.fn(),
+      unsubscribe: jest.fn(),
+      getNotificationStream: jest.fn(),
+    };
+
+    const mockMcpPromptService = {
+      findByWorkspaceId: jest.fn(),
+      render: jest.fn(),
+    };
+
     const mockAdminRole = {
       id: mockAdminRoleId,
       label: ADMIN_ROLE_LABEL,
@@ -71,6 +95,18 @@ describe('McpProtocolService', () => {
           provide: McpToolExecutorService,
           useValue: mockMcpToolExecutorService,
         },
+        {
+          provide: McpResourceService,
+          useValue: mockMcpResourceService,
+        },
+        {
+          provide: McpResourceSubscriptionService,
+          useValue: mockMcpResourceSubscriptionService,
+        },
+        {
+          provide: McpPromptService,
+          useValue: mockMcpPromptService,
+        },
         {
           provide: getRepositoryToken(RoleEntity),
           useValue: {
@@ -85,6 +121,9 @@ describe('McpProtocolService', () => {
     toolProviderService = module.get(ToolProviderService);
     userRoleService = module.get(UserRoleService);
     mcpToolExecutorService = module.get(McpToolExecutorService);
+    mcpResourceService = module.get(McpResourceService);
+    mcpResourceSubscriptionService = module.get(McpResourceSubscriptionService);
+    mcpPromptService = module.get(McpPromptService);
   });
 
   it('should be defined', () => {
@@ -128,7 +167,7 @@ describe('McpProtocolService', () => {
           ...MCP_SERVER_METADATA,
           capabilities: {
             tools: { listChanged: false },
-            resources: { listChanged: false },
+            resources: { subscribe: true, listChanged: false },
             prompts: { listChanged: false },
           },
         }),
@@ -200,7 +239,7 @@ describe('McpProtocolService', () => {
           ...MCP_SERVER_METADATA,
           capabilities: {
             tools: { listChanged: false },
-            resources: { listChanged: false },
+            resources: { subscribe: true, listChanged: false },
             prompts: { listChanged: false },
           },
         }),
@@ -420,5 +459,161 @@ describe('McpProtocolService', () => {
         },
       });
     });
+
+    it('should read a resource with the role of the member', async () => {
+      featureFlagService.isFeatureEnabled.mockResolvedValue(true);
+      userRoleService.getRoleIdForUserWorkspace.mockResolvedValue(mockRoleId);
+
+      const contents = [
+        {
+          uri: 'twenty://person/person-1',
+          mimeType: 'application/json',
+          text: '{"id":"person-1"}',
+        },
+      ];
+
+      mcpResourceService.readResource.mockResolvedValue(contents);
+
+      const result = await service.handleMCPCoreQuery(
+        {
+          jsonrpc: '2.0',
+          method: 'resources/read',
+          params: {
+            name: '',
+            arguments: {},
+            uri: 'twenty://person/person-1',
+          },
+          id: '123',
+        },
+        { workspace: mockWorkspace, userWorkspaceId: mockUserWorkspaceId },
+      );
+
+      expect(mcpResourceService.readResource).toHaveBeenCalledWith({
+        uri: 'twenty://person/person-1',
+        workspaceId: mockWorkspace.id,
+        roleId: mockRoleId,
+        userWorkspaceId: mockUserWorkspaceId,
+      });
+      expect(result).toMatchObject({ result: { contents } });
+      expect(toolProviderService.getTools).not.toHaveBeenCalled();
+    });
+
+    it('should subscribe the member to a resource', async () => {
+      featureFlagService.isFeatureEnabled.mockResolvedValue(true);
+      userRoleService.getRoleIdForUserWorkspace.mockResolvedValue(mockRoleId);
+
+      await service.handleMCPCoreQuery(
+        {
+          jsonrpc: '2.0',
+          method: 'resources/subscribe',
+          params: {
+            name: '',
+            arguments: {},
+            uri: 'twenty://person/person-1',
+          },
+          id: '123',
+        },
+        { workspace: mockWorkspace, userWorkspaceId: mockUserWorkspaceId },
+      );
+
+      expect(mcpResourceService.readResource).toHaveBeenCalledWith({
+        uri: 'twenty://person/person-1',
+        workspaceId: mockWorkspace.id,
+        roleId: mockRoleId,
+        userWorkspaceId: mockUserWorkspaceId,
+      });
+      expect(mcpResourceSubscriptionService.subscribe).toHaveBeenCalledWith({
+        workspaceId: mockWorkspace.id,
+        subscriberId: mockUserWorkspaceId,
+        uri: 'twenty://person/person-1',
+      });
+    });
+
+    it('should not subscribe to a resource the role cannot read', async () => {
+      featureFlagService.isFeatureEnabled.mockResolvedValue(true);
+      userRoleService.getRoleIdForUserWorkspace.mockResolvedValue(mockRoleId);
+      mcpResourceService.readResource.mockRejectedValue(
+        new HttpException(
+          "Record 'person-1' not found in 'person'",
+          HttpStatus.NOT_FOUND,
+        ),
+      );
+
+      const result = await service.handleMCPCoreQuery(
+        {
+          jsonrpc: '2.0',
+          method: 'resources/subscribe',
+          params: {
+            name: '',
+            arguments: {},
+            uri: 'twenty://person/person-1',
+          },
+          id: '123',
+        },
+        { workspace: mockWorkspace, userWorkspaceId: mockUserWorkspaceId },
+      );
+
+      expect(result).toMatchObject({
+        error: { code: HttpStatus.NOT_FOUND },
+      });
+      expect(mcpResourceSubscriptionService.subscribe).not.toHaveBeenCalled();
+    });
+
+    it('should keep the subscriptions of an API key to itself', async () => {
+      featureFlagService.isFeatureEnabled.mockResolvedValue(true);
+
+      await service.handleMCPCoreQuery(
+        {
+          jsonrpc: '2.0',
+          method: 'resources/subscribe',
+          params: {
+            name: '',
+            arguments: {},
+            uri: 'twenty://person/person-1',
+          },
+          id: '123',
+        },
+        { workspace: mockWorkspace, apiKey: mockApiKey },
+      );
+
+      expect(mcpResourceSubscriptionService.subscribe).toHaveBeenCalledWith({
+        workspaceId: mockWorkspace.id,
+        subscriberId: 'api-key:api-key-1',
+        uri: 'twenty://person/person-1',
+      });
+    });
+
+    it('should render a workspace prompt', async () => {
+      featureFlagService.isFeatureEnabled.mockResolvedValue(true);
+      userRoleService.getRoleIdForUserWorkspace.mockResolvedValue(mockRoleId);
+      mcpPromptService.render.mockResolvedValue({
+        prompt: { description: 'Account summary' },
+        text: 'Summarize Acme',
+      } as Awaited<ReturnType<McpPromptService['render']>>);
+
+      const result = await service.handleMCPCoreQuery(
+        {
+          jsonrpc: '2.0',
+          method: 'prompts/get',
+          params: { name: 'account-summary', arguments: { company: 'Acme' } },
+          id: '123',
+        },
+        { workspace: mockWorkspace, userWorkspaceId: mockUserWorkspaceId },
+      );
+
+      expect(mcpPromptService.render).toHaveBeenCalledWith({
+        name: 'account-summary',
+        workspaceId: mockWorkspace.id,
+        promptArguments: { company: 'Acme' },
+      });
+      expect(result).toMatchObject({
+        result: {
+          description: 'Account summary',
+          messages: [
+            { role: 'user', content: { type: 'text', text: 'Summarize Acme' } },
+          ],
+        },
+      });
+    });
   });
 });
@@ -1,13 +1,28 @@
-import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  type MessageEvent,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 
+import { type Observable } from 'rxjs';
+import { isDefined } from 'twenty-shared/utils';
 import { Repository } from 'typeorm';
 
 import { type JsonRpc } from 'src/engine/api/mcp/dtos/json-rpc';
+import { McpResourceSubscriptionService } from 'src/engine/api/mcp/services/mcp-resource-subscription.service';
+import { McpResourceService } from 'src/engine/api/mcp/services/mcp-resource.service';
 import { McpToolExecutorService } from 'src/engine/api/mcp/services/mcp-tool-executor.service';
 import { wrapJsonRpcResponse } from 'src/engine/api/mcp/utils/wrap-jsonrpc-response.util';
+import { type ApiKeyEntity } from 'src/engine/core-modules/api-key/api-key.entity';
 import { FeatureFlagKey } from 'src/engine/core-modules/feature-flag/enums/feature-flag-key.enum';
 import { FeatureFlagService } from 'src/engine/core-modules/feature-flag/services/feature-flag.service';
+import {
+  McpPromptException,
+  McpPromptExceptionCode,
+} from 'src/engine/core-modules/mcp-prompt/mcp-prompt.exception';
+import { McpPromptService } from 'src/engine/core-modules/mcp-prompt/mcp-prompt.service';
 import { ToolCategory } from 'src/engine/core-modules/tool-provider/enums/tool-category.enum';
 import { ToolProviderService } from 'src/engine/core-modules/tool-provider/services/tool-provider.service';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
@@ -22,6 +37,9 @@ export class McpProtocolService {
     private readonly toolProvider: ToolProviderService,
     private readonly userRoleService: UserRoleService,
     private readonly mcpToolExecutorService: McpToolExecutorService,
+    private readonly mcpResourceService: McpResourceService,
+    private readonly mcpResourceSubscriptionService: McpResourceSubscriptionService,
+    private readonly mcpPromptService: McpPromptService,
     @InjectRepository(RoleEntity)
     private readonly roleRepository: Repository<RoleEntity>,
   ) {}
@@ -45,7 +63,7 @@ export class McpProtocolService {
       result: {
         capabilities: {
           tools: { listChanged: false },
-          resources: { listChanged: false },
+          resources: { subscribe: true, listChanged: false },
           prompts: { listChanged: false },
         },
         tools: [],
@@ -58,7 +76,7 @@ export class McpProtocolService {
   async getRoleId(
     workspaceId: string,
     userWorkspaceId?: string,
-    apiKey?: string,
+    apiKey?: ApiKeyEntity,
   ) {
     if (apiKey) {
       const roles = await this.roleRepository.find({
@@ -103,7 +121,7 @@ export class McpProtocolService {
     }: {
       workspace: WorkspaceEntity;
       userWorkspaceId?: string;
-      apiKey?: string;
+      apiKey?: ApiKeyEntity;
     },
   ): Promise<Record<string, unknown>> {
     try {
@@ -129,6 +147,25 @@ export class McpProtocolService {
         apiKey,
       );
 
+      if (method.startsWith('resources/')) {
+        return await this.handleResourcesQuery(
+          { id, method, params },
+          {
+            workspaceId: workspace.id,
+            roleId,
+            userWorkspaceId,
+            subscriberId: this.getSubscriberId(userWorkspaceId, apiKey),
+          },
+        );
+      }
+
+      if (method.startsWith('prompts/')) {
+        return await this.handlePromptsQuery(
+          { id, method, params },
+          workspace.id,
+        );
+      }
+
       const toolSet = await this.toolProvider.getTools({
         workspaceId: workspace.id,
         categories: [ToolCategory.DATABASE_CRUD, ToolCategory.ACTION],
@@ -148,28 +185,6 @@ export class McpProtocolService {
         return this.mcpToolExecutorService.handleToolsListing(id, toolSet);
       }
 
-      if (method === 'prompts/list') {
-        return wrapJsonRpcResponse(id, {
-          result: {
-            capabilities: {
-              prompts: { listChanged: false },
-            },
-            prompts: [],
-          },
-        });
-      }
-
-      if (method === 'resources/list') {
-        return wrapJsonRpcResponse(id, {
-          result: {
-            capabilities: {
-              resources: { listChanged: false },
-            },
-            resources: [],
-          },
-        });
-      }
-
       return wrapJsonRpcResponse(id, {
         result: {},
       });
@@ -182,4 +197,166 @@ export class McpProtocolService {
       });
     }
   }
+
+  getResourceNotificationStream({
+    workspace,
+    userWorkspaceId,
+    apiKey,
+  }: {
+    workspace: WorkspaceEntity;
+    userWorkspaceId?: string;
+    apiKey?: ApiKeyEntity;
+  }): Observable<MessageEvent> {
+    return this.mcpResourceSubscriptionService.getNotificationStream({
+      workspaceId: workspace.id,
+      subscriberId: this.getSubscriberId(userWorkspaceId, apiKey),
+    });
+  }
+
+  // Subscriptions belong to the member, or to the API key for clients that
+  // authenticate with one
+  private getSubscriberId(userWorkspaceId?: string, apiKey?: ApiKeyEntity) {
+    if (isDefined(apiKey)) {
+      return `api-key:${apiKey.id}`;
+    }
+
+    if (!isDefined(userWorkspaceId)) {
+      throw new HttpException(
+        'User workspace ID missing',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    return userWorkspaceId;
+  }
+
+  private async handleResourcesQuery(
+    { id, method, params }: Pick<JsonRpc, 'id' | 'method' | 'params'>,
+    {
+      workspaceId,
+      roleId,
+      userWorkspaceId,
+      subscriberId,
+    }: {
+      workspaceId: string;
+      roleId: string;
+      userWorkspaceId?: string;
+      subscriberId: string;
+    },
+  ): Promise<Record<string, unknown>> {
+    if (method === 'resources/list') {
+      return wrapJsonRpcResponse(id, {
+        result: {
+          resources: await this.mcpResourceService.listResources(
+            workspaceId,
+            roleId,
+          ),
+        },
+      });
+    }
+
+    if (method === 'resources/templates/list') {
+      return wrapJsonRpcResponse(id, {
+        result: {
+          resourceTemplates: this.mcpResourceService.listResourceTemplates(),
+        },
+      });
+    }
+
+    const uri = params?.uri;
+
+    if (!isDefined(uri)) {
+      throw new HttpException('Resource URI missing', HttpStatus.BAD_REQUEST);
+    }
+
+    switch (method) {
+      case 'resources/read':
+        return wrapJsonRpcResponse(id, {
+          result: {
+            contents: await this.mcpResourceService.readResource({
+              uri,
+              workspaceId,
+              roleId,
+              userWorkspaceId,
+            }),
+          },
+        });
+      case 'resources/subscribe':
+        // Throws when the role cannot read the resource
+        await this.mcpResourceService.readResource({
+          uri,
+          workspaceId,
+          roleId,
+          userWorkspaceId,
+        });
+
+        await this.mcpResourceSubscriptionService.subscribe({
+          workspaceId,
+          subscriberId,
+          uri,
+        });
+
+        return wrapJsonRpcResponse(id, { result: {} });
+      case 'resources/unsubscribe':
+        await this.mcpResourceSubscriptionService.unsubscribe({
+          workspaceId,
+          subscriberId,
+          uri,
+        });
+
+        return wrapJsonRpcResponse(id, { result: {} });
+      default:
+        return wrapJsonRpcResponse(id, { result: {} });
+    }
+  }
+
+  private async handlePromptsQuery(
+    { id, method, params }: Pick<JsonRpc, 'id' | 'method' | 'params'>,
+    workspaceId: string,
+  ): Promise<Record<string, unknown>> {
+    if (method === 'prompts/list') {
+      const prompts =
+        await this.mcpPromptService.findByWorkspaceId(workspaceId);
+
+      return wrapJsonRpcResponse(id, {
+        result: {
+          prompts: prompts.map((prompt) => ({
+            name: prompt.name,
+            description: prompt.description ?? undefined,
+            arguments: prompt.arguments,
+          })),
+        },
+      });
+    }
+
+    if (method === 'prompts/get' && isDefined(params)) {
+      try {
+        const { prompt, text } = await this.mcpPromptService.render({
+          name: params.name,
+          workspaceId,
+          promptArguments: (params.arguments ?? {}) as Record<string, string>,
+        });
+
+        return wrapJsonRpcResponse(id, {
+          result: {
+            description: prompt.description ?? undefined,
+            messages: [{ role: 'user', content: { type: 'text', text } }],
+          },
+        });
+      } catch (error) {
+        if (error instanceof McpPromptException) {
+          throw new HttpException(
+            error.message,
+            error.code === McpPromptExceptionCode.MCP_PROMPT_NOT_FOUND
+              ? HttpStatus.NOT_FOUND
+              : HttpStatus.BAD_REQUEST,
+          );
+        }
+
+        throw error;
+      }
+    }
+
+    return wrapJsonRpcResponse(id, { result: {} });
+  }
 }
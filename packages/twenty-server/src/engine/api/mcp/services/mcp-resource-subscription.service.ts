@@ -0,0 +1,138 @@
+import { Inject, Injectable, type MessageEvent } from '@nestjs/common';
+
+import { RedisPubSub } from 'graphql-redis-subscriptions';
+import { Observable } from 'rxjs';
+import { isDefined } from 'twenty-shared/utils';
+
+import { buildMcpRecordResourceUri } from 'src/engine/api/mcp/utils/parse-mcp-resource-uri.util';
+import { InjectCacheStorage } from 'src/engine/core-modules/cache-storage/decorators/cache-storage.decorator';
+import { CacheStorageService } from 'src/engine/core-modules/cache-storage/services/cache-storage.service';
+import { CacheStorageNamespace } from 'src/engine/core-modules/cache-storage/types/cache-storage-namespace.enum';
+import { ON_DB_EVENT_TRIGGER } from 'src/engine/subscriptions/constants/on-db-event-trigger';
+import { type DbEventPayload } from 'src/engine/subscriptions/types/db-event-payload.type';
+
+const MCP_RESOURCE_SUBSCRIPTIONS_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Subscriptions are stored in the cache so that the request subscribing to a
+// resource and the notification stream can be served by different instances
+@Injectable()
+export class McpResourceSubscriptionService {
+  constructor(
+    @InjectCacheStorage(CacheStorageNamespace.EngineWorkspace)
+    private readonly cacheStorage: CacheStorageService,
+    @Inject('PUB_SUB') private readonly pubSub: RedisPubSub,
+  ) {}
+
+  async subscribe({
+    workspaceId,
+    subscriberId,
+    uri,
+  }: {
+    workspaceId: string;
+    subscriberId: string;
+    uri: string;
+  }): Promise<void> {
+    const subscribedUris = await this.getSubscribedUris(
+      workspaceId,
+      subscriberId,
+    );
+
+    if (subscribedUris.includes(uri)) {
+      return;
+    }
+
+    await this.cacheStorage.set(
+      this.getCacheKey(workspaceId, subscriberId),
+      [...subscribedUris, uri],
+      MCP_RESOURCE_SUBSCRIPTIONS_TTL_MS,
+    );
+  }
+
+  async unsubscribe({
+    workspaceId,
+    subscriberId,
+    uri,
+  }: {
+    workspaceId: string;
+    subscriberId: string;
+    uri: string;
+  }): Promise<void> {
+    const subscribedUris = await this.getSubscribedUris(
+      workspaceId,
+      subscriberId,
+    );
+
+    await this.cacheStorage.set(
+      this.getCacheKey(workspaceId, subscriberId),
+      subscribedUris.filter((subscribedUri) => subscribedUri !== uri),
+      MCP_RESOURCE_SUBSCRIPTIONS_TTL_MS,
+    );
+  }
+
+  // Emits a notifications/resources/updated message each time a subscribed
+  // record changes
+  getNotificationStream({
+    workspaceId,
+    subscriberId,
+  }: {
+    workspaceId: string;
+    subscriberId: string;
+  }): Observable<MessageEvent> {
+    return new Observable<MessageEvent>((subscriber) => {
+      const subscriptionIdPromise = this.pubSub.subscribe<DbEventPayload>(
+        ON_DB_EVENT_TRIGGER,
+        async (payload) => {
+          if (payload.workspaceId !== workspaceId) {
+            return;
+          }
+
+          const recordId = payload.onDbEvent.record?.id;
+
+          if (!isDefined(recordId)) {
+            return;
+          }
+
+          const uri = buildMcpRecordResourceUri(
+            payload.onDbEvent.objectNameSingular,
+            recordId,
+          );
+          const subscribedUris = await this.getSubscribedUris(
+            workspaceId,
+            subscriberId,
+          );
+
+          if (subscribedUris.includes(uri)) {
+            subscriber.next({
+              data: {
+                jsonrpc: '2.0',
+                method: 'notifications/resources/updated',
+                params: { uri },
+              },
+            });
+          }
+        },
+      );
+
+      return () => {
+        subscriptionIdPromise.then((subscriptionId) =>
+          this.pubSub.unsubscribe(subscriptionId),
+        );
+      };
+    });
+  }
+
+  private async getSubscribedUris(
+    workspaceId: string,
+    subscriberId: string,
+  ): Promise<string[]> {
+    return (
+      (await this.cacheStorage.get<string[]>(
+        this.getCacheKey(workspaceId, subscriberId),
+      )) ?? []
+    );
+  }
+
+  private getCacheKey(workspaceId: string, subscriberId: string): string {
+    return `mcp-resource-subscriptions:${workspaceId}:${subscriberId}`;
+  }
+}
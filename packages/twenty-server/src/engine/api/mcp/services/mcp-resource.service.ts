@@ -0,0 +1,291 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+
+import { type ObjectsPermissions } from 'twenty-shared/types';
+import { isDefined } from 'twenty-shared/utils';
+
+import { MCP_RESOURCE_URI_SCHEME } from 'src/engine/api/mcp/constants/mcp-resource-uri-scheme.const';
+import { parseMcpResourceUri } from 'src/engine/api/mcp/utils/parse-mcp-resource-uri.util';
+import { getFlatFieldsFromFlatObjectMetadata } from 'src/engine/api/graphql/workspace-schema-builder/utils/get-flat-fields-for-flat-object-metadata.util';
+import { FindRecordsService } from 'src/engine/core-modules/record-crud/services/find-records.service';
+import { WorkspaceManyOrAllFlatEntityMapsCacheService } from 'src/engine/metadata-modules/flat-entity/services/workspace-many-or-all-flat-entity-maps-cache.service';
+import { type FlatObjectMetadata } from 'src/engine/metadata-modules/flat-object-metadata/types/flat-object-metadata.type';
+import { ViewVisibility } from 'src/engine/metadata-modules/view/enums/view-visibility.enum';
+import { WorkspaceCacheService } from 'src/engine/workspace-cache/services/workspace-cache.service';
+
+const JSON_MIME_TYPE = 'application/json';
+
+@Injectable()
+export class McpResourceService {
+  constructor(
+    private readonly workspaceManyOrAllFlatEntityMapsCacheService: WorkspaceManyOrAllFlatEntityMapsCacheService,
+    private readonly findRecordsService: FindRecordsService,
+    private readonly workspaceCacheService: WorkspaceCacheService,
+  ) {}
+
+  async listResources(workspaceId: string, roleId: string) {
+    const objects = await this.getReadableObjects(workspaceId, roleId);
+
+    return [
+      {
+        uri: `${MCP_RESOURCE_URI_SCHEME}metadata/objects`,
+        name: 'Objects',
+        description: 'Objects of the workspace with their fields',
+        mimeType: JSON_MIME_TYPE,
+      },
+      {
+        uri: `${MCP_RESOURCE_URI_SCHEME}metadata/views`,
+        name: 'Views',
+        description: 'Views of the workspace with their object',
+        mimeType: JSON_MIME_TYPE,
+      },
+      ...objects.map((object) => ({
+        uri: `${MCP_RESOURCE_URI_SCHEME}metadata/objects/${object.nameSingular}`,
+        name: object.labelSingular,
+        description: object.description ?? undefined,
+        mimeType: JSON_MIME_TYPE,
+      })),
+    ];
+  }
+
+  listResourceTemplates() {
+    return [
+      {
+        uriTemplate: `${MCP_RESOURCE_URI_SCHEME}{objectNameSingular}/{recordId}`,
+        name: 'Record',
+        description:
+          'A single record, e.g. twenty://person/{id}. Use the objects resource to find object names.',
+        mimeType: JSON_MIME_TYPE,
+      },
+    ];
+  }
+
+  async readResource({
+    uri,
+    workspaceId,
+    roleId,
+    userWorkspaceId,
+  }: {
+    uri: string;
+    workspaceId: string;
+    roleId: string;
+    userWorkspaceId?: string;
+  }) {
+    const parsedUri = parseMcpResourceUri(uri);
+
+    if (!isDefined(parsedUri)) {
+      throw new HttpException(
+        `Resource '${uri}' is not supported`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    let content: unknown;
+
+    switch (parsedUri.type) {
+      case 'objects':
+        content = await this.getObjectsContent(workspaceId, roleId);
+        break;
+      case 'object':
+        content = await this.getObjectContent(
+          workspaceId,
+          roleId,
+          parsedUri.objectNameSingular,
+        );
+        break;
+      case 'views':
+        content = await this.getViewsContent(
+          workspaceId,
+          roleId,
+          userWorkspaceId,
+        );
+        break;
+      case 'record':
+        content = await this.getRecordContent({
+          workspaceId,
+          roleId,
+          objectNameSingular: parsedUri.objectNameSingular,
+          recordId: parsedUri.recordId,
+        });
+        break;
+    }
+
+    return [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(content) }];
+  }
+
+  private async getObjectsPermissions(
+    workspaceId: string,
+    roleId: string,
+  ): Promise<ObjectsPermissions> {
+    const { rolesPermissions } =
+      await this.workspaceCacheService.getOrRecompute(workspaceId, [
+        'rolesPermissions',
+      ]);
+
+    return rolesPermissions[roleId] ?? {};
+  }
+
+  // Metadata is only listed for the objects whose records the role can read
+  private async getReadableObjects(
+    workspaceId: string,
+    roleId: string,
+  ): Promise<FlatObjectMetadata[]> {
+    const { flatObjectMetadataMaps } =
+      await this.workspaceManyOrAllFlatEntityMapsCacheService.getOrRecomputeManyOrAllFlatEntityMaps(
+        {
+          workspaceId,
+          flatMapsKeys: ['flatObjectMetadataMaps'],
+        },
+      );
+    const objectsPermissions = await this.getObjectsPermissions(
+      workspaceId,
+      roleId,
+    );
+
+    return Object.values(flatObjectMetadataMaps.byId)
+      .filter(isDefined)
+      .filter(
+        (object) =>
+          object.isActive &&
+          !object.isSystem &&
+          objectsPermissions[object.id]?.canReadObjectRecords === true,
+      );
+  }
+
+  private async getObjectsContent(workspaceId: string, roleId: string) {
+    const objects = await this.getReadableObjects(workspaceId, roleId);
+
+    return objects.map((object) => ({
+      nameSingular: object.nameSingular,
+      namePlural: object.namePlural,
+      labelSingular: object.labelSingular,
+      labelPlural: object.labelPlural,
+      description: object.description,
+      isCustom: object.isCustom,
+    }));
+  }
+
+  private async getObjectContent(
+    workspaceId: string,
+    roleId: string,
+    objectNameSingular: string,
+  ) {
+    const objects = await this.getReadableObjects(workspaceId, roleId);
+    const object = objects.find(
+      (readableObject) => readableObject.nameSingular === objectNameSingular,
+    );
+
+    if (!isDefined(object)) {
+      throw new HttpException(
+        `Object '${objectNameSingular}' not found`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    const { flatFieldMetadataMaps } =
+      await this.workspaceManyOrAllFlatEntityMapsCacheService.getOrRecomputeManyOrAllFlatEntityMaps(
+        {
+          workspaceId,
+          flatMapsKeys: ['flatFieldMetadataMaps'],
+        },
+      );
+
+    const { restrictedFields } = (
+      await this.getObjectsPermissions(workspaceId, roleId)
+    )[object.id];
+
+    const fields = getFlatFieldsFromFlatObjectMetadata(
+      object,
+      flatFieldMetadataMaps,
+    ).filter(
+      (field) =>
+        field.isActive &&
+        !field.isSystem &&
+        restrictedFields[field.id]?.canRead !== false,
+    );
+
+    return {
+      nameSingular: object.nameSingular,
+      namePlural: object.namePlural,
+      labelSingular: object.labelSingular,
+      labelPlural: object.labelPlural,
+      description: object.description,
+      fields: fields.map((field) => ({
+        name: field.name,
+        label: field.label,
+        type: field.type,
+        description: field.description,
+        isNullable: field.isNullable,
+        options: field.options ?? undefined,
+      })),
+    };
+  }
+
+  private async getViewsContent(
+    workspaceId: string,
+    roleId: string,
+    userWorkspaceId?: string,
+  ) {
+    const { flatViewMaps, flatObjectMetadataMaps } =
+      await this.workspaceManyOrAllFlatEntityMapsCacheService.getOrRecomputeManyOrAllFlatEntityMaps(
+        {
+          workspaceId,
+          flatMapsKeys: ['flatViewMaps', 'flatObjectMetadataMaps'],
+        },
+      );
+    const readableObjectIds = new Set(
+      (await this.getReadableObjects(workspaceId, roleId)).map(
+        (object) => object.id,
+      ),
+    );
+
+    // Unlisted views are only visible to the member who created them
+    return Object.values(flatViewMaps.byId)
+      .filter(isDefined)
+      .filter(
+        (view) =>
+          !isDefined(view.deletedAt) &&
+          readableObjectIds.has(view.objectMetadataId) &&
+          (view.visibility === ViewVisibility.WORKSPACE ||
+            (isDefined(userWorkspaceId) &&
+              view.createdByUserWorkspaceId === userWorkspaceId)),
+      )
+      .map((view) => ({
+        id: view.id,
+        name: view.name,
+        type: view.type,
+        objectNameSingular:
+          flatObjectMetadataMaps.byId[view.objectMetadataId]?.nameSingular,
+      }));
+  }
+
+  private async getRecordContent({
+    workspaceId,
+    roleId,
+    objectNameSingular,
+    recordId,
+  }: {
+    workspaceId: string;
+    roleId: string;
+    objectNameSingular: string;
+    recordId: string;
+  }) {
+    const findRecordsResult = await this.findRecordsService.execute({
+      objectName: objectNameSingular,
+      filter: { id: { eq: recordId } },
+      limit: 1,
+      workspaceId,
+      rolePermissionConfig: { unionOf: [roleId] },
+    });
+
+    const record = findRecordsResult.result?.records[0];
+
+    if (!findRecordsResult.success || !isDefined(record)) {
+      throw new HttpException(
+        `Record '${recordId}' not found in '${objectNameSingular}'`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return record;
+  }
+}
@@ -0,0 +1,5 @@
+export type McpResourceUri =
+  | { type: 'objects' }
+  | { type: 'object'; objectNameSingular: string }
+  | { type: 'views' }
+  | { type: 'record'; objectNameSingular: string; recordId: string };
@@ -0,0 +1,36 @@
+import {
+  buildMcpRecordResourceUri,
+  parseMcpResourceUri,
+} from 'src/engine/api/mcp/utils/parse-mcp-resource-uri.util';
+
+describe('parseMcpResourceUri', () => {
+  it('should parse metadata URIs', () => {
+    expect(parseMcpResourceUri('twenty://metadata/objects')).toEqual({
+      type: 'objects',
+    });
+    expect(parseMcpResourceUri('twenty://metadata/objects/person')).toEqual({
+      type: 'object',
+      objectNameSingular: 'person',
+    });
+    expect(parseMcpResourceUri('twenty://metadata/views')).toEqual({
+      type: 'views',
+    });
+  });
+
+  it('should parse record URIs', () => {
+    expect(
+      parseMcpResourceUri(buildMcpRecordResourceUri('person', 'record-id')),
+    ).toEqual({
+      type: 'record',
+      objectNameSingular: 'person',
+      recordId: 'record-id',
+    });
+  });
+
+  it('should return null for unsupported URIs', () => {
+    expect(parseMcpResourceUri('https://twenty.com/person/1')).toBeNull();
+    expect(parseMcpResourceUri('twenty://person')).toBeNull();
+    expect(parseMcpResourceUri('twenty://person//')).toBeNull();
+    expect(parseMcpResourceUri('twenty://metadata/fields')).toBeNull();
+  });
+});
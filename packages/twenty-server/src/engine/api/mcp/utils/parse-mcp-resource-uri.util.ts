@@ -0,0 +1,50 @@
+import { MCP_RESOURCE_URI_SCHEME } from 'src/engine/api/mcp/constants/mcp-resource-uri-scheme.const';
+import { type McpResourceUri } from 'src/engine/api/mcp/types/mcp-resource-uri.type';
+
+// Supported URIs:
+// - twenty://metadata/objects
+// - twenty://metadata/objects/{objectNameSingular}
+// - twenty://metadata/views
+// - twenty://{objectNameSingular}/{recordId}
+export const parseMcpResourceUri = (uri: string): McpResourceUri | null => {
+  if (!uri.startsWith(MCP_RESOURCE_URI_SCHEME)) {
+    return null;
+  }
+
+  const segments = uri.slice(MCP_RESOURCE_URI_SCHEME.length).split('/');
+
+  if (segments.some((segment) => segment.length === 0)) {
+    return null;
+  }
+
+  if (segments[0] === 'metadata') {
+    if (segments[1] === 'objects' && segments.length === 2) {
+      return { type: 'objects' };
+    }
+
+    if (segments[1] === 'objects' && segments.length === 3) {
+      return { type: 'object', objectNameSingular: segments[2] };
+    }
+
+    if (segments[1] === 'views' && segments.length === 2) {
+      return { type: 'views' };
+    }
+
+    return null;
+  }
+
+  if (segments.length === 2) {
+    return {
+      type: 'record',
+      objectNameSingular: segments[0],
+      recordId: segments[1],
+    };
+  }
+
+  return null;
+};
+
+export const buildMcpRecordResourceUri = (
+  objectNameSingular: string,
+  recordId: string,
+) => `${MCP_RESOURCE_URI_SCHEME}${objectNameSingular}/${recordId}`;
@@ -67,6 +67,21 @@ export class RestApiCoreController {
     res.status(201).send(result);
   }
 
+  // Declared before the GET catch-all so that 'changes' is not read as an
+  // object name
+  @Get('changes')
+  async handleApiGetChanges(
+    @Req() request: AuthenticatedRequest,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `[REST API] Processing CHANGES request to ${request.path} on workspace ${request.workspaceId}`,
+    );
+    const result = await this.restApiCoreService.getChanges(request);
+
+    res.status(200).send(result);
+  }
+
   //TODO: Refacto-common - Document this endpoint
   @Get('*path/groupBy')
   async handleApiGroupBy(
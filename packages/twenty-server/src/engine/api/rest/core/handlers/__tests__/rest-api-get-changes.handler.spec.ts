@@ -0,0 +1,235 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Test, type TestingModule } from '@nestjs/testing';
+
+import { FieldMetadataType } from 'twenty-shared/types';
+
+import { DatabaseEventAction } from 'src/engine/api/graphql/graphql-query-runner/enums/database-event-action';
+import { RestApiGetChangesHandler } from 'src/engine/api/rest/core/handlers/rest-api-get-changes.handler';
+import { RestToCommonSelectedFieldsHandler } from 'src/engine/api/rest/core/rest-to-common-args-handlers/selected-fields-handler';
+import { type AuthenticatedRequest } from 'src/engine/api/rest/types/authenticated-request';
+import { CreatedByFromAuthContextService } from 'src/engine/core-modules/actor/services/created-by-from-auth-context.service';
+import { ApiKeyRoleService } from 'src/engine/core-modules/api-key/services/api-key-role.service';
+import { AccessTokenService } from 'src/engine/core-modules/auth/token/services/access-token.service';
+import { WorkspaceDomainsService } from 'src/engine/core-modules/domain/workspace-domains/services/workspace-domains.service';
+import { FeatureFlagService } from 'src/engine/core-modules/feature-flag/services/feature-flag.service';
+import { type RecordChangeEntity } from 'src/engine/core-modules/record-change/record-change.entity';
+import { RecordChangeService } from 'src/engine/core-modules/record-change/services/record-change.service';
+import { getFlatFieldMetadataMock } from 'src/engine/metadata-modules/flat-field-metadata/__mocks__/get-flat-field-metadata.mock';
+import { getFlatObjectMetadataMock } from 'src/engine/metadata-modules/flat-object-metadata/__mocks__/get-flat-object-metadata.mock';
+import { WorkspaceManyOrAllFlatEntityMapsCacheService } from 'src/engine/metadata-modules/flat-entity/services/workspace-many-or-all-flat-entity-maps-cache.service';
+import { UserRoleService } from 'src/engine/metadata-modules/user-role/user-role.service';
+import { TwentyORMGlobalManager } from 'src/engine/twenty-orm/twenty-orm-global.manager';
+import { WorkspaceCacheStorageService } from 'src/engine/workspace-cache-storage/workspace-cache-storage.service';
+import { WorkspaceCacheService } from 'src/engine/workspace-cache/services/workspace-cache.service';
+
+const WORKSPACE_ID = '20202020-1c25-4d02-bf25-6aeccf7ea419';
+const ROLE_ID = '20202020-6f0a-4f2b-8a3c-4b1d2e3f4a5b';
+
+const companyNameField = getFlatFieldMetadataMock({
+  universalIdentifier: 'company-name',
+  objectMetadataId: 'company-id',
+  type: FieldMetadataType.TEXT,
+  id: 'company-name-field-id',
+  name: 'name',
+});
+
+const companySecretField = getFlatFieldMetadataMock({
+  universalIdentifier: 'company-secret',
+  objectMetadataId: 'company-id',
+  type: FieldMetadataType.TEXT,
+  id: 'company-secret-field-id',
+  name: 'secret',
+});
+
+const companyObject = getFlatObjectMetadataMock({
+  universalIdentifier: 'company',
+  id: 'company-id',
+  nameSingular: 'company',
+  namePlural: 'companies',
+  fieldMetadataIds: [companyNameField.id, companySecretField.id],
+});
+
+const invoiceObject = getFlatObjectMetadataMock({
+  universalIdentifier: 'invoice',
+  id: 'invoice-id',
+  nameSingular: 'invoice',
+  namePlural: 'invoices',
+});
+
+const buildFlatEntityMaps = <T extends { id: string }>(entities: T[]) => ({
+  byId: Object.fromEntries(entities.map((entity) => [entity.id, entity])),
+  idByUniversalIdentifier: {},
+  universalIdentifiersByApplicationId: {},
+});
+
+const buildRequest = (query: Record<string, string> = {}) =>
+  ({
+    workspace: { id: WORKSPACE_ID },
+    apiKey: { id: 'api-key-id' },
+    query,
+  }) as unknown as AuthenticatedRequest;
+
+const buildRecordChange = (
+  overrides: Partial<RecordChangeEntity>,
+): RecordChangeEntity =>
+  ({
+    id: '1',
+    transactionId: '100',
+    workspaceId: WORKSPACE_ID,
+    objectMetadataId: companyObject.id,
+    objectNameSingular: 'company',
+    recordId: '20202020-0b5d-4b0e-9b6e-5b0a0c4e0b2a',
+    action: DatabaseEventAction.UPDATED,
+    record: { id: 'record-id', name: 'Acme', secret: 'hidden' },
+    updatedFields: ['name', 'secret'],
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  }) as RecordChangeEntity;
+
+describe('RestApiGetChangesHandler', () => {
+  let handler: RestApiGetChangesHandler;
+  let recordChangeService: { findChanges: jest.Mock };
+
+  beforeEach(async () => {
+    recordChangeService = {
+      findChanges: jest
+        .fn()
+        .mockResolvedValue({ recordChanges: [], hasNextPage: false }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RestApiGetChangesHandler,
+        { provide: RecordChangeService, useValue: recordChangeService },
+        {
+          provide: WorkspaceManyOrAllFlatEntityMapsCacheService,
+          useValue: {
+            getOrRecomputeManyOrAllFlatEntityMaps: jest.fn().mockResolvedValue({
+              flatObjectMetadataMaps: buildFlatEntityMaps([
+                companyObject,
+                invoiceObject,
+              ]),
+              flatFieldMetadataMaps: buildFlatEntityMaps([
+                companyNameField,
+                companySecretField,
+              ]),
+            }),
+          },
+        },
+        {
+          provide: FeatureFlagService,
+          useValue: {
+            getWorkspaceFeatureFlagsMap: jest.fn().mockResolvedValue({}),
+          },
+        },
+        {
+          provide: ApiKeyRoleService,
+          useValue: {
+            getRoleIdForApiKey: jest.fn().mockResolvedValue(ROLE_ID),
+          },
+        },
+        {
+          provide: WorkspaceCacheService,
+          useValue: {
+            getOrRecompute: jest.fn().mockResolvedValue({
+              rolesPermissions: {
+                [ROLE_ID]: {
+                  [companyObject.id]: {
+                    canReadObjectRecords: true,
+                    restrictedFields: {
+                      [companySecretField.id]: {
+                        canRead: false,
+                        canUpdate: false,
+                      },
+                    },
+                  },
+                  [invoiceObject.id]: {
+                    canReadObjectRecords: false,
+                    restrictedFields: {},
+                  },
+                },
+              },
+            }),
+          },
+        },
+        { provide: TwentyORMGlobalManager, useValue: {} },
+        { provide: CreatedByFromAuthContextService, useValue: {} },
+        { provide: WorkspaceCacheStorageService, useValue: {} },
+        { provide: RestToCommonSelectedFieldsHandler, useValue: {} },
+        { provide: UserRoleService, useValue: {} },
+        { provide: AccessTokenService, useValue: {} },
+        { provide: WorkspaceDomainsService, useValue: {} },
+      ],
+    }).compile();
+
+    handler = module.get<RestApiGetChangesHandler>(RestApiGetChangesHandler);
+  });
+
+  it('should only look for changes of the objects the role can read', async () => {
+    await handler.handle(buildRequest());
+
+    expect(recordChangeService.findChanges).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workspaceId: WORKSPACE_ID,
+        objectMetadataIds: [companyObject.id],
+      }),
+    );
+  });
+
+  it('should reject an explicitly requested object the role cannot read', async () => {
+    await expect(
+      handler.handle(buildRequest({ objects: 'companies,invoices' })),
+    ).rejects.toThrow(ForbiddenException);
+    expect(recordChangeService.findChanges).not.toHaveBeenCalled();
+  });
+
+  it('should remove the fields the role cannot read from the changes', async () => {
+    recordChangeService.findChanges.mockResolvedValue({
+      recordChanges: [buildRecordChange({})],
+      hasNextPage: false,
+    });
+
+    const result = await handler.handle(buildRequest());
+
+    expect(result.data.changes).toEqual([
+      expect.objectContaining({
+        action: DatabaseEventAction.UPDATED,
+        record: { id: 'record-id', name: 'Acme' },
+        updatedFields: ['name'],
+      }),
+    ]);
+  });
+
+  it('should serve tombstones of destroyed records without record', async () => {
+    const tombstone = buildRecordChange({
+      id: '2',
+      action: DatabaseEventAction.DESTROYED,
+      record: null,
+      updatedFields: null,
+    });
+
+    recordChangeService.findChanges.mockResolvedValue({
+      recordChanges: [tombstone],
+      hasNextPage: false,
+    });
+
+    const result = await handler.handle(buildRequest());
+
+    expect(result.data.changes).toEqual([
+      {
+        cursor: expect.any(String),
+        objectNameSingular: 'company',
+        recordId: tombstone.recordId,
+        action: DatabaseEventAction.DESTROYED,
+        record: null,
+        updatedFields: null,
+        changedAt: '2025-01-01T00:00:00.000Z',
+      },
+    ]);
+    expect(result.pageInfo).toEqual({
+      hasNextPage: false,
+      startCursor: result.data.changes[0].cursor,
+      endCursor: result.data.changes[0].cursor,
+    });
+  });
+});
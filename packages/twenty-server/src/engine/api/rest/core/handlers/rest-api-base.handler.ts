@@ -90,7 +90,9 @@ export abstract class RestApiBaseHandler {
     return request;
   }
 
-  private getObjectsPermissions = async (authContext: WorkspaceAuthContext) => {
+  protected getObjectsPermissions = async (
+    authContext: WorkspaceAuthContext,
+  ) => {
     let roleId: string;
 
     if (isDefined(authContext.apiKey)) {
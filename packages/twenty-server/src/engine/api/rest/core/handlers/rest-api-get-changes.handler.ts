@@ -0,0 +1,211 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+
+import { isDefined } from 'twenty-shared/utils';
+
+import { WorkspaceAuthContext } from 'src/engine/api/common/interfaces/workspace-auth-context.interface';
+
+import { RestApiBaseHandler } from 'src/engine/api/rest/core/handlers/rest-api-base.handler';
+import { parseObjectsRestRequest } from 'src/engine/api/rest/input-request-parsers/changes-parser-utils/parse-objects-rest-request.util';
+import { parseSinceRestRequest } from 'src/engine/api/rest/input-request-parsers/changes-parser-utils/parse-since-rest-request.util';
+import { parseLimitRestRequest } from 'src/engine/api/rest/input-request-parsers/limit-parser-utils/parse-limit-rest-request.util';
+import { AuthenticatedRequest } from 'src/engine/api/rest/types/authenticated-request';
+import { workspaceQueryRunnerRestApiExceptionHandler } from 'src/engine/api/rest/utils/workspace-query-runner-rest-api-exception-handler.util';
+import { type RecordChangeEntity } from 'src/engine/core-modules/record-change/record-change.entity';
+import { RecordChangeService } from 'src/engine/core-modules/record-change/services/record-change.service';
+import {
+  decodeRecordChangeCursor,
+  encodeRecordChangeCursor,
+} from 'src/engine/core-modules/record-change/utils/record-change-cursor.util';
+import { type FlatEntityMaps } from 'src/engine/metadata-modules/flat-entity/types/flat-entity-maps.type';
+import { type FlatFieldMetadata } from 'src/engine/metadata-modules/flat-field-metadata/types/flat-field-metadata.type';
+import { type FlatObjectMetadata } from 'src/engine/metadata-modules/flat-object-metadata/types/flat-object-metadata.type';
+import { buildObjectIdByNameMaps } from 'src/engine/metadata-modules/flat-object-metadata/utils/build-object-id-by-name-maps.util';
+import { getUnreadableRecordFieldNames } from 'src/engine/twenty-orm/utils/get-unreadable-record-field-names.util';
+import { standardObjectMetadataDefinitions } from 'src/engine/workspace-manager/workspace-sync-metadata/standard-objects';
+import { shouldExcludeFromWorkspaceApi } from 'src/engine/workspace-manager/workspace-sync-metadata/utils/should-exclude-from-workspace-api.util';
+
+@Injectable()
+export class RestApiGetChangesHandler extends RestApiBaseHandler {
+  constructor(private readonly recordChangeService: RecordChangeService) {
+    super();
+  }
+
+  async handle(request: AuthenticatedRequest) {
+    try {
+      const { authContext, since, objectNamesPlural, limit } =
+        this.parseRequestArgs(request);
+
+      const { flatObjectMetadataMaps, flatFieldMetadataMaps } =
+        await this.workspaceManyOrAllFlatEntityMapsCacheService.getOrRecomputeManyOrAllFlatEntityMaps(
+          {
+            workspaceId: authContext.workspace.id,
+            flatMapsKeys: ['flatObjectMetadataMaps', 'flatFieldMetadataMaps'],
+          },
+        );
+
+      const unreadableFieldNamesByObjectId =
+        await this.getReadableObjectsUnreadableFieldNames({
+          authContext,
+          objectNamesPlural,
+          flatObjectMetadataMaps,
+          flatFieldMetadataMaps,
+        });
+
+      const { recordChanges, hasNextPage } =
+        await this.recordChangeService.findChanges({
+          workspaceId: authContext.workspace.id,
+          since: isDefined(since) ? decodeRecordChangeCursor(since) : undefined,
+          objectMetadataIds: Object.keys(unreadableFieldNamesByObjectId),
+          limit,
+        });
+
+      const changes = recordChanges.map((recordChange) =>
+        this.formatRecordChange(
+          recordChange,
+          unreadableFieldNamesByObjectId[recordChange.objectMetadataId] ?? [],
+        ),
+      );
+
+      return {
+        data: { changes },
+        pageInfo: {
+          hasNextPage,
+          startCursor: changes[0]?.cursor ?? null,
+          // An empty page keeps the position of the client
+          endCursor: changes[changes.length - 1]?.cursor ?? since ?? null,
+        },
+      };
+    } catch (error) {
+      return workspaceQueryRunnerRestApiExceptionHandler(error);
+    }
+  }
+
+  private parseRequestArgs(request: AuthenticatedRequest) {
+    return {
+      authContext: this.getAuthContextFromRequest(request),
+      since: parseSinceRestRequest(request),
+      objectNamesPlural: parseObjectsRestRequest(request),
+      limit: parseLimitRestRequest(request),
+    };
+  }
+
+  // Returns, for each object whose changes can be served, the record keys
+  // that must be removed from its changes
+  private async getReadableObjectsUnreadableFieldNames({
+    authContext,
+    objectNamesPlural,
+    flatObjectMetadataMaps,
+    flatFieldMetadataMaps,
+  }: {
+    authContext: WorkspaceAuthContext;
+    objectNamesPlural: string[] | undefined;
+    flatObjectMetadataMaps: FlatEntityMaps<FlatObjectMetadata>;
+    flatFieldMetadataMaps: FlatEntityMaps<FlatFieldMetadata>;
+  }): Promise<Record<string, string[]>> {
+    const workspaceFeatureFlagsMap =
+      await this.featureFlagService.getWorkspaceFeatureFlagsMap(
+        authContext.workspace.id,
+      );
+
+    const isAvailable = (flatObjectMetadata: FlatObjectMetadata) =>
+      flatObjectMetadata.isActive &&
+      !shouldExcludeFromWorkspaceApi(
+        flatObjectMetadata,
+        standardObjectMetadataDefinitions,
+        workspaceFeatureFlagsMap,
+      );
+
+    const { objectsPermissions } =
+      await this.getObjectsPermissions(authContext);
+
+    const canRead = (flatObjectMetadata: FlatObjectMetadata) =>
+      flatObjectMetadata.isSystem ||
+      objectsPermissions?.[flatObjectMetadata.id]?.canReadObjectRecords ===
+        true;
+
+    let flatObjectMetadatas: FlatObjectMetadata[];
+
+    if (isDefined(objectNamesPlural)) {
+      const { idByNamePlural } = buildObjectIdByNameMaps(
+        flatObjectMetadataMaps,
+      );
+
+      flatObjectMetadatas = objectNamesPlural.map((objectNamePlural) => {
+        const objectId = idByNamePlural[objectNamePlural];
+        const flatObjectMetadata = isDefined(objectId)
+          ? flatObjectMetadataMaps.byId[objectId]
+          : undefined;
+
+        if (
+          !isDefined(flatObjectMetadata) ||
+          !isAvailable(flatObjectMetadata)
+        ) {
+          throw new BadRequestException(
+            `object '${objectNamePlural}' not found. eg: companies`,
+          );
+        }
+
+        if (!canRead(flatObjectMetadata)) {
+          throw new ForbiddenException(
+            `object '${objectNamePlural}' cannot be read with this role`,
+          );
+        }
+
+        return flatObjectMetadata;
+      });
+    } else {
+      // Without an explicit list, the feed covers the non system objects the
+      // role can read
+      flatObjectMetadatas = Object.values(flatObjectMetadataMaps.byId)
+        .filter(isDefined)
+        .filter(
+          (flatObjectMetadata) =>
+            !flatObjectMetadata.isSystem &&
+            isAvailable(flatObjectMetadata) &&
+            canRead(flatObjectMetadata),
+        );
+    }
+
+    return Object.fromEntries(
+      flatObjectMetadatas.map((flatObjectMetadata) => [
+        flatObjectMetadata.id,
+        flatObjectMetadata.isSystem
+          ? []
+          : getUnreadableRecordFieldNames(
+              flatObjectMetadata,
+              flatFieldMetadataMaps,
+              objectsPermissions?.[flatObjectMetadata.id]?.restrictedFields ??
+                {},
+            ),
+      ]),
+    );
+  }
+
+  private formatRecordChange(
+    recordChange: RecordChangeEntity,
+    unreadableFieldNames: string[],
+  ) {
+    return {
+      cursor: encodeRecordChangeCursor(recordChange),
+      objectNameSingular: recordChange.objectNameSingular,
+      recordId: recordChange.recordId,
+      action: recordChange.action,
+      record: isDefined(recordChange.record)
+        ? Object.fromEntries(
+            Object.entries(recordChange.record).filter(
+              ([fieldName]) => !unreadableFieldNames.includes(fieldName),
+            ),
+          )
+        : null,
+      updatedFields:
+        recordChange.updatedFields?.filter(
+          (fieldName) => !unreadableFieldNames.includes(fieldName),
+        ) ?? null,
+      changedAt: recordChange.createdAt.toISOString(),
+    };
+  }
+}
@@ -12,6 +12,7 @@ import { RestApiDestroyOneHandler } from 'src/engine/api/rest/core/handlers/rest
 import { RestApiFindDuplicatesHandler } from 'src/engine/api/rest/core/handlers/rest-api-find-duplicates.handler';
 import { RestApiFindManyHandler } from 'src/engine/api/rest/core/handlers/rest-api-find-many.handler';
 import { RestApiFindOneHandler } from 'src/engine/api/rest/core/handlers/rest-api-find-one.handler';
+import { RestApiGetChangesHandler } from 'src/engine/api/rest/core/handlers/rest-api-get-changes.handler';
 import { RestApiGroupByHandler } from 'src/engine/api/rest/core/handlers/rest-api-group-by.handler';
 import { RestApiMergeManyHandler } from 'src/engine/api/rest/core/handlers/rest-api-merge-many.handler';
 import { RestApiRestoreManyHandler } from 'src/engine/api/rest/core/handlers/rest-api-restore-many.handler';
@@ -26,6 +27,7 @@ import { ApiKeyModule } from 'src/engine/core-modules/api-key/api-key.module';
 import { AuthModule } from 'src/engine/core-modules/auth/auth.module';
 import { WorkspaceDomainsModule } from 'src/engine/core-modules/domain/workspace-domains/workspace-domains.module';
 import { FeatureFlagModule } from 'src/engine/core-modules/feature-flag/feature-flag.module';
+import { RecordChangeModule } from 'src/engine/core-modules/record-change/record-change.module';
 import { RecordTransformerModule } from 'src/engine/core-modules/record-transformer/record-transformer.module';
 import { WorkspaceManyOrAllFlatEntityMapsCacheModule } from 'src/engine/metadata-modules/flat-entity/services/workspace-many-or-all-flat-entity-maps-cache.module';
 import { UserRoleModule } from 'src/engine/metadata-modules/user-role/user-role.module';
@@ -50,6 +52,7 @@ const restApiCoreResolvers = [
   RestApiRestoreOneHandler,
   RestApiRestoreManyHandler,
   RestApiMergeManyHandler,
+  RestApiGetChangesHandler,
 ];
 
 @Module({
@@ -61,6 +64,7 @@ const restApiCoreResolvers = [
     HttpModule,
     TwentyORMModule,
     RecordTransformerModule,
+    RecordChangeModule,
     WorkspaceManyOrAllFlatEntityMapsCacheModule,
     ActorModule,
     FeatureFlagModule,
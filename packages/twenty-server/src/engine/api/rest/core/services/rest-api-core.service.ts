@@ -11,6 +11,7 @@ import { RestApiDestroyOneHandler } from 'src/engine/api/rest/core/handlers/rest
 import { RestApiFindDuplicatesHandler } from 'src/engine/api/rest/core/handlers/rest-api-find-duplicates.handler';
 import { RestApiFindManyHandler } from 'src/engine/api/rest/core/handlers/rest-api-find-many.handler';
 import { RestApiFindOneHandler } from 'src/engine/api/rest/core/handlers/rest-api-find-one.handler';
+import { RestApiGetChangesHandler } from 'src/engine/api/rest/core/handlers/rest-api-get-changes.handler';
 import { RestApiGroupByHandler } from 'src/engine/api/rest/core/handlers/rest-api-group-by.handler';
 import { RestApiMergeManyHandler } from 'src/engine/api/rest/core/handlers/rest-api-merge-many.handler';
 import { RestApiRestoreManyHandler } from 'src/engine/api/rest/core/handlers/rest-api-restore-many.handler';
@@ -39,6 +40,7 @@ export class RestApiCoreService {
     private readonly restApiRestoreOneHandler: RestApiRestoreOneHandler,
     private readonly restApiRestoreManyHandler: RestApiRestoreManyHandler,
     private readonly restApiMergeManyHandler: RestApiMergeManyHandler,
+    private readonly restApiGetChangesHandler: RestApiGetChangesHandler,
   ) {}
 
   async createOne(request: AuthenticatedRequest) {
@@ -73,6 +75,10 @@ export class RestApiCoreService {
     }
   }
 
+  async getChanges(request: AuthenticatedRequest) {
+    return await this.restApiGetChangesHandler.handle(request);
+  }
+
   async groupBy(request: AuthenticatedRequest) {
     return await this.restApiGroupByHandler.handle(request);
   }
@@ -0,0 +1,23 @@
+import { parseObjectsRestRequest } from 'src/engine/api/rest/input-request-parsers/changes-parser-utils/parse-objects-rest-request.util';
+
+describe('parseObjectsRestRequest', () => {
+  it('should return undefined if objects missing', () => {
+    const request: any = { query: {} };
+
+    expect(parseObjectsRestRequest(request)).toBeUndefined();
+  });
+
+  it('should return undefined if objects is empty', () => {
+    const request: any = { query: { objects: ' , ' } };
+
+    expect(parseObjectsRestRequest(request)).toBeUndefined();
+  });
+
+  it('should return trimmed and deduplicated object names', () => {
+    const request: any = {
+      query: { objects: 'companies, people,,companies' },
+    };
+
+    expect(parseObjectsRestRequest(request)).toEqual(['companies', 'people']);
+  });
+});
@@ -0,0 +1,21 @@
+import { type AuthenticatedRequest } from 'src/engine/api/rest/types/authenticated-request';
+
+// Parses a comma separated list of object plural names, e.g. objects=companies,people
+export const parseObjectsRestRequest = (
+  request: AuthenticatedRequest,
+): string[] | undefined => {
+  const objects = request.query?.objects;
+
+  if (typeof objects !== 'string') {
+    return undefined;
+  }
+
+  const objectNamesPlural = objects
+    .split(',')
+    .map((objectNamePlural) => objectNamePlural.trim())
+    .filter((objectNamePlural) => objectNamePlural.length > 0);
+
+  return objectNamesPlural.length > 0
+    ? [...new Set(objectNamesPlural)]
+    : undefined;
+};
@@ -0,0 +1,13 @@
+import { type AuthenticatedRequest } from 'src/engine/api/rest/types/authenticated-request';
+
+export const parseSinceRestRequest = (
+  request: AuthenticatedRequest,
+): string | undefined => {
+  const since = request.query?.since;
+
+  if (typeof since !== 'string' || since === '') {
+    return undefined;
+  }
+
+  return since;
+};
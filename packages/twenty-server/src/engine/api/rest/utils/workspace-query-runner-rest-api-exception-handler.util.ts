@@ -5,6 +5,8 @@ import { type QueryFailedError } from 'typeorm';
 import { CommonQueryRunnerException } from 'src/engine/api/common/common-query-runners/errors/common-query-runner.exception';
 import { commonQueryRunnerToRestApiExceptionHandler } from 'src/engine/api/common/common-query-runners/utils/common-query-runner-to-rest-api-exception-handler.util';
 import { RestInputRequestParserException } from 'src/engine/api/rest/input-request-parsers/rest-input-request-parser.exception';
+import { RecordChangeException } from 'src/engine/core-modules/record-change/record-change.exception';
+import { recordChangeToRestApiExceptionHandler } from 'src/engine/core-modules/record-change/utils/record-change-to-rest-api-exception-handler.util';
 import { ThrottlerException } from 'src/engine/core-modules/throttler/throttler.exception';
 import { throttlerToRestApiExceptionHandler } from 'src/engine/core-modules/throttler/utils/throttler-to-rest-api-exception-handler.util';
 
@@ -22,6 +24,8 @@ export const workspaceQueryRunnerRestApiExceptionHandler = (
       throw new BadRequestException(error.message);
     case error instanceof ThrottlerException:
       return throttlerToRestApiExceptionHandler(error);
+    case error instanceof RecordChangeException:
+      return recordChangeToRestApiExceptionHandler(error);
     default:
       throw error;
   }
@@ -4,13 +4,31 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { SaasAdminController } from 'src/engine/core-modules/admin/controllers/saas-admin.controller';
 import { TenantAdminController } from 'src/engine/core-modules/admin/controllers/tenant-admin.controller';
 import { TenantWebhookController } from 'src/engine/core-modules/admin/controllers/tenant-webhook.controller';
+import { CleanTenantDeletionSnapshotsCronCommand } from 'src/engine/core-modules/admin/crons/commands/clean-tenant-deletion-snapshots.cron.command';
+import { PurgePendingDeletionTenantsCronCommand } from 'src/engine/core-modules/admin/crons/commands/purge-pending-deletion-tenants.cron.command';
+import { CleanTenantDeletionSnapshotsCronJob } from 'src/engine/core-modules/admin/crons/jobs/clean-tenant-deletion-snapshots.cron.job';
+import { PurgePendingDeletionTenantsCronJob } from 'src/engine/core-modules/admin/crons/jobs/purge-pending-deletion-tenants.cron.job';
 import { AdminGuard } from 'src/engine/core-modules/admin/guards/admin.guard';
 import { SaasAdminKeyGuard } from 'src/engine/core-modules/admin/guards/saas-admin-key.guard';
+import { ExportTenantDeletionSnapshotJob } from 'src/engine/core-modules/admin/jobs/export-tenant-deletion-snapshot.job';
+import { CrossTenantSearchService } from 'src/engine/core-modules/admin/services/cross-tenant-search.service';
 import { TenantAdminService } from 'src/engine/core-modules/admin/services/tenant-admin.service';
+import { TenantDeletionSnapshotService } from 'src/engine/core-modules/admin/services/tenant-deletion-snapshot.service';
 import { WebhookSignatureService } from 'src/engine/core-modules/admin/services/webhook-signature.service';
+import { TenantDeletionSnapshotEntity } from 'src/engine/core-modules/admin/tenant-deletion-snapshot.entity';
+import { TokenModule } from 'src/engine/core-modules/auth/token/token.module';
+import { TenantLifecycleEventModule } from 'src/engine/core-modules/tenant-lifecycle-event/tenant-lifecycle-event.module';
+import { SaasAdminKeyModule } from 'src/engine/core-modules/saas-admin-key/saas-admin-key.module';
+import { TenantArchiveModule } from 'src/engine/core-modules/tenant-archive/tenant-archive.module';
+import { TenantPlanModule } from 'src/engine/core-modules/tenant-plan/tenant-plan.module';
+import { TenantWebhookDeliveryModule } from 'src/engine/core-modules/tenant-webhook-delivery/tenant-webhook-delivery.module';
+import { UsageMeteringModule } from 'src/engine/core-modules/usage-metering/usage-metering.module';
 import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
 import { UserEntity } from 'src/engine/core-modules/user/user.entity';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { WorkspaceManyOrAllFlatEntityMapsCacheModule } from 'src/engine/metadata-modules/flat-entity/services/workspace-many-or-all-flat-entity-maps-cache.module';
+import { WorkspaceCacheStorageModule } from 'src/engine/workspace-cache-storage/workspace-cache-storage.module';
+import { WorkflowBundleModule } from 'src/modules/workflow/workflow-builder/workflow-bundle/workflow-bundle.module';
 
 @Module({
   imports: [
@@ -18,7 +36,18 @@ import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.ent
       WorkspaceEntity,
       UserWorkspaceEntity,
       UserEntity,
+      TenantDeletionSnapshotEntity,
     ]),
+    TokenModule,
+    WorkspaceCacheStorageModule,
+    UsageMeteringModule,
+    TenantArchiveModule,
+    TenantLifecycleEventModule,
+    TenantPlanModule,
+    SaasAdminKeyModule,
+    TenantWebhookDeliveryModule,
+    WorkspaceManyOrAllFlatEntityMapsCacheModule,
+    WorkflowBundleModule,
   ],
   controllers: [
     TenantAdminController,
@@ -27,10 +56,22 @@ import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.ent
   ],
   providers: [
     TenantAdminService,
+    TenantDeletionSnapshotService,
+    CrossTenantSearchService,
     WebhookSignatureService,
     AdminGuard,
     SaasAdminKeyGuard,
+    PurgePendingDeletionTenantsCronJob,
+    PurgePendingDeletionTenantsCronCommand,
+    CleanTenantDeletionSnapshotsCronJob,
+    CleanTenantDeletionSnapshotsCronCommand,
+    ExportTenantDeletionSnapshotJob,
+  ],
+  exports: [
+    TenantAdminService,
+    WebhookSignatureService,
+    PurgePendingDeletionTenantsCronCommand,
+    CleanTenantDeletionSnapshotsCronCommand,
   ],
-  exports: [TenantAdminService, WebhookSignatureService],
 })
 export class AdminModule {}
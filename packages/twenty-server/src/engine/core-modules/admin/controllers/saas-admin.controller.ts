@@ -1,4 +1,5 @@
 import {
+    BadRequestException,
     Body,
     Controller,
     Delete,
@@ -7,16 +8,64 @@ import {
     Patch,
     Post,
     Query,
+    Req,
+    Res,
+    StreamableFile,
+    UseFilters,
     UseGuards,
+    ValidationPipe,
 } from '@nestjs/common';
 
+import { isNonEmptyString } from '@sniptt/guards';
+import { type Request, type Response } from 'express';
+import chunk from 'lodash.chunk';
+import { isDefined } from 'twenty-shared/utils';
+
+import { DeleteTenantDTO } from 'src/engine/core-modules/admin/dtos/delete-tenant.dto';
+import { TenantAdminRestApiExceptionFilter } from 'src/engine/core-modules/admin/filters/tenant-admin-rest-api-exception.filter';
 import { SaasAdminKeyGuard } from 'src/engine/core-modules/admin/guards/saas-admin-key.guard';
 import {
-    CrossTenantRecord,
+    CrossTenantSearchResult,
+    CrossTenantSearchService,
+} from 'src/engine/core-modules/admin/services/cross-tenant-search.service';
+import {
     TenantAdminService,
     TenantDetails,
     TenantSummary,
 } from 'src/engine/core-modules/admin/services/tenant-admin.service';
+import { parseCrossTenantSearchFilter } from 'src/engine/core-modules/admin/utils/parse-cross-tenant-search-filter.util';
+import { RequireSaasAdminKeyScope } from 'src/engine/core-modules/saas-admin-key/decorators/require-saas-admin-key-scope.decorator';
+import { SaasAdminKeyScope } from 'src/engine/core-modules/saas-admin-key/enums/saas-admin-key-scope.enum';
+import { SaasAdminKeyRestApiExceptionFilter } from 'src/engine/core-modules/saas-admin-key/filters/saas-admin-key-rest-api-exception.filter';
+import { type SaasAdminAuditLogEntity } from 'src/engine/core-modules/saas-admin-key/saas-admin-audit-log.entity';
+import { type SaasAdminKeyEntity } from 'src/engine/core-modules/saas-admin-key/saas-admin-key.entity';
+import { SaasAdminKeyService } from 'src/engine/core-modules/saas-admin-key/services/saas-admin-key.service';
+import { type SaasAdminKeyRequest } from 'src/engine/core-modules/saas-admin-key/types/saas-admin-key-request.type';
+import { TenantArchiveRestApiExceptionFilter } from 'src/engine/core-modules/tenant-archive/filters/tenant-archive-rest-api-exception.filter';
+import { TenantArchiveExportService } from 'src/engine/core-modules/tenant-archive/services/tenant-archive-export.service';
+import { TenantArchiveImportService } from 'src/engine/core-modules/tenant-archive/services/tenant-archive-import.service';
+import { TenantLifecycleEventDeliveryStatus } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-delivery-status.enum';
+import { TenantLifecycleEventType } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-type.enum';
+import { TenantLifecycleEventService } from 'src/engine/core-modules/tenant-lifecycle-event/services/tenant-lifecycle-event.service';
+import { type TenantLifecycleEventDeliveryEntity } from 'src/engine/core-modules/tenant-lifecycle-event/tenant-lifecycle-event-delivery.entity';
+import { TenantPlanRestApiExceptionFilter } from 'src/engine/core-modules/tenant-plan/filters/tenant-plan-rest-api-exception.filter';
+import { TenantPlanService } from 'src/engine/core-modules/tenant-plan/services/tenant-plan.service';
+import { type TenantPlan } from 'src/engine/core-modules/tenant-plan/types/tenant-plan.type';
+import { TenantWebhookDeliveryOutcome } from 'src/engine/core-modules/tenant-webhook-delivery/enums/tenant-webhook-delivery-outcome.enum';
+import { TenantWebhookDeliveryService } from 'src/engine/core-modules/tenant-webhook-delivery/services/tenant-webhook-delivery.service';
+import { type TenantWebhookDeliveryEntity } from 'src/engine/core-modules/tenant-webhook-delivery/tenant-webhook-delivery.entity';
+import { USAGE_METERING_MAX_SNAPSHOT_LIMIT } from 'src/engine/core-modules/usage-metering/constants/usage-metering-max-snapshot-limit.constant';
+import { UsageMeteringService } from 'src/engine/core-modules/usage-metering/services/usage-metering.service';
+import { type WorkspaceUsageReport } from 'src/engine/core-modules/usage-metering/types/workspace-usage-report.type';
+import { formatWorkspaceUsageReportsAsCsv } from 'src/engine/core-modules/usage-metering/utils/format-workspace-usage-reports-as-csv.util';
+import { formatWorkspaceUsageSnapshot } from 'src/engine/core-modules/usage-metering/utils/format-workspace-usage-snapshot.util';
+import { WorkflowBundleRestApiExceptionFilter } from 'src/engine/core-modules/workflow/filters/workflow-bundle-rest-api-exception.filter';
+import { type WorkflowBundleImportReport } from 'src/modules/workflow/workflow-builder/workflow-bundle/types/workflow-bundle-import-report.type';
+import { type WorkflowBundle } from 'src/modules/workflow/workflow-builder/workflow-bundle/types/workflow-bundle.type';
+import { WorkflowBundleWorkspaceService } from 'src/modules/workflow/workflow-builder/workflow-bundle/workflow-bundle.workspace-service';
+
+// Tenants a workflow bundle is imported into at the same time
+const WORKFLOW_IMPORT_CONCURRENCY = 5;
 
 /**
  * SaaS Admin Controller - Full platform access via API key.
@@ -24,7 +73,8 @@ import {
  * This controller provides complete programmatic access to all tenant
  * management operations for the SaaS platform operator.
  *
- * Authentication: x-saas-admin-key header
+ * Authentication: x-saas-admin-key header, holding either the master
+ * SAAS_ADMIN_KEY or a named key limited to the scope each endpoint requires
  *
  * Use cases:
  * - Platform automation scripts
@@ -39,8 +89,26 @@ import {
  */
 @Controller('saas')
 @UseGuards(SaasAdminKeyGuard)
+@UseFilters(
+  TenantAdminRestApiExceptionFilter,
+  TenantArchiveRestApiExceptionFilter,
+  TenantPlanRestApiExceptionFilter,
+  SaasAdminKeyRestApiExceptionFilter,
+  WorkflowBundleRestApiExceptionFilter,
+)
 export class SaasAdminController {
-  constructor(private readonly tenantAdminService: TenantAdminService) {}
+  constructor(
+    private readonly tenantAdminService: TenantAdminService,
+    private readonly usageMeteringService: UsageMeteringService,
+    private readonly tenantArchiveExportService: TenantArchiveExportService,
+    private readonly tenantArchiveImportService: TenantArchiveImportService,
+    private readonly crossTenantSearchService: CrossTenantSearchService,
+    private readonly tenantLifecycleEventService: TenantLifecycleEventService,
+    private readonly tenantPlanService: TenantPlanService,
+    private readonly tenantWebhookDeliveryService: TenantWebhookDeliveryService,
+    private readonly saasAdminKeyService: SaasAdminKeyService,
+    private readonly workflowBundleWorkspaceService: WorkflowBundleWorkspaceService,
+  ) {}
 
   // ==================== TENANT MANAGEMENT ====================
 
@@ -48,6 +116,7 @@ export class SaasAdminController {
    * Create a new tenant
    */
   @Post('tenants')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_WRITE)
   async createTenant(
     @Body() body: {
       email: string;
@@ -79,6 +148,7 @@ export class SaasAdminController {
    * List all tenants
    */
   @Get('tenants')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_READ)
   async listTenants(
     @Query('includeDisabled') includeDisabled?: string,
     @Query('search') search?: string,
@@ -98,6 +168,7 @@ export class SaasAdminController {
    * Get tenant details
    */
   @Get('tenants/:tenantId')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_READ)
   async getTenant(
     @Param('tenantId') tenantId: string,
   ): Promise<TenantDetails | null> {
@@ -108,6 +179,7 @@ export class SaasAdminController {
    * Disable a tenant
    */
   @Post('tenants/:tenantId/disable')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_TOGGLE)
   async disableTenant(
     @Param('tenantId') tenantId: string,
     @Body() body: { reason?: string },
@@ -130,6 +202,7 @@ export class SaasAdminController {
    * Enable a tenant
    */
   @Post('tenants/:tenantId/enable')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_TOGGLE)
   async enableTenant(@Param('tenantId') tenantId: string) {
     const workspace = await this.tenantAdminService.enableTenant(tenantId);
 
@@ -141,18 +214,51 @@ export class SaasAdminController {
   }
 
   /**
-   * Delete a tenant permanently
-   * WARNING: This is destructive and cannot be undone
+   * Delete a tenant
+   * The tenant is disabled and exported by a queued job, then purged by a
+   * cron job once the grace period is over (TENANT_DELETION_GRACE_PERIOD_DAYS
+   * by default). The export path shows in the tenant details once done
    */
   @Delete('tenants/:tenantId')
-  async deleteTenant(@Param('tenantId') tenantId: string) {
-    const result = await this.tenantAdminService.deleteTenant(tenantId);
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_DELETE)
+  async deleteTenant(
+    @Param('tenantId') tenantId: string,
+    @Body(
+      new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      }),
+    )
+    body: DeleteTenantDTO,
+  ) {
+    const workspace = await this.tenantAdminService.scheduleTenantDeletion(
+      tenantId,
+      body,
+    );
 
     return {
       success: true,
-      action: 'deleted',
+      action: 'scheduled_deletion',
       tenantId,
-      message: result.message,
+      pendingDeletionAt: workspace.pendingDeletionAt,
+      purgeScheduledAt: workspace.purgeScheduledAt,
+    };
+  }
+
+  /**
+   * Restore a tenant pending deletion, during its grace period
+   */
+  @Post('tenants/:tenantId/restore')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_DELETE)
+  async restoreTenant(@Param('tenantId') tenantId: string) {
+    const workspace = await this.tenantAdminService.restoreTenant(tenantId);
+
+    return {
+      success: true,
+      action: 'restored',
+      tenantId: workspace.id,
+      isDisabled: workspace.isDisabled,
     };
   }
 
@@ -160,6 +266,7 @@ export class SaasAdminController {
    * Update admin notes for a tenant
    */
   @Patch('tenants/:tenantId/notes')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_WRITE)
   async updateNotes(
     @Param('tenantId') tenantId: string,
     @Body() body: { notes: string },
@@ -179,24 +286,29 @@ export class SaasAdminController {
   // ==================== CROSS-TENANT QUERIES ====================
 
   /**
-   * Query records across all tenants
+   * Search records of any standard or custom object across tenants
+   *
+   * Example:
+   *   GET /saas/records/person?search=jane&filter={"city":{"eq":"Paris"}}
+   * then pass pageInfo.endCursor as cursor to get the next page
    */
-  @Get('records/:recordType')
+  @Get('records/:objectNameSingular')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.RECORDS_QUERY)
   async queryRecords(
-    @Param('recordType') recordType: string,
+    @Param('objectNameSingular') objectNameSingular: string,
+    @Query('tenantIds') tenantIds?: string,
     @Query('search') search?: string,
+    @Query('filter') filter?: string,
     @Query('limit') limit?: string,
-  ): Promise<{ records: CrossTenantRecord[]; total: number }> {
-    const records = await this.tenantAdminService.crossTenantQuery(
-      recordType,
+    @Query('cursor') cursor?: string,
+  ): Promise<CrossTenantSearchResult> {
+    return this.crossTenantSearchService.search(objectNameSingular, {
+      tenantIds: tenantIds ? tenantIds.split(',') : undefined,
       search,
-      limit ? parseInt(limit, 10) : 100,
-    );
-
-    return {
-      records,
-      total: records.length,
-    };
+      filter: parseCrossTenantSearchFilter(filter),
+      limit: this.parseLimitQuery(limit),
+      cursor,
+    });
   }
 
   // ==================== PLATFORM STATS ====================
@@ -205,6 +317,7 @@ export class SaasAdminController {
    * Get global platform statistics
    */
   @Get('stats')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_READ)
   async getStats() {
     return this.tenantAdminService.getGlobalStats();
   }
@@ -213,6 +326,7 @@ export class SaasAdminController {
    * Health check for SaaS admin API
    */
   @Get('health')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_READ)
   async health() {
     return {
       status: 'ok',
@@ -221,12 +335,480 @@ export class SaasAdminController {
     };
   }
 
+  // ==================== USAGE METERING ====================
+
+  /**
+   * Get the latest usage snapshot and usage history of a tenant
+   * Snapshots are collected hourly; use from/to (ISO dates) to pick a window
+   */
+  @Get('tenants/:tenantId/usage')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_READ)
+  async getTenantUsage(
+    @Param('tenantId') tenantId: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+  ): Promise<{
+    tenantId: string;
+    latest: WorkspaceUsageReport | null;
+    history: WorkspaceUsageReport[];
+  }> {
+    const [latest, history] = await Promise.all([
+      this.usageMeteringService.getLatestSnapshot(tenantId),
+      this.usageMeteringService.getSnapshots(tenantId, {
+        from: this.parseDateQuery('from', from),
+        to: this.parseDateQuery('to', to),
+        limit: this.parseLimitQuery(limit, USAGE_METERING_MAX_SNAPSHOT_LIMIT),
+      }),
+    ]);
+
+    return {
+      tenantId,
+      latest: latest ? formatWorkspaceUsageSnapshot(latest) : null,
+      history: history.map(formatWorkspaceUsageSnapshot),
+    };
+  }
+
+  /**
+   * Export the usage history of a tenant as CSV
+   */
+  @Get('tenants/:tenantId/usage/export')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_READ)
+  async exportTenantUsage(
+    @Param('tenantId') tenantId: string,
+    @Res({ passthrough: true }) res: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+  ): Promise<string> {
+    const snapshots = await this.usageMeteringService.getSnapshots(tenantId, {
+      from: this.parseDateQuery('from', from),
+      to: this.parseDateQuery('to', to),
+      limit: this.parseLimitQuery(limit, USAGE_METERING_MAX_SNAPSHOT_LIMIT),
+    });
+
+    this.setCsvHeaders(res, `usage-${tenantId}.csv`);
+
+    return formatWorkspaceUsageReportsAsCsv(
+      snapshots.map(formatWorkspaceUsageSnapshot),
+    );
+  }
+
+  /**
+   * Export the latest usage snapshot of every tenant as CSV
+   */
+  @Get('usage/export')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_READ)
+  async exportPlatformUsage(
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    const snapshots =
+      await this.usageMeteringService.getLatestSnapshotOfAllWorkspaces();
+
+    this.setCsvHeaders(res, 'usage.csv');
+
+    return formatWorkspaceUsageReportsAsCsv(
+      snapshots.map(formatWorkspaceUsageSnapshot),
+    );
+  }
+
+  // ==================== TENANT ARCHIVES ====================
+
+  /**
+   * Export a tenant (metadata, records and files) as a zip archive stored in
+   * file storage
+   */
+  @Post('tenants/:tenantId/export')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_ARCHIVE)
+  async exportTenant(@Param('tenantId') tenantId: string) {
+    const { archivePath, manifest } =
+      await this.tenantArchiveExportService.exportTenant(tenantId);
+
+    return {
+      success: true,
+      action: 'exported',
+      tenantId,
+      archivePath,
+      manifest,
+    };
+  }
+
+  /**
+   * Download an archive produced by the export endpoint
+   */
+  @Get('archives/download')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_ARCHIVE)
+  async downloadArchive(
+    @Query('path') archivePath: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    const archive =
+      await this.tenantArchiveExportService.readArchive(archivePath);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${archivePath.split('/').pop()}"`,
+    );
+
+    return new StreamableFile(archive);
+  }
+
+  /**
+   * Import an archive as a new tenant. The archive must be in this
+   * instance's file storage (under tenant-exports/), or be uploaded through
+   * tenants/import/upload; with dryRun the archive is only validated against
+   * this instance's metadata version.
+   */
+  @Post('tenants/import')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_ARCHIVE)
+  async importTenant(
+    @Body()
+    body: {
+      archivePath: string;
+      subdomain?: string;
+      displayName?: string;
+      dryRun?: boolean;
+    },
+  ) {
+    const { tenantId, report } =
+      await this.tenantArchiveImportService.importTenant(
+        { archivePath: body.archivePath },
+        {
+          subdomain: body.subdomain,
+          displayName: body.displayName,
+          dryRun: body.dryRun,
+        },
+      );
+
+    return {
+      success: report.valid,
+      action: body.dryRun === true ? 'validated' : 'imported',
+      tenantId,
+      report,
+    };
+  }
+
+  /**
+   * Import an archive sent as the request body (Content-Type:
+   * application/zip), e.g. an archive downloaded from another instance
+   *   POST /saas/tenants/import/upload?subdomain=acme&dryRun=true
+   */
+  @Post('tenants/import/upload')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_ARCHIVE)
+  async importUploadedTenant(
+    @Req() req: Request,
+    @Query('subdomain') subdomain?: string,
+    @Query('displayName') displayName?: string,
+    @Query('dryRun') dryRun?: string,
+  ) {
+    if (!req.is('application/zip')) {
+      throw new BadRequestException(
+        'Archive must be sent with Content-Type: application/zip',
+      );
+    }
+
+    const isDryRun = dryRun === 'true';
+    const { tenantId, report } =
+      await this.tenantArchiveImportService.importTenant(
+        { stream: req },
+        { subdomain, displayName, dryRun: isDryRun },
+      );
+
+    return {
+      success: report.valid,
+      action: isDryRun ? 'validated' : 'imported',
+      tenantId,
+      report,
+    };
+  }
+
+  // ==================== TENANT EVENTS ====================
+
+  /**
+   * Delivery log of outbound tenant lifecycle events, most recent first
+   * Filter by tenantId, event (e.g. tenant.user.joined) and status
+   */
+  @Get('events/deliveries')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_READ)
+  async getEventDeliveries(
+    @Query('tenantId') tenantId?: string,
+    @Query('event') event?: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+  ): Promise<{ deliveries: TenantLifecycleEventDeliveryEntity[] }> {
+    const deliveries = await this.tenantLifecycleEventService.findDeliveries({
+      tenantId,
+      eventType: this.parseEnumQuery('event', TenantLifecycleEventType, event),
+      status: this.parseEnumQuery(
+        'status',
+        TenantLifecycleEventDeliveryStatus,
+        status,
+      ),
+      limit: this.parseLimitQuery(limit),
+    });
+
+    return { deliveries };
+  }
+
+  // ==================== INBOUND WEBHOOKS ====================
+
+  /**
+   * Audit log of requests received on /webhooks/tenant, most recent first
+   * Filter by outcome (PROCESSED, DUPLICATE, REJECTED, FAILED), eventId
+   * and tenantId
+   */
+  @Get('webhooks/deliveries')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_READ)
+  async getWebhookDeliveries(
+    @Query('outcome') outcome?: string,
+    @Query('eventId') eventId?: string,
+    @Query('tenantId') tenantId?: string,
+    @Query('limit') limit?: string,
+  ): Promise<{ deliveries: TenantWebhookDeliveryEntity[] }> {
+    const deliveries = await this.tenantWebhookDeliveryService.findDeliveries({
+      outcome: this.parseEnumQuery(
+        'outcome',
+        TenantWebhookDeliveryOutcome,
+        outcome,
+      ),
+      eventId,
+      tenantId,
+      limit: this.parseLimitQuery(limit),
+    });
+
+    return { deliveries };
+  }
+
+  // ==================== TENANT PLANS ====================
+
+  /**
+   * Plan catalogue (TENANT_PLANS, or the default free / pro / enterprise)
+   */
+  @Get('plans')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_READ)
+  async listPlans(): Promise<{ plans: TenantPlan[] }> {
+    return { plans: this.tenantPlanService.getPlans() };
+  }
+
+  /**
+   * Assign a plan to a tenant, applying its seat and storage limits and
+   * feature flags
+   */
+  @Post('tenants/:tenantId/plan')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_WRITE)
+  async assignPlan(
+    @Param('tenantId') tenantId: string,
+    @Body() body: { plan: string },
+  ) {
+    if (!isNonEmptyString(body?.plan)) {
+      throw new BadRequestException('plan is required');
+    }
+
+    const { workspace, plan } = await this.tenantPlanService.assignPlan(
+      tenantId,
+      body.plan,
+    );
+
+    return {
+      success: true,
+      tenantId: workspace.id,
+      plan: plan.key,
+      maxUsers: workspace.maxUsers,
+      storageQuotaMb: workspace.storageQuotaMb,
+      featureFlags: plan.featureFlags,
+    };
+  }
+
+  // ==================== ADMIN KEYS ====================
+
+  /**
+   * List named SaaS admin keys (hashes are never returned)
+   */
+  @Get('keys')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.KEYS_MANAGE)
+  async listKeys(): Promise<{ keys: SaasAdminKeyEntity[] }> {
+    return { keys: await this.saasAdminKeyService.listKeys() };
+  }
+
+  /**
+   * Create a named key. The plain key is only returned in this response.
+   * Body: { name, scopes: ['tenants:read', ...], expiresAt?: ISO date }
+   * A named key can only grant scopes it holds itself.
+   */
+  @Post('keys')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.KEYS_MANAGE)
+  async createKey(
+    @Req() req: SaasAdminKeyRequest,
+    @Body() body: { name: string; scopes: string[]; expiresAt?: string },
+  ) {
+    const { key, plainKey } = await this.saasAdminKeyService.createKey(
+      body ?? {},
+      req.saasAdminKey ?? null,
+    );
+
+    return { success: true, action: 'created', key, plainKey };
+  }
+
+  /**
+   * Rotate a key: issue a new secret with the same name, scopes and expiry,
+   * and revoke the old one. A named key can only rotate keys whose scopes it
+   * holds.
+   */
+  @Post('keys/:keyId/rotate')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.KEYS_MANAGE)
+  async rotateKey(
+    @Req() req: SaasAdminKeyRequest,
+    @Param('keyId') keyId: string,
+  ) {
+    const { key, plainKey } = await this.saasAdminKeyService.rotateKey(
+      keyId,
+      req.saasAdminKey ?? null,
+    );
+
+    return {
+      success: true,
+      action: 'rotated',
+      rotatedFromKeyId: keyId,
+      key,
+      plainKey,
+    };
+  }
+
+  /**
+   * Revoke a key. A named key can only revoke keys whose scopes it holds.
+   */
+  @Delete('keys/:keyId')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.KEYS_MANAGE)
+  async revokeKey(
+    @Req() req: SaasAdminKeyRequest,
+    @Param('keyId') keyId: string,
+  ) {
+    const key = await this.saasAdminKeyService.revokeKey(
+      keyId,
+      req.saasAdminKey ?? null,
+    );
+
+    return {
+      success: true,
+      action: 'revoked',
+      keyId: key.id,
+      revokedAt: key.revokedAt,
+    };
+  }
+
+  /**
+   * Audit trail of SaaS admin calls, most recent first
+   * Filter by keyId and tenantId
+   */
+  @Get('audit')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.KEYS_MANAGE)
+  async getAuditLogs(
+    @Query('keyId') keyId?: string,
+    @Query('tenantId') tenantId?: string,
+    @Query('limit') limit?: string,
+  ): Promise<{ logs: SaasAdminAuditLogEntity[] }> {
+    const logs = await this.saasAdminKeyService.findAuditLogs({
+      keyId,
+      tenantId,
+      limit: this.parseLimitQuery(limit),
+    });
+
+    return { logs };
+  }
+
+  // ==================== WORKFLOW DEPLOYMENT ====================
+
+  /**
+   * Export a tenant workflow, with its versions and serverless code, as a
+   * portable JSON bundle
+   */
+  @Get('tenants/:tenantId/workflows/:workflowId/export')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.WORKFLOWS_DEPLOY)
+  async exportWorkflow(
+    @Param('tenantId') tenantId: string,
+    @Param('workflowId') workflowId: string,
+  ) {
+    const bundle = await this.workflowBundleWorkspaceService.exportWorkflow({
+      workspaceId: tenantId,
+      workflowId,
+    });
+
+    return {
+      success: true,
+      action: 'exported',
+      tenantId,
+      bundle,
+    };
+  }
+
+  /**
+   * Import a workflow bundle into several tenants. Each tenant gets a new
+   * workflow; activation is skipped for tenants with unresolved references.
+   */
+  @Post('workflows/import')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.WORKFLOWS_DEPLOY)
+  async importWorkflow(
+    @Body()
+    body: {
+      bundle: WorkflowBundle;
+      tenantIds: string[];
+      activate?: boolean;
+    },
+  ) {
+    if (!Array.isArray(body.tenantIds) || body.tenantIds.length === 0) {
+      throw new BadRequestException('"tenantIds" must be a non-empty array');
+    }
+
+    const results: PromiseSettledResult<WorkflowBundleImportReport>[] = [];
+
+    for (const tenantIdsWindow of chunk(
+      body.tenantIds,
+      WORKFLOW_IMPORT_CONCURRENCY,
+    )) {
+      results.push(
+        ...(await Promise.allSettled(
+          tenantIdsWindow.map((tenantId) =>
+            this.workflowBundleWorkspaceService.importWorkflow({
+              workspaceId: tenantId,
+              bundle: body.bundle,
+              activate: body.activate,
+            }),
+          ),
+        )),
+      );
+    }
+
+    const succeeded = results.filter((r) => r.status === 'fulfilled').length;
+    const failed = results.filter((r) => r.status === 'rejected').length;
+
+    return {
+      success: true,
+      action: 'workflow_import',
+      total: body.tenantIds.length,
+      succeeded,
+      failed,
+      results: results.map((result, index) =>
+        result.status === 'fulfilled'
+          ? { tenantId: body.tenantIds[index], ...result.value }
+          : {
+              tenantId: body.tenantIds[index],
+              error:
+                result.reason instanceof Error
+                  ? result.reason.message
+                  : String(result.reason),
+            },
+      ),
+    };
+  }
+
   // ==================== BULK OPERATIONS ====================
 
   /**
    * Bulk disable tenants
    */
   @Post('tenants/bulk/disable')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_TOGGLE)
   async bulkDisable(
     @Body() body: { tenantIds: string[]; reason?: string },
   ) {
@@ -252,6 +834,7 @@ export class SaasAdminController {
    * Bulk enable tenants
    */
   @Post('tenants/bulk/enable')
+  @RequireSaasAdminKeyScope(SaasAdminKeyScope.TENANTS_TOGGLE)
   async bulkEnable(@Body() body: { tenantIds: string[] }) {
     const results = await Promise.allSettled(
       body.tenantIds.map((id) => this.tenantAdminService.enableTenant(id)),
@@ -268,4 +851,62 @@ export class SaasAdminController {
       failed,
     };
   }
+
+  private parseDateQuery(name: string, value?: string): Date | undefined {
+    if (!isDefined(value) || value === '') {
+      return undefined;
+    }
+
+    const date = new Date(value);
+
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid "${name}" date: ${value}`);
+    }
+
+    return date;
+  }
+
+  // Without a max, greater limits are capped by the service
+  private parseLimitQuery(value: string | undefined, max?: number) {
+    if (!isDefined(value) || value === '') {
+      return undefined;
+    }
+
+    const limit = Number(value);
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new BadRequestException(
+        'Invalid "limit": expected a positive integer',
+      );
+    }
+
+    if (isDefined(max) && limit > max) {
+      throw new BadRequestException(
+        `Invalid "limit": expected an integer between 1 and ${max}`,
+      );
+    }
+
+    return limit;
+  }
+
+  private parseEnumQuery<T extends string>(
+    name: string,
+    enumObject: Record<string, T>,
+    value?: string,
+  ): T | undefined {
+    if (!isDefined(value) || value === '') {
+      return undefined;
+    }
+
+    if (!(Object.values(enumObject) as string[]).includes(value)) {
+      throw new BadRequestException(`Invalid "${name}": ${value}`);
+    }
+
+    return value as T;
+  }
+
+  private setCsvHeaders(res: Response, filename: string) {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  }
 }
@@ -6,22 +6,32 @@ import {
   Patch,
   Post,
   Query,
+  UseFilters,
   UseGuards,
 } from '@nestjs/common';
 
+import { TenantAdminRestApiExceptionFilter } from 'src/engine/core-modules/admin/filters/tenant-admin-rest-api-exception.filter';
 import { AdminGuard } from 'src/engine/core-modules/admin/guards/admin.guard';
 import {
-  CrossTenantRecord,
+  CrossTenantSearchResult,
+  CrossTenantSearchService,
+} from 'src/engine/core-modules/admin/services/cross-tenant-search.service';
+import {
   TenantAdminService,
   TenantDetails,
   TenantSummary,
 } from 'src/engine/core-modules/admin/services/tenant-admin.service';
-import { JwtAuthGuard } from 'src/engine/guards/jwt.auth.guard';
+import { parseCrossTenantSearchFilter } from 'src/engine/core-modules/admin/utils/parse-cross-tenant-search-filter.util';
+import { JwtAuthGuard } from 'src/engine/guards/jwt-auth.guard';
 
 @Controller('admin/tenants')
 @UseGuards(JwtAuthGuard, AdminGuard)
+@UseFilters(TenantAdminRestApiExceptionFilter)
 export class TenantAdminController {
-  constructor(private readonly tenantAdminService: TenantAdminService) {}
+  constructor(
+    private readonly tenantAdminService: TenantAdminService,
+    private readonly crossTenantSearchService: CrossTenantSearchService,
+  ) {}
 
   /**
    * Get all tenants with summary info
@@ -55,6 +65,7 @@ export class TenantAdminController {
     @Param('tenantId') tenantId: string,
   ): Promise<{ tenant: TenantDetails | null }> {
     const tenant = await this.tenantAdminService.getTenantDetails(tenantId);
+
     return { tenant };
   }
 
@@ -70,6 +81,7 @@ export class TenantAdminController {
       tenantId,
       body.reason,
     );
+
     return {
       success: true,
       message: `Tenant ${tenantId} has been disabled`,
@@ -88,6 +100,7 @@ export class TenantAdminController {
   @Post(':tenantId/enable')
   async enableTenant(@Param('tenantId') tenantId: string) {
     const workspace = await this.tenantAdminService.enableTenant(tenantId);
+
     return {
       success: true,
       message: `Tenant ${tenantId} has been enabled`,
@@ -112,6 +125,7 @@ export class TenantAdminController {
       tenantId,
       body.notes,
     );
+
     return {
       success: true,
       workspace: {
@@ -122,21 +136,24 @@ export class TenantAdminController {
   }
 
   /**
-   * Query records across all tenants
+   * Search records of any standard or custom object across tenants
+   * filter is a JSON record filter, as accepted by the GraphQL API
    */
-  @Get('records/:recordType')
+  @Get('records/:objectNameSingular')
   async queryCrossTenantRecords(
-    @Param('recordType') recordType: 'person' | 'company' | 'opportunity',
+    @Param('objectNameSingular') objectNameSingular: string,
     @Query('tenantIds') tenantIds?: string,
     @Query('limit') limit?: string,
-    @Query('offset') offset?: string,
+    @Query('cursor') cursor?: string,
     @Query('search') search?: string,
-  ): Promise<{ records: CrossTenantRecord[]; total: number }> {
-    return this.tenantAdminService.queryCrossTenantRecords(recordType, {
+    @Query('filter') filter?: string,
+  ): Promise<CrossTenantSearchResult> {
+    return this.crossTenantSearchService.search(objectNameSingular, {
       tenantIds: tenantIds ? tenantIds.split(',') : undefined,
       limit: limit ? parseInt(limit, 10) : undefined,
-      offset: offset ? parseInt(offset, 10) : undefined,
+      cursor,
       search,
+      filter: parseCrossTenantSearchFilter(filter),
     });
   }
 }
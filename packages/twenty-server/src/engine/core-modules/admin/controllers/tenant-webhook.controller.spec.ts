@@ -0,0 +1,209 @@
+import { ConflictException, type RawBodyRequest } from '@nestjs/common';
+import { Test, type TestingModule } from '@nestjs/testing';
+
+import { type Request } from 'express';
+
+import { TenantWebhookController } from 'src/engine/core-modules/admin/controllers/tenant-webhook.controller';
+import { TenantAdminService } from 'src/engine/core-modules/admin/services/tenant-admin.service';
+import { WebhookSignatureService } from 'src/engine/core-modules/admin/services/webhook-signature.service';
+import { AuthExceptionCode } from 'src/engine/core-modules/auth/auth.exception';
+import { HttpExceptionHandlerService } from 'src/engine/core-modules/exception-handler/http-exception-handler.service';
+import { TenantPlanService } from 'src/engine/core-modules/tenant-plan/services/tenant-plan.service';
+import { TenantWebhookDeliveryOutcome } from 'src/engine/core-modules/tenant-webhook-delivery/enums/tenant-webhook-delivery-outcome.enum';
+import { TenantWebhookEventClaim } from 'src/engine/core-modules/tenant-webhook-delivery/enums/tenant-webhook-event-claim.enum';
+import { TenantWebhookDeliveryService } from 'src/engine/core-modules/tenant-webhook-delivery/services/tenant-webhook-delivery.service';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { TenantDisabledCause } from 'src/engine/core-modules/workspace/enums/tenant-disabled-cause.enum';
+
+describe('TenantWebhookController', () => {
+  let controller: TenantWebhookController;
+  let tenantAdminService: { disableTenant: jest.Mock; enableTenant: jest.Mock };
+  let tenantPlanService: { assignPlan: jest.Mock };
+  let webhookSignatureService: { verifySignature: jest.Mock };
+  let tenantWebhookDeliveryService: {
+    claimEvent: jest.Mock;
+    markEventProcessed: jest.Mock;
+    releaseEvent: jest.Mock;
+    record: jest.Mock;
+  };
+
+  const payload = {
+    id: 'evt_1',
+    event: 'tenant.disabled' as const,
+    timestamp: '2025-01-01T00:00:00.000Z',
+    data: { tenantId: 'tenant-id', reason: 'Unpaid' },
+  };
+  const request = {
+    rawBody: Buffer.from(JSON.stringify(payload)),
+  } as RawBodyRequest<Request>;
+
+  beforeEach(async () => {
+    tenantAdminService = {
+      disableTenant: jest.fn().mockResolvedValue({ id: 'tenant-id' }),
+      enableTenant: jest.fn().mockResolvedValue({ id: 'tenant-id' }),
+    };
+    tenantPlanService = { assignPlan: jest.fn() };
+    webhookSignatureService = { verifySignature: jest.fn() };
+    tenantWebhookDeliveryService = {
+      claimEvent: jest.fn().mockResolvedValue(TenantWebhookEventClaim.CLAIMED),
+      markEventProcessed: jest.fn(),
+      releaseEvent: jest.fn(),
+      record: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TenantWebhookController],
+      providers: [
+        { provide: TenantAdminService, useValue: tenantAdminService },
+        { provide: WebhookSignatureService, useValue: webhookSignatureService },
+        { provide: TenantPlanService, useValue: tenantPlanService },
+        { provide: TwentyConfigService, useValue: { get: jest.fn() } },
+        { provide: HttpExceptionHandlerService, useValue: {} },
+        {
+          provide: TenantWebhookDeliveryService,
+          useValue: tenantWebhookDeliveryService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get(TenantWebhookController);
+  });
+
+  it('should process a new event and record it', async () => {
+    const result = await controller.handleWebhook(request, 't=1,v1=a', payload);
+
+    expect(result).toMatchObject({ success: true, tenantId: 'tenant-id' });
+    expect(tenantAdminService.disableTenant).toHaveBeenCalledWith(
+      'tenant-id',
+      'Unpaid',
+      TenantDisabledCause.OPERATOR,
+    );
+    expect(tenantWebhookDeliveryService.claimEvent).toHaveBeenCalledWith(
+      'evt_1',
+      'tenant.disabled',
+    );
+    expect(
+      tenantWebhookDeliveryService.markEventProcessed,
+    ).toHaveBeenCalledWith('evt_1');
+    expect(tenantWebhookDeliveryService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        outcome: TenantWebhookDeliveryOutcome.PROCESSED,
+        eventId: 'evt_1',
+        tenantId: 'tenant-id',
+      }),
+    );
+  });
+
+  it('should acknowledge a replayed event without applying it', async () => {
+    tenantWebhookDeliveryService.claimEvent.mockResolvedValue(
+      TenantWebhookEventClaim.PROCESSED,
+    );
+
+    const result = await controller.handleWebhook(request, 't=1,v1=a', payload);
+
+    expect(result).toMatchObject({ success: true, duplicate: true });
+    expect(tenantAdminService.disableTenant).not.toHaveBeenCalled();
+    expect(tenantWebhookDeliveryService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        outcome: TenantWebhookDeliveryOutcome.DUPLICATE,
+        eventId: 'evt_1',
+      }),
+    );
+  });
+
+  it('should ask the sender to retry an event that is being processed', async () => {
+    tenantWebhookDeliveryService.claimEvent.mockResolvedValue(
+      TenantWebhookEventClaim.IN_FLIGHT,
+    );
+
+    await expect(
+      controller.handleWebhook(request, 't=1,v1=a', payload),
+    ).rejects.toBeInstanceOf(ConflictException);
+
+    expect(tenantAdminService.disableTenant).not.toHaveBeenCalled();
+    expect(tenantWebhookDeliveryService.releaseEvent).not.toHaveBeenCalled();
+  });
+
+  it('should record and reject an invalid signature', async () => {
+    webhookSignatureService.verifySignature.mockImplementation(() => {
+      throw new Error('Invalid webhook signature');
+    });
+
+    await expect(
+      controller.handleWebhook(request, 't=1,v1=a', payload),
+    ).rejects.toMatchObject({ code: AuthExceptionCode.FORBIDDEN_EXCEPTION });
+
+    expect(tenantWebhookDeliveryService.claimEvent).not.toHaveBeenCalled();
+    expect(tenantWebhookDeliveryService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        outcome: TenantWebhookDeliveryOutcome.REJECTED,
+        eventId: 'evt_1',
+      }),
+    );
+  });
+
+  it('should reject a payload without event id', async () => {
+    await expect(
+      controller.handleWebhook(request, 't=1,v1=a', { ...payload, id: '' }),
+    ).rejects.toMatchObject({ code: AuthExceptionCode.INVALID_INPUT });
+
+    expect(tenantAdminService.disableTenant).not.toHaveBeenCalled();
+  });
+
+  it('should release the event when processing fails', async () => {
+    tenantAdminService.disableTenant.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      controller.handleWebhook(request, 't=1,v1=a', payload),
+    ).rejects.toThrow('db down');
+
+    expect(tenantWebhookDeliveryService.releaseEvent).toHaveBeenCalledWith(
+      'evt_1',
+    );
+    expect(tenantWebhookDeliveryService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        outcome: TenantWebhookDeliveryOutcome.FAILED,
+        reason: 'db down',
+      }),
+    );
+  });
+
+  it('should record a cancellation as the cause of the disable', async () => {
+    await controller.handleWebhook(request, 't=1,v1=a', {
+      ...payload,
+      event: 'tenant.subscription.cancelled',
+      data: { tenantId: 'tenant-id' },
+    });
+
+    expect(tenantAdminService.disableTenant).toHaveBeenCalledWith(
+      'tenant-id',
+      'Subscription cancelled',
+      TenantDisabledCause.SUBSCRIPTION_CANCELLED,
+    );
+  });
+
+  it.each([
+    [TenantDisabledCause.SUBSCRIPTION_CANCELLED, true],
+    [TenantDisabledCause.OPERATOR, false],
+    [TenantDisabledCause.TENANT_DIRECTORY, false],
+    [null, false],
+  ])(
+    'should re-enable a tenant disabled by %s on subscription update: %s',
+    async (disabledCause, shouldEnable) => {
+      tenantPlanService.assignPlan.mockResolvedValue({
+        workspace: { id: 'tenant-id', isDisabled: true, disabledCause },
+        plan: { key: 'pro' },
+      });
+
+      await controller.handleWebhook(request, 't=1,v1=a', {
+        ...payload,
+        event: 'tenant.subscription.updated',
+        data: { tenantId: 'tenant-id', plan: 'pro' },
+      });
+
+      expect(tenantAdminService.enableTenant).toHaveBeenCalledTimes(
+        shouldEnable ? 1 : 0,
+      );
+    },
+  );
+});
@@ -1,5 +1,6 @@
 import {
     Body,
+    ConflictException,
     Controller,
     Headers,
     HttpCode,
@@ -7,8 +8,10 @@ import {
     Post,
     RawBodyRequest,
     Req,
+    UseFilters,
 } from '@nestjs/common';
 
+import { isNonEmptyString } from '@sniptt/guards';
 import { Request } from 'express';
 
 import { TenantAdminService } from 'src/engine/core-modules/admin/services/tenant-admin.service';
@@ -17,6 +20,13 @@ import {
     AuthException,
     AuthExceptionCode,
 } from 'src/engine/core-modules/auth/auth.exception';
+import { TenantPlanRestApiExceptionFilter } from 'src/engine/core-modules/tenant-plan/filters/tenant-plan-rest-api-exception.filter';
+import { TenantPlanService } from 'src/engine/core-modules/tenant-plan/services/tenant-plan.service';
+import { TenantWebhookDeliveryOutcome } from 'src/engine/core-modules/tenant-webhook-delivery/enums/tenant-webhook-delivery-outcome.enum';
+import { TenantWebhookEventClaim } from 'src/engine/core-modules/tenant-webhook-delivery/enums/tenant-webhook-event-claim.enum';
+import { TenantWebhookDeliveryService } from 'src/engine/core-modules/tenant-webhook-delivery/services/tenant-webhook-delivery.service';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { TenantDisabledCause } from 'src/engine/core-modules/workspace/enums/tenant-disabled-cause.enum';
 
 /**
  * Webhook event types that external systems can send
@@ -32,31 +42,49 @@ type WebhookEventType =
  * Webhook payload structure
  */
 type WebhookPayload = {
+  id: string; // Unique event id, each id is processed at most once
   event: WebhookEventType;
   timestamp: string;
   data: {
     tenantId?: string;
     tenantEmail?: string; // Can identify tenant by admin email
     reason?: string;
+    plan?: string; // Plan key for tenant.subscription.updated
     metadata?: Record<string, unknown>;
   };
 };
 
+/**
+ * Webhook handler result, tenantId is set once the tenant is resolved
+ */
+type WebhookResult = {
+  success: boolean;
+  tenantId?: string;
+  [key: string]: unknown;
+};
+
 /**
  * Webhook controller for receiving notifications from external systems.
  *
  * External systems (billing, CRM, etc.) can notify this endpoint to:
  * - Disable tenants (e.g., subscription cancelled)
  * - Enable tenants (e.g., subscription renewed)
+ * - Assign a plan from the TenantPlanService catalogue (subscription updated)
+ * - Downgrade or disable tenants (subscription cancelled)
  *
  * All requests must be signed using HMAC-SHA256 with the shared WEBHOOK_SECRET.
+ * Each payload carries a unique event id: an id that was already processed is
+ * acknowledged as a duplicate without being applied again, while an id that
+ * is still being processed is answered with 409 so that the sender retries
+ * it. Every request is recorded with its outcome, see
+ * GET /saas/webhooks/deliveries.
  *
  * Signature format (like Stripe):
  *   x-webhook-signature: t=timestamp,v1=signature
  *
  * Example curl:
  *   timestamp=$(date +%s)
- *   payload='{"event":"tenant.disabled","timestamp":"2024-01-01T00:00:00Z","data":{"tenantId":"xxx","reason":"Subscription cancelled"}}'
+ *   payload='{"id":"evt_123","event":"tenant.disabled","timestamp":"2024-01-01T00:00:00Z","data":{"tenantId":"xxx","reason":"Subscription cancelled"}}'
  *   signature=$(echo -n "${timestamp}.${payload}" | openssl dgst -sha256 -hmac "your-webhook-secret" | cut -d' ' -f2)
  *   curl -X POST https://your-crm.com/webhooks/tenant \
  *     -H "Content-Type: application/json" \
@@ -64,10 +92,14 @@ type WebhookPayload = {
  *     -d "${payload}"
  */
 @Controller('webhooks/tenant')
+@UseFilters(TenantPlanRestApiExceptionFilter)
 export class TenantWebhookController {
   constructor(
     private readonly tenantAdminService: TenantAdminService,
     private readonly webhookSignatureService: WebhookSignatureService,
+    private readonly tenantPlanService: TenantPlanService,
+    private readonly twentyConfigService: TwentyConfigService,
+    private readonly tenantWebhookDeliveryService: TenantWebhookDeliveryService,
   ) {}
 
   /**
@@ -79,32 +111,129 @@ export class TenantWebhookController {
     @Req() req: RawBodyRequest<Request>,
     @Headers('x-webhook-signature') signature: string,
     @Body() payload: WebhookPayload,
-  ) {
+  ): Promise<WebhookResult> {
     // Get raw body for signature verification
     const rawBody = req.rawBody?.toString() || JSON.stringify(payload);
+    const eventId = isNonEmptyString(payload?.id) ? payload.id : null;
+    const eventType = isNonEmptyString(payload?.event) ? payload.event : null;
 
     // Verify signature
     try {
       this.webhookSignatureService.verifySignature(rawBody, signature);
     } catch (error) {
+      await this.tenantWebhookDeliveryService.record({
+        outcome: TenantWebhookDeliveryOutcome.REJECTED,
+        eventId,
+        eventType,
+        reason: `Invalid signature: ${error.message}`,
+      });
+
       throw new AuthException(
         `Webhook signature verification failed: ${error.message}`,
         AuthExceptionCode.FORBIDDEN_EXCEPTION,
       );
     }
 
-    // Process the event
-    const { event, data } = payload;
+    if (!eventId) {
+      await this.tenantWebhookDeliveryService.record({
+        outcome: TenantWebhookDeliveryOutcome.REJECTED,
+        eventType,
+        reason: 'Missing event id',
+        payload,
+      });
+
+      throw new AuthException(
+        'Webhook payload requires an event id',
+        AuthExceptionCode.INVALID_INPUT,
+      );
+    }
+
+    // Replay protection: each event id is claimed until it is processed
+    const claim = await this.tenantWebhookDeliveryService.claimEvent(
+      eventId,
+      eventType ?? undefined,
+    );
+
+    if (claim === TenantWebhookEventClaim.PROCESSED) {
+      await this.tenantWebhookDeliveryService.record({
+        outcome: TenantWebhookDeliveryOutcome.DUPLICATE,
+        eventId,
+        eventType,
+        reason: 'Event already processed',
+        payload,
+      });
+
+      return {
+        success: true,
+        duplicate: true,
+        eventId,
+        message: `Event ${eventId} was already processed`,
+      };
+    }
+
+    // The original delivery may still fail, so the sender has to retry
+    if (claim === TenantWebhookEventClaim.IN_FLIGHT) {
+      await this.tenantWebhookDeliveryService.record({
+        outcome: TenantWebhookDeliveryOutcome.DUPLICATE,
+        eventId,
+        eventType,
+        reason: 'Event is being processed',
+        payload,
+      });
+
+      throw new ConflictException(
+        `Event ${eventId} is being processed, retry later`,
+      );
+    }
+
+    try {
+      const result = await this.processEvent(payload);
+
+      await this.tenantWebhookDeliveryService.markEventProcessed(eventId);
+      await this.tenantWebhookDeliveryService.record({
+        outcome: TenantWebhookDeliveryOutcome.PROCESSED,
+        eventId,
+        eventType,
+        tenantId: result.tenantId,
+        payload,
+      });
+
+      return result;
+    } catch (error) {
+      // Release the claim so that the sender can retry the event
+      await this.tenantWebhookDeliveryService.releaseEvent(eventId);
+      await this.tenantWebhookDeliveryService.record({
+        outcome: TenantWebhookDeliveryOutcome.FAILED,
+        eventId,
+        eventType,
+        reason: error instanceof Error ? error.message : String(error),
+        payload,
+      });
+
+      throw error;
+    }
+  }
 
+  /**
+   * Dispatch a verified event to its handler
+   */
+  private async processEvent({
+    event,
+    data,
+  }: WebhookPayload): Promise<WebhookResult> {
     switch (event) {
       case 'tenant.disabled':
-      case 'tenant.subscription.cancelled':
         return this.handleTenantDisabled(data);
 
       case 'tenant.enabled':
-      case 'tenant.subscription.updated':
         return this.handleTenantEnabled(data);
 
+      case 'tenant.subscription.updated':
+        return this.handleSubscriptionUpdated(data);
+
+      case 'tenant.subscription.cancelled':
+        return this.handleSubscriptionCancelled(data);
+
       case 'tenant.user.removed':
         return this.handleUserRemoved(data);
 
@@ -117,9 +246,13 @@ export class TenantWebhookController {
   }
 
   /**
-   * Handle tenant disabled event
+   * Handle tenant disabled event, the cause tells whether a later
+   * subscription update may re-enable the tenant
    */
-  private async handleTenantDisabled(data: WebhookPayload['data']) {
+  private async handleTenantDisabled(
+    data: WebhookPayload['data'],
+    cause: TenantDisabledCause = TenantDisabledCause.OPERATOR,
+  ) {
     const tenantId = await this.resolveTenantId(data);
 
     if (!tenantId) {
@@ -132,6 +265,7 @@ export class TenantWebhookController {
     const workspace = await this.tenantAdminService.disableTenant(
       tenantId,
       data.reason || 'Disabled via webhook',
+      cause,
     );
 
     return {
@@ -165,6 +299,92 @@ export class TenantWebhookController {
     };
   }
 
+  /**
+   * Handle subscription updated event: apply the plan and re-enable the
+   * tenant if a previous cancellation disabled it. Tenants disabled for any
+   * other cause (abuse, non-payment, deletion...) stay disabled
+   */
+  private async handleSubscriptionUpdated(data: WebhookPayload['data']) {
+    const tenantId = await this.resolveTenantId(data);
+
+    if (!tenantId) {
+      throw new AuthException(
+        'Could not resolve tenant. Provide tenantId or tenantEmail.',
+        AuthExceptionCode.INVALID_INPUT,
+      );
+    }
+
+    if (!isNonEmptyString(data.plan)) {
+      throw new AuthException(
+        'tenant.subscription.updated requires a plan',
+        AuthExceptionCode.INVALID_INPUT,
+      );
+    }
+
+    const { workspace, plan } = await this.tenantPlanService.assignPlan(
+      tenantId,
+      data.plan,
+    );
+
+    if (
+      workspace.isDisabled &&
+      workspace.disabledCause === TenantDisabledCause.SUBSCRIPTION_CANCELLED &&
+      !workspace.pendingDeletionAt
+    ) {
+      await this.tenantAdminService.enableTenant(tenantId);
+    }
+
+    return {
+      success: true,
+      event: 'tenant.subscription.updated',
+      tenantId: workspace.id,
+      plan: plan.key,
+      message: `Tenant ${workspace.id} is now on plan ${plan.key}`,
+    };
+  }
+
+  /**
+   * Handle subscription cancelled event: downgrade to TENANT_CANCELLED_PLAN
+   * when configured, otherwise disable the tenant
+   */
+  private async handleSubscriptionCancelled(data: WebhookPayload['data']) {
+    const cancelledPlanKey = this.twentyConfigService.get(
+      'TENANT_CANCELLED_PLAN',
+    );
+
+    if (!isNonEmptyString(cancelledPlanKey)) {
+      return this.handleTenantDisabled(
+        {
+          ...data,
+          reason: data.reason || 'Subscription cancelled',
+        },
+        TenantDisabledCause.SUBSCRIPTION_CANCELLED,
+      );
+    }
+
+    const tenantId = await this.resolveTenantId(data);
+
+    if (!tenantId) {
+      throw new AuthException(
+        'Could not resolve tenant. Provide tenantId or tenantEmail.',
+        AuthExceptionCode.INVALID_INPUT,
+      );
+    }
+
+    const { workspace, plan } = await this.tenantPlanService.assignPlan(
+      tenantId,
+      cancelledPlanKey,
+    );
+
+    return {
+      success: true,
+      event: 'tenant.subscription.cancelled',
+      tenantId: workspace.id,
+      plan: plan.key,
+      message: `Tenant ${workspace.id} has been moved to plan ${plan.key}`,
+    };
+  }
+
   /**
    * Handle user removed event (placeholder for future implementation)
    */
@@ -203,36 +423,4 @@ export class TenantWebhookController {
 
     return null;
   }
-
-  /**
-   * Test endpoint to verify webhook configuration
-   * Returns a sample signature for testing
-   */
-  @Post('test')
-  @HttpCode(HttpStatus.OK)
-  async testWebhook(@Body() payload: Record<string, unknown>) {
-    const secret = this.webhookSignatureService.getWebhookSecret();
-
-    if (!secret) {
-      return {
-        success: false,
-        error: 'WEBHOOK_SECRET not configured',
-        message: 'Set WEBHOOK_SECRET environment variable to enable webhooks',
-      };
-    }
-
-    const payloadString = JSON.stringify(payload);
-    const signature = this.webhookSignatureService.generateSignature(payloadString);
-
-    return {
-      success: true,
-      message: 'Webhook secret is configured. Use this signature to test.',
-      testSignature: signature,
-      payload: payloadString,
-      curlExample: `curl -X POST ${process.env.SERVER_URL || 'https://your-server'}/webhooks/tenant \\
-  -H "Content-Type: application/json" \\
-  -H "x-webhook-signature: ${signature}" \\
-  -d '${payloadString}'`,
-    };
-  }
 }
@@ -0,0 +1,33 @@
+import { Command, CommandRunner } from 'nest-commander';
+
+import {
+  CLEAN_TENANT_DELETION_SNAPSHOTS_CRON_PATTERN,
+  CleanTenantDeletionSnapshotsCronJob,
+} from 'src/engine/core-modules/admin/crons/jobs/clean-tenant-deletion-snapshots.cron.job';
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+
+@Command({
+  name: 'cron:saas-admin:clean-tenant-deletion-snapshots',
+  description:
+    'Starts a cron job to delete the deletion snapshots of purged tenants once their retention period is over',
+})
+export class CleanTenantDeletionSnapshotsCronCommand extends CommandRunner {
+  constructor(
+    @InjectMessageQueue(MessageQueue.cronQueue)
+    private readonly messageQueueService: MessageQueueService,
+  ) {
+    super();
+  }
+
+  async run(): Promise<void> {
+    await this.messageQueueService.addCron<undefined>({
+      jobName: CleanTenantDeletionSnapshotsCronJob.name,
+      data: undefined,
+      options: {
+        repeat: { pattern: CLEAN_TENANT_DELETION_SNAPSHOTS_CRON_PATTERN },
+      },
+    });
+  }
+}
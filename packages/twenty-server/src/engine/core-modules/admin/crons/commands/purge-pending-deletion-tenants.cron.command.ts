@@ -0,0 +1,33 @@
+import { Command, CommandRunner } from 'nest-commander';
+
+import {
+  PURGE_PENDING_DELETION_TENANTS_CRON_PATTERN,
+  PurgePendingDeletionTenantsCronJob,
+} from 'src/engine/core-modules/admin/crons/jobs/purge-pending-deletion-tenants.cron.job';
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+
+@Command({
+  name: 'cron:saas-admin:purge-pending-deletion-tenants',
+  description:
+    'Starts a cron job to purge tenants whose deletion grace period is over',
+})
+export class PurgePendingDeletionTenantsCronCommand extends CommandRunner {
+  constructor(
+    @InjectMessageQueue(MessageQueue.cronQueue)
+    private readonly messageQueueService: MessageQueueService,
+  ) {
+    super();
+  }
+
+  async run(): Promise<void> {
+    await this.messageQueueService.addCron<undefined>({
+      jobName: PurgePendingDeletionTenantsCronJob.name,
+      data: undefined,
+      options: {
+        repeat: { pattern: PURGE_PENDING_DELETION_TENANTS_CRON_PATTERN },
+      },
+    });
+  }
+}
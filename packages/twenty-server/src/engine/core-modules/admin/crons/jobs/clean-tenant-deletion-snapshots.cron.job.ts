@@ -0,0 +1,40 @@
+import { Logger } from '@nestjs/common';
+
+import { TenantDeletionSnapshotService } from 'src/engine/core-modules/admin/services/tenant-deletion-snapshot.service';
+import { SentryCronMonitor } from 'src/engine/core-modules/cron/sentry-cron-monitor.decorator';
+import { ExceptionHandlerService } from 'src/engine/core-modules/exception-handler/exception-handler.service';
+import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
+import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+
+export const CLEAN_TENANT_DELETION_SNAPSHOTS_CRON_PATTERN = '45 2 * * *';
+
+@Processor(MessageQueue.cronQueue)
+export class CleanTenantDeletionSnapshotsCronJob {
+  private readonly logger = new Logger(
+    CleanTenantDeletionSnapshotsCronJob.name,
+  );
+
+  constructor(
+    private readonly tenantDeletionSnapshotService: TenantDeletionSnapshotService,
+    private readonly exceptionHandlerService: ExceptionHandlerService,
+  ) {}
+
+  @Process(CleanTenantDeletionSnapshotsCronJob.name)
+  @SentryCronMonitor(
+    CleanTenantDeletionSnapshotsCronJob.name,
+    CLEAN_TENANT_DELETION_SNAPSHOTS_CRON_PATTERN,
+  )
+  async handle(): Promise<void> {
+    try {
+      const deletedCount =
+        await this.tenantDeletionSnapshotService.deleteExpiredSnapshots();
+
+      this.logger.log(
+        `Deleted ${deletedCount} expired tenant deletion snapshots`,
+      );
+    } catch (error) {
+      this.exceptionHandlerService.captureExceptions([error]);
+    }
+  }
+}
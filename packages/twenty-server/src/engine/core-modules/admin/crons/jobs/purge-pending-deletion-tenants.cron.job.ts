@@ -0,0 +1,45 @@
+import { Logger } from '@nestjs/common';
+
+import { TenantAdminService } from 'src/engine/core-modules/admin/services/tenant-admin.service';
+import { SentryCronMonitor } from 'src/engine/core-modules/cron/sentry-cron-monitor.decorator';
+import { ExceptionHandlerService } from 'src/engine/core-modules/exception-handler/exception-handler.service';
+import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
+import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+
+export const PURGE_PENDING_DELETION_TENANTS_CRON_PATTERN = '30 2 * * *';
+
+@Processor(MessageQueue.cronQueue)
+export class PurgePendingDeletionTenantsCronJob {
+  private readonly logger = new Logger(PurgePendingDeletionTenantsCronJob.name);
+
+  constructor(
+    private readonly tenantAdminService: TenantAdminService,
+    private readonly exceptionHandlerService: ExceptionHandlerService,
+  ) {}
+
+  @Process(PurgePendingDeletionTenantsCronJob.name)
+  @SentryCronMonitor(
+    PurgePendingDeletionTenantsCronJob.name,
+    PURGE_PENDING_DELETION_TENANTS_CRON_PATTERN,
+  )
+  async handle(): Promise<void> {
+    const workspaces = await this.tenantAdminService.getTenantsDueForPurge();
+
+    for (const workspace of workspaces) {
+      try {
+        await this.tenantAdminService.purgeTenant(workspace.id);
+
+        this.logger.log(
+          `Purged tenant ${workspace.id} (export kept at ${workspace.deletionSnapshotPath})`,
+        );
+      } catch (error) {
+        this.exceptionHandlerService.captureExceptions([error], {
+          workspace: {
+            id: workspace.id,
+          },
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export const TENANT_DELETION_MAX_GRACE_PERIOD_DAYS = 365;
+
+export class DeleteTenantDTO {
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  // A tenant is always restorable for at least a day before its purge
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(TENANT_DELETION_MAX_GRACE_PERIOD_DAYS)
+  gracePeriodDays?: number;
+}
@@ -0,0 +1,54 @@
+import {
+  type ArgumentsHost,
+  Catch,
+  type ExceptionFilter,
+} from '@nestjs/common';
+
+import { type Response } from 'express';
+
+import {
+  TenantAdminException,
+  TenantAdminExceptionCode,
+} from 'src/engine/core-modules/admin/tenant-admin.exception';
+import { HttpExceptionHandlerService } from 'src/engine/core-modules/exception-handler/http-exception-handler.service';
+
+@Catch(TenantAdminException)
+export class TenantAdminRestApiExceptionFilter implements ExceptionFilter {
+  constructor(
+    private readonly httpExceptionHandlerService: HttpExceptionHandlerService,
+  ) {}
+
+  catch(exception: TenantAdminException, host: ArgumentsHost) {
+    const ctx = host.switchToHttp();
+    const response = ctx.getResponse<Response>();
+
+    switch (exception.code) {
+      case TenantAdminExceptionCode.TENANT_NOT_FOUND:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          404,
+        );
+      case TenantAdminExceptionCode.INVALID_SEARCH_INPUT:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          400,
+        );
+      case TenantAdminExceptionCode.TENANT_PENDING_DELETION:
+      case TenantAdminExceptionCode.TENANT_NOT_PENDING_DELETION:
+      case TenantAdminExceptionCode.GRACE_PERIOD_EXPIRED:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          409,
+        );
+      default:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          500,
+        );
+    }
+  }
+}
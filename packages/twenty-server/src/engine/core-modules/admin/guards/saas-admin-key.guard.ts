@@ -3,64 +3,116 @@ import {
     ExecutionContext,
     Injectable,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+import { isDefined } from 'twenty-shared/utils';
 
 import {
     AuthException,
     AuthExceptionCode,
 } from 'src/engine/core-modules/auth/auth.exception';
+import { SAAS_ADMIN_KEY_SCOPE_METADATA } from 'src/engine/core-modules/saas-admin-key/decorators/require-saas-admin-key-scope.decorator';
+import { type SaasAdminKeyScope } from 'src/engine/core-modules/saas-admin-key/enums/saas-admin-key-scope.enum';
+import { SaasAdminKeyService } from 'src/engine/core-modules/saas-admin-key/services/saas-admin-key.service';
 import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
 
 /**
  * Guard for SaaS Admin API Key authentication.
  *
- * This provides a master API key for the platform operator (SaaS deployer)
- * to have full programmatic access to all tenant management operations.
+ * Accepts either:
+ * - the master SAAS_ADMIN_KEY, which has every scope and is the only key
+ *   allowed on endpoints without a @RequireSaasAdminKeyScope scope
+ * - a named key created through /saas/keys, limited to its scopes and
+ *   rejected once revoked or expired
  *
  * Usage:
  *   Header: x-saas-admin-key: your-saas-admin-key
  *
- * This key should be kept extremely secret and only used by:
- * - Platform automation scripts
- * - Admin dashboards
- * - Billing system integrations
- * - Support tools
+ * Every authenticated call, allowed or not, is attributed to its key in the
+ * SaaS admin audit trail (GET /saas/audit).
  */
 @Injectable()
 export class SaasAdminKeyGuard implements CanActivate {
   private readonly HEADER_NAME = 'x-saas-admin-key';
+  private readonly MASTER_KEY_NAME = 'SAAS_ADMIN_KEY';
 
-  constructor(private readonly twentyConfigService: TwentyConfigService) {}
+  constructor(
+    private readonly twentyConfigService: TwentyConfigService,
+    private readonly saasAdminKeyService: SaasAdminKeyService,
+    private readonly reflector: Reflector,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
     const providedKey = request.headers[this.HEADER_NAME];
 
-    if (!providedKey) {
+    if (!providedKey || typeof providedKey !== 'string') {
       throw new AuthException(
         `Missing ${this.HEADER_NAME} header`,
         AuthExceptionCode.UNAUTHENTICATED,
       );
     }
 
+    const requiredScope =
+      this.reflector.get<SaasAdminKeyScope | undefined>(
+        SAAS_ADMIN_KEY_SCOPE_METADATA,
+        context.getHandler(),
+      ) ?? null;
+
+    const call = {
+      method: request.method,
+      path: request.route?.path ?? request.path,
+      scope: requiredScope,
+      tenantId: request.params?.tenantId ?? null,
+    };
+
     const saasAdminKey = this.twentyConfigService.get('SAAS_ADMIN_KEY');
 
-    if (!saasAdminKey) {
+    // Constant-time comparison to prevent timing attacks
+    if (saasAdminKey && this.secureCompare(providedKey, saasAdminKey)) {
+      await this.saasAdminKeyService.recordCall({
+        ...call,
+        keyId: null,
+        keyName: this.MASTER_KEY_NAME,
+        isAllowed: true,
+      });
+
+      // Mark request as SaaS admin authenticated
+      request.isSaasAdmin = true;
+
+      return true;
+    }
+
+    const key = await this.saasAdminKeyService.authenticate(providedKey);
+
+    if (!isDefined(key)) {
       throw new AuthException(
-        'SaaS Admin Key not configured on server',
+        'Invalid SaaS Admin Key',
         AuthExceptionCode.FORBIDDEN_EXCEPTION,
       );
     }
 
-    // Constant-time comparison to prevent timing attacks
-    if (!this.secureCompare(providedKey, saasAdminKey)) {
+    const isAllowed =
+      isDefined(requiredScope) && key.scopes.includes(requiredScope);
+
+    await this.saasAdminKeyService.recordCall({
+      ...call,
+      keyId: key.id,
+      keyName: key.name,
+      isAllowed,
+    });
+
+    if (!isAllowed) {
       throw new AuthException(
-        'Invalid SaaS Admin Key',
+        isDefined(requiredScope)
+          ? `SaaS Admin Key "${key.name}" is missing the ${requiredScope} scope`
+          : 'This endpoint requires the master SaaS Admin Key',
         AuthExceptionCode.FORBIDDEN_EXCEPTION,
       );
     }
 
-    // Mark request as SaaS admin authenticated
     request.isSaasAdmin = true;
+    request.saasAdminKey = key;
 
     return true;
   }
@@ -0,0 +1,21 @@
+import { TenantDeletionSnapshotService } from 'src/engine/core-modules/admin/services/tenant-deletion-snapshot.service';
+import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
+import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+
+export type ExportTenantDeletionSnapshotJobData = {
+  tenantId: string;
+};
+
+// A tenant is only purged once this export succeeded
+@Processor(MessageQueue.workspaceQueue)
+export class ExportTenantDeletionSnapshotJob {
+  constructor(
+    private readonly tenantDeletionSnapshotService: TenantDeletionSnapshotService,
+  ) {}
+
+  @Process(ExportTenantDeletionSnapshotJob.name)
+  async handle({ tenantId }: ExportTenantDeletionSnapshotJobData) {
+    await this.tenantDeletionSnapshotService.exportSnapshot(tenantId);
+  }
+}
@@ -0,0 +1,111 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { CrossTenantSearchService } from 'src/engine/core-modules/admin/services/cross-tenant-search.service';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { WorkspaceManyOrAllFlatEntityMapsCacheService } from 'src/engine/metadata-modules/flat-entity/services/workspace-many-or-all-flat-entity-maps-cache.service';
+import { TwentyORMGlobalManager } from 'src/engine/twenty-orm/twenty-orm-global.manager';
+
+const TENANT_COUNT = 12;
+
+const tenants = Array.from({ length: TENANT_COUNT }, (_, index) => ({
+  id: `tenant-${String(index).padStart(2, '0')}`,
+  displayName: `Tenant ${index}`,
+  subdomain: `tenant-${index}`,
+}));
+
+describe('CrossTenantSearchService', () => {
+  let service: CrossTenantSearchService;
+  let searchTenant: jest.SpyInstance;
+  let inFlightCount: number;
+  let maxInFlightCount: number;
+
+  // Later tenants answer first so the results come back out of order
+  const mockSearchTenant = (recordCountByTenantId: Record<string, number>) =>
+    searchTenant.mockImplementation(
+      async (tenant: (typeof tenants)[number], _objectName, { limit }) => {
+        inFlightCount++;
+        maxInFlightCount = Math.max(maxInFlightCount, inFlightCount);
+
+        for (let tick = tenants.indexOf(tenant); tick < TENANT_COUNT; tick++) {
+          await Promise.resolve();
+        }
+
+        inFlightCount--;
+
+        if (tenant.id === 'tenant-01') {
+          throw new Error('Object company does not exist');
+        }
+
+        return Array.from(
+          {
+            length: Math.min(recordCountByTenantId[tenant.id] ?? 1, limit),
+          },
+          (_, index) => ({
+            tenantId: tenant.id,
+            tenantName: tenant.displayName,
+            recordId: `record-${index}`,
+            recordType: 'company',
+            data: {},
+          }),
+        );
+      },
+    );
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CrossTenantSearchService,
+        {
+          provide: getRepositoryToken(WorkspaceEntity),
+          useValue: { find: jest.fn().mockResolvedValue(tenants) },
+        },
+        { provide: WorkspaceManyOrAllFlatEntityMapsCacheService, useValue: {} },
+        { provide: TwentyORMGlobalManager, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<CrossTenantSearchService>(CrossTenantSearchService);
+
+    searchTenant = jest.spyOn(service as any, 'searchTenant');
+    inFlightCount = 0;
+    maxInFlightCount = 0;
+  });
+
+  it('should search at most five tenants at the same time and keep the tenant order', async () => {
+    mockSearchTenant({});
+
+    const result = await service.search('company', { limit: 50 });
+
+    expect(maxInFlightCount).toBe(5);
+    expect(searchTenant).toHaveBeenCalledTimes(TENANT_COUNT);
+    expect(result.records.map((record) => record.tenantId)).toEqual(
+      tenants
+        .filter((tenant) => tenant.id !== 'tenant-01')
+        .map((tenant) => tenant.id),
+    );
+    expect(result.skippedTenants).toEqual([
+      { tenantId: 'tenant-01', reason: 'Object company does not exist' },
+    ]);
+    expect(result.pageInfo.hasNextPage).toBe(false);
+  });
+
+  it('should stop pulling tenants once the page is full', async () => {
+    mockSearchTenant({ 'tenant-00': 2, 'tenant-02': 5 });
+
+    const result = await service.search('company', { limit: 3 });
+
+    expect(searchTenant.mock.calls.length).toBeLessThan(TENANT_COUNT);
+    expect(
+      result.records.map((record) => [record.tenantId, record.recordId]),
+    ).toEqual([
+      ['tenant-00', 'record-0'],
+      ['tenant-00', 'record-1'],
+      ['tenant-02', 'record-0'],
+    ]);
+    expect(result.pageInfo).toEqual({
+      hasNextPage: true,
+      endCursor: expect.any(String),
+    });
+  });
+});
@@ -0,0 +1,304 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { type ObjectRecord, OrderByDirection } from 'twenty-shared/types';
+import { isDefined } from 'twenty-shared/utils';
+import { In, MoreThanOrEqual, Repository } from 'typeorm';
+
+import {
+  type ObjectRecordFilter,
+  type ObjectRecordOrderBy,
+} from 'src/engine/api/graphql/workspace-query-builder/interfaces/object-record.interface';
+
+import { GraphqlQueryParser } from 'src/engine/api/graphql/graphql-query-runner/graphql-query-parsers/graphql-query.parser';
+import {
+  TenantAdminException,
+  TenantAdminExceptionCode,
+} from 'src/engine/core-modules/admin/tenant-admin.exception';
+import { buildCrossTenantSearchFilter } from 'src/engine/core-modules/admin/utils/build-cross-tenant-search-filter.util';
+import {
+  type CrossTenantSearchCursor,
+  decodeCrossTenantSearchCursor,
+  encodeCrossTenantSearchCursor,
+} from 'src/engine/core-modules/admin/utils/cross-tenant-search-cursor.util';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { WorkspaceManyOrAllFlatEntityMapsCacheService } from 'src/engine/metadata-modules/flat-entity/services/workspace-many-or-all-flat-entity-maps-cache.service';
+import { TwentyORMGlobalManager } from 'src/engine/twenty-orm/twenty-orm-global.manager';
+
+const CROSS_TENANT_SEARCH_DEFAULT_LIMIT = 50;
+const CROSS_TENANT_SEARCH_MAX_LIMIT = 200;
+// Number of tenant schemas queried at the same time
+const CROSS_TENANT_SEARCH_CONCURRENCY = 5;
+
+export type CrossTenantRecord = {
+  tenantId: string;
+  tenantName: string;
+  recordId: string;
+  recordType: string;
+  data: Record<string, unknown>;
+};
+
+export type CrossTenantSearchOptions = {
+  tenantIds?: string[];
+  // Same shape as the GraphQL API record filter, e.g.
+  // { and: [{ city: { eq: 'Paris' } }, { createdAt: { gte: '2025-01-01' } }] }
+  filter?: ObjectRecordFilter;
+  search?: string;
+  limit?: number;
+  cursor?: string;
+};
+
+export type CrossTenantSearchResult = {
+  records: CrossTenantRecord[];
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  // Tenants where the search could not run, e.g. a custom object or field
+  // used in the filter that only exists in some workspaces
+  skippedTenants: Array<{ tenantId: string; reason: string }>;
+};
+
+type SearchedTenant = Pick<WorkspaceEntity, 'id' | 'displayName' | 'subdomain'>;
+
+type TenantSearchOutcome =
+  | { records: CrossTenantRecord[] }
+  | { skippedReason: string };
+
+/**
+ * Searches any standard or custom object across tenants. Each tenant is
+ * queried through the workspace ORM with its own field metadata, so filters
+ * are parsed the same way as in the record APIs. Results are ordered by
+ * tenant then record id. CROSS_TENANT_SEARCH_CONCURRENCY workers pull the next
+ * tenant from a shared iterator until the tenants searched in order fill the
+ * page.
+ */
+@Injectable()
+export class CrossTenantSearchService {
+  private readonly logger = new Logger(CrossTenantSearchService.name);
+
+  constructor(
+    @InjectRepository(WorkspaceEntity)
+    private readonly workspaceRepository: Repository<WorkspaceEntity>,
+    private readonly flatEntityMapsCacheService: WorkspaceManyOrAllFlatEntityMapsCacheService,
+    private readonly twentyORMGlobalManager: TwentyORMGlobalManager,
+  ) {}
+
+  async search(
+    objectNameSingular: string,
+    options: CrossTenantSearchOptions = {},
+  ): Promise<CrossTenantSearchResult> {
+    const limit = Math.min(
+      options.limit ?? CROSS_TENANT_SEARCH_DEFAULT_LIMIT,
+      CROSS_TENANT_SEARCH_MAX_LIMIT,
+    );
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new TenantAdminException(
+        `Invalid limit: ${options.limit}`,
+        TenantAdminExceptionCode.INVALID_SEARCH_INPUT,
+      );
+    }
+
+    const cursor = isDefined(options.cursor)
+      ? decodeCrossTenantSearchCursor(options.cursor)
+      : undefined;
+
+    const tenants = await this.workspaceRepository.find({
+      where: {
+        isDisabled: false,
+        ...(options.tenantIds?.length
+          ? { id: In(options.tenantIds) }
+          : isDefined(cursor)
+            ? { id: MoreThanOrEqual(cursor.tenantId) }
+            : {}),
+      },
+      select: ['id', 'displayName', 'subdomain'],
+      order: { id: 'ASC' },
+    });
+
+    const searchedTenants = tenants.filter(
+      (tenant) => !isDefined(cursor) || tenant.id >= cursor.tenantId,
+    );
+    const outcomes: TenantSearchOutcome[] = [];
+    const tenantIndexes = searchedTenants.keys();
+
+    // Leading tenants already searched and their record count. One extra
+    // record tells whether there is a next page.
+    let searchedInOrderCount = 0;
+    let searchedInOrderRecordCount = 0;
+    const isPageFull = () => searchedInOrderRecordCount > limit;
+
+    const worker = async () => {
+      for (const tenantIndex of tenantIndexes) {
+        if (isPageFull()) {
+          return;
+        }
+
+        const tenant = searchedTenants[tenantIndex];
+
+        outcomes[tenantIndex] = await this.searchTenant(
+          tenant,
+          objectNameSingular,
+          {
+            filter: options.filter,
+            search: options.search,
+            // Tenants before this one hold at least these records
+            limit: limit + 1 - searchedInOrderRecordCount,
+            cursor,
+          },
+        )
+          .then((records) => ({ records }))
+          .catch((error: Error) => {
+            this.logger.warn(
+              `Could not search ${objectNameSingular} in tenant ${tenant.id}: ${error.message}`,
+            );
+
+            return { skippedReason: error.message };
+          });
+
+        while (!isPageFull() && isDefined(outcomes[searchedInOrderCount])) {
+          const outcome = outcomes[searchedInOrderCount];
+
+          searchedInOrderRecordCount +=
+            'records' in outcome ? outcome.records.length : 0;
+          searchedInOrderCount++;
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: CROSS_TENANT_SEARCH_CONCURRENCY }, worker),
+    );
+
+    const records: CrossTenantRecord[] = [];
+    const skippedTenants: CrossTenantSearchResult['skippedTenants'] = [];
+
+    for (const [tenantIndex, outcome] of outcomes
+      .slice(0, searchedInOrderCount)
+      .entries()) {
+      if ('records' in outcome) {
+        records.push(...outcome.records);
+      } else {
+        skippedTenants.push({
+          tenantId: searchedTenants[tenantIndex].id,
+          reason: outcome.skippedReason,
+        });
+      }
+    }
+
+    const page = records.slice(0, limit);
+    const lastRecord = page[page.length - 1];
+
+    return {
+      records: page,
+      pageInfo: {
+        hasNextPage: records.length > limit,
+        endCursor: isDefined(lastRecord)
+          ? encodeCrossTenantSearchCursor({
+              tenantId: lastRecord.tenantId,
+              recordId: lastRecord.recordId,
+            })
+          : null,
+      },
+      skippedTenants,
+    };
+  }
+
+  private async searchTenant(
+    tenant: SearchedTenant,
+    objectNameSingular: string,
+    {
+      filter,
+      search,
+      limit,
+      cursor,
+    }: {
+      filter?: ObjectRecordFilter;
+      search?: string;
+      limit: number;
+      cursor?: CrossTenantSearchCursor;
+    },
+  ): Promise<CrossTenantRecord[]> {
+    const { flatObjectMetadataMaps, flatFieldMetadataMaps } =
+      await this.flatEntityMapsCacheService.getOrRecomputeManyOrAllFlatEntityMaps(
+        {
+          workspaceId: tenant.id,
+          flatMapsKeys: ['flatObjectMetadataMaps', 'flatFieldMetadataMaps'],
+        },
+      );
+
+    const flatObjectMetadata = Object.values(flatObjectMetadataMaps.byId).find(
+      (flatObjectMetadata) =>
+        flatObjectMetadata?.isActive === true &&
+        flatObjectMetadata.nameSingular === objectNameSingular,
+    );
+
+    if (!isDefined(flatObjectMetadata)) {
+      throw new Error(`Object ${objectNameSingular} does not exist`);
+    }
+
+    const conditions: ObjectRecordFilter[] = [];
+
+    if (isDefined(filter) && Object.keys(filter).length > 0) {
+      conditions.push(filter);
+    }
+
+    if (isDefined(search) && search !== '') {
+      const searchFilter = buildCrossTenantSearchFilter(
+        flatObjectMetadata,
+        flatFieldMetadataMaps,
+        search,
+      );
+
+      if (!isDefined(searchFilter)) {
+        throw new Error(`Object ${objectNameSingular} has no searchable field`);
+      }
+
+      conditions.push(searchFilter);
+    }
+
+    if (isDefined(cursor) && cursor.tenantId === tenant.id) {
+      conditions.push({ id: { gt: cursor.recordId } });
+    }
+
+    const appliedFilter: ObjectRecordFilter =
+      conditions.length > 0 ? { and: conditions } : {};
+
+    const queryParser = new GraphqlQueryParser(
+      flatObjectMetadata,
+      flatObjectMetadataMaps,
+      flatFieldMetadataMaps,
+    );
+
+    const repository =
+      await this.twentyORMGlobalManager.getRepositoryForWorkspace(
+        tenant.id,
+        objectNameSingular,
+        { shouldBypassPermissionChecks: true },
+      );
+
+    const queryBuilder = repository.createQueryBuilder(objectNameSingular);
+
+    queryParser.applyFilterToBuilder(
+      queryBuilder,
+      objectNameSingular,
+      appliedFilter,
+    );
+    queryParser.applyDeletedAtToBuilder(queryBuilder, appliedFilter);
+    queryParser.applyOrderToBuilder(
+      queryBuilder,
+      [{ id: OrderByDirection.AscNullsFirst }] as ObjectRecordOrderBy,
+      objectNameSingular,
+    );
+
+    const records = (await queryBuilder
+      .take(limit)
+      .getMany()) as ObjectRecord[];
+
+    return records.map((record) => ({
+      tenantId: tenant.id,
+      tenantName: tenant.displayName || tenant.subdomain,
+      recordId: record.id,
+      recordType: objectNameSingular,
+      data: record,
+    }));
+  }
+}
@@ -0,0 +1,220 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { DataSource } from 'typeorm';
+
+import { ExportTenantDeletionSnapshotJob } from 'src/engine/core-modules/admin/jobs/export-tenant-deletion-snapshot.job';
+import { TenantAdminService } from 'src/engine/core-modules/admin/services/tenant-admin.service';
+import { TenantDeletionSnapshotService } from 'src/engine/core-modules/admin/services/tenant-deletion-snapshot.service';
+import { TenantAdminExceptionCode } from 'src/engine/core-modules/admin/tenant-admin.exception';
+import { FileStorageService } from 'src/engine/core-modules/file-storage/file-storage.service';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { getQueueToken } from 'src/engine/core-modules/message-queue/utils/get-queue-token.util';
+import { TenantLifecycleEventService } from 'src/engine/core-modules/tenant-lifecycle-event/services/tenant-lifecycle-event.service';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
+import { UserEntity } from 'src/engine/core-modules/user/user.entity';
+import { TenantDisabledCause } from 'src/engine/core-modules/workspace/enums/tenant-disabled-cause.enum';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+const ONE_DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+describe('TenantAdminService', () => {
+  let service: TenantAdminService;
+  let workspaceRepository: {
+    findOne: jest.Mock;
+    save: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
+  let userWorkspaceRepository: { delete: jest.Mock };
+  let tenantDeletionSnapshotService: {
+    deleteTenantSnapshots: jest.Mock;
+    markTenantSnapshotsPurged: jest.Mock;
+  };
+  let fileStorageService: { checkFolderExists: jest.Mock; delete: jest.Mock };
+  let messageQueueService: { add: jest.Mock };
+
+  beforeEach(async () => {
+    workspaceRepository = {
+      findOne: jest.fn(),
+      save: jest.fn(async (workspace) => ({ ...workspace })),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+    userWorkspaceRepository = { delete: jest.fn() };
+    tenantDeletionSnapshotService = {
+      deleteTenantSnapshots: jest.fn(),
+      markTenantSnapshotsPurged: jest.fn(),
+    };
+    fileStorageService = {
+      checkFolderExists: jest.fn().mockResolvedValue(true),
+      delete: jest.fn(),
+    };
+    messageQueueService = { add: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantAdminService,
+        {
+          provide: getRepositoryToken(WorkspaceEntity),
+          useValue: workspaceRepository,
+        },
+        {
+          provide: getRepositoryToken(UserWorkspaceEntity),
+          useValue: userWorkspaceRepository,
+        },
+        {
+          provide: getRepositoryToken(UserEntity),
+          useValue: {},
+        },
+        {
+          provide: DataSource,
+          useValue: { query: jest.fn() },
+        },
+        {
+          provide: TenantDeletionSnapshotService,
+          useValue: tenantDeletionSnapshotService,
+        },
+        {
+          provide: FileStorageService,
+          useValue: fileStorageService,
+        },
+        {
+          provide: getQueueToken(MessageQueue.workspaceQueue),
+          useValue: messageQueueService,
+        },
+        {
+          provide: TwentyConfigService,
+          useValue: { get: jest.fn().mockReturnValue(30) },
+        },
+        {
+          provide: TenantLifecycleEventService,
+          useValue: { emit: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TenantAdminService>(TenantAdminService);
+  });
+
+  describe('scheduleTenantDeletion', () => {
+    it('should disable the tenant, queue its export and schedule its purge', async () => {
+      workspaceRepository.findOne.mockResolvedValue({
+        id: 'tenant-id',
+        isDisabled: false,
+      });
+
+      const workspace = await service.scheduleTenantDeletion('tenant-id', {
+        gracePeriodDays: 7,
+      });
+
+      expect(messageQueueService.add).toHaveBeenCalledWith(
+        ExportTenantDeletionSnapshotJob.name,
+        { tenantId: 'tenant-id' },
+        { retryLimit: 3 },
+      );
+      expect(workspace.isDisabled).toBe(true);
+      expect(workspace.disabledCause).toBe(
+        TenantDisabledCause.PENDING_DELETION,
+      );
+      expect(workspace.deletionSnapshotPath).toBeNull();
+      expect(
+        workspace.purgeScheduledAt!.getTime() -
+          workspace.pendingDeletionAt!.getTime(),
+      ).toBe(7 * ONE_DAY_IN_MS);
+    });
+
+    it('should throw when the tenant is already pending deletion', async () => {
+      workspaceRepository.findOne.mockResolvedValue({
+        id: 'tenant-id',
+        pendingDeletionAt: new Date(),
+      });
+
+      await expect(
+        service.scheduleTenantDeletion('tenant-id'),
+      ).rejects.toMatchObject({
+        code: TenantAdminExceptionCode.TENANT_PENDING_DELETION,
+      });
+    });
+  });
+
+  describe('restoreTenant', () => {
+    it('should re-enable a tenant disabled by its deletion', async () => {
+      const pendingDeletionAt = new Date();
+
+      workspaceRepository.findOne.mockResolvedValue({
+        id: 'tenant-id',
+        isDisabled: true,
+        disabledAt: new Date(pendingDeletionAt),
+        disabledCause: TenantDisabledCause.PENDING_DELETION,
+        pendingDeletionAt,
+        purgeScheduledAt: new Date(Date.now() + ONE_DAY_IN_MS),
+      });
+
+      const workspace = await service.restoreTenant('tenant-id');
+
+      expect(workspace.isDisabled).toBe(false);
+      expect(workspace.pendingDeletionAt).toBeNull();
+      expect(workspace.purgeScheduledAt).toBeNull();
+      expect(
+        tenantDeletionSnapshotService.deleteTenantSnapshots,
+      ).toHaveBeenCalledWith('tenant-id');
+    });
+
+    it('should keep a tenant disabled if it was disabled before its deletion', async () => {
+      workspaceRepository.findOne.mockResolvedValue({
+        id: 'tenant-id',
+        isDisabled: true,
+        disabledAt: new Date(Date.now() - ONE_DAY_IN_MS),
+        disabledCause: TenantDisabledCause.OPERATOR,
+        pendingDeletionAt: new Date(),
+        purgeScheduledAt: new Date(Date.now() + ONE_DAY_IN_MS),
+      });
+
+      const workspace = await service.restoreTenant('tenant-id');
+
+      expect(workspace.isDisabled).toBe(true);
+      expect(workspace.pendingDeletionAt).toBeNull();
+    });
+
+    it('should throw once the grace period is over', async () => {
+      workspaceRepository.findOne.mockResolvedValue({
+        id: 'tenant-id',
+        isDisabled: true,
+        pendingDeletionAt: new Date(Date.now() - 2 * ONE_DAY_IN_MS),
+        purgeScheduledAt: new Date(Date.now() - ONE_DAY_IN_MS),
+      });
+
+      await expect(service.restoreTenant('tenant-id')).rejects.toMatchObject({
+        code: TenantAdminExceptionCode.GRACE_PERIOD_EXPIRED,
+      });
+    });
+
+    it('should throw when the tenant does not exist', async () => {
+      workspaceRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.restoreTenant('tenant-id')).rejects.toMatchObject({
+        code: TenantAdminExceptionCode.TENANT_NOT_FOUND,
+      });
+    });
+  });
+
+  describe('purgeTenant', () => {
+    it('should delete the tenant files and start the retention of its snapshots', async () => {
+      const tenantId = '20202020-0000-4000-8000-00000000000a';
+
+      workspaceRepository.findOne.mockResolvedValue({ id: tenantId });
+
+      await service.purgeTenant(tenantId);
+
+      expect(fileStorageService.delete).toHaveBeenCalledWith({
+        folderPath: `workspace-${tenantId}`,
+      });
+      expect(workspaceRepository.delete).toHaveBeenCalledWith({ id: tenantId });
+      expect(
+        tenantDeletionSnapshotService.markTenantSnapshotsPurged,
+      ).toHaveBeenCalledWith(tenantId);
+    });
+  });
+});
@@ -1,14 +1,34 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 
-import { DataSource, In, Repository } from 'typeorm';
-
+import { isDefined } from 'twenty-shared/utils';
+import { DataSource, IsNull, LessThanOrEqual, Not, Repository } from 'typeorm';
+
+import {
+  ExportTenantDeletionSnapshotJob,
+  type ExportTenantDeletionSnapshotJobData,
+} from 'src/engine/core-modules/admin/jobs/export-tenant-deletion-snapshot.job';
+import { TenantDeletionSnapshotService } from 'src/engine/core-modules/admin/services/tenant-deletion-snapshot.service';
+import {
+  TenantAdminException,
+  TenantAdminExceptionCode,
+} from 'src/engine/core-modules/admin/tenant-admin.exception';
+import { FileStorageService } from 'src/engine/core-modules/file-storage/file-storage.service';
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import { TenantLifecycleEventType } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-type.enum';
+import { TenantLifecycleEventService } from 'src/engine/core-modules/tenant-lifecycle-event/services/tenant-lifecycle-event.service';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
 import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
 import { UserEntity } from 'src/engine/core-modules/user/user.entity';
 import { SubscriptionTier } from 'src/engine/core-modules/workspace/enums/subscription-tier.enum';
+import { TenantDisabledCause } from 'src/engine/core-modules/workspace/enums/tenant-disabled-cause.enum';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { getWorkspaceSchemaName } from 'src/engine/workspace-datasource/utils/get-workspace-schema-name.util';
 
+const ONE_DAY_IN_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Tenant summary - simplified, no tier limits (everyone gets full access)
  */
@@ -31,20 +51,19 @@ export type TenantDetails = TenantSummary & {
   }>;
   disabledAt?: Date;
   disabledReason?: string;
+  disabledCause?: TenantDisabledCause | null;
+  pendingDeletionAt?: Date | null;
+  purgeScheduledAt?: Date | null;
+  deletionSnapshotPath?: string | null;
+  planKey?: string | null;
+  maxUsers: number;
+  storageQuotaMb: number;
   adminNotes?: string;
   contactCount?: number;
   companyCount?: number;
   opportunityCount?: number;
 };
 
-export type CrossTenantRecord = {
-  tenantId: string;
-  tenantName: string;
-  recordId: string;
-  recordType: string;
-  data: Record<string, unknown>;
-};
-
 @Injectable()
 export class TenantAdminService {
   constructor(
@@ -55,6 +74,12 @@ export class TenantAdminService {
     @InjectRepository(UserEntity)
     private readonly userRepository: Repository<UserEntity>,
     private readonly dataSource: DataSource,
+    private readonly tenantDeletionSnapshotService: TenantDeletionSnapshotService,
+    private readonly fileStorageService: FileStorageService,
+    private readonly twentyConfigService: TwentyConfigService,
+    private readonly tenantLifecycleEventService: TenantLifecycleEventService,
+    @InjectMessageQueue(MessageQueue.workspaceQueue)
+    private readonly messageQueueService: MessageQueueService,
   ) {}
 
   /**
@@ -150,7 +175,10 @@ export class TenantAdminService {
       }
     } catch (error) {
       // Schema might not exist yet or tables might not exist
-      console.warn(`Could not get record counts for tenant ${tenantId}:`, error);
+      console.warn(
+        `Could not get record counts for tenant ${tenantId}:`,
+        error,
+      );
     }
 
     return {
@@ -161,6 +189,13 @@ export class TenantAdminService {
       isDisabled: workspace.isDisabled,
       disabledAt: workspace.disabledAt,
       disabledReason: workspace.disabledReason,
+      disabledCause: workspace.disabledCause,
+      pendingDeletionAt: workspace.pendingDeletionAt,
+      purgeScheduledAt: workspace.purgeScheduledAt,
+      deletionSnapshotPath: workspace.deletionSnapshotPath,
+      planKey: workspace.planKey,
+      maxUsers: workspace.maxUsers,
+      storageQuotaMb: workspace.storageQuotaMb,
       userCount: users.length,
       adminNotes: workspace.adminNotes,
       users,
@@ -173,7 +208,11 @@ export class TenantAdminService {
   /**
    * Disable a tenant
    */
-  async disableTenant(tenantId: string, reason?: string): Promise<WorkspaceEntity> {
+  async disableTenant(
+    tenantId: string,
+    reason?: string,
+    cause: TenantDisabledCause = TenantDisabledCause.OPERATOR,
+  ): Promise<WorkspaceEntity> {
     const workspace = await this.workspaceRepository.findOneOrFail({
       where: { id: tenantId },
     });
@@ -181,8 +220,17 @@ export class TenantAdminService {
     workspace.isDisabled = true;
     workspace.disabledAt = new Date();
     workspace.disabledReason = reason;
+    workspace.disabledCause = cause;
 
-    return this.workspaceRepository.save(workspace);
+    const savedWorkspace = await this.workspaceRepository.save(workspace);
+
+    await this.tenantLifecycleEventService.emit(
+      TenantLifecycleEventType.TENANT_DISABLED,
+      tenantId,
+      { reason: reason ?? null },
+    );
+
+    return savedWorkspace;
   }
 
   /**
@@ -193,9 +241,17 @@ export class TenantAdminService {
       where: { id: tenantId },
     });
 
+    if (isDefined(workspace.pendingDeletionAt)) {
+      throw new TenantAdminException(
+        `Tenant ${tenantId} is pending deletion, restore it instead`,
+        TenantAdminExceptionCode.TENANT_PENDING_DELETION,
+      );
+    }
+
     workspace.isDisabled = false;
     workspace.disabledAt = undefined;
     workspace.disabledReason = undefined;
+    workspace.disabledCause = null;
 
     return this.workspaceRepository.save(workspace);
   }
@@ -205,7 +261,10 @@ export class TenantAdminService {
   /**
    * Update admin notes for a tenant
    */
-  async updateAdminNotes(tenantId: string, notes: string): Promise<WorkspaceEntity> {
+  async updateAdminNotes(
+    tenantId: string,
+    notes: string,
+  ): Promise<WorkspaceEntity> {
     const workspace = await this.workspaceRepository.findOneOrFail({
       where: { id: tenantId },
     });
@@ -215,79 +274,6 @@ export class TenantAdminService {
     return this.workspaceRepository.save(workspace);
   }
 
-  /**
-   * Query records across all tenants (for super admin)
-   * This queries each tenant's schema and aggregates results
-   */
-  async queryCrossTenantRecords(
-    recordType: 'person' | 'company' | 'opportunity',
-    options?: {
-      tenantIds?: string[];
-      limit?: number;
-      offset?: number;
-      search?: string;
-    },
-  ): Promise<{ records: CrossTenantRecord[]; total: number }> {
-    const limit = options?.limit || 50;
-    const offset = options?.offset || 0;
-
-    // Get all active workspaces (or filtered by tenantIds)
-    const whereCondition: Record<string, unknown> = { isDisabled: false };
-    if (options?.tenantIds?.length) {
-      whereCondition.id = In(options.tenantIds);
-    }
-
-    const workspaces = await this.workspaceRepository.find({
-      where: whereCondition,
-      select: ['id', 'displayName', 'subdomain'],
-    });
-
-    const allRecords: CrossTenantRecord[] = [];
-
-    // Query each tenant's schema
-    for (const workspace of workspaces) {
-      const schemaName = getWorkspaceSchemaName(workspace.id);
-
-      try {
-        let query = `SELECT * FROM "${schemaName}"."${recordType}"`;
-        const params: string[] = [];
-
-        if (options?.search && recordType === 'person') {
-          query += ` WHERE "name" ->> 'firstName' ILIKE $1 OR "name" ->> 'lastName' ILIKE $1 OR "email" ILIKE $1`;
-          params.push(`%${options.search}%`);
-        } else if (options?.search && recordType === 'company') {
-          query += ` WHERE "name" ILIKE $1`;
-          params.push(`%${options.search}%`);
-        }
-
-        query += ` LIMIT 100`; // Limit per tenant to avoid memory issues
-
-        const records = await this.dataSource.query(query, params);
-
-        for (const record of records) {
-          allRecords.push({
-            tenantId: workspace.id,
-            tenantName: workspace.displayName || workspace.subdomain,
-            recordId: record.id,
-            recordType,
-            data: record,
-          });
-        }
-      } catch (error) {
-        // Schema or table might not exist
-        console.warn(`Could not query ${recordType} for tenant ${workspace.id}:`, error);
-      }
-    }
-
-    // Sort by tenant name, then apply pagination
-    allRecords.sort((a, b) => a.tenantName.localeCompare(b.tenantName));
-
-    return {
-      records: allRecords.slice(offset, offset + limit),
-      total: allRecords.length,
-    };
-  }
-
   /**
    * Create a new tenant (workspace) with an initial admin user
    */
@@ -304,7 +290,12 @@ export class TenantAdminService {
     const { email, displayName, subdomain, firstName, lastName } = params;
 
     // Generate subdomain from email if not provided
-    const workspaceSubdomain = subdomain || email.split('@')[0].toLowerCase().replace(/[^a-z0-9]/g, '');
+    const workspaceSubdomain =
+      subdomain ||
+      email
+        .split('@')[0]
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, '');
     const workspaceDisplayName = displayName || workspaceSubdomain;
 
     // Check if subdomain already exists
@@ -350,8 +341,19 @@ export class TenantAdminService {
       userId: user.id,
       workspaceId: savedWorkspace.id,
     });
+
     await this.userWorkspaceRepository.save(userWorkspace);
 
+    await this.tenantLifecycleEventService.emit(
+      TenantLifecycleEventType.TENANT_CREATED,
+      savedWorkspace.id,
+      {
+        subdomain: savedWorkspace.subdomain,
+        displayName: savedWorkspace.displayName,
+        adminEmail: user.email,
+      },
+    );
+
     return {
       workspace: savedWorkspace,
       user,
@@ -359,32 +361,154 @@ export class TenantAdminService {
   }
 
   /**
-   * Delete a tenant (workspace) permanently
-   * WARNING: This is destructive and cannot be undone
+   * Schedule a tenant for deletion
+   * The tenant is disabled right away and exported to file storage by a
+   * queued job, it is only purged once the grace period is over and the
+   * export succeeded so it can still be restored
    */
-  async deleteTenant(tenantId: string): Promise<{ success: boolean; message: string }> {
-    const workspace = await this.workspaceRepository.findOne({
-      where: { id: tenantId },
-    });
+  async scheduleTenantDeletion(
+    tenantId: string,
+    options?: { reason?: string; gracePeriodDays?: number },
+  ): Promise<WorkspaceEntity> {
+    const workspace = await this.getTenantOrThrow(tenantId);
+
+    if (isDefined(workspace.pendingDeletionAt)) {
+      throw new TenantAdminException(
+        `Tenant ${tenantId} is already pending deletion`,
+        TenantAdminExceptionCode.TENANT_PENDING_DELETION,
+      );
+    }
 
-    if (!workspace) {
-      throw new Error(`Tenant ${tenantId} not found`);
+    const pendingDeletionAt = new Date();
+    const gracePeriodDays =
+      options?.gracePeriodDays ??
+      this.twentyConfigService.get('TENANT_DELETION_GRACE_PERIOD_DAYS');
+
+    // Disable first so the export is not racing with writes from the tenant
+    if (!workspace.isDisabled) {
+      workspace.isDisabled = true;
+      workspace.disabledAt = pendingDeletionAt;
+      workspace.disabledReason = options?.reason ?? 'Pending deletion';
+      workspace.disabledCause = TenantDisabledCause.PENDING_DELETION;
+    }
+    workspace.pendingDeletionAt = pendingDeletionAt;
+    workspace.purgeScheduledAt = new Date(
+      pendingDeletionAt.getTime() + gracePeriodDays * ONE_DAY_IN_MS,
+    );
+    workspace.deletionSnapshotPath = null;
+
+    const savedWorkspace = await this.workspaceRepository.save(workspace);
+
+    await this.messageQueueService.add<ExportTenantDeletionSnapshotJobData>(
+      ExportTenantDeletionSnapshotJob.name,
+      { tenantId },
+      { retryLimit: 3 },
+    );
+
+    return savedWorkspace;
+  }
+
+  /**
+   * Restore a tenant that is pending deletion, within its grace period
+   * The tenant is re-enabled unless it was already disabled before deletion
+   */
+  async restoreTenant(tenantId: string): Promise<WorkspaceEntity> {
+    const workspace = await this.getTenantOrThrow(tenantId);
+
+    if (!isDefined(workspace.pendingDeletionAt)) {
+      throw new TenantAdminException(
+        `Tenant ${tenantId} is not pending deletion`,
+        TenantAdminExceptionCode.TENANT_NOT_PENDING_DELETION,
+      );
+    }
+
+    if (
+      isDefined(workspace.purgeScheduledAt) &&
+      workspace.purgeScheduledAt.getTime() <= Date.now()
+    ) {
+      throw new TenantAdminException(
+        `Grace period of tenant ${tenantId} is over`,
+        TenantAdminExceptionCode.GRACE_PERIOD_EXPIRED,
+      );
+    }
+
+    const wasDisabledByDeletion =
+      workspace.disabledCause === TenantDisabledCause.PENDING_DELETION;
+
+    workspace.pendingDeletionAt = null;
+    workspace.purgeScheduledAt = null;
+    workspace.deletionSnapshotPath = null;
+
+    if (wasDisabledByDeletion) {
+      workspace.isDisabled = false;
+      workspace.disabledAt = undefined;
+      workspace.disabledReason = undefined;
+      workspace.disabledCause = null;
     }
 
+    const savedWorkspace = await this.workspaceRepository.save(workspace);
+
+    await this.tenantDeletionSnapshotService.deleteTenantSnapshots(tenantId);
+
+    return savedWorkspace;
+  }
+
+  /**
+   * Get tenants whose grace period is over and whose export succeeded
+   */
+  async getTenantsDueForPurge(): Promise<WorkspaceEntity[]> {
+    return this.workspaceRepository.find({
+      where: {
+        pendingDeletionAt: Not(IsNull()),
+        purgeScheduledAt: LessThanOrEqual(new Date()),
+        deletionSnapshotPath: Not(IsNull()),
+      },
+      select: ['id', 'deletionSnapshotPath'],
+    });
+  }
+
+  /**
+   * Delete a tenant (workspace) permanently
+   * WARNING: This is destructive and cannot be undone
+   */
+  async purgeTenant(
+    tenantId: string,
+  ): Promise<{ success: boolean; message: string }> {
+    await this.getTenantOrThrow(tenantId);
+
     // Remove all user-workspace associations
     await this.userWorkspaceRepository.delete({ workspaceId: tenantId });
 
     // Drop the workspace schema if it exists
     const schemaName = getWorkspaceSchemaName(tenantId);
+
     try {
-      await this.dataSource.query(`DROP SCHEMA IF EXISTS "${schemaName}" CASCADE`);
+      await this.dataSource.query(
+        `DROP SCHEMA IF EXISTS "${schemaName}" CASCADE`,
+      );
     } catch (error) {
       console.warn(`Failed to drop schema ${schemaName}:`, error);
     }
 
+    // Delete the uploaded files, the deletion snapshot is kept apart
+    const workspaceFolderPath = `workspace-${tenantId}`;
+
+    if (await this.fileStorageService.checkFolderExists(workspaceFolderPath)) {
+      await this.fileStorageService.delete({ folderPath: workspaceFolderPath });
+    }
+
     // Delete the workspace
     await this.workspaceRepository.delete({ id: tenantId });
 
+    await this.tenantDeletionSnapshotService.markTenantSnapshotsPurged(
+      tenantId,
+    );
+
+    await this.tenantLifecycleEventService.emit(
+      TenantLifecycleEventType.TENANT_DELETED,
+      tenantId,
+    );
+
     return {
       success: true,
       message: `Tenant ${tenantId} deleted permanently`,
@@ -430,4 +554,19 @@ export class TenantAdminService {
       tenantsByTier,
     };
   }
+
+  private async getTenantOrThrow(tenantId: string): Promise<WorkspaceEntity> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: tenantId },
+    });
+
+    if (!workspace) {
+      throw new TenantAdminException(
+        `Tenant ${tenantId} not found`,
+        TenantAdminExceptionCode.TENANT_NOT_FOUND,
+      );
+    }
+
+    return workspace;
+  }
 }
@@ -0,0 +1,130 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { TenantDeletionSnapshotService } from 'src/engine/core-modules/admin/services/tenant-deletion-snapshot.service';
+import { TenantDeletionSnapshotEntity } from 'src/engine/core-modules/admin/tenant-deletion-snapshot.entity';
+import { FileStorageService } from 'src/engine/core-modules/file-storage/file-storage.service';
+import { TenantArchiveExportService } from 'src/engine/core-modules/tenant-archive/services/tenant-archive-export.service';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+const ARCHIVE_PATH = 'tenant-exports/tenant-id/export.zip';
+
+describe('TenantDeletionSnapshotService', () => {
+  let service: TenantDeletionSnapshotService;
+  let tenantDeletionSnapshotRepository: {
+    insert: jest.Mock;
+    find: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
+  let workspaceRepository: { findOne: jest.Mock; update: jest.Mock };
+  let tenantArchiveExportService: { exportTenant: jest.Mock };
+  let fileStorageService: { delete: jest.Mock };
+
+  beforeEach(async () => {
+    tenantDeletionSnapshotRepository = {
+      insert: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+    workspaceRepository = {
+      findOne: jest.fn().mockResolvedValue({
+        id: 'tenant-id',
+        pendingDeletionAt: new Date(),
+        deletionSnapshotPath: null,
+      }),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    tenantArchiveExportService = {
+      exportTenant: jest.fn().mockResolvedValue({ archivePath: ARCHIVE_PATH }),
+    };
+    fileStorageService = { delete: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantDeletionSnapshotService,
+        {
+          provide: getRepositoryToken(TenantDeletionSnapshotEntity),
+          useValue: tenantDeletionSnapshotRepository,
+        },
+        {
+          provide: getRepositoryToken(WorkspaceEntity),
+          useValue: workspaceRepository,
+        },
+        {
+          provide: TenantArchiveExportService,
+          useValue: tenantArchiveExportService,
+        },
+        { provide: FileStorageService, useValue: fileStorageService },
+        {
+          provide: TwentyConfigService,
+          useValue: { get: jest.fn().mockReturnValue(90) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(TenantDeletionSnapshotService);
+  });
+
+  describe('exportSnapshot', () => {
+    it('should export the tenant and record its snapshot', async () => {
+      await service.exportSnapshot('tenant-id');
+
+      expect(tenantDeletionSnapshotRepository.insert).toHaveBeenCalledWith({
+        tenantId: 'tenant-id',
+        archivePath: ARCHIVE_PATH,
+      });
+      expect(workspaceRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'tenant-id' }),
+        { deletionSnapshotPath: ARCHIVE_PATH },
+      );
+      expect(fileStorageService.delete).not.toHaveBeenCalled();
+    });
+
+    it('should not export a tenant that is no longer pending deletion', async () => {
+      workspaceRepository.findOne.mockResolvedValue({
+        id: 'tenant-id',
+        pendingDeletionAt: null,
+      });
+
+      await service.exportSnapshot('tenant-id');
+
+      expect(tenantArchiveExportService.exportTenant).not.toHaveBeenCalled();
+    });
+
+    it('should delete the snapshot of a tenant restored during the export', async () => {
+      workspaceRepository.update.mockResolvedValue({ affected: 0 });
+      tenantDeletionSnapshotRepository.find.mockResolvedValue([
+        { id: 'snapshot-id', tenantId: 'tenant-id', archivePath: ARCHIVE_PATH },
+      ]);
+
+      await service.exportSnapshot('tenant-id');
+
+      expect(fileStorageService.delete).toHaveBeenCalledWith({
+        folderPath: 'tenant-exports/tenant-id',
+        filename: 'export.zip',
+      });
+      expect(tenantDeletionSnapshotRepository.delete).toHaveBeenCalledWith({
+        id: 'snapshot-id',
+      });
+    });
+  });
+
+  describe('deleteExpiredSnapshots', () => {
+    it('should delete the snapshots purged before the retention period', async () => {
+      tenantDeletionSnapshotRepository.find.mockResolvedValue([
+        { id: 'snapshot-id', tenantId: 'tenant-id', archivePath: ARCHIVE_PATH },
+      ]);
+
+      const deletedCount = await service.deleteExpiredSnapshots();
+
+      expect(deletedCount).toBe(1);
+      expect(fileStorageService.delete).toHaveBeenCalledWith({
+        folderPath: 'tenant-exports/tenant-id',
+        filename: 'export.zip',
+      });
+    });
+  });
+});
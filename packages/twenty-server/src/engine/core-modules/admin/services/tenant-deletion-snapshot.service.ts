@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { posix } from 'path';
+
+import { isDefined } from 'twenty-shared/utils';
+import { IsNull, LessThan, Not, Repository } from 'typeorm';
+
+import { TenantDeletionSnapshotEntity } from 'src/engine/core-modules/admin/tenant-deletion-snapshot.entity';
+import { FileStorageService } from 'src/engine/core-modules/file-storage/file-storage.service';
+import { TenantArchiveExportService } from 'src/engine/core-modules/tenant-archive/services/tenant-archive-export.service';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+const ONE_DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Archives exported before a tenant deletion, see
+ * TenantDeletionSnapshotEntity for their lifecycle
+ */
+@Injectable()
+export class TenantDeletionSnapshotService {
+  private readonly logger = new Logger(TenantDeletionSnapshotService.name);
+
+  constructor(
+    @InjectRepository(TenantDeletionSnapshotEntity)
+    private readonly tenantDeletionSnapshotRepository: Repository<TenantDeletionSnapshotEntity>,
+    @InjectRepository(WorkspaceEntity)
+    private readonly workspaceRepository: Repository<WorkspaceEntity>,
+    private readonly tenantArchiveExportService: TenantArchiveExportService,
+    private readonly fileStorageService: FileStorageService,
+    private readonly twentyConfigService: TwentyConfigService,
+  ) {}
+
+  /**
+   * Export a tenant pending deletion, nothing is done for a tenant that was
+   * restored or already exported by a previous attempt
+   */
+  async exportSnapshot(tenantId: string): Promise<void> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: tenantId },
+    });
+
+    if (
+      !isDefined(workspace?.pendingDeletionAt) ||
+      isDefined(workspace.deletionSnapshotPath)
+    ) {
+      return;
+    }
+
+    const { archivePath } =
+      await this.tenantArchiveExportService.exportTenant(tenantId);
+
+    await this.tenantDeletionSnapshotRepository.insert({
+      tenantId,
+      archivePath,
+    });
+
+    const { affected } = await this.workspaceRepository.update(
+      { id: tenantId, pendingDeletionAt: Not(IsNull()) },
+      { deletionSnapshotPath: archivePath },
+    );
+
+    // The tenant was restored during the export
+    if (!affected) {
+      await this.deleteTenantSnapshots(tenantId);
+    }
+  }
+
+  /**
+   * Delete the snapshots of a tenant that was restored
+   */
+  async deleteTenantSnapshots(tenantId: string): Promise<void> {
+    const snapshots = await this.tenantDeletionSnapshotRepository.find({
+      where: { tenantId, purgedAt: IsNull() },
+    });
+
+    for (const snapshot of snapshots) {
+      await this.deleteSnapshot(snapshot);
+    }
+  }
+
+  /**
+   * Start the retention period of the snapshots of a purged tenant
+   */
+  async markTenantSnapshotsPurged(tenantId: string): Promise<void> {
+    await this.tenantDeletionSnapshotRepository.update(
+      { tenantId, purgedAt: IsNull() },
+      { purgedAt: new Date() },
+    );
+  }
+
+  async deleteExpiredSnapshots(): Promise<number> {
+    const retentionDays = this.twentyConfigService.get(
+      'TENANT_DELETION_SNAPSHOT_RETENTION_DAYS',
+    );
+    const snapshots = await this.tenantDeletionSnapshotRepository.find({
+      where: {
+        purgedAt: LessThan(
+          new Date(Date.now() - retentionDays * ONE_DAY_IN_MS),
+        ),
+      },
+    });
+
+    for (const snapshot of snapshots) {
+      await this.deleteSnapshot(snapshot);
+    }
+
+    return snapshots.length;
+  }
+
+  private async deleteSnapshot(
+    snapshot: TenantDeletionSnapshotEntity,
+  ): Promise<void> {
+    await this.fileStorageService.delete({
+      folderPath: posix.dirname(snapshot.archivePath),
+      filename: posix.basename(snapshot.archivePath),
+    });
+
+    await this.tenantDeletionSnapshotRepository.delete({ id: snapshot.id });
+
+    this.logger.log(
+      `Deleted deletion snapshot ${snapshot.archivePath} of tenant ${snapshot.tenantId}`,
+    );
+  }
+}
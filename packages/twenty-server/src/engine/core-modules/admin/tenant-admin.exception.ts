@@ -0,0 +1,11 @@
+import { CustomException } from 'src/utils/custom-exception';
+
+export class TenantAdminException extends CustomException<TenantAdminExceptionCode> {}
+
+export enum TenantAdminExceptionCode {
+  TENANT_NOT_FOUND = 'TENANT_NOT_FOUND',
+  TENANT_PENDING_DELETION = 'TENANT_PENDING_DELETION',
+  TENANT_NOT_PENDING_DELETION = 'TENANT_NOT_PENDING_DELETION',
+  GRACE_PERIOD_EXPIRED = 'GRACE_PERIOD_EXPIRED',
+  INVALID_SEARCH_INPUT = 'INVALID_SEARCH_INPUT',
+}
@@ -0,0 +1,32 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+// Archive exported when a tenant is scheduled for deletion. It outlives the
+// tenant so that a purged tenant can still be imported back, until it is
+// removed TENANT_DELETION_SNAPSHOT_RETENTION_DAYS after the purge. The
+// snapshot of a restored tenant is removed right away.
+@Entity({ name: 'tenantDeletionSnapshot', schema: 'core' })
+@Index('IDX_TENANT_DELETION_SNAPSHOT_TENANT_ID', ['tenantId'])
+@Index('IDX_TENANT_DELETION_SNAPSHOT_PURGED_AT', ['purgedAt'])
+export class TenantDeletionSnapshotEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Not a foreign key, the workspace is deleted by the purge
+  @Column({ type: 'uuid', nullable: false })
+  tenantId: string;
+
+  @Column({ type: 'varchar', nullable: false })
+  archivePath: string;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  purgedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,100 @@
+import { FieldMetadataType } from 'twenty-shared/types';
+
+import { buildCrossTenantSearchFilter } from 'src/engine/core-modules/admin/utils/build-cross-tenant-search-filter.util';
+import { type FlatEntityMaps } from 'src/engine/metadata-modules/flat-entity/types/flat-entity-maps.type';
+import { type FlatFieldMetadata } from 'src/engine/metadata-modules/flat-field-metadata/types/flat-field-metadata.type';
+import { type FlatObjectMetadata } from 'src/engine/metadata-modules/flat-object-metadata/types/flat-object-metadata.type';
+
+const buildFlatFieldMetadataMaps = (
+  fields: Array<Pick<FlatFieldMetadata, 'id' | 'name' | 'type' | 'isActive'>>,
+) =>
+  ({
+    byId: Object.fromEntries(fields.map((field) => [field.id, field])),
+    idByUniversalIdentifier: {},
+    universalIdentifiersByApplicationId: {},
+  }) as unknown as FlatEntityMaps<FlatFieldMetadata>;
+
+const buildFlatObjectMetadata = (
+  fieldMetadataIds: string[],
+  labelIdentifierFieldMetadataId: string | null,
+) =>
+  ({
+    fieldMetadataIds,
+    labelIdentifierFieldMetadataId,
+  }) as unknown as FlatObjectMetadata;
+
+describe('buildCrossTenantSearchFilter', () => {
+  const flatFieldMetadataMaps = buildFlatFieldMetadataMaps([
+    {
+      id: 'name-id',
+      name: 'name',
+      type: FieldMetadataType.FULL_NAME,
+      isActive: true,
+    },
+    {
+      id: 'emails-id',
+      name: 'emails',
+      type: FieldMetadataType.EMAILS,
+      isActive: true,
+    },
+    {
+      id: 'city-id',
+      name: 'city',
+      type: FieldMetadataType.TEXT,
+      isActive: true,
+    },
+    {
+      id: 'old-emails-id',
+      name: 'oldEmails',
+      type: FieldMetadataType.EMAILS,
+      isActive: false,
+    },
+  ]);
+
+  it('should match the label identifier and email fields', () => {
+    expect(
+      buildCrossTenantSearchFilter(
+        buildFlatObjectMetadata(
+          ['name-id', 'emails-id', 'city-id', 'old-emails-id'],
+          'name-id',
+        ),
+        flatFieldMetadataMaps,
+        'jane',
+      ),
+    ).toEqual({
+      or: [
+        { name: { firstName: { ilike: '%jane%' } } },
+        { name: { lastName: { ilike: '%jane%' } } },
+        { emails: { primaryEmail: { ilike: '%jane%' } } },
+      ],
+    });
+  });
+
+  it('should only match text fields used as label identifier', () => {
+    expect(
+      buildCrossTenantSearchFilter(
+        buildFlatObjectMetadata(['city-id'], 'city-id'),
+        flatFieldMetadataMaps,
+        'paris',
+      ),
+    ).toEqual({ or: [{ city: { ilike: '%paris%' } }] });
+
+    expect(
+      buildCrossTenantSearchFilter(
+        buildFlatObjectMetadata(['city-id'], null),
+        flatFieldMetadataMaps,
+        'paris',
+      ),
+    ).toBeUndefined();
+  });
+
+  it('should escape like wildcards', () => {
+    expect(
+      buildCrossTenantSearchFilter(
+        buildFlatObjectMetadata(['city-id'], 'city-id'),
+        flatFieldMetadataMaps,
+        '100%_sure',
+      ),
+    ).toEqual({ or: [{ city: { ilike: '%100\\%\\_sure%' } }] });
+  });
+});
@@ -0,0 +1,53 @@
+import { FieldMetadataType } from 'twenty-shared/types';
+
+import { type ObjectRecordFilter } from 'src/engine/api/graphql/workspace-query-builder/interfaces/object-record.interface';
+
+import { getFlatFieldsFromFlatObjectMetadata } from 'src/engine/api/graphql/workspace-schema-builder/utils/get-flat-fields-for-flat-object-metadata.util';
+import { type FlatEntityMaps } from 'src/engine/metadata-modules/flat-entity/types/flat-entity-maps.type';
+import { type FlatFieldMetadata } from 'src/engine/metadata-modules/flat-field-metadata/types/flat-field-metadata.type';
+import { type FlatObjectMetadata } from 'src/engine/metadata-modules/flat-object-metadata/types/flat-object-metadata.type';
+
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+// Free-text search matches the label identifier field (TEXT or FULL_NAME)
+// and every email field of the object, as named in the tenant's metadata.
+// Returns undefined when the object has nothing searchable.
+export const buildCrossTenantSearchFilter = (
+  flatObjectMetadata: FlatObjectMetadata,
+  flatFieldMetadataMaps: FlatEntityMaps<FlatFieldMetadata>,
+  search: string,
+): ObjectRecordFilter | undefined => {
+  const ilike = `%${escapeLikePattern(search)}%`;
+
+  const conditions = getFlatFieldsFromFlatObjectMetadata(
+    flatObjectMetadata,
+    flatFieldMetadataMaps,
+  )
+    .filter((field) => field.isActive)
+    .flatMap((field): ObjectRecordFilter[] => {
+      const isLabelIdentifier =
+        field.id === flatObjectMetadata.labelIdentifierFieldMetadataId;
+
+      switch (field.type) {
+        case FieldMetadataType.TEXT:
+          return isLabelIdentifier ? [{ [field.name]: { ilike } }] : [];
+        case FieldMetadataType.FULL_NAME:
+          return isLabelIdentifier
+            ? [
+                { [field.name]: { firstName: { ilike } } },
+                { [field.name]: { lastName: { ilike } } },
+              ]
+            : [];
+        case FieldMetadataType.EMAILS:
+          return [{ [field.name]: { primaryEmail: { ilike } } }];
+        default:
+          return [];
+      }
+    });
+
+  if (conditions.length === 0) {
+    return undefined;
+  }
+
+  return { or: conditions };
+};
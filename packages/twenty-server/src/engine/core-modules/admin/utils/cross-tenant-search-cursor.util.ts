@@ -0,0 +1,44 @@
+import { isNonEmptyString } from '@sniptt/guards';
+
+import {
+  TenantAdminException,
+  TenantAdminExceptionCode,
+} from 'src/engine/core-modules/admin/tenant-admin.exception';
+
+// Cross-tenant results are ordered by tenant id then record id, so the
+// last returned pair is enough to resume the search
+export type CrossTenantSearchCursor = {
+  tenantId: string;
+  recordId: string;
+};
+
+export const encodeCrossTenantSearchCursor = (
+  cursor: CrossTenantSearchCursor,
+): string => Buffer.from(JSON.stringify(cursor)).toString('base64');
+
+export const decodeCrossTenantSearchCursor = (
+  cursor: string,
+): CrossTenantSearchCursor => {
+  let decodedCursor: Partial<CrossTenantSearchCursor> | undefined;
+
+  try {
+    decodedCursor = JSON.parse(Buffer.from(cursor, 'base64').toString());
+  } catch {
+    decodedCursor = undefined;
+  }
+
+  if (
+    !isNonEmptyString(decodedCursor?.tenantId) ||
+    !isNonEmptyString(decodedCursor?.recordId)
+  ) {
+    throw new TenantAdminException(
+      `Invalid cursor: ${cursor}`,
+      TenantAdminExceptionCode.INVALID_SEARCH_INPUT,
+    );
+  }
+
+  return {
+    tenantId: decodedCursor.tenantId,
+    recordId: decodedCursor.recordId,
+  };
+};
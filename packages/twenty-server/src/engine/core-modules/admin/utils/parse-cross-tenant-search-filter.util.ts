@@ -0,0 +1,34 @@
+import { isNonEmptyString, isObject } from '@sniptt/guards';
+
+import { type ObjectRecordFilter } from 'src/engine/api/graphql/workspace-query-builder/interfaces/object-record.interface';
+
+import {
+  TenantAdminException,
+  TenantAdminExceptionCode,
+} from 'src/engine/core-modules/admin/tenant-admin.exception';
+
+// The filter is passed as a JSON query parameter
+export const parseCrossTenantSearchFilter = (
+  filter?: string,
+): ObjectRecordFilter | undefined => {
+  if (!isNonEmptyString(filter)) {
+    return undefined;
+  }
+
+  let parsedFilter: unknown;
+
+  try {
+    parsedFilter = JSON.parse(filter);
+  } catch {
+    parsedFilter = undefined;
+  }
+
+  if (!isObject(parsedFilter) || Array.isArray(parsedFilter)) {
+    throw new TenantAdminException(
+      `Invalid filter, expected a JSON object: ${filter}`,
+      TenantAdminExceptionCode.INVALID_SEARCH_INPUT,
+    );
+  }
+
+  return parsedFilter as ObjectRecordFilter;
+};
@@ -13,6 +13,7 @@ export const AuthExceptionCode = appendCommonExceptionCode({
   EMAIL_NOT_VERIFIED: 'EMAIL_NOT_VERIFIED',
   CLIENT_NOT_FOUND: 'CLIENT_NOT_FOUND',
   WORKSPACE_NOT_FOUND: 'WORKSPACE_NOT_FOUND',
+  WORKSPACE_SUSPENDED: 'WORKSPACE_SUSPENDED',
   INVALID_INPUT: 'INVALID_INPUT',
   FORBIDDEN_EXCEPTION: 'FORBIDDEN_EXCEPTION',
   INSUFFICIENT_SCOPES: 'INSUFFICIENT_SCOPES',
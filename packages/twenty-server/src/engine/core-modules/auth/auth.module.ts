@@ -50,11 +50,13 @@ import { UserWorkspaceModule } from 'src/engine/core-modules/user-workspace/user
 import { UserEntity } from 'src/engine/core-modules/user/user.entity';
 import { UserModule } from 'src/engine/core-modules/user/user.module';
 import { WorkspaceInvitationModule } from 'src/engine/core-modules/workspace-invitation/workspace-invitation.module';
+import { WorkspaceQuotaModule } from 'src/engine/core-modules/workspace-quota/workspace-quota.module';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { WorkspaceModule } from 'src/engine/core-modules/workspace/workspace.module';
 import { DataSourceModule } from 'src/engine/metadata-modules/data-source/data-source.module';
 import { ObjectMetadataEntity } from 'src/engine/metadata-modules/object-metadata/object-metadata.entity';
 import { PermissionsModule } from 'src/engine/metadata-modules/permissions/permissions.module';
+import { RoleEntity } from 'src/engine/metadata-modules/role/role.entity';
 import { UserRoleModule } from 'src/engine/metadata-modules/user-role/user-role.module';
 import { WorkspaceCacheModule } from 'src/engine/workspace-cache/workspace-cache.module';
 import { WorkspaceDataSourceModule } from 'src/engine/workspace-datasource/workspace-datasource.module';
@@ -72,7 +74,10 @@ import { AuthResolver } from './auth.resolver';
 import { SupabaseAuthController } from './controllers/supabase-auth.controller';
 import { AuthService } from './services/auth.service';
 import { SupabaseAuthService } from './services/supabase-auth.service';
+import { SupabaseJwksService } from './services/supabase-jwks.service';
+import { SupabaseMembershipSyncService } from './services/supabase-membership-sync.service';
 import { JwtAuthStrategy } from './strategies/jwt.auth.strategy';
+import { SupabaseAuthStrategy } from './strategies/supabase.auth.strategy';
 
 @Module({
   imports: [
@@ -95,6 +100,7 @@ import { JwtAuthStrategy } from './strategies/jwt.auth.strategy';
       UserWorkspaceEntity,
       TwoFactorAuthenticationMethodEntity,
       ObjectMetadataEntity,
+      RoleEntity,
     ]),
     HttpModule,
     UserWorkspaceModule,
@@ -118,6 +124,7 @@ import { JwtAuthStrategy } from './strategies/jwt.auth.strategy';
     DomainServerConfigModule,
     ApplicationModule,
     WorkspaceCacheModule,
+    WorkspaceQuotaModule,
   ],
   controllers: [
     GoogleAuthController,
@@ -153,6 +160,9 @@ import { JwtAuthStrategy } from './strategies/jwt.auth.strategy';
     TransientTokenService,
     AuthSsoService,
     SupabaseAuthService,
+    SupabaseJwksService,
+    SupabaseAuthStrategy,
+    SupabaseMembershipSyncService,
   ],
   exports: [
     AccessTokenService,
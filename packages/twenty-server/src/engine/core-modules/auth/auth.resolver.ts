@@ -65,6 +65,7 @@ import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user
 import { UserWorkspaceService } from 'src/engine/core-modules/user-workspace/user-workspace.service';
 import { UserService } from 'src/engine/core-modules/user/services/user.service';
 import { UserEntity } from 'src/engine/core-modules/user/user.entity';
+import { WorkspaceQuotaGraphqlApiExceptionFilter } from 'src/engine/core-modules/workspace-quota/utils/workspace-quota-graphql-api-exception.filter';
 import { AuthProviderEnum } from 'src/engine/core-modules/workspace/types/workspace.type';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { AuthProvider } from 'src/engine/decorators/auth/auth-provider.decorator';
@@ -98,6 +99,7 @@ import { AuthService } from './services/auth.service';
   PermissionsGraphqlApiExceptionFilter,
   EmailVerificationExceptionFilter,
   TwoFactorAuthenticationExceptionFilter,
+  WorkspaceQuotaGraphqlApiExceptionFilter,
   PreventNestToAutoLogGraphqlErrorsFilter,
 )
 export class AuthResolver {
@@ -14,6 +14,7 @@ import {
 } from 'src/engine/core-modules/auth/auth.exception';
 import { AuthService } from 'src/engine/core-modules/auth/services/auth.service';
 import { SupabaseAuthService } from 'src/engine/core-modules/auth/services/supabase-auth.service';
+import { SupabaseMembershipSyncService } from 'src/engine/core-modules/auth/services/supabase-membership-sync.service';
 import { LoginTokenService } from 'src/engine/core-modules/auth/token/services/login-token.service';
 import { AuthProviderEnum } from 'src/engine/core-modules/workspace/types/workspace.type';
 
@@ -33,6 +34,7 @@ export class SupabaseAuthController {
     private readonly supabaseAuthService: SupabaseAuthService,
     private readonly authService: AuthService,
     private readonly loginTokenService: LoginTokenService,
+    private readonly supabaseMembershipSyncService: SupabaseMembershipSyncService,
   ) {}
 
   /**
@@ -70,11 +72,22 @@ export class SupabaseAuthController {
     );
 
     // Sync user from Supabase to Twenty (includes admin flag sync)
-    const user = await this.supabaseAuthService.syncUserFromSupabase(
+    const syncedUser = await this.supabaseAuthService.syncUserFromSupabase(
       supabaseAuthContext,
       supabaseUser,
     );
 
+    // Sync workspace memberships and roles from the app_metadata tenant claim
+    await this.supabaseMembershipSyncService.syncMemberships(
+      syncedUser,
+      supabaseUser.app_metadata,
+    );
+
+    const user =
+      (await this.supabaseAuthService.findUserBySupabaseId(
+        supabaseAuthContext.supabaseUserId,
+      )) ?? syncedUser;
+
     // Check if user has access to the requested workspace
     let targetWorkspaceId = workspaceId;
 
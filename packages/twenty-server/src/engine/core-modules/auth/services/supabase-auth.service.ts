@@ -8,7 +8,9 @@ import {
   AuthException,
   AuthExceptionCode,
 } from 'src/engine/core-modules/auth/auth.exception';
+import { SupabaseJwksService } from 'src/engine/core-modules/auth/services/supabase-jwks.service';
 import { type SupabaseAuthContext } from 'src/engine/core-modules/auth/strategies/supabase.auth.strategy';
+import { getSupabaseAuthContextFromJwtPayload } from 'src/engine/core-modules/auth/utils/get-supabase-auth-context-from-jwt-payload.util';
 import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
 import { PrimaryAuthProvider } from 'src/engine/core-modules/user/enums/primary-auth-provider.enum';
 import { UserEntity } from 'src/engine/core-modules/user/user.entity';
@@ -37,6 +39,7 @@ export class SupabaseAuthService {
     private readonly twentyConfigService: TwentyConfigService,
     @InjectRepository(UserEntity)
     private readonly userRepository: Repository<UserEntity>,
+    private readonly supabaseJwksService: SupabaseJwksService,
   ) {
     this.initializeSupabaseClient();
   }
@@ -81,20 +84,25 @@ export class SupabaseAuthService {
    * 3. app_metadata.can_impersonate = true
    * 4. Email is in ADMIN_EMAILS config (comma-separated list)
    */
-  private extractAdminFlags(
-    supabaseUser: { app_metadata?: Record<string, unknown>; email?: string },
-  ): SupabaseAdminFlags {
+  private extractAdminFlags(supabaseUser: {
+    app_metadata?: Record<string, unknown>;
+    email?: string;
+  }): SupabaseAdminFlags {
     const appMetadata = supabaseUser.app_metadata || {};
     const email = supabaseUser.email?.toLowerCase() || '';
 
     // Check app_metadata for admin role
     const role = appMetadata.role as string | undefined;
-    const isAdminRole = ['admin', 'super_admin', 'platform_admin'].includes(role || '');
+    const isAdminRole = ['admin', 'super_admin', 'platform_admin'].includes(
+      role || '',
+    );
     const isAdminFlag = appMetadata.is_admin === true;
     const canImpersonateFlag = appMetadata.can_impersonate === true;
 
     // Check if email is in admin emails list
-    const adminEmailsConfig = this.twentyConfigService.get('ADMIN_EMAILS') as string | undefined;
+    const adminEmailsConfig = this.twentyConfigService.get('ADMIN_EMAILS') as
+      | string
+      | undefined;
     const adminEmails = adminEmailsConfig
       ? adminEmailsConfig.split(',').map((e) => e.trim().toLowerCase())
       : [];
@@ -102,7 +110,11 @@ export class SupabaseAuthService {
 
     // Determine admin privileges
     const isAdmin = isAdminRole || isAdminFlag || isEmailAdmin;
-    const canImpersonate = canImpersonateFlag || role === 'super_admin' || role === 'platform_admin' || isEmailAdmin;
+    const canImpersonate =
+      canImpersonateFlag ||
+      role === 'super_admin' ||
+      role === 'platform_admin' ||
+      isEmailAdmin;
 
     return {
       canImpersonate,
@@ -113,7 +125,9 @@ export class SupabaseAuthService {
   /**
    * Find a Twenty user by their Supabase user ID
    */
-  async findUserBySupabaseId(supabaseUserId: string): Promise<UserEntity | null> {
+  async findUserBySupabaseId(
+    supabaseUserId: string,
+  ): Promise<UserEntity | null> {
     return this.userRepository.findOne({
       where: { supabaseUserId },
       relations: { userWorkspaces: true },
@@ -138,13 +152,17 @@ export class SupabaseAuthService {
     supabaseAuthContext: SupabaseAuthContext,
     supabaseUser?: { app_metadata?: Record<string, unknown>; email?: string },
   ): Promise<UserEntity> {
-    const { supabaseUserId, email, firstName, lastName, picture, isEmailVerified } =
-      supabaseAuthContext;
+    const {
+      supabaseUserId,
+      email,
+      firstName,
+      lastName,
+      picture,
+      isEmailVerified,
+    } = supabaseAuthContext;
 
     // Extract admin flags from Supabase metadata
-    const adminFlags = this.extractAdminFlags(
-      supabaseUser || { email },
-    );
+    const adminFlags = this.extractAdminFlags(supabaseUser || { email });
 
     // First, try to find by Supabase ID
     let user = await this.findUserBySupabaseId(supabaseUserId);
@@ -227,39 +245,15 @@ export class SupabaseAuthService {
   }
 
   /**
-   * Validate a Supabase access token using the Supabase Admin API
+   * Validate a Supabase access token against the project's signing keys
+   * (JWKS) or its legacy shared secret
    */
   async validateSupabaseToken(
     accessToken: string,
   ): Promise<SupabaseAuthContext> {
-    const client = this.getSupabaseClient();
-
-    const { data, error } = await client.auth.getUser(accessToken);
-
-    if (error || !data.user) {
-      throw new AuthException(
-        error?.message || 'Invalid Supabase token',
-        AuthExceptionCode.INVALID_INPUT,
-      );
-    }
-
-    const user = data.user;
+    const payload = await this.supabaseJwksService.verifyToken(accessToken);
 
-    // Parse name from user metadata
-    const fullName =
-      user.user_metadata?.full_name || user.user_metadata?.name || '';
-    const nameParts = fullName.split(' ');
-    const firstName = nameParts[0] || '';
-    const lastName = nameParts.slice(1).join(' ') || '';
-
-    return {
-      supabaseUserId: user.id,
-      email: (user.email || '').toLowerCase(),
-      firstName,
-      lastName,
-      picture: user.user_metadata?.picture || user.user_metadata?.avatar_url,
-      isEmailVerified: user.email_confirmed_at !== null,
-    };
+    return getSupabaseAuthContextFromJwtPayload(payload);
   }
 
   /**
@@ -0,0 +1,162 @@
+import { HttpModule } from '@nestjs/axios';
+import { Test, type TestingModule } from '@nestjs/testing';
+
+import { generateKeyPairSync } from 'crypto';
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+
+import { sign, verify } from 'jsonwebtoken';
+
+import { SupabaseJwksService } from 'src/engine/core-modules/auth/services/supabase-jwks.service';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+
+const generateSigningKey = (kid: string, type: 'ec' | 'rsa') => {
+  const { privateKey, publicKey } =
+    type === 'ec'
+      ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  return {
+    kid,
+    privateKey,
+    jwk: { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig' },
+  };
+};
+
+describe('SupabaseJwksService', () => {
+  let service: SupabaseJwksService;
+  let server: Server;
+  let jwks: { keys: object[] };
+  let requestCount: number;
+
+  const ecKey = generateSigningKey('ec-key', 'ec');
+  const rsaKey = generateSigningKey('rsa-key', 'rsa');
+
+  // Local stand-in for the Supabase JWKS endpoint
+  beforeAll(async () => {
+    server = createServer((_request, response) => {
+      requestCount++;
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify(jwks));
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    jwks = { keys: [ecKey.jwk, rsaKey.jwk] };
+    requestCount = 0;
+
+    const config: Record<string, unknown> = {
+      SUPABASE_JWKS_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/auth/v1/.well-known/jwks.json`,
+      SUPABASE_JWKS_CACHE_TTL_SECONDS: 600,
+      SUPABASE_JWT_SECRET: 'legacy-secret',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [HttpModule],
+      providers: [
+        SupabaseJwksService,
+        {
+          provide: TwentyConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(SupabaseJwksService);
+  });
+
+  it.each([
+    ['ES256', ecKey],
+    ['RS256', rsaKey],
+  ])(
+    'should verify %s tokens with the key matching their kid',
+    async (algorithm, signingKey) => {
+      const token = sign({ sub: 'user-id' }, signingKey.privateKey, {
+        algorithm: algorithm as 'ES256' | 'RS256',
+        keyid: signingKey.kid,
+      });
+
+      const key = await service.getSigningKey(signingKey.kid);
+
+      expect(verify(token, key)).toMatchObject({ sub: 'user-id' });
+    },
+  );
+
+  it('should serve keys from the cache', async () => {
+    await service.getSigningKey('ec-key');
+    await service.getSigningKey('rsa-key');
+
+    expect(requestCount).toBe(1);
+  });
+
+  it('should pick up a rotated key without waiting for the cache to expire', async () => {
+    await service.getSigningKey('ec-key');
+
+    const rotatedKey = generateSigningKey('rotated-key', 'ec');
+
+    jwks = { keys: [rotatedKey.jwk] };
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60_000);
+
+    await expect(service.getSigningKey('rotated-key')).resolves.toBeDefined();
+    expect(requestCount).toBe(2);
+  });
+
+  it('should reject an unknown kid', async () => {
+    await expect(service.getSigningKey('unknown-key')).rejects.toThrow(
+      'No Supabase signing key matches kid unknown-key',
+    );
+  });
+
+  describe('verifyToken', () => {
+    it('should verify a token signed with a JWKS key', async () => {
+      const token = sign({ sub: 'user-id' }, ecKey.privateKey, {
+        algorithm: 'ES256',
+        keyid: ecKey.kid,
+      });
+
+      await expect(service.verifyToken(token)).resolves.toMatchObject({
+        sub: 'user-id',
+      });
+    });
+
+    it('should verify a token signed with the legacy shared secret', async () => {
+      const token = sign({ sub: 'user-id' }, 'legacy-secret', {
+        algorithm: 'HS256',
+      });
+
+      await expect(service.verifyToken(token)).resolves.toMatchObject({
+        sub: 'user-id',
+      });
+    });
+
+    it('should reject a token signed with another secret', async () => {
+      const token = sign({ sub: 'user-id' }, 'other-secret', {
+        algorithm: 'HS256',
+      });
+
+      await expect(service.verifyToken(token)).rejects.toThrow(
+        'Invalid Supabase token: invalid signature',
+      );
+    });
+
+    it('should reject an asymmetric token without kid', async () => {
+      const token = sign({ sub: 'user-id' }, rsaKey.privateKey, {
+        algorithm: 'RS256',
+      });
+
+      await expect(service.verifyToken(token)).rejects.toThrow(
+        'Invalid Supabase token: missing kid header',
+      );
+    });
+  });
+});
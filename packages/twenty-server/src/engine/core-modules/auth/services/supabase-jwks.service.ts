@@ -0,0 +1,181 @@
+import { HttpService } from '@nestjs/axios';
+import { Injectable, Logger } from '@nestjs/common';
+
+import { createPublicKey, type JsonWebKey, type KeyObject } from 'crypto';
+
+import { isNonEmptyString } from '@sniptt/guards';
+import { type Algorithm, decode, verify } from 'jsonwebtoken';
+import { isDefined } from 'twenty-shared/utils';
+
+import {
+  AuthException,
+  AuthExceptionCode,
+} from 'src/engine/core-modules/auth/auth.exception';
+import { type SupabaseJwtPayload } from 'src/engine/core-modules/auth/strategies/supabase.auth.strategy';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+
+export const SUPABASE_ASYMMETRIC_ALGORITHMS: Algorithm[] = ['ES256', 'RS256'];
+
+type SupabaseJwk = JsonWebKey & { kid?: string; use?: string; alg?: string };
+
+/**
+ * Signing keys of a Supabase project using asymmetric JWT keys (ES256 or
+ * RS256), read from its JWKS document.
+ *
+ * Keys are cached for SUPABASE_JWKS_CACHE_TTL_SECONDS. A token signed with
+ * an unknown kid refreshes the document early, so that rotated keys are
+ * picked up without a restart, at most once per MIN_REFRESH_INTERVAL_MS.
+ *
+ * Tokens signed with the legacy shared SUPABASE_JWT_SECRET (HS256) are
+ * verified with it while a project migrates to signing keys. The key is
+ * chosen from the token's alg header: the shared secret is only ever used
+ * for HS256, and JWKS keys only for ES256 / RS256.
+ */
+@Injectable()
+export class SupabaseJwksService {
+  private readonly logger = new Logger(SupabaseJwksService.name);
+  private readonly MIN_REFRESH_INTERVAL_MS = 30_000;
+
+  private keysByKid = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private pendingRefresh: Promise<void> | null = null;
+
+  constructor(
+    private readonly twentyConfigService: TwentyConfigService,
+    private readonly httpService: HttpService,
+  ) {}
+
+  getJwksUrl(): string | null {
+    const jwksUrl = this.twentyConfigService.get('SUPABASE_JWKS_URL');
+
+    if (isNonEmptyString(jwksUrl)) {
+      return jwksUrl;
+    }
+
+    const supabaseUrl = this.twentyConfigService.get('SUPABASE_URL');
+
+    return isNonEmptyString(supabaseUrl)
+      ? `${supabaseUrl.replace(/\/$/, '')}/auth/v1/.well-known/jwks.json`
+      : null;
+  }
+
+  async getSigningKey(kid: string): Promise<KeyObject> {
+    const cacheAgeMs = Date.now() - this.fetchedAt;
+    const isCacheExpired =
+      cacheAgeMs >
+      this.twentyConfigService.get('SUPABASE_JWKS_CACHE_TTL_SECONDS') * 1000;
+    const isUnknownKid =
+      !this.keysByKid.has(kid) && cacheAgeMs > this.MIN_REFRESH_INTERVAL_MS;
+
+    if (isCacheExpired || isUnknownKid) {
+      await this.refresh();
+    }
+
+    const key = this.keysByKid.get(kid);
+
+    if (!isDefined(key)) {
+      throw new AuthException(
+        `No Supabase signing key matches kid ${kid}`,
+        AuthExceptionCode.UNAUTHENTICATED,
+      );
+    }
+
+    return key;
+  }
+
+  async getVerificationKey(rawJwtToken: string): Promise<KeyObject | string> {
+    const header = decode(rawJwtToken, { complete: true })?.header;
+
+    if (
+      SUPABASE_ASYMMETRIC_ALGORITHMS.some(
+        (algorithm) => algorithm === header?.alg,
+      )
+    ) {
+      if (!isNonEmptyString(header?.kid)) {
+        throw new AuthException(
+          'Invalid Supabase token: missing kid header',
+          AuthExceptionCode.UNAUTHENTICATED,
+        );
+      }
+
+      return this.getSigningKey(header.kid);
+    }
+
+    const supabaseJwtSecret = this.twentyConfigService.get(
+      'SUPABASE_JWT_SECRET',
+    );
+
+    if (header?.alg !== 'HS256' || !isNonEmptyString(supabaseJwtSecret)) {
+      throw new AuthException(
+        `Unsupported Supabase token algorithm: ${header?.alg}`,
+        AuthExceptionCode.UNAUTHENTICATED,
+      );
+    }
+
+    return supabaseJwtSecret;
+  }
+
+  async verifyToken(rawJwtToken: string): Promise<SupabaseJwtPayload> {
+    const key = await this.getVerificationKey(rawJwtToken);
+
+    try {
+      return verify(rawJwtToken, key, {
+        algorithms: ['HS256', ...SUPABASE_ASYMMETRIC_ALGORITHMS],
+      }) as SupabaseJwtPayload;
+    } catch (error) {
+      throw new AuthException(
+        `Invalid Supabase token: ${error instanceof Error ? error.message : String(error)}`,
+        AuthExceptionCode.UNAUTHENTICATED,
+      );
+    }
+  }
+
+  // Concurrent callers share one request. On failure the previous keys are
+  // kept, so that a JWKS outage does not reject tokens signed with them.
+  private async refresh(): Promise<void> {
+    this.pendingRefresh ??= this.fetchKeys().finally(() => {
+      this.pendingRefresh = null;
+    });
+
+    await this.pendingRefresh;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const jwksUrl = this.getJwksUrl();
+
+    if (!isDefined(jwksUrl)) {
+      throw new AuthException(
+        'SUPABASE_JWKS_URL or SUPABASE_URL must be configured to validate asymmetric Supabase tokens',
+        AuthExceptionCode.INVALID_INPUT,
+      );
+    }
+
+    try {
+      const { data } = await this.httpService.axiosRef.get<{
+        keys?: SupabaseJwk[];
+      }>(jwksUrl, { timeout: 5_000 });
+
+      const keysByKid = new Map<string, KeyObject>();
+
+      for (const jwk of data?.keys ?? []) {
+        if (
+          !isNonEmptyString(jwk.kid) ||
+          (isDefined(jwk.use) && jwk.use !== 'sig') ||
+          !['EC', 'RSA'].includes(jwk.kty ?? '')
+        ) {
+          continue;
+        }
+
+        keysByKid.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+
+      this.keysByKid = keysByKid;
+    } catch (error) {
+      this.logger.warn(
+        `Could not refresh Supabase JWKS from ${jwksUrl}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      this.fetchedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { AuthExceptionCode } from 'src/engine/core-modules/auth/auth.exception';
+import { SupabaseMembershipSyncService } from 'src/engine/core-modules/auth/services/supabase-membership-sync.service';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
+import { UserWorkspaceService } from 'src/engine/core-modules/user-workspace/user-workspace.service';
+import { UserService } from 'src/engine/core-modules/user/services/user.service';
+import { type UserEntity } from 'src/engine/core-modules/user/user.entity';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { RoleEntity } from 'src/engine/metadata-modules/role/role.entity';
+import { UserRoleService } from 'src/engine/metadata-modules/user-role/user-role.service';
+
+const TENANT_A = '20202020-0000-4000-8000-00000000000a';
+const TENANT_B = '20202020-0000-4000-8000-00000000000b';
+
+describe('SupabaseMembershipSyncService', () => {
+  let service: SupabaseMembershipSyncService;
+  let config: Record<string, unknown>;
+  let userWorkspaceRepository: { find: jest.Mock };
+  let userWorkspaceService: {
+    checkUserWorkspaceExists: jest.Mock;
+    addUserToWorkspaceIfUserNotInWorkspace: jest.Mock;
+    getUserCount: jest.Mock;
+  };
+  let userService: {
+    removeUserFromWorkspaceAndPotentiallyDeleteWorkspace: jest.Mock;
+  };
+  let userRoleService: {
+    getRolesByUserWorkspaces: jest.Mock;
+    assignRoleToManyUserWorkspace: jest.Mock;
+  };
+
+  const user = { id: 'user-id' } as UserEntity;
+
+  beforeEach(async () => {
+    config = {
+      SUPABASE_TENANTS_CLAIM: 'tenants',
+      SUPABASE_ROLE_MAPPING: '{"owner":"Admin"}',
+      SUPABASE_TENANTS_CLAIM_STRICT: false,
+    };
+    userWorkspaceRepository = { find: jest.fn().mockResolvedValue([]) };
+    userWorkspaceService = {
+      checkUserWorkspaceExists: jest
+        .fn()
+        .mockResolvedValueOnce(null)
+        .mockResolvedValue({ id: 'user-workspace-id' }),
+      addUserToWorkspaceIfUserNotInWorkspace: jest.fn(),
+      getUserCount: jest.fn().mockResolvedValue(2),
+    };
+    userService = {
+      removeUserFromWorkspaceAndPotentiallyDeleteWorkspace: jest.fn(),
+    };
+    userRoleService = {
+      getRolesByUserWorkspaces: jest.fn().mockResolvedValue(new Map()),
+      assignRoleToManyUserWorkspace: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SupabaseMembershipSyncService,
+        {
+          provide: TwentyConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        {
+          provide: getRepositoryToken(WorkspaceEntity),
+          useValue: {
+            findOne: jest.fn(async ({ where }) => ({ id: where.id })),
+          },
+        },
+        {
+          provide: getRepositoryToken(UserWorkspaceEntity),
+          useValue: userWorkspaceRepository,
+        },
+        {
+          provide: getRepositoryToken(RoleEntity),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({
+              id: 'admin-role-id',
+              label: 'Admin',
+            }),
+          },
+        },
+        { provide: UserWorkspaceService, useValue: userWorkspaceService },
+        { provide: UserService, useValue: userService },
+        { provide: UserRoleService, useValue: userRoleService },
+      ],
+    }).compile();
+
+    service = module.get(SupabaseMembershipSyncService);
+  });
+
+  it('should join claimed workspaces with the mapped role', async () => {
+    await service.syncMemberships(user, {
+      tenants: [{ tenantId: TENANT_A, role: 'owner' }],
+    });
+
+    expect(
+      userWorkspaceService.addUserToWorkspaceIfUserNotInWorkspace,
+    ).toHaveBeenCalledWith(user, { id: TENANT_A });
+    expect(userRoleService.assignRoleToManyUserWorkspace).toHaveBeenCalledWith({
+      workspaceId: TENANT_A,
+      userWorkspaceIds: ['user-workspace-id'],
+      roleId: 'admin-role-id',
+    });
+  });
+
+  it('should remove memberships missing from the claim but keep last members', async () => {
+    userWorkspaceService.checkUserWorkspaceExists.mockReset();
+    userWorkspaceService.checkUserWorkspaceExists.mockResolvedValue({
+      id: 'user-workspace-id',
+    });
+    userWorkspaceRepository.find.mockResolvedValue([
+      { id: 'user-workspace-a', workspaceId: TENANT_A },
+      { id: 'user-workspace-b', workspaceId: TENANT_B },
+      { id: 'user-workspace-c', workspaceId: 'last-member-workspace' },
+    ]);
+    userWorkspaceService.getUserCount.mockImplementation(
+      async (workspaceId: string) =>
+        workspaceId === 'last-member-workspace' ? 1 : 3,
+    );
+
+    await service.syncMemberships(user, { tenants: [TENANT_A] });
+
+    expect(
+      userService.removeUserFromWorkspaceAndPotentiallyDeleteWorkspace,
+    ).toHaveBeenCalledTimes(1);
+    expect(
+      userService.removeUserFromWorkspaceAndPotentiallyDeleteWorkspace,
+    ).toHaveBeenCalledWith({ id: 'user-workspace-b', workspaceId: TENANT_B });
+  });
+
+  it('should leave memberships untouched when the claim is missing', async () => {
+    await service.syncMemberships(user, {});
+
+    expect(
+      userWorkspaceService.addUserToWorkspaceIfUserNotInWorkspace,
+    ).not.toHaveBeenCalled();
+    expect(userWorkspaceRepository.find).not.toHaveBeenCalled();
+  });
+
+  it('should leave memberships untouched when the claim is malformed', async () => {
+    userWorkspaceRepository.find.mockResolvedValue([
+      { id: 'user-workspace-b', workspaceId: TENANT_B },
+    ]);
+
+    await service.syncMemberships(user, {
+      tenants: [TENANT_A, { tenantId: 42 }],
+    });
+
+    expect(
+      userWorkspaceService.addUserToWorkspaceIfUserNotInWorkspace,
+    ).not.toHaveBeenCalled();
+    expect(
+      userService.removeUserFromWorkspaceAndPotentiallyDeleteWorkspace,
+    ).not.toHaveBeenCalled();
+  });
+
+  it('should reject users with a malformed tenant claim in strict mode', async () => {
+    config.SUPABASE_TENANTS_CLAIM_STRICT = true;
+
+    await expect(
+      service.syncMemberships(user, { tenants: 'not-a-list' }),
+    ).rejects.toMatchObject({ code: AuthExceptionCode.FORBIDDEN_EXCEPTION });
+  });
+
+  it('should reject users without tenant claim in strict mode', async () => {
+    config.SUPABASE_TENANTS_CLAIM_STRICT = true;
+
+    await expect(
+      service.syncMemberships(user, { tenants: [] }),
+    ).rejects.toMatchObject({ code: AuthExceptionCode.FORBIDDEN_EXCEPTION });
+  });
+});
@@ -0,0 +1,257 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { isNonEmptyString, isObject } from '@sniptt/guards';
+import { isDefined } from 'twenty-shared/utils';
+import { Repository } from 'typeorm';
+
+import {
+  AuthException,
+  AuthExceptionCode,
+} from 'src/engine/core-modules/auth/auth.exception';
+import { type SupabaseTenantMembership } from 'src/engine/core-modules/auth/types/supabase-tenant-membership.type';
+import { parseSupabaseTenantClaim } from 'src/engine/core-modules/auth/utils/parse-supabase-tenant-claim.util';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
+import { UserWorkspaceService } from 'src/engine/core-modules/user-workspace/user-workspace.service';
+import { UserService } from 'src/engine/core-modules/user/services/user.service';
+import { type UserEntity } from 'src/engine/core-modules/user/user.entity';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { RoleEntity } from 'src/engine/metadata-modules/role/role.entity';
+import { UserRoleService } from 'src/engine/metadata-modules/user-role/user-role.service';
+
+/**
+ * Syncs workspace memberships and roles from the tenant claim of a Supabase
+ * user's app_metadata (SUPABASE_TENANTS_CLAIM), on token exchange.
+ *
+ * - claimed workspaces the user is not a member of are joined
+ * - memberships missing from the claim are removed, except the last member
+ *   of a workspace, which is never removed so the workspace is not deleted
+ * - claim roles are mapped to Twenty roles with SUPABASE_ROLE_MAPPING
+ *
+ * A malformed claim is ignored, as a missing one, so that memberships are
+ * never removed because of a claim that could not be read. A failure on one
+ * workspace is logged and does not block the others.
+ */
+@Injectable()
+// eslint-disable-next-line @nx/workspace-inject-workspace-repository
+export class SupabaseMembershipSyncService {
+  private readonly logger = new Logger(SupabaseMembershipSyncService.name);
+
+  constructor(
+    private readonly twentyConfigService: TwentyConfigService,
+    @InjectRepository(WorkspaceEntity)
+    private readonly workspaceRepository: Repository<WorkspaceEntity>,
+    @InjectRepository(UserWorkspaceEntity)
+    private readonly userWorkspaceRepository: Repository<UserWorkspaceEntity>,
+    @InjectRepository(RoleEntity)
+    private readonly roleRepository: Repository<RoleEntity>,
+    private readonly userWorkspaceService: UserWorkspaceService,
+    private readonly userService: UserService,
+    private readonly userRoleService: UserRoleService,
+  ) {}
+
+  async syncMemberships(
+    user: UserEntity,
+    appMetadata?: Record<string, unknown>,
+  ): Promise<void> {
+    const claimKey = this.twentyConfigService.get('SUPABASE_TENANTS_CLAIM');
+
+    if (!isNonEmptyString(claimKey)) {
+      return;
+    }
+
+    const claim = appMetadata?.[claimKey];
+    const memberships = parseSupabaseTenantClaim(claim);
+    const isStrict = this.twentyConfigService.get(
+      'SUPABASE_TENANTS_CLAIM_STRICT',
+    );
+
+    if (isDefined(claim) && !isDefined(memberships)) {
+      this.logger.warn(
+        `Ignoring malformed ${claimKey} claim of user ${user.id}, memberships are left unchanged`,
+      );
+    }
+
+    if (isStrict && (!isDefined(memberships) || memberships.length === 0)) {
+      throw new AuthException(
+        `Supabase user has no valid ${claimKey} claim`,
+        AuthExceptionCode.FORBIDDEN_EXCEPTION,
+      );
+    }
+
+    // Without a readable claim, memberships are managed in Twenty
+    if (!isDefined(memberships)) {
+      return;
+    }
+
+    const roleMapping = this.getRoleMapping();
+
+    for (const membership of memberships) {
+      await this.runForWorkspace(user, membership.tenantId, () =>
+        this.applyMembership(user, membership, roleMapping),
+      );
+    }
+
+    const claimedTenantIds = new Set(
+      memberships.map((membership) => membership.tenantId),
+    );
+
+    const userWorkspaces = await this.userWorkspaceRepository.find({
+      where: { userId: user.id },
+    });
+
+    for (const userWorkspace of userWorkspaces) {
+      if (!claimedTenantIds.has(userWorkspace.workspaceId)) {
+        await this.runForWorkspace(user, userWorkspace.workspaceId, () =>
+          this.removeMembership(user, userWorkspace),
+        );
+      }
+    }
+  }
+
+  private async applyMembership(
+    user: UserEntity,
+    membership: SupabaseTenantMembership,
+    roleMapping: Record<string, string>,
+  ): Promise<void> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: membership.tenantId },
+    });
+
+    if (!isDefined(workspace)) {
+      this.logger.warn(
+        `Ignoring claimed tenant ${membership.tenantId} of user ${user.id}: workspace not found`,
+      );
+
+      return;
+    }
+
+    let userWorkspace =
+      await this.userWorkspaceService.checkUserWorkspaceExists(
+        user.id,
+        workspace.id,
+      );
+
+    if (!isDefined(userWorkspace)) {
+      await this.userWorkspaceService.addUserToWorkspaceIfUserNotInWorkspace(
+        user,
+        workspace,
+      );
+
+      userWorkspace = await this.userWorkspaceService.checkUserWorkspaceExists(
+        user.id,
+        workspace.id,
+      );
+
+      this.logger.log(
+        `Added user ${user.id} to workspace ${workspace.id} from Supabase claim`,
+      );
+    }
+
+    const roleLabel = isDefined(membership.role)
+      ? roleMapping[membership.role]
+      : undefined;
+
+    if (!isDefined(userWorkspace) || !isDefined(roleLabel)) {
+      return;
+    }
+
+    const role = await this.roleRepository.findOne({
+      where: { workspaceId: workspace.id, label: roleLabel },
+    });
+
+    if (!isDefined(role)) {
+      this.logger.warn(
+        `Role ${roleLabel} mapped from ${membership.role} does not exist in workspace ${workspace.id}`,
+      );
+
+      return;
+    }
+
+    const currentRoles = await this.userRoleService.getRolesByUserWorkspaces({
+      userWorkspaceIds: [userWorkspace.id],
+      workspaceId: workspace.id,
+    });
+
+    if (currentRoles.get(userWorkspace.id)?.[0]?.id === role.id) {
+      return;
+    }
+
+    await this.userRoleService.assignRoleToManyUserWorkspace({
+      workspaceId: workspace.id,
+      userWorkspaceIds: [userWorkspace.id],
+      roleId: role.id,
+    });
+
+    this.logger.log(
+      `Assigned role ${role.label} to user ${user.id} in workspace ${workspace.id} from Supabase claim`,
+    );
+  }
+
+  private async removeMembership(
+    user: UserEntity,
+    userWorkspace: UserWorkspaceEntity,
+  ): Promise<void> {
+    const memberCount = await this.userWorkspaceService.getUserCount(
+      userWorkspace.workspaceId,
+    );
+
+    if (isDefined(memberCount) && memberCount <= 1) {
+      this.logger.warn(
+        `Keeping user ${user.id} in workspace ${userWorkspace.workspaceId} missing from Supabase claim: last member`,
+      );
+
+      return;
+    }
+
+    await this.userService.removeUserFromWorkspaceAndPotentiallyDeleteWorkspace(
+      userWorkspace,
+    );
+
+    this.logger.log(
+      `Removed user ${user.id} from workspace ${userWorkspace.workspaceId}: missing from Supabase claim`,
+    );
+  }
+
+  private async runForWorkspace(
+    user: UserEntity,
+    workspaceId: string,
+    sync: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      await sync();
+    } catch (error) {
+      this.logger.error(
+        `Could not sync Supabase membership of user ${user.id} in workspace ${workspaceId}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  private getRoleMapping(): Record<string, string> {
+    const rawRoleMapping = this.twentyConfigService.get(
+      'SUPABASE_ROLE_MAPPING',
+    );
+
+    if (!isNonEmptyString(rawRoleMapping)) {
+      return {};
+    }
+
+    try {
+      const roleMapping = JSON.parse(rawRoleMapping);
+
+      if (isObject(roleMapping) && !Array.isArray(roleMapping)) {
+        return roleMapping as Record<string, string>;
+      }
+    } catch {
+      // Reported below
+    }
+
+    this.logger.warn(
+      'SUPABASE_ROLE_MAPPING is not a JSON object, claim roles are ignored',
+    );
+
+    return {};
+  }
+}
@@ -88,6 +88,35 @@ describe('JwtAuthStrategy', () => {
       );
     });
 
+    it('should throw AuthException if type is API_KEY and workspace is disabled', async () => {
+      const payload = {
+        ...jwt,
+        type: 'API_KEY',
+      };
+
+      const mockWorkspace = new WorkspaceEntity();
+
+      mockWorkspace.id = 'workspace-id';
+      mockWorkspace.isDisabled = true;
+      workspaceRepository.findOneBy.mockResolvedValue(mockWorkspace);
+
+      strategy = new JwtAuthStrategy(
+        jwtWrapperService,
+        workspaceRepository,
+        userRepository,
+        userWorkspaceRepository,
+        apiKeyRepository,
+        permissionsService,
+      );
+
+      await expect(
+        strategy.validate(payload as JwtPayload),
+      ).rejects.toMatchObject({
+        code: AuthExceptionCode.WORKSPACE_SUSPENDED,
+      });
+      expect(apiKeyRepository.findOne).not.toHaveBeenCalled();
+    });
+
     it('should throw AuthExceptionCode if type is API_KEY not found', async () => {
       const payload = {
         ...jwt,
@@ -191,6 +220,37 @@ describe('JwtAuthStrategy', () => {
   });
 
   describe('ACCESS token validation', () => {
+    it('should throw AuthException if type is ACCESS and workspace is disabled', async () => {
+      const payload = {
+        sub: randomUUID(),
+        type: 'ACCESS',
+        userWorkspaceId: randomUUID(),
+        workspaceId: randomUUID(),
+      };
+
+      const mockWorkspace = new WorkspaceEntity();
+
+      mockWorkspace.id = payload.workspaceId;
+      mockWorkspace.isDisabled = true;
+      workspaceRepository.findOneBy.mockResolvedValue(mockWorkspace);
+
+      strategy = new JwtAuthStrategy(
+        jwtWrapperService,
+        workspaceRepository,
+        userRepository,
+        userWorkspaceRepository,
+        apiKeyRepository,
+        permissionsService,
+      );
+
+      await expect(
+        strategy.validate(payload as JwtPayload),
+      ).rejects.toMatchObject({
+        code: AuthExceptionCode.WORKSPACE_SUSPENDED,
+      });
+      expect(userWorkspaceRepository.findOne).not.toHaveBeenCalled();
+    });
+
     it('should throw AuthExceptionCode if type is ACCESS, no jti, and user not found', async () => {
       const validUserId = randomUUID();
       const validUserWorkspaceId = randomUUID();
@@ -26,6 +26,7 @@ import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user
 import { UserEntity } from 'src/engine/core-modules/user/user.entity';
 import { userValidator } from 'src/engine/core-modules/user/user.validate';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { workspaceValidator } from 'src/engine/core-modules/workspace/workspace.validate';
 import { PermissionsService } from 'src/engine/metadata-modules/permissions/permissions.service';
 @Injectable()
 export class JwtAuthStrategy extends PassportStrategy(Strategy, 'jwt') {
@@ -89,6 +90,8 @@ export class JwtAuthStrategy extends PassportStrategy(Strategy, 'jwt') {
       ),
     );
 
+    workspaceValidator.assertIsNotDisabledOrThrow(workspace);
+
     const apiKey = await this.apiKeyRepository.findOne({
       where: {
         id: payload.jti,
@@ -123,6 +126,8 @@ export class JwtAuthStrategy extends PassportStrategy(Strategy, 'jwt') {
       );
     }
 
+    workspaceValidator.assertIsNotDisabledOrThrow(workspace);
+
     if (payload.isImpersonating === true) {
       context.impersonationContext = await this.validateImpersonation(payload);
     }
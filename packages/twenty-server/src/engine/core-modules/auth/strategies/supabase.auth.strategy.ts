@@ -4,10 +4,10 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 
 import {
-    AuthException,
-    AuthExceptionCode,
-} from 'src/engine/core-modules/auth/auth.exception';
-import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+  SUPABASE_ASYMMETRIC_ALGORITHMS,
+  SupabaseJwksService,
+} from 'src/engine/core-modules/auth/services/supabase-jwks.service';
+import { getSupabaseAuthContextFromJwtPayload } from 'src/engine/core-modules/auth/utils/get-supabase-auth-context-from-jwt-payload.util';
 
 export type SupabaseJwtPayload = {
   sub: string; // Supabase user ID
@@ -49,65 +49,38 @@ export type SupabaseAuthContext = {
   isEmailVerified: boolean;
 };
 
+/**
+ * Validates Supabase access tokens signed either with the project's
+ * asymmetric keys (ES256 / RS256, looked up by kid in the JWKS document) or
+ * with the legacy shared SUPABASE_JWT_SECRET (HS256), so that both kinds of
+ * tokens are accepted while a project migrates to signing keys. The key is
+ * chosen by SupabaseJwksService, which also verifies the tokens exchanged
+ * through SupabaseAuthService.
+ */
 @Injectable()
 export class SupabaseAuthStrategy extends PassportStrategy(
   Strategy,
   'supabase-jwt',
 ) {
-  constructor(private readonly twentyConfigService: TwentyConfigService) {
-    const supabaseJwtSecret = twentyConfigService.get('SUPABASE_JWT_SECRET');
-
-    if (!supabaseJwtSecret) {
-      throw new AuthException(
-        'SUPABASE_JWT_SECRET is not configured',
-        AuthExceptionCode.INVALID_INPUT,
-      );
-    }
+  constructor(private readonly supabaseJwksService: SupabaseJwksService) {
+    // @ts-expect-error legacy noImplicitAny
+    const secretOrKeyProviderFunction = async (_request, rawJwtToken, done) => {
+      try {
+        done(null, await supabaseJwksService.getVerificationKey(rawJwtToken));
+      } catch (error) {
+        done(error, null);
+      }
+    };
 
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: supabaseJwtSecret,
-      algorithms: ['HS256'],
+      secretOrKeyProvider: secretOrKeyProviderFunction,
+      algorithms: ['HS256', ...SUPABASE_ASYMMETRIC_ALGORITHMS],
     });
   }
 
   async validate(payload: SupabaseJwtPayload): Promise<SupabaseAuthContext> {
-    if (!payload.sub) {
-      throw new AuthException(
-        'Invalid Supabase token: missing sub claim',
-        AuthExceptionCode.INVALID_INPUT,
-      );
-    }
-
-    const email =
-      payload.email || payload.user_metadata?.email || payload.user_metadata?.sub;
-
-    if (!email) {
-      throw new AuthException(
-        'Invalid Supabase token: missing email',
-        AuthExceptionCode.INVALID_INPUT,
-      );
-    }
-
-    // Parse name from user_metadata
-    const fullName =
-      payload.user_metadata?.full_name || payload.user_metadata?.name || '';
-    const nameParts = fullName.split(' ');
-    const firstName = nameParts[0] || '';
-    const lastName = nameParts.slice(1).join(' ') || '';
-
-    return {
-      supabaseUserId: payload.sub,
-      email: email.toLowerCase(),
-      firstName,
-      lastName,
-      picture:
-        payload.user_metadata?.picture || payload.user_metadata?.avatar_url,
-      isEmailVerified:
-        payload.user_metadata?.email_verified ??
-        payload.email_verified ??
-        false,
-    };
+    return getSupabaseAuthContextFromJwtPayload(payload);
   }
 }
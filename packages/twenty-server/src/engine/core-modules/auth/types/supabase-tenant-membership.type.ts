@@ -0,0 +1,6 @@
+// Tenant membership read from the Supabase app_metadata tenant claim. The
+// tenant id is the Twenty workspace id, the role is the claim's own role name.
+export type SupabaseTenantMembership = {
+  tenantId: string;
+  role: string | null;
+};
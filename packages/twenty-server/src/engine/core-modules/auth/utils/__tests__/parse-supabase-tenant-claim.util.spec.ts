@@ -0,0 +1,62 @@
+import { parseSupabaseTenantClaim } from 'src/engine/core-modules/auth/utils/parse-supabase-tenant-claim.util';
+
+const TENANT_A = '20202020-0000-4000-8000-00000000000a';
+const TENANT_B = '20202020-0000-4000-8000-00000000000b';
+
+describe('parseSupabaseTenantClaim', () => {
+  it('should return null when the claim is missing', () => {
+    expect(parseSupabaseTenantClaim(undefined)).toBeNull();
+  });
+
+  it('should parse a list of tenant ids', () => {
+    expect(parseSupabaseTenantClaim([TENANT_A, TENANT_B])).toEqual([
+      { tenantId: TENANT_A, role: null },
+      { tenantId: TENANT_B, role: null },
+    ]);
+  });
+
+  it('should parse a list of memberships', () => {
+    expect(
+      parseSupabaseTenantClaim([
+        { tenantId: TENANT_A, role: 'owner' },
+        { id: TENANT_B },
+      ]),
+    ).toEqual([
+      { tenantId: TENANT_A, role: 'owner' },
+      { tenantId: TENANT_B, role: null },
+    ]);
+  });
+
+  it('should parse a tenant id to role map', () => {
+    expect(parseSupabaseTenantClaim({ [TENANT_A]: 'member' })).toEqual([
+      { tenantId: TENANT_A, role: 'member' },
+    ]);
+  });
+
+  it('should keep the last duplicate', () => {
+    expect(
+      parseSupabaseTenantClaim([
+        { tenantId: TENANT_A, role: 'member' },
+        { tenantId: TENANT_A, role: 'owner' },
+      ]),
+    ).toEqual([{ tenantId: TENANT_A, role: 'owner' }]);
+  });
+
+  it('should parse an empty claim as no membership', () => {
+    expect(parseSupabaseTenantClaim([])).toEqual([]);
+  });
+
+  it.each([
+    ['a string', TENANT_A],
+    ['a number', 42],
+    ['a list with a non uuid tenant id', [TENANT_A, 'not-a-uuid']],
+    ['a list with a number tenant id', [TENANT_A, { tenantId: 42 }]],
+    ['a list with an entry without tenant id', [{ role: 'owner' }]],
+    ['a list with a non string role', [{ tenantId: TENANT_A, role: 1 }]],
+    ['a list with a nested list', [[TENANT_A]]],
+    ['a map with a non uuid tenant id', { 'not-a-uuid': 'owner' }],
+    ['a map with a non string role', { [TENANT_A]: { role: 'owner' } }],
+  ])('should return null for %s', (_, claim) => {
+    expect(parseSupabaseTenantClaim(claim)).toBeNull();
+  });
+});
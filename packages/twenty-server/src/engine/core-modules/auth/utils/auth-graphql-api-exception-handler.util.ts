@@ -45,6 +45,13 @@ export const authGraphqlApiExceptionHandler = (exception: AuthException) => {
       throw new ForbiddenError(exception.message, {
         subCode: exception.code,
       });
+    case AuthExceptionCode.WORKSPACE_SUSPENDED:
+      throw new ForbiddenError(exception.message, {
+        userFriendlyMessage:
+          exception.userFriendlyMessage ??
+          msg`This workspace has been suspended.`,
+        subCode: exception.code,
+      });
     case AuthExceptionCode.UNAUTHENTICATED:
       throw new AuthenticationError(exception.message, {
         userFriendlyMessage: msg`You must be authenticated to perform this action.`,
@@ -0,0 +1,47 @@
+import {
+  AuthException,
+  AuthExceptionCode,
+} from 'src/engine/core-modules/auth/auth.exception';
+import {
+  type SupabaseAuthContext,
+  type SupabaseJwtPayload,
+} from 'src/engine/core-modules/auth/strategies/supabase.auth.strategy';
+
+export const getSupabaseAuthContextFromJwtPayload = (
+  payload: SupabaseJwtPayload,
+): SupabaseAuthContext => {
+  if (!payload.sub) {
+    throw new AuthException(
+      'Invalid Supabase token: missing sub claim',
+      AuthExceptionCode.INVALID_INPUT,
+    );
+  }
+
+  const email =
+    payload.email || payload.user_metadata?.email || payload.user_metadata?.sub;
+
+  if (!email) {
+    throw new AuthException(
+      'Invalid Supabase token: missing email',
+      AuthExceptionCode.INVALID_INPUT,
+    );
+  }
+
+  // Parse name from user_metadata
+  const fullName =
+    payload.user_metadata?.full_name || payload.user_metadata?.name || '';
+  const nameParts = fullName.split(' ');
+  const firstName = nameParts[0] || '';
+  const lastName = nameParts.slice(1).join(' ') || '';
+
+  return {
+    supabaseUserId: payload.sub,
+    email: email.toLowerCase(),
+    firstName,
+    lastName,
+    picture:
+      payload.user_metadata?.picture || payload.user_metadata?.avatar_url,
+    isEmailVerified:
+      payload.user_metadata?.email_verified ?? payload.email_verified ?? false,
+  };
+};
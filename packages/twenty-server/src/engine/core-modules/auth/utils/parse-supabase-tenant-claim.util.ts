@@ -0,0 +1,73 @@
+import { isNonEmptyString, isObject } from '@sniptt/guards';
+import { isDefined, isValidUuid } from 'twenty-shared/utils';
+
+import { type SupabaseTenantMembership } from 'src/engine/core-modules/auth/types/supabase-tenant-membership.type';
+
+const parseMembership = (
+  tenantId: unknown,
+  role: unknown,
+): SupabaseTenantMembership | null => {
+  if (typeof tenantId !== 'string' || !isValidUuid(tenantId)) {
+    return null;
+  }
+
+  if (isDefined(role) && typeof role !== 'string') {
+    return null;
+  }
+
+  return { tenantId, role: isNonEmptyString(role) ? role : null };
+};
+
+const parseMembershipEntry = (
+  entry: unknown,
+): SupabaseTenantMembership | null => {
+  if (typeof entry === 'string') {
+    return parseMembership(entry, null);
+  }
+
+  if (!isObject(entry) || Array.isArray(entry)) {
+    return null;
+  }
+
+  const { tenantId, id, role } = entry as Record<string, unknown>;
+
+  return parseMembership(tenantId ?? id, role);
+};
+
+// Accepts the shapes parent platforms commonly use for the tenant claim:
+// - ['<tenantId>', ...]
+// - [{ tenantId | id: '<tenantId>', role?: 'owner' }, ...]
+// - { '<tenantId>': 'owner', ... }
+// Returns null when the claim is missing or malformed, a single invalid entry
+// makes the whole claim malformed so that no membership is read from it.
+export const parseSupabaseTenantClaim = (
+  claim: unknown,
+): SupabaseTenantMembership[] | null => {
+  if (!isDefined(claim)) {
+    return null;
+  }
+
+  let entries: (SupabaseTenantMembership | null)[];
+
+  if (Array.isArray(claim)) {
+    entries = claim.map(parseMembershipEntry);
+  } else if (isObject(claim)) {
+    entries = Object.entries(claim).map(([tenantId, role]) =>
+      parseMembership(tenantId, role),
+    );
+  } else {
+    return null;
+  }
+
+  const membershipsByTenantId = new Map<string, SupabaseTenantMembership>();
+
+  for (const entry of entries) {
+    if (!isDefined(entry)) {
+      return null;
+    }
+
+    membershipsByTenantId.set(entry.tenantId, entry);
+  }
+
+  return [...membershipsByTenantId.values()];
+};
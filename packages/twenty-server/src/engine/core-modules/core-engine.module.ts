@@ -4,6 +4,7 @@ import { EventEmitterModule } from '@nestjs/event-emitter';
 
 import { WorkspaceQueryRunnerModule } from 'src/engine/api/graphql/workspace-query-runner/workspace-query-runner.module';
 import { ActorModule } from 'src/engine/core-modules/actor/actor.module';
+import { AdminModule } from 'src/engine/core-modules/admin/admin.module';
 import { AdminPanelModule } from 'src/engine/core-modules/admin-panel/admin-panel.module';
 import { ApiKeyModule } from 'src/engine/core-modules/api-key/api-key.module';
 import { AppTokenModule } from 'src/engine/core-modules/app-token/app-token.module';
@@ -33,12 +34,14 @@ import { ImpersonationModule } from 'src/engine/core-modules/impersonation/imper
 import { LabModule } from 'src/engine/core-modules/lab/lab.module';
 import { LoggerModule } from 'src/engine/core-modules/logger/logger.module';
 import { loggerModuleFactory } from 'src/engine/core-modules/logger/logger.module-factory';
+import { McpPromptModule } from 'src/engine/core-modules/mcp-prompt/mcp-prompt.module';
 import { MessageQueueModule } from 'src/engine/core-modules/message-queue/message-queue.module';
 import { messageQueueModuleFactory } from 'src/engine/core-modules/message-queue/message-queue.module-factory';
 import { TimelineMessagingModule } from 'src/engine/core-modules/messaging/timeline-messaging.module';
 import { OpenApiModule } from 'src/engine/core-modules/open-api/open-api.module';
 import { PostgresCredentialsModule } from 'src/engine/core-modules/postgres-credentials/postgres-credentials.module';
 import { PublicDomainModule } from 'src/engine/core-modules/public-domain/public-domain.module';
+import { RecordChangeModule } from 'src/engine/core-modules/record-change/record-change.module';
 import { RedisClientModule } from 'src/engine/core-modules/redis-client/redis-client.module';
 import { RedisClientService } from 'src/engine/core-modules/redis-client/redis-client.service';
 import { SearchModule } from 'src/engine/core-modules/search/search.module';
@@ -46,8 +49,10 @@ import { serverlessModuleFactory } from 'src/engine/core-modules/serverless/serv
 import { ServerlessModule } from 'src/engine/core-modules/serverless/serverless.module';
 import { WorkspaceSSOModule } from 'src/engine/core-modules/sso/sso.module';
 import { TelemetryModule } from 'src/engine/core-modules/telemetry/telemetry.module';
+import { TenantReconciliationModule } from 'src/engine/core-modules/tenant-reconciliation/tenant-reconciliation.module';
 import { TwentyConfigModule } from 'src/engine/core-modules/twenty-config/twenty-config.module';
 import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { UsageMeteringModule } from 'src/engine/core-modules/usage-metering/usage-metering.module';
 import { UserModule } from 'src/engine/core-modules/user/user.module';
 import { WebhookModule } from 'src/engine/core-modules/webhook/webhook.module';
 import { WorkflowApiModule } from 'src/engine/core-modules/workflow/workflow-api.module';
@@ -99,6 +104,7 @@ import { FileModule } from './file/file.module';
     ActorModule,
     TelemetryModule,
     AdminPanelModule,
+    AdminModule,
     LabModule,
     RoleModule,
     RedisClientModule,
@@ -138,10 +144,14 @@ import { FileModule } from './file/file.module';
     SearchModule,
     ApiKeyModule,
     WebhookModule,
+    McpPromptModule,
+    RecordChangeModule,
     PageLayoutModule,
     FlatPageLayoutTabModule,
     ImpersonationModule,
     TrashCleanupModule,
+    UsageMeteringModule,
+    TenantReconciliationModule,
   ],
   exports: [
     AuditModule,
@@ -7,7 +7,7 @@ export interface StorageDriver {
   read(params: { folderPath: string; filename: string }): Promise<Readable>;
   readFolder(folderPath: string): Promise<Sources>;
   write(params: {
-    file: Buffer | Uint8Array | string;
+    file: Buffer | Uint8Array | string | Readable;
     name: string;
     folder: string;
     mimeType: string | undefined;
@@ -31,4 +31,9 @@ export interface StorageDriver {
     filename: string;
   }): Promise<boolean>;
   checkFolderExists(folderPath: string): Promise<boolean>;
+  getFileSize(params: {
+    folderPath: string;
+    filename: string;
+  }): Promise<number>;
+  getFolderSize(folderPath: string): Promise<number>;
 }
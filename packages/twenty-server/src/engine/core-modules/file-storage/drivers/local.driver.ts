@@ -28,7 +28,7 @@ export class LocalDriver implements StorageDriver {
   }
 
   async write(params: {
-    file: Buffer | Uint8Array | string;
+    file: Buffer | Uint8Array | string | Readable;
     name: string;
     folder: string;
     mimeType: string | undefined;
@@ -235,4 +235,50 @@ export class LocalDriver implements StorageDriver {
 
     return existsSync(folderFullPath);
   }
+
+  async getFileSize(params: {
+    folderPath: string;
+    filename: string;
+  }): Promise<number> {
+    const filePath = join(
+      this.options.storagePath,
+      params.folderPath,
+      params.filename,
+    );
+
+    if (!existsSync(filePath)) {
+      return 0;
+    }
+
+    const stats = await fs.stat(filePath);
+
+    return stats.size;
+  }
+
+  async getFolderSize(folderPath: string): Promise<number> {
+    const folderFullPath = join(this.options.storagePath, folderPath);
+
+    if (!existsSync(folderFullPath)) {
+      return 0;
+    }
+
+    const entries = await fs.readdir(folderFullPath, {
+      recursive: true,
+      withFileTypes: true,
+    });
+
+    let totalSize = 0;
+
+    for (const entry of entries) {
+      if (!entry.isFile()) {
+        continue;
+      }
+
+      const stats = await fs.stat(join(entry.parentPath, entry.name));
+
+      totalSize += stats.size;
+    }
+
+    return totalSize;
+  }
 }
@@ -61,7 +61,7 @@ export class S3Driver implements StorageDriver {
   }
 
   async write(params: {
-    file: Buffer | Uint8Array | string;
+    file: Buffer | Uint8Array | string | Readable;
     name: string;
     folder: string;
     mimeType: string | undefined;
@@ -572,4 +572,51 @@ export class S3Driver implements StorageDriver {
       throw error;
     }
   }
+
+  async getFileSize(params: {
+    folderPath: string;
+    filename: string;
+  }): Promise<number> {
+    try {
+      const result = await this.s3Client.send(
+        new HeadObjectCommand({
+          Bucket: this.bucketName,
+          Key: `${params.folderPath}/${params.filename}`,
+        }),
+      );
+
+      return result.ContentLength ?? 0;
+    } catch (error) {
+      if (error instanceof NotFound) {
+        return 0;
+      }
+
+      throw error;
+    }
+  }
+
+  async getFolderSize(folderPath: string): Promise<number> {
+    let totalSize = 0;
+    let continuationToken: string | undefined;
+
+    do {
+      const result = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: folderPath,
+          ContinuationToken: continuationToken,
+        }),
+      );
+
+      for (const object of result.Contents ?? []) {
+        totalSize += object.Size ?? 0;
+      }
+
+      continuationToken = result.IsTruncated
+        ? result.NextContinuationToken
+        : undefined;
+    } while (isDefined(continuationToken));
+
+    return totalSize;
+  }
 }
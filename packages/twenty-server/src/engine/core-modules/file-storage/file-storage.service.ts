@@ -15,7 +15,7 @@ export class FileStorageService implements StorageDriver {
   ) {}
 
   write(params: {
-    file: string | Buffer | Uint8Array;
+    file: string | Buffer | Uint8Array | Readable;
     name: string;
     folder: string;
     mimeType: string | undefined;
@@ -90,4 +90,19 @@ export class FileStorageService implements StorageDriver {
 
     return driver.checkFolderExists(folderPath);
   }
+
+  getFileSize(params: {
+    folderPath: string;
+    filename: string;
+  }): Promise<number> {
+    const driver = this.fileStorageDriverFactory.getCurrentDriver();
+
+    return driver.getFileSize(params);
+  }
+
+  getFolderSize(folderPath: string): Promise<number> {
+    const driver = this.fileStorageDriverFactory.getCurrentDriver();
+
+    return driver.getFolderSize(folderPath);
+  }
 }
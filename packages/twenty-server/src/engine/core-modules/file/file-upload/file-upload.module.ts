@@ -4,10 +4,11 @@ import { Module } from '@nestjs/common';
 import { FileUploadResolver } from 'src/engine/core-modules/file/file-upload/resolvers/file-upload.resolver';
 import { FileUploadService } from 'src/engine/core-modules/file/file-upload/services/file-upload.service';
 import { FileModule } from 'src/engine/core-modules/file/file.module';
+import { WorkspaceQuotaModule } from 'src/engine/core-modules/workspace-quota/workspace-quota.module';
 import { PermissionsModule } from 'src/engine/metadata-modules/permissions/permissions.module';
 
 @Module({
-  imports: [FileModule, HttpModule, PermissionsModule],
+  imports: [FileModule, HttpModule, PermissionsModule, WorkspaceQuotaModule],
   providers: [FileUploadService, FileUploadResolver],
   exports: [FileUploadService, FileUploadResolver],
 })
@@ -12,6 +12,7 @@ import { settings } from 'src/engine/constants/settings';
 import { FileStorageService } from 'src/engine/core-modules/file-storage/file-storage.service';
 import { FileService } from 'src/engine/core-modules/file/services/file.service';
 import { buildFileInfo } from 'src/engine/core-modules/file/utils/build-file-info.utils';
+import { WorkspaceQuotaService } from 'src/engine/core-modules/workspace-quota/services/workspace-quota.service';
 import { getCropSize, getImageBufferFromUrl } from 'src/utils/image';
 
 export type SignedFile = { path: string; token: string };
@@ -28,6 +29,7 @@ export class FileUploadService {
     private readonly fileStorage: FileStorageService,
     private readonly fileService: FileService,
     private readonly httpService: HttpService,
+    private readonly workspaceQuotaService: WorkspaceQuotaService,
   ) {}
 
   private async _uploadFile({
@@ -69,6 +71,10 @@ export class FileUploadService {
     return file;
   }
 
+  private _getFileSizeInBytes(file: Buffer | Uint8Array | string): number {
+    return typeof file === 'string' ? Buffer.byteLength(file) : file.byteLength;
+  }
+
   async uploadFile({
     file,
     filename,
@@ -84,14 +90,27 @@ export class FileUploadService {
   }): Promise<SignedFilesResult> {
     const { ext, name } = buildFileInfo(filename);
     const folder = this.getWorkspaceFolderName(workspaceId, fileFolder);
+    const sanitizedFile = this._sanitizeFile({ file, ext, mimeType });
+
+    const fileSizeInBytes = this._getFileSizeInBytes(sanitizedFile);
+
+    await this.workspaceQuotaService.assertStorageAvailableOrThrow(
+      workspaceId,
+      fileSizeInBytes,
+    );
 
     await this._uploadFile({
-      file: this._sanitizeFile({ file, ext, mimeType }),
+      file: sanitizedFile,
       filename: name,
       mimeType,
       folder,
     });
 
+    await this.workspaceQuotaService.recordStorageUsage(
+      workspaceId,
+      fileSizeInBytes,
+    );
+
     const signedPayload = this.fileService.encodeFileToken({
       filename: name,
       workspaceId: workspaceId,
@@ -159,11 +178,22 @@ export class FileUploadService {
       ),
     );
 
+    const buffers = await Promise.all(images.map((image) => image.toBuffer()));
+
+    const imagesSizeInBytes = buffers.reduce(
+      (total, buffer) => total + buffer.byteLength,
+      0,
+    );
+
+    await this.workspaceQuotaService.assertStorageAvailableOrThrow(
+      workspaceId,
+      imagesSizeInBytes,
+    );
+
     const files: Array<SignedFile> = [];
 
     await Promise.all(
-      images.map(async (image, index) => {
-        const buffer = await image.toBuffer();
+      buffers.map(async (buffer, index) => {
         const folder = this.getWorkspaceFolderName(workspaceId, fileFolder);
 
         const token = this.fileService.encodeFileToken({
@@ -185,6 +215,11 @@ export class FileUploadService {
       }),
     );
 
+    await this.workspaceQuotaService.recordStorageUsage(
+      workspaceId,
+      imagesSizeInBytes,
+    );
+
     return {
       name,
       mimeType,
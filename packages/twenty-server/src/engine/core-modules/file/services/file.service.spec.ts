@@ -3,6 +3,7 @@ import { Test, type TestingModule } from '@nestjs/testing';
 import { FileStorageService } from 'src/engine/core-modules/file-storage/file-storage.service';
 import { JwtWrapperService } from 'src/engine/core-modules/jwt/services/jwt-wrapper.service';
 import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { WorkspaceQuotaService } from 'src/engine/core-modules/workspace-quota/services/workspace-quota.service';
 
 import { FileService } from './file.service';
 
@@ -13,6 +14,7 @@ jest.mock('uuid', () => ({
 describe('FileService', () => {
   let service: FileService;
   let fileStorageService: FileStorageService;
+  let workspaceQuotaService: WorkspaceQuotaService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -22,6 +24,8 @@ describe('FileService', () => {
           provide: FileStorageService,
           useValue: {
             copy: jest.fn(),
+            delete: jest.fn(),
+            getFileSize: jest.fn().mockResolvedValue(2048),
           },
         },
         {
@@ -32,11 +36,20 @@ describe('FileService', () => {
           provide: JwtWrapperService,
           useValue: {},
         },
+        {
+          provide: WorkspaceQuotaService,
+          useValue: {
+            releaseStorageUsage: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
     service = module.get<FileService>(FileService);
     fileStorageService = module.get<FileStorageService>(FileStorageService);
+    workspaceQuotaService = module.get<WorkspaceQuotaService>(
+      WorkspaceQuotaService,
+    );
   });
 
   it('should be defined', () => {
@@ -67,4 +80,21 @@ describe('FileService', () => {
       'mocked-uuid',
     ]);
   });
+
+  it('deleteFile - should release the storage used by the deleted file', async () => {
+    await service.deleteFile({
+      folderPath: 'attachment',
+      filename: 'file.pdf',
+      workspaceId: 'workspaceId',
+    });
+
+    expect(fileStorageService.delete).toHaveBeenCalledWith({
+      folderPath: 'workspace-workspaceId/attachment',
+      filename: 'file.pdf',
+    });
+    expect(workspaceQuotaService.releaseStorageUsage).toHaveBeenCalledWith(
+      'workspaceId',
+      2048,
+    );
+  });
 });
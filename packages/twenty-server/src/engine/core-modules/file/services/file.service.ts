@@ -15,6 +15,7 @@ import { FileStorageService } from 'src/engine/core-modules/file-storage/file-st
 import { extractFolderPathAndFilename } from 'src/engine/core-modules/file/utils/extract-folderpath-and-filename.utils';
 import { JwtWrapperService } from 'src/engine/core-modules/jwt/services/jwt-wrapper.service';
 import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { WorkspaceQuotaService } from 'src/engine/core-modules/workspace-quota/services/workspace-quota.service';
 
 @Injectable()
 export class FileService {
@@ -22,6 +23,7 @@ export class FileService {
     private readonly jwtWrapperService: JwtWrapperService,
     private readonly fileStorageService: FileStorageService,
     private readonly twentyConfigService: TwentyConfigService,
+    private readonly workspaceQuotaService: WorkspaceQuotaService,
   ) {}
 
   async getFileStream(
@@ -84,10 +86,20 @@ export class FileService {
   }) {
     const workspaceFolderPath = `workspace-${workspaceId}/${folderPath}`;
 
-    return await this.fileStorageService.delete({
+    const fileSizeInBytes = await this.fileStorageService.getFileSize({
       folderPath: workspaceFolderPath,
       filename,
     });
+
+    await this.fileStorageService.delete({
+      folderPath: workspaceFolderPath,
+      filename,
+    });
+
+    await this.workspaceQuotaService.releaseStorageUsage(
+      workspaceId,
+      fileSizeInBytes,
+    );
   }
 
   async deleteWorkspaceFolder(workspaceId: string) {
@@ -11,6 +11,7 @@ import { DomainServerConfigService } from 'src/engine/core-modules/domain/domain
 import { WorkspaceDomainsService } from 'src/engine/core-modules/domain/workspace-domains/services/workspace-domains.service';
 import { ExceptionHandlerService } from 'src/engine/core-modules/exception-handler/exception-handler.service';
 import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { WorkspaceQuotaException } from 'src/engine/core-modules/workspace-quota/workspace-quota.exception';
 import { type CustomException } from 'src/utils/custom-exception';
 
 @Injectable()
@@ -74,6 +75,8 @@ export class GuardRedirectService {
     )
       return;
 
+    if (err instanceof WorkspaceQuotaException) return;
+
     this.exceptionHandlerService.captureExceptions([err], {
       workspace: {
         id: workspaceId,
@@ -98,7 +101,9 @@ export class GuardRedirectService {
     this.captureException(error, workspace.id);
 
     return this.workspaceDomainsService.computeWorkspaceRedirectErrorUrl(
-      error instanceof AuthException ? error.message : 'Unknown error',
+      error instanceof AuthException || error instanceof WorkspaceQuotaException
+        ? error.message
+        : 'Unknown error',
       {
         subdomain: workspace.subdomain,
         customDomain: workspace.customDomain,
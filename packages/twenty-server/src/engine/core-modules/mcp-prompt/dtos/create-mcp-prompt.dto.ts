@@ -0,0 +1,37 @@
+import { Field, InputType } from '@nestjs/graphql';
+
+import {
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+
+import { McpPromptArgumentInput } from 'src/engine/core-modules/mcp-prompt/dtos/mcp-prompt-argument.dto';
+
+@InputType()
+export class CreateMcpPromptInput {
+  @Field()
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^[a-zA-Z0-9_-]+$/, {
+    message: 'name can only contain letters, digits, dashes and underscores',
+  })
+  name: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @Field()
+  @IsString()
+  @IsNotEmpty()
+  template: string;
+
+  @Field(() => [McpPromptArgumentInput], { nullable: true })
+  @IsOptional()
+  @IsArray()
+  arguments?: McpPromptArgumentInput[];
+}
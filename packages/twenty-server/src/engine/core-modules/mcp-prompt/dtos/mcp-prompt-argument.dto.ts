@@ -0,0 +1,33 @@
+import { Field, InputType, ObjectType } from '@nestjs/graphql';
+
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+@ObjectType('McpPromptArgument')
+export class McpPromptArgumentDTO {
+  @Field()
+  name: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field({ nullable: true })
+  required?: boolean;
+}
+
+@InputType()
+export class McpPromptArgumentInput {
+  @Field()
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+}
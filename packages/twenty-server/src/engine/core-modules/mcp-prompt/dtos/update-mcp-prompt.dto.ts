@@ -0,0 +1,45 @@
+import { Field, InputType } from '@nestjs/graphql';
+
+import {
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+} from 'class-validator';
+
+import { UUIDScalarType } from 'src/engine/api/graphql/workspace-schema-builder/graphql-types/scalars';
+import { McpPromptArgumentInput } from 'src/engine/core-modules/mcp-prompt/dtos/mcp-prompt-argument.dto';
+
+@InputType()
+export class UpdateMcpPromptInput {
+  @Field(() => UUIDScalarType)
+  @IsNotEmpty()
+  @IsUUID()
+  id: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-zA-Z0-9_-]+$/, {
+    message: 'name can only contain letters, digits, dashes and underscores',
+  })
+  name?: string;
+
+  @Field(() => String, { nullable: true })
+  @IsOptional()
+  @IsString()
+  description?: string | null;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  template?: string;
+
+  @Field(() => [McpPromptArgumentInput], { nullable: true })
+  @IsOptional()
+  @IsArray()
+  arguments?: McpPromptArgumentInput[];
+}
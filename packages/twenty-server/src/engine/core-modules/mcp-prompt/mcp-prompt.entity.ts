@@ -0,0 +1,66 @@
+import { Field, ObjectType } from '@nestjs/graphql';
+
+import { IDField } from '@ptc-org/nestjs-query-graphql';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Relation,
+  UpdateDateColumn,
+} from 'typeorm';
+
+import { UUIDScalarType } from 'src/engine/api/graphql/workspace-schema-builder/graphql-types/scalars';
+import { McpPromptArgumentDTO } from 'src/engine/core-modules/mcp-prompt/dtos/mcp-prompt-argument.dto';
+import { type McpPromptArgument } from 'src/engine/core-modules/mcp-prompt/types/mcp-prompt-argument.type';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+// Prompt template served to MCP clients through prompts/list and prompts/get
+@Index('IDX_MCP_PROMPT_WORKSPACE_ID_NAME_UNIQUE', ['workspaceId', 'name'], {
+  unique: true,
+})
+@Entity({ name: 'mcpPrompt', schema: 'core' })
+@ObjectType('McpPrompt')
+export class McpPromptEntity {
+  @IDField(() => UUIDScalarType)
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Field(() => UUIDScalarType)
+  @Column({ nullable: false, type: 'uuid' })
+  workspaceId: string;
+
+  @Field()
+  @Column()
+  name: string;
+
+  @Field(() => String, { nullable: true })
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  // Arguments are referenced as {{argumentName}} in the template
+  @Field()
+  @Column({ type: 'text' })
+  template: string;
+
+  @Field(() => [McpPromptArgumentDTO])
+  @Column({ type: 'jsonb', default: [] })
+  arguments: McpPromptArgument[];
+
+  @Field()
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @Field()
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+
+  @ManyToOne(() => WorkspaceEntity, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'workspaceId' })
+  workspace: Relation<WorkspaceEntity>;
+}
@@ -0,0 +1,9 @@
+import { CustomException } from 'src/utils/custom-exception';
+
+export class McpPromptException extends CustomException<McpPromptExceptionCode> {}
+
+export enum McpPromptExceptionCode {
+  MCP_PROMPT_NOT_FOUND = 'MCP_PROMPT_NOT_FOUND',
+  MCP_PROMPT_ALREADY_EXISTS = 'MCP_PROMPT_ALREADY_EXISTS',
+  MISSING_PROMPT_ARGUMENTS = 'MISSING_PROMPT_ARGUMENTS',
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { McpPromptEntity } from 'src/engine/core-modules/mcp-prompt/mcp-prompt.entity';
+import { McpPromptResolver } from 'src/engine/core-modules/mcp-prompt/mcp-prompt.resolver';
+import { McpPromptService } from 'src/engine/core-modules/mcp-prompt/mcp-prompt.service';
+import { PermissionsModule } from 'src/engine/metadata-modules/permissions/permissions.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([McpPromptEntity]), PermissionsModule],
+  providers: [McpPromptService, McpPromptResolver],
+  exports: [McpPromptService],
+})
+export class McpPromptModule {}
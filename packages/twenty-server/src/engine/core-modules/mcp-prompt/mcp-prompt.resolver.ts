@@ -0,0 +1,78 @@
+import { UseGuards } from '@nestjs/common';
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+
+import { PermissionFlagType } from 'twenty-shared/constants';
+
+import { CreateMcpPromptInput } from 'src/engine/core-modules/mcp-prompt/dtos/create-mcp-prompt.dto';
+import { McpPromptIdInput } from 'src/engine/core-modules/mcp-prompt/dtos/mcp-prompt-id.dto';
+import { UpdateMcpPromptInput } from 'src/engine/core-modules/mcp-prompt/dtos/update-mcp-prompt.dto';
+import { McpPromptEntity } from 'src/engine/core-modules/mcp-prompt/mcp-prompt.entity';
+import { McpPromptService } from 'src/engine/core-modules/mcp-prompt/mcp-prompt.service';
+import { mcpPromptGraphqlApiExceptionHandler } from 'src/engine/core-modules/mcp-prompt/utils/mcp-prompt-graphql-api-exception-handler.util';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { AuthWorkspace } from 'src/engine/decorators/auth/auth-workspace.decorator';
+import { SettingsPermissionGuard } from 'src/engine/guards/settings-permission.guard';
+import { WorkspaceAuthGuard } from 'src/engine/guards/workspace-auth.guard';
+
+@Resolver(() => McpPromptEntity)
+@UseGuards(
+  WorkspaceAuthGuard,
+  SettingsPermissionGuard(PermissionFlagType.AI_SETTINGS),
+)
+export class McpPromptResolver {
+  constructor(private readonly mcpPromptService: McpPromptService) {}
+
+  @Query(() => [McpPromptEntity])
+  async mcpPrompts(
+    @AuthWorkspace() workspace: WorkspaceEntity,
+  ): Promise<McpPromptEntity[]> {
+    return this.mcpPromptService.findByWorkspaceId(workspace.id);
+  }
+
+  @Mutation(() => McpPromptEntity)
+  async createMcpPrompt(
+    @Args('input') input: CreateMcpPromptInput,
+    @AuthWorkspace() workspace: WorkspaceEntity,
+  ): Promise<McpPromptEntity> {
+    try {
+      return await this.mcpPromptService.create({
+        workspaceId: workspace.id,
+        name: input.name,
+        description: input.description ?? null,
+        template: input.template,
+        arguments: input.arguments ?? [],
+      });
+    } catch (error) {
+      mcpPromptGraphqlApiExceptionHandler(error);
+      throw error;
+    }
+  }
+
+  @Mutation(() => McpPromptEntity)
+  async updateMcpPrompt(
+    @Args('input') input: UpdateMcpPromptInput,
+    @AuthWorkspace() workspace: WorkspaceEntity,
+  ): Promise<McpPromptEntity> {
+    const { id, ...updateData } = input;
+
+    try {
+      return await this.mcpPromptService.update(id, workspace.id, updateData);
+    } catch (error) {
+      mcpPromptGraphqlApiExceptionHandler(error);
+      throw error;
+    }
+  }
+
+  @Mutation(() => McpPromptEntity)
+  async deleteMcpPrompt(
+    @Args('input') input: McpPromptIdInput,
+    @AuthWorkspace() workspace: WorkspaceEntity,
+  ): Promise<McpPromptEntity> {
+    try {
+      return await this.mcpPromptService.delete(input.id, workspace.id);
+    } catch (error) {
+      mcpPromptGraphqlApiExceptionHandler(error);
+      throw error;
+    }
+  }
+}
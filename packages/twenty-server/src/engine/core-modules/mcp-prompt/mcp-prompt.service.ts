@@ -0,0 +1,147 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { msg } from '@lingui/core/macro';
+import { isDefined } from 'twenty-shared/utils';
+import { Repository } from 'typeorm';
+
+import { McpPromptEntity } from 'src/engine/core-modules/mcp-prompt/mcp-prompt.entity';
+import {
+  McpPromptException,
+  McpPromptExceptionCode,
+} from 'src/engine/core-modules/mcp-prompt/mcp-prompt.exception';
+import { renderMcpPromptTemplate } from 'src/engine/core-modules/mcp-prompt/utils/render-mcp-prompt-template.util';
+
+@Injectable()
+export class McpPromptService {
+  constructor(
+    @InjectRepository(McpPromptEntity)
+    private readonly mcpPromptRepository: Repository<McpPromptEntity>,
+  ) {}
+
+  async findByWorkspaceId(workspaceId: string): Promise<McpPromptEntity[]> {
+    return this.mcpPromptRepository.find({
+      where: { workspaceId },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findById(
+    id: string,
+    workspaceId: string,
+  ): Promise<McpPromptEntity | null> {
+    return this.mcpPromptRepository.findOne({ where: { id, workspaceId } });
+  }
+
+  async create(
+    promptData: Pick<
+      McpPromptEntity,
+      'workspaceId' | 'name' | 'template' | 'arguments'
+    > &
+      Partial<Pick<McpPromptEntity, 'description'>>,
+  ): Promise<McpPromptEntity> {
+    await this.assertNameIsAvailable(promptData.name, promptData.workspaceId);
+
+    return this.mcpPromptRepository.save(
+      this.mcpPromptRepository.create(promptData),
+    );
+  }
+
+  async update(
+    id: string,
+    workspaceId: string,
+    updateData: Partial<
+      Pick<McpPromptEntity, 'name' | 'description' | 'template' | 'arguments'>
+    >,
+  ): Promise<McpPromptEntity> {
+    const prompt = await this.findById(id, workspaceId);
+
+    if (!isDefined(prompt)) {
+      throw new McpPromptException(
+        'MCP prompt not found',
+        McpPromptExceptionCode.MCP_PROMPT_NOT_FOUND,
+      );
+    }
+
+    if (isDefined(updateData.name) && updateData.name !== prompt.name) {
+      await this.assertNameIsAvailable(updateData.name, workspaceId);
+    }
+
+    return this.mcpPromptRepository.save({ ...prompt, ...updateData });
+  }
+
+  async delete(id: string, workspaceId: string): Promise<McpPromptEntity> {
+    const prompt = await this.findById(id, workspaceId);
+
+    if (!isDefined(prompt)) {
+      throw new McpPromptException(
+        'MCP prompt not found',
+        McpPromptExceptionCode.MCP_PROMPT_NOT_FOUND,
+      );
+    }
+
+    await this.mcpPromptRepository.delete({ id, workspaceId });
+
+    return prompt;
+  }
+
+  async render({
+    name,
+    workspaceId,
+    promptArguments,
+  }: {
+    name: string;
+    workspaceId: string;
+    promptArguments: Record<string, string>;
+  }): Promise<{ prompt: McpPromptEntity; text: string }> {
+    const prompt = await this.mcpPromptRepository.findOne({
+      where: { name, workspaceId },
+    });
+
+    if (!isDefined(prompt)) {
+      throw new McpPromptException(
+        `MCP prompt '${name}' not found`,
+        McpPromptExceptionCode.MCP_PROMPT_NOT_FOUND,
+      );
+    }
+
+    const missingArgumentNames = prompt.arguments
+      .filter(
+        (promptArgument) =>
+          promptArgument.required === true &&
+          !isDefined(promptArguments[promptArgument.name]),
+      )
+      .map((promptArgument) => promptArgument.name);
+
+    if (missingArgumentNames.length > 0) {
+      throw new McpPromptException(
+        `Missing required arguments: ${missingArgumentNames.join(', ')}`,
+        McpPromptExceptionCode.MISSING_PROMPT_ARGUMENTS,
+      );
+    }
+
+    return {
+      prompt,
+      text: renderMcpPromptTemplate(prompt.template, promptArguments),
+    };
+  }
+
+  private async assertNameIsAvailable(
+    name: string,
+    workspaceId: string,
+  ): Promise<void> {
+    const existingPrompt = await this.mcpPromptRepository.findOne({
+      where: { name, workspaceId },
+    });
+
+    if (isDefined(existingPrompt)) {
+      throw new McpPromptException(
+        `MCP prompt '${name}' already exists`,
+        McpPromptExceptionCode.MCP_PROMPT_ALREADY_EXISTS,
+        {
+          userFriendlyMessage: msg`A prompt with this name already exists.`,
+        },
+      );
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export type McpPromptArgument = {
+  name: string;
+  description?: string;
+  required?: boolean;
+};
@@ -0,0 +1,18 @@
+import { renderMcpPromptTemplate } from 'src/engine/core-modules/mcp-prompt/utils/render-mcp-prompt-template.util';
+
+describe('renderMcpPromptTemplate', () => {
+  it('should replace the arguments referenced in the template', () => {
+    expect(
+      renderMcpPromptTemplate('Summarize {{ company }} for {{audience}}', {
+        company: 'Acme',
+        audience: 'sales',
+      }),
+    ).toBe('Summarize Acme for sales');
+  });
+
+  it('should keep placeholders without a matching argument', () => {
+    expect(renderMcpPromptTemplate('Hello {{name}}', {})).toBe(
+      'Hello {{name}}',
+    );
+  });
+});
@@ -0,0 +1,31 @@
+import { assertUnreachable } from 'twenty-shared/utils';
+
+import {
+  ConflictError,
+  NotFoundError,
+  UserInputError,
+} from 'src/engine/core-modules/graphql/utils/graphql-errors.util';
+import {
+  McpPromptException,
+  McpPromptExceptionCode,
+} from 'src/engine/core-modules/mcp-prompt/mcp-prompt.exception';
+
+export const mcpPromptGraphqlApiExceptionHandler = (error: Error) => {
+  if (error instanceof McpPromptException) {
+    switch (error.code) {
+      case McpPromptExceptionCode.MCP_PROMPT_NOT_FOUND:
+        throw new NotFoundError(error.message);
+      case McpPromptExceptionCode.MCP_PROMPT_ALREADY_EXISTS:
+        throw new ConflictError(error.message, {
+          userFriendlyMessage: error.userFriendlyMessage,
+        });
+      case McpPromptExceptionCode.MISSING_PROMPT_ARGUMENTS:
+        throw new UserInputError(error.message);
+      default: {
+        return assertUnreachable(error.code);
+      }
+    }
+  }
+
+  throw error;
+};
@@ -0,0 +1,15 @@
+import { isDefined } from 'twenty-shared/utils';
+
+const PROMPT_ARGUMENT_PATTERN = /{{\s*([a-zA-Z0-9_-]+)\s*}}/g;
+
+// Unknown placeholders are left untouched so that templates can mention
+// handlebars-like syntax without declaring it as an argument
+export const renderMcpPromptTemplate = (
+  template: string,
+  promptArguments: Record<string, string>,
+): string =>
+  template.replace(PROMPT_ARGUMENT_PATTERN, (placeholder, argumentName) =>
+    isDefined(promptArguments[argumentName])
+      ? promptArguments[argumentName]
+      : placeholder,
+  );
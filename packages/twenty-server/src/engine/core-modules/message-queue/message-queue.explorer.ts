@@ -8,6 +8,10 @@ import {
 import { Injector } from '@nestjs/core/injector/injector';
 import { type InstanceWrapper } from '@nestjs/core/injector/instance-wrapper';
 import { type Module } from '@nestjs/core/injector/module';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { isDefined } from 'twenty-shared/utils';
+import { Repository } from 'typeorm';
 
 import {
   type MessageQueueJob,
@@ -17,10 +21,22 @@ import { type MessageQueueWorkerOptions } from 'src/engine/core-modules/message-
 
 import { ExceptionHandlerService } from 'src/engine/core-modules/exception-handler/exception-handler.service';
 import { MessageQueueMetadataAccessor } from 'src/engine/core-modules/message-queue/message-queue-metadata.accessor';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
 import { type MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
 import { getQueueToken } from 'src/engine/core-modules/message-queue/utils/get-queue-token.util';
+import { MetricsService } from 'src/engine/core-modules/metrics/metrics.service';
+import { MetricsKeys } from 'src/engine/core-modules/metrics/types/metrics-keys.type';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { shouldCaptureException } from 'src/engine/utils/global-exception-handler.util';
 
+// Disabling a workspace reaches the workers within this delay, which spares a
+// database query before every job
+const WORKSPACE_DISABLED_CACHE_TTL_MS = 30_000;
+
+// Jobs of a disabled workspace are put back in their queue with this delay,
+// so disabling a workspace pauses its work instead of dropping it
+const DISABLED_WORKSPACE_JOB_DELAY_MS = 60 * 60 * 1000;
+
 interface ProcessorGroup {
   instance: object;
   host: Module;
@@ -32,6 +48,10 @@ interface ProcessorGroup {
 export class MessageQueueExplorer implements OnModuleInit {
   private readonly logger = new Logger('MessageQueueModule');
   private readonly injector = new Injector();
+  private readonly workspaceDisabledCache = new Map<
+    string,
+    { isDisabled: boolean; expiresAt: number }
+  >();
 
   constructor(
     private readonly moduleRef: ModuleRef,
@@ -39,6 +59,9 @@ export class MessageQueueExplorer implements OnModuleInit {
     private readonly metadataAccessor: MessageQueueMetadataAccessor,
     private readonly metadataScanner: MetadataScanner,
     private readonly exceptionHandlerService: ExceptionHandlerService,
+    private readonly metricsService: MetricsService,
+    @InjectRepository(WorkspaceEntity)
+    private readonly workspaceRepository: Repository<WorkspaceEntity>,
   ) {}
 
   onModuleInit() {
@@ -65,6 +88,7 @@ export class MessageQueueExplorer implements OnModuleInit {
       const messageQueueService = this.getQueueService(queueToken);
 
       this.handleProcessorGroupCollection(
+        queueName as MessageQueue,
         processorGroupCollection,
         messageQueueService,
       );
@@ -130,17 +154,87 @@ export class MessageQueueExplorer implements OnModuleInit {
   }
 
   private async handleProcessorGroupCollection(
+    queueName: MessageQueue,
     processorGroupCollection: ProcessorGroup[],
     queue: MessageQueueService,
     options?: MessageQueueWorkerOptions,
   ) {
     queue.work(async (job) => {
+      if (await this.isJobWorkspaceDisabled(job)) {
+        await this.postponeDisabledWorkspaceJob(queueName, queue, job);
+
+        return;
+      }
+
       for (const processorGroup of processorGroupCollection) {
         await this.handleProcessor(processorGroup, job);
       }
     }, options);
   }
 
+  private async postponeDisabledWorkspaceJob(
+    queueName: MessageQueue,
+    queue: MessageQueueService,
+    job: MessageQueueJob<MessageQueueJobData>,
+  ) {
+    // A cron job runs again on its next tick once the workspace is enabled
+    if (queueName === MessageQueue.cronQueue) {
+      this.logger.log(
+        `Skipping cron job ${job.name} (${job.id}): workspace ${job.data.workspaceId} is disabled`,
+      );
+      this.metricsService.incrementCounter({
+        key: MetricsKeys.CronJobDisabledWorkspace,
+        attributes: { jobName: job.name },
+        shouldStoreInCache: false,
+      });
+
+      return;
+    }
+
+    this.logger.log(
+      `Postponing job ${job.name} (${job.id}) on queue ${queueName}: workspace ${job.data.workspaceId} is disabled`,
+    );
+    this.metricsService.incrementCounter({
+      key: MetricsKeys.JobPostponedDisabledWorkspace,
+      attributes: { queueName, jobName: job.name },
+      shouldStoreInCache: false,
+    });
+
+    await queue.add(job.name, job.data, {
+      delay: DISABLED_WORKSPACE_JOB_DELAY_MS,
+    });
+  }
+
+  private async isJobWorkspaceDisabled(
+    job: MessageQueueJob<MessageQueueJobData>,
+  ): Promise<boolean> {
+    const workspaceId = job.data?.workspaceId;
+
+    if (typeof workspaceId !== 'string') {
+      return false;
+    }
+
+    const cachedEntry = this.workspaceDisabledCache.get(workspaceId);
+
+    if (isDefined(cachedEntry) && cachedEntry.expiresAt > Date.now()) {
+      return cachedEntry.isDisabled;
+    }
+
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      select: ['id', 'isDisabled'],
+    });
+
+    const isDisabled = workspace?.isDisabled === true;
+
+    this.workspaceDisabledCache.set(workspaceId, {
+      isDisabled,
+      expiresAt: Date.now() + WORKSPACE_DISABLED_CACHE_TTL_MS,
+    });
+
+    return isDisabled;
+  }
+
   private async handleProcessor(
     { instance, host, processMethodNames, isRequestScoped }: ProcessorGroup,
     job: MessageQueueJob<MessageQueueJobData>,
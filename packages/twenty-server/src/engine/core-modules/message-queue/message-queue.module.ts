@@ -1,5 +1,6 @@
 import { type DynamicModule, Global, Module } from '@nestjs/common';
 import { DiscoveryModule } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { MessageQueueCoreModule } from 'src/engine/core-modules/message-queue/message-queue-core.module';
 import { MessageQueueMetadataAccessor } from 'src/engine/core-modules/message-queue/message-queue-metadata.accessor';
@@ -8,6 +9,8 @@ import {
   type ASYNC_OPTIONS_TYPE,
   type OPTIONS_TYPE,
 } from 'src/engine/core-modules/message-queue/message-queue.module-definition';
+import { MetricsModule } from 'src/engine/core-modules/metrics/metrics.module';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 
 @Global()
 @Module({})
@@ -22,7 +25,11 @@ export class MessageQueueModule {
   static registerExplorer(): DynamicModule {
     return {
       module: MessageQueueModule,
-      imports: [DiscoveryModule],
+      imports: [
+        DiscoveryModule,
+        TypeOrmModule.forFeature([WorkspaceEntity]),
+        MetricsModule,
+      ],
       providers: [MessageQueueExplorer, MessageQueueMetadataAccessor],
     };
   }
@@ -17,6 +17,7 @@ export enum MetricsKeys {
   WorkflowRunStartedCronTrigger = 'workflow-run/started/cron-trigger',
   WorkflowRunStartedWebhookTrigger = 'workflow-run/started/webhook-trigger',
   WorkflowRunStartedManualTrigger = 'workflow-run/started/manual-trigger',
+  WorkflowRunStartedEmailReceivedTrigger = 'workflow-run/started/email-received-trigger',
   WorkflowRunCompleted = 'workflow-run/completed',
   WorkflowRunFailed = 'workflow-run/failed',
   WorkflowRunStopped = 'workflow-run/stopped',
@@ -27,6 +28,8 @@ export enum MetricsKeys {
   SchemaVersionMismatch = 'schema-version/mismatch',
   AppVersionMismatch = 'app-version/mismatch',
   CronJobDeletedWorkspace = 'cron-job/deleted-workspace',
+  CronJobDisabledWorkspace = 'cron-job/disabled-workspace',
+  JobPostponedDisabledWorkspace = 'job/postponed-disabled-workspace',
   JobWebhookCallCompleted = 'job/webhook-call-completed',
   SignUpSuccess = 'sign-up/success',
   CommonApiQueryRateLimited = 'common-api-query/rate-limited',
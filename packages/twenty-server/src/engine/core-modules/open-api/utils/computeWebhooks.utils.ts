@@ -23,6 +23,18 @@ export const computeWebhooks = (
       type: 'string',
     },
   };
+  const diff = {
+    type: 'object',
+    description:
+      'Sent by webhooks using the DIFF payload format, the record then only contains its id',
+    additionalProperties: {
+      type: 'object',
+      properties: {
+        before: {},
+        after: {},
+      },
+    },
+  };
 
   return {
     post: {
@@ -120,7 +132,10 @@ export const computeWebhooks = (
                 record: {
                   $ref: `#/components/schemas/${capitalize(item.nameSingular)}ForResponse`,
                 },
-                ...(type === DatabaseEventAction.UPDATED && { updatedFields }),
+                ...(type === DatabaseEventAction.UPDATED && {
+                  updatedFields,
+                  diff,
+                }),
               },
             },
           },
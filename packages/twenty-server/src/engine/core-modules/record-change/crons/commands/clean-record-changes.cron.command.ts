@@ -0,0 +1,33 @@
+import { Command, CommandRunner } from 'nest-commander';
+
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import {
+  CLEAN_RECORD_CHANGES_CRON_PATTERN,
+  CleanRecordChangesCronJob,
+} from 'src/engine/core-modules/record-change/crons/jobs/clean-record-changes.cron.job';
+
+@Command({
+  name: 'cron:record-change:clean',
+  description:
+    'Starts a cron job to delete record changes older than the retention period',
+})
+export class CleanRecordChangesCronCommand extends CommandRunner {
+  constructor(
+    @InjectMessageQueue(MessageQueue.cronQueue)
+    private readonly messageQueueService: MessageQueueService,
+  ) {
+    super();
+  }
+
+  async run(): Promise<void> {
+    await this.messageQueueService.addCron<undefined>({
+      jobName: CleanRecordChangesCronJob.name,
+      data: undefined,
+      options: {
+        repeat: { pattern: CLEAN_RECORD_CHANGES_CRON_PATTERN },
+      },
+    });
+  }
+}
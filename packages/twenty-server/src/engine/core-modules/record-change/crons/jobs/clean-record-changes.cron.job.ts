@@ -0,0 +1,36 @@
+import { Logger } from '@nestjs/common';
+
+import { SentryCronMonitor } from 'src/engine/core-modules/cron/sentry-cron-monitor.decorator';
+import { ExceptionHandlerService } from 'src/engine/core-modules/exception-handler/exception-handler.service';
+import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
+import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { RecordChangeService } from 'src/engine/core-modules/record-change/services/record-change.service';
+
+export const CLEAN_RECORD_CHANGES_CRON_PATTERN = '0 3 * * *';
+
+@Processor(MessageQueue.cronQueue)
+export class CleanRecordChangesCronJob {
+  private readonly logger = new Logger(CleanRecordChangesCronJob.name);
+
+  constructor(
+    private readonly recordChangeService: RecordChangeService,
+    private readonly exceptionHandlerService: ExceptionHandlerService,
+  ) {}
+
+  @Process(CleanRecordChangesCronJob.name)
+  @SentryCronMonitor(
+    CleanRecordChangesCronJob.name,
+    CLEAN_RECORD_CHANGES_CRON_PATTERN,
+  )
+  async handle(): Promise<void> {
+    try {
+      const deletedCount =
+        await this.recordChangeService.deleteExpiredChanges();
+
+      this.logger.log(`Deleted ${deletedCount} expired record changes`);
+    } catch (error) {
+      this.exceptionHandlerService.captureExceptions([error]);
+    }
+  }
+}
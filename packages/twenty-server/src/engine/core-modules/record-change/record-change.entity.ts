@@ -0,0 +1,73 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { Relation } from 'src/engine/workspace-manager/workspace-sync-metadata/interfaces/relation.interface';
+
+import { DatabaseEventAction } from 'src/engine/api/graphql/graphql-query-runner/enums/database-event-action';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+// Append-only change log of workspace records, written in the transaction that
+// changed the record. The transaction id then the sequential id give the order
+// of the feed, destroyed records are kept as tombstones without record.
+@Entity({ name: 'recordChange', schema: 'core' })
+@Index('IDX_RECORD_CHANGE_WORKSPACE_ID_TRANSACTION_ID_ID', [
+  'workspaceId',
+  'transactionId',
+  'id',
+])
+@Index('IDX_RECORD_CHANGE_WORKSPACE_ID_RECORD_ID_TRANSACTION_ID', [
+  'workspaceId',
+  'recordId',
+  'transactionId',
+])
+@Index('IDX_RECORD_CHANGE_CREATED_AT', ['createdAt'])
+export class RecordChangeEntity {
+  // bigint columns are returned as strings by the postgres driver
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  // Id of the transaction that made the change, raised to the one of the
+  // previous change of the record so that its changes stay in commit order
+  @Column({ type: 'bigint', nullable: false })
+  transactionId: string;
+
+  @Column({ nullable: false, type: 'uuid' })
+  workspaceId: string;
+
+  @ManyToOne(() => WorkspaceEntity, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'workspaceId' })
+  workspace: Relation<WorkspaceEntity>;
+
+  @Column({ nullable: false, type: 'uuid' })
+  objectMetadataId: string;
+
+  @Column({ nullable: false })
+  objectNameSingular: string;
+
+  @Column({ nullable: false, type: 'uuid' })
+  recordId: string;
+
+  @Column({
+    type: 'enum',
+    enum: Object.values(DatabaseEventAction),
+  })
+  action: DatabaseEventAction;
+
+  @Column({ type: 'jsonb', nullable: true })
+  record: Record<string, unknown> | null;
+
+  @Column({ type: 'text', array: true, nullable: true })
+  updatedFields: string[] | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,8 @@
+import { CustomException } from 'src/utils/custom-exception';
+
+export class RecordChangeException extends CustomException<RecordChangeExceptionCode> {}
+
+export enum RecordChangeExceptionCode {
+  INVALID_CURSOR = 'INVALID_CURSOR',
+  CURSOR_EXPIRED = 'CURSOR_EXPIRED',
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { CleanRecordChangesCronCommand } from 'src/engine/core-modules/record-change/crons/commands/clean-record-changes.cron.command';
+import { CleanRecordChangesCronJob } from 'src/engine/core-modules/record-change/crons/jobs/clean-record-changes.cron.job';
+import { RecordChangeEntity } from 'src/engine/core-modules/record-change/record-change.entity';
+import { RecordChangeService } from 'src/engine/core-modules/record-change/services/record-change.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([RecordChangeEntity])],
+  providers: [
+    RecordChangeService,
+    CleanRecordChangesCronJob,
+    CleanRecordChangesCronCommand,
+  ],
+  exports: [RecordChangeService, CleanRecordChangesCronCommand],
+})
+export class RecordChangeModule {}
@@ -0,0 +1,188 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { DatabaseEventAction } from 'src/engine/api/graphql/graphql-query-runner/enums/database-event-action';
+import { RecordChangeEntity } from 'src/engine/core-modules/record-change/record-change.entity';
+import {
+  RecordChangeException,
+  RecordChangeExceptionCode,
+} from 'src/engine/core-modules/record-change/record-change.exception';
+import { RecordChangeService } from 'src/engine/core-modules/record-change/services/record-change.service';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+
+const WORKSPACE_ID = '20202020-1c25-4d02-bf25-6aeccf7ea419';
+const OBJECT_METADATA_ID = '20202020-b374-4779-a561-80086cb2e17f';
+
+const buildRecordChange = (
+  overrides: Partial<RecordChangeEntity>,
+): RecordChangeEntity =>
+  ({
+    id: '1',
+    transactionId: '100',
+    workspaceId: WORKSPACE_ID,
+    objectMetadataId: OBJECT_METADATA_ID,
+    objectNameSingular: 'company',
+    recordId: '20202020-0b5d-4b0e-9b6e-5b0a0c4e0b2a',
+    action: DatabaseEventAction.CREATED,
+    record: { name: 'Acme' },
+    updatedFields: null,
+    createdAt: new Date(),
+    ...overrides,
+  }) as RecordChangeEntity;
+
+describe('RecordChangeService', () => {
+  let service: RecordChangeService;
+  let queryBuilder: {
+    where: jest.Mock;
+    andWhere: jest.Mock;
+    orderBy: jest.Mock;
+    addOrderBy: jest.Mock;
+    limit: jest.Mock;
+    getMany: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    queryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecordChangeService,
+        {
+          provide: getRepositoryToken(RecordChangeEntity),
+          useValue: {
+            createQueryBuilder: jest.fn().mockReturnValue(queryBuilder),
+          },
+        },
+        {
+          provide: TwentyConfigService,
+          useValue: { get: jest.fn().mockReturnValue(7) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RecordChangeService>(RecordChangeService);
+  });
+
+  describe('findChanges', () => {
+    it('should only serve changes of transactions older than every running one', async () => {
+      await service.findChanges({
+        workspaceId: WORKSPACE_ID,
+        objectMetadataIds: [OBJECT_METADATA_ID],
+        limit: 10,
+      });
+
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'recordChange.workspaceId = :workspaceId',
+        { workspaceId: WORKSPACE_ID },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'recordChange.objectMetadataId IN (:...objectMetadataIds)',
+        { objectMetadataIds: [OBJECT_METADATA_ID] },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'recordChange.transactionId < pg_snapshot_xmin(pg_current_snapshot())::text::bigint',
+      );
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+        'recordChange.transactionId',
+        'ASC',
+      );
+      expect(queryBuilder.addOrderBy).toHaveBeenCalledWith(
+        'recordChange.id',
+        'ASC',
+      );
+    });
+
+    it('should resume after the transaction id and id of the cursor', async () => {
+      await service.findChanges({
+        workspaceId: WORKSPACE_ID,
+        since: { transactionId: '100', id: '7', createdAt: new Date() },
+        objectMetadataIds: [OBJECT_METADATA_ID],
+        limit: 10,
+      });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        '(recordChange.transactionId, recordChange.id) > (:sinceTransactionId, :sinceId)',
+        { sinceTransactionId: '100', sinceId: '7' },
+      );
+    });
+
+    it('should return one page and whether more changes follow', async () => {
+      const recordChanges = [
+        buildRecordChange({ id: '1' }),
+        buildRecordChange({ id: '2' }),
+        buildRecordChange({ id: '3' }),
+      ];
+
+      queryBuilder.getMany.mockResolvedValue(recordChanges);
+
+      const result = await service.findChanges({
+        workspaceId: WORKSPACE_ID,
+        objectMetadataIds: [OBJECT_METADATA_ID],
+        limit: 2,
+      });
+
+      expect(queryBuilder.limit).toHaveBeenCalledWith(3);
+      expect(result).toEqual({
+        recordChanges: recordChanges.slice(0, 2),
+        hasNextPage: true,
+      });
+    });
+
+    it('should return tombstones of destroyed records', async () => {
+      const tombstone = buildRecordChange({
+        action: DatabaseEventAction.DESTROYED,
+        record: null,
+      });
+
+      queryBuilder.getMany.mockResolvedValue([tombstone]);
+
+      const result = await service.findChanges({
+        workspaceId: WORKSPACE_ID,
+        objectMetadataIds: [OBJECT_METADATA_ID],
+        limit: 10,
+      });
+
+      expect(result).toEqual({
+        recordChanges: [tombstone],
+        hasNextPage: false,
+      });
+    });
+
+    it('should not query changes when no object can be read', async () => {
+      const result = await service.findChanges({
+        workspaceId: WORKSPACE_ID,
+        objectMetadataIds: [],
+        limit: 10,
+      });
+
+      expect(result).toEqual({ recordChanges: [], hasNextPage: false });
+      expect(queryBuilder.getMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a cursor older than the retention period', async () => {
+      const findChanges = service.findChanges({
+        workspaceId: WORKSPACE_ID,
+        since: {
+          transactionId: '100',
+          id: '7',
+          createdAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000),
+        },
+        objectMetadataIds: [OBJECT_METADATA_ID],
+        limit: 10,
+      });
+
+      await expect(findChanges).rejects.toThrow(RecordChangeException);
+      await expect(findChanges).rejects.toMatchObject({
+        code: RecordChangeExceptionCode.CURSOR_EXPIRED,
+      });
+      expect(queryBuilder.getMany).not.toHaveBeenCalled();
+    });
+  });
+});
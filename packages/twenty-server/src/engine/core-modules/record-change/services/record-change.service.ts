@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { isDefined } from 'twenty-shared/utils';
+import { LessThan, Repository } from 'typeorm';
+
+import { RecordChangeEntity } from 'src/engine/core-modules/record-change/record-change.entity';
+import {
+  RecordChangeException,
+  RecordChangeExceptionCode,
+} from 'src/engine/core-modules/record-change/record-change.exception';
+import { type RecordChangeCursor } from 'src/engine/core-modules/record-change/utils/record-change-cursor.util';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class RecordChangeService {
+  constructor(
+    @InjectRepository(RecordChangeEntity)
+    private readonly recordChangeRepository: Repository<RecordChangeEntity>,
+    private readonly twentyConfigService: TwentyConfigService,
+  ) {}
+
+  async findChanges({
+    workspaceId,
+    since,
+    objectMetadataIds,
+    limit,
+  }: {
+    workspaceId: string;
+    since?: RecordChangeCursor;
+    objectMetadataIds: string[];
+    limit: number;
+  }): Promise<{ recordChanges: RecordChangeEntity[]; hasNextPage: boolean }> {
+    if (isDefined(since) && since.createdAt < this.getRetentionCutoffDate()) {
+      throw new RecordChangeException(
+        'Cursor is older than the change retention period, records must be fully resynced',
+        RecordChangeExceptionCode.CURSOR_EXPIRED,
+      );
+    }
+
+    if (objectMetadataIds.length === 0) {
+      return { recordChanges: [], hasNextPage: false };
+    }
+
+    const queryBuilder = this.recordChangeRepository
+      .createQueryBuilder('recordChange')
+      .where('recordChange.workspaceId = :workspaceId', { workspaceId })
+      .andWhere('recordChange.objectMetadataId IN (:...objectMetadataIds)', {
+        objectMetadataIds,
+      })
+      // A transaction can commit after a later one was read, only changes
+      // written by transactions older than every running one are served so
+      // that no cursor skips a change committed afterwards
+      .andWhere(
+        'recordChange.transactionId < pg_snapshot_xmin(pg_current_snapshot())::text::bigint',
+      );
+
+    if (isDefined(since)) {
+      queryBuilder.andWhere(
+        '(recordChange.transactionId, recordChange.id) > (:sinceTransactionId, :sinceId)',
+        { sinceTransactionId: since.transactionId, sinceId: since.id },
+      );
+    }
+
+    const recordChanges = await queryBuilder
+      .orderBy('recordChange.transactionId', 'ASC')
+      .addOrderBy('recordChange.id', 'ASC')
+      .limit(limit + 1)
+      .getMany();
+
+    return {
+      recordChanges: recordChanges.slice(0, limit),
+      hasNextPage: recordChanges.length > limit,
+    };
+  }
+
+  async deleteExpiredChanges(): Promise<number> {
+    const { affected } = await this.recordChangeRepository.delete({
+      createdAt: LessThan(this.getRetentionCutoffDate()),
+    });
+
+    return affected ?? 0;
+  }
+
+  private getRetentionCutoffDate(): Date {
+    return new Date(
+      Date.now() -
+        this.twentyConfigService.get('RECORD_CHANGE_RETENTION_DAYS') *
+          DAY_IN_MS,
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { type ObjectLiteral, type QueryRunner } from 'typeorm';
+
+import { DatabaseEventAction } from 'src/engine/api/graphql/graphql-query-runner/enums/database-event-action';
+import { insertRecordChanges } from 'src/engine/core-modules/record-change/utils/insert-record-changes.util';
+import { getFlatObjectMetadataMock } from 'src/engine/metadata-modules/flat-object-metadata/__mocks__/get-flat-object-metadata.mock';
+import { type DatabaseBatchEventInput } from 'src/engine/workspace-event-emitter/workspace-event-emitter';
+
+const WORKSPACE_ID = '20202020-1c25-4d02-bf25-6aeccf7ea419';
+const RECORD_ID = '20202020-0b5d-4b0e-9b6e-5b0a0c4e0b2a';
+
+const objectMetadata = getFlatObjectMetadataMock({
+  universalIdentifier: 'company',
+  id: '20202020-b374-4779-a561-80086cb2e17f',
+  nameSingular: 'company',
+  namePlural: 'companies',
+});
+
+const buildBatchEvent = (
+  action: DatabaseEventAction,
+  properties: Record<string, unknown>,
+) =>
+  ({
+    objectMetadataNameSingular: 'company',
+    action,
+    events: [{ recordId: RECORD_ID, properties }],
+    objectMetadata,
+    workspaceId: WORKSPACE_ID,
+  }) as unknown as DatabaseBatchEventInput<ObjectLiteral, DatabaseEventAction>;
+
+describe('insertRecordChanges', () => {
+  let queryRunner: { query: jest.Mock };
+
+  beforeEach(() => {
+    queryRunner = { query: jest.fn() };
+  });
+
+  const getInsertedChanges = () =>
+    JSON.parse(queryRunner.query.mock.calls[0][1][4]);
+
+  it('should insert the changes with their record and updated fields', async () => {
+    await insertRecordChanges(
+      queryRunner as unknown as QueryRunner,
+      buildBatchEvent(DatabaseEventAction.UPDATED, {
+        before: { id: RECORD_ID, name: 'Acme' },
+        after: { id: RECORD_ID, name: 'Acme Inc' },
+        updatedFields: ['name'],
+      }),
+    );
+
+    expect(queryRunner.query).toHaveBeenCalledWith(expect.any(String), [
+      WORKSPACE_ID,
+      objectMetadata.id,
+      'company',
+      DatabaseEventAction.UPDATED,
+      expect.any(String),
+    ]);
+    expect(getInsertedChanges()).toEqual([
+      {
+        recordId: RECORD_ID,
+        record: { id: RECORD_ID, name: 'Acme Inc' },
+        updatedFields: ['name'],
+      },
+    ]);
+  });
+
+  it('should insert a tombstone without record for a destroyed record', async () => {
+    await insertRecordChanges(
+      queryRunner as unknown as QueryRunner,
+      buildBatchEvent(DatabaseEventAction.DESTROYED, {
+        before: { id: RECORD_ID, name: 'Acme' },
+      }),
+    );
+
+    expect(getInsertedChanges()).toEqual([
+      { recordId: RECORD_ID, record: null, updatedFields: null },
+    ]);
+  });
+
+  it('should not insert changes for upserted records', async () => {
+    await insertRecordChanges(
+      queryRunner as unknown as QueryRunner,
+      buildBatchEvent(DatabaseEventAction.UPSERTED, {
+        after: { id: RECORD_ID, name: 'Acme' },
+      }),
+    );
+
+    expect(queryRunner.query).not.toHaveBeenCalled();
+  });
+});
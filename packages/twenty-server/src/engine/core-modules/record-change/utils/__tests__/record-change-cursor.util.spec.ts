@@ -0,0 +1,44 @@
+import { RecordChangeException } from 'src/engine/core-modules/record-change/record-change.exception';
+import {
+  decodeRecordChangeCursor,
+  encodeRecordChangeCursor,
+} from 'src/engine/core-modules/record-change/utils/record-change-cursor.util';
+
+describe('recordChangeCursor', () => {
+  it('should decode an encoded cursor', () => {
+    const createdAt = new Date('2026-03-01T10:00:00.123Z');
+
+    const cursor = encodeRecordChangeCursor({
+      transactionId: '9007199254740995',
+      id: '9007199254740993',
+      createdAt,
+    });
+
+    expect(decodeRecordChangeCursor(cursor)).toEqual({
+      transactionId: '9007199254740995',
+      id: '9007199254740993',
+      createdAt,
+    });
+  });
+
+  it('should produce url safe cursors', () => {
+    const cursor = encodeRecordChangeCursor({
+      transactionId: '987654321',
+      id: '123456789',
+      createdAt: new Date('2026-03-01T10:00:00.000Z'),
+    });
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it.each([
+    '',
+    'not-a-cursor',
+    Buffer.from('12:abc').toString('base64url'),
+    Buffer.from('12:1772359200000').toString('base64url'),
+  ])('should throw on invalid cursor %p', (cursor) => {
+    expect(() => decodeRecordChangeCursor(cursor)).toThrow(
+      RecordChangeException,
+    );
+  });
+});
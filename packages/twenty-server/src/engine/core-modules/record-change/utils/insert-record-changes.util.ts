@@ -0,0 +1,70 @@
+import { isDefined } from 'twenty-shared/utils';
+import { type ObjectLiteral, type QueryRunner } from 'typeorm';
+
+import { DatabaseEventAction } from 'src/engine/api/graphql/graphql-query-runner/enums/database-event-action';
+import { transformEventToWebhookEvent } from 'src/engine/core-modules/webhook/utils/transform-event-to-webhook-event';
+import { computeEventName } from 'src/engine/workspace-event-emitter/utils/compute-event-name';
+import { type DatabaseBatchEventInput } from 'src/engine/workspace-event-emitter/workspace-event-emitter';
+
+const RECORDED_ACTIONS: DatabaseEventAction[] = [
+  DatabaseEventAction.CREATED,
+  DatabaseEventAction.UPDATED,
+  DatabaseEventAction.DELETED,
+  DatabaseEventAction.RESTORED,
+  DatabaseEventAction.DESTROYED,
+];
+
+// A change is ordered after the previous changes of its record even when its
+// transaction got its id first: the record lock made it wait for their commit
+const INSERT_RECORD_CHANGES_QUERY = `INSERT INTO "core"."recordChange" ("workspaceId", "objectMetadataId", "objectNameSingular", "recordId", "action", "record", "updatedFields", "transactionId")
+SELECT $1::uuid, $2::uuid, $3, "change"."recordId", $4::"core"."recordChange_action_enum", "change"."record", "change"."updatedFields",
+  GREATEST(
+    pg_current_xact_id()::text::bigint,
+    (SELECT MAX("previousChange"."transactionId") FROM "core"."recordChange" "previousChange" WHERE "previousChange"."workspaceId" = $1::uuid AND "previousChange"."recordId" = "change"."recordId")
+  )
+FROM jsonb_to_recordset($5::jsonb) AS "change"("recordId" uuid, "record" jsonb, "updatedFields" text[])`;
+
+// Must run in the transaction that changed the records so that a change is
+// committed, and becomes visible to the feed, along with the record
+export const insertRecordChanges = async (
+  queryRunner: QueryRunner,
+  {
+    action,
+    events,
+    objectMetadata,
+    workspaceId,
+  }: DatabaseBatchEventInput<ObjectLiteral, DatabaseEventAction>,
+): Promise<void> => {
+  if (!RECORDED_ACTIONS.includes(action)) {
+    return;
+  }
+
+  const eventName = computeEventName(objectMetadata.nameSingular, action);
+
+  const changes = events
+    .filter((event) => isDefined(event.recordId))
+    .map((event) => {
+      const { record, updatedFields } = transformEventToWebhookEvent({
+        eventName,
+        event,
+      });
+
+      return {
+        recordId: event.recordId,
+        record: action === DatabaseEventAction.DESTROYED ? null : record,
+        updatedFields: updatedFields ?? null,
+      };
+    });
+
+  if (changes.length === 0) {
+    return;
+  }
+
+  await queryRunner.query(INSERT_RECORD_CHANGES_QUERY, [
+    workspaceId,
+    objectMetadata.id,
+    objectMetadata.nameSingular,
+    action,
+    JSON.stringify(changes),
+  ]);
+};
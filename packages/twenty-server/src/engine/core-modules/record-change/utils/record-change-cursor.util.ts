@@ -0,0 +1,43 @@
+import {
+  RecordChangeException,
+  RecordChangeExceptionCode,
+} from 'src/engine/core-modules/record-change/record-change.exception';
+
+const CURSOR_PART_PATTERN = /^\d+$/;
+
+export type RecordChangeCursor = {
+  transactionId: string;
+  id: string;
+  createdAt: Date;
+};
+
+// The change date travels with the position so that a cursor older than the
+// retention period can be detected without looking for purged rows
+export const encodeRecordChangeCursor = ({
+  transactionId,
+  id,
+  createdAt,
+}: RecordChangeCursor): string =>
+  Buffer.from(`${transactionId}:${id}:${createdAt.getTime()}`).toString(
+    'base64url',
+  );
+
+export const decodeRecordChangeCursor = (
+  cursor: string,
+): RecordChangeCursor => {
+  const parts = Buffer.from(cursor, 'base64url').toString().split(':');
+
+  if (
+    parts.length !== 3 ||
+    !parts.every((part) => CURSOR_PART_PATTERN.test(part))
+  ) {
+    throw new RecordChangeException(
+      `Cursor '${cursor}' is invalid`,
+      RecordChangeExceptionCode.INVALID_CURSOR,
+    );
+  }
+
+  const [transactionId, id, timestamp] = parts;
+
+  return { transactionId, id, createdAt: new Date(Number(timestamp)) };
+};
@@ -0,0 +1,22 @@
+import { BadRequestException, HttpException, HttpStatus } from '@nestjs/common';
+
+import { assertUnreachable } from 'twenty-shared/utils';
+
+import {
+  type RecordChangeException,
+  RecordChangeExceptionCode,
+} from 'src/engine/core-modules/record-change/record-change.exception';
+
+export const recordChangeToRestApiExceptionHandler = (
+  error: RecordChangeException,
+): never => {
+  switch (error.code) {
+    case RecordChangeExceptionCode.INVALID_CURSOR:
+      throw new BadRequestException(error.message);
+    case RecordChangeExceptionCode.CURSOR_EXPIRED:
+      throw new HttpException(error.message, HttpStatus.GONE);
+    default: {
+      return assertUnreachable(error.code);
+    }
+  }
+};
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+import { type SaasAdminKeyScope } from 'src/engine/core-modules/saas-admin-key/enums/saas-admin-key-scope.enum';
+
+export const SAAS_ADMIN_KEY_SCOPE_METADATA = 'saas-admin-key-scope';
+
+// Scope a SaaS admin key needs to call the endpoint, checked by
+// SaasAdminKeyGuard. Endpoints without a scope only accept SAAS_ADMIN_KEY.
+export const RequireSaasAdminKeyScope = (scope: SaasAdminKeyScope) =>
+  SetMetadata(SAAS_ADMIN_KEY_SCOPE_METADATA, scope);
@@ -0,0 +1,10 @@
+export enum SaasAdminKeyScope {
+  TENANTS_READ = 'tenants:read',
+  TENANTS_WRITE = 'tenants:write',
+  TENANTS_TOGGLE = 'tenants:toggle',
+  TENANTS_DELETE = 'tenants:delete',
+  TENANTS_ARCHIVE = 'tenants:archive',
+  RECORDS_QUERY = 'records:query',
+  KEYS_MANAGE = 'keys:manage',
+  WORKFLOWS_DEPLOY = 'workflows:deploy',
+}
@@ -0,0 +1,58 @@
+import {
+  type ArgumentsHost,
+  Catch,
+  type ExceptionFilter,
+} from '@nestjs/common';
+
+import { type Response } from 'express';
+
+import { HttpExceptionHandlerService } from 'src/engine/core-modules/exception-handler/http-exception-handler.service';
+import {
+  SaasAdminKeyException,
+  SaasAdminKeyExceptionCode,
+} from 'src/engine/core-modules/saas-admin-key/saas-admin-key.exception';
+
+@Catch(SaasAdminKeyException)
+export class SaasAdminKeyRestApiExceptionFilter implements ExceptionFilter {
+  constructor(
+    private readonly httpExceptionHandlerService: HttpExceptionHandlerService,
+  ) {}
+
+  catch(exception: SaasAdminKeyException, host: ArgumentsHost) {
+    const ctx = host.switchToHttp();
+    const response = ctx.getResponse<Response>();
+
+    switch (exception.code) {
+      case SaasAdminKeyExceptionCode.KEY_NOT_FOUND:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          404,
+        );
+      case SaasAdminKeyExceptionCode.INVALID_KEY_INPUT:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          400,
+        );
+      case SaasAdminKeyExceptionCode.SCOPE_NOT_GRANTED:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          403,
+        );
+      case SaasAdminKeyExceptionCode.KEY_REVOKED:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          409,
+        );
+      default:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          500,
+        );
+    }
+  }
+}
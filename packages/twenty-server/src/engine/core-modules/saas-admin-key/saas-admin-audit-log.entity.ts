@@ -0,0 +1,42 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+// One row per authenticated SaaS admin API call, including calls denied
+// for a missing scope. keyId is null for calls made with SAAS_ADMIN_KEY and
+// has no foreign key so that the trail outlives revoked keys.
+@Entity({ name: 'saasAdminAuditLog', schema: 'core' })
+@Index('IDX_SAAS_ADMIN_AUDIT_LOG_KEY_ID_CREATED_AT', ['keyId', 'createdAt'])
+@Index('IDX_SAAS_ADMIN_AUDIT_LOG_CREATED_AT', ['createdAt'])
+export class SaasAdminAuditLogEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  keyId: string | null;
+
+  @Column({ type: 'varchar', nullable: false })
+  keyName: string;
+
+  @Column({ type: 'varchar', nullable: false })
+  method: string;
+
+  @Column({ type: 'varchar', nullable: false })
+  path: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  scope: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  tenantId: string | null;
+
+  @Column({ type: 'boolean', nullable: false })
+  isAllowed: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,55 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+import { SaasAdminKeyScope } from 'src/engine/core-modules/saas-admin-key/enums/saas-admin-key-scope.enum';
+
+// Named SaaS admin API key. Only the SHA-256 hash of the key is stored, the
+// prefix is kept so that operators can tell keys apart.
+@Entity({ name: 'saasAdminKey', schema: 'core' })
+@Index('IDX_SAAS_ADMIN_KEY_KEY_HASH_UNIQUE', ['keyHash'], { unique: true })
+export class SaasAdminKeyEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', nullable: false })
+  name: string;
+
+  @Column({ type: 'varchar', nullable: false, select: false })
+  keyHash: string;
+
+  @Column({ type: 'varchar', nullable: false })
+  keyPrefix: string;
+
+  @Column({
+    type: 'enum',
+    enum: Object.values(SaasAdminKeyScope),
+    array: true,
+    nullable: false,
+  })
+  scopes: SaasAdminKeyScope[];
+
+  @Column({ type: 'timestamptz', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  revokedAt: Date | null;
+
+  // Key this one replaced when it was created by a rotation
+  @Column({ type: 'uuid', nullable: true })
+  rotatedFromKeyId: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
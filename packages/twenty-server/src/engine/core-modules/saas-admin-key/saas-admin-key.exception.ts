@@ -0,0 +1,10 @@
+import { CustomException } from 'src/utils/custom-exception';
+
+export class SaasAdminKeyException extends CustomException<SaasAdminKeyExceptionCode> {}
+
+export enum SaasAdminKeyExceptionCode {
+  KEY_NOT_FOUND = 'KEY_NOT_FOUND',
+  KEY_REVOKED = 'KEY_REVOKED',
+  INVALID_KEY_INPUT = 'INVALID_KEY_INPUT',
+  SCOPE_NOT_GRANTED = 'SCOPE_NOT_GRANTED',
+}
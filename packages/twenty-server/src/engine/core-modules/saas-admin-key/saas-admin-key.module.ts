@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { SaasAdminAuditLogEntity } from 'src/engine/core-modules/saas-admin-key/saas-admin-audit-log.entity';
+import { SaasAdminKeyEntity } from 'src/engine/core-modules/saas-admin-key/saas-admin-key.entity';
+import { SaasAdminKeyService } from 'src/engine/core-modules/saas-admin-key/services/saas-admin-key.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([SaasAdminKeyEntity, SaasAdminAuditLogEntity]),
+  ],
+  providers: [SaasAdminKeyService],
+  exports: [SaasAdminKeyService],
+})
+export class SaasAdminKeyModule {}
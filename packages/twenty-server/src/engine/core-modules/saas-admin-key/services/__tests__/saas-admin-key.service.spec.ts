@@ -0,0 +1,159 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { createHash } from 'crypto';
+
+import { SaasAdminKeyScope } from 'src/engine/core-modules/saas-admin-key/enums/saas-admin-key-scope.enum';
+import { SaasAdminAuditLogEntity } from 'src/engine/core-modules/saas-admin-key/saas-admin-audit-log.entity';
+import { SaasAdminKeyEntity } from 'src/engine/core-modules/saas-admin-key/saas-admin-key.entity';
+import { SaasAdminKeyExceptionCode } from 'src/engine/core-modules/saas-admin-key/saas-admin-key.exception';
+import { SaasAdminKeyService } from 'src/engine/core-modules/saas-admin-key/services/saas-admin-key.service';
+
+describe('SaasAdminKeyService', () => {
+  let service: SaasAdminKeyService;
+  let keyRepository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    findOne: jest.Mock;
+    update: jest.Mock;
+  };
+
+  const activeKey = {
+    id: 'key-id',
+    name: 'billing',
+    scopes: [SaasAdminKeyScope.TENANTS_TOGGLE],
+    expiresAt: null,
+    revokedAt: null,
+  };
+
+  beforeEach(async () => {
+    keyRepository = {
+      create: jest.fn((key) => key),
+      save: jest.fn(async (key) => ({ id: 'new-key-id', ...key })),
+      findOne: jest.fn().mockResolvedValue(activeKey),
+      update: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SaasAdminKeyService,
+        {
+          provide: getRepositoryToken(SaasAdminKeyEntity),
+          useValue: keyRepository,
+        },
+        {
+          provide: getRepositoryToken(SaasAdminAuditLogEntity),
+          useValue: { insert: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(SaasAdminKeyService);
+  });
+
+  it('should store only the hash of a created key', async () => {
+    const { key, plainKey } = await service.createKey(
+      {
+        name: 'billing',
+        scopes: [SaasAdminKeyScope.TENANTS_TOGGLE],
+      },
+      null,
+    );
+
+    const [savedKey] = keyRepository.save.mock.calls[0];
+
+    expect(plainKey).toMatch(/^sak_/);
+    expect(savedKey.keyHash).toBe(
+      createHash('sha256').update(plainKey).digest('hex'),
+    );
+    expect(savedKey.keyPrefix).toBe(plainKey.slice(0, 12));
+    expect(key).not.toHaveProperty('keyHash');
+  });
+
+  it('should reject unknown scopes', async () => {
+    await expect(
+      service.createKey(
+        { name: 'billing', scopes: ['tenants:everything'] },
+        null,
+      ),
+    ).rejects.toMatchObject({
+      code: SaasAdminKeyExceptionCode.INVALID_KEY_INPUT,
+    });
+  });
+
+  it('should not authenticate an expired key', async () => {
+    keyRepository.findOne.mockResolvedValue({
+      ...activeKey,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    await expect(service.authenticate('sak_expired')).resolves.toBeNull();
+    expect(keyRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should track the last use of an active key', async () => {
+    await expect(service.authenticate('sak_active')).resolves.toBe(activeKey);
+    expect(keyRepository.update).toHaveBeenCalledWith('key-id', {
+      lastUsedAt: expect.any(Date),
+    });
+  });
+
+  it('should revoke the previous key on rotation', async () => {
+    const { key } = await service.rotateKey('key-id', null);
+
+    expect(key).toMatchObject({
+      name: 'billing',
+      scopes: [SaasAdminKeyScope.TENANTS_TOGGLE],
+      rotatedFromKeyId: 'key-id',
+    });
+    expect(keyRepository.update).toHaveBeenCalledWith('key-id', {
+      revokedAt: expect.any(Date),
+    });
+  });
+
+  describe('when called with a named key', () => {
+    const keyManager = {
+      id: 'key-manager-id',
+      name: 'key-manager',
+      scopes: [SaasAdminKeyScope.KEYS_MANAGE, SaasAdminKeyScope.TENANTS_READ],
+    } as SaasAdminKeyEntity;
+
+    it('should create a key with scopes the named key holds', async () => {
+      await expect(
+        service.createKey(
+          { name: 'reader', scopes: [SaasAdminKeyScope.TENANTS_READ] },
+          keyManager,
+        ),
+      ).resolves.toMatchObject({
+        key: { scopes: [SaasAdminKeyScope.TENANTS_READ] },
+      });
+    });
+
+    it('should not create a key with a scope the named key lacks', async () => {
+      await expect(
+        service.createKey(
+          { name: 'deleter', scopes: [SaasAdminKeyScope.TENANTS_DELETE] },
+          keyManager,
+        ),
+      ).rejects.toMatchObject({
+        code: SaasAdminKeyExceptionCode.SCOPE_NOT_GRANTED,
+      });
+      expect(keyRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should not rotate or revoke a key holding a scope the named key lacks', async () => {
+      await expect(
+        service.rotateKey('key-id', keyManager),
+      ).rejects.toMatchObject({
+        code: SaasAdminKeyExceptionCode.SCOPE_NOT_GRANTED,
+      });
+      await expect(
+        service.revokeKey('key-id', keyManager),
+      ).rejects.toMatchObject({
+        code: SaasAdminKeyExceptionCode.SCOPE_NOT_GRANTED,
+      });
+      expect(keyRepository.save).not.toHaveBeenCalled();
+      expect(keyRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { createHash, randomBytes } from 'crypto';
+
+import { isNonEmptyString } from '@sniptt/guards';
+import { isDefined } from 'twenty-shared/utils';
+import { Repository } from 'typeorm';
+
+import { SaasAdminKeyScope } from 'src/engine/core-modules/saas-admin-key/enums/saas-admin-key-scope.enum';
+import { SaasAdminAuditLogEntity } from 'src/engine/core-modules/saas-admin-key/saas-admin-audit-log.entity';
+import { SaasAdminKeyEntity } from 'src/engine/core-modules/saas-admin-key/saas-admin-key.entity';
+import {
+  SaasAdminKeyException,
+  SaasAdminKeyExceptionCode,
+} from 'src/engine/core-modules/saas-admin-key/saas-admin-key.exception';
+
+const KEY_PREFIX = 'sak_';
+const DISPLAYED_PREFIX_LENGTH = 12;
+const MAX_AUDIT_LOGS_PER_PAGE = 200;
+
+/**
+ * Named, scoped SaaS admin API keys, stored as SHA-256 hashes. The plain key
+ * is only returned when the key is created or rotated.
+ */
+@Injectable()
+export class SaasAdminKeyService {
+  private readonly logger = new Logger(SaasAdminKeyService.name);
+
+  constructor(
+    @InjectRepository(SaasAdminKeyEntity)
+    private readonly keyRepository: Repository<SaasAdminKeyEntity>,
+    @InjectRepository(SaasAdminAuditLogEntity)
+    private readonly auditLogRepository: Repository<SaasAdminAuditLogEntity>,
+  ) {}
+
+  // actingKey is the named key making the call, null for the master key
+  async createKey(
+    input: {
+      name: string;
+      scopes: string[];
+      expiresAt?: string | null;
+    },
+    actingKey: SaasAdminKeyEntity | null,
+  ): Promise<{ key: SaasAdminKeyEntity; plainKey: string }> {
+    if (!isNonEmptyString(input.name)) {
+      throw new SaasAdminKeyException(
+        'Key name is required',
+        SaasAdminKeyExceptionCode.INVALID_KEY_INPUT,
+      );
+    }
+
+    const scopes = this.parseScopes(input.scopes);
+
+    this.assertScopesAreGranted(scopes, actingKey);
+
+    return this.insertKey({
+      name: input.name,
+      scopes,
+      expiresAt: this.parseExpiresAt(input.expiresAt),
+      rotatedFromKeyId: null,
+    });
+  }
+
+  // Replaces the key with a new secret keeping its name, scopes and expiry,
+  // and revokes the previous one
+  async rotateKey(
+    keyId: string,
+    actingKey: SaasAdminKeyEntity | null,
+  ): Promise<{ key: SaasAdminKeyEntity; plainKey: string }> {
+    const previousKey = await this.findActiveKeyOrThrow(keyId);
+
+    this.assertScopesAreGranted(previousKey.scopes, actingKey);
+
+    const rotated = await this.insertKey({
+      name: previousKey.name,
+      scopes: previousKey.scopes,
+      expiresAt: previousKey.expiresAt,
+      rotatedFromKeyId: previousKey.id,
+    });
+
+    await this.keyRepository.update(previousKey.id, { revokedAt: new Date() });
+
+    return rotated;
+  }
+
+  async revokeKey(
+    keyId: string,
+    actingKey: SaasAdminKeyEntity | null,
+  ): Promise<SaasAdminKeyEntity> {
+    const key = await this.findActiveKeyOrThrow(keyId);
+
+    this.assertScopesAreGranted(key.scopes, actingKey);
+
+    key.revokedAt = new Date();
+
+    return this.keyRepository.save(key);
+  }
+
+  async listKeys(): Promise<SaasAdminKeyEntity[]> {
+    return this.keyRepository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  // Returns the active key matching the plain key, or null when it does not
+  // exist, is revoked or has expired
+  async authenticate(plainKey: string): Promise<SaasAdminKeyEntity | null> {
+    const key = await this.keyRepository.findOne({
+      where: { keyHash: this.hashKey(plainKey) },
+    });
+
+    if (
+      !isDefined(key) ||
+      isDefined(key.revokedAt) ||
+      (isDefined(key.expiresAt) && key.expiresAt.getTime() <= Date.now())
+    ) {
+      return null;
+    }
+
+    await this.keyRepository.update(key.id, { lastUsedAt: new Date() });
+
+    return key;
+  }
+
+  // Never throws, so that the audited call is not failed by the audit trail
+  async recordCall(call: {
+    keyId: string | null;
+    keyName: string;
+    method: string;
+    path: string;
+    scope: SaasAdminKeyScope | null;
+    tenantId: string | null;
+    isAllowed: boolean;
+  }): Promise<void> {
+    try {
+      await this.auditLogRepository.insert(call);
+    } catch (error) {
+      this.logger.error(
+        `Could not record SaaS admin call ${call.method} ${call.path}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  async findAuditLogs(options?: {
+    keyId?: string;
+    tenantId?: string;
+    limit?: number;
+  }): Promise<SaasAdminAuditLogEntity[]> {
+    return this.auditLogRepository.find({
+      where: {
+        ...(isDefined(options?.keyId) && { keyId: options.keyId }),
+        ...(isDefined(options?.tenantId) && { tenantId: options.tenantId }),
+      },
+      order: { createdAt: 'DESC' },
+      take: Math.min(
+        options?.limit ?? MAX_AUDIT_LOGS_PER_PAGE,
+        MAX_AUDIT_LOGS_PER_PAGE,
+      ),
+    });
+  }
+
+  private async insertKey(
+    key: Pick<
+      SaasAdminKeyEntity,
+      'name' | 'scopes' | 'expiresAt' | 'rotatedFromKeyId'
+    >,
+  ): Promise<{ key: SaasAdminKeyEntity; plainKey: string }> {
+    const plainKey = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const savedKey = await this.keyRepository.save(
+      this.keyRepository.create({
+        ...key,
+        keyHash: this.hashKey(plainKey),
+        keyPrefix: plainKey.slice(0, DISPLAYED_PREFIX_LENGTH),
+      }),
+    );
+
+    const { keyHash: _keyHash, ...keyWithoutHash } = savedKey;
+
+    return { key: keyWithoutHash as SaasAdminKeyEntity, plainKey };
+  }
+
+  private async findActiveKeyOrThrow(
+    keyId: string,
+  ): Promise<SaasAdminKeyEntity> {
+    const key = await this.keyRepository.findOne({ where: { id: keyId } });
+
+    if (!isDefined(key)) {
+      throw new SaasAdminKeyException(
+        `Key ${keyId} not found`,
+        SaasAdminKeyExceptionCode.KEY_NOT_FOUND,
+      );
+    }
+
+    if (isDefined(key.revokedAt)) {
+      throw new SaasAdminKeyException(
+        `Key ${keyId} is revoked`,
+        SaasAdminKeyExceptionCode.KEY_REVOKED,
+      );
+    }
+
+    return key;
+  }
+
+  // A named key cannot create or manage a key holding scopes it does not hold
+  // itself, the master key holds every scope
+  private assertScopesAreGranted(
+    scopes: SaasAdminKeyScope[],
+    actingKey: SaasAdminKeyEntity | null,
+  ): void {
+    if (!isDefined(actingKey)) {
+      return;
+    }
+
+    const missingScopes = scopes.filter(
+      (scope) => !actingKey.scopes.includes(scope),
+    );
+
+    if (missingScopes.length > 0) {
+      throw new SaasAdminKeyException(
+        `SaaS Admin Key "${actingKey.name}" does not hold the ${missingScopes.join(', ')} scope(s)`,
+        SaasAdminKeyExceptionCode.SCOPE_NOT_GRANTED,
+      );
+    }
+  }
+
+  private parseScopes(scopes: unknown): SaasAdminKeyScope[] {
+    const validScopes = Object.values(SaasAdminKeyScope) as string[];
+
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      scopes.some((scope) => !validScopes.includes(scope))
+    ) {
+      throw new SaasAdminKeyException(
+        `scopes must be a non-empty array of: ${validScopes.join(', ')}`,
+        SaasAdminKeyExceptionCode.INVALID_KEY_INPUT,
+      );
+    }
+
+    return [...new Set(scopes as SaasAdminKeyScope[])];
+  }
+
+  private parseExpiresAt(expiresAt?: string | null): Date | null {
+    if (!isDefined(expiresAt)) {
+      return null;
+    }
+
+    const date = new Date(expiresAt);
+
+    if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+      throw new SaasAdminKeyException(
+        'expiresAt must be a date in the future',
+        SaasAdminKeyExceptionCode.INVALID_KEY_INPUT,
+      );
+    }
+
+    return date;
+  }
+
+  private hashKey(plainKey: string): string {
+    return createHash('sha256').update(plainKey).digest('hex');
+  }
+}
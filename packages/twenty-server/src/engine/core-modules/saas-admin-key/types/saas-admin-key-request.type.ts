@@ -0,0 +1,9 @@
+import { type Request } from 'express';
+
+import { type SaasAdminKeyEntity } from 'src/engine/core-modules/saas-admin-key/saas-admin-key.entity';
+
+// Set by SaasAdminKeyGuard, saasAdminKey is undefined for the master key
+export type SaasAdminKeyRequest = Request & {
+  isSaasAdmin?: boolean;
+  saasAdminKey?: SaasAdminKeyEntity;
+};
@@ -0,0 +1,67 @@
+import { Logger } from '@nestjs/common';
+
+import * as fs from 'fs/promises';
+
+import { Command, CommandRunner, Option } from 'nest-commander';
+
+import { TenantArchiveExportService } from 'src/engine/core-modules/tenant-archive/services/tenant-archive-export.service';
+import { streamToBuffer } from 'src/utils/stream-to-buffer';
+
+type TenantArchiveExportCommandOptions = {
+  tenantId: string;
+  output?: string;
+};
+
+@Command({
+  name: 'tenant:export',
+  description:
+    'Export a tenant (metadata, records and files) as an archive in file storage',
+})
+export class TenantArchiveExportCommand extends CommandRunner {
+  private readonly logger = new Logger(TenantArchiveExportCommand.name);
+
+  constructor(
+    private readonly tenantArchiveExportService: TenantArchiveExportService,
+  ) {
+    super();
+  }
+
+  async run(
+    _passedParams: string[],
+    options: TenantArchiveExportCommandOptions,
+  ): Promise<void> {
+    const { archivePath, manifest } =
+      await this.tenantArchiveExportService.exportTenant(options.tenantId);
+
+    this.logger.log(
+      `Archive written to ${archivePath} (${Object.keys(manifest.recordTables).length} tables, ${manifest.fileCount} files)`,
+    );
+
+    if (options.output) {
+      const archive =
+        await this.tenantArchiveExportService.readArchive(archivePath);
+
+      await fs.writeFile(options.output, await streamToBuffer(archive));
+
+      this.logger.log(`Archive copied to ${options.output}`);
+    }
+  }
+
+  @Option({
+    flags: '-t, --tenant-id <tenant_id>',
+    description: 'Id of the tenant to export',
+    required: true,
+  })
+  parseTenantId(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-o, --output [output]',
+    description: 'Also copy the archive to this local path',
+    required: false,
+  })
+  parseOutput(val: string): string {
+    return val;
+  }
+}
@@ -0,0 +1,124 @@
+import { Logger } from '@nestjs/common';
+
+import { Command, CommandRunner, Option } from 'nest-commander';
+
+import {
+  TenantArchiveImportService,
+  type TenantArchiveSource,
+} from 'src/engine/core-modules/tenant-archive/services/tenant-archive-import.service';
+import { getDryRunLogHeader } from 'src/utils/get-dry-run-log-header';
+
+type TenantArchiveImportCommandOptions = {
+  file?: string;
+  archivePath?: string;
+  subdomain?: string;
+  displayName?: string;
+  dryRun?: boolean;
+};
+
+@Command({
+  name: 'tenant:import',
+  description:
+    'Import a tenant archive as a new tenant, or validate it with --dry-run',
+})
+export class TenantArchiveImportCommand extends CommandRunner {
+  private readonly logger = new Logger(TenantArchiveImportCommand.name);
+
+  constructor(
+    private readonly tenantArchiveImportService: TenantArchiveImportService,
+  ) {
+    super();
+  }
+
+  async run(
+    _passedParams: string[],
+    options: TenantArchiveImportCommandOptions,
+  ): Promise<void> {
+    let source: TenantArchiveSource;
+
+    if (options.file) {
+      source = { localFilePath: options.file };
+    } else if (options.archivePath) {
+      source = { archivePath: options.archivePath };
+    } else {
+      this.logger.error('Either --file or --archive-path is required');
+
+      return;
+    }
+
+    const { tenantId, report } =
+      await this.tenantArchiveImportService.importTenant(source, {
+        subdomain: options.subdomain,
+        displayName: options.displayName,
+        dryRun: options.dryRun,
+      });
+
+    const logHeader = getDryRunLogHeader(options.dryRun);
+
+    for (const warning of report.warnings) {
+      this.logger.warn(`${logHeader}${warning}`);
+    }
+
+    for (const error of report.errors) {
+      this.logger.error(`${logHeader}${error}`);
+    }
+
+    this.logger.log(`${logHeader}${JSON.stringify(report.summary, null, 2)}`);
+
+    if (options.dryRun) {
+      this.logger.log(
+        `${logHeader}Archive is ${report.valid ? 'valid' : 'invalid'}`,
+      );
+
+      return;
+    }
+
+    this.logger.log(`Imported as tenant ${tenantId}`);
+  }
+
+  @Option({
+    flags: '-f, --file [file]',
+    description: 'Local path of the archive to import',
+    required: false,
+  })
+  parseFile(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-a, --archive-path [archive_path]',
+    description: 'File storage path of the archive to import',
+    required: false,
+  })
+  parseArchivePath(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-s, --subdomain [subdomain]',
+    description:
+      'Subdomain of the imported tenant (defaults to the source one)',
+    required: false,
+  })
+  parseSubdomain(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-n, --display-name [display_name]',
+    description: 'Display name of the imported tenant',
+    required: false,
+  })
+  parseDisplayName(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-d, --dry-run [dry_run]',
+    description: 'Only validate the archive against this instance',
+    required: false,
+  })
+  parseDryRun(val: string): boolean {
+    return Boolean(val);
+  }
+}
@@ -0,0 +1 @@
+export const TENANT_ARCHIVE_FOLDER = 'tenant-exports';
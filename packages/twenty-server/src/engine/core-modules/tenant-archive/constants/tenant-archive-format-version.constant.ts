@@ -0,0 +1 @@
+export const TENANT_ARCHIVE_FORMAT_VERSION = 1;
@@ -0,0 +1,49 @@
+type TenantArchiveMetadataTable = {
+  tableName: string;
+  // Selects the tenant rows, $1 being the tenant id
+  whereClause: string;
+};
+
+const BY_WORKSPACE_ID = '"workspaceId" = $1';
+
+// Core tables holding tenant metadata, in insertion order: a table only
+// references tables listed before it through non-nullable foreign keys.
+// application comes before workspace as its workspace foreign key is
+// deferred while workspace.workspaceCustomApplicationId is not.
+export const TENANT_ARCHIVE_METADATA_TABLES: TenantArchiveMetadataTable[] = [
+  { tableName: 'application', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'workspace', whereClause: '"id" = $1' },
+  { tableName: 'featureFlag', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'dataSource', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'serverlessFunctionLayer', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'serverlessFunction', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'objectMetadata', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'fieldMetadata', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'indexMetadata', whereClause: BY_WORKSPACE_ID },
+  {
+    tableName: 'indexFieldMetadata',
+    whereClause:
+      '"indexMetadataId" IN (SELECT "id" FROM "core"."indexMetadata" WHERE "workspaceId" = $1)',
+  },
+  { tableName: 'searchFieldMetadata', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'role', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'objectPermission', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'fieldPermission', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'permissionFlag', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'agent', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'view', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'viewFilterGroup', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'viewField', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'viewFilter', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'viewGroup', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'viewSort', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'pageLayout', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'pageLayoutTab', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'pageLayoutWidget', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'cronTrigger', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'databaseEventTrigger', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'routeTrigger', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'file', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'userWorkspace', whereClause: BY_WORKSPACE_ID },
+  { tableName: 'roleTarget', whereClause: BY_WORKSPACE_ID },
+];
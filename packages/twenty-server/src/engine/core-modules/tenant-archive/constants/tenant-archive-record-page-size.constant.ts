@@ -0,0 +1 @@
+export const TENANT_ARCHIVE_RECORD_PAGE_SIZE = 5000;
@@ -0,0 +1,53 @@
+import {
+  type ArgumentsHost,
+  Catch,
+  type ExceptionFilter,
+} from '@nestjs/common';
+
+import { type Response } from 'express';
+
+import { HttpExceptionHandlerService } from 'src/engine/core-modules/exception-handler/http-exception-handler.service';
+import {
+  TenantArchiveException,
+  TenantArchiveExceptionCode,
+} from 'src/engine/core-modules/tenant-archive/tenant-archive.exception';
+
+@Catch(TenantArchiveException)
+export class TenantArchiveRestApiExceptionFilter implements ExceptionFilter {
+  constructor(
+    private readonly httpExceptionHandlerService: HttpExceptionHandlerService,
+  ) {}
+
+  catch(exception: TenantArchiveException, host: ArgumentsHost) {
+    const ctx = host.switchToHttp();
+    const response = ctx.getResponse<Response>();
+
+    switch (exception.code) {
+      case TenantArchiveExceptionCode.TENANT_NOT_FOUND:
+      case TenantArchiveExceptionCode.ARCHIVE_NOT_FOUND:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          404,
+        );
+      case TenantArchiveExceptionCode.INVALID_ARCHIVE:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          400,
+        );
+      case TenantArchiveExceptionCode.INCOMPATIBLE_ARCHIVE:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          409,
+        );
+      default:
+        return this.httpExceptionHandlerService.handleError(
+          exception,
+          response,
+          500,
+        );
+    }
+  }
+}
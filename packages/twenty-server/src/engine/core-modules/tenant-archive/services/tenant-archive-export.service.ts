@@ -0,0 +1,335 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join, posix } from 'path';
+import { type Readable } from 'stream';
+
+import { isNonEmptyString } from '@sniptt/guards';
+import { DataSource, type QueryRunner } from 'typeorm';
+
+import { FileStorageService } from 'src/engine/core-modules/file-storage/file-storage.service';
+import { TENANT_ARCHIVE_FOLDER } from 'src/engine/core-modules/tenant-archive/constants/tenant-archive-folder.constant';
+import { TENANT_ARCHIVE_FORMAT_VERSION } from 'src/engine/core-modules/tenant-archive/constants/tenant-archive-format-version.constant';
+import { TENANT_ARCHIVE_METADATA_TABLES } from 'src/engine/core-modules/tenant-archive/constants/tenant-archive-metadata-tables.constant';
+import { TENANT_ARCHIVE_RECORD_PAGE_SIZE } from 'src/engine/core-modules/tenant-archive/constants/tenant-archive-record-page-size.constant';
+import { TenantArchiveSchemaService } from 'src/engine/core-modules/tenant-archive/services/tenant-archive-schema.service';
+import {
+  TenantArchiveException,
+  TenantArchiveExceptionCode,
+} from 'src/engine/core-modules/tenant-archive/tenant-archive.exception';
+import { type TenantArchiveManifest } from 'src/engine/core-modules/tenant-archive/types/tenant-archive-manifest.type';
+import { createZipFile } from 'src/engine/core-modules/serverless/drivers/utils/create-zip-file';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { getWorkspaceSchemaName } from 'src/engine/workspace-datasource/utils/get-workspace-schema-name.util';
+
+export type TenantArchiveExportResult = {
+  archivePath: string;
+  manifest: TenantArchiveManifest;
+};
+
+/**
+ * Packs a tenant into a zip archive stored in file storage, outside of the
+ * workspace folder so it survives the tenant purge:
+ *
+ *   manifest.json                 TenantArchiveManifest
+ *   metadata/<coreTable>.json     tenant rows of each core metadata table
+ *   schema.json                   workspace schema DDL
+ *   records/<table>.<page>.json   workspace schema records
+ *   files/...                     the workspace file storage folder
+ */
+@Injectable()
+export class TenantArchiveExportService {
+  private readonly logger = new Logger(TenantArchiveExportService.name);
+
+  constructor(
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    private readonly fileStorageService: FileStorageService,
+    private readonly twentyConfigService: TwentyConfigService,
+    private readonly tenantArchiveSchemaService: TenantArchiveSchemaService,
+  ) {}
+
+  async exportTenant(tenantId: string): Promise<TenantArchiveExportResult> {
+    const exportedAt = new Date().toISOString();
+    const schemaName = getWorkspaceSchemaName(tenantId);
+    const stagingPath = await fs.mkdtemp(join(tmpdir(), 'tenant-archive-'));
+    const zipPath = `${stagingPath}.zip`;
+
+    try {
+      const { workspace, userWorkspaces, metadataTables, recordTables } =
+        await this.exportDatabase(tenantId, schemaName, stagingPath);
+
+      const manifest: TenantArchiveManifest = {
+        formatVersion: TENANT_ARCHIVE_FORMAT_VERSION,
+        exportedAt,
+        source: {
+          tenantId,
+          schemaName,
+          appVersion: this.twentyConfigService.get('APP_VERSION') ?? null,
+          workspaceVersion: workspace.version,
+          coreMigration: await this.getLatestCoreMigration(),
+        },
+        members: userWorkspaces.map((userWorkspace) => ({
+          userId: userWorkspace.userId,
+          email: userWorkspace.user.email,
+        })),
+        metadataTables,
+        recordTables,
+        fileCount: await this.exportFiles(tenantId, stagingPath),
+      };
+
+      await this.writeJson(stagingPath, 'manifest.json', manifest);
+
+      await createZipFile(stagingPath, zipPath);
+
+      const folder = `${TENANT_ARCHIVE_FOLDER}/${tenantId}`;
+      const name = `${exportedAt.replace(/[:.]/g, '-')}.zip`;
+
+      await this.fileStorageService.write({
+        file: createReadStream(zipPath),
+        name,
+        folder,
+        mimeType: 'application/zip',
+      });
+
+      this.logger.log(
+        `Exported tenant ${tenantId} (${Object.keys(recordTables).length} tables, ${manifest.fileCount} files) to ${folder}/${name}`,
+      );
+
+      return { archivePath: `${folder}/${name}`, manifest };
+    } finally {
+      await fs.rm(stagingPath, { recursive: true, force: true });
+      await fs.rm(zipPath, { force: true });
+    }
+  }
+
+  async readArchive(archivePath: string): Promise<Readable> {
+    const folderPath = posix.dirname(archivePath);
+    const filename = posix.basename(archivePath);
+    // Archives are stored as tenant-exports/<tenantId>/<name>.zip
+    const [rootFolder, tenantFolder, ...rest] = archivePath.split('/');
+
+    if (
+      posix.normalize(archivePath) !== archivePath ||
+      rootFolder !== TENANT_ARCHIVE_FOLDER ||
+      !isNonEmptyString(tenantFolder) ||
+      tenantFolder === '..' ||
+      rest.length !== 1 ||
+      !filename.endsWith('.zip') ||
+      !(await this.fileStorageService.checkFileExists({ folderPath, filename }))
+    ) {
+      throw new TenantArchiveException(
+        `Archive ${archivePath} not found`,
+        TenantArchiveExceptionCode.ARCHIVE_NOT_FOUND,
+      );
+    }
+
+    return this.fileStorageService.read({ folderPath, filename });
+  }
+
+  // The tenant keeps being used while it is exported: every row is read in
+  // one read-only REPEATABLE READ transaction, so rows written meanwhile can
+  // neither be missed nor exported twice across pages and tables
+  private async exportDatabase(
+    tenantId: string,
+    schemaName: string,
+    stagingPath: string,
+  ): Promise<{
+    workspace: WorkspaceEntity;
+    userWorkspaces: UserWorkspaceEntity[];
+    metadataTables: TenantArchiveManifest['metadataTables'];
+    recordTables: TenantArchiveManifest['recordTables'];
+  }> {
+    const queryRunner = this.dataSource.createQueryRunner();
+
+    await queryRunner.connect();
+    await queryRunner.startTransaction('REPEATABLE READ');
+
+    try {
+      await queryRunner.query('SET TRANSACTION READ ONLY');
+
+      const workspace = await queryRunner.manager.findOne(WorkspaceEntity, {
+        where: { id: tenantId },
+      });
+
+      if (!workspace) {
+        throw new TenantArchiveException(
+          `Tenant ${tenantId} not found`,
+          TenantArchiveExceptionCode.TENANT_NOT_FOUND,
+        );
+      }
+
+      const metadataTables = await this.exportMetadataTables(
+        tenantId,
+        stagingPath,
+        queryRunner,
+      );
+
+      const schema = await this.tenantArchiveSchemaService.captureSchema(
+        schemaName,
+        queryRunner,
+      );
+
+      await this.writeJson(stagingPath, 'schema.json', schema);
+
+      const recordTables: TenantArchiveManifest['recordTables'] = {};
+
+      for (const table of schema.tables) {
+        const columnNames = table.columns
+          .filter((column) => column.generatedExpression === null)
+          .map((column) => column.name);
+
+        recordTables[table.name] = await this.exportRecordTable(
+          schemaName,
+          table.name,
+          columnNames,
+          stagingPath,
+          queryRunner,
+        );
+      }
+
+      const userWorkspaces = await queryRunner.manager.find(
+        UserWorkspaceEntity,
+        {
+          where: { workspaceId: tenantId },
+          relations: ['user'],
+        },
+      );
+
+      await queryRunner.commitTransaction();
+
+      return { workspace, userWorkspaces, metadataTables, recordTables };
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  private async exportMetadataTables(
+    tenantId: string,
+    stagingPath: string,
+    queryRunner: QueryRunner,
+  ): Promise<TenantArchiveManifest['metadataTables']> {
+    const columnsByTable =
+      await this.tenantArchiveSchemaService.getCoreTableColumns(
+        TENANT_ARCHIVE_METADATA_TABLES.map(({ tableName }) => tableName),
+      );
+
+    const metadataTables: TenantArchiveManifest['metadataTables'] = {};
+
+    for (const { tableName, whereClause } of TENANT_ARCHIVE_METADATA_TABLES) {
+      const columns = columnsByTable.get(tableName);
+
+      // Tables introduced by later core migrations may not exist yet
+      if (!columns) {
+        continue;
+      }
+
+      const rows: Record<string, unknown>[] = await queryRunner.query(
+        `SELECT * FROM "core"."${tableName}" WHERE ${whereClause}`,
+        [tenantId],
+      );
+
+      await this.writeJson(stagingPath, `metadata/${tableName}.json`, rows);
+
+      metadataTables[tableName] = {
+        rowCount: rows.length,
+        columns: columns.map((column) => column.name),
+      };
+    }
+
+    return metadataTables;
+  }
+
+  private async exportRecordTable(
+    schemaName: string,
+    tableName: string,
+    columnNames: string[],
+    stagingPath: string,
+    queryRunner: QueryRunner,
+  ): Promise<{ rowCount: number; pageCount: number }> {
+    const selectedColumns = columnNames.map((name) => `"${name}"`).join(', ');
+    let rowCount = 0;
+    let pageCount = 0;
+
+    while (true) {
+      // Pages of a same snapshot, in which ctid order is stable
+      const rows: Record<string, unknown>[] = await queryRunner.query(
+        `SELECT ${selectedColumns} FROM "${schemaName}"."${tableName}" ORDER BY ctid LIMIT $1 OFFSET $2`,
+        [TENANT_ARCHIVE_RECORD_PAGE_SIZE, rowCount],
+      );
+
+      if (rows.length === 0) {
+        break;
+      }
+
+      await this.writeJson(
+        stagingPath,
+        `records/${tableName}.${pageCount}.json`,
+        rows,
+      );
+
+      rowCount += rows.length;
+      pageCount++;
+
+      if (rows.length < TENANT_ARCHIVE_RECORD_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return { rowCount, pageCount };
+  }
+
+  private async exportFiles(
+    tenantId: string,
+    stagingPath: string,
+  ): Promise<number> {
+    const workspaceFolderPath = `workspace-${tenantId}`;
+
+    if (
+      !(await this.fileStorageService.checkFolderExists(workspaceFolderPath))
+    ) {
+      return 0;
+    }
+
+    const filesPath = join(stagingPath, 'files');
+
+    await this.fileStorageService.download({
+      from: { folderPath: workspaceFolderPath },
+      to: { folderPath: filesPath },
+    });
+
+    const entries = await fs.readdir(filesPath, {
+      recursive: true,
+      withFileTypes: true,
+    });
+
+    return entries.filter((entry) => entry.isFile()).length;
+  }
+
+  private async getLatestCoreMigration(): Promise<string | null> {
+    const [migration]: Array<{ name: string }> = await this.dataSource.query(
+      `SELECT "name" FROM "core"."_typeorm_migrations" ORDER BY "timestamp" DESC LIMIT 1`,
+    );
+
+    return migration?.name ?? null;
+  }
+
+  private async writeJson(
+    stagingPath: string,
+    relativePath: string,
+    content: unknown,
+  ): Promise<void> {
+    const filePath = join(stagingPath, relativePath);
+
+    await fs.mkdir(dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(content));
+  }
+}
@@ -0,0 +1,734 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+
+import { createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, posix } from 'path';
+import { type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+import { isDefined } from 'twenty-shared/utils';
+import { Open, type CentralDirectory } from 'unzipper';
+import { v4 } from 'uuid';
+import { DataSource, In, type QueryRunner, Repository } from 'typeorm';
+
+import { SubdomainManagerService } from 'src/engine/core-modules/domain/subdomain-manager/services/subdomain-manager.service';
+import { FileStorageService } from 'src/engine/core-modules/file-storage/file-storage.service';
+import { TENANT_ARCHIVE_FORMAT_VERSION } from 'src/engine/core-modules/tenant-archive/constants/tenant-archive-format-version.constant';
+import { TENANT_ARCHIVE_METADATA_TABLES } from 'src/engine/core-modules/tenant-archive/constants/tenant-archive-metadata-tables.constant';
+import { TENANT_ARCHIVE_RECORD_PAGE_SIZE } from 'src/engine/core-modules/tenant-archive/constants/tenant-archive-record-page-size.constant';
+import { TenantArchiveExportService } from 'src/engine/core-modules/tenant-archive/services/tenant-archive-export.service';
+import { TenantArchiveSchemaService } from 'src/engine/core-modules/tenant-archive/services/tenant-archive-schema.service';
+import {
+  TenantArchiveException,
+  TenantArchiveExceptionCode,
+} from 'src/engine/core-modules/tenant-archive/tenant-archive.exception';
+import { type TenantArchiveManifest } from 'src/engine/core-modules/tenant-archive/types/tenant-archive-manifest.type';
+import { type TenantArchiveSchema } from 'src/engine/core-modules/tenant-archive/types/tenant-archive-schema.type';
+import { type TenantArchiveValidationReport } from 'src/engine/core-modules/tenant-archive/types/tenant-archive-validation-report.type';
+import { TenantLifecycleEventType } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-type.enum';
+import { TenantLifecycleEventService } from 'src/engine/core-modules/tenant-lifecycle-event/services/tenant-lifecycle-event.service';
+import { remapTenantArchiveIds } from 'src/engine/core-modules/tenant-archive/utils/remap-tenant-archive-ids.util';
+import { resolveTenantArchiveFilePath } from 'src/engine/core-modules/tenant-archive/utils/resolve-tenant-archive-file-path.util';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { UserEntity } from 'src/engine/core-modules/user/user.entity';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { WorkspaceException } from 'src/engine/core-modules/workspace/workspace.exception';
+import { getWorkspaceSchemaName } from 'src/engine/workspace-datasource/utils/get-workspace-schema-name.util';
+
+type Row = Record<string, unknown>;
+
+export type TenantArchiveSource =
+  | { archivePath: string }
+  | { localFilePath: string }
+  | { stream: Readable };
+
+export type TenantArchiveImportOptions = {
+  subdomain?: string;
+  displayName?: string;
+  dryRun?: boolean;
+};
+
+export type TenantArchiveImportResult = {
+  tenantId: string | null;
+  report: TenantArchiveValidationReport;
+};
+
+type OpenedTenantArchive = {
+  directory: CentralDirectory;
+  manifest: TenantArchiveManifest;
+  workspace: Row;
+};
+
+type TargetMember = { sourceUserId: string; targetUserId: string };
+
+const FILES_PREFIX = 'files/';
+
+/**
+ * Restores a tenant archive as a new tenant. Every exported metadata row
+ * gets a new id (ids in jsonb settings included) so that an archive can be
+ * imported next to its source tenant, or several times on one instance.
+ *
+ * Archives are trusted input: the workspace schema DDL they carry is
+ * executed as is, so only platform operators can import them.
+ */
+@Injectable()
+export class TenantArchiveImportService {
+  private readonly logger = new Logger(TenantArchiveImportService.name);
+
+  constructor(
+    @InjectRepository(WorkspaceEntity)
+    private readonly workspaceRepository: Repository<WorkspaceEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    private readonly fileStorageService: FileStorageService,
+    private readonly twentyConfigService: TwentyConfigService,
+    private readonly tenantArchiveSchemaService: TenantArchiveSchemaService,
+    private readonly tenantArchiveExportService: TenantArchiveExportService,
+    private readonly tenantLifecycleEventService: TenantLifecycleEventService,
+    private readonly subdomainManagerService: SubdomainManagerService,
+  ) {}
+
+  async importTenant(
+    source: TenantArchiveSource,
+    options: TenantArchiveImportOptions = {},
+  ): Promise<TenantArchiveImportResult> {
+    if ('localFilePath' in source) {
+      return this.importArchiveFile(source.localFilePath, options);
+    }
+
+    // Archives are staged on disk so that they are never held in memory
+    const stagingPath = await fs.mkdtemp(
+      join(tmpdir(), 'tenant-archive-import-'),
+    );
+    const localFilePath = join(stagingPath, 'archive.zip');
+
+    try {
+      await pipeline(
+        'stream' in source
+          ? source.stream
+          : await this.tenantArchiveExportService.readArchive(
+              source.archivePath,
+            ),
+        createWriteStream(localFilePath),
+      );
+
+      return await this.importArchiveFile(localFilePath, options);
+    } finally {
+      await fs.rm(stagingPath, { recursive: true, force: true });
+    }
+  }
+
+  private async importArchiveFile(
+    localFilePath: string,
+    options: TenantArchiveImportOptions,
+  ): Promise<TenantArchiveImportResult> {
+    const archive = await this.openArchive(localFilePath);
+    const subdomain = options.subdomain ?? String(archive.workspace.subdomain);
+    const members = await this.findTargetMembers(archive.manifest);
+    const report = await this.validateArchive(archive, subdomain, members);
+
+    if (options.dryRun === true) {
+      return { tenantId: null, report };
+    }
+
+    if (!report.valid) {
+      throw new TenantArchiveException(
+        `Archive cannot be imported: ${report.errors.join('; ')}`,
+        TenantArchiveExceptionCode.INCOMPATIBLE_ARCHIVE,
+      );
+    }
+
+    const tenantId = v4();
+    const targetSchemaName = getWorkspaceSchemaName(tenantId);
+    const schema = await this.readJson<TenantArchiveSchema>(
+      archive,
+      'schema.json',
+    );
+
+    const metadataRowsByTable = await this.readMetadataRows(archive, members);
+    const idMap = this.buildIdMap(
+      archive.manifest,
+      metadataRowsByTable,
+      tenantId,
+      members,
+    );
+
+    const queryRunner = this.dataSource.createQueryRunner();
+
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      await this.insertMetadataRows(queryRunner, metadataRowsByTable, idMap, {
+        subdomain,
+        displayName: options.displayName,
+        targetSchemaName,
+      });
+
+      await this.tenantArchiveSchemaService.createTables(
+        schema,
+        targetSchemaName,
+        queryRunner,
+      );
+
+      for (const [tableName, { pageCount }] of Object.entries(
+        archive.manifest.recordTables,
+      )) {
+        const columnNames = this.getInsertableRecordColumnNames(
+          schema,
+          tableName,
+        );
+
+        for (let page = 0; page < pageCount; page++) {
+          const rows = await this.readJson<Row[]>(
+            archive,
+            `records/${tableName}.${page}.json`,
+          );
+
+          await this.insertRows(
+            queryRunner,
+            targetSchemaName,
+            tableName,
+            columnNames,
+            remapTenantArchiveIds(rows, idMap),
+          );
+        }
+      }
+
+      await this.tenantArchiveSchemaService.createConstraintsAndIndexes(
+        schema,
+        targetSchemaName,
+        queryRunner,
+      );
+
+      await this.importFiles(archive, tenantId);
+
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      await this.fileStorageService
+        .delete({ folderPath: `workspace-${tenantId}` })
+        .catch(() => undefined);
+
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    this.logger.log(
+      `Imported tenant ${archive.manifest.source.tenantId} as ${tenantId} (${subdomain})`,
+    );
+
+    await this.tenantLifecycleEventService.emit(
+      TenantLifecycleEventType.TENANT_CREATED,
+      tenantId,
+      { subdomain, importedFromTenantId: archive.manifest.source.tenantId },
+    );
+
+    return { tenantId, report };
+  }
+
+  private async openArchive(
+    localFilePath: string,
+  ): Promise<OpenedTenantArchive> {
+    let directory: CentralDirectory;
+
+    try {
+      directory = await Open.file(localFilePath);
+    } catch (error) {
+      throw new TenantArchiveException(
+        `Archive could not be opened: ${error.message}`,
+        TenantArchiveExceptionCode.INVALID_ARCHIVE,
+      );
+    }
+
+    const partialArchive = { directory } as OpenedTenantArchive;
+    const manifest = await this.readJson<TenantArchiveManifest>(
+      partialArchive,
+      'manifest.json',
+    );
+    const [workspace] = await this.readJson<Row[]>(
+      partialArchive,
+      'metadata/workspace.json',
+    );
+
+    if (!isDefined(workspace)) {
+      throw new TenantArchiveException(
+        'Archive does not contain a workspace',
+        TenantArchiveExceptionCode.INVALID_ARCHIVE,
+      );
+    }
+
+    return { directory, manifest, workspace };
+  }
+
+  private async readJson<T>(
+    archive: Pick<OpenedTenantArchive, 'directory'>,
+    path: string,
+  ): Promise<T> {
+    const file = archive.directory.files.find((file) => file.path === path);
+
+    if (!isDefined(file)) {
+      throw new TenantArchiveException(
+        `Archive is missing ${path}`,
+        TenantArchiveExceptionCode.INVALID_ARCHIVE,
+      );
+    }
+
+    return JSON.parse((await file.buffer()).toString('utf8'));
+  }
+
+  private async findTargetMembers(
+    manifest: TenantArchiveManifest,
+  ): Promise<TargetMember[]> {
+    if (manifest.members.length === 0) {
+      return [];
+    }
+
+    const users = await this.userRepository.find({
+      where: { email: In(manifest.members.map(({ email }) => email)) },
+      select: ['id', 'email'],
+    });
+
+    return manifest.members.flatMap(({ userId, email }) => {
+      const user = users.find((user) => user.email === email);
+
+      return isDefined(user)
+        ? [{ sourceUserId: userId, targetUserId: user.id }]
+        : [];
+    });
+  }
+
+  private async validateArchive(
+    archive: OpenedTenantArchive,
+    subdomain: string,
+    members: TargetMember[],
+  ): Promise<TenantArchiveValidationReport> {
+    const { manifest } = archive;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const matchedUserIds = new Set(
+      members.map((member) => member.sourceUserId),
+    );
+
+    const report = (): TenantArchiveValidationReport => ({
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      summary: {
+        sourceTenantId: manifest.source.tenantId,
+        subdomain,
+        metadataRowCount: Object.values(manifest.metadataTables).reduce(
+          (sum, table) => sum + table.rowCount,
+          0,
+        ),
+        recordCount: Object.values(manifest.recordTables).reduce(
+          (sum, table) => sum + table.rowCount,
+          0,
+        ),
+        fileCount: manifest.fileCount,
+        matchedMemberCount: members.length,
+        unmatchedMemberEmails: manifest.members
+          .filter((member) => !matchedUserIds.has(member.userId))
+          .map((member) => member.email),
+      },
+    });
+
+    if (manifest.formatVersion !== TENANT_ARCHIVE_FORMAT_VERSION) {
+      errors.push(
+        `Unsupported archive format version ${manifest.formatVersion} (expected ${TENANT_ARCHIVE_FORMAT_VERSION})`,
+      );
+
+      return report();
+    }
+
+    const appliedMigrations: Array<{ name: string }> =
+      await this.dataSource.query(
+        `SELECT "name" FROM "core"."_typeorm_migrations" ORDER BY "timestamp" DESC`,
+      );
+
+    if (
+      isDefined(manifest.source.coreMigration) &&
+      !appliedMigrations.some(
+        ({ name }) => name === manifest.source.coreMigration,
+      )
+    ) {
+      errors.push(
+        `Archive metadata requires core migration ${manifest.source.coreMigration}, which is not applied on this instance. Upgrade this instance first`,
+      );
+    } else if (
+      isDefined(manifest.source.coreMigration) &&
+      appliedMigrations[0]?.name !== manifest.source.coreMigration
+    ) {
+      warnings.push(
+        `Archive metadata predates core migration ${appliedMigrations[0]?.name}; run the upgrade command on the imported tenant`,
+      );
+    }
+
+    const appVersion = this.twentyConfigService.get('APP_VERSION');
+
+    if (
+      isDefined(appVersion) &&
+      isDefined(manifest.source.appVersion) &&
+      this.getMinorVersion(appVersion) !==
+        this.getMinorVersion(manifest.source.appVersion)
+    ) {
+      warnings.push(
+        `Archive was exported from version ${manifest.source.appVersion}, this instance runs ${appVersion}`,
+      );
+    }
+
+    const targetColumnsByTable =
+      await this.tenantArchiveSchemaService.getCoreTableColumns(
+        Object.keys(manifest.metadataTables),
+      );
+
+    for (const [tableName, { columns, rowCount }] of Object.entries(
+      manifest.metadataTables,
+    )) {
+      const targetColumns = targetColumnsByTable.get(tableName);
+
+      if (!isDefined(targetColumns)) {
+        if (rowCount > 0) {
+          errors.push(
+            `Table core.${tableName} does not exist on this instance`,
+          );
+        }
+        continue;
+      }
+
+      const targetColumnNames = targetColumns.map((column) => column.name);
+
+      for (const column of columns) {
+        if (!targetColumnNames.includes(column)) {
+          errors.push(
+            `Column core.${tableName}.${column} does not exist on this instance`,
+          );
+        }
+      }
+
+      for (const column of targetColumns) {
+        if (
+          rowCount > 0 &&
+          !column.isNullable &&
+          !column.hasDefault &&
+          !columns.includes(column.name)
+        ) {
+          errors.push(
+            `Column core.${tableName}.${column.name} is required on this instance but missing from the archive`,
+          );
+        }
+      }
+    }
+
+    for (const file of this.getArchivedFiles(archive)) {
+      if (
+        !isDefined(
+          resolveTenantArchiveFilePath(file.path.slice(FILES_PREFIX.length)),
+        )
+      ) {
+        errors.push(`Archive file ${file.path} is outside of the files folder`);
+      }
+    }
+
+    // Same rules as a workspace created from the app
+    try {
+      await this.subdomainManagerService.validateSubdomainOrThrow(subdomain);
+    } catch (error) {
+      if (!(error instanceof WorkspaceException)) {
+        throw error;
+      }
+
+      errors.push(`${error.message}: ${subdomain}`);
+    }
+
+    const unmatchedMemberCount = manifest.members.length - members.length;
+
+    if (unmatchedMemberCount > 0) {
+      warnings.push(
+        `${unmatchedMemberCount} member(s) have no account on this instance and will not be imported`,
+      );
+    }
+
+    return report();
+  }
+
+  // Members only follow when a user with the same email exists on this
+  // instance; role assignments of dropped members and of api keys (which
+  // are not exported) are dropped as well.
+  private async readMetadataRows(
+    archive: OpenedTenantArchive,
+    members: TargetMember[],
+  ): Promise<Map<string, Row[]>> {
+    const matchedUserIds = new Set(
+      members.map((member) => member.sourceUserId),
+    );
+    const rowsByTable = new Map<string, Row[]>();
+
+    for (const { tableName } of TENANT_ARCHIVE_METADATA_TABLES) {
+      if (!isDefined(archive.manifest.metadataTables[tableName])) {
+        continue;
+      }
+
+      rowsByTable.set(
+        tableName,
+        await this.readJson<Row[]>(archive, `metadata/${tableName}.json`),
+      );
+    }
+
+    const userWorkspaces = (rowsByTable.get('userWorkspace') ?? []).filter(
+      (userWorkspace) => matchedUserIds.has(String(userWorkspace.userId)),
+    );
+    const userWorkspaceIds = new Set(
+      userWorkspaces.map((userWorkspace) => userWorkspace.id),
+    );
+
+    rowsByTable.set('userWorkspace', userWorkspaces);
+    rowsByTable.set(
+      'roleTarget',
+      (rowsByTable.get('roleTarget') ?? []).filter(
+        (roleTarget) =>
+          !isDefined(roleTarget.apiKeyId) &&
+          (!isDefined(roleTarget.userWorkspaceId) ||
+            userWorkspaceIds.has(roleTarget.userWorkspaceId)),
+      ),
+    );
+
+    return rowsByTable;
+  }
+
+  private buildIdMap(
+    manifest: TenantArchiveManifest,
+    metadataRowsByTable: Map<string, Row[]>,
+    tenantId: string,
+    members: TargetMember[],
+  ): Map<string, string> {
+    const idMap = new Map<string, string>([
+      [manifest.source.tenantId, tenantId],
+    ]);
+
+    for (const [tableName, rows] of metadataRowsByTable) {
+      if (tableName === 'workspace') {
+        continue;
+      }
+
+      for (const row of rows) {
+        idMap.set(String(row.id), v4());
+      }
+    }
+
+    for (const { sourceUserId, targetUserId } of members) {
+      idMap.set(sourceUserId, targetUserId);
+    }
+
+    return idMap;
+  }
+
+  private async insertMetadataRows(
+    queryRunner: QueryRunner,
+    metadataRowsByTable: Map<string, Row[]>,
+    idMap: Map<string, string>,
+    {
+      subdomain,
+      displayName,
+      targetSchemaName,
+    }: { subdomain: string; displayName?: string; targetSchemaName: string },
+  ): Promise<void> {
+    const tableNames = [...metadataRowsByTable.keys()];
+    const targetColumnsByTable =
+      await this.tenantArchiveSchemaService.getCoreTableColumns(tableNames);
+    const deferredColumnsByTable =
+      await this.tenantArchiveSchemaService.getImmediateNullableForeignKeyColumns(
+        tableNames,
+      );
+    const deferredRowsByTable = new Map<string, Row[]>();
+
+    for (const [tableName, sourceRows] of metadataRowsByTable) {
+      const deferredColumns = deferredColumnsByTable.get(tableName) ?? [];
+      const rows = remapTenantArchiveIds(sourceRows, idMap).map((row) =>
+        this.overrideMetadataRow(tableName, row, {
+          subdomain,
+          displayName,
+          targetSchemaName,
+        }),
+      );
+      const columnNames = (targetColumnsByTable.get(tableName) ?? [])
+        .map((column) => column.name)
+        .filter((name) => rows.some((row) => name in row));
+
+      await this.insertRows(
+        queryRunner,
+        'core',
+        tableName,
+        columnNames,
+        rows.map((row) => ({
+          ...row,
+          ...Object.fromEntries(deferredColumns.map((name) => [name, null])),
+        })),
+      );
+
+      deferredRowsByTable.set(
+        tableName,
+        rows
+          .filter((row) => deferredColumns.some((name) => isDefined(row[name])))
+          .map((row) => ({
+            id: row.id,
+            ...Object.fromEntries(
+              deferredColumns.map((name) => [name, row[name]]),
+            ),
+          })),
+      );
+    }
+
+    for (const [tableName, rows] of deferredRowsByTable) {
+      if (rows.length === 0) {
+        continue;
+      }
+
+      const assignments = (deferredColumnsByTable.get(tableName) ?? [])
+        .map((name) => `"${name}" = source."${name}"`)
+        .join(', ');
+
+      await queryRunner.query(
+        `UPDATE "core"."${tableName}" AS target SET ${assignments}
+         FROM jsonb_populate_recordset(NULL::"core"."${tableName}", $1::jsonb) AS source
+         WHERE target."id" = source."id"`,
+        [JSON.stringify(rows)],
+      );
+    }
+  }
+
+  private overrideMetadataRow(
+    tableName: string,
+    row: Row,
+    {
+      subdomain,
+      displayName,
+      targetSchemaName,
+    }: { subdomain: string; displayName?: string; targetSchemaName: string },
+  ): Row {
+    switch (tableName) {
+      case 'workspace':
+        return {
+          ...row,
+          subdomain,
+          displayName: displayName ?? row.displayName,
+          inviteHash: v4(),
+          customDomain: null,
+          isCustomDomainEnabled: false,
+          disabledAt: null,
+          disabledReason: null,
+          disabledCause: null,
+          pendingDeletionAt: null,
+          purgeScheduledAt: null,
+          deletionSnapshotPath: null,
+        };
+      case 'dataSource':
+        return { ...row, schema: targetSchemaName };
+      default:
+        return row;
+    }
+  }
+
+  // jsonb_populate_recordset lets postgres cast the JSON values to the
+  // column types (enums, arrays, jsonb, timestamps) on its side
+  private async insertRows(
+    queryRunner: QueryRunner,
+    schemaName: string,
+    tableName: string,
+    columnNames: string[],
+    rows: Row[],
+  ): Promise<void> {
+    if (columnNames.length === 0) {
+      return;
+    }
+
+    const columns = columnNames.map((name) => `"${name}"`).join(', ');
+
+    for (
+      let offset = 0;
+      offset < rows.length;
+      offset += TENANT_ARCHIVE_RECORD_PAGE_SIZE
+    ) {
+      await queryRunner.query(
+        `INSERT INTO "${schemaName}"."${tableName}" (${columns})
+         SELECT ${columns} FROM jsonb_populate_recordset(NULL::"${schemaName}"."${tableName}", $1::jsonb)`,
+        [
+          JSON.stringify(
+            rows.slice(offset, offset + TENANT_ARCHIVE_RECORD_PAGE_SIZE),
+          ),
+        ],
+      );
+    }
+  }
+
+  private getInsertableRecordColumnNames(
+    schema: TenantArchiveSchema,
+    tableName: string,
+  ): string[] {
+    const generatedColumnNames =
+      this.tenantArchiveSchemaService.getGeneratedColumnNames(
+        schema,
+        tableName,
+      );
+
+    return (
+      schema.tables
+        .find((table) => table.name === tableName)
+        ?.columns.map((column) => column.name)
+        .filter((name) => !generatedColumnNames.includes(name)) ?? []
+    );
+  }
+
+  private getArchivedFiles(
+    archive: OpenedTenantArchive,
+  ): CentralDirectory['files'] {
+    return archive.directory.files.filter(
+      (file) => file.type === 'File' && file.path.startsWith(FILES_PREFIX),
+    );
+  }
+
+  private async importFiles(
+    archive: OpenedTenantArchive,
+    tenantId: string,
+  ): Promise<void> {
+    const workspaceFolderPath = `workspace-${tenantId}`;
+
+    for (const file of this.getArchivedFiles(archive)) {
+      const relativePath = resolveTenantArchiveFilePath(
+        file.path.slice(FILES_PREFIX.length),
+      );
+      const folder = isDefined(relativePath)
+        ? posix.join(workspaceFolderPath, posix.dirname(relativePath))
+        : undefined;
+
+      if (
+        !isDefined(relativePath) ||
+        !isDefined(folder) ||
+        (folder !== workspaceFolderPath &&
+          !folder.startsWith(`${workspaceFolderPath}/`))
+      ) {
+        throw new TenantArchiveException(
+          `Archive file ${file.path} is outside of the files folder`,
+          TenantArchiveExceptionCode.INVALID_ARCHIVE,
+        );
+      }
+
+      await this.fileStorageService.write({
+        file: await file.buffer(),
+        name: posix.basename(relativePath),
+        folder,
+        mimeType: undefined,
+      });
+    }
+  }
+
+  private getMinorVersion(version: string): string {
+    return version.replace(/^v/, '').split('.').slice(0, 2).join('.');
+  }
+}
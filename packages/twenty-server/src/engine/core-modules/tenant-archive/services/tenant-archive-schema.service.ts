@@ -0,0 +1,264 @@
+import { Injectable } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+
+import { DataSource, type QueryRunner } from 'typeorm';
+
+import {
+  type TenantArchiveSchema,
+  type TenantArchiveSchemaColumn,
+} from 'src/engine/core-modules/tenant-archive/types/tenant-archive-schema.type';
+
+const CONSTRAINT_TYPES_IN_CREATION_ORDER = ['p', 'u', 'c', 'f'] as const;
+
+export type CoreTableColumn = {
+  name: string;
+  isNullable: boolean;
+  hasDefault: boolean;
+};
+
+/**
+ * Snapshots a workspace schema from the pg catalogs and replays it under
+ * another schema name. Tables are created bare so records can be inserted
+ * in any order; constraints and indexes are added once the data is in.
+ *
+ * Also introspects the core metadata tables, whose shape depends on the
+ * core migrations applied on each instance.
+ */
+@Injectable()
+export class TenantArchiveSchemaService {
+  constructor(
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async captureSchema(
+    schemaName: string,
+    queryRunner?: QueryRunner,
+  ): Promise<TenantArchiveSchema> {
+    const executor = queryRunner ?? this.dataSource;
+
+    const enums: TenantArchiveSchema['enums'] = await executor.query(
+      `SELECT t.typname AS "name", array_agg(e.enumlabel::text ORDER BY e.enumsortorder) AS "values"
+       FROM pg_type t
+       JOIN pg_enum e ON e.enumtypid = t.oid
+       JOIN pg_namespace n ON n.oid = t.typnamespace
+       WHERE n.nspname = $1
+       GROUP BY t.typname
+       ORDER BY t.typname`,
+      [schemaName],
+    );
+
+    const columns: Array<TenantArchiveSchemaColumn & { tableName: string }> =
+      await executor.query(
+        `SELECT c.relname AS "tableName",
+                a.attname AS "name",
+                format_type(a.atttypid, a.atttypmod) AS "dataType",
+                NOT a.attnotnull AS "isNullable",
+                CASE WHEN a.attgenerated = '' THEN pg_get_expr(d.adbin, d.adrelid) END AS "defaultValue",
+                CASE WHEN a.attgenerated <> '' THEN pg_get_expr(d.adbin, d.adrelid) END AS "generatedExpression"
+         FROM pg_attribute a
+         JOIN pg_class c ON c.oid = a.attrelid
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+         WHERE n.nspname = $1 AND c.relkind = 'r' AND a.attnum > 0 AND NOT a.attisdropped
+         ORDER BY c.relname, a.attnum`,
+        [schemaName],
+      );
+
+    const tables = new Map<string, TenantArchiveSchemaColumn[]>();
+
+    for (const { tableName, ...column } of columns) {
+      tables.set(tableName, [...(tables.get(tableName) ?? []), column]);
+    }
+
+    const constraints: TenantArchiveSchema['constraints'] =
+      await executor.query(
+        `SELECT c.relname AS "tableName", con.conname AS "name", con.contype AS "type", pg_get_constraintdef(con.oid) AS "definition"
+         FROM pg_constraint con
+         JOIN pg_class c ON c.oid = con.conrelid
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         WHERE n.nspname = $1 AND con.contype IN ('p', 'u', 'c', 'f')
+         ORDER BY c.relname, con.conname`,
+        [schemaName],
+      );
+
+    // Indexes backing primary keys and unique constraints come with them
+    const indexes: TenantArchiveSchema['indexes'] = await executor.query(
+      `SELECT i.indexname AS "name", i.indexdef AS "definition"
+       FROM pg_indexes i
+       WHERE i.schemaname = $1
+         AND NOT EXISTS (
+           SELECT 1 FROM pg_constraint con
+           JOIN pg_namespace n ON n.oid = con.connamespace
+           WHERE n.nspname = $1 AND con.conname = i.indexname
+         )
+       ORDER BY i.indexname`,
+      [schemaName],
+    );
+
+    return {
+      schemaName,
+      enums,
+      tables: [...tables.entries()].map(([name, tableColumns]) => ({
+        name,
+        columns: tableColumns,
+      })),
+      constraints,
+      indexes,
+    };
+  }
+
+  async createTables(
+    schema: TenantArchiveSchema,
+    targetSchemaName: string,
+    queryRunner: QueryRunner,
+  ): Promise<void> {
+    const toTarget = (sql: string) =>
+      this.replaceSchemaName(sql, schema.schemaName, targetSchemaName);
+
+    await queryRunner.query(`CREATE SCHEMA "${targetSchemaName}"`);
+
+    for (const { name, values } of schema.enums) {
+      const labels = values
+        .map((value) => `'${value.replace(/'/g, "''")}'`)
+        .join(', ');
+
+      await queryRunner.query(
+        `CREATE TYPE "${targetSchemaName}"."${name}" AS ENUM (${labels})`,
+      );
+    }
+
+    for (const table of schema.tables) {
+      const columnDefinitions = table.columns.map((column) =>
+        toTarget(this.getColumnDefinition(column)),
+      );
+
+      await queryRunner.query(
+        `CREATE TABLE "${targetSchemaName}"."${table.name}" (${columnDefinitions.join(', ')})`,
+      );
+    }
+  }
+
+  async createConstraintsAndIndexes(
+    schema: TenantArchiveSchema,
+    targetSchemaName: string,
+    queryRunner: QueryRunner,
+  ): Promise<void> {
+    for (const type of CONSTRAINT_TYPES_IN_CREATION_ORDER) {
+      for (const constraint of schema.constraints.filter(
+        (constraint) => constraint.type === type,
+      )) {
+        await queryRunner.query(
+          `ALTER TABLE "${targetSchemaName}"."${constraint.tableName}" ADD CONSTRAINT "${constraint.name}" ${this.replaceSchemaName(constraint.definition, schema.schemaName, targetSchemaName)}`,
+        );
+      }
+    }
+
+    for (const index of schema.indexes) {
+      await queryRunner.query(
+        this.replaceSchemaName(
+          index.definition,
+          schema.schemaName,
+          targetSchemaName,
+        ),
+      );
+    }
+  }
+
+  // Columns filled by postgres itself, which must not be inserted into
+  getGeneratedColumnNames(
+    schema: TenantArchiveSchema,
+    tableName: string,
+  ): string[] {
+    return (
+      schema.tables
+        .find((table) => table.name === tableName)
+        ?.columns.filter((column) => column.generatedExpression !== null)
+        .map((column) => column.name) ?? []
+    );
+  }
+
+  async getCoreTableColumns(
+    tableNames: string[],
+  ): Promise<Map<string, CoreTableColumn[]>> {
+    const columns: Array<CoreTableColumn & { tableName: string }> =
+      await this.dataSource.query(
+        `SELECT table_name AS "tableName",
+                column_name AS "name",
+                is_nullable = 'YES' AS "isNullable",
+                column_default IS NOT NULL OR is_generated = 'ALWAYS' OR is_identity = 'YES' AS "hasDefault"
+         FROM information_schema.columns
+         WHERE table_schema = 'core' AND table_name = ANY($1)
+         ORDER BY table_name, ordinal_position`,
+        [tableNames],
+      );
+
+    const columnsByTable = new Map<string, CoreTableColumn[]>();
+
+    for (const { tableName, ...column } of columns) {
+      columnsByTable.set(tableName, [
+        ...(columnsByTable.get(tableName) ?? []),
+        column,
+      ]);
+    }
+
+    return columnsByTable;
+  }
+
+  // Nullable core foreign keys that are checked immediately. Rows are
+  // inserted with these columns empty then updated, so that rows of a same
+  // table (or of tables listed later) can reference each other.
+  async getImmediateNullableForeignKeyColumns(
+    tableNames: string[],
+  ): Promise<Map<string, string[]>> {
+    const columns: Array<{ tableName: string; columnName: string }> =
+      await this.dataSource.query(
+        `SELECT DISTINCT c.relname AS "tableName", a.attname AS "columnName"
+         FROM pg_constraint con
+         JOIN pg_class c ON c.oid = con.conrelid
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = ANY(con.conkey)
+         WHERE n.nspname = 'core'
+           AND con.contype = 'f'
+           AND NOT con.condeferrable
+           AND NOT a.attnotnull
+           AND c.relname = ANY($1)`,
+        [tableNames],
+      );
+
+    const columnsByTable = new Map<string, string[]>();
+
+    for (const { tableName, columnName } of columns) {
+      columnsByTable.set(tableName, [
+        ...(columnsByTable.get(tableName) ?? []),
+        columnName,
+      ]);
+    }
+
+    return columnsByTable;
+  }
+
+  private getColumnDefinition(column: TenantArchiveSchemaColumn): string {
+    const parts = [`"${column.name}"`, column.dataType];
+
+    if (column.generatedExpression !== null) {
+      parts.push(`GENERATED ALWAYS AS (${column.generatedExpression}) STORED`);
+    } else if (column.defaultValue !== null) {
+      parts.push(`DEFAULT ${column.defaultValue}`);
+    }
+
+    if (!column.isNullable) {
+      parts.push('NOT NULL');
+    }
+
+    return parts.join(' ');
+  }
+
+  private replaceSchemaName(
+    sql: string,
+    sourceSchemaName: string,
+    targetSchemaName: string,
+  ): string {
+    return sql.split(sourceSchemaName).join(targetSchemaName);
+  }
+}
@@ -0,0 +1,10 @@
+import { CustomException } from 'src/utils/custom-exception';
+
+export class TenantArchiveException extends CustomException<TenantArchiveExceptionCode> {}
+
+export enum TenantArchiveExceptionCode {
+  TENANT_NOT_FOUND = 'TENANT_NOT_FOUND',
+  ARCHIVE_NOT_FOUND = 'ARCHIVE_NOT_FOUND',
+  INVALID_ARCHIVE = 'INVALID_ARCHIVE',
+  INCOMPATIBLE_ARCHIVE = 'INCOMPATIBLE_ARCHIVE',
+}
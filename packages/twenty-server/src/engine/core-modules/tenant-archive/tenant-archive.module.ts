@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { SubdomainManagerModule } from 'src/engine/core-modules/domain/subdomain-manager/subdomain-manager.module';
+import { TenantArchiveExportCommand } from 'src/engine/core-modules/tenant-archive/commands/tenant-archive-export.command';
+import { TenantArchiveImportCommand } from 'src/engine/core-modules/tenant-archive/commands/tenant-archive-import.command';
+import { TenantArchiveExportService } from 'src/engine/core-modules/tenant-archive/services/tenant-archive-export.service';
+import { TenantArchiveImportService } from 'src/engine/core-modules/tenant-archive/services/tenant-archive-import.service';
+import { TenantArchiveSchemaService } from 'src/engine/core-modules/tenant-archive/services/tenant-archive-schema.service';
+import { TenantLifecycleEventModule } from 'src/engine/core-modules/tenant-lifecycle-event/tenant-lifecycle-event.module';
+import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
+import { UserEntity } from 'src/engine/core-modules/user/user.entity';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      WorkspaceEntity,
+      UserWorkspaceEntity,
+      UserEntity,
+    ]),
+    TenantLifecycleEventModule,
+    SubdomainManagerModule,
+  ],
+  providers: [
+    TenantArchiveSchemaService,
+    TenantArchiveExportService,
+    TenantArchiveImportService,
+    TenantArchiveExportCommand,
+    TenantArchiveImportCommand,
+  ],
+  exports: [TenantArchiveExportService, TenantArchiveImportService],
+})
+export class TenantArchiveModule {}
@@ -0,0 +1,18 @@
+export type TenantArchiveManifest = {
+  formatVersion: number;
+  exportedAt: string;
+  source: {
+    tenantId: string;
+    schemaName: string;
+    appVersion: string | null;
+    workspaceVersion: string | null;
+    // Latest core migration applied on the source instance, which pins the
+    // shape of the exported metadata rows
+    coreMigration: string | null;
+  };
+  members: Array<{ userId: string; email: string }>;
+  metadataTables: Record<string, { rowCount: number; columns: string[] }>;
+  // Rows are written in pages of TENANT_ARCHIVE_RECORD_PAGE_SIZE
+  recordTables: Record<string, { rowCount: number; pageCount: number }>;
+  fileCount: number;
+};
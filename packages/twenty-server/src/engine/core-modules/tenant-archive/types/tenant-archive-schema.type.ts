@@ -0,0 +1,22 @@
+export type TenantArchiveSchemaColumn = {
+  name: string;
+  dataType: string;
+  isNullable: boolean;
+  defaultValue: string | null;
+  generatedExpression: string | null;
+};
+
+// Workspace schema DDL, read from the pg catalogs on export and replayed on
+// import after swapping the source schema name for the target one
+export type TenantArchiveSchema = {
+  schemaName: string;
+  enums: Array<{ name: string; values: string[] }>;
+  tables: Array<{ name: string; columns: TenantArchiveSchemaColumn[] }>;
+  constraints: Array<{
+    tableName: string;
+    name: string;
+    type: 'p' | 'u' | 'c' | 'f';
+    definition: string;
+  }>;
+  indexes: Array<{ name: string; definition: string }>;
+};
@@ -0,0 +1,14 @@
+export type TenantArchiveValidationReport = {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  summary: {
+    sourceTenantId: string;
+    subdomain: string;
+    metadataRowCount: number;
+    recordCount: number;
+    fileCount: number;
+    matchedMemberCount: number;
+    unmatchedMemberEmails: string[];
+  };
+};
@@ -0,0 +1,56 @@
+import { remapTenantArchiveIds } from 'src/engine/core-modules/tenant-archive/utils/remap-tenant-archive-ids.util';
+
+describe('remapTenantArchiveIds', () => {
+  const idMap = new Map([
+    ['source-object-id', 'target-object-id'],
+    ['source-field-id', 'target-field-id'],
+  ]);
+
+  it('should remap top-level column values', () => {
+    expect(
+      remapTenantArchiveIds(
+        { id: 'source-field-id', objectMetadataId: 'source-object-id' },
+        idMap,
+      ),
+    ).toEqual({ id: 'target-field-id', objectMetadataId: 'target-object-id' });
+  });
+
+  it('should remap ids nested in json values and object keys', () => {
+    expect(
+      remapTenantArchiveIds(
+        {
+          settings: {
+            filters: [{ fieldMetadataId: 'source-field-id', value: 'foo' }],
+            positions: { 'source-field-id': 2 },
+          },
+        },
+        idMap,
+      ),
+    ).toEqual({
+      settings: {
+        filters: [{ fieldMetadataId: 'target-field-id', value: 'foo' }],
+        positions: { 'target-field-id': 2 },
+      },
+    });
+  });
+
+  it('should leave unknown strings and scalars untouched', () => {
+    expect(
+      remapTenantArchiveIds(
+        { name: 'source-object', position: 3, isActive: true, label: null },
+        idMap,
+      ),
+    ).toEqual({
+      name: 'source-object',
+      position: 3,
+      isActive: true,
+      label: null,
+    });
+  });
+
+  it('should not match ids embedded in longer strings', () => {
+    expect(remapTenantArchiveIds('prefix-source-object-id', idMap)).toBe(
+      'prefix-source-object-id',
+    );
+  });
+});
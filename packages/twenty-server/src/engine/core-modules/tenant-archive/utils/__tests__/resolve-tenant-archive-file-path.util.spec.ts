@@ -0,0 +1,23 @@
+import { resolveTenantArchiveFilePath } from 'src/engine/core-modules/tenant-archive/utils/resolve-tenant-archive-file-path.util';
+
+describe('resolveTenantArchiveFilePath', () => {
+  it('should keep paths inside the workspace folder', () => {
+    expect(resolveTenantArchiveFilePath('attachment/file.pdf')).toBe(
+      'attachment/file.pdf',
+    );
+    expect(resolveTenantArchiveFilePath('./attachment//file.pdf')).toBe(
+      'attachment/file.pdf',
+    );
+  });
+
+  it.each([
+    '../workspace-other-tenant/attachment/file.pdf',
+    'attachment/../../workspace-other-tenant/file.pdf',
+    '/etc/passwd',
+    '..\\workspace-other-tenant\\file.pdf',
+    '.',
+    '',
+  ])('should reject %p', (relativePath) => {
+    expect(resolveTenantArchiveFilePath(relativePath)).toBeNull();
+  });
+});
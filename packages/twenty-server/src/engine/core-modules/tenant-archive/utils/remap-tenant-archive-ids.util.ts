@@ -0,0 +1,26 @@
+// Swaps every string equal to a source id, as a value or as an object key,
+// for its target id. Archive content is plain JSON so walking arrays and
+// objects also covers jsonb columns such as view filters or workflow steps.
+export const remapTenantArchiveIds = <T>(
+  value: T,
+  idMap: Map<string, string>,
+): T => {
+  if (typeof value === 'string') {
+    return (idMap.get(value) ?? value) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => remapTenantArchiveIds(item, idMap)) as T;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nestedValue]) => [
+        idMap.get(key) ?? key,
+        remapTenantArchiveIds(nestedValue, idMap),
+      ]),
+    ) as T;
+  }
+
+  return value;
+};
@@ -0,0 +1,23 @@
+import { posix } from 'path';
+
+// Returns the path of an archived file relative to the workspace folder, or
+// null when the entry could be written outside of it
+export const resolveTenantArchiveFilePath = (
+  relativePath: string,
+): string | null => {
+  if (
+    relativePath.includes('\\') ||
+    posix.isAbsolute(relativePath) ||
+    relativePath.split('/').includes('..')
+  ) {
+    return null;
+  }
+
+  const normalizedPath = posix.normalize(relativePath);
+
+  if (normalizedPath === '.' || normalizedPath.startsWith('../')) {
+    return null;
+  }
+
+  return normalizedPath;
+};
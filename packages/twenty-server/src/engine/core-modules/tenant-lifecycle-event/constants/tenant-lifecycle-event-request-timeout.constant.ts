@@ -0,0 +1 @@
+export const TENANT_LIFECYCLE_EVENT_REQUEST_TIMEOUT_MS = 5_000;
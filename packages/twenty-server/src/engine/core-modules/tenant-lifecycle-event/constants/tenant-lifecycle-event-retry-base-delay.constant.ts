@@ -0,0 +1,2 @@
+// Delay before the first retry, doubled on each following attempt
+export const TENANT_LIFECYCLE_EVENT_RETRY_BASE_DELAY_MS = 30_000;
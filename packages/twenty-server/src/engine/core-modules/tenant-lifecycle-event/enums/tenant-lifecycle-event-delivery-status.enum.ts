@@ -0,0 +1,5 @@
+export enum TenantLifecycleEventDeliveryStatus {
+  PENDING = 'PENDING',
+  DELIVERED = 'DELIVERED',
+  FAILED = 'FAILED',
+}
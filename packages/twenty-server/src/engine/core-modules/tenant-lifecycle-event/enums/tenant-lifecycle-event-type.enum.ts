@@ -0,0 +1,8 @@
+export enum TenantLifecycleEventType {
+  TENANT_CREATED = 'tenant.created',
+  TENANT_DISABLED = 'tenant.disabled',
+  TENANT_DELETED = 'tenant.deleted',
+  USER_JOINED = 'tenant.user.joined',
+  USER_LEFT = 'tenant.user.left',
+  QUOTA_EXCEEDED = 'tenant.quota.exceeded',
+}
@@ -0,0 +1,149 @@
+import { HttpService } from '@nestjs/axios';
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { WebhookSignatureService } from 'src/engine/core-modules/admin/services/webhook-signature.service';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { getQueueToken } from 'src/engine/core-modules/message-queue/utils/get-queue-token.util';
+import { TENANT_LIFECYCLE_EVENT_RETRY_BASE_DELAY_MS } from 'src/engine/core-modules/tenant-lifecycle-event/constants/tenant-lifecycle-event-retry-base-delay.constant';
+import { TenantLifecycleEventDeliveryStatus } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-delivery-status.enum';
+import { TenantLifecycleEventType } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-type.enum';
+import { DeliverTenantLifecycleEventJob } from 'src/engine/core-modules/tenant-lifecycle-event/jobs/deliver-tenant-lifecycle-event.job';
+import { TenantLifecycleEventDeliveryEntity } from 'src/engine/core-modules/tenant-lifecycle-event/tenant-lifecycle-event-delivery.entity';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+
+describe('DeliverTenantLifecycleEventJob', () => {
+  let job: DeliverTenantLifecycleEventJob;
+  let deliveryRepository: { findOne: jest.Mock; update: jest.Mock };
+  let messageQueueService: { add: jest.Mock };
+  let post: jest.Mock;
+
+  const pendingDelivery = {
+    id: 'delivery-id',
+    tenantId: 'tenant-id',
+    eventType: TenantLifecycleEventType.TENANT_DISABLED,
+    targetUrl: 'https://billing.example.com/events',
+    payload: {
+      id: 'delivery-id',
+      event: TenantLifecycleEventType.TENANT_DISABLED,
+      timestamp: '2025-01-01T00:00:00.000Z',
+      data: { tenantId: 'tenant-id' },
+    },
+    status: TenantLifecycleEventDeliveryStatus.PENDING,
+    attemptCount: 0,
+  };
+
+  beforeEach(async () => {
+    deliveryRepository = {
+      findOne: jest.fn().mockResolvedValue(pendingDelivery),
+      update: jest.fn(),
+    };
+    messageQueueService = { add: jest.fn() };
+    post = jest.fn().mockResolvedValue({ status: 200 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeliverTenantLifecycleEventJob,
+        {
+          provide: getRepositoryToken(TenantLifecycleEventDeliveryEntity),
+          useValue: deliveryRepository,
+        },
+        {
+          provide: getQueueToken(MessageQueue.webhookQueue),
+          useValue: messageQueueService,
+        },
+        {
+          provide: HttpService,
+          useValue: { axiosRef: { post } },
+        },
+        {
+          provide: WebhookSignatureService,
+          useValue: {
+            generateSignature: jest.fn().mockReturnValue('t=1,v1=abc'),
+          },
+        },
+        {
+          provide: TwentyConfigService,
+          useValue: { get: jest.fn().mockReturnValue(3) },
+        },
+      ],
+    }).compile();
+
+    job = module.get(DeliverTenantLifecycleEventJob);
+  });
+
+  it('should post the signed payload and mark the delivery as delivered', async () => {
+    await job.handle({ deliveryId: 'delivery-id' });
+
+    expect(post).toHaveBeenCalledWith(
+      pendingDelivery.targetUrl,
+      JSON.stringify(pendingDelivery.payload),
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'x-webhook-signature': 't=1,v1=abc',
+        }),
+      }),
+    );
+    expect(deliveryRepository.update).toHaveBeenCalledWith(
+      'delivery-id',
+      expect.objectContaining({
+        status: TenantLifecycleEventDeliveryStatus.DELIVERED,
+        attemptCount: 1,
+        lastResponseStatus: 200,
+      }),
+    );
+  });
+
+  it('should schedule a retry with exponential delay on failure', async () => {
+    deliveryRepository.findOne.mockResolvedValue({
+      ...pendingDelivery,
+      attemptCount: 1,
+    });
+    post.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await job.handle({ deliveryId: 'delivery-id' });
+
+    expect(deliveryRepository.update).toHaveBeenCalledWith(
+      'delivery-id',
+      expect.objectContaining({
+        attemptCount: 2,
+        lastError: 'connect ECONNREFUSED',
+      }),
+    );
+    expect(messageQueueService.add).toHaveBeenCalledWith(
+      DeliverTenantLifecycleEventJob.name,
+      { deliveryId: 'delivery-id' },
+      { delay: TENANT_LIFECYCLE_EVENT_RETRY_BASE_DELAY_MS * 2 },
+    );
+  });
+
+  it('should mark the delivery as failed after the last attempt', async () => {
+    deliveryRepository.findOne.mockResolvedValue({
+      ...pendingDelivery,
+      attemptCount: 2,
+    });
+    post.mockRejectedValue(new Error('Request failed with status code 500'));
+
+    await job.handle({ deliveryId: 'delivery-id' });
+
+    expect(deliveryRepository.update).toHaveBeenCalledWith(
+      'delivery-id',
+      expect.objectContaining({
+        status: TenantLifecycleEventDeliveryStatus.FAILED,
+        attemptCount: 3,
+      }),
+    );
+    expect(messageQueueService.add).not.toHaveBeenCalled();
+  });
+
+  it('should skip deliveries that are no longer pending', async () => {
+    deliveryRepository.findOne.mockResolvedValue({
+      ...pendingDelivery,
+      status: TenantLifecycleEventDeliveryStatus.DELIVERED,
+    });
+
+    await job.handle({ deliveryId: 'delivery-id' });
+
+    expect(post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,137 @@
+import { HttpService } from '@nestjs/axios';
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import axios from 'axios';
+import { isDefined } from 'twenty-shared/utils';
+import { Repository } from 'typeorm';
+
+import { WebhookSignatureService } from 'src/engine/core-modules/admin/services/webhook-signature.service';
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
+import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import { TENANT_LIFECYCLE_EVENT_REQUEST_TIMEOUT_MS } from 'src/engine/core-modules/tenant-lifecycle-event/constants/tenant-lifecycle-event-request-timeout.constant';
+import { TENANT_LIFECYCLE_EVENT_RETRY_BASE_DELAY_MS } from 'src/engine/core-modules/tenant-lifecycle-event/constants/tenant-lifecycle-event-retry-base-delay.constant';
+import { TenantLifecycleEventDeliveryStatus } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-delivery-status.enum';
+import { TenantLifecycleEventDeliveryEntity } from 'src/engine/core-modules/tenant-lifecycle-event/tenant-lifecycle-event-delivery.entity';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+
+export type DeliverTenantLifecycleEventJobData = {
+  deliveryId: string;
+};
+
+/**
+ * Posts a logged tenant lifecycle event, signed like inbound tenant
+ * webhooks (x-webhook-signature: t=timestamp,v1=signature).
+ *
+ * Retries are enqueued by the job itself with an exponential delay rather
+ * than left to the queue, so that every attempt is recorded in the delivery
+ * log. The delivery is marked as failed after TENANT_EVENTS_MAX_ATTEMPTS.
+ */
+@Injectable()
+@Processor(MessageQueue.webhookQueue)
+export class DeliverTenantLifecycleEventJob {
+  private readonly logger = new Logger(DeliverTenantLifecycleEventJob.name);
+
+  constructor(
+    @InjectRepository(TenantLifecycleEventDeliveryEntity)
+    private readonly deliveryRepository: Repository<TenantLifecycleEventDeliveryEntity>,
+    @InjectMessageQueue(MessageQueue.webhookQueue)
+    private readonly messageQueueService: MessageQueueService,
+    private readonly httpService: HttpService,
+    private readonly webhookSignatureService: WebhookSignatureService,
+    private readonly twentyConfigService: TwentyConfigService,
+  ) {}
+
+  @Process(DeliverTenantLifecycleEventJob.name)
+  async handle({
+    deliveryId,
+  }: DeliverTenantLifecycleEventJobData): Promise<void> {
+    const delivery = await this.deliveryRepository.findOne({
+      where: { id: deliveryId },
+    });
+
+    if (
+      !isDefined(delivery) ||
+      delivery.status !== TenantLifecycleEventDeliveryStatus.PENDING
+    ) {
+      return;
+    }
+
+    const attemptCount = delivery.attemptCount + 1;
+    const lastAttemptAt = new Date();
+
+    try {
+      const body = JSON.stringify(delivery.payload);
+
+      const response = await this.httpService.axiosRef.post(
+        delivery.targetUrl,
+        body,
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'x-webhook-signature':
+              this.webhookSignatureService.generateSignature(body),
+          },
+          timeout: TENANT_LIFECYCLE_EVENT_REQUEST_TIMEOUT_MS,
+        },
+      );
+
+      await this.deliveryRepository.update(deliveryId, {
+        status: TenantLifecycleEventDeliveryStatus.DELIVERED,
+        attemptCount,
+        lastAttemptAt,
+        lastResponseStatus: response.status,
+        lastError: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      });
+
+      return;
+    } catch (error) {
+      const lastResponseStatus = axios.isAxiosError(error)
+        ? (error.response?.status ?? null)
+        : null;
+      const lastError = error instanceof Error ? error.message : String(error);
+
+      if (
+        attemptCount >=
+        this.twentyConfigService.get('TENANT_EVENTS_MAX_ATTEMPTS')
+      ) {
+        await this.deliveryRepository.update(deliveryId, {
+          status: TenantLifecycleEventDeliveryStatus.FAILED,
+          attemptCount,
+          lastAttemptAt,
+          lastResponseStatus,
+          lastError,
+          nextAttemptAt: null,
+        });
+
+        this.logger.warn(
+          `Giving up on ${delivery.eventType} delivery ${deliveryId} after ${attemptCount} attempts: ${lastError}`,
+        );
+
+        return;
+      }
+
+      const delay =
+        TENANT_LIFECYCLE_EVENT_RETRY_BASE_DELAY_MS * 2 ** (attemptCount - 1);
+
+      await this.deliveryRepository.update(deliveryId, {
+        attemptCount,
+        lastAttemptAt,
+        lastResponseStatus,
+        lastError,
+        nextAttemptAt: new Date(lastAttemptAt.getTime() + delay),
+      });
+
+      await this.messageQueueService.add<DeliverTenantLifecycleEventJobData>(
+        DeliverTenantLifecycleEventJob.name,
+        { deliveryId },
+        { delay },
+      );
+    }
+  }
+}
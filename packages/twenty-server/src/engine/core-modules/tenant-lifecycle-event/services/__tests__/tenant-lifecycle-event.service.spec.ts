@@ -0,0 +1,88 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { getQueueToken } from 'src/engine/core-modules/message-queue/utils/get-queue-token.util';
+import { TenantLifecycleEventType } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-type.enum';
+import { DeliverTenantLifecycleEventJob } from 'src/engine/core-modules/tenant-lifecycle-event/jobs/deliver-tenant-lifecycle-event.job';
+import { TenantLifecycleEventService } from 'src/engine/core-modules/tenant-lifecycle-event/services/tenant-lifecycle-event.service';
+import { TenantLifecycleEventDeliveryEntity } from 'src/engine/core-modules/tenant-lifecycle-event/tenant-lifecycle-event-delivery.entity';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+
+describe('TenantLifecycleEventService', () => {
+  let service: TenantLifecycleEventService;
+  let deliveryRepository: {
+    insert: jest.Mock;
+  };
+  let messageQueueService: { add: jest.Mock };
+  let config: Record<string, unknown>;
+
+  beforeEach(async () => {
+    config = {
+      TENANT_EVENTS_WEBHOOK_URL: 'https://billing.example.com/events',
+    };
+    deliveryRepository = {
+      insert: jest.fn(),
+    };
+    messageQueueService = { add: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantLifecycleEventService,
+        {
+          provide: getRepositoryToken(TenantLifecycleEventDeliveryEntity),
+          useValue: deliveryRepository,
+        },
+        {
+          provide: getQueueToken(MessageQueue.webhookQueue),
+          useValue: messageQueueService,
+        },
+        {
+          provide: TwentyConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(TenantLifecycleEventService);
+  });
+
+  it('should log the event and enqueue its delivery', async () => {
+    await service.emit(TenantLifecycleEventType.USER_JOINED, 'tenant-id', {
+      userId: 'user-id',
+    });
+
+    const [delivery] = deliveryRepository.insert.mock.calls[0];
+
+    expect(delivery).toMatchObject({
+      tenantId: 'tenant-id',
+      eventType: TenantLifecycleEventType.USER_JOINED,
+      payload: {
+        id: delivery.id,
+        event: TenantLifecycleEventType.USER_JOINED,
+        data: { tenantId: 'tenant-id', userId: 'user-id' },
+      },
+    });
+    expect(messageQueueService.add).toHaveBeenCalledWith(
+      DeliverTenantLifecycleEventJob.name,
+      { deliveryId: delivery.id },
+    );
+  });
+
+  it('should do nothing when no target url is configured', async () => {
+    config.TENANT_EVENTS_WEBHOOK_URL = '';
+
+    await service.emit(TenantLifecycleEventType.TENANT_CREATED, 'tenant-id');
+
+    expect(deliveryRepository.insert).not.toHaveBeenCalled();
+    expect(messageQueueService.add).not.toHaveBeenCalled();
+  });
+
+  it('should not throw when the event cannot be logged', async () => {
+    deliveryRepository.insert.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      service.emit(TenantLifecycleEventType.TENANT_CREATED, 'tenant-id'),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { isNonEmptyString } from '@sniptt/guards';
+import { isDefined } from 'twenty-shared/utils';
+import { Repository } from 'typeorm';
+import { v4 } from 'uuid';
+
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import { type TenantLifecycleEventDeliveryStatus } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-delivery-status.enum';
+import { type TenantLifecycleEventType } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-type.enum';
+import {
+  DeliverTenantLifecycleEventJob,
+  type DeliverTenantLifecycleEventJobData,
+} from 'src/engine/core-modules/tenant-lifecycle-event/jobs/deliver-tenant-lifecycle-event.job';
+import { TenantLifecycleEventDeliveryEntity } from 'src/engine/core-modules/tenant-lifecycle-event/tenant-lifecycle-event-delivery.entity';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+
+const MAX_DELIVERIES_PER_PAGE = 200;
+
+/**
+ * Sends tenant lifecycle events to TENANT_EVENTS_WEBHOOK_URL for billing and
+ * provisioning systems. Each event is stored in the delivery log, then
+ * posted by DeliverTenantLifecycleEventJob from the webhook queue.
+ */
+@Injectable()
+export class TenantLifecycleEventService {
+  private readonly logger = new Logger(TenantLifecycleEventService.name);
+
+  constructor(
+    @InjectRepository(TenantLifecycleEventDeliveryEntity)
+    private readonly deliveryRepository: Repository<TenantLifecycleEventDeliveryEntity>,
+    @InjectMessageQueue(MessageQueue.webhookQueue)
+    private readonly messageQueueService: MessageQueueService,
+    private readonly twentyConfigService: TwentyConfigService,
+  ) {}
+
+  // Never throws, so that the lifecycle operation emitting the event
+  // does not fail because of the event stream
+  async emit(
+    eventType: TenantLifecycleEventType,
+    tenantId: string,
+    data: Record<string, unknown> = {},
+  ): Promise<void> {
+    const targetUrl = this.twentyConfigService.get('TENANT_EVENTS_WEBHOOK_URL');
+
+    if (!isNonEmptyString(targetUrl)) {
+      return;
+    }
+
+    try {
+      const id = v4();
+
+      await this.deliveryRepository.insert({
+        id,
+        tenantId,
+        eventType,
+        targetUrl,
+        payload: {
+          id,
+          event: eventType,
+          timestamp: new Date().toISOString(),
+          data: { ...data, tenantId },
+        },
+      });
+
+      await this.messageQueueService.add<DeliverTenantLifecycleEventJobData>(
+        DeliverTenantLifecycleEventJob.name,
+        { deliveryId: id },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Could not emit ${eventType} for tenant ${tenantId}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  async findDeliveries(options?: {
+    tenantId?: string;
+    eventType?: TenantLifecycleEventType;
+    status?: TenantLifecycleEventDeliveryStatus;
+    limit?: number;
+  }): Promise<TenantLifecycleEventDeliveryEntity[]> {
+    return this.deliveryRepository.find({
+      where: {
+        ...(isDefined(options?.tenantId) && { tenantId: options.tenantId }),
+        ...(isDefined(options?.eventType) && {
+          eventType: options.eventType,
+        }),
+        ...(isDefined(options?.status) && { status: options.status }),
+      },
+      order: { createdAt: 'DESC' },
+      take: Math.min(
+        options?.limit ?? MAX_DELIVERIES_PER_PAGE,
+        MAX_DELIVERIES_PER_PAGE,
+      ),
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+import { TenantLifecycleEventDeliveryStatus } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-delivery-status.enum';
+import { TenantLifecycleEventType } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-type.enum';
+import { TenantLifecycleEventPayload } from 'src/engine/core-modules/tenant-lifecycle-event/types/tenant-lifecycle-event-payload.type';
+
+// One row per outbound event. tenantId has no foreign key so the log of a
+// tenant outlives its purge, including the tenant.deleted event itself.
+@Entity({ name: 'tenantLifecycleEventDelivery', schema: 'core' })
+@Index('IDX_TENANT_LIFECYCLE_EVENT_DELIVERY_TENANT_ID_CREATED_AT', [
+  'tenantId',
+  'createdAt',
+])
+@Index('IDX_TENANT_LIFECYCLE_EVENT_DELIVERY_STATUS', ['status'])
+export class TenantLifecycleEventDeliveryEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ nullable: false, type: 'uuid' })
+  tenantId: string;
+
+  @Column({
+    type: 'enum',
+    enum: Object.values(TenantLifecycleEventType),
+    nullable: false,
+  })
+  eventType: TenantLifecycleEventType;
+
+  @Column({ type: 'jsonb', nullable: false })
+  payload: TenantLifecycleEventPayload;
+
+  @Column({ type: 'varchar', nullable: false })
+  targetUrl: string;
+
+  @Column({
+    type: 'enum',
+    enum: Object.values(TenantLifecycleEventDeliveryStatus),
+    default: TenantLifecycleEventDeliveryStatus.PENDING,
+    nullable: false,
+  })
+  status: TenantLifecycleEventDeliveryStatus;
+
+  @Column({ type: 'integer', nullable: false, default: 0 })
+  attemptCount: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastAttemptAt: Date | null;
+
+  @Column({ type: 'integer', nullable: true })
+  lastResponseStatus: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  nextAttemptAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  deliveredAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
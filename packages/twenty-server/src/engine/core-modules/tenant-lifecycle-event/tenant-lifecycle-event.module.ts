@@ -0,0 +1,22 @@
+import { HttpModule } from '@nestjs/axios';
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { WebhookSignatureService } from 'src/engine/core-modules/admin/services/webhook-signature.service';
+import { DeliverTenantLifecycleEventJob } from 'src/engine/core-modules/tenant-lifecycle-event/jobs/deliver-tenant-lifecycle-event.job';
+import { TenantLifecycleEventService } from 'src/engine/core-modules/tenant-lifecycle-event/services/tenant-lifecycle-event.service';
+import { TenantLifecycleEventDeliveryEntity } from 'src/engine/core-modules/tenant-lifecycle-event/tenant-lifecycle-event-delivery.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([TenantLifecycleEventDeliveryEntity]),
+    HttpModule,
+  ],
+  providers: [
+    TenantLifecycleEventService,
+    WebhookSignatureService,
+    DeliverTenantLifecycleEventJob,
+  ],
+  exports: [TenantLifecycleEventService],
+})
+export class TenantLifecycleEventModule {}
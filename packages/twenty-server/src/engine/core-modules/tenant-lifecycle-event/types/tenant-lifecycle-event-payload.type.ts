@@ -0,0 +1,13 @@
+import { type TenantLifecycleEventType } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-type.enum';
+
+// Same envelope as the inbound tenant webhooks, with the delivery id so
+// receivers can deduplicate retried deliveries
+export type TenantLifecycleEventPayload = {
+  id: string;
+  event: TenantLifecycleEventType;
+  timestamp: string;
+  data: {
+    tenantId: string;
+    [key: string]: unknown;
+  };
+};
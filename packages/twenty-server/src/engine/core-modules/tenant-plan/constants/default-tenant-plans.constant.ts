@@ -0,0 +1,36 @@
+import { FeatureFlagKey } from 'src/engine/core-modules/feature-flag/enums/feature-flag-key.enum';
+import { type TenantPlan } from 'src/engine/core-modules/tenant-plan/types/tenant-plan.type';
+
+// Used when TENANT_PLANS is not set
+export const DEFAULT_TENANT_PLANS: TenantPlan[] = [
+  {
+    key: 'free',
+    label: 'Free',
+    maxUsers: 3,
+    storageQuotaMb: 1024,
+    featureFlags: {
+      [FeatureFlagKey.IS_AI_ENABLED]: false,
+      [FeatureFlagKey.IS_IMAP_SMTP_CALDAV_ENABLED]: false,
+    },
+  },
+  {
+    key: 'pro',
+    label: 'Pro',
+    maxUsers: 25,
+    storageQuotaMb: 51200,
+    featureFlags: {
+      [FeatureFlagKey.IS_AI_ENABLED]: true,
+      [FeatureFlagKey.IS_IMAP_SMTP_CALDAV_ENABLED]: true,
+    },
+  },
+  {
+    key: 'enterprise',
+    label: 'Enterprise',
+    maxUsers: -1,
+    storageQuotaMb: -1,
+    featureFlags: {
+      [FeatureFlagKey.IS_AI_ENABLED]: true,
+      [FeatureFlagKey.IS_IMAP_SMTP_CALDAV_ENABLED]: true,
+    },
+  },
+];
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { isNonEmptyString } from '@sniptt/guards';
+import { isDefined } from 'twenty-shared/utils';
+import { Repository } from 'typeorm';
+
+import { type FeatureFlagKey } from 'src/engine/core-modules/feature-flag/enums/feature-flag-key.enum';
+import { FeatureFlagService } from 'src/engine/core-modules/feature-flag/services/feature-flag.service';
+import { DEFAULT_TENANT_PLANS } from 'src/engine/core-modules/tenant-plan/constants/default-tenant-plans.constant';
+import {
+  TenantPlanException,
+  TenantPlanExceptionCode,
+} from 'src/engine/core-modules/tenant-plan/tenant-plan.exception';
+import { type TenantPlan } from 'src/engine/core-modules/tenant-plan/types/tenant-plan.type';
+import { parseTenantPlans } from 'src/engine/core-modules/tenant-plan/utils/parse-tenant-plans.util';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+/**
+ * Plan catalogue for tenants. Plans come from the TENANT_PLANS config
+ * variable, or DEFAULT_TENANT_PLANS when it is not set. Assigning a plan
+ * copies its seat and storage limits onto the workspace and applies its
+ * feature flags.
+ */
+@Injectable()
+export class TenantPlanService {
+  constructor(
+    @InjectRepository(WorkspaceEntity)
+    private readonly workspaceRepository: Repository<WorkspaceEntity>,
+    private readonly featureFlagService: FeatureFlagService,
+    private readonly twentyConfigService: TwentyConfigService,
+  ) {}
+
+  getPlans(): TenantPlan[] {
+    const rawCatalogue = this.twentyConfigService.get('TENANT_PLANS');
+
+    return isNonEmptyString(rawCatalogue)
+      ? parseTenantPlans(rawCatalogue)
+      : DEFAULT_TENANT_PLANS;
+  }
+
+  getPlanOrThrow(planKey: string): TenantPlan {
+    const plan = this.getPlans().find(({ key }) => key === planKey);
+
+    if (!isDefined(plan)) {
+      throw new TenantPlanException(
+        `Plan ${planKey} does not exist`,
+        TenantPlanExceptionCode.PLAN_NOT_FOUND,
+      );
+    }
+
+    return plan;
+  }
+
+  async assignPlan(
+    tenantId: string,
+    planKey: string,
+  ): Promise<{ workspace: WorkspaceEntity; plan: TenantPlan }> {
+    const plan = this.getPlanOrThrow(planKey);
+
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: tenantId },
+    });
+
+    if (!isDefined(workspace)) {
+      throw new TenantPlanException(
+        `Tenant ${tenantId} not found`,
+        TenantPlanExceptionCode.TENANT_NOT_FOUND,
+      );
+    }
+
+    workspace.planKey = plan.key;
+    workspace.maxUsers = plan.maxUsers;
+    workspace.storageQuotaMb = plan.storageQuotaMb;
+
+    const savedWorkspace = await this.workspaceRepository.save(workspace);
+
+    for (const [featureFlag, value] of Object.entries(plan.featureFlags)) {
+      await this.featureFlagService.upsertWorkspaceFeatureFlag({
+        workspaceId: tenantId,
+        featureFlag: featureFlag as FeatureFlagKey,
+        value,
+      });
+    }
+
+    return { workspace: savedWorkspace, plan };
+  }
+}
@@ -0,0 +1,9 @@
+import { CustomException } from 'src/utils/custom-exception';
+
+export class TenantPlanException extends CustomException<TenantPlanExceptionCode> {}
+
+export enum TenantPlanExceptionCode {
+  TENANT_NOT_FOUND = 'TENANT_NOT_FOUND',
+  PLAN_NOT_FOUND = 'PLAN_NOT_FOUND',
+  INVALID_PLAN_CATALOGUE = 'INVALID_PLAN_CATALOGUE',
+}
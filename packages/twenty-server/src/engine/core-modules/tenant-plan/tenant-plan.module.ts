@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { FeatureFlagModule } from 'src/engine/core-modules/feature-flag/feature-flag.module';
+import { TenantPlanService } from 'src/engine/core-modules/tenant-plan/services/tenant-plan.service';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([WorkspaceEntity]), FeatureFlagModule],
+  providers: [TenantPlanService],
+  exports: [TenantPlanService],
+})
+export class TenantPlanModule {}
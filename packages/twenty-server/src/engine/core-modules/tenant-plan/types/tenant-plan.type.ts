@@ -0,0 +1,12 @@
+import { type FeatureFlagKey } from 'src/engine/core-modules/feature-flag/enums/feature-flag-key.enum';
+
+// maxUsers and storageQuotaMb use -1 for unlimited, like the workspace
+// columns they are copied to. Feature flags missing from a plan are left
+// as they are on the workspace.
+export type TenantPlan = {
+  key: string;
+  label: string;
+  maxUsers: number;
+  storageQuotaMb: number;
+  featureFlags: Partial<Record<FeatureFlagKey, boolean>>;
+};
@@ -0,0 +1,62 @@
+import { FeatureFlagKey } from 'src/engine/core-modules/feature-flag/enums/feature-flag-key.enum';
+import { TenantPlanExceptionCode } from 'src/engine/core-modules/tenant-plan/tenant-plan.exception';
+import { parseTenantPlans } from 'src/engine/core-modules/tenant-plan/utils/parse-tenant-plans.util';
+
+describe('parseTenantPlans', () => {
+  it('should parse a valid catalogue', () => {
+    const plans = parseTenantPlans(
+      JSON.stringify([
+        {
+          key: 'starter',
+          maxUsers: 5,
+          storageQuotaMb: 2048,
+          featureFlags: { [FeatureFlagKey.IS_AI_ENABLED]: true },
+        },
+        {
+          key: 'unlimited',
+          label: 'Unlimited',
+          maxUsers: -1,
+          storageQuotaMb: -1,
+        },
+      ]),
+    );
+
+    expect(plans).toEqual([
+      {
+        key: 'starter',
+        label: 'starter',
+        maxUsers: 5,
+        storageQuotaMb: 2048,
+        featureFlags: { [FeatureFlagKey.IS_AI_ENABLED]: true },
+      },
+      {
+        key: 'unlimited',
+        label: 'Unlimited',
+        maxUsers: -1,
+        storageQuotaMb: -1,
+        featureFlags: {},
+      },
+    ]);
+  });
+
+  it.each([
+    ['invalid JSON', '{'],
+    ['an empty catalogue', '[]'],
+    ['a plan without key', '[{"maxUsers":1,"storageQuotaMb":1}]'],
+    [
+      'duplicate keys',
+      '[{"key":"a","maxUsers":1,"storageQuotaMb":1},{"key":"a","maxUsers":1,"storageQuotaMb":1}]',
+    ],
+    ['a negative quota', '[{"key":"a","maxUsers":-2,"storageQuotaMb":1}]'],
+    [
+      'an unknown feature flag',
+      '[{"key":"a","maxUsers":1,"storageQuotaMb":1,"featureFlags":{"IS_UNKNOWN":true}}]',
+    ],
+  ])('should reject %s', (_, rawCatalogue) => {
+    expect(() => parseTenantPlans(rawCatalogue)).toThrow(
+      expect.objectContaining({
+        code: TenantPlanExceptionCode.INVALID_PLAN_CATALOGUE,
+      }),
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { isNonEmptyString, isObject } from '@sniptt/guards';
+
+import { FeatureFlagKey } from 'src/engine/core-modules/feature-flag/enums/feature-flag-key.enum';
+import {
+  TenantPlanException,
+  TenantPlanExceptionCode,
+} from 'src/engine/core-modules/tenant-plan/tenant-plan.exception';
+import { type TenantPlan } from 'src/engine/core-modules/tenant-plan/types/tenant-plan.type';
+
+const isQuota = (value: unknown): value is number =>
+  Number.isInteger(value) && ((value as number) >= 0 || value === -1);
+
+const invalidCatalogue = (message: string) =>
+  new TenantPlanException(
+    `Invalid TENANT_PLANS: ${message}`,
+    TenantPlanExceptionCode.INVALID_PLAN_CATALOGUE,
+  );
+
+// Parses the TENANT_PLANS JSON array into plans, rejecting anything that
+// could not be applied to a workspace as is
+export const parseTenantPlans = (rawCatalogue: string): TenantPlan[] => {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(rawCatalogue);
+  } catch {
+    throw invalidCatalogue('not valid JSON');
+  }
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw invalidCatalogue('expected a non-empty array of plans');
+  }
+
+  const featureFlagKeys = Object.values(FeatureFlagKey) as string[];
+  const seenKeys = new Set<string>();
+
+  return parsed.map((plan: unknown, index) => {
+    if (!isObject(plan) || Array.isArray(plan)) {
+      throw invalidCatalogue(`plan at index ${index} is not an object`);
+    }
+
+    const { key, label, maxUsers, storageQuotaMb, featureFlags } =
+      plan as Record<string, unknown>;
+
+    if (!isNonEmptyString(key)) {
+      throw invalidCatalogue(`plan at index ${index} has no key`);
+    }
+
+    if (seenKeys.has(key)) {
+      throw invalidCatalogue(`duplicate plan key "${key}"`);
+    }
+
+    seenKeys.add(key);
+
+    if (!isQuota(maxUsers) || !isQuota(storageQuotaMb)) {
+      throw invalidCatalogue(
+        `plan "${key}" must set maxUsers and storageQuotaMb to a non-negative integer or -1`,
+      );
+    }
+
+    const flags = featureFlags ?? {};
+
+    if (!isObject(flags) || Array.isArray(flags)) {
+      throw invalidCatalogue(`plan "${key}" featureFlags must be an object`);
+    }
+
+    for (const [flag, value] of Object.entries(flags)) {
+      if (!featureFlagKeys.includes(flag) || typeof value !== 'boolean') {
+        throw invalidCatalogue(
+          `plan "${key}" has an invalid feature flag "${flag}"`,
+        );
+      }
+    }
+
+    return {
+      key,
+      label: isNonEmptyString(label) ? label : key,
+      maxUsers,
+      storageQuotaMb,
+      featureFlags: flags as TenantPlan['featureFlags'],
+    };
+  });
+};
@@ -0,0 +1,59 @@
+import { Logger } from '@nestjs/common';
+
+import { Command, CommandRunner, Option } from 'nest-commander';
+
+import { TenantReconciliationService } from 'src/engine/core-modules/tenant-reconciliation/services/tenant-reconciliation.service';
+
+type TenantReconcileCommandOptions = {
+  heal?: boolean;
+};
+
+@Command({
+  name: 'tenant:reconcile',
+  description:
+    'Compare the tenant directory (crm.tenants) with workspaces and report, or heal, mismatches',
+})
+export class TenantReconcileCommand extends CommandRunner {
+  private readonly logger = new Logger(TenantReconcileCommand.name);
+
+  constructor(
+    private readonly tenantReconciliationService: TenantReconciliationService,
+  ) {
+    super();
+  }
+
+  async run(
+    _passedParams: string[],
+    options: TenantReconcileCommandOptions,
+  ): Promise<void> {
+    const report = await this.tenantReconciliationService.reconcile({
+      heal: options.heal ?? false,
+    });
+
+    if (report.mismatches.length === 0) {
+      this.logger.log(
+        `Tenant directory and workspaces are in sync (${report.tenantCount} tenants, ${report.workspaceCount} workspaces)`,
+      );
+
+      return;
+    }
+
+    const unresolvedCount = report.mismatches.filter(
+      (mismatch) => !mismatch.healed,
+    ).length;
+
+    this.logger.log(
+      `${report.mismatches.length} mismatch(es), ${unresolvedCount} unresolved${report.heal ? '' : ' (run with --heal to fix them)'}`,
+    );
+  }
+
+  @Option({
+    flags: '--heal',
+    description:
+      'Fix mismatches, the tenant directory being the source of truth',
+    required: false,
+  })
+  parseHeal(): boolean {
+    return true;
+  }
+}
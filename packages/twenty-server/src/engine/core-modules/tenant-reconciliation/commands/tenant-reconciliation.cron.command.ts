@@ -0,0 +1,31 @@
+import { Command, CommandRunner } from 'nest-commander';
+
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import { TENANT_RECONCILIATION_CRON_PATTERN } from 'src/engine/core-modules/tenant-reconciliation/constants/tenant-reconciliation-cron-pattern.constant';
+import { TenantReconciliationCronJob } from 'src/engine/core-modules/tenant-reconciliation/crons/tenant-reconciliation.cron.job';
+
+@Command({
+  name: 'cron:tenant:reconcile',
+  description:
+    'Starts a cron job to reconcile the tenant directory with workspaces',
+})
+export class TenantReconciliationCronCommand extends CommandRunner {
+  constructor(
+    @InjectMessageQueue(MessageQueue.cronQueue)
+    private readonly messageQueueService: MessageQueueService,
+  ) {
+    super();
+  }
+
+  async run(): Promise<void> {
+    await this.messageQueueService.addCron<undefined>({
+      jobName: TenantReconciliationCronJob.name,
+      data: undefined,
+      options: {
+        repeat: { pattern: TENANT_RECONCILIATION_CRON_PATTERN },
+      },
+    });
+  }
+}
@@ -0,0 +1,2 @@
+export const TENANT_DIRECTORY_COLUMNS =
+  'id, display_name, subdomain, crm_workspace_id, owner_email, status';
@@ -0,0 +1 @@
+export const TENANT_RECONCILIATION_CRON_PATTERN = '15 * * * *';
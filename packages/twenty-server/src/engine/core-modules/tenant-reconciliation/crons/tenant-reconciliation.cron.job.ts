@@ -0,0 +1,51 @@
+import { Logger } from '@nestjs/common';
+
+import { SentryCronMonitor } from 'src/engine/core-modules/cron/sentry-cron-monitor.decorator';
+import { ExceptionHandlerService } from 'src/engine/core-modules/exception-handler/exception-handler.service';
+import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
+import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { TENANT_RECONCILIATION_CRON_PATTERN } from 'src/engine/core-modules/tenant-reconciliation/constants/tenant-reconciliation-cron-pattern.constant';
+import { TenantReconciliationService } from 'src/engine/core-modules/tenant-reconciliation/services/tenant-reconciliation.service';
+import { TenantDirectoryDriverFactory } from 'src/engine/core-modules/tenant-reconciliation/tenant-directory-driver.factory';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+
+@Processor(MessageQueue.cronQueue)
+export class TenantReconciliationCronJob {
+  private readonly logger = new Logger(TenantReconciliationCronJob.name);
+
+  constructor(
+    private readonly tenantReconciliationService: TenantReconciliationService,
+    private readonly tenantDirectoryDriverFactory: TenantDirectoryDriverFactory,
+    private readonly twentyConfigService: TwentyConfigService,
+    private readonly exceptionHandlerService: ExceptionHandlerService,
+  ) {}
+
+  @Process(TenantReconciliationCronJob.name)
+  @SentryCronMonitor(
+    TenantReconciliationCronJob.name,
+    TENANT_RECONCILIATION_CRON_PATTERN,
+  )
+  async handle(): Promise<void> {
+    // Installs without a tenant directory have nothing to reconcile
+    if (!this.tenantDirectoryDriverFactory.isConfigured()) {
+      return;
+    }
+
+    try {
+      const { mismatches } = await this.tenantReconciliationService.reconcile({
+        heal: this.twentyConfigService.get('TENANT_RECONCILIATION_AUTO_HEAL'),
+      });
+
+      const healedCount = mismatches.filter(
+        (mismatch) => mismatch.healed,
+      ).length;
+
+      this.logger.log(
+        `Tenant reconciliation found ${mismatches.length} mismatch(es), healed ${healedCount}`,
+      );
+    } catch (error) {
+      this.exceptionHandlerService.captureExceptions([error]);
+    }
+  }
+}
@@ -0,0 +1,6 @@
+import { type TenantDirectoryEntry } from 'src/engine/core-modules/tenant-reconciliation/types/tenant-directory-entry.type';
+
+export interface TenantDirectoryDriverInterface {
+  listTenants(): Promise<TenantDirectoryEntry[]>;
+  linkWorkspace(tenantId: string, workspaceId: string): Promise<void>;
+}
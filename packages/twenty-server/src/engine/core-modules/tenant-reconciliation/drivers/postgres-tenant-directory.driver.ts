@@ -0,0 +1,47 @@
+import { Client } from 'pg';
+
+import { type TenantDirectoryDriverInterface } from 'src/engine/core-modules/tenant-reconciliation/drivers/interfaces/tenant-directory-driver.interface';
+
+import { TENANT_DIRECTORY_COLUMNS } from 'src/engine/core-modules/tenant-reconciliation/constants/tenant-directory-columns.constant';
+import { type TenantDirectoryEntry } from 'src/engine/core-modules/tenant-reconciliation/types/tenant-directory-entry.type';
+import { type TenantDirectoryRow } from 'src/engine/core-modules/tenant-reconciliation/types/tenant-directory-row.type';
+import { formatTenantDirectoryRow } from 'src/engine/core-modules/tenant-reconciliation/utils/format-tenant-directory-row.util';
+
+// Reads crm.tenants straight from Postgres. Used with a local copy of the
+// Supabase crm schema (supabase/migrations) to reconcile without Supabase
+export class PostgresTenantDirectoryDriver
+  implements TenantDirectoryDriverInterface
+{
+  constructor(private readonly options: { connectionString: string }) {}
+
+  async listTenants(): Promise<TenantDirectoryEntry[]> {
+    const rows = await this.query<TenantDirectoryRow>(
+      `SELECT ${TENANT_DIRECTORY_COLUMNS} FROM crm.tenants ORDER BY id`,
+    );
+
+    return rows.map(formatTenantDirectoryRow);
+  }
+
+  async linkWorkspace(tenantId: string, workspaceId: string): Promise<void> {
+    await this.query(
+      'UPDATE crm.tenants SET crm_workspace_id = $2, updated_at = NOW() WHERE id = $1',
+      [tenantId, workspaceId],
+    );
+  }
+
+  private async query<T>(text: string, values?: unknown[]): Promise<T[]> {
+    const client = new Client({
+      connectionString: this.options.connectionString,
+    });
+
+    await client.connect();
+
+    try {
+      const { rows } = await client.query(text, values);
+
+      return rows as T[];
+    } finally {
+      await client.end();
+    }
+  }
+}
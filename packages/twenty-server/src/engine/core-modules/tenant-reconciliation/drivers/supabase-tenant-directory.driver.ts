@@ -0,0 +1,68 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+import { type TenantDirectoryDriverInterface } from 'src/engine/core-modules/tenant-reconciliation/drivers/interfaces/tenant-directory-driver.interface';
+
+import { TENANT_DIRECTORY_COLUMNS } from 'src/engine/core-modules/tenant-reconciliation/constants/tenant-directory-columns.constant';
+import { TENANT_DIRECTORY_PAGE_SIZE } from 'src/engine/core-modules/tenant-reconciliation/constants/tenant-directory-page-size.constant';
+import { type TenantDirectoryEntry } from 'src/engine/core-modules/tenant-reconciliation/types/tenant-directory-entry.type';
+import { type TenantDirectoryRow } from 'src/engine/core-modules/tenant-reconciliation/types/tenant-directory-row.type';
+import { formatTenantDirectoryRow } from 'src/engine/core-modules/tenant-reconciliation/utils/format-tenant-directory-row.util';
+
+// Reads crm.tenants through the Supabase REST API, which requires the crm
+// schema to be exposed in the project API settings
+export class SupabaseTenantDirectoryDriver
+  implements TenantDirectoryDriverInterface
+{
+  private readonly client: SupabaseClient;
+
+  constructor(options: { url: string; serviceRoleKey: string }) {
+    this.client = createClient(options.url, options.serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+  }
+
+  async listTenants(): Promise<TenantDirectoryEntry[]> {
+    const tenants: TenantDirectoryEntry[] = [];
+
+    for (let from = 0; ; from += TENANT_DIRECTORY_PAGE_SIZE) {
+      const { data, error } = await this.client
+        .schema('crm')
+        .from('tenants')
+        .select(TENANT_DIRECTORY_COLUMNS)
+        .order('id')
+        .range(from, from + TENANT_DIRECTORY_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Could not list crm.tenants: ${error.message}`);
+      }
+
+      const rows = (data ?? []) as unknown as TenantDirectoryRow[];
+
+      tenants.push(...rows.map(formatTenantDirectoryRow));
+
+      if (rows.length < TENANT_DIRECTORY_PAGE_SIZE) {
+        return tenants;
+      }
+    }
+  }
+
+  async linkWorkspace(tenantId: string, workspaceId: string): Promise<void> {
+    const { error } = await this.client
+      .schema('crm')
+      .from('tenants')
+      .update({
+        crm_workspace_id: workspaceId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', tenantId);
+
+    if (error) {
+      throw new Error(
+        `Could not link tenant ${tenantId} to workspace ${workspaceId}: ${error.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,4 @@
+export enum TenantDirectoryDriver {
+  SUPABASE = 'SUPABASE',
+  POSTGRES = 'POSTGRES',
+}
@@ -0,0 +1,7 @@
+// Mirrors the status check constraint of crm.tenants
+export enum TenantDirectoryStatus {
+  PENDING = 'pending',
+  ACTIVE = 'active',
+  DISABLED = 'disabled',
+  DELETED = 'deleted',
+}
@@ -0,0 +1,10 @@
+export enum TenantReconciliationMismatchType {
+  // Directory tenant whose crm_workspace_id matches no workspace
+  MISSING_WORKSPACE = 'MISSING_WORKSPACE',
+  // Directory tenant and workspace disagree on active / disabled / deleted
+  STATUS_MISMATCH = 'STATUS_MISMATCH',
+  // Workspace that no directory tenant points to
+  ORPHAN_WORKSPACE = 'ORPHAN_WORKSPACE',
+  // Workspace schema left behind without a workspace
+  ORPHAN_SCHEMA = 'ORPHAN_SCHEMA',
+}
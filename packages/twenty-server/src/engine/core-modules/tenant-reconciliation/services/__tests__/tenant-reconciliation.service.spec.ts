@@ -0,0 +1,204 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { DataSource } from 'typeorm';
+
+import { TenantAdminService } from 'src/engine/core-modules/admin/services/tenant-admin.service';
+import { TenantDirectoryStatus } from 'src/engine/core-modules/tenant-reconciliation/enums/tenant-directory-status.enum';
+import { TenantReconciliationMismatchType } from 'src/engine/core-modules/tenant-reconciliation/enums/tenant-reconciliation-mismatch-type.enum';
+import { TenantReconciliationService } from 'src/engine/core-modules/tenant-reconciliation/services/tenant-reconciliation.service';
+import { TenantDirectoryDriverFactory } from 'src/engine/core-modules/tenant-reconciliation/tenant-directory-driver.factory';
+import { type TenantDirectoryEntry } from 'src/engine/core-modules/tenant-reconciliation/types/tenant-directory-entry.type';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { getWorkspaceSchemaName } from 'src/engine/workspace-datasource/utils/get-workspace-schema-name.util';
+
+const WORKSPACE_A = '20202020-0000-4000-8000-00000000000a';
+const WORKSPACE_B = '20202020-0000-4000-8000-00000000000b';
+
+const buildTenant = (
+  overrides: Partial<TenantDirectoryEntry>,
+): TenantDirectoryEntry => ({
+  id: 'tenant-id',
+  displayName: 'Acme',
+  subdomain: 'acme',
+  crmWorkspaceId: WORKSPACE_A,
+  ownerEmail: 'owner@acme.com',
+  status: TenantDirectoryStatus.ACTIVE,
+  ...overrides,
+});
+
+describe('TenantReconciliationService', () => {
+  let service: TenantReconciliationService;
+  let tenants: TenantDirectoryEntry[];
+  let workspaces: Partial<WorkspaceEntity>[];
+  let schemaNames: string[];
+  let directory: { listTenants: jest.Mock; linkWorkspace: jest.Mock };
+  let tenantAdminService: {
+    createTenant: jest.Mock;
+    enableTenant: jest.Mock;
+    disableTenant: jest.Mock;
+    restoreTenant: jest.Mock;
+    scheduleTenantDeletion: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    tenants = [];
+    workspaces = [];
+    schemaNames = [];
+    directory = {
+      listTenants: jest.fn(async () => tenants),
+      linkWorkspace: jest.fn(),
+    };
+    tenantAdminService = {
+      createTenant: jest
+        .fn()
+        .mockResolvedValue({ workspace: { id: WORKSPACE_B } }),
+      enableTenant: jest.fn(),
+      disableTenant: jest.fn(),
+      restoreTenant: jest.fn(),
+      scheduleTenantDeletion: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantReconciliationService,
+        {
+          provide: getRepositoryToken(WorkspaceEntity),
+          useValue: { find: jest.fn(async () => workspaces) },
+        },
+        {
+          provide: DataSource,
+          useValue: {
+            query: jest.fn(async () =>
+              schemaNames.map((schema_name) => ({ schema_name })),
+            ),
+          },
+        },
+        {
+          provide: TenantDirectoryDriverFactory,
+          useValue: { getCurrentDriver: () => directory },
+        },
+        { provide: TenantAdminService, useValue: tenantAdminService },
+      ],
+    }).compile();
+
+    service = module.get(TenantReconciliationService);
+  });
+
+  it('should report nothing when both sides agree', async () => {
+    tenants = [buildTenant({})];
+    workspaces = [{ id: WORKSPACE_A, subdomain: 'acme', isDisabled: false }];
+    schemaNames = [getWorkspaceSchemaName(WORKSPACE_A)];
+
+    const report = await service.reconcile();
+
+    expect(report.mismatches).toEqual([]);
+    expect(report.tenantCount).toBe(1);
+  });
+
+  it('should report drift without healing by default', async () => {
+    tenants = [buildTenant({ status: TenantDirectoryStatus.DISABLED })];
+    workspaces = [
+      { id: WORKSPACE_A, subdomain: 'acme', isDisabled: false },
+      { id: WORKSPACE_B, subdomain: 'other', isDisabled: false },
+    ];
+    schemaNames = [getWorkspaceSchemaName(WORKSPACE_A), 'workspace_leftover'];
+
+    const report = await service.reconcile();
+
+    expect(
+      report.mismatches.map(({ type, workspaceId, schemaName }) => ({
+        type,
+        workspaceId,
+        schemaName,
+      })),
+    ).toEqual([
+      {
+        type: TenantReconciliationMismatchType.STATUS_MISMATCH,
+        workspaceId: WORKSPACE_A,
+        schemaName: null,
+      },
+      {
+        type: TenantReconciliationMismatchType.ORPHAN_WORKSPACE,
+        workspaceId: WORKSPACE_B,
+        schemaName: null,
+      },
+      {
+        type: TenantReconciliationMismatchType.ORPHAN_SCHEMA,
+        workspaceId: null,
+        schemaName: 'workspace_leftover',
+      },
+    ]);
+    expect(tenantAdminService.disableTenant).not.toHaveBeenCalled();
+  });
+
+  it('should follow the directory status when healing', async () => {
+    tenants = [buildTenant({ status: TenantDirectoryStatus.DELETED })];
+    workspaces = [{ id: WORKSPACE_A, subdomain: 'acme', isDisabled: false }];
+
+    const report = await service.reconcile({ heal: true });
+
+    expect(tenantAdminService.scheduleTenantDeletion).toHaveBeenCalledWith(
+      WORKSPACE_A,
+      { reason: 'Deleted in tenant directory' },
+    );
+    expect(report.mismatches[0]).toMatchObject({
+      healAction: 'schedule-deletion',
+      healed: true,
+    });
+  });
+
+  it('should link a workspace found by subdomain', async () => {
+    tenants = [buildTenant({ crmWorkspaceId: null })];
+    workspaces = [{ id: WORKSPACE_A, subdomain: 'acme', isDisabled: false }];
+
+    await service.reconcile({ heal: true });
+
+    expect(directory.linkWorkspace).toHaveBeenCalledWith(
+      'tenant-id',
+      WORKSPACE_A,
+    );
+    expect(tenantAdminService.createTenant).not.toHaveBeenCalled();
+  });
+
+  it('should create and link missing workspaces and record heal failures', async () => {
+    tenants = [
+      buildTenant({ crmWorkspaceId: null }),
+      buildTenant({
+        id: 'other-tenant-id',
+        subdomain: 'other',
+        crmWorkspaceId: null,
+      }),
+    ];
+    tenantAdminService.createTenant
+      .mockResolvedValueOnce({ workspace: { id: WORKSPACE_B } })
+      .mockRejectedValueOnce(new Error('Subdomain "other" already exists'));
+
+    const report = await service.reconcile({ heal: true });
+
+    expect(directory.linkWorkspace).toHaveBeenCalledWith(
+      'tenant-id',
+      WORKSPACE_B,
+    );
+    expect(report.mismatches.map(({ healed }) => healed)).toEqual([
+      true,
+      false,
+    ]);
+    expect(report.mismatches[1].healError).toBe(
+      'Subdomain "other" already exists',
+    );
+  });
+
+  it('should skip tenants that are not provisioned yet', async () => {
+    tenants = [
+      buildTenant({
+        crmWorkspaceId: null,
+        status: TenantDirectoryStatus.PENDING,
+      }),
+    ];
+
+    const report = await service.reconcile({ heal: true });
+
+    expect(report.mismatches).toEqual([]);
+  });
+});
@@ -0,0 +1,304 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { isDefined } from 'twenty-shared/utils';
+import { DataSource, Repository } from 'typeorm';
+
+import { TenantAdminService } from 'src/engine/core-modules/admin/services/tenant-admin.service';
+import { TenantDirectoryStatus } from 'src/engine/core-modules/tenant-reconciliation/enums/tenant-directory-status.enum';
+import { TenantReconciliationMismatchType } from 'src/engine/core-modules/tenant-reconciliation/enums/tenant-reconciliation-mismatch-type.enum';
+import { TenantDirectoryDriverFactory } from 'src/engine/core-modules/tenant-reconciliation/tenant-directory-driver.factory';
+import { type TenantDirectoryEntry } from 'src/engine/core-modules/tenant-reconciliation/types/tenant-directory-entry.type';
+import {
+  type TenantReconciliationMismatch,
+  type TenantReconciliationReport,
+} from 'src/engine/core-modules/tenant-reconciliation/types/tenant-reconciliation-report.type';
+import { TenantDisabledCause } from 'src/engine/core-modules/workspace/enums/tenant-disabled-cause.enum';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { getWorkspaceSchemaName } from 'src/engine/workspace-datasource/utils/get-workspace-schema-name.util';
+
+type PendingMismatch = Omit<
+  TenantReconciliationMismatch,
+  'healed' | 'healError' | 'schemaName'
+> & {
+  schemaName?: string | null;
+  heal?: () => Promise<unknown>;
+};
+
+/**
+ * Compares the tenant directory (crm.tenants, the source of truth for the
+ * tenant lifecycle) with core.workspace and reports where they drifted
+ *
+ * With heal, the directory wins: missing workspaces are linked by subdomain
+ * or created, and workspace status follows the directory status. Orphan
+ * workspaces and schemas are only reported, as nothing tells who owns them
+ */
+@Injectable()
+export class TenantReconciliationService {
+  private readonly logger = new Logger(TenantReconciliationService.name);
+
+  constructor(
+    @InjectRepository(WorkspaceEntity)
+    private readonly workspaceRepository: Repository<WorkspaceEntity>,
+    private readonly dataSource: DataSource,
+    private readonly tenantDirectoryDriverFactory: TenantDirectoryDriverFactory,
+    private readonly tenantAdminService: TenantAdminService,
+  ) {}
+
+  async reconcile(options?: {
+    heal?: boolean;
+  }): Promise<TenantReconciliationReport> {
+    const heal = options?.heal ?? false;
+    const directory = this.tenantDirectoryDriverFactory.getCurrentDriver();
+
+    const tenants = await directory.listTenants();
+    const workspaces = await this.workspaceRepository.find({
+      select: ['id', 'subdomain', 'isDisabled', 'pendingDeletionAt'],
+    });
+
+    const workspacesById = new Map(
+      workspaces.map((workspace) => [workspace.id, workspace]),
+    );
+    const workspacesBySubdomain = new Map(
+      workspaces.map((workspace) => [workspace.subdomain, workspace]),
+    );
+    const linkedWorkspaceIds = new Set<string>();
+    const pendingMismatches: PendingMismatch[] = [];
+
+    for (const tenant of tenants) {
+      const workspace = isDefined(tenant.crmWorkspaceId)
+        ? workspacesById.get(tenant.crmWorkspaceId)
+        : undefined;
+
+      if (isDefined(workspace)) {
+        linkedWorkspaceIds.add(workspace.id);
+        pendingMismatches.push(...this.compareStatus(tenant, workspace));
+        continue;
+      }
+
+      // Not provisioned yet, or already gone on both sides
+      if (
+        (tenant.status === TenantDirectoryStatus.PENDING &&
+          !isDefined(tenant.crmWorkspaceId)) ||
+        tenant.status === TenantDirectoryStatus.DELETED
+      ) {
+        continue;
+      }
+
+      const workspaceWithSubdomain = workspacesBySubdomain.get(
+        tenant.subdomain,
+      );
+
+      if (
+        isDefined(workspaceWithSubdomain) &&
+        !linkedWorkspaceIds.has(workspaceWithSubdomain.id)
+      ) {
+        linkedWorkspaceIds.add(workspaceWithSubdomain.id);
+        pendingMismatches.push(
+          {
+            type: TenantReconciliationMismatchType.MISSING_WORKSPACE,
+            tenantId: tenant.id,
+            workspaceId: workspaceWithSubdomain.id,
+            detail: `crm_workspace_id is ${tenant.crmWorkspaceId ?? 'empty'}, workspace ${workspaceWithSubdomain.id} has subdomain ${tenant.subdomain}`,
+            healAction: 'link',
+            heal: () =>
+              directory.linkWorkspace(tenant.id, workspaceWithSubdomain.id),
+          },
+          ...this.compareStatus(tenant, workspaceWithSubdomain),
+        );
+        continue;
+      }
+
+      pendingMismatches.push({
+        type: TenantReconciliationMismatchType.MISSING_WORKSPACE,
+        tenantId: tenant.id,
+        workspaceId: tenant.crmWorkspaceId,
+        detail: `No workspace for ${tenant.status} tenant ${tenant.subdomain}`,
+        healAction: 'create',
+        heal: async () => {
+          const { workspace: createdWorkspace } =
+            await this.tenantAdminService.createTenant({
+              email: tenant.ownerEmail,
+              displayName: tenant.displayName,
+              subdomain: tenant.subdomain,
+            });
+
+          await directory.linkWorkspace(tenant.id, createdWorkspace.id);
+
+          if (tenant.status === TenantDirectoryStatus.DISABLED) {
+            await this.tenantAdminService.disableTenant(
+              createdWorkspace.id,
+              'Disabled in tenant directory',
+              TenantDisabledCause.TENANT_DIRECTORY,
+            );
+          }
+        },
+      });
+    }
+
+    for (const workspace of workspaces) {
+      if (
+        linkedWorkspaceIds.has(workspace.id) ||
+        isDefined(workspace.pendingDeletionAt)
+      ) {
+        continue;
+      }
+
+      pendingMismatches.push({
+        type: TenantReconciliationMismatchType.ORPHAN_WORKSPACE,
+        tenantId: null,
+        workspaceId: workspace.id,
+        detail: `No tenant points to workspace ${workspace.subdomain}`,
+        healAction: null,
+      });
+    }
+
+    const schemaNames = await this.findWorkspaceSchemaNames();
+    const expectedSchemaNames = new Set(
+      workspaces.map((workspace) => getWorkspaceSchemaName(workspace.id)),
+    );
+
+    for (const schemaName of schemaNames) {
+      if (!expectedSchemaNames.has(schemaName)) {
+        pendingMismatches.push({
+          type: TenantReconciliationMismatchType.ORPHAN_SCHEMA,
+          tenantId: null,
+          workspaceId: null,
+          schemaName,
+          detail: `Schema ${schemaName} belongs to no workspace`,
+          healAction: null,
+        });
+      }
+    }
+
+    const mismatches: TenantReconciliationMismatch[] = [];
+
+    for (const { heal: healMismatch, ...mismatch } of pendingMismatches) {
+      const result: TenantReconciliationMismatch = {
+        ...mismatch,
+        schemaName: mismatch.schemaName ?? null,
+        healed: false,
+        healError: null,
+      };
+
+      if (heal && isDefined(healMismatch)) {
+        try {
+          await healMismatch();
+          result.healed = true;
+        } catch (error) {
+          result.healError =
+            error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      this.logger.warn(
+        `${result.type} tenant=${result.tenantId ?? '-'} workspace=${result.workspaceId ?? '-'}: ${result.detail}${result.healed ? ` (healed: ${result.healAction})` : ''}${isDefined(result.healError) ? ` (heal failed: ${result.healError})` : ''}`,
+      );
+
+      mismatches.push(result);
+    }
+
+    this.logger.log(
+      `Reconciled ${tenants.length} tenant(s) with ${workspaces.length} workspace(s): ${mismatches.length} mismatch(es)`,
+    );
+
+    return {
+      checkedAt: new Date(),
+      heal,
+      tenantCount: tenants.length,
+      workspaceCount: workspaces.length,
+      mismatches,
+    };
+  }
+
+  private compareStatus(
+    tenant: TenantDirectoryEntry,
+    workspace: Pick<WorkspaceEntity, 'id' | 'isDisabled' | 'pendingDeletionAt'>,
+  ): PendingMismatch[] {
+    const isPendingDeletion = isDefined(workspace.pendingDeletionAt);
+    const mismatch = {
+      type: TenantReconciliationMismatchType.STATUS_MISMATCH,
+      tenantId: tenant.id,
+      workspaceId: workspace.id,
+    };
+
+    switch (tenant.status) {
+      case TenantDirectoryStatus.ACTIVE:
+        if (isPendingDeletion) {
+          return [
+            {
+              ...mismatch,
+              detail: 'Tenant is active, workspace is pending deletion',
+              healAction: 'restore',
+              heal: async () => {
+                const restored = await this.tenantAdminService.restoreTenant(
+                  workspace.id,
+                );
+
+                if (restored.isDisabled) {
+                  await this.tenantAdminService.enableTenant(workspace.id);
+                }
+              },
+            },
+          ];
+        }
+
+        if (workspace.isDisabled) {
+          return [
+            {
+              ...mismatch,
+              detail: 'Tenant is active, workspace is disabled',
+              healAction: 'enable',
+              heal: () => this.tenantAdminService.enableTenant(workspace.id),
+            },
+          ];
+        }
+
+        return [];
+      case TenantDirectoryStatus.DISABLED:
+        if (!workspace.isDisabled) {
+          return [
+            {
+              ...mismatch,
+              detail: 'Tenant is disabled, workspace is enabled',
+              healAction: 'disable',
+              heal: () =>
+                this.tenantAdminService.disableTenant(
+                  workspace.id,
+                  'Disabled in tenant directory',
+                  TenantDisabledCause.TENANT_DIRECTORY,
+                ),
+            },
+          ];
+        }
+
+        return [];
+      case TenantDirectoryStatus.DELETED:
+        if (!isPendingDeletion) {
+          return [
+            {
+              ...mismatch,
+              detail: 'Tenant is deleted, workspace is not pending deletion',
+              healAction: 'schedule-deletion',
+              heal: () =>
+                this.tenantAdminService.scheduleTenantDeletion(workspace.id, {
+                  reason: 'Deleted in tenant directory',
+                }),
+            },
+          ];
+        }
+
+        return [];
+      default:
+        return [];
+    }
+  }
+
+  private async findWorkspaceSchemaNames(): Promise<string[]> {
+    const rows: { schema_name: string }[] = await this.dataSource.query(
+      `SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'workspace\\_%'`,
+    );
+
+    return rows.map((row) => row.schema_name);
+  }
+}
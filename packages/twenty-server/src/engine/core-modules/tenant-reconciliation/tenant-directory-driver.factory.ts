@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+
+import { isNonEmptyString } from '@sniptt/guards';
+
+import { type TenantDirectoryDriverInterface } from 'src/engine/core-modules/tenant-reconciliation/drivers/interfaces/tenant-directory-driver.interface';
+
+import { PostgresTenantDirectoryDriver } from 'src/engine/core-modules/tenant-reconciliation/drivers/postgres-tenant-directory.driver';
+import { SupabaseTenantDirectoryDriver } from 'src/engine/core-modules/tenant-reconciliation/drivers/supabase-tenant-directory.driver';
+import { TenantDirectoryDriver } from 'src/engine/core-modules/tenant-reconciliation/enums/tenant-directory-driver.enum';
+import { DriverFactoryBase } from 'src/engine/core-modules/twenty-config/dynamic-factory.base';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+
+@Injectable()
+export class TenantDirectoryDriverFactory extends DriverFactoryBase<TenantDirectoryDriverInterface> {
+  constructor(twentyConfigService: TwentyConfigService) {
+    super(twentyConfigService);
+  }
+
+  // The default SUPABASE driver is only configured on Supabase installs
+  isConfigured(): boolean {
+    switch (this.twentyConfigService.get('TENANT_DIRECTORY_DRIVER')) {
+      case TenantDirectoryDriver.SUPABASE:
+        return (
+          isNonEmptyString(this.twentyConfigService.get('SUPABASE_URL')) &&
+          isNonEmptyString(
+            this.twentyConfigService.get('SUPABASE_SERVICE_ROLE_KEY'),
+          )
+        );
+      case TenantDirectoryDriver.POSTGRES:
+        return isNonEmptyString(this.getPostgresConnectionString());
+      default:
+        return false;
+    }
+  }
+
+  protected buildConfigKey(): string {
+    const driver = this.twentyConfigService.get('TENANT_DIRECTORY_DRIVER');
+
+    if (driver === TenantDirectoryDriver.SUPABASE) {
+      return `supabase|${this.twentyConfigService.get('SUPABASE_URL')}`;
+    }
+
+    if (driver === TenantDirectoryDriver.POSTGRES) {
+      return `postgres|${this.getPostgresConnectionString()}`;
+    }
+
+    throw new Error(`Unsupported tenant directory driver: ${driver}`);
+  }
+
+  protected createDriver(): TenantDirectoryDriverInterface {
+    const driver = this.twentyConfigService.get('TENANT_DIRECTORY_DRIVER');
+
+    switch (driver) {
+      case TenantDirectoryDriver.SUPABASE: {
+        const url = this.twentyConfigService.get('SUPABASE_URL');
+        const serviceRoleKey = this.twentyConfigService.get(
+          'SUPABASE_SERVICE_ROLE_KEY',
+        );
+
+        if (!isNonEmptyString(url) || !isNonEmptyString(serviceRoleKey)) {
+          throw new Error(
+            'Supabase tenant directory requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
+          );
+        }
+
+        return new SupabaseTenantDirectoryDriver({ url, serviceRoleKey });
+      }
+
+      case TenantDirectoryDriver.POSTGRES:
+        return new PostgresTenantDirectoryDriver({
+          connectionString: this.getPostgresConnectionString(),
+        });
+
+      default:
+        throw new Error(`Invalid tenant directory driver: ${driver}`);
+    }
+  }
+
+  private getPostgresConnectionString(): string {
+    const url = this.twentyConfigService.get('TENANT_DIRECTORY_PG_URL');
+
+    return isNonEmptyString(url)
+      ? url
+      : this.twentyConfigService.get('PG_DATABASE_URL');
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { AdminModule } from 'src/engine/core-modules/admin/admin.module';
+import { TenantReconcileCommand } from 'src/engine/core-modules/tenant-reconciliation/commands/tenant-reconcile.command';
+import { TenantReconciliationCronCommand } from 'src/engine/core-modules/tenant-reconciliation/commands/tenant-reconciliation.cron.command';
+import { TenantReconciliationCronJob } from 'src/engine/core-modules/tenant-reconciliation/crons/tenant-reconciliation.cron.job';
+import { TenantReconciliationService } from 'src/engine/core-modules/tenant-reconciliation/services/tenant-reconciliation.service';
+import { TenantDirectoryDriverFactory } from 'src/engine/core-modules/tenant-reconciliation/tenant-directory-driver.factory';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([WorkspaceEntity]), AdminModule],
+  providers: [
+    TenantDirectoryDriverFactory,
+    TenantReconciliationService,
+    TenantReconciliationCronJob,
+    TenantReconciliationCronCommand,
+    TenantReconcileCommand,
+  ],
+  exports: [TenantReconciliationService, TenantReconciliationCronCommand],
+})
+export class TenantReconciliationModule {}
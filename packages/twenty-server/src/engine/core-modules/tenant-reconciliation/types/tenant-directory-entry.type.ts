@@ -0,0 +1,10 @@
+import { type TenantDirectoryStatus } from 'src/engine/core-modules/tenant-reconciliation/enums/tenant-directory-status.enum';
+
+export type TenantDirectoryEntry = {
+  id: string;
+  displayName: string;
+  subdomain: string;
+  crmWorkspaceId: string | null;
+  ownerEmail: string;
+  status: TenantDirectoryStatus;
+};
@@ -0,0 +1,9 @@
+// Row of crm.tenants as returned by both directory drivers
+export type TenantDirectoryRow = {
+  id: string;
+  display_name: string;
+  subdomain: string;
+  crm_workspace_id: string | null;
+  owner_email: string;
+  status: string;
+};
@@ -0,0 +1,21 @@
+import { type TenantReconciliationMismatchType } from 'src/engine/core-modules/tenant-reconciliation/enums/tenant-reconciliation-mismatch-type.enum';
+
+export type TenantReconciliationMismatch = {
+  type: TenantReconciliationMismatchType;
+  tenantId: string | null;
+  workspaceId: string | null;
+  schemaName: string | null;
+  detail: string;
+  // Null when the mismatch has to be resolved by hand
+  healAction: string | null;
+  healed: boolean;
+  healError: string | null;
+};
+
+export type TenantReconciliationReport = {
+  checkedAt: Date;
+  heal: boolean;
+  tenantCount: number;
+  workspaceCount: number;
+  mismatches: TenantReconciliationMismatch[];
+};
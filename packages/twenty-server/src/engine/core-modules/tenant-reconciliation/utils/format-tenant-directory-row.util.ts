@@ -0,0 +1,14 @@
+import { type TenantDirectoryStatus } from 'src/engine/core-modules/tenant-reconciliation/enums/tenant-directory-status.enum';
+import { type TenantDirectoryEntry } from 'src/engine/core-modules/tenant-reconciliation/types/tenant-directory-entry.type';
+import { type TenantDirectoryRow } from 'src/engine/core-modules/tenant-reconciliation/types/tenant-directory-row.type';
+
+export const formatTenantDirectoryRow = (
+  row: TenantDirectoryRow,
+): TenantDirectoryEntry => ({
+  id: row.id,
+  displayName: row.display_name,
+  subdomain: row.subdomain,
+  crmWorkspaceId: row.crm_workspace_id,
+  ownerEmail: row.owner_email,
+  status: row.status as TenantDirectoryStatus,
+});
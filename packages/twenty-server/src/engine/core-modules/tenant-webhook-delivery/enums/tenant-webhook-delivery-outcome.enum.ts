@@ -0,0 +1,6 @@
+export enum TenantWebhookDeliveryOutcome {
+  PROCESSED = 'PROCESSED',
+  DUPLICATE = 'DUPLICATE',
+  REJECTED = 'REJECTED',
+  FAILED = 'FAILED',
+}
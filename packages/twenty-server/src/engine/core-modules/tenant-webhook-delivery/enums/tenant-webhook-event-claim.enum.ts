@@ -0,0 +1,5 @@
+export enum TenantWebhookEventClaim {
+  CLAIMED = 'CLAIMED',
+  IN_FLIGHT = 'IN_FLIGHT',
+  PROCESSED = 'PROCESSED',
+}
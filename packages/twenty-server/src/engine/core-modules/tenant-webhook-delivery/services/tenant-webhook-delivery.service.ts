@@ -0,0 +1,125 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { isDefined } from 'twenty-shared/utils';
+import { Repository } from 'typeorm';
+
+import { type TenantWebhookDeliveryOutcome } from 'src/engine/core-modules/tenant-webhook-delivery/enums/tenant-webhook-delivery-outcome.enum';
+import { TenantWebhookEventClaim } from 'src/engine/core-modules/tenant-webhook-delivery/enums/tenant-webhook-event-claim.enum';
+import { TenantWebhookDeliveryEntity } from 'src/engine/core-modules/tenant-webhook-delivery/tenant-webhook-delivery.entity';
+import { TenantWebhookEventEntity } from 'src/engine/core-modules/tenant-webhook-delivery/tenant-webhook-event.entity';
+
+const MAX_DELIVERIES_PER_PAGE = 200;
+
+// Longer than any event processing, so that only the claim of a request
+// that crashed expires
+const EVENT_CLAIM_LEASE_SECONDS = 5 * 60;
+
+/**
+ * Replay protection and audit trail for inbound tenant webhooks.
+ *
+ * The signature timestamp only bounds replays to the tolerance window, so
+ * each event id is claimed in the tenantWebhookEvent table before the event
+ * is processed, and marked processed once applied. Every request, claimed
+ * or not, is recorded in the tenantWebhookDelivery log with its outcome.
+ */
+@Injectable()
+export class TenantWebhookDeliveryService {
+  private readonly logger = new Logger(TenantWebhookDeliveryService.name);
+
+  constructor(
+    @InjectRepository(TenantWebhookEventEntity)
+    private readonly eventRepository: Repository<TenantWebhookEventEntity>,
+    @InjectRepository(TenantWebhookDeliveryEntity)
+    private readonly deliveryRepository: Repository<TenantWebhookDeliveryEntity>,
+  ) {}
+
+  // An event id is claimed while it is not processed nor held by a live
+  // claim of a concurrent request
+  async claimEvent(
+    eventId: string,
+    eventType?: string,
+  ): Promise<TenantWebhookEventClaim> {
+    const claimedRows: Array<{ eventId: string }> =
+      await this.eventRepository.query(
+        `INSERT INTO "core"."tenantWebhookEvent" ("eventId", "eventType", "claimedAt")
+         VALUES ($1, $2, now())
+         ON CONFLICT ("eventId") DO UPDATE
+           SET "eventType" = EXCLUDED."eventType", "claimedAt" = now()
+           WHERE "tenantWebhookEvent"."processedAt" IS NULL
+             AND "tenantWebhookEvent"."claimedAt" < now() - make_interval(secs => $3)
+         RETURNING "eventId"`,
+        [eventId, eventType ?? null, EVENT_CLAIM_LEASE_SECONDS],
+      );
+
+    if (claimedRows.length > 0) {
+      return TenantWebhookEventClaim.CLAIMED;
+    }
+
+    const event = await this.eventRepository.findOne({
+      where: { eventId },
+      select: { eventId: true, processedAt: true },
+    });
+
+    return isDefined(event?.processedAt)
+      ? TenantWebhookEventClaim.PROCESSED
+      : TenantWebhookEventClaim.IN_FLIGHT;
+  }
+
+  async markEventProcessed(eventId: string): Promise<void> {
+    await this.eventRepository.update({ eventId }, { processedAt: new Date() });
+  }
+
+  async releaseEvent(eventId: string): Promise<void> {
+    await this.eventRepository.delete({ eventId });
+  }
+
+  // Never throws, so that a logging failure does not change the response
+  // sent to the webhook caller
+  async record(delivery: {
+    outcome: TenantWebhookDeliveryOutcome;
+    eventId?: string | null;
+    eventType?: string | null;
+    tenantId?: string | null;
+    reason?: string | null;
+    payload?: Record<string, unknown> | null;
+  }): Promise<void> {
+    try {
+      await this.deliveryRepository.save(
+        this.deliveryRepository.create({
+          outcome: delivery.outcome,
+          eventId: delivery.eventId ?? null,
+          eventType: delivery.eventType ?? null,
+          tenantId: delivery.tenantId ?? null,
+          reason: delivery.reason ?? null,
+          payload: delivery.payload ?? null,
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Could not record ${delivery.outcome} webhook delivery ${delivery.eventId ?? ''}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  async findDeliveries(options?: {
+    outcome?: TenantWebhookDeliveryOutcome;
+    eventId?: string;
+    tenantId?: string;
+    limit?: number;
+  }): Promise<TenantWebhookDeliveryEntity[]> {
+    return this.deliveryRepository.find({
+      where: {
+        ...(isDefined(options?.outcome) && { outcome: options.outcome }),
+        ...(isDefined(options?.eventId) && { eventId: options.eventId }),
+        ...(isDefined(options?.tenantId) && { tenantId: options.tenantId }),
+      },
+      order: { createdAt: 'DESC' },
+      take: Math.min(
+        options?.limit ?? MAX_DELIVERIES_PER_PAGE,
+        MAX_DELIVERIES_PER_PAGE,
+      ),
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { TenantWebhookDeliveryOutcome } from 'src/engine/core-modules/tenant-webhook-delivery/enums/tenant-webhook-delivery-outcome.enum';
+
+// Audit log of inbound tenant webhook requests, one row per request
+// including rejected ones. The payload is only kept once the signature
+// has been verified.
+@Entity({ name: 'tenantWebhookDelivery', schema: 'core' })
+@Index('IDX_TENANT_WEBHOOK_DELIVERY_CREATED_AT', ['createdAt'])
+@Index('IDX_TENANT_WEBHOOK_DELIVERY_EVENT_ID', ['eventId'])
+export class TenantWebhookDeliveryEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  eventId: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  eventType: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  tenantId: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: Object.values(TenantWebhookDeliveryOutcome),
+    nullable: false,
+  })
+  outcome: TenantWebhookDeliveryOutcome;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  payload: Record<string, unknown> | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
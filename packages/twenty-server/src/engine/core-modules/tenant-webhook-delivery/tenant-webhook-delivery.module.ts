@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { TenantWebhookDeliveryService } from 'src/engine/core-modules/tenant-webhook-delivery/services/tenant-webhook-delivery.service';
+import { TenantWebhookDeliveryEntity } from 'src/engine/core-modules/tenant-webhook-delivery/tenant-webhook-delivery.entity';
+import { TenantWebhookEventEntity } from 'src/engine/core-modules/tenant-webhook-delivery/tenant-webhook-event.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      TenantWebhookEventEntity,
+      TenantWebhookDeliveryEntity,
+    ]),
+  ],
+  providers: [TenantWebhookDeliveryService],
+  exports: [TenantWebhookDeliveryService],
+})
+export class TenantWebhookDeliveryModule {}
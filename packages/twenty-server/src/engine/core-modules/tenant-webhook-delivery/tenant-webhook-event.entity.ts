@@ -0,0 +1,23 @@
+import { Column, CreateDateColumn, Entity, PrimaryColumn } from 'typeorm';
+
+// Idempotency store for inbound tenant webhooks: one row per event id
+// claimed by TenantWebhookController. A claim is a lease until the event is
+// processed: a failed event releases it so that the sender can retry, and
+// the claim of a crashed request can be taken over once it has expired.
+@Entity({ name: 'tenantWebhookEvent', schema: 'core' })
+export class TenantWebhookEventEntity {
+  @PrimaryColumn({ type: 'varchar' })
+  eventId: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  eventType: string | null;
+
+  @Column({ type: 'timestamptz', nullable: false, default: () => 'now()' })
+  claimedAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  processedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
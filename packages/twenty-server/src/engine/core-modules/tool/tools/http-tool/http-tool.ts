@@ -70,6 +70,7 @@ export class HttpTool implements Tool {
           success: false,
           message: `HTTP ${method} request to ${url} failed`,
           error: error.response?.data || error.message || 'HTTP request failed',
+          status: error.response?.status,
         };
       }
 
@@ -22,6 +22,7 @@ import { StorageDriverType } from 'src/engine/core-modules/file-storage/interfac
 import { LoggerDriverType } from 'src/engine/core-modules/logger/interfaces';
 import { type MeterDriver } from 'src/engine/core-modules/metrics/types/meter-driver.type';
 import { ServerlessDriverType } from 'src/engine/core-modules/serverless/serverless.interface';
+import { TenantDirectoryDriver } from 'src/engine/core-modules/tenant-reconciliation/enums/tenant-directory-driver.enum';
 import { CastToLogLevelArray } from 'src/engine/core-modules/twenty-config/decorators/cast-to-log-level-array.decorator';
 import { CastToMeterDriverArray } from 'src/engine/core-modules/twenty-config/decorators/cast-to-meter-driver.decorator';
 import { CastToPositiveNumber } from 'src/engine/core-modules/twenty-config/decorators/cast-to-positive-number.decorator';
@@ -259,12 +260,58 @@ export class ConfigVariables {
   @ConfigVariablesMetadata({
     group: ConfigVariablesGroup.SUPABASE_AUTH,
     isSensitive: true,
-    description: 'Supabase JWT secret for token validation',
+    description:
+      'Supabase JWT secret validating HS256 tokens. Can be removed once the project only signs with asymmetric keys (see SUPABASE_JWKS_URL)',
     type: ConfigVariableType.STRING,
   })
-  @ValidateIf((env) => env.AUTH_SUPABASE_ENABLED)
+  @IsOptional()
   SUPABASE_JWT_SECRET: string;
 
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    isSensitive: false,
+    description:
+      'JWKS document used to validate ES256 and RS256 Supabase tokens. Defaults to SUPABASE_URL/auth/v1/.well-known/jwks.json',
+    type: ConfigVariableType.STRING,
+  })
+  @IsOptional()
+  SUPABASE_JWKS_URL: string;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    description:
+      'Seconds the Supabase JWKS document is cached. Unknown key ids trigger an earlier refresh',
+    type: ConfigVariableType.NUMBER,
+  })
+  @CastToPositiveNumber()
+  SUPABASE_JWKS_CACHE_TTL_SECONDS = 600;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    description:
+      'Supabase app_metadata key holding the tenant memberships of a user (e.g. tenants). Workspace memberships and roles are synced from it on token exchange. Disabled when empty',
+    type: ConfigVariableType.STRING,
+  })
+  @IsOptional()
+  SUPABASE_TENANTS_CLAIM: string;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    description:
+      'JSON object mapping tenant claim roles to Twenty role labels (e.g. {"owner":"Admin","member":"Member"}). Unmapped roles keep the workspace default role',
+    type: ConfigVariableType.STRING,
+  })
+  @IsOptional()
+  SUPABASE_ROLE_MAPPING: string;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    description: 'Reject Supabase users whose tenant claim is missing or empty',
+    type: ConfigVariableType.BOOLEAN,
+  })
+  @IsOptional()
+  SUPABASE_TENANTS_CLAIM_STRICT = false;
+
   @ConfigVariablesMetadata({
     group: ConfigVariablesGroup.SUPABASE_AUTH,
     isSensitive: false,
@@ -295,6 +342,90 @@ export class ConfigVariables {
   @IsOptional()
   SAAS_ADMIN_KEY: string;
 
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    description:
+      'Number of days a tenant deleted through the SaaS admin API can be restored before it is purged',
+    type: ConfigVariableType.NUMBER,
+  })
+  @CastToPositiveNumber()
+  TENANT_DELETION_GRACE_PERIOD_DAYS = 30;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    description:
+      'Number of days the archive exported before a tenant deletion is kept once the tenant is purged',
+    type: ConfigVariableType.NUMBER,
+  })
+  @CastToPositiveNumber()
+  TENANT_DELETION_SNAPSHOT_RETENTION_DAYS = 90;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    description:
+      'URL receiving outbound tenant lifecycle events (tenant created, disabled, deleted, user joined or left, quota exceeded), signed with WEBHOOK_SECRET. Events are not sent when empty',
+    type: ConfigVariableType.STRING,
+  })
+  @IsOptional()
+  TENANT_EVENTS_WEBHOOK_URL: string;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    description:
+      'Number of attempts to deliver a tenant lifecycle event before it is marked as failed',
+    type: ConfigVariableType.NUMBER,
+  })
+  @CastToPositiveNumber()
+  TENANT_EVENTS_MAX_ATTEMPTS = 5;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    description:
+      'JSON array of tenant plans ({ key, label, maxUsers, storageQuotaMb, featureFlags }) assigned by subscription webhooks. Defaults to free, pro and enterprise',
+    type: ConfigVariableType.STRING,
+  })
+  @IsOptional()
+  TENANT_PLANS: string;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    description:
+      'Plan assigned when a tenant subscription is cancelled. The tenant is disabled instead when empty',
+    type: ConfigVariableType.STRING,
+  })
+  @IsOptional()
+  TENANT_CANCELLED_PLAN: string;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    description:
+      'Where tenant reconciliation reads crm.tenants from: the Supabase API (SUPABASE) or a Postgres database holding the crm schema (POSTGRES)',
+    type: ConfigVariableType.ENUM,
+    options: Object.values(TenantDirectoryDriver),
+  })
+  @CastToUpperSnakeCase()
+  TENANT_DIRECTORY_DRIVER: TenantDirectoryDriver =
+    TenantDirectoryDriver.SUPABASE;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    isSensitive: true,
+    description:
+      'Postgres url of the crm schema for the POSTGRES tenant directory driver. Defaults to PG_DATABASE_URL',
+    type: ConfigVariableType.STRING,
+  })
+  @IsOptional()
+  TENANT_DIRECTORY_PG_URL: string;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.SUPABASE_AUTH,
+    description:
+      'Let the scheduled tenant reconciliation fix the mismatches it finds instead of only reporting them',
+    type: ConfigVariableType.BOOLEAN,
+  })
+  @IsOptional()
+  TENANT_RECONCILIATION_AUTO_HEAL = false;
+
   // ==================== END SUPABASE AUTH ====================
 
   @ConfigVariablesMetadata({
@@ -1312,6 +1443,24 @@ export class ConfigVariables {
   @ValidateIf((env) => env.MAX_NUMBER_OF_WORKSPACES_DELETED_PER_EXECUTION > 0)
   MAX_NUMBER_OF_WORKSPACES_DELETED_PER_EXECUTION = 5;
 
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.OTHER,
+    description:
+      'Number of days record changes are kept in the change-data feed served by GET /rest/changes. Older cursors are rejected and clients must resync',
+    type: ConfigVariableType.NUMBER,
+  })
+  @CastToPositiveNumber()
+  RECORD_CHANGE_RETENTION_DAYS = 30;
+
+  @ConfigVariablesMetadata({
+    group: ConfigVariablesGroup.OTHER,
+    description:
+      'Number of days settled webhook deliveries are kept in the delivery log before being deleted',
+    type: ConfigVariableType.NUMBER,
+  })
+  @CastToPositiveNumber()
+  WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
+
   @ConfigVariablesMetadata({
     group: ConfigVariablesGroup.RATE_LIMITING,
     description:
@@ -37,6 +37,12 @@ export const CONFIG_VARIABLES_GROUP_METADATA: Record<
     description: 'Configure Microsoft integration (login, calendar, email)',
     isHiddenOnLoad: false,
   },
+  [ConfigVariablesGroup.SUPABASE_AUTH]: {
+    position: 550,
+    description:
+      'Configure Supabase authentication and the SaaS tenant administration API',
+    isHiddenOnLoad: false,
+  },
   [ConfigVariablesGroup.EMAIL_SETTINGS]: {
     position: 600,
     description:
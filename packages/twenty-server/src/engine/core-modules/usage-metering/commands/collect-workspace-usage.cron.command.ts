@@ -0,0 +1,32 @@
+import { Command, CommandRunner } from 'nest-commander';
+
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import { USAGE_METERING_CRON_PATTERN } from 'src/engine/core-modules/usage-metering/constants/usage-metering-cron-pattern.constant';
+import { CollectWorkspaceUsageCronJob } from 'src/engine/core-modules/usage-metering/crons/collect-workspace-usage.cron.job';
+
+@Command({
+  name: 'cron:usage-metering:collect',
+  description: 'Starts a cron job to collect per-workspace usage snapshots',
+})
+export class CollectWorkspaceUsageCronCommand extends CommandRunner {
+  constructor(
+    @InjectMessageQueue(MessageQueue.cronQueue)
+    private readonly messageQueueService: MessageQueueService,
+  ) {
+    super();
+  }
+
+  async run(): Promise<void> {
+    await this.messageQueueService.addCron<undefined>({
+      jobName: CollectWorkspaceUsageCronJob.name,
+      data: undefined,
+      options: {
+        repeat: {
+          pattern: USAGE_METERING_CRON_PATTERN,
+        },
+      },
+    });
+  }
+}
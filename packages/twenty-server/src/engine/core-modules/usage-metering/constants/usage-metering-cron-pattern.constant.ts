@@ -0,0 +1 @@
+export const USAGE_METERING_CRON_PATTERN = '0 * * * *';
@@ -0,0 +1 @@
+export const USAGE_METERING_DEFAULT_SNAPSHOT_LIMIT = 168;
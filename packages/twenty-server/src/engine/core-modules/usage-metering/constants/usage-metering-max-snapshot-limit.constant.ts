@@ -0,0 +1 @@
+export const USAGE_METERING_MAX_SNAPSHOT_LIMIT = 8760;
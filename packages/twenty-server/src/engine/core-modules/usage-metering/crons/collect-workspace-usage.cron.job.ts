@@ -0,0 +1,68 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { WorkspaceActivationStatus } from 'twenty-shared/workspace';
+import { Repository } from 'typeorm';
+
+import { SentryCronMonitor } from 'src/engine/core-modules/cron/sentry-cron-monitor.decorator';
+import { ExceptionHandlerService } from 'src/engine/core-modules/exception-handler/exception-handler.service';
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
+import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import { USAGE_METERING_CRON_PATTERN } from 'src/engine/core-modules/usage-metering/constants/usage-metering-cron-pattern.constant';
+import {
+  CollectWorkspaceUsageJob,
+  type CollectWorkspaceUsageJobData,
+} from 'src/engine/core-modules/usage-metering/jobs/collect-workspace-usage.job';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+@Injectable()
+@Processor(MessageQueue.cronQueue)
+export class CollectWorkspaceUsageCronJob {
+  private readonly logger = new Logger(CollectWorkspaceUsageCronJob.name);
+
+  constructor(
+    @InjectRepository(WorkspaceEntity)
+    private readonly workspaceRepository: Repository<WorkspaceEntity>,
+    @InjectMessageQueue(MessageQueue.workspaceQueue)
+    private readonly messageQueueService: MessageQueueService,
+    private readonly exceptionHandlerService: ExceptionHandlerService,
+  ) {}
+
+  @Process(CollectWorkspaceUsageCronJob.name)
+  @SentryCronMonitor(
+    CollectWorkspaceUsageCronJob.name,
+    USAGE_METERING_CRON_PATTERN,
+  )
+  async handle(): Promise<void> {
+    const workspaces = await this.workspaceRepository.find({
+      where: {
+        activationStatus: WorkspaceActivationStatus.ACTIVE,
+        isDisabled: false,
+      },
+      select: ['id'],
+      order: { id: 'ASC' },
+    });
+
+    for (const workspace of workspaces) {
+      try {
+        await this.messageQueueService.add<CollectWorkspaceUsageJobData>(
+          CollectWorkspaceUsageJob.name,
+          { workspaceId: workspace.id },
+        );
+      } catch (error) {
+        this.exceptionHandlerService.captureExceptions([error], {
+          workspace: {
+            id: workspace.id,
+          },
+        });
+      }
+    }
+
+    this.logger.log(
+      `Enqueued usage collection for ${workspaces.length} workspace(s)`,
+    );
+  }
+}
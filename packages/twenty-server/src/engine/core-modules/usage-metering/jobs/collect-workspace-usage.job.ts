@@ -0,0 +1,31 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
+import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { UsageMeteringService } from 'src/engine/core-modules/usage-metering/services/usage-metering.service';
+
+export type CollectWorkspaceUsageJobData = {
+  workspaceId: string;
+};
+
+@Injectable()
+@Processor(MessageQueue.workspaceQueue)
+export class CollectWorkspaceUsageJob {
+  private readonly logger = new Logger(CollectWorkspaceUsageJob.name);
+
+  constructor(private readonly usageMeteringService: UsageMeteringService) {}
+
+  @Process(CollectWorkspaceUsageJob.name)
+  async handle({ workspaceId }: CollectWorkspaceUsageJobData): Promise<void> {
+    try {
+      await this.usageMeteringService.collectWorkspaceUsage(workspaceId);
+    } catch (error) {
+      this.logger.error(
+        `Usage collection failed for workspace ${workspaceId}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+      throw error;
+    }
+  }
+}
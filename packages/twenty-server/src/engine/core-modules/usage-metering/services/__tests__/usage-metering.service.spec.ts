@@ -0,0 +1,197 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { isDefined } from 'twenty-shared/utils';
+
+import { UsageCounterService } from 'src/engine/core-modules/usage-metering/services/usage-counter.service';
+import { UsageMeteringService } from 'src/engine/core-modules/usage-metering/services/usage-metering.service';
+import { WorkspaceUsageSnapshotEntity } from 'src/engine/core-modules/usage-metering/workspace-usage-snapshot.entity';
+import { WorkspaceQuotaService } from 'src/engine/core-modules/workspace-quota/services/workspace-quota.service';
+import { WorkspaceManyOrAllFlatEntityMapsCacheService } from 'src/engine/metadata-modules/flat-entity/services/workspace-many-or-all-flat-entity-maps-cache.service';
+import { TwentyORMGlobalManager } from 'src/engine/twenty-orm/twenty-orm-global.manager';
+
+describe('UsageMeteringService', () => {
+  let service: UsageMeteringService;
+  let workspaceUsageSnapshotRepository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    findOne: jest.Mock;
+  };
+  let flatEntityMapsCacheService: {
+    getOrRecomputeManyOrAllFlatEntityMaps: jest.Mock;
+  };
+  let twentyORMGlobalManager: { getRepositoryForWorkspace: jest.Mock };
+  let workspaceQuotaService: { refreshStorageUsedBytes: jest.Mock };
+  let usageCounterService: { flushCounters: jest.Mock };
+
+  const recordCounts: Record<string, number> = {
+    company: 12,
+    message: 40,
+    workflowRun: 3,
+  };
+
+  const createdSinceCounts: Record<string, number> = {
+    message: 5,
+    workflowRun: 2,
+  };
+
+  const setObjectMetadata = (
+    objects: Array<{ nameSingular: string; isActive: boolean }>,
+  ) => {
+    flatEntityMapsCacheService.getOrRecomputeManyOrAllFlatEntityMaps.mockResolvedValue(
+      {
+        flatObjectMetadataMaps: {
+          byId: Object.fromEntries(
+            objects.map((object, index) => [`object-${index}`, object]),
+          ),
+        },
+      },
+    );
+  };
+
+  beforeEach(async () => {
+    workspaceUsageSnapshotRepository = {
+      create: jest.fn((snapshot) => snapshot),
+      save: jest.fn(async (snapshot) => snapshot),
+      findOne: jest.fn().mockResolvedValue(null),
+    };
+    flatEntityMapsCacheService = {
+      getOrRecomputeManyOrAllFlatEntityMaps: jest.fn(),
+    };
+    twentyORMGlobalManager = {
+      getRepositoryForWorkspace: jest.fn(
+        async (_workspaceId: string, objectName: string) => {
+          if (!(objectName in recordCounts)) {
+            throw new Error(`Missing table for ${objectName}`);
+          }
+
+          return {
+            count: jest.fn(async (options?: object) =>
+              isDefined(options)
+                ? createdSinceCounts[objectName]
+                : recordCounts[objectName],
+            ),
+          };
+        },
+      ),
+    };
+    workspaceQuotaService = {
+      refreshStorageUsedBytes: jest.fn().mockResolvedValue(2048),
+    };
+    usageCounterService = {
+      flushCounters: jest
+        .fn()
+        .mockResolvedValue({ apiCallCount: 17, aiTokenCount: 1500 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsageMeteringService,
+        {
+          provide: getRepositoryToken(WorkspaceUsageSnapshotEntity),
+          useValue: workspaceUsageSnapshotRepository,
+        },
+        {
+          provide: WorkspaceManyOrAllFlatEntityMapsCacheService,
+          useValue: flatEntityMapsCacheService,
+        },
+        {
+          provide: TwentyORMGlobalManager,
+          useValue: twentyORMGlobalManager,
+        },
+        {
+          provide: WorkspaceQuotaService,
+          useValue: workspaceQuotaService,
+        },
+        {
+          provide: UsageCounterService,
+          useValue: usageCounterService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<UsageMeteringService>(UsageMeteringService);
+
+    jest.spyOn(service['logger'], 'warn').mockImplementation();
+  });
+
+  describe('collectWorkspaceUsage', () => {
+    it('should save a snapshot with record counts, storage and flushed counters', async () => {
+      setObjectMetadata([
+        { nameSingular: 'company', isActive: true },
+        { nameSingular: 'message', isActive: true },
+        { nameSingular: 'workflowRun', isActive: true },
+      ]);
+
+      const snapshot = await service.collectWorkspaceUsage('workspace-id');
+
+      expect(snapshot).toMatchObject({
+        workspaceId: 'workspace-id',
+        recordCountsByObject: {
+          company: 12,
+          message: 40,
+          workflowRun: 3,
+        },
+        totalRecordCount: 55,
+        storageBytes: 2048,
+        workflowRunCount: 2,
+        messageCount: 5,
+        apiCallCount: 17,
+        aiTokenCount: 1500,
+      });
+      expect(snapshot.collectedAt).toBeInstanceOf(Date);
+      expect(usageCounterService.flushCounters).toHaveBeenCalledWith(
+        'workspace-id',
+      );
+    });
+
+    it('should count activity since the previous snapshot', async () => {
+      const previousCollectedAt = new Date('2026-03-01T10:00:00.000Z');
+
+      workspaceUsageSnapshotRepository.findOne.mockResolvedValue({
+        collectedAt: previousCollectedAt,
+      });
+      setObjectMetadata([{ nameSingular: 'workflowRun', isActive: true }]);
+
+      const snapshot = await service.collectWorkspaceUsage('workspace-id');
+      const repository =
+        await twentyORMGlobalManager.getRepositoryForWorkspace.mock.results[1]
+          .value;
+
+      expect(snapshot.workflowRunCount).toBe(2);
+      expect(repository.count).toHaveBeenCalledWith({
+        where: {
+          createdAt: expect.objectContaining({ _value: previousCollectedAt }),
+        },
+      });
+    });
+
+    it('should skip inactive objects', async () => {
+      setObjectMetadata([
+        { nameSingular: 'company', isActive: true },
+        { nameSingular: 'message', isActive: false },
+      ]);
+
+      const snapshot = await service.collectWorkspaceUsage('workspace-id');
+
+      expect(snapshot.recordCountsByObject).toEqual({ company: 12 });
+      expect(snapshot.messageCount).toBe(0);
+      expect(
+        twentyORMGlobalManager.getRepositoryForWorkspace,
+      ).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep collecting when an object cannot be counted', async () => {
+      setObjectMetadata([
+        { nameSingular: 'company', isActive: true },
+        { nameSingular: 'brokenObject', isActive: true },
+      ]);
+
+      const snapshot = await service.collectWorkspaceUsage('workspace-id');
+
+      expect(snapshot.recordCountsByObject).toEqual({ company: 12 });
+      expect(snapshot.totalRecordCount).toBe(12);
+      expect(workspaceUsageSnapshotRepository.save).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { InjectCacheStorage } from 'src/engine/core-modules/cache-storage/decorators/cache-storage.decorator';
+import { CacheStorageService } from 'src/engine/core-modules/cache-storage/services/cache-storage.service';
+import { CacheStorageNamespace } from 'src/engine/core-modules/cache-storage/types/cache-storage-namespace.enum';
+
+export type UsageCounters = {
+  apiCallCount: number;
+  aiTokenCount: number;
+};
+
+@Injectable()
+export class UsageCounterService {
+  private readonly logger = new Logger(UsageCounterService.name);
+
+  constructor(
+    @InjectCacheStorage(CacheStorageNamespace.EngineUsageMetering)
+    private readonly cacheStorage: CacheStorageService,
+  ) {}
+
+  async incrementApiCallCount(workspaceId: string): Promise<void> {
+    await this.increment(this.getApiCallCountKey(workspaceId), 1);
+  }
+
+  async incrementAiTokenCount(
+    workspaceId: string,
+    tokenCount: number,
+  ): Promise<void> {
+    if (tokenCount <= 0) {
+      return;
+    }
+
+    await this.increment(this.getAiTokenCountKey(workspaceId), tokenCount);
+  }
+
+  /**
+   * Returns the counters accumulated since the last flush and subtracts them
+   * from the cache, so increments landing during the flush are kept for the
+   * next one.
+   */
+  async flushCounters(workspaceId: string): Promise<UsageCounters> {
+    const [apiCallCount, aiTokenCount] = await Promise.all([
+      this.flushCounter(this.getApiCallCountKey(workspaceId)),
+      this.flushCounter(this.getAiTokenCountKey(workspaceId)),
+    ]);
+
+    return { apiCallCount, aiTokenCount };
+  }
+
+  // Metering must never fail the request being metered
+  private async increment(key: string, value: number): Promise<void> {
+    try {
+      await this.cacheStorage.incrBy(key, value);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to increment usage counter ${key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private async flushCounter(key: string): Promise<number> {
+    const value = Number((await this.cacheStorage.get<number>(key)) ?? 0);
+
+    if (value > 0) {
+      await this.cacheStorage.incrBy(key, -value);
+    }
+
+    return value;
+  }
+
+  private getApiCallCountKey(workspaceId: string) {
+    return `api-calls:${workspaceId}`;
+  }
+
+  private getAiTokenCountKey(workspaceId: string) {
+    return `ai-tokens:${workspaceId}`;
+  }
+}
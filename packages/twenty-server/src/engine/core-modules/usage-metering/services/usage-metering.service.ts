@@ -0,0 +1,202 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { isDefined } from 'twenty-shared/utils';
+import {
+  Between,
+  type FindOptionsWhere,
+  LessThanOrEqual,
+  MoreThan,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+
+import { USAGE_METERING_DEFAULT_SNAPSHOT_LIMIT } from 'src/engine/core-modules/usage-metering/constants/usage-metering-default-snapshot-limit.constant';
+import { UsageCounterService } from 'src/engine/core-modules/usage-metering/services/usage-counter.service';
+import { WorkspaceUsageSnapshotEntity } from 'src/engine/core-modules/usage-metering/workspace-usage-snapshot.entity';
+import { WorkspaceQuotaService } from 'src/engine/core-modules/workspace-quota/services/workspace-quota.service';
+import { WorkspaceManyOrAllFlatEntityMapsCacheService } from 'src/engine/metadata-modules/flat-entity/services/workspace-many-or-all-flat-entity-maps-cache.service';
+import { TwentyORMGlobalManager } from 'src/engine/twenty-orm/twenty-orm-global.manager';
+
+const WORKFLOW_RUN_OBJECT_NAME = 'workflowRun';
+const MESSAGE_OBJECT_NAME = 'message';
+
+// Activity of the first snapshot of a workspace covers one cron interval
+const FIRST_SNAPSHOT_ACTIVITY_WINDOW_MS = 60 * 60 * 1000;
+
+export type WorkspaceUsageSnapshotQuery = {
+  from?: Date;
+  to?: Date;
+  limit?: number;
+};
+
+@Injectable()
+export class UsageMeteringService {
+  private readonly logger = new Logger(UsageMeteringService.name);
+
+  constructor(
+    @InjectRepository(WorkspaceUsageSnapshotEntity)
+    private readonly workspaceUsageSnapshotRepository: Repository<WorkspaceUsageSnapshotEntity>,
+    private readonly flatEntityMapsCacheService: WorkspaceManyOrAllFlatEntityMapsCacheService,
+    private readonly twentyORMGlobalManager: TwentyORMGlobalManager,
+    private readonly workspaceQuotaService: WorkspaceQuotaService,
+    private readonly usageCounterService: UsageCounterService,
+  ) {}
+
+  async collectWorkspaceUsage(
+    workspaceId: string,
+  ): Promise<WorkspaceUsageSnapshotEntity> {
+    const collectedAt = new Date();
+    const previousSnapshot = await this.getLatestSnapshot(workspaceId);
+    const activitySince =
+      previousSnapshot?.collectedAt ??
+      new Date(collectedAt.getTime() - FIRST_SNAPSHOT_ACTIVITY_WINDOW_MS);
+
+    const recordCountsByObject = await this.countRecordsByObject(workspaceId);
+    // Only objects that could be counted are active in the workspace
+    const countActivity = async (objectName: string) =>
+      objectName in recordCountsByObject
+        ? this.countRecordsCreatedSince(workspaceId, objectName, activitySince)
+        : 0;
+
+    const workflowRunCount = await countActivity(WORKFLOW_RUN_OBJECT_NAME);
+    const messageCount = await countActivity(MESSAGE_OBJECT_NAME);
+    const storageBytes =
+      await this.workspaceQuotaService.refreshStorageUsedBytes(workspaceId);
+    const { apiCallCount, aiTokenCount } =
+      await this.usageCounterService.flushCounters(workspaceId);
+
+    const totalRecordCount = Object.values(recordCountsByObject).reduce(
+      (total, count) => total + count,
+      0,
+    );
+
+    return this.workspaceUsageSnapshotRepository.save(
+      this.workspaceUsageSnapshotRepository.create({
+        workspaceId,
+        collectedAt,
+        recordCountsByObject,
+        totalRecordCount,
+        storageBytes,
+        workflowRunCount,
+        messageCount,
+        apiCallCount,
+        aiTokenCount,
+      }),
+    );
+  }
+
+  async getLatestSnapshot(
+    workspaceId: string,
+  ): Promise<WorkspaceUsageSnapshotEntity | null> {
+    return this.workspaceUsageSnapshotRepository.findOne({
+      where: { workspaceId },
+      order: { collectedAt: 'DESC' },
+    });
+  }
+
+  async getSnapshots(
+    workspaceId: string,
+    {
+      from,
+      to,
+      limit = USAGE_METERING_DEFAULT_SNAPSHOT_LIMIT,
+    }: WorkspaceUsageSnapshotQuery = {},
+  ): Promise<WorkspaceUsageSnapshotEntity[]> {
+    const where: FindOptionsWhere<WorkspaceUsageSnapshotEntity> = {
+      workspaceId,
+    };
+
+    if (isDefined(from) && isDefined(to)) {
+      where.collectedAt = Between(from, to);
+    } else if (isDefined(from)) {
+      where.collectedAt = MoreThanOrEqual(from);
+    } else if (isDefined(to)) {
+      where.collectedAt = LessThanOrEqual(to);
+    }
+
+    return this.workspaceUsageSnapshotRepository.find({
+      where,
+      order: { collectedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Latest snapshot of every workspace, for platform-wide exports.
+   */
+  async getLatestSnapshotOfAllWorkspaces(): Promise<
+    WorkspaceUsageSnapshotEntity[]
+  > {
+    return this.workspaceUsageSnapshotRepository
+      .createQueryBuilder('snapshot')
+      .distinctOn(['snapshot.workspaceId'])
+      .orderBy('snapshot.workspaceId', 'ASC')
+      .addOrderBy('snapshot.collectedAt', 'DESC')
+      .getMany();
+  }
+
+  private async countRecordsByObject(
+    workspaceId: string,
+  ): Promise<Record<string, number>> {
+    const { flatObjectMetadataMaps } =
+      await this.flatEntityMapsCacheService.getOrRecomputeManyOrAllFlatEntityMaps(
+        {
+          workspaceId,
+          flatMapsKeys: ['flatObjectMetadataMaps'],
+        },
+      );
+
+    const objectNames = Object.values(flatObjectMetadataMaps.byId ?? {})
+      .filter(isDefined)
+      .filter((flatObjectMetadata) => flatObjectMetadata.isActive)
+      .map((flatObjectMetadata) => flatObjectMetadata.nameSingular)
+      .sort();
+
+    const recordCountsByObject: Record<string, number> = {};
+
+    for (const objectName of objectNames) {
+      try {
+        const repository =
+          await this.twentyORMGlobalManager.getRepositoryForWorkspace(
+            workspaceId,
+            objectName,
+            { shouldBypassPermissionChecks: true },
+          );
+
+        recordCountsByObject[objectName] = await repository.count();
+      } catch (error) {
+        this.logger.warn(
+          `Could not count ${objectName} records in workspace ${workspaceId}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    return recordCountsByObject;
+  }
+
+  private async countRecordsCreatedSince(
+    workspaceId: string,
+    objectName: string,
+    since: Date,
+  ): Promise<number> {
+    try {
+      const repository =
+        await this.twentyORMGlobalManager.getRepositoryForWorkspace(
+          workspaceId,
+          objectName,
+          { shouldBypassPermissionChecks: true },
+        );
+
+      return await repository.count({
+        where: { createdAt: MoreThan(since) },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Could not count new ${objectName} records in workspace ${workspaceId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+
+      return 0;
+    }
+  }
+}
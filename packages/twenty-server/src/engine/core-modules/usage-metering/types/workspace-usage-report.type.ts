@@ -0,0 +1,11 @@
+export type WorkspaceUsageReport = {
+  workspaceId: string;
+  collectedAt: Date;
+  recordCountsByObject: Record<string, number>;
+  totalRecordCount: number;
+  storageBytes: number;
+  workflowRunCount: number;
+  messageCount: number;
+  apiCallCount: number;
+  aiTokenCount: number;
+};
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+
+import { UsageCounterService } from 'src/engine/core-modules/usage-metering/services/usage-counter.service';
+
+@Module({
+  providers: [UsageCounterService],
+  exports: [UsageCounterService],
+})
+export class UsageCounterModule {}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { CollectWorkspaceUsageCronCommand } from 'src/engine/core-modules/usage-metering/commands/collect-workspace-usage.cron.command';
+import { CollectWorkspaceUsageCronJob } from 'src/engine/core-modules/usage-metering/crons/collect-workspace-usage.cron.job';
+import { CollectWorkspaceUsageJob } from 'src/engine/core-modules/usage-metering/jobs/collect-workspace-usage.job';
+import { UsageMeteringService } from 'src/engine/core-modules/usage-metering/services/usage-metering.service';
+import { UsageCounterModule } from 'src/engine/core-modules/usage-metering/usage-counter.module';
+import { WorkspaceUsageSnapshotEntity } from 'src/engine/core-modules/usage-metering/workspace-usage-snapshot.entity';
+import { WorkspaceQuotaModule } from 'src/engine/core-modules/workspace-quota/workspace-quota.module';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { WorkspaceManyOrAllFlatEntityMapsCacheModule } from 'src/engine/metadata-modules/flat-entity/services/workspace-many-or-all-flat-entity-maps-cache.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WorkspaceEntity, WorkspaceUsageSnapshotEntity]),
+    WorkspaceManyOrAllFlatEntityMapsCacheModule,
+    WorkspaceQuotaModule,
+    UsageCounterModule,
+  ],
+  providers: [
+    UsageMeteringService,
+    CollectWorkspaceUsageJob,
+    CollectWorkspaceUsageCronJob,
+    CollectWorkspaceUsageCronCommand,
+  ],
+  exports: [UsageMeteringService, CollectWorkspaceUsageCronCommand],
+})
+export class UsageMeteringModule {}
@@ -0,0 +1,56 @@
+import { type WorkspaceUsageReport } from 'src/engine/core-modules/usage-metering/types/workspace-usage-report.type';
+import { formatWorkspaceUsageReportsAsCsv } from 'src/engine/core-modules/usage-metering/utils/format-workspace-usage-reports-as-csv.util';
+
+const buildReport = (
+  overrides: Partial<WorkspaceUsageReport>,
+): WorkspaceUsageReport => ({
+  workspaceId: 'workspace-id',
+  collectedAt: new Date('2026-01-01T00:00:00.000Z'),
+  recordCountsByObject: {},
+  totalRecordCount: 0,
+  storageBytes: 0,
+  workflowRunCount: 0,
+  messageCount: 0,
+  apiCallCount: 0,
+  aiTokenCount: 0,
+  ...overrides,
+});
+
+describe('formatWorkspaceUsageReportsAsCsv', () => {
+  it('should only output the header when there are no reports', () => {
+    expect(formatWorkspaceUsageReportsAsCsv([])).toBe(
+      'workspaceId,collectedAt,totalRecordCount,storageBytes,workflowRunCount,messageCount,apiCallCount,aiTokenCount',
+    );
+  });
+
+  it('should add a column per object and default missing counts to zero', () => {
+    const csv = formatWorkspaceUsageReportsAsCsv([
+      buildReport({
+        workspaceId: 'workspace-a',
+        recordCountsByObject: { person: 3 },
+        totalRecordCount: 3,
+        apiCallCount: 10,
+      }),
+      buildReport({
+        workspaceId: 'workspace-b',
+        recordCountsByObject: { company: 2 },
+        totalRecordCount: 2,
+        storageBytes: 1024,
+      }),
+    ]);
+
+    expect(csv.split('\n')).toEqual([
+      'workspaceId,collectedAt,totalRecordCount,storageBytes,workflowRunCount,messageCount,apiCallCount,aiTokenCount,records:company,records:person',
+      'workspace-a,2026-01-01T00:00:00.000Z,3,0,0,0,10,0,0,3',
+      'workspace-b,2026-01-01T00:00:00.000Z,2,1024,0,0,0,0,2,0',
+    ]);
+  });
+
+  it('should escape values containing separators or quotes', () => {
+    const csv = formatWorkspaceUsageReportsAsCsv([
+      buildReport({ workspaceId: 'a,"b"' }),
+    ]);
+
+    expect(csv.split('\n')[1].startsWith('"a,""b""",')).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+import { type WorkspaceUsageReport } from 'src/engine/core-modules/usage-metering/types/workspace-usage-report.type';
+
+const RECORD_COUNT_COLUMN_PREFIX = 'records:';
+
+const escapeCsvValue = (value: string | number): string => {
+  const stringValue = String(value);
+
+  return /[",\n\r]/.test(stringValue)
+    ? `"${stringValue.replace(/"/g, '""')}"`
+    : stringValue;
+};
+
+// One row per report, with a column per object found in any of the reports
+export const formatWorkspaceUsageReportsAsCsv = (
+  reports: WorkspaceUsageReport[],
+): string => {
+  const objectNames = [
+    ...new Set(
+      reports.flatMap((report) => Object.keys(report.recordCountsByObject)),
+    ),
+  ].sort();
+
+  const header = [
+    'workspaceId',
+    'collectedAt',
+    'totalRecordCount',
+    'storageBytes',
+    'workflowRunCount',
+    'messageCount',
+    'apiCallCount',
+    'aiTokenCount',
+    ...objectNames.map(
+      (objectName) => `${RECORD_COUNT_COLUMN_PREFIX}${objectName}`,
+    ),
+  ];
+
+  const rows = reports.map((report) => [
+    report.workspaceId,
+    new Date(report.collectedAt).toISOString(),
+    report.totalRecordCount,
+    report.storageBytes,
+    report.workflowRunCount,
+    report.messageCount,
+    report.apiCallCount,
+    report.aiTokenCount,
+    ...objectNames.map(
+      (objectName) => report.recordCountsByObject[objectName] ?? 0,
+    ),
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsvValue).join(','))
+    .join('\n');
+};
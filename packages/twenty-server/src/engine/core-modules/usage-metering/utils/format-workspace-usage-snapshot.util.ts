@@ -0,0 +1,17 @@
+import { type WorkspaceUsageReport } from 'src/engine/core-modules/usage-metering/types/workspace-usage-report.type';
+import { type WorkspaceUsageSnapshotEntity } from 'src/engine/core-modules/usage-metering/workspace-usage-snapshot.entity';
+
+// bigint columns are returned as strings by the postgres driver
+export const formatWorkspaceUsageSnapshot = (
+  snapshot: WorkspaceUsageSnapshotEntity,
+): WorkspaceUsageReport => ({
+  workspaceId: snapshot.workspaceId,
+  collectedAt: snapshot.collectedAt,
+  recordCountsByObject: snapshot.recordCountsByObject,
+  totalRecordCount: Number(snapshot.totalRecordCount),
+  storageBytes: Number(snapshot.storageBytes),
+  workflowRunCount: Number(snapshot.workflowRunCount),
+  messageCount: Number(snapshot.messageCount),
+  apiCallCount: Number(snapshot.apiCallCount),
+  aiTokenCount: Number(snapshot.aiTokenCount),
+});
@@ -0,0 +1,62 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { Relation } from 'src/engine/workspace-manager/workspace-sync-metadata/interfaces/relation.interface';
+
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+// Record counts and storage are totals at collection time, while workflow
+// runs, messages, API calls and AI tokens are counted since the previous
+// snapshot of the workspace.
+@Entity({ name: 'workspaceUsageSnapshot', schema: 'core' })
+@Index('IDX_WORKSPACE_USAGE_SNAPSHOT_WORKSPACE_ID_COLLECTED_AT', [
+  'workspaceId',
+  'collectedAt',
+])
+export class WorkspaceUsageSnapshotEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ nullable: false, type: 'uuid' })
+  workspaceId: string;
+
+  @ManyToOne(() => WorkspaceEntity, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'workspaceId' })
+  workspace: Relation<WorkspaceEntity>;
+
+  @Column({ type: 'timestamptz', nullable: false })
+  collectedAt: Date;
+
+  @Column({ type: 'jsonb', nullable: false, default: {} })
+  recordCountsByObject: Record<string, number>;
+
+  @Column({ type: 'integer', nullable: false, default: 0 })
+  totalRecordCount: number;
+
+  @Column({ type: 'bigint', nullable: false, default: 0 })
+  storageBytes: number;
+
+  @Column({ type: 'integer', nullable: false, default: 0 })
+  workflowRunCount: number;
+
+  @Column({ type: 'integer', nullable: false, default: 0 })
+  messageCount: number;
+
+  @Column({ type: 'integer', nullable: false, default: 0 })
+  apiCallCount: number;
+
+  @Column({ type: 'bigint', nullable: false, default: 0 })
+  aiTokenCount: number;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -1,4 +1,4 @@
-import { UseGuards } from '@nestjs/common';
+import { UseFilters, UseGuards } from '@nestjs/common';
 import { Args, Mutation, Resolver } from '@nestjs/graphql';
 
 import GraphQLUpload from 'graphql-upload/GraphQLUpload.mjs';
@@ -10,6 +10,7 @@ import type { FileUpload } from 'graphql-upload/processRequest.mjs';
 
 import { SignedFileDTO } from 'src/engine/core-modules/file/file-upload/dtos/signed-file.dto';
 import { FileUploadService } from 'src/engine/core-modules/file/file-upload/services/file-upload.service';
+import { WorkspaceQuotaGraphqlApiExceptionFilter } from 'src/engine/core-modules/workspace-quota/utils/workspace-quota-graphql-api-exception.filter';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { AuthWorkspace } from 'src/engine/decorators/auth/auth-workspace.decorator';
 import { SettingsPermissionGuard } from 'src/engine/guards/settings-permission.guard';
@@ -17,6 +18,7 @@ import { WorkspaceAuthGuard } from 'src/engine/guards/workspace-auth.guard';
 import { streamToBuffer } from 'src/utils/stream-to-buffer';
 
 @Resolver()
+@UseFilters(WorkspaceQuotaGraphqlApiExceptionFilter)
 export class UserWorkspaceResolver {
   constructor(private readonly fileUploadService: FileUploadService) {}
 
@@ -17,10 +17,16 @@ import {
 } from 'src/engine/core-modules/file/file-upload/services/file-upload.service';
 import { FileService } from 'src/engine/core-modules/file/services/file.service';
 import { OnboardingService } from 'src/engine/core-modules/onboarding/onboarding.service';
+import { TenantLifecycleEventService } from 'src/engine/core-modules/tenant-lifecycle-event/services/tenant-lifecycle-event.service';
 import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
 import { UserWorkspaceService } from 'src/engine/core-modules/user-workspace/user-workspace.service';
 import { UserEntity } from 'src/engine/core-modules/user/user.entity';
 import { WorkspaceInvitationService } from 'src/engine/core-modules/workspace-invitation/services/workspace-invitation.service';
+import { WorkspaceQuotaService } from 'src/engine/core-modules/workspace-quota/services/workspace-quota.service';
+import {
+  WorkspaceQuotaException,
+  WorkspaceQuotaExceptionCode,
+} from 'src/engine/core-modules/workspace-quota/workspace-quota.exception';
 import { type WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { DataSourceService } from 'src/engine/metadata-modules/data-source/data-source.service';
 import { ObjectMetadataEntity } from 'src/engine/metadata-modules/object-metadata/object-metadata.entity';
@@ -40,6 +46,7 @@ describe('UserWorkspaceService', () => {
   let fileService: FileService;
   let fileUploadService: FileUploadService;
   let onboardingService: OnboardingService;
+  let workspaceQuotaService: WorkspaceQuotaService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -141,6 +148,16 @@ describe('UserWorkspaceService', () => {
             setOnboardingCreateProfilePending: jest.fn(),
           },
         },
+        {
+          provide: WorkspaceQuotaService,
+          useValue: {
+            assertSeatsAvailableOrThrow: jest.fn(),
+          },
+        },
+        {
+          provide: TenantLifecycleEventService,
+          useValue: { emit: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -162,6 +179,9 @@ describe('UserWorkspaceService', () => {
     userRoleService = module.get<UserRoleService>(UserRoleService);
     fileUploadService = module.get<FileUploadService>(FileUploadService);
     onboardingService = module.get<OnboardingService>(OnboardingService);
+    workspaceQuotaService = module.get<WorkspaceQuotaService>(
+      WorkspaceQuotaService,
+    );
   });
 
   it('should be defined', () => {
@@ -510,6 +530,34 @@ describe('UserWorkspaceService', () => {
         service.addUserToWorkspaceIfUserNotInWorkspace(user, workspace),
       ).rejects.toThrow(PermissionsException);
     });
+
+    it('should not add user to workspace if the seat limit is reached', async () => {
+      const user = {
+        id: 'user-id',
+        email: 'test@example.com',
+      } as UserEntity;
+      const workspace = {
+        id: 'workspace-id',
+        defaultRoleId: 'default-role-id',
+        maxUsers: 1,
+      } as WorkspaceEntity;
+
+      jest.spyOn(service, 'checkUserWorkspaceExists').mockResolvedValue(null);
+      jest.spyOn(service, 'create');
+      jest
+        .spyOn(workspaceQuotaService, 'assertSeatsAvailableOrThrow')
+        .mockRejectedValue(
+          new WorkspaceQuotaException(
+            'Seat limit reached',
+            WorkspaceQuotaExceptionCode.SEAT_LIMIT_REACHED,
+          ),
+        );
+
+      await expect(
+        service.addUserToWorkspaceIfUserNotInWorkspace(user, workspace),
+      ).rejects.toThrow(WorkspaceQuotaException);
+      expect(service.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('getUserCount', () => {
@@ -20,9 +20,12 @@ import { WorkspaceDomainsService } from 'src/engine/core-modules/domain/workspac
 import { FileUploadService } from 'src/engine/core-modules/file/file-upload/services/file-upload.service';
 import { FileService } from 'src/engine/core-modules/file/services/file.service';
 import { OnboardingService } from 'src/engine/core-modules/onboarding/onboarding.service';
+import { TenantLifecycleEventType } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-type.enum';
+import { TenantLifecycleEventService } from 'src/engine/core-modules/tenant-lifecycle-event/services/tenant-lifecycle-event.service';
 import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
 import { UserEntity } from 'src/engine/core-modules/user/user.entity';
 import { WorkspaceInvitationService } from 'src/engine/core-modules/workspace-invitation/services/workspace-invitation.service';
+import { WorkspaceQuotaService } from 'src/engine/core-modules/workspace-quota/services/workspace-quota.service';
 import { AuthProviderEnum } from 'src/engine/core-modules/workspace/types/workspace.type';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { workspaceValidator } from 'src/engine/core-modules/workspace/workspace.validate';
@@ -55,6 +58,8 @@ export class UserWorkspaceService extends TypeOrmQueryService<UserWorkspaceEntit
     private readonly fileUploadService: FileUploadService,
     private readonly fileService: FileService,
     private readonly onboardingService: OnboardingService,
+    private readonly workspaceQuotaService: WorkspaceQuotaService,
+    private readonly tenantLifecycleEventService: TenantLifecycleEventService,
   ) {
     super(userWorkspaceRepository);
   }
@@ -140,6 +145,8 @@ export class UserWorkspaceService extends TypeOrmQueryService<UserWorkspaceEntit
     );
 
     if (!userWorkspace) {
+      await this.workspaceQuotaService.assertSeatsAvailableOrThrow(workspace);
+
       userWorkspace = await this.create({
         userId: user.id,
         workspaceId: workspace.id,
@@ -173,6 +180,12 @@ export class UserWorkspaceService extends TypeOrmQueryService<UserWorkspaceEntit
         workspaceId: workspace.id,
         value: true,
       });
+
+      await this.tenantLifecycleEventService.emit(
+        TenantLifecycleEventType.USER_JOINED,
+        workspace.id,
+        { userId: user.id, email: user.email },
+      );
     }
   }
 
@@ -245,6 +258,12 @@ export class UserWorkspaceService extends TypeOrmQueryService<UserWorkspaceEntit
     userWorkspaceId: string;
     softDelete?: boolean;
   }): Promise<void> {
+    const userWorkspace = await this.userWorkspaceRepository.findOne({
+      where: { id: userWorkspaceId },
+      relations: { user: true },
+      withDeleted: true,
+    });
+
     if (softDelete) {
       await this.roleTargetRepository.softRemove({ userWorkspaceId });
       await this.userWorkspaceRepository.softDelete({ id: userWorkspaceId });
@@ -252,6 +271,14 @@ export class UserWorkspaceService extends TypeOrmQueryService<UserWorkspaceEntit
       await this.roleTargetRepository.delete({ userWorkspaceId }); // TODO remove once userWorkspace foreign key is added on roleTarget
       await this.userWorkspaceRepository.delete({ id: userWorkspaceId });
     }
+
+    if (isDefined(userWorkspace)) {
+      await this.tenantLifecycleEventService.emit(
+        TenantLifecycleEventType.USER_LEFT,
+        userWorkspace.workspaceId,
+        { userId: userWorkspace.userId, email: userWorkspace.user?.email },
+      );
+    }
   }
 
   async findAvailableWorkspacesByEmail(email: string) {
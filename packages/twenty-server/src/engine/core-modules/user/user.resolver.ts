@@ -51,6 +51,7 @@ import {
 import { UserVarsService } from 'src/engine/core-modules/user/user-vars/services/user-vars.service';
 import { UserEntity } from 'src/engine/core-modules/user/user.entity';
 import { userValidator } from 'src/engine/core-modules/user/user.validate';
+import { WorkspaceQuotaGraphqlApiExceptionFilter } from 'src/engine/core-modules/workspace-quota/utils/workspace-quota-graphql-api-exception.filter';
 import { AuthProviderEnum } from 'src/engine/core-modules/workspace/types/workspace.type';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { AuthApiKey } from 'src/engine/decorators/auth/auth-api-key.decorator';
@@ -87,7 +88,10 @@ const getHMACKey = (email?: string, key?: string | null) => {
 };
 
 @Resolver(() => UserEntity)
-@UseFilters(PermissionsGraphqlApiExceptionFilter)
+@UseFilters(
+  PermissionsGraphqlApiExceptionFilter,
+  WorkspaceQuotaGraphqlApiExceptionFilter,
+)
 export class UserResolver {
   constructor(
     @InjectRepository(UserEntity)
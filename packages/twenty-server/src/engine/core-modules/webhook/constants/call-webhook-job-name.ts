@@ -0,0 +1 @@
+export const CALL_WEBHOOK_JOB_NAME = 'CallWebhookJob';
@@ -0,0 +1,11 @@
+// A delivery is attempted at most WEBHOOK_DELIVERY_MAX_ATTEMPTS times, the
+// delay doubling after each failure: 30s, 1m, 2m, 4m, 8m
+export const WEBHOOK_DELIVERY_MAX_ATTEMPTS = 6;
+
+export const WEBHOOK_DELIVERY_RETRY_BASE_DELAY_MS = 30_000;
+
+// Number of deliveries in a row that exhausted their retries before the
+// webhook is disabled
+export const WEBHOOK_MAX_CONSECUTIVE_FAILED_DELIVERIES = 10;
+
+export const WEBHOOK_DELIVERY_MAX_RESPONSE_BODY_LENGTH = 10_000;
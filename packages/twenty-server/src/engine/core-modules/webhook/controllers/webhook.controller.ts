@@ -1,4 +1,5 @@
 import {
+  BadRequestException,
   Body,
   Controller,
   Delete,
@@ -6,15 +7,20 @@ import {
   Param,
   Patch,
   Post,
+  Query,
   UseFilters,
   UseGuards,
 } from '@nestjs/common';
 
 import { PermissionFlagType } from 'twenty-shared/constants';
+import { isDefined } from 'twenty-shared/utils';
 
 import { RestApiExceptionFilter } from 'src/engine/api/rest/rest-api-exception.filter';
 import { CreateWebhookInput } from 'src/engine/core-modules/webhook/dtos/create-webhook.dto';
 import { UpdateWebhookInput } from 'src/engine/core-modules/webhook/dtos/update-webhook.dto';
+import { WebhookDeliveryStatus } from 'src/engine/core-modules/webhook/enums/webhook-delivery-status.enum';
+import { type WebhookDeliveryEntity } from 'src/engine/core-modules/webhook/webhook-delivery.entity';
+import { WebhookDeliveryService } from 'src/engine/core-modules/webhook/webhook-delivery.service';
 import { type WebhookEntity } from 'src/engine/core-modules/webhook/webhook.entity';
 import { WebhookService } from 'src/engine/core-modules/webhook/webhook.service';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
@@ -35,7 +41,10 @@ import { WorkspaceAuthGuard } from 'src/engine/guards/workspace-auth.guard';
 )
 @UseFilters(RestApiExceptionFilter)
 export class WebhookController {
-  constructor(private readonly webhookService: WebhookService) {}
+  constructor(
+    private readonly webhookService: WebhookService,
+    private readonly webhookDeliveryService: WebhookDeliveryService,
+  ) {}
 
   @Get()
   async findAll(
@@ -62,6 +71,9 @@ export class WebhookController {
       operations: createWebhookDto.operations || ['*.*'],
       description: createWebhookDto.description,
       secret: createWebhookDto.secret,
+      filters: createWebhookDto.filters,
+      payloadFormat: createWebhookDto.payloadFormat,
+      payloadFields: createWebhookDto.payloadFields,
       workspaceId: workspace.id,
     });
   }
@@ -84,4 +96,69 @@ export class WebhookController {
 
     return result !== null;
   }
+
+  @Get(':id/deliveries')
+  async findDeliveries(
+    @Param('id') id: string,
+    @AuthWorkspace() workspace: WorkspaceEntity,
+    @Query('status') status?: WebhookDeliveryStatus,
+    @Query('limit') limit?: string,
+  ): Promise<WebhookDeliveryEntity[]> {
+    if (
+      isDefined(status) &&
+      !Object.values(WebhookDeliveryStatus).includes(status)
+    ) {
+      throw new BadRequestException(
+        `status must be one of ${Object.values(WebhookDeliveryStatus).join(', ')}`,
+      );
+    }
+
+    const parsedLimit = isDefined(limit) ? Number(limit) : undefined;
+
+    if (
+      isDefined(parsedLimit) &&
+      (!Number.isInteger(parsedLimit) || parsedLimit < 1)
+    ) {
+      throw new BadRequestException('limit must be a positive integer');
+    }
+
+    return this.webhookDeliveryService.findDeliveries({
+      webhookId: id,
+      workspaceId: workspace.id,
+      status,
+      limit: parsedLimit,
+    });
+  }
+
+  @Get(':id/deliveries/:deliveryId')
+  async findDelivery(
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+    @AuthWorkspace() workspace: WorkspaceEntity,
+  ): Promise<WebhookDeliveryEntity | null> {
+    const delivery = await this.webhookDeliveryService.findDeliveryById(
+      deliveryId,
+      workspace.id,
+    );
+
+    return delivery?.webhookId === id ? delivery : null;
+  }
+
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  async redeliver(
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+    @AuthWorkspace() workspace: WorkspaceEntity,
+  ): Promise<WebhookDeliveryEntity | null> {
+    const delivery = await this.webhookDeliveryService.findDeliveryById(
+      deliveryId,
+      workspace.id,
+    );
+
+    if (delivery?.webhookId !== id) {
+      return null;
+    }
+
+    return this.webhookDeliveryService.redeliver(deliveryId, workspace.id);
+  }
 }
@@ -0,0 +1,33 @@
+import { Command, CommandRunner } from 'nest-commander';
+
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import {
+  CLEAN_WEBHOOK_DELIVERIES_CRON_PATTERN,
+  CleanWebhookDeliveriesCronJob,
+} from 'src/engine/core-modules/webhook/crons/jobs/clean-webhook-deliveries.cron.job';
+
+@Command({
+  name: 'cron:webhook:clean-deliveries',
+  description:
+    'Starts a cron job to delete webhook deliveries older than the retention period',
+})
+export class CleanWebhookDeliveriesCronCommand extends CommandRunner {
+  constructor(
+    @InjectMessageQueue(MessageQueue.cronQueue)
+    private readonly messageQueueService: MessageQueueService,
+  ) {
+    super();
+  }
+
+  async run(): Promise<void> {
+    await this.messageQueueService.addCron<undefined>({
+      jobName: CleanWebhookDeliveriesCronJob.name,
+      data: undefined,
+      options: {
+        repeat: { pattern: CLEAN_WEBHOOK_DELIVERIES_CRON_PATTERN },
+      },
+    });
+  }
+}
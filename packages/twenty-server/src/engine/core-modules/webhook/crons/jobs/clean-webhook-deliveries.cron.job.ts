@@ -0,0 +1,36 @@
+import { Logger } from '@nestjs/common';
+
+import { SentryCronMonitor } from 'src/engine/core-modules/cron/sentry-cron-monitor.decorator';
+import { ExceptionHandlerService } from 'src/engine/core-modules/exception-handler/exception-handler.service';
+import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
+import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { WebhookDeliveryService } from 'src/engine/core-modules/webhook/webhook-delivery.service';
+
+export const CLEAN_WEBHOOK_DELIVERIES_CRON_PATTERN = '15 3 * * *';
+
+@Processor(MessageQueue.cronQueue)
+export class CleanWebhookDeliveriesCronJob {
+  private readonly logger = new Logger(CleanWebhookDeliveriesCronJob.name);
+
+  constructor(
+    private readonly webhookDeliveryService: WebhookDeliveryService,
+    private readonly exceptionHandlerService: ExceptionHandlerService,
+  ) {}
+
+  @Process(CleanWebhookDeliveriesCronJob.name)
+  @SentryCronMonitor(
+    CleanWebhookDeliveriesCronJob.name,
+    CLEAN_WEBHOOK_DELIVERIES_CRON_PATTERN,
+  )
+  async handle(): Promise<void> {
+    try {
+      const deletedCount =
+        await this.webhookDeliveryService.deleteExpiredDeliveries();
+
+      this.logger.log(`Deleted ${deletedCount} expired webhook deliveries`);
+    } catch (error) {
+      this.exceptionHandlerService.captureExceptions([error]);
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import { Field, InputType } from '@nestjs/graphql';
 
-import { IsNotEmpty, IsUrl } from 'class-validator';
+import { IsEnum, IsNotEmpty, IsOptional, IsUrl } from 'class-validator';
+import GraphQLJSON from 'graphql-type-json';
+
+import { WebhookPayloadFormat } from 'src/engine/core-modules/webhook/enums/webhook-payload-format.enum';
+import { type WebhookFilters } from 'src/engine/core-modules/webhook/types/webhook-filters.type';
 
 @InputType()
 export class CreateWebhookInput {
@@ -17,4 +21,15 @@ export class CreateWebhookInput {
 
   @Field({ nullable: true })
   secret?: string;
+
+  @Field(() => GraphQLJSON, { nullable: true })
+  filters?: WebhookFilters | null;
+
+  @Field(() => WebhookPayloadFormat, { nullable: true })
+  @IsOptional()
+  @IsEnum(WebhookPayloadFormat)
+  payloadFormat?: WebhookPayloadFormat;
+
+  @Field(() => [String], { nullable: true })
+  payloadFields?: string[] | null;
 }
@@ -1,8 +1,11 @@
 import { Field, InputType } from '@nestjs/graphql';
 
-import { IsNotEmpty, IsUUID } from 'class-validator';
+import { IsEnum, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+import GraphQLJSON from 'graphql-type-json';
 
 import { UUIDScalarType } from 'src/engine/api/graphql/workspace-schema-builder/graphql-types/scalars';
+import { WebhookPayloadFormat } from 'src/engine/core-modules/webhook/enums/webhook-payload-format.enum';
+import { type WebhookFilters } from 'src/engine/core-modules/webhook/types/webhook-filters.type';
 
 @InputType()
 export class UpdateWebhookInput {
@@ -22,4 +25,15 @@ export class UpdateWebhookInput {
 
   @Field({ nullable: true })
   secret?: string;
+
+  @Field(() => GraphQLJSON, { nullable: true })
+  filters?: WebhookFilters | null;
+
+  @Field(() => WebhookPayloadFormat, { nullable: true })
+  @IsOptional()
+  @IsEnum(WebhookPayloadFormat)
+  payloadFormat?: WebhookPayloadFormat;
+
+  @Field(() => [String], { nullable: true })
+  payloadFields?: string[] | null;
 }
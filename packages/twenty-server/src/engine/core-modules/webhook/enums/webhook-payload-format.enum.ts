@@ -0,0 +1,5 @@
+export enum WebhookPayloadFormat {
+  FULL_RECORD = 'FULL_RECORD',
+  DIFF = 'DIFF',
+  SELECTED_FIELDS = 'SELECTED_FIELDS',
+}
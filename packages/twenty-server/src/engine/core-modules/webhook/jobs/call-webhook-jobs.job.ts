@@ -7,10 +7,8 @@ import { Process } from 'src/engine/core-modules/message-queue/decorators/proces
 import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
 import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
 import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
-import {
-  CallWebhookJob,
-  type CallWebhookJobData,
-} from 'src/engine/core-modules/webhook/jobs/call-webhook.job';
+import { CALL_WEBHOOK_JOB_NAME } from 'src/engine/core-modules/webhook/constants/call-webhook-job-name';
+import { type CallWebhookJobData } from 'src/engine/core-modules/webhook/jobs/call-webhook.job';
 import { WebhookService } from 'src/engine/core-modules/webhook/webhook.service';
 import { WorkspaceEventBatch } from 'src/engine/workspace-event-emitter/types/workspace-event-batch.type';
 import type { ObjectRecordEvent } from 'src/engine/core-modules/event-emitter/types/object-record-event.event';
@@ -48,16 +46,27 @@ export class CallWebhookJobsJob {
       ],
     );
 
-    const webhookEvents = transformEventBatchToWebhookEvents({
-      workspaceEventBatch,
-      webhooks,
+    // A webhook whose events cannot be built must not hold back the others
+    const webhookEvents = webhooks.flatMap((webhook) => {
+      try {
+        return transformEventBatchToWebhookEvents({
+          workspaceEventBatch,
+          webhooks: [webhook],
+        });
+      } catch (error) {
+        this.logger.error(
+          `Could not build the events of webhook ${webhook.id}: ${error.message}`,
+        );
+
+        return [];
+      }
     });
 
     const webhookEventsChunks = chunk(webhookEvents, WEBHOOK_JOBS_CHUNK_SIZE);
 
     for (const webhookEventsChunk of webhookEventsChunks) {
       await this.messageQueueService.add<CallWebhookJobData[]>(
-        CallWebhookJob.name,
+        CALL_WEBHOOK_JOB_NAME,
         webhookEventsChunk,
         { retryLimit: 3 },
       );
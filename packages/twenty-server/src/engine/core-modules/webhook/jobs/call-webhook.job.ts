@@ -2,16 +2,23 @@ import { HttpService } from '@nestjs/axios';
 
 import crypto from 'crypto';
 
-import { getAbsoluteUrl } from 'twenty-shared/utils';
+import { getAbsoluteUrl, isDefined } from 'twenty-shared/utils';
 
 import { AuditService } from 'src/engine/core-modules/audit/services/audit.service';
 import { WEBHOOK_RESPONSE_EVENT } from 'src/engine/core-modules/audit/utils/events/workspace-event/webhook/webhook-response';
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
 import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
 import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
 import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
 import { MetricsService } from 'src/engine/core-modules/metrics/metrics.service';
 import { MetricsKeys } from 'src/engine/core-modules/metrics/types/metrics-keys.type';
+import { CALL_WEBHOOK_JOB_NAME } from 'src/engine/core-modules/webhook/constants/call-webhook-job-name';
+import { type WebhookDeliveryAttemptResult } from 'src/engine/core-modules/webhook/types/webhook-delivery-attempt-result.type';
+import { type WebhookDeliveryEntity } from 'src/engine/core-modules/webhook/webhook-delivery.entity';
+import { WebhookDeliveryService } from 'src/engine/core-modules/webhook/webhook-delivery.service';
 
+// The target url and the secret are read from the webhook on each attempt
 export type CallWebhookJobData = {
   targetUrl: string;
   eventName: string;
@@ -24,19 +31,34 @@ export type CallWebhookJobData = {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   record: any;
   updatedFields?: string[];
-  secret?: string;
+  // Sent instead of the full record with the DIFF payload format
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  diff?: Record<string, any>;
+  // Set on retries and redeliveries, the delivery is created on the first
+  // attempt otherwise
+  deliveryId?: string;
+  // A manual redelivery is attempted once even when the webhook is disabled
+  isManualRedelivery?: boolean;
 };
 
+type CallWebhookPayload = Omit<
+  CallWebhookJobData,
+  'deliveryId' | 'isManualRedelivery'
+>;
+
 @Processor(MessageQueue.webhookQueue)
 export class CallWebhookJob {
   constructor(
     private readonly httpService: HttpService,
     private readonly auditService: AuditService,
     private readonly metricsService: MetricsService,
+    private readonly webhookDeliveryService: WebhookDeliveryService,
+    @InjectMessageQueue(MessageQueue.webhookQueue)
+    private readonly messageQueueService: MessageQueueService,
   ) {}
 
   private generateSignature(
-    payload: CallWebhookJobData,
+    payload: CallWebhookPayload,
     secret: string,
     timestamp: string,
   ): string {
@@ -46,7 +68,7 @@ export class CallWebhookJob {
       .digest('hex');
   }
 
-  @Process(CallWebhookJob.name)
+  @Process(CALL_WEBHOOK_JOB_NAME)
   async handle(webhookJobEvents: CallWebhookJobData[]): Promise<void> {
     await Promise.all(
       webhookJobEvents.map(
@@ -56,8 +78,36 @@ export class CallWebhookJob {
   }
 
   private async callWebhook(data: CallWebhookJobData): Promise<void> {
+    const webhook = await this.webhookDeliveryService.findDeliverableWebhook({
+      webhookId: data.webhookId,
+      workspaceId: data.workspaceId,
+      includeDisabled: data.isManualRedelivery,
+    });
+
+    if (!isDefined(webhook)) {
+      await this.cancelPendingDelivery(data);
+
+      return;
+    }
+
+    const {
+      deliveryId: _deliveryId,
+      isManualRedelivery: _isManualRedelivery,
+      ...payload
+    } = data;
+    const currentPayload: CallWebhookPayload = {
+      ...payload,
+      targetUrl: webhook.targetUrl,
+    };
+
+    const delivery = await this.getOrCreateDelivery(data, currentPayload);
+
+    if (!isDefined(delivery)) {
+      return;
+    }
+
     const commonPayload = {
-      url: data.targetUrl,
+      url: webhook.targetUrl,
       webhookId: data.webhookId,
       eventName: data.eventName,
     };
@@ -68,15 +118,14 @@ export class CallWebhookJob {
     try {
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
+        'X-Twenty-Webhook-Delivery-Id': delivery.id,
       };
 
-      const { secret, ...payloadWithoutSecret } = data;
-
-      if (secret) {
+      if (webhook.secret) {
         headers['X-Twenty-Webhook-Timestamp'] = Date.now().toString();
         headers['X-Twenty-Webhook-Signature'] = this.generateSignature(
-          payloadWithoutSecret,
-          secret,
+          currentPayload,
+          webhook.secret,
           headers['X-Twenty-Webhook-Timestamp'],
         );
         headers['X-Twenty-Webhook-Nonce'] = crypto
@@ -85,8 +134,8 @@ export class CallWebhookJob {
       }
 
       const response = await this.httpService.axiosRef.post(
-        getAbsoluteUrl(data.targetUrl),
-        payloadWithoutSecret,
+        getAbsoluteUrl(webhook.targetUrl),
+        currentPayload,
         {
           headers,
           timeout: 5_000,
@@ -105,12 +154,95 @@ export class CallWebhookJob {
         key: MetricsKeys.JobWebhookCallCompleted,
         shouldStoreInCache: false,
       });
+
+      const attemptResult = {
+        responseStatus: response.status,
+        responseBody: response.data,
+      };
+
+      if (success) {
+        await this.webhookDeliveryService.recordSuccessfulAttempt(
+          delivery,
+          attemptResult,
+        );
+      } else {
+        await this.retryIfNeeded(data, delivery, attemptResult);
+      }
     } catch (err) {
       auditService.insertWorkspaceEvent(WEBHOOK_RESPONSE_EVENT, {
         success: false,
         ...commonPayload,
         ...(err.response && { status: err.response.status }),
       });
+
+      await this.retryIfNeeded(data, delivery, {
+        responseStatus: err.response?.status,
+        responseBody: err.response?.data,
+        error: err.message,
+      });
     }
   }
+
+  // Webhooks are soft deleted and keep their deliveries, the delivery of a
+  // webhook disabled or deleted since the previous attempt is abandoned
+  private async cancelPendingDelivery(data: CallWebhookJobData): Promise<void> {
+    if (!isDefined(data.deliveryId)) {
+      return;
+    }
+
+    const delivery = await this.webhookDeliveryService.findDeliveryById(
+      data.deliveryId,
+      data.workspaceId,
+    );
+
+    if (!isDefined(delivery)) {
+      return;
+    }
+
+    await this.webhookDeliveryService.cancelDelivery(
+      delivery,
+      'Webhook was disabled or deleted',
+    );
+  }
+
+  private async getOrCreateDelivery(
+    data: CallWebhookJobData,
+    requestBody: CallWebhookPayload,
+  ): Promise<WebhookDeliveryEntity | null> {
+    if (isDefined(data.deliveryId)) {
+      return this.webhookDeliveryService.findDeliveryById(
+        data.deliveryId,
+        data.workspaceId,
+      );
+    }
+
+    return this.webhookDeliveryService.createDelivery({
+      webhookId: data.webhookId,
+      workspaceId: data.workspaceId,
+      eventName: data.eventName,
+      targetUrl: requestBody.targetUrl,
+      requestBody: JSON.parse(JSON.stringify(requestBody)),
+    });
+  }
+
+  private async retryIfNeeded(
+    data: CallWebhookJobData,
+    delivery: WebhookDeliveryEntity,
+    attemptResult: WebhookDeliveryAttemptResult,
+  ): Promise<void> {
+    const retryDelay = await this.webhookDeliveryService.recordFailedAttempt(
+      delivery,
+      attemptResult,
+    );
+
+    if (!isDefined(retryDelay)) {
+      return;
+    }
+
+    await this.messageQueueService.add<CallWebhookJobData[]>(
+      CALL_WEBHOOK_JOB_NAME,
+      [{ ...data, deliveryId: delivery.id, isManualRedelivery: false }],
+      { delay: retryDelay },
+    );
+  }
 }
@@ -0,0 +1,5 @@
+export type WebhookDeliveryAttemptResult = {
+  responseStatus?: number | null;
+  responseBody?: unknown;
+  error?: string | null;
+};
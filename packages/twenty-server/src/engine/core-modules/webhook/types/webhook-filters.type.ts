@@ -0,0 +1,13 @@
+import { type RecordGqlOperationFilter } from 'twenty-shared/types';
+
+// Every filter is optional and they all have to match. They narrow down the
+// events already selected by the webhook operations.
+export type WebhookFilters = {
+  objectNames?: string[];
+  // Event actions, e.g. created or updated
+  eventTypes?: string[];
+  // Same filter format as the GraphQL and REST APIs
+  recordFilter?: RecordGqlOperationFilter;
+  // Update events are only sent when one of these fields changed
+  updatedFields?: string[];
+};
@@ -1,6 +1,7 @@
 import { type WorkspaceEventBatch } from 'src/engine/workspace-event-emitter/types/workspace-event-batch.type';
 import type { ObjectRecordEvent } from 'src/engine/core-modules/event-emitter/types/object-record-event.event';
 import type { WebhookEntity } from 'src/engine/core-modules/webhook/webhook.entity';
+import { WebhookPayloadFormat } from 'src/engine/core-modules/webhook/enums/webhook-payload-format.enum';
 import { transformEventBatchToWebhookEvents } from 'src/engine/core-modules/webhook/utils/transform-event-batch-to-webhook-events';
 import { type FlatObjectMetadata } from 'src/engine/metadata-modules/flat-object-metadata/types/flat-object-metadata.type';
 
@@ -67,12 +68,10 @@ describe('transformEventBatchToWebhookEvents', () => {
       {
         id: 'webhook-id',
         targetUrl: 'targetUrl',
-        secret: 'secret',
       },
       {
         id: 'webhook-id-2',
         targetUrl: 'targetUrl-2',
-        secret: 'secret-2',
       },
     ] as WebhookEntity[];
 
@@ -94,7 +93,6 @@ describe('transformEventBatchToWebhookEvents', () => {
           id: 'id-1',
           nameSingular: 'nameSingular-1',
         },
-        secret: 'secret',
       },
       {
         targetUrl: 'targetUrl',
@@ -109,7 +107,6 @@ describe('transformEventBatchToWebhookEvents', () => {
           id: 'id-2',
           nameSingular: 'nameSingular-2',
         },
-        secret: 'secret',
       },
       {
         targetUrl: 'targetUrl',
@@ -126,7 +123,6 @@ describe('transformEventBatchToWebhookEvents', () => {
           secret: 'secret-3',
         },
         updatedFields: ['nameSingular'],
-        secret: 'secret',
       },
       {
         targetUrl: 'targetUrl-2',
@@ -141,7 +137,6 @@ describe('transformEventBatchToWebhookEvents', () => {
           id: 'id-1',
           nameSingular: 'nameSingular-1',
         },
-        secret: 'secret-2',
       },
       {
         targetUrl: 'targetUrl-2',
@@ -156,7 +151,6 @@ describe('transformEventBatchToWebhookEvents', () => {
           id: 'id-2',
           nameSingular: 'nameSingular-2',
         },
-        secret: 'secret-2',
       },
       {
         targetUrl: 'targetUrl-2',
@@ -173,7 +167,6 @@ describe('transformEventBatchToWebhookEvents', () => {
           secret: 'secret-3',
         },
         updatedFields: ['nameSingular'],
-        secret: 'secret-2',
       },
     ];
 
@@ -209,7 +202,6 @@ describe('transformEventBatchToWebhookEvents', () => {
       {
         id: 'webhook-id',
         targetUrl: 'targetUrl',
-        secret: 'secret',
       },
     ] as WebhookEntity[];
 
@@ -233,7 +225,6 @@ describe('transformEventBatchToWebhookEvents', () => {
           targetUrl: 'targetUrl-1',
           // No secret
         },
-        secret: 'secret',
       },
     ];
 
@@ -245,4 +236,116 @@ describe('transformEventBatchToWebhookEvents', () => {
 
     expect(resultWithoutEventDate).toEqual(expectedResultWithoutEventDate);
   });
+
+  it('should only keep events matching the webhook filters', () => {
+    const workspaceEventBatch: WorkspaceEventBatch<ObjectRecordEvent> = {
+      workspaceId: 'workspaceId',
+      objectMetadata: mockObjectMetadata,
+      name: 'company.updated',
+      events: [
+        {
+          recordId: 'recordId-1',
+          properties: {
+            before: { id: 'id-1', name: 'Acme', employees: 10 },
+            after: { id: 'id-1', name: 'Acme', employees: 200 },
+            updatedFields: ['employees'],
+          },
+        },
+        {
+          recordId: 'recordId-2',
+          properties: {
+            before: { id: 'id-2', name: 'Globex', employees: 5 },
+            after: { id: 'id-2', name: 'Globex', employees: 8 },
+            updatedFields: ['employees'],
+          },
+        },
+        {
+          recordId: 'recordId-3',
+          properties: {
+            before: { id: 'id-3', name: 'Initech', employees: 300 },
+            after: { id: 'id-3', name: 'Initrode', employees: 300 },
+            updatedFields: ['name'],
+          },
+        },
+      ],
+    };
+
+    const webhooks = [
+      {
+        id: 'webhook-id',
+        targetUrl: 'targetUrl',
+        secret: 'secret',
+        filters: {
+          objectNames: ['company'],
+          eventTypes: ['updated'],
+          recordFilter: { employees: { gte: 100 } },
+          updatedFields: ['employees'],
+        },
+      },
+      {
+        id: 'webhook-id-2',
+        targetUrl: 'targetUrl-2',
+        secret: 'secret-2',
+        filters: { objectNames: ['person'] },
+      },
+    ] as WebhookEntity[];
+
+    const result = transformEventBatchToWebhookEvents({
+      workspaceEventBatch,
+      webhooks,
+    });
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      webhookId: 'webhook-id',
+      record: { id: 'id-1', employees: 200 },
+    });
+  });
+
+  it('should shape the payload according to the webhook payload format', () => {
+    const workspaceEventBatch: WorkspaceEventBatch<ObjectRecordEvent> = {
+      workspaceId: 'workspaceId',
+      objectMetadata: mockObjectMetadata,
+      name: 'company.updated',
+      events: [
+        {
+          recordId: 'recordId-1',
+          properties: {
+            before: { id: 'id-1', name: 'Acme', employees: 10 },
+            after: { id: 'id-1', name: 'Acme', employees: 200 },
+            updatedFields: ['employees'],
+            diff: { employees: { before: 10, after: 200 } },
+          },
+        },
+      ],
+    };
+
+    const webhooks = [
+      {
+        id: 'webhook-id',
+        targetUrl: 'targetUrl',
+        secret: 'secret',
+        payloadFormat: WebhookPayloadFormat.DIFF,
+      },
+      {
+        id: 'webhook-id-2',
+        targetUrl: 'targetUrl-2',
+        secret: 'secret-2',
+        payloadFormat: WebhookPayloadFormat.SELECTED_FIELDS,
+        payloadFields: ['name'],
+      },
+    ] as WebhookEntity[];
+
+    const [diffEvent, selectedFieldsEvent] = transformEventBatchToWebhookEvents(
+      {
+        workspaceEventBatch,
+        webhooks,
+      },
+    );
+
+    expect(diffEvent.record).toEqual({ id: 'id-1' });
+    expect(diffEvent.diff).toEqual({ employees: { before: 10, after: 200 } });
+    expect(selectedFieldsEvent.record).toEqual({ id: 'id-1', name: 'Acme' });
+    expect(selectedFieldsEvent.diff).toBeUndefined();
+  });
 });
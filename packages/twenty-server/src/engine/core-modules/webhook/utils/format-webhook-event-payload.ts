@@ -0,0 +1,51 @@
+import { isDefined } from 'twenty-shared/utils';
+
+import { WebhookPayloadFormat } from 'src/engine/core-modules/webhook/enums/webhook-payload-format.enum';
+
+type WebhookEventPayload = {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  record: Record<string, any> | undefined;
+  updatedFields?: string[];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  diff?: Record<string, any>;
+};
+
+export const formatWebhookEventPayload = ({
+  payload,
+  payloadFormat,
+  payloadFields,
+}: {
+  payload: WebhookEventPayload;
+  payloadFormat?: WebhookPayloadFormat;
+  payloadFields?: string[] | null;
+}): WebhookEventPayload => {
+  const { record, updatedFields, diff } = payload;
+
+  switch (payloadFormat) {
+    case WebhookPayloadFormat.DIFF:
+      // Only update events carry a diff, other events keep the full record
+      if (!isDefined(diff)) {
+        return { record, ...(updatedFields && { updatedFields }) };
+      }
+
+      return {
+        record: { id: record?.id },
+        ...(updatedFields && { updatedFields }),
+        diff,
+      };
+    case WebhookPayloadFormat.SELECTED_FIELDS: {
+      const selectedFields = ['id', ...(payloadFields ?? [])];
+
+      return {
+        record: Object.fromEntries(
+          Object.entries(record ?? {}).filter(([fieldName]) =>
+            selectedFields.includes(fieldName),
+          ),
+        ),
+        ...(updatedFields && { updatedFields }),
+      };
+    }
+    default:
+      return { record, ...(updatedFields && { updatedFields }) };
+  }
+};
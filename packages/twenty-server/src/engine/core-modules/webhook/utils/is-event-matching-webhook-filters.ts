@@ -0,0 +1,60 @@
+import { isDefined } from 'twenty-shared/utils';
+
+import { type WebhookFilters } from 'src/engine/core-modules/webhook/types/webhook-filters.type';
+import { isRecordMatchingFilter } from 'src/engine/utils/is-record-matching-filter.util';
+
+export const isEventMatchingWebhookFilters = ({
+  eventName,
+  record,
+  updatedFields,
+  filters,
+}: {
+  eventName: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  record: Record<string, any> | undefined;
+  updatedFields?: string[];
+  filters: WebhookFilters | null | undefined;
+}): boolean => {
+  if (!isDefined(filters)) {
+    return true;
+  }
+
+  const [nameSingular, action] = eventName.split('.');
+
+  if (
+    isDefined(filters.objectNames) &&
+    filters.objectNames.length > 0 &&
+    !filters.objectNames.includes(nameSingular)
+  ) {
+    return false;
+  }
+
+  if (
+    isDefined(filters.eventTypes) &&
+    filters.eventTypes.length > 0 &&
+    !filters.eventTypes.includes(action)
+  ) {
+    return false;
+  }
+
+  if (
+    isDefined(filters.updatedFields) &&
+    filters.updatedFields.length > 0 &&
+    isDefined(updatedFields) &&
+    !updatedFields.some((field) => filters.updatedFields?.includes(field))
+  ) {
+    return false;
+  }
+
+  if (
+    isDefined(filters.recordFilter) &&
+    !isRecordMatchingFilter({
+      record: record ?? {},
+      filter: filters.recordFilter,
+    })
+  ) {
+    return false;
+  }
+
+  return true;
+};
@@ -3,6 +3,8 @@ import { type CallWebhookJobData } from 'src/engine/core-modules/webhook/jobs/ca
 import { type WebhookEntity } from 'src/engine/core-modules/webhook/webhook.entity';
 import type { ObjectRecordEvent } from 'src/engine/core-modules/event-emitter/types/object-record-event.event';
 import { transformEventToWebhookEvent } from 'src/engine/core-modules/webhook/utils/transform-event-to-webhook-event';
+import { isEventMatchingWebhookFilters } from 'src/engine/core-modules/webhook/utils/is-event-matching-webhook-filters';
+import { formatWebhookEventPayload } from 'src/engine/core-modules/webhook/utils/format-webhook-event-payload';
 
 export const transformEventBatchToWebhookEvents = ({
   workspaceEventBatch,
@@ -23,14 +25,30 @@ export const transformEventBatchToWebhookEvents = ({
     const workspaceId = workspaceEventBatch.workspaceId;
     const webhookId = webhook.id;
     const eventDate = new Date();
-    const secret = webhook.secret;
 
     for (const eventData of workspaceEventBatch.events) {
-      const { record, updatedFields } = transformEventToWebhookEvent({
+      const webhookEvent = transformEventToWebhookEvent({
         eventName: workspaceEventBatch.name,
         event: eventData,
       });
 
+      if (
+        !isEventMatchingWebhookFilters({
+          eventName,
+          record: webhookEvent.record,
+          updatedFields: webhookEvent.updatedFields,
+          filters: webhook.filters,
+        })
+      ) {
+        continue;
+      }
+
+      const { record, updatedFields, diff } = formatWebhookEventPayload({
+        payload: webhookEvent,
+        payloadFormat: webhook.payloadFormat,
+        payloadFields: webhook.payloadFields,
+      });
+
       result.push({
         targetUrl,
         eventName,
@@ -42,7 +60,7 @@ export const transformEventBatchToWebhookEvents = ({
         workspaceMemberId: eventData.workspaceMemberId,
         record,
         ...(updatedFields && { updatedFields }),
-        secret,
+        ...(diff && { diff }),
       });
     }
   }
@@ -22,6 +22,10 @@ export const transformEventToWebhookEvent = ({
     'updatedFields' in event.properties
       ? event.properties.updatedFields
       : undefined;
+  const diff =
+    'diff' in event.properties && isDefined(event.properties.diff)
+      ? event.properties.diff
+      : undefined;
 
   const isWebhookEvent = nameSingular === 'webhook';
 
@@ -30,5 +34,6 @@ export const transformEventToWebhookEvent = ({
   return {
     record: sanitizedRecord,
     ...(updatedFields && { updatedFields }),
+    ...(diff && { diff: removeSecretFromWebhookRecord(diff, isWebhookEvent) }),
   };
 };
@@ -13,8 +13,11 @@ export const webhookGraphqlApiExceptionHandler = (error: Error) => {
   if (error instanceof WebhookException) {
     switch (error.code) {
       case WebhookExceptionCode.WEBHOOK_NOT_FOUND:
+      case WebhookExceptionCode.WEBHOOK_DELIVERY_NOT_FOUND:
         throw new NotFoundError(error.message);
       case WebhookExceptionCode.INVALID_TARGET_URL:
+      case WebhookExceptionCode.INVALID_PAYLOAD_FORMAT:
+      case WebhookExceptionCode.INVALID_FILTERS:
         throw new UserInputError(error.message, {
           userFriendlyMessage: error.userFriendlyMessage,
         });
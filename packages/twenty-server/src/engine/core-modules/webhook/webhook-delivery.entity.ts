@@ -0,0 +1,98 @@
+import { Field, Int, ObjectType, registerEnumType } from '@nestjs/graphql';
+
+import { IDField } from '@ptc-org/nestjs-query-graphql';
+import GraphQLJSON from 'graphql-type-json';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Relation,
+  UpdateDateColumn,
+} from 'typeorm';
+
+import { UUIDScalarType } from 'src/engine/api/graphql/workspace-schema-builder/graphql-types/scalars';
+import { WebhookDeliveryStatus } from 'src/engine/core-modules/webhook/enums/webhook-delivery-status.enum';
+import { WebhookEntity } from 'src/engine/core-modules/webhook/webhook.entity';
+
+// One row per event sent to a webhook. Retries update the row, a manual
+// redelivery creates a new one.
+@Index('IDX_WEBHOOK_DELIVERY_WEBHOOK_ID_CREATED_AT', ['webhookId', 'createdAt'])
+@Entity({ name: 'webhookDelivery', schema: 'core' })
+@ObjectType('WebhookDelivery')
+export class WebhookDeliveryEntity {
+  @IDField(() => UUIDScalarType)
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Field(() => UUIDScalarType)
+  @Column({ nullable: false, type: 'uuid' })
+  webhookId: string;
+
+  @Field(() => UUIDScalarType)
+  @Column({ nullable: false, type: 'uuid' })
+  workspaceId: string;
+
+  @Field()
+  @Column()
+  eventName: string;
+
+  @Field(() => WebhookDeliveryStatus)
+  @Column({
+    type: 'enum',
+    enum: Object.values(WebhookDeliveryStatus),
+    default: WebhookDeliveryStatus.PENDING,
+  })
+  status: WebhookDeliveryStatus;
+
+  @Field(() => Int)
+  @Column({ type: 'int', default: 0 })
+  attemptCount: number;
+
+  @Field()
+  @Column()
+  targetUrl: string;
+
+  @Field(() => GraphQLJSON)
+  @Column({ type: 'jsonb' })
+  requestBody: Record<string, unknown>;
+
+  @Field(() => Int, { nullable: true })
+  @Column({ type: 'int', nullable: true })
+  responseStatus: number | null;
+
+  @Field(() => String, { nullable: true })
+  @Column({ type: 'text', nullable: true })
+  responseBody: string | null;
+
+  @Field(() => String, { nullable: true })
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Field(() => Date, { nullable: true })
+  @Column({ type: 'timestamptz', nullable: true })
+  lastAttemptAt: Date | null;
+
+  @Field(() => Date, { nullable: true })
+  @Column({ type: 'timestamptz', nullable: true })
+  nextAttemptAt: Date | null;
+
+  @Field()
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @Field()
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+
+  @ManyToOne(() => WebhookEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'webhookId' })
+  webhook: Relation<WebhookEntity>;
+}
+
+registerEnumType(WebhookDeliveryStatus, {
+  name: 'WebhookDeliveryStatus',
+});
@@ -0,0 +1,267 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { In, IsNull, LessThan, MoreThanOrEqual } from 'typeorm';
+
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { getQueueToken } from 'src/engine/core-modules/message-queue/utils/get-queue-token.util';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import { CALL_WEBHOOK_JOB_NAME } from 'src/engine/core-modules/webhook/constants/call-webhook-job-name';
+import { WEBHOOK_MAX_CONSECUTIVE_FAILED_DELIVERIES } from 'src/engine/core-modules/webhook/constants/webhook-delivery-retry.constants';
+import { WebhookDeliveryStatus } from 'src/engine/core-modules/webhook/enums/webhook-delivery-status.enum';
+import { WebhookDeliveryEntity } from 'src/engine/core-modules/webhook/webhook-delivery.entity';
+import { WebhookDeliveryService } from 'src/engine/core-modules/webhook/webhook-delivery.service';
+import { WebhookEntity } from 'src/engine/core-modules/webhook/webhook.entity';
+import {
+  WebhookException,
+  WebhookExceptionCode,
+} from 'src/engine/core-modules/webhook/webhook.exception';
+
+describe('WebhookDeliveryService', () => {
+  let service: WebhookDeliveryService;
+  let webhookDeliveryRepository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    update: jest.Mock;
+    findOne: jest.Mock;
+    find: jest.Mock;
+    delete: jest.Mock;
+  };
+  let webhookRepository: {
+    findOne: jest.Mock;
+    update: jest.Mock;
+    increment: jest.Mock;
+  };
+  let messageQueueService: { add: jest.Mock };
+
+  const delivery: WebhookDeliveryEntity = {
+    id: 'delivery-id',
+    webhookId: 'webhook-id',
+    workspaceId: 'workspace-id',
+    eventName: 'person.created',
+    targetUrl: 'https://example.com/webhook',
+    requestBody: { eventName: 'person.created', record: { id: 'person-id' } },
+    attemptCount: 0,
+    status: WebhookDeliveryStatus.PENDING,
+    responseStatus: null,
+    responseBody: null,
+    error: null,
+    lastAttemptAt: null,
+    nextAttemptAt: null,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    webhook: {} as WebhookEntity,
+  };
+
+  beforeEach(async () => {
+    webhookDeliveryRepository = {
+      create: jest.fn((entity) => entity),
+      save: jest.fn((entity) => ({ ...entity, id: 'redelivery-id' })),
+      update: jest.fn(),
+      findOne: jest.fn(),
+      find: jest.fn(),
+      delete: jest.fn().mockResolvedValue({ affected: 2 }),
+    };
+    webhookRepository = {
+      findOne: jest.fn(),
+      update: jest.fn(),
+      increment: jest.fn(),
+    };
+    messageQueueService = { add: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookDeliveryService,
+        {
+          provide: getRepositoryToken(WebhookDeliveryEntity),
+          useValue: webhookDeliveryRepository,
+        },
+        {
+          provide: getRepositoryToken(WebhookEntity),
+          useValue: webhookRepository,
+        },
+        {
+          provide: getQueueToken(MessageQueue.webhookQueue),
+          useValue: messageQueueService,
+        },
+        {
+          provide: TwentyConfigService,
+          useValue: { get: jest.fn().mockReturnValue(30) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(WebhookDeliveryService);
+  });
+
+  describe('recordFailedAttempt', () => {
+    it('should schedule a retry with an exponential backoff', async () => {
+      const retryDelay = await service.recordFailedAttempt(
+        { ...delivery, attemptCount: 2 },
+        { responseStatus: 503, responseBody: { error: 'unavailable' } },
+      );
+
+      expect(retryDelay).toBe(120_000);
+      expect(webhookDeliveryRepository.update).toHaveBeenCalledWith(
+        'delivery-id',
+        expect.objectContaining({
+          status: WebhookDeliveryStatus.PENDING,
+          attemptCount: 3,
+          responseStatus: 503,
+          responseBody: '{"error":"unavailable"}',
+        }),
+      );
+      expect(webhookRepository.increment).not.toHaveBeenCalled();
+    });
+
+    it('should fail the delivery and count it once attempts are exhausted', async () => {
+      const retryDelay = await service.recordFailedAttempt(
+        { ...delivery, attemptCount: 5 },
+        { error: 'timeout of 5000ms exceeded' },
+      );
+
+      expect(retryDelay).toBeNull();
+      expect(webhookDeliveryRepository.update).toHaveBeenCalledWith(
+        'delivery-id',
+        expect.objectContaining({
+          status: WebhookDeliveryStatus.FAILED,
+          attemptCount: 6,
+          nextAttemptAt: null,
+          error: 'timeout of 5000ms exceeded',
+        }),
+      );
+      expect(webhookRepository.increment).toHaveBeenCalledWith(
+        { id: 'webhook-id' },
+        'consecutiveFailedDeliveryCount',
+        1,
+      );
+      expect(webhookRepository.update).toHaveBeenCalledWith(
+        {
+          id: 'webhook-id',
+          disabledAt: IsNull(),
+          consecutiveFailedDeliveryCount: MoreThanOrEqual(
+            WEBHOOK_MAX_CONSECUTIVE_FAILED_DELIVERIES,
+          ),
+        },
+        { disabledAt: expect.any(Date) },
+      );
+    });
+  });
+
+  it('should reset the webhook failures on a successful attempt', async () => {
+    await service.recordSuccessfulAttempt(delivery, {
+      responseStatus: 200,
+      responseBody: 'ok',
+    });
+
+    expect(webhookDeliveryRepository.update).toHaveBeenCalledWith(
+      'delivery-id',
+      expect.objectContaining({
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attemptCount: 1,
+        responseBody: 'ok',
+      }),
+    );
+    expect(webhookRepository.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'webhook-id' }),
+      { consecutiveFailedDeliveryCount: 0, disabledAt: null },
+    );
+  });
+
+  describe('findDeliverableWebhook', () => {
+    it('should only find active webhooks', async () => {
+      await service.findDeliverableWebhook({
+        webhookId: 'webhook-id',
+        workspaceId: 'workspace-id',
+      });
+
+      expect(webhookRepository.findOne).toHaveBeenCalledWith({
+        where: {
+          id: 'webhook-id',
+          workspaceId: 'workspace-id',
+          deletedAt: IsNull(),
+          disabledAt: IsNull(),
+        },
+      });
+    });
+
+    it('should find disabled webhooks for manual redeliveries', async () => {
+      await service.findDeliverableWebhook({
+        webhookId: 'webhook-id',
+        workspaceId: 'workspace-id',
+        includeDisabled: true,
+      });
+
+      expect(webhookRepository.findOne).toHaveBeenCalledWith({
+        where: {
+          id: 'webhook-id',
+          workspaceId: 'workspace-id',
+          deletedAt: IsNull(),
+        },
+      });
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should create a new delivery and enqueue it with the current webhook settings', async () => {
+      webhookDeliveryRepository.findOne.mockResolvedValue(delivery);
+      webhookRepository.findOne.mockResolvedValue({
+        id: 'webhook-id',
+        targetUrl: 'https://example.com/new-webhook',
+        secret: 'secret',
+      });
+
+      const redelivery = await service.redeliver('delivery-id', 'workspace-id');
+
+      expect(redelivery.id).toBe('redelivery-id');
+      expect(messageQueueService.add).toHaveBeenCalledWith(
+        CALL_WEBHOOK_JOB_NAME,
+        [
+          {
+            ...delivery.requestBody,
+            targetUrl: 'https://example.com/new-webhook',
+            deliveryId: 'redelivery-id',
+            isManualRedelivery: true,
+          },
+        ],
+      );
+    });
+
+    it('should throw when the delivery does not exist', async () => {
+      webhookDeliveryRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.redeliver('unknown-id', 'workspace-id'),
+      ).rejects.toThrow(
+        new WebhookException(
+          'Webhook delivery unknown-id not found',
+          WebhookExceptionCode.WEBHOOK_DELIVERY_NOT_FOUND,
+        ),
+      );
+      expect(messageQueueService.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteExpiredDeliveries', () => {
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-03-31T00:00:00.000Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should delete settled deliveries older than the retention period', async () => {
+      const deletedCount = await service.deleteExpiredDeliveries();
+
+      expect(deletedCount).toBe(2);
+      expect(webhookDeliveryRepository.delete).toHaveBeenCalledWith({
+        status: In([
+          WebhookDeliveryStatus.SUCCEEDED,
+          WebhookDeliveryStatus.FAILED,
+        ]),
+        createdAt: LessThan(new Date('2026-03-01T00:00:00.000Z')),
+      });
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { isDefined } from 'twenty-shared/utils';
+import {
+  In,
+  IsNull,
+  LessThan,
+  MoreThan,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
+import {
+  WEBHOOK_DELIVERY_MAX_ATTEMPTS,
+  WEBHOOK_DELIVERY_MAX_RESPONSE_BODY_LENGTH,
+  WEBHOOK_DELIVERY_RETRY_BASE_DELAY_MS,
+  WEBHOOK_MAX_CONSECUTIVE_FAILED_DELIVERIES,
+} from 'src/engine/core-modules/webhook/constants/webhook-delivery-retry.constants';
+import { CALL_WEBHOOK_JOB_NAME } from 'src/engine/core-modules/webhook/constants/call-webhook-job-name';
+import { WebhookDeliveryStatus } from 'src/engine/core-modules/webhook/enums/webhook-delivery-status.enum';
+import { type CallWebhookJobData } from 'src/engine/core-modules/webhook/jobs/call-webhook.job';
+import { type WebhookDeliveryAttemptResult } from 'src/engine/core-modules/webhook/types/webhook-delivery-attempt-result.type';
+import { WebhookDeliveryEntity } from 'src/engine/core-modules/webhook/webhook-delivery.entity';
+import { WebhookEntity } from 'src/engine/core-modules/webhook/webhook.entity';
+import {
+  WebhookException,
+  WebhookExceptionCode,
+} from 'src/engine/core-modules/webhook/webhook.exception';
+
+const MAX_DELIVERIES_PER_PAGE = 100;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class WebhookDeliveryService {
+  constructor(
+    @InjectRepository(WebhookDeliveryEntity)
+    private readonly webhookDeliveryRepository: Repository<WebhookDeliveryEntity>,
+    @InjectRepository(WebhookEntity)
+    private readonly webhookRepository: Repository<WebhookEntity>,
+    @InjectMessageQueue(MessageQueue.webhookQueue)
+    private readonly messageQueueService: MessageQueueService,
+    private readonly twentyConfigService: TwentyConfigService,
+  ) {}
+
+  async createDelivery(
+    deliveryData: Pick<
+      WebhookDeliveryEntity,
+      'webhookId' | 'workspaceId' | 'eventName' | 'targetUrl' | 'requestBody'
+    >,
+  ): Promise<WebhookDeliveryEntity> {
+    return this.webhookDeliveryRepository.save(
+      this.webhookDeliveryRepository.create({
+        ...deliveryData,
+        status: WebhookDeliveryStatus.PENDING,
+      }),
+    );
+  }
+
+  async findDeliveryById(
+    id: string,
+    workspaceId: string,
+  ): Promise<WebhookDeliveryEntity | null> {
+    return this.webhookDeliveryRepository.findOne({
+      where: { id, workspaceId },
+    });
+  }
+
+  // Deliveries are sent to the current settings of their webhook. Webhooks
+  // are soft deleted, so a retry must check the webhook is still active.
+  // A disabled webhook is only called by a manual redelivery.
+  async findDeliverableWebhook({
+    webhookId,
+    workspaceId,
+    includeDisabled = false,
+  }: {
+    webhookId: string;
+    workspaceId: string;
+    includeDisabled?: boolean;
+  }): Promise<WebhookEntity | null> {
+    return this.webhookRepository.findOne({
+      where: {
+        id: webhookId,
+        workspaceId,
+        deletedAt: IsNull(),
+        ...(!includeDisabled && { disabledAt: IsNull() }),
+      },
+    });
+  }
+
+  async cancelDelivery(
+    delivery: WebhookDeliveryEntity,
+    reason: string,
+  ): Promise<void> {
+    await this.webhookDeliveryRepository.update(delivery.id, {
+      status: WebhookDeliveryStatus.FAILED,
+      error: reason,
+      nextAttemptAt: null,
+    });
+  }
+
+  async findDeliveries({
+    webhookId,
+    workspaceId,
+    status,
+    limit,
+  }: {
+    webhookId: string;
+    workspaceId: string;
+    status?: WebhookDeliveryStatus;
+    limit?: number;
+  }): Promise<WebhookDeliveryEntity[]> {
+    return this.webhookDeliveryRepository.find({
+      where: {
+        webhookId,
+        workspaceId,
+        ...(isDefined(status) && { status }),
+      },
+      order: { createdAt: 'DESC' },
+      take: Math.min(limit ?? MAX_DELIVERIES_PER_PAGE, MAX_DELIVERIES_PER_PAGE),
+    });
+  }
+
+  // Pending deliveries are kept until their last retry settles them
+  async deleteExpiredDeliveries(): Promise<number> {
+    const { affected } = await this.webhookDeliveryRepository.delete({
+      status: In([
+        WebhookDeliveryStatus.SUCCEEDED,
+        WebhookDeliveryStatus.FAILED,
+      ]),
+      createdAt: LessThan(
+        new Date(
+          Date.now() -
+            this.twentyConfigService.get('WEBHOOK_DELIVERY_RETENTION_DAYS') *
+              DAY_IN_MS,
+        ),
+      ),
+    });
+
+    return affected ?? 0;
+  }
+
+  // A successful delivery also re-enables the webhook, which is how a
+  // manual redelivery brings a disabled endpoint back
+  async recordSuccessfulAttempt(
+    delivery: WebhookDeliveryEntity,
+    result: WebhookDeliveryAttemptResult,
+  ): Promise<void> {
+    await this.webhookDeliveryRepository.update(delivery.id, {
+      ...this.formatAttemptResult(result),
+      status: WebhookDeliveryStatus.SUCCEEDED,
+      attemptCount: delivery.attemptCount + 1,
+      lastAttemptAt: new Date(),
+      nextAttemptAt: null,
+    });
+
+    await this.webhookRepository.update(
+      {
+        id: delivery.webhookId,
+        consecutiveFailedDeliveryCount: MoreThan(0),
+      },
+      { consecutiveFailedDeliveryCount: 0, disabledAt: null },
+    );
+  }
+
+  // Returns the delay before the next attempt, or null when the delivery
+  // has exhausted its attempts
+  async recordFailedAttempt(
+    delivery: WebhookDeliveryEntity,
+    result: WebhookDeliveryAttemptResult,
+  ): Promise<number | null> {
+    const attemptCount = delivery.attemptCount + 1;
+    const shouldRetry = attemptCount < WEBHOOK_DELIVERY_MAX_ATTEMPTS;
+    const retryDelay = shouldRetry
+      ? WEBHOOK_DELIVERY_RETRY_BASE_DELAY_MS * 2 ** (attemptCount - 1)
+      : null;
+
+    await this.webhookDeliveryRepository.update(delivery.id, {
+      ...this.formatAttemptResult(result),
+      status: shouldRetry
+        ? WebhookDeliveryStatus.PENDING
+        : WebhookDeliveryStatus.FAILED,
+      attemptCount,
+      lastAttemptAt: new Date(),
+      nextAttemptAt: isDefined(retryDelay)
+        ? new Date(Date.now() + retryDelay)
+        : null,
+    });
+
+    if (!shouldRetry) {
+      await this.recordFailedDelivery(delivery.webhookId);
+    }
+
+    return retryDelay;
+  }
+
+  async redeliver(
+    id: string,
+    workspaceId: string,
+  ): Promise<WebhookDeliveryEntity> {
+    const delivery = await this.findDeliveryById(id, workspaceId);
+
+    if (!isDefined(delivery)) {
+      throw new WebhookException(
+        `Webhook delivery ${id} not found`,
+        WebhookExceptionCode.WEBHOOK_DELIVERY_NOT_FOUND,
+      );
+    }
+
+    const webhook = await this.webhookRepository.findOne({
+      where: { id: delivery.webhookId, workspaceId, deletedAt: IsNull() },
+    });
+
+    if (!isDefined(webhook)) {
+      throw new WebhookException(
+        `Webhook ${delivery.webhookId} not found`,
+        WebhookExceptionCode.WEBHOOK_NOT_FOUND,
+      );
+    }
+
+    const redelivery = await this.createDelivery({
+      webhookId: webhook.id,
+      workspaceId,
+      eventName: delivery.eventName,
+      targetUrl: webhook.targetUrl,
+      requestBody: delivery.requestBody,
+    });
+
+    await this.messageQueueService.add<CallWebhookJobData[]>(
+      CALL_WEBHOOK_JOB_NAME,
+      [
+        {
+          ...(delivery.requestBody as Omit<
+            CallWebhookJobData,
+            'targetUrl' | 'deliveryId' | 'isManualRedelivery'
+          >),
+          targetUrl: webhook.targetUrl,
+          deliveryId: redelivery.id,
+          isManualRedelivery: true,
+        },
+      ],
+    );
+
+    return redelivery;
+  }
+
+  private async recordFailedDelivery(webhookId: string): Promise<void> {
+    await this.webhookRepository.increment(
+      { id: webhookId },
+      'consecutiveFailedDeliveryCount',
+      1,
+    );
+
+    await this.webhookRepository.update(
+      {
+        id: webhookId,
+        disabledAt: IsNull(),
+        consecutiveFailedDeliveryCount: MoreThanOrEqual(
+          WEBHOOK_MAX_CONSECUTIVE_FAILED_DELIVERIES,
+        ),
+      },
+      { disabledAt: new Date() },
+    );
+  }
+
+  private formatAttemptResult({
+    responseStatus,
+    responseBody,
+    error,
+  }: WebhookDeliveryAttemptResult) {
+    const serializedResponseBody = isDefined(responseBody)
+      ? typeof responseBody === 'string'
+        ? responseBody
+        : JSON.stringify(responseBody)
+      : null;
+
+    return {
+      responseStatus: responseStatus ?? null,
+      responseBody:
+        serializedResponseBody?.slice(
+          0,
+          WEBHOOK_DELIVERY_MAX_RESPONSE_BODY_LENGTH,
+        ) ?? null,
+      error: error ?? null,
+    };
+  }
+}
@@ -1,6 +1,7 @@
-import { Field, ObjectType } from '@nestjs/graphql';
+import { Field, Int, ObjectType, registerEnumType } from '@nestjs/graphql';
 
 import { IDField } from '@ptc-org/nestjs-query-graphql';
+import GraphQLJSON from 'graphql-type-json';
 import {
   Column,
   CreateDateColumn,
@@ -15,6 +16,8 @@ import {
 } from 'typeorm';
 
 import { UUIDScalarType } from 'src/engine/api/graphql/workspace-schema-builder/graphql-types/scalars';
+import { WebhookPayloadFormat } from 'src/engine/core-modules/webhook/enums/webhook-payload-format.enum';
+import { type WebhookFilters } from 'src/engine/core-modules/webhook/types/webhook-filters.type';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 
 @Index('IDX_WEBHOOK_WORKSPACE_ID', ['workspaceId'])
@@ -41,10 +44,37 @@ export class WebhookEntity {
   @Column()
   secret: string;
 
+  @Field(() => GraphQLJSON, { nullable: true })
+  @Column({ type: 'jsonb', nullable: true })
+  filters: WebhookFilters | null;
+
+  @Field(() => WebhookPayloadFormat)
+  @Column({
+    type: 'enum',
+    enum: Object.values(WebhookPayloadFormat),
+    default: WebhookPayloadFormat.FULL_RECORD,
+  })
+  payloadFormat: WebhookPayloadFormat;
+
+  // Fields sent with the SELECTED_FIELDS payload format, on top of the id
+  @Field(() => [String], { nullable: true })
+  @Column('text', { array: true, nullable: true })
+  payloadFields: string[] | null;
+
   @Field(() => UUIDScalarType)
   @Column({ nullable: false, type: 'uuid' })
   workspaceId: string;
 
+  @Field(() => Int)
+  @Column({ type: 'int', default: 0 })
+  consecutiveFailedDeliveryCount: number;
+
+  // Set once too many deliveries in a row failed, disabled webhooks do not
+  // receive new events
+  @Field(() => Date, { nullable: true })
+  @Column({ type: 'timestamptz', nullable: true })
+  disabledAt: Date | null;
+
   @Field()
   @CreateDateColumn({ type: 'timestamptz' })
   createdAt: Date;
@@ -64,3 +94,7 @@ export class WebhookEntity {
   @JoinColumn({ name: 'workspaceId' })
   workspace: Relation<WorkspaceEntity>;
 }
+
+registerEnumType(WebhookPayloadFormat, {
+  name: 'WebhookPayloadFormat',
+});
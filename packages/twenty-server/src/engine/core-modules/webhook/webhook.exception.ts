@@ -5,4 +5,7 @@ export class WebhookException extends CustomException<WebhookExceptionCode> {}
 export enum WebhookExceptionCode {
   WEBHOOK_NOT_FOUND = 'WEBHOOK_NOT_FOUND',
   INVALID_TARGET_URL = 'INVALID_TARGET_URL',
+  WEBHOOK_DELIVERY_NOT_FOUND = 'WEBHOOK_DELIVERY_NOT_FOUND',
+  INVALID_PAYLOAD_FORMAT = 'INVALID_PAYLOAD_FORMAT',
+  INVALID_FILTERS = 'INVALID_FILTERS',
 }
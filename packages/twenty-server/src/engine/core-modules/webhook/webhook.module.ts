@@ -2,6 +2,10 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { AuthModule } from 'src/engine/core-modules/auth/auth.module';
+import { CleanWebhookDeliveriesCronCommand } from 'src/engine/core-modules/webhook/crons/commands/clean-webhook-deliveries.cron.command';
+import { CleanWebhookDeliveriesCronJob } from 'src/engine/core-modules/webhook/crons/jobs/clean-webhook-deliveries.cron.job';
+import { WebhookDeliveryEntity } from 'src/engine/core-modules/webhook/webhook-delivery.entity';
+import { WebhookDeliveryService } from 'src/engine/core-modules/webhook/webhook-delivery.service';
 import { WebhookEntity } from 'src/engine/core-modules/webhook/webhook.entity';
 import { WebhookResolver } from 'src/engine/core-modules/webhook/webhook.resolver';
 import { WebhookService } from 'src/engine/core-modules/webhook/webhook.service';
@@ -12,13 +16,24 @@ import { WebhookController } from './controllers/webhook.controller';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([WebhookEntity]),
+    TypeOrmModule.forFeature([WebhookEntity, WebhookDeliveryEntity]),
     AuthModule,
     PermissionsModule,
     WorkspaceCacheStorageModule,
   ],
-  providers: [WebhookService, WebhookResolver],
+  providers: [
+    WebhookService,
+    WebhookDeliveryService,
+    WebhookResolver,
+    CleanWebhookDeliveriesCronJob,
+    CleanWebhookDeliveriesCronCommand,
+  ],
   controllers: [WebhookController],
-  exports: [WebhookService, TypeOrmModule],
+  exports: [
+    WebhookService,
+    WebhookDeliveryService,
+    CleanWebhookDeliveriesCronCommand,
+    TypeOrmModule,
+  ],
 })
 export class WebhookModule {}
@@ -6,9 +6,13 @@ import { PermissionFlagType } from 'twenty-shared/constants';
 
 import { CreateWebhookInput } from 'src/engine/core-modules/webhook/dtos/create-webhook.dto';
 import { DeleteWebhookInput } from 'src/engine/core-modules/webhook/dtos/delete-webhook.dto';
+import { GetWebhookDeliveriesInput } from 'src/engine/core-modules/webhook/dtos/get-webhook-deliveries.dto';
 import { GetWebhookInput } from 'src/engine/core-modules/webhook/dtos/get-webhook.dto';
 import { UpdateWebhookInput } from 'src/engine/core-modules/webhook/dtos/update-webhook.dto';
+import { WebhookDeliveryIdInput } from 'src/engine/core-modules/webhook/dtos/webhook-delivery-id.dto';
 import { webhookGraphqlApiExceptionHandler } from 'src/engine/core-modules/webhook/utils/webhook-graphql-api-exception-handler.util';
+import { WebhookDeliveryEntity } from 'src/engine/core-modules/webhook/webhook-delivery.entity';
+import { WebhookDeliveryService } from 'src/engine/core-modules/webhook/webhook-delivery.service';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { AuthWorkspace } from 'src/engine/decorators/auth/auth-workspace.decorator';
 import { SettingsPermissionGuard } from 'src/engine/guards/settings-permission.guard';
@@ -23,7 +27,10 @@ import { WebhookService } from './webhook.service';
   SettingsPermissionGuard(PermissionFlagType.API_KEYS_AND_WEBHOOKS),
 )
 export class WebhookResolver {
-  constructor(private readonly webhookService: WebhookService) {}
+  constructor(
+    private readonly webhookService: WebhookService,
+    private readonly webhookDeliveryService: WebhookDeliveryService,
+  ) {}
 
   @Query(() => [WebhookEntity])
   async webhooks(
@@ -51,6 +58,9 @@ export class WebhookResolver {
         operations: input.operations,
         description: input.description,
         secret: input.secret,
+        filters: input.filters,
+        payloadFormat: input.payloadFormat,
+        payloadFields: input.payloadFields,
         workspaceId: workspace.id,
       });
     } catch (error) {
@@ -73,6 +83,11 @@ export class WebhookResolver {
       if (input.description !== undefined)
         updateData.description = input.description;
       if (input.secret !== undefined) updateData.secret = input.secret;
+      if (input.filters !== undefined) updateData.filters = input.filters;
+      if (input.payloadFormat !== undefined)
+        updateData.payloadFormat = input.payloadFormat;
+      if (input.payloadFields !== undefined)
+        updateData.payloadFields = input.payloadFields;
 
       return await this.webhookService.update(
         input.id,
@@ -94,4 +109,41 @@ export class WebhookResolver {
 
     return result !== null;
   }
+
+  @Query(() => [WebhookDeliveryEntity])
+  async webhookDeliveries(
+    @Args('input') input: GetWebhookDeliveriesInput,
+    @AuthWorkspace() workspace: WorkspaceEntity,
+  ): Promise<WebhookDeliveryEntity[]> {
+    return this.webhookDeliveryService.findDeliveries({
+      webhookId: input.webhookId,
+      workspaceId: workspace.id,
+      status: input.status,
+      limit: input.limit,
+    });
+  }
+
+  @Query(() => WebhookDeliveryEntity, { nullable: true })
+  async webhookDelivery(
+    @Args('input') input: WebhookDeliveryIdInput,
+    @AuthWorkspace() workspace: WorkspaceEntity,
+  ): Promise<WebhookDeliveryEntity | null> {
+    return this.webhookDeliveryService.findDeliveryById(input.id, workspace.id);
+  }
+
+  @Mutation(() => WebhookDeliveryEntity)
+  async redeliverWebhookDelivery(
+    @Args('input') input: WebhookDeliveryIdInput,
+    @AuthWorkspace() workspace: WorkspaceEntity,
+  ): Promise<WebhookDeliveryEntity> {
+    try {
+      return await this.webhookDeliveryService.redeliver(
+        input.id,
+        workspace.id,
+      );
+    } catch (error) {
+      webhookGraphqlApiExceptionHandler(error);
+      throw error; // This line will never be reached but satisfies TypeScript
+    }
+  }
 }
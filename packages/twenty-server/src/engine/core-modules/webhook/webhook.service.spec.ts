@@ -3,6 +3,9 @@ import { getRepositoryToken } from '@nestjs/typeorm';
 
 import { ArrayContains, IsNull } from 'typeorm';
 
+import { WebhookPayloadFormat } from 'src/engine/core-modules/webhook/enums/webhook-payload-format.enum';
+import { type WebhookFilters } from 'src/engine/core-modules/webhook/types/webhook-filters.type';
+
 import { WebhookEntity } from './webhook.entity';
 import { WebhookException, WebhookExceptionCode } from './webhook.exception';
 import { WebhookService } from './webhook.service';
@@ -19,7 +22,12 @@ describe('WebhookService', () => {
     targetUrl: 'https://example.com/webhook',
     secret: 'webhook-secret',
     operations: ['create', 'update'],
+    filters: null,
+    payloadFormat: WebhookPayloadFormat.FULL_RECORD,
+    payloadFields: null,
     workspaceId: mockWorkspaceId,
+    consecutiveFailedDeliveryCount: 0,
+    disabledAt: null,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     deletedAt: undefined,
@@ -152,6 +160,7 @@ describe('WebhookService', () => {
           workspaceId: mockWorkspaceId,
           operations: ArrayContains([operation]),
           deletedAt: IsNull(),
+          disabledAt: IsNull(),
         })),
       });
       expect(result).toEqual(mockWebhooks);
@@ -173,6 +182,7 @@ describe('WebhookService', () => {
             workspaceId: mockWorkspaceId,
             operations: ArrayContains(['create']),
             deletedAt: IsNull(),
+            disabledAt: IsNull(),
           },
         ],
       });
@@ -261,6 +271,66 @@ describe('WebhookService', () => {
         code: WebhookExceptionCode.INVALID_TARGET_URL,
       });
     });
+
+    it('should throw WebhookException for selected fields payload without fields', async () => {
+      const webhookData = {
+        targetUrl: 'https://example.com/webhook',
+        operations: ['create'],
+        workspaceId: mockWorkspaceId,
+        payloadFormat: WebhookPayloadFormat.SELECTED_FIELDS,
+        payloadFields: [],
+      };
+
+      await expect(service.create(webhookData)).rejects.toMatchObject({
+        code: WebhookExceptionCode.INVALID_PAYLOAD_FORMAT,
+      });
+      expect(mockWebhookRepository.save).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      { objectNames: 'person' },
+      { recordFilter: { and: { city: { eq: 'Paris' } } } },
+      { recordFilter: { city: { regex: '^Par' } } },
+      { unknownFilter: true },
+    ])(
+      'should throw WebhookException for invalid filters %p',
+      async (filters) => {
+        const webhookData = {
+          targetUrl: 'https://example.com/webhook',
+          operations: ['*.*'],
+          workspaceId: mockWorkspaceId,
+          filters: filters as WebhookFilters,
+        };
+
+        await expect(service.create(webhookData)).rejects.toMatchObject({
+          code: WebhookExceptionCode.INVALID_FILTERS,
+        });
+        expect(mockWebhookRepository.save).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should create a webhook with valid filters', async () => {
+      const webhookData = {
+        targetUrl: 'https://example.com/webhook',
+        operations: ['*.*'],
+        workspaceId: mockWorkspaceId,
+        filters: {
+          objectNames: ['person'],
+          recordFilter: {
+            and: [
+              { city: { in: ['Paris', 'London'] } },
+              { name: { firstName: { ilike: '%jo%' } } },
+            ],
+            not: { score: { lt: 10 } },
+          },
+        },
+      };
+
+      mockWebhookRepository.create.mockReturnValue(webhookData);
+      mockWebhookRepository.save.mockResolvedValue(webhookData);
+
+      await expect(service.create(webhookData)).resolves.toEqual(webhookData);
+    });
   });
 
   describe('update', () => {
@@ -315,6 +385,19 @@ describe('WebhookService', () => {
       expect(mockWebhookRepository.update).not.toHaveBeenCalled();
     });
 
+    it('should throw WebhookException for invalid filters during update', async () => {
+      mockWebhookRepository.findOne.mockResolvedValue(mockWebhook);
+
+      await expect(
+        service.update(mockWebhookId, mockWorkspaceId, {
+          filters: { eventTypes: 'created' } as unknown as WebhookFilters,
+        }),
+      ).rejects.toMatchObject({
+        code: WebhookExceptionCode.INVALID_FILTERS,
+      });
+      expect(mockWebhookRepository.update).not.toHaveBeenCalled();
+    });
+
     it('should update without target URL validation if targetUrl not in updateData', async () => {
       const updateData = { operations: ['create', 'update', 'delete'] };
       const updatedWebhook = { ...mockWebhook, ...updateData };
@@ -6,6 +6,10 @@ import { isDefined } from 'twenty-shared/utils';
 import { ArrayContains, IsNull, Repository } from 'typeorm';
 import { type QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
 
+import { WebhookPayloadFormat } from 'src/engine/core-modules/webhook/enums/webhook-payload-format.enum';
+import { type WebhookFilters } from 'src/engine/core-modules/webhook/types/webhook-filters.type';
+import { WebhookFiltersSchema } from 'src/engine/core-modules/webhook/zod-schemas/webhook-filters.zod-schema';
+
 import { WebhookEntity } from './webhook.entity';
 import { WebhookException, WebhookExceptionCode } from './webhook.exception';
 
@@ -36,6 +40,44 @@ export class WebhookService {
     }
   }
 
+  private validatePayloadFormat(
+    payloadFormat: WebhookPayloadFormat | undefined,
+    payloadFields: string[] | null | undefined,
+  ): void {
+    if (
+      payloadFormat === WebhookPayloadFormat.SELECTED_FIELDS &&
+      (!isDefined(payloadFields) || payloadFields.length === 0)
+    ) {
+      throw new WebhookException(
+        'Payload fields are required with the SELECTED_FIELDS payload format',
+        WebhookExceptionCode.INVALID_PAYLOAD_FORMAT,
+        {
+          userFriendlyMessage: msg`Please select the fields to send in the webhook payload.`,
+        },
+      );
+    }
+  }
+
+  private validateFilters(filters: WebhookFilters | null | undefined): void {
+    if (!isDefined(filters)) {
+      return;
+    }
+
+    const { success, error } = WebhookFiltersSchema.safeParse(filters);
+
+    if (!success) {
+      throw new WebhookException(
+        `Invalid webhook filters: ${error.issues
+          .map((issue) => `${issue.path.join('.')} ${issue.message}`)
+          .join(', ')}`,
+        WebhookExceptionCode.INVALID_FILTERS,
+        {
+          userFriendlyMessage: msg`Please provide valid webhook filters.`,
+        },
+      );
+    }
+  }
+
   async findByWorkspaceId(workspaceId: string): Promise<WebhookEntity[]> {
     return this.webhookRepository.find({
       where: {
@@ -54,6 +96,7 @@ export class WebhookService {
         workspaceId,
         operations: ArrayContains([operation]),
         deletedAt: IsNull(),
+        disabledAt: IsNull(),
       })),
     });
   }
@@ -86,6 +129,13 @@ export class WebhookService {
       );
     }
 
+    this.validatePayloadFormat(
+      webhookData.payloadFormat,
+      webhookData.payloadFields,
+    );
+
+    this.validateFilters(webhookData.filters);
+
     const webhook = this.webhookRepository.create({
       ...webhookData,
       targetUrl: normalizedTargetUrl,
@@ -122,6 +172,26 @@ export class WebhookService {
       }
 
       updateData.targetUrl = normalizedTargetUrl;
+      // Pointing a disabled webhook to a new endpoint gives it a fresh start
+      updateData.consecutiveFailedDeliveryCount = 0;
+      updateData.disabledAt = null;
+    }
+
+    if (
+      isDefined(updateData.payloadFormat) ||
+      updateData.payloadFields !== undefined
+    ) {
+      this.validatePayloadFormat(
+        (updateData.payloadFormat as WebhookPayloadFormat | undefined) ??
+          webhook.payloadFormat,
+        updateData.payloadFields !== undefined
+          ? (updateData.payloadFields as string[] | null)
+          : webhook.payloadFields,
+      );
+    }
+
+    if (updateData.filters !== undefined) {
+      this.validateFilters(updateData.filters as WebhookFilters | null);
     }
 
     await this.webhookRepository.update(id, updateData);
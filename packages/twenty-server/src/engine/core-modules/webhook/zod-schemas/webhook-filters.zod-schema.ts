@@ -0,0 +1,48 @@
+import { type RecordGqlOperationFilter } from 'twenty-shared/types';
+import { z } from 'zod';
+
+import { type WebhookFilters } from 'src/engine/core-modules/webhook/types/webhook-filters.type';
+
+const ComparableValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+// Comparators supported by isRecordMatchingFilter, other keys are composite
+// sub-fields, e.g. { name: { firstName: { eq: 'John' } } }
+const FieldFilterSchema: z.ZodType<Record<string, unknown>> = z.lazy(() =>
+  z
+    .object({
+      eq: ComparableValueSchema.nullish(),
+      neq: ComparableValueSchema.nullish(),
+      in: z.array(ComparableValueSchema).nullish(),
+      is: z.enum(['NULL', 'NOT_NULL']).nullish(),
+      gt: ComparableValueSchema.nullish(),
+      gte: ComparableValueSchema.nullish(),
+      lt: ComparableValueSchema.nullish(),
+      lte: ComparableValueSchema.nullish(),
+      like: z.string().nullish(),
+      ilike: z.string().nullish(),
+      startsWith: z.string().nullish(),
+      containsAny: z.array(ComparableValueSchema).nullish(),
+      containsIlike: z.string().nullish(),
+      isEmptyArray: z.boolean().nullish(),
+    })
+    .catchall(FieldFilterSchema),
+);
+
+const RecordFilterSchema: z.ZodType<RecordGqlOperationFilter> = z.lazy(() =>
+  z
+    .object({
+      and: z.array(RecordFilterSchema).nullish(),
+      or: z.union([z.array(RecordFilterSchema), RecordFilterSchema]).nullish(),
+      not: RecordFilterSchema.nullish(),
+    })
+    .catchall(FieldFilterSchema),
+) as z.ZodType<RecordGqlOperationFilter>;
+
+export const WebhookFiltersSchema: z.ZodType<WebhookFilters> = z
+  .object({
+    objectNames: z.array(z.string()).optional(),
+    eventTypes: z.array(z.string()).optional(),
+    recordFilter: RecordFilterSchema.optional(),
+    updatedFields: z.array(z.string()).optional(),
+  })
+  .strict();
@@ -0,0 +1,21 @@
+import { Field, InputType } from '@nestjs/graphql';
+
+import graphqlTypeJson from 'graphql-type-json';
+
+import { type WorkflowBundle } from 'src/modules/workflow/workflow-builder/workflow-bundle/types/workflow-bundle.type';
+
+@InputType()
+export class ImportWorkflowInput {
+  @Field(() => graphqlTypeJson, {
+    description: 'Workflow bundle produced by exportWorkflow',
+    nullable: false,
+  })
+  bundle: WorkflowBundle;
+
+  @Field(() => Boolean, {
+    description:
+      'Activate the imported draft when every reference was resolved',
+    nullable: true,
+  })
+  activate?: boolean;
+}
@@ -0,0 +1,26 @@
+import { Field, ObjectType } from '@nestjs/graphql';
+
+import graphqlTypeJson from 'graphql-type-json';
+
+import { UUIDScalarType } from 'src/engine/api/graphql/workspace-schema-builder/graphql-types/scalars';
+import { type WorkflowBundleUnresolvedReference } from 'src/modules/workflow/workflow-builder/workflow-bundle/types/workflow-bundle-import-report.type';
+
+@ObjectType('ImportWorkflowOutput')
+export class ImportWorkflowOutput {
+  @Field(() => UUIDScalarType)
+  workflowId: string;
+
+  @Field(() => [UUIDScalarType])
+  workflowVersionIds: string[];
+
+  @Field(() => Boolean, {
+    description: 'Whether the imported draft was activated',
+  })
+  activated: boolean;
+
+  @Field(() => graphqlTypeJson, {
+    description:
+      'Objects, fields and workflows of the bundle missing in the workspace',
+  })
+  unresolvedReferences: WorkflowBundleUnresolvedReference[];
+}
@@ -23,4 +23,16 @@ export class RunWorkflowVersionInput {
     nullable: true,
   })
   payload?: JSON;
+
+  @Field(() => Boolean, {
+    description: 'Simulate the steps with side effects',
+    nullable: true,
+  })
+  isTestRun?: boolean | null;
+
+  @Field(() => graphqlTypeJson, {
+    description: 'Step outputs to use during a test run, by step ID',
+    nullable: true,
+  })
+  testRunFixtures?: Record<string, object> | null;
 }
@@ -0,0 +1,35 @@
+import { Catch, type ExceptionFilter } from '@nestjs/common';
+
+import { assertUnreachable } from 'twenty-shared/utils';
+
+import {
+  NotFoundError,
+  UserInputError,
+} from 'src/engine/core-modules/graphql/utils/graphql-errors.util';
+import {
+  WorkflowBundleException,
+  WorkflowBundleExceptionCode,
+} from 'src/modules/workflow/workflow-builder/workflow-bundle/exceptions/workflow-bundle.exception';
+
+export const handleWorkflowBundleException = (
+  exception: WorkflowBundleException,
+) => {
+  switch (exception.code) {
+    case WorkflowBundleExceptionCode.WORKFLOW_NOT_FOUND:
+      throw new NotFoundError(exception);
+    case WorkflowBundleExceptionCode.INVALID_BUNDLE:
+      throw new UserInputError(exception);
+    default: {
+      assertUnreachable(exception.code);
+    }
+  }
+};
+
+@Catch(WorkflowBundleException)
+export class WorkflowBundleGraphqlApiExceptionFilter
+  implements ExceptionFilter
+{
+  catch(exception: WorkflowBundleException) {
+    handleWorkflowBundleException(exception);
+  }
+}
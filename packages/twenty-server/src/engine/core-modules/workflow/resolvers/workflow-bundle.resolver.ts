@@ -0,0 +1,61 @@
+import { UseFilters, UseGuards, UsePipes } from '@nestjs/common';
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+
+import graphqlTypeJson from 'graphql-type-json';
+import { PermissionFlagType } from 'twenty-shared/constants';
+
+import { UUIDScalarType } from 'src/engine/api/graphql/workspace-schema-builder/graphql-types/scalars';
+import { PreventNestToAutoLogGraphqlErrorsFilter } from 'src/engine/core-modules/graphql/filters/prevent-nest-to-auto-log-graphql-errors.filter';
+import { ResolverValidationPipe } from 'src/engine/core-modules/graphql/pipes/resolver-validation.pipe';
+import { ImportWorkflowInput } from 'src/engine/core-modules/workflow/dtos/import-workflow-input.dto';
+import { ImportWorkflowOutput } from 'src/engine/core-modules/workflow/dtos/import-workflow-output.dto';
+import { WorkflowBundleGraphqlApiExceptionFilter } from 'src/engine/core-modules/workflow/filters/workflow-bundle-graphql-api-exception.filter';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+import { AuthWorkspace } from 'src/engine/decorators/auth/auth-workspace.decorator';
+import { SettingsPermissionGuard } from 'src/engine/guards/settings-permission.guard';
+import { UserAuthGuard } from 'src/engine/guards/user-auth.guard';
+import { WorkspaceAuthGuard } from 'src/engine/guards/workspace-auth.guard';
+import { PermissionsGraphqlApiExceptionFilter } from 'src/engine/metadata-modules/permissions/utils/permissions-graphql-api-exception.filter';
+import { type WorkflowBundle } from 'src/modules/workflow/workflow-builder/workflow-bundle/types/workflow-bundle.type';
+import { WorkflowBundleWorkspaceService } from 'src/modules/workflow/workflow-builder/workflow-bundle/workflow-bundle.workspace-service';
+
+@Resolver()
+@UsePipes(ResolverValidationPipe)
+@UseGuards(
+  WorkspaceAuthGuard,
+  UserAuthGuard,
+  SettingsPermissionGuard(PermissionFlagType.WORKFLOWS),
+)
+@UseFilters(
+  PermissionsGraphqlApiExceptionFilter,
+  WorkflowBundleGraphqlApiExceptionFilter,
+  PreventNestToAutoLogGraphqlErrorsFilter,
+)
+export class WorkflowBundleResolver {
+  constructor(
+    private readonly workflowBundleWorkspaceService: WorkflowBundleWorkspaceService,
+  ) {}
+
+  @Query(() => graphqlTypeJson)
+  async exportWorkflow(
+    @AuthWorkspace() { id: workspaceId }: WorkspaceEntity,
+    @Args('workflowId', { type: () => UUIDScalarType }) workflowId: string,
+  ): Promise<WorkflowBundle> {
+    return this.workflowBundleWorkspaceService.exportWorkflow({
+      workspaceId,
+      workflowId,
+    });
+  }
+
+  @Mutation(() => ImportWorkflowOutput)
+  async importWorkflow(
+    @AuthWorkspace() { id: workspaceId }: WorkspaceEntity,
+    @Args('input') { bundle, activate }: ImportWorkflowInput,
+  ): Promise<ImportWorkflowOutput> {
+    return this.workflowBundleWorkspaceService.importWorkflow({
+      workspaceId,
+      bundle,
+      activate,
+    });
+  }
+}
@@ -70,7 +70,13 @@ export class WorkflowTriggerResolver {
     @AuthUser() user: UserEntity,
     @AuthWorkspace() workspace: WorkspaceEntity,
     @Args('input')
-    { workflowVersionId, workflowRunId, payload }: RunWorkflowVersionInput,
+    {
+      workflowVersionId,
+      workflowRunId,
+      payload,
+      isTestRun,
+      testRunFixtures,
+    }: RunWorkflowVersionInput,
   ) {
     const workspaceMemberRepository =
       await this.twentyORMGlobalManager.getRepositoryForWorkspace<WorkspaceMemberWorkspaceEntity>(
@@ -89,6 +95,8 @@ export class WorkflowTriggerResolver {
       workflowVersionId,
       workflowRunId: workflowRunId ?? undefined,
       payload: payload ?? {},
+      isTestRun: isTestRun ?? false,
+      testRunFixtures: testRunFixtures ?? undefined,
       createdBy: buildCreatedByFromFullNameMetadata({
         fullNameMetadata: {
           firstName: workspaceMember.name.firstName,
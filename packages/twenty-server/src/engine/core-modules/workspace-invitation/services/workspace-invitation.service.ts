@@ -34,6 +34,7 @@ import {
   WorkspaceInvitationException,
   WorkspaceInvitationExceptionCode,
 } from 'src/engine/core-modules/workspace-invitation/workspace-invitation.exception';
+import { WorkspaceQuotaService } from 'src/engine/core-modules/workspace-quota/services/workspace-quota.service';
 import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { WorkspaceMemberWorkspaceEntity } from 'src/modules/workspace-member/standard-objects/workspace-member.workspace-entity';
 
@@ -51,6 +52,7 @@ export class WorkspaceInvitationService {
     private readonly i18nService: I18nService,
     private readonly fileService: FileService,
     private readonly throttlerService: ThrottlerService,
+    private readonly workspaceQuotaService: WorkspaceQuotaService,
   ) {}
 
   async validatePersonalInvitation({
@@ -256,6 +258,21 @@ export class WorkspaceInvitationService {
 
     await this.throttleInvitationSending(workspace.id, emails);
 
+    const pendingInvitationEmails =
+      await this.workspaceQuotaService.getPendingInvitationEmails(workspace.id);
+
+    // An email that already has a pending invitation holds its seat already
+    const newlyInvitedEmails = new Set(
+      emails
+        .map((email) => email.toLowerCase())
+        .filter((email) => !pendingInvitationEmails.includes(email)),
+    );
+
+    await this.workspaceQuotaService.assertSeatsAvailableOrThrow(workspace, {
+      additionalSeats: newlyInvitedEmails.size,
+      includePendingInvitations: true,
+    });
+
     const invitationsPr = await Promise.allSettled(
       emails.map(async (email) => {
         if (usePersonalInvitation) {
@@ -0,0 +1,25 @@
+import { Field, Float, Int, ObjectType } from '@nestjs/graphql';
+
+@ObjectType('WorkspaceUsage')
+export class WorkspaceUsageDTO {
+  @Field(() => Int)
+  seatsUsed: number;
+
+  @Field(() => Int)
+  pendingInvitations: number;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: 'Maximum number of members, null when unlimited',
+  })
+  seatsLimit: number | null;
+
+  @Field(() => Float)
+  storageUsedBytes: number;
+
+  @Field(() => Float, {
+    nullable: true,
+    description: 'Storage quota in bytes, null when unlimited',
+  })
+  storageQuotaBytes: number | null;
+}
@@ -0,0 +1,325 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { AppTokenEntity } from 'src/engine/core-modules/app-token/app-token.entity';
+import { CacheStorageNamespace } from 'src/engine/core-modules/cache-storage/types/cache-storage-namespace.enum';
+import { FileStorageService } from 'src/engine/core-modules/file-storage/file-storage.service';
+import { TenantLifecycleEventService } from 'src/engine/core-modules/tenant-lifecycle-event/services/tenant-lifecycle-event.service';
+import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
+import { WorkspaceQuotaService } from 'src/engine/core-modules/workspace-quota/services/workspace-quota.service';
+import {
+  WorkspaceQuotaException,
+  WorkspaceQuotaExceptionCode,
+} from 'src/engine/core-modules/workspace-quota/workspace-quota.exception';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+const ONE_MEGABYTE = 1024 * 1024;
+
+describe('WorkspaceQuotaService', () => {
+  let service: WorkspaceQuotaService;
+  let workspaceRepository: {
+    findOne: jest.Mock;
+    update: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let userWorkspaceRepository: { countBy: jest.Mock };
+  let appTokenRepository: { countBy: jest.Mock };
+  let fileStorageService: { getFolderSize: jest.Mock };
+  let tenantLifecycleEventService: { emit: jest.Mock };
+  let cacheStorage: { acquireLock: jest.Mock };
+
+  beforeEach(async () => {
+    workspaceRepository = {
+      findOne: jest.fn(),
+      update: jest.fn(),
+      createQueryBuilder: jest.fn(),
+    };
+    userWorkspaceRepository = { countBy: jest.fn() };
+    appTokenRepository = { countBy: jest.fn() };
+    fileStorageService = { getFolderSize: jest.fn() };
+    tenantLifecycleEventService = { emit: jest.fn() };
+    cacheStorage = { acquireLock: jest.fn().mockResolvedValue(true) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkspaceQuotaService,
+        {
+          provide: getRepositoryToken(WorkspaceEntity),
+          useValue: workspaceRepository,
+        },
+        {
+          provide: getRepositoryToken(UserWorkspaceEntity),
+          useValue: userWorkspaceRepository,
+        },
+        {
+          provide: getRepositoryToken(AppTokenEntity),
+          useValue: appTokenRepository,
+        },
+        {
+          provide: FileStorageService,
+          useValue: fileStorageService,
+        },
+        {
+          provide: TenantLifecycleEventService,
+          useValue: tenantLifecycleEventService,
+        },
+        {
+          provide: CacheStorageNamespace.EngineWorkspace,
+          useValue: cacheStorage,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WorkspaceQuotaService>(WorkspaceQuotaService);
+  });
+
+  describe('assertSeatsAvailableOrThrow', () => {
+    it('should not count seats when maxUsers is unlimited', async () => {
+      await service.assertSeatsAvailableOrThrow({
+        id: 'workspace-id',
+        maxUsers: -1,
+        storageQuotaMb: -1,
+      });
+
+      expect(userWorkspaceRepository.countBy).not.toHaveBeenCalled();
+    });
+
+    it('should allow a new member while under the seat limit', async () => {
+      userWorkspaceRepository.countBy.mockResolvedValue(2);
+
+      await expect(
+        service.assertSeatsAvailableOrThrow({
+          id: 'workspace-id',
+          maxUsers: 3,
+          storageQuotaMb: -1,
+        }),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should throw when the seat limit is reached', async () => {
+      userWorkspaceRepository.countBy.mockResolvedValue(3);
+
+      await expect(
+        service.assertSeatsAvailableOrThrow({
+          id: 'workspace-id',
+          maxUsers: 3,
+          storageQuotaMb: -1,
+        }),
+      ).rejects.toMatchObject({
+        code: WorkspaceQuotaExceptionCode.SEAT_LIMIT_REACHED,
+      });
+    });
+
+    it('should emit the quota exceeded event once per period', async () => {
+      userWorkspaceRepository.countBy.mockResolvedValue(3);
+      cacheStorage.acquireLock
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        await expect(
+          service.assertSeatsAvailableOrThrow({
+            id: 'workspace-id',
+            maxUsers: 3,
+            storageQuotaMb: -1,
+          }),
+        ).rejects.toThrow(WorkspaceQuotaException);
+      }
+
+      expect(cacheStorage.acquireLock).toHaveBeenCalledWith(
+        'quota-exceeded:workspace-id:seats',
+        expect.any(Number),
+      );
+      expect(tenantLifecycleEventService.emit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should count pending invitations when requested', async () => {
+      userWorkspaceRepository.countBy.mockResolvedValue(1);
+      appTokenRepository.countBy.mockResolvedValue(1);
+
+      await expect(
+        service.assertSeatsAvailableOrThrow(
+          { id: 'workspace-id', maxUsers: 3, storageQuotaMb: -1 },
+          { additionalSeats: 2, includePendingInvitations: true },
+        ),
+      ).rejects.toThrow(WorkspaceQuotaException);
+    });
+
+    it('should load limits from the database when given a workspace id', async () => {
+      workspaceRepository.findOne.mockResolvedValue({
+        id: 'workspace-id',
+        maxUsers: 1,
+        storageQuotaMb: -1,
+      });
+      userWorkspaceRepository.countBy.mockResolvedValue(1);
+
+      await expect(
+        service.assertSeatsAvailableOrThrow('workspace-id'),
+      ).rejects.toMatchObject({
+        code: WorkspaceQuotaExceptionCode.SEAT_LIMIT_REACHED,
+      });
+    });
+
+    it('should throw when the workspace does not exist', async () => {
+      workspaceRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.assertSeatsAvailableOrThrow('workspace-id'),
+      ).rejects.toMatchObject({
+        code: WorkspaceQuotaExceptionCode.WORKSPACE_NOT_FOUND,
+      });
+    });
+  });
+
+  describe('assertStorageAvailableOrThrow', () => {
+    it('should not measure storage when the quota is unlimited', async () => {
+      await service.assertStorageAvailableOrThrow(
+        { id: 'workspace-id', maxUsers: -1, storageQuotaMb: -1 },
+        10 * ONE_MEGABYTE,
+      );
+
+      expect(fileStorageService.getFolderSize).not.toHaveBeenCalled();
+    });
+
+    it('should allow an upload that fits in the quota', async () => {
+      fileStorageService.getFolderSize.mockResolvedValue(ONE_MEGABYTE);
+
+      await expect(
+        service.assertStorageAvailableOrThrow(
+          { id: 'workspace-id', maxUsers: -1, storageQuotaMb: 2 },
+          ONE_MEGABYTE,
+        ),
+      ).resolves.toBeUndefined();
+      expect(fileStorageService.getFolderSize).toHaveBeenCalledWith(
+        'workspace-workspace-id',
+      );
+      expect(workspaceRepository.update).toHaveBeenCalledWith(
+        { id: 'workspace-id' },
+        { storageUsedBytes: ONE_MEGABYTE },
+      );
+    });
+
+    it('should use the maintained counter once measured', async () => {
+      workspaceRepository.findOne.mockResolvedValue({
+        id: 'workspace-id',
+        storageUsedBytes: String(2 * ONE_MEGABYTE),
+      });
+
+      await expect(
+        service.assertStorageAvailableOrThrow(
+          { id: 'workspace-id', maxUsers: -1, storageQuotaMb: 2 },
+          1,
+        ),
+      ).rejects.toMatchObject({
+        code: WorkspaceQuotaExceptionCode.STORAGE_QUOTA_EXCEEDED,
+      });
+      expect(fileStorageService.getFolderSize).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the upload exceeds the quota', async () => {
+      fileStorageService.getFolderSize.mockResolvedValue(ONE_MEGABYTE);
+
+      await expect(
+        service.assertStorageAvailableOrThrow(
+          { id: 'workspace-id', maxUsers: -1, storageQuotaMb: 2 },
+          ONE_MEGABYTE + 1,
+        ),
+      ).rejects.toMatchObject({
+        code: WorkspaceQuotaExceptionCode.STORAGE_QUOTA_EXCEEDED,
+      });
+    });
+  });
+
+  describe('recordStorageUsage', () => {
+    it('should increment the counter of the workspace', async () => {
+      const queryBuilder = {
+        update: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        setParameter: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        execute: jest.fn().mockResolvedValue({ affected: 1 }),
+      };
+
+      workspaceRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      await service.recordStorageUsage('workspace-id', 1024);
+
+      expect(queryBuilder.set).toHaveBeenCalledWith(
+        expect.objectContaining({ storageUsedBytes: expect.any(Function) }),
+      );
+      expect(queryBuilder.execute).toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseStorageUsage', () => {
+    it('should decrement the counter of the workspace without going below zero', async () => {
+      const queryBuilder = {
+        update: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        setParameter: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        execute: jest.fn().mockResolvedValue({ affected: 1 }),
+      };
+
+      workspaceRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      await service.releaseStorageUsage('workspace-id', 1024);
+
+      const { storageUsedBytes } = queryBuilder.set.mock.calls[0][0];
+
+      expect(storageUsedBytes()).toBe(
+        'GREATEST("storageUsedBytes" - :releasedBytes, 0)',
+      );
+      expect(queryBuilder.setParameter).toHaveBeenCalledWith(
+        'releasedBytes',
+        1024,
+      );
+      expect(queryBuilder.execute).toHaveBeenCalled();
+    });
+
+    it('should not update the counter when no bytes were released', async () => {
+      await service.releaseStorageUsage('workspace-id', 0);
+
+      expect(workspaceRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getWorkspaceUsage', () => {
+    it('should report usage with null limits when unlimited', async () => {
+      userWorkspaceRepository.countBy.mockResolvedValue(4);
+      appTokenRepository.countBy.mockResolvedValue(1);
+      fileStorageService.getFolderSize.mockResolvedValue(2048);
+
+      const usage = await service.getWorkspaceUsage({
+        id: 'workspace-id',
+        maxUsers: -1,
+        storageQuotaMb: -1,
+      });
+
+      expect(usage).toEqual({
+        seatsUsed: 4,
+        pendingInvitations: 1,
+        seatsLimit: null,
+        storageUsedBytes: 2048,
+        storageQuotaBytes: null,
+      });
+    });
+
+    it('should convert the storage quota to bytes', async () => {
+      userWorkspaceRepository.countBy.mockResolvedValue(1);
+      appTokenRepository.countBy.mockResolvedValue(0);
+      fileStorageService.getFolderSize.mockResolvedValue(0);
+
+      const usage = await service.getWorkspaceUsage({
+        id: 'workspace-id',
+        maxUsers: 5,
+        storageQuotaMb: 100,
+      });
+
+      expect(usage.seatsLimit).toBe(5);
+      expect(usage.storageQuotaBytes).toBe(100 * ONE_MEGABYTE);
+    });
+  });
+});
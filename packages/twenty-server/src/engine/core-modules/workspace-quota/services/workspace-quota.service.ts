@@ -0,0 +1,310 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { msg } from '@lingui/core/macro';
+import { isDefined } from 'twenty-shared/utils';
+import { type FindOptionsWhere, IsNull, MoreThan, Repository } from 'typeorm';
+
+import {
+  AppTokenEntity,
+  AppTokenType,
+} from 'src/engine/core-modules/app-token/app-token.entity';
+import { InjectCacheStorage } from 'src/engine/core-modules/cache-storage/decorators/cache-storage.decorator';
+import { CacheStorageService } from 'src/engine/core-modules/cache-storage/services/cache-storage.service';
+import { CacheStorageNamespace } from 'src/engine/core-modules/cache-storage/types/cache-storage-namespace.enum';
+import { FileStorageService } from 'src/engine/core-modules/file-storage/file-storage.service';
+import { TenantLifecycleEventType } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-type.enum';
+import { TenantLifecycleEventService } from 'src/engine/core-modules/tenant-lifecycle-event/services/tenant-lifecycle-event.service';
+import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
+import { type WorkspaceUsageDTO } from 'src/engine/core-modules/workspace-quota/dtos/workspace-usage.dto';
+import {
+  WorkspaceQuotaException,
+  WorkspaceQuotaExceptionCode,
+} from 'src/engine/core-modules/workspace-quota/workspace-quota.exception';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+const UNLIMITED = -1;
+
+const BYTES_PER_MEGABYTE = 1024 * 1024;
+
+// A tenant hitting a quota is notified at most once a day per quota
+const QUOTA_EXCEEDED_EVENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+type QuotaExceededEventData = {
+  quota: 'seats' | 'storage';
+  limit: number;
+  used: number;
+  requested: number;
+};
+
+type WorkspaceQuotaLimits = Pick<
+  WorkspaceEntity,
+  'id' | 'maxUsers' | 'storageQuotaMb'
+>;
+
+@Injectable()
+export class WorkspaceQuotaService {
+  constructor(
+    @InjectRepository(WorkspaceEntity)
+    private readonly workspaceRepository: Repository<WorkspaceEntity>,
+    @InjectRepository(UserWorkspaceEntity)
+    private readonly userWorkspaceRepository: Repository<UserWorkspaceEntity>,
+    @InjectRepository(AppTokenEntity)
+    private readonly appTokenRepository: Repository<AppTokenEntity>,
+    private readonly fileStorageService: FileStorageService,
+    private readonly tenantLifecycleEventService: TenantLifecycleEventService,
+    @InjectCacheStorage(CacheStorageNamespace.EngineWorkspace)
+    private readonly cacheStorage: CacheStorageService,
+  ) {}
+
+  async getSeatsUsed(workspaceId: string): Promise<number> {
+    return this.userWorkspaceRepository.countBy({ workspaceId });
+  }
+
+  async getPendingInvitationsCount(workspaceId: string): Promise<number> {
+    return this.appTokenRepository.countBy(
+      this.getPendingInvitationsWhere(workspaceId),
+    );
+  }
+
+  async getPendingInvitationEmails(workspaceId: string): Promise<string[]> {
+    const invitations = await this.appTokenRepository.find({
+      where: this.getPendingInvitationsWhere(workspaceId),
+    });
+
+    return invitations
+      .map((invitation) => invitation.context?.email?.toLowerCase())
+      .filter(isDefined);
+  }
+
+  /**
+   * Reads the storage usage counter of the workspace. The counter is measured
+   * from the file storage the first time, then maintained on each upload and
+   * deletion and re-measured by the usage collection cron.
+   */
+  async getStorageUsedBytes(workspaceId: string): Promise<number> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      select: { id: true, storageUsedBytes: true },
+    });
+
+    if (isDefined(workspace?.storageUsedBytes)) {
+      return Number(workspace.storageUsedBytes);
+    }
+
+    return this.refreshStorageUsedBytes(workspaceId);
+  }
+
+  async refreshStorageUsedBytes(workspaceId: string): Promise<number> {
+    const storageUsedBytes = await this.fileStorageService.getFolderSize(
+      `workspace-${workspaceId}`,
+    );
+
+    await this.workspaceRepository.update(
+      { id: workspaceId },
+      { storageUsedBytes },
+    );
+
+    return storageUsedBytes;
+  }
+
+  async recordStorageUsage(
+    workspaceId: string,
+    additionalBytes: number,
+  ): Promise<void> {
+    // A counter that was never measured will include the file once measured
+    await this.workspaceRepository
+      .createQueryBuilder()
+      .update(WorkspaceEntity)
+      .set({
+        storageUsedBytes: () => `"storageUsedBytes" + :additionalBytes`,
+      })
+      .setParameter('additionalBytes', additionalBytes)
+      .where('id = :workspaceId', { workspaceId })
+      .andWhere('"storageUsedBytes" IS NOT NULL')
+      .execute();
+  }
+
+  async releaseStorageUsage(
+    workspaceId: string,
+    releasedBytes: number,
+  ): Promise<void> {
+    if (releasedBytes <= 0) {
+      return;
+    }
+
+    await this.workspaceRepository
+      .createQueryBuilder()
+      .update(WorkspaceEntity)
+      .set({
+        storageUsedBytes: () =>
+          `GREATEST("storageUsedBytes" - :releasedBytes, 0)`,
+      })
+      .setParameter('releasedBytes', releasedBytes)
+      .where('id = :workspaceId', { workspaceId })
+      .andWhere('"storageUsedBytes" IS NOT NULL')
+      .execute();
+  }
+
+  /**
+   * Throws when adding `additionalSeats` members would exceed the workspace
+   * maxUsers. Pending invitations are only counted when sending new ones, so
+   * accepting an invitation never double-counts the invited seat.
+   */
+  async assertSeatsAvailableOrThrow(
+    workspaceOrId: WorkspaceQuotaLimits | string,
+    {
+      additionalSeats = 1,
+      includePendingInvitations = false,
+    }: { additionalSeats?: number; includePendingInvitations?: boolean } = {},
+  ): Promise<void> {
+    const workspace = await this.getQuotaLimits(workspaceOrId);
+
+    if (workspace.maxUsers === UNLIMITED || additionalSeats <= 0) {
+      return;
+    }
+
+    const seatsUsed = await this.getSeatsUsed(workspace.id);
+    const pendingInvitations = includePendingInvitations
+      ? await this.getPendingInvitationsCount(workspace.id)
+      : 0;
+
+    if (seatsUsed + pendingInvitations + additionalSeats > workspace.maxUsers) {
+      const maxUsers = workspace.maxUsers;
+
+      await this.emitQuotaExceeded(workspace.id, {
+        quota: 'seats',
+        limit: maxUsers,
+        used: seatsUsed + pendingInvitations,
+        requested: additionalSeats,
+      });
+
+      throw new WorkspaceQuotaException(
+        `Workspace has reached its limit of ${maxUsers} members`,
+        WorkspaceQuotaExceptionCode.SEAT_LIMIT_REACHED,
+        {
+          userFriendlyMessage: msg`This workspace is limited to ${maxUsers} members. Remove a member or upgrade your plan to add more.`,
+        },
+      );
+    }
+  }
+
+  async assertStorageAvailableOrThrow(
+    workspaceOrId: WorkspaceQuotaLimits | string,
+    additionalBytes: number,
+  ): Promise<void> {
+    const workspace = await this.getQuotaLimits(workspaceOrId);
+
+    if (workspace.storageQuotaMb === UNLIMITED) {
+      return;
+    }
+
+    const storageUsedBytes = await this.getStorageUsedBytes(workspace.id);
+    const storageQuotaBytes = workspace.storageQuotaMb * BYTES_PER_MEGABYTE;
+
+    if (storageUsedBytes + additionalBytes > storageQuotaBytes) {
+      const storageQuotaMb = workspace.storageQuotaMb;
+
+      await this.emitQuotaExceeded(workspace.id, {
+        quota: 'storage',
+        limit: storageQuotaBytes,
+        used: storageUsedBytes,
+        requested: additionalBytes,
+      });
+
+      throw new WorkspaceQuotaException(
+        `Workspace has reached its storage quota of ${storageQuotaMb} MB`,
+        WorkspaceQuotaExceptionCode.STORAGE_QUOTA_EXCEEDED,
+        {
+          userFriendlyMessage: msg`This workspace has reached its ${storageQuotaMb} MB storage quota. Delete files or upgrade your plan to upload more.`,
+        },
+      );
+    }
+  }
+
+  async getWorkspaceUsage(
+    workspaceOrId: WorkspaceQuotaLimits | string,
+  ): Promise<WorkspaceUsageDTO> {
+    const workspace = await this.getQuotaLimits(workspaceOrId);
+
+    const [seatsUsed, pendingInvitations, storageUsedBytes] = await Promise.all(
+      [
+        this.getSeatsUsed(workspace.id),
+        this.getPendingInvitationsCount(workspace.id),
+        this.getStorageUsedBytes(workspace.id),
+      ],
+    );
+
+    return {
+      seatsUsed,
+      pendingInvitations,
+      seatsLimit: workspace.maxUsers === UNLIMITED ? null : workspace.maxUsers,
+      storageUsedBytes,
+      storageQuotaBytes:
+        workspace.storageQuotaMb === UNLIMITED
+          ? null
+          : workspace.storageQuotaMb * BYTES_PER_MEGABYTE,
+    };
+  }
+
+  private async emitQuotaExceeded(
+    workspaceId: string,
+    data: QuotaExceededEventData,
+  ): Promise<void> {
+    const isFirstRejection = await this.cacheStorage.acquireLock(
+      `quota-exceeded:${workspaceId}:${data.quota}`,
+      QUOTA_EXCEEDED_EVENT_TTL_MS,
+    );
+
+    if (!isFirstRejection) {
+      return;
+    }
+
+    await this.tenantLifecycleEventService.emit(
+      TenantLifecycleEventType.QUOTA_EXCEEDED,
+      workspaceId,
+      data,
+    );
+  }
+
+  private getPendingInvitationsWhere(
+    workspaceId: string,
+  ): FindOptionsWhere<AppTokenEntity> {
+    return {
+      workspaceId,
+      type: AppTokenType.InvitationToken,
+      deletedAt: IsNull(),
+      revokedAt: IsNull(),
+      expiresAt: MoreThan(new Date()),
+    };
+  }
+
+  private async getQuotaLimits(
+    workspaceOrId: WorkspaceQuotaLimits | string,
+  ): Promise<WorkspaceQuotaLimits> {
+    if (
+      typeof workspaceOrId !== 'string' &&
+      isDefined(workspaceOrId.maxUsers) &&
+      isDefined(workspaceOrId.storageQuotaMb)
+    ) {
+      return workspaceOrId;
+    }
+
+    const workspaceId =
+      typeof workspaceOrId === 'string' ? workspaceOrId : workspaceOrId.id;
+
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      select: { id: true, maxUsers: true, storageQuotaMb: true },
+    });
+
+    if (!isDefined(workspace)) {
+      throw new WorkspaceQuotaException(
+        `Workspace ${workspaceId} not found`,
+        WorkspaceQuotaExceptionCode.WORKSPACE_NOT_FOUND,
+      );
+    }
+
+    return workspace;
+  }
+}
@@ -0,0 +1,37 @@
+import { msg } from '@lingui/core/macro';
+import { assertUnreachable } from 'twenty-shared/utils';
+
+import {
+  ForbiddenError,
+  NotFoundError,
+} from 'src/engine/core-modules/graphql/utils/graphql-errors.util';
+import {
+  type WorkspaceQuotaException,
+  WorkspaceQuotaExceptionCode,
+} from 'src/engine/core-modules/workspace-quota/workspace-quota.exception';
+
+export const workspaceQuotaGraphqlApiExceptionHandler = (
+  error: WorkspaceQuotaException,
+) => {
+  switch (error.code) {
+    case WorkspaceQuotaExceptionCode.SEAT_LIMIT_REACHED:
+      throw new ForbiddenError(error.message, {
+        userFriendlyMessage:
+          error.userFriendlyMessage ??
+          msg`This workspace has reached its maximum number of members.`,
+        subCode: error.code,
+      });
+    case WorkspaceQuotaExceptionCode.STORAGE_QUOTA_EXCEEDED:
+      throw new ForbiddenError(error.message, {
+        userFriendlyMessage:
+          error.userFriendlyMessage ??
+          msg`This workspace has reached its storage quota.`,
+        subCode: error.code,
+      });
+    case WorkspaceQuotaExceptionCode.WORKSPACE_NOT_FOUND:
+      throw new NotFoundError(error);
+    default: {
+      return assertUnreachable(error.code);
+    }
+  }
+};
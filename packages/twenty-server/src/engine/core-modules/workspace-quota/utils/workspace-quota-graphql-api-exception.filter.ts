@@ -0,0 +1,13 @@
+import { Catch, type ExceptionFilter } from '@nestjs/common';
+
+import { WorkspaceQuotaException } from 'src/engine/core-modules/workspace-quota/workspace-quota.exception';
+import { workspaceQuotaGraphqlApiExceptionHandler } from 'src/engine/core-modules/workspace-quota/utils/workspace-quota-graphql-api-exception-handler.util';
+
+@Catch(WorkspaceQuotaException)
+export class WorkspaceQuotaGraphqlApiExceptionFilter
+  implements ExceptionFilter
+{
+  catch(exception: WorkspaceQuotaException) {
+    return workspaceQuotaGraphqlApiExceptionHandler(exception);
+  }
+}
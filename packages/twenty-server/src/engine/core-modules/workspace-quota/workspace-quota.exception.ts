@@ -0,0 +1,9 @@
+import { CustomException } from 'src/utils/custom-exception';
+
+export class WorkspaceQuotaException extends CustomException<WorkspaceQuotaExceptionCode> {}
+
+export enum WorkspaceQuotaExceptionCode {
+  WORKSPACE_NOT_FOUND = 'WORKSPACE_NOT_FOUND',
+  SEAT_LIMIT_REACHED = 'SEAT_LIMIT_REACHED',
+  STORAGE_QUOTA_EXCEEDED = 'STORAGE_QUOTA_EXCEEDED',
+}
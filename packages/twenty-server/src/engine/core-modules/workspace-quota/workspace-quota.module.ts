@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { AppTokenEntity } from 'src/engine/core-modules/app-token/app-token.entity';
+import { TenantLifecycleEventModule } from 'src/engine/core-modules/tenant-lifecycle-event/tenant-lifecycle-event.module';
+import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
+import { WorkspaceQuotaService } from 'src/engine/core-modules/workspace-quota/services/workspace-quota.service';
+import { WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      WorkspaceEntity,
+      UserWorkspaceEntity,
+      AppTokenEntity,
+    ]),
+    TenantLifecycleEventModule,
+  ],
+  exports: [WorkspaceQuotaService],
+  providers: [WorkspaceQuotaService],
+})
+export class WorkspaceQuotaModule {}
@@ -29,6 +29,7 @@ export class CheckCustomDomainValidRecordsCronJob {
     const workspaces = await this.workspaceRepository.find({
       where: {
         activationStatus: WorkspaceActivationStatus.ACTIVE,
+        isDisabled: false,
         customDomain: Not(IsNull()),
         createdAt: Raw(
           (alias) => `EXTRACT(HOUR FROM ${alias}) = EXTRACT(HOUR FROM NOW())`,
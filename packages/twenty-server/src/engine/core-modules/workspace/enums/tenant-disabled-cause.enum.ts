@@ -0,0 +1,11 @@
+/**
+ * Why a tenant was disabled, so that automated flows only undo what they did
+ * themselves (e.g. a renewed subscription does not re-enable a tenant an
+ * operator disabled).
+ */
+export enum TenantDisabledCause {
+  OPERATOR = 'OPERATOR', // SaaS admin, tenant admin or tenant.disabled webhook
+  SUBSCRIPTION_CANCELLED = 'SUBSCRIPTION_CANCELLED',
+  TENANT_DIRECTORY = 'TENANT_DIRECTORY',
+  PENDING_DELETION = 'PENDING_DELETION',
+}
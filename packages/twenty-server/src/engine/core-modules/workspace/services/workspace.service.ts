@@ -24,6 +24,8 @@ import {
 import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
 import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
 import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import { TenantLifecycleEventType } from 'src/engine/core-modules/tenant-lifecycle-event/enums/tenant-lifecycle-event-type.enum';
+import { TenantLifecycleEventService } from 'src/engine/core-modules/tenant-lifecycle-event/services/tenant-lifecycle-event.service';
 import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
 import { UserWorkspaceEntity } from 'src/engine/core-modules/user-workspace/user-workspace.entity';
 import { UserWorkspaceService } from 'src/engine/core-modules/user-workspace/user-workspace.service';
@@ -96,6 +98,7 @@ export class WorkspaceService extends TypeOrmQueryService<WorkspaceEntity> {
     private readonly customDomainManagerService: CustomDomainManagerService,
     @InjectMessageQueue(MessageQueue.deleteCascadeQueue)
     private readonly messageQueueService: MessageQueueService,
+    private readonly tenantLifecycleEventService: TenantLifecycleEventService,
   ) {
     super(workspaceRepository);
   }
@@ -260,6 +263,16 @@ export class WorkspaceService extends TypeOrmQueryService<WorkspaceEntity> {
       version: extractVersionMajorMinorPatch(appVersion),
     });
 
+    await this.tenantLifecycleEventService.emit(
+      TenantLifecycleEventType.TENANT_CREATED,
+      workspace.id,
+      {
+        subdomain: workspace.subdomain,
+        displayName: data.displayName,
+        adminEmail: user.email,
+      },
+    );
+
     return await this.workspaceRepository.findOneBy({
       id: workspace.id,
     });
@@ -342,6 +355,11 @@ export class WorkspaceService extends TypeOrmQueryService<WorkspaceEntity> {
 
     this.logger.log(`workspace ${id} hard deleted`);
 
+    await this.tenantLifecycleEventService.emit(
+      TenantLifecycleEventType.TENANT_DELETED,
+      id,
+    );
+
     return workspace;
   }
 
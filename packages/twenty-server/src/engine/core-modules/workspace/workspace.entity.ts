@@ -1,9 +1,8 @@
-import { Field, ObjectType, registerEnumType } from '@nestjs/graphql';
+import { Field, Int, ObjectType, registerEnumType } from '@nestjs/graphql';
 
 import { IDField } from '@ptc-org/nestjs-query-graphql';
 import { Application } from 'cloudflare/resources/zero-trust/access/applications/applications';
 import { WorkspaceActivationStatus } from 'twenty-shared/workspace';
-
 import {
   Check,
   Column,
@@ -52,7 +51,9 @@ import { ViewSortDTO } from 'src/engine/metadata-modules/view-sort/dtos/view-sor
 import { ViewSortEntity } from 'src/engine/metadata-modules/view-sort/entities/view-sort.entity';
 import { ViewDTO } from 'src/engine/metadata-modules/view/dtos/view.dto';
 import { ViewEntity } from 'src/engine/metadata-modules/view/entities/view.entity';
+
 import { SubscriptionTier } from './enums/subscription-tier.enum';
+import { TenantDisabledCause } from './enums/tenant-disabled-cause.enum';
 
 registerEnumType(WorkspaceActivationStatus, {
   name: 'WorkspaceActivationStatus',
@@ -63,6 +64,11 @@ registerEnumType(SubscriptionTier, {
   description: 'Subscription tier for the workspace',
 });
 
+registerEnumType(TenantDisabledCause, {
+  name: 'TenantDisabledCause',
+  description: 'Why the workspace was disabled',
+});
+
 @Check(
   'onboarded_workspace_requires_default_role',
   `"activationStatus" IN ('PENDING_CREATION', 'ONGOING_CREATION') OR "defaultRoleId" IS NOT NULL`,
@@ -337,6 +343,15 @@ export class WorkspaceEntity {
   @Column({ type: 'varchar', length: 500, nullable: true })
   disabledReason?: string;
 
+  @Field(() => TenantDisabledCause, { nullable: true })
+  @Column({
+    type: 'enum',
+    enumName: 'workspace_disabledcause_enum',
+    enum: TenantDisabledCause,
+    nullable: true,
+  })
+  disabledCause?: TenantDisabledCause | null;
+
   @Field(() => SubscriptionTier)
   @Column({
     type: 'enum',
@@ -346,17 +361,38 @@ export class WorkspaceEntity {
   })
   subscriptionTier: SubscriptionTier;
 
-  // No user limits - everyone gets full access
+  // Enforced on invitations and workspace joins by WorkspaceQuotaService
   @Field(() => Int)
   @Column({ default: -1 }) // -1 = unlimited
   maxUsers: number;
 
-  // No storage limits - everyone gets full access
+  // Enforced on file uploads by WorkspaceQuotaService
   @Field(() => Int)
   @Column({ default: -1 }) // -1 = unlimited
   storageQuotaMb: number;
 
+  // Maintained by WorkspaceQuotaService, null until first measured
+  @Column({ type: 'bigint', nullable: true })
+  storageUsedBytes: number | null;
+
+  // Key of the TenantPlanService plan last assigned to the tenant
+  @Field(() => String, { nullable: true })
+  @Column({ type: 'varchar', nullable: true })
+  planKey?: string | null;
+
   @Field({ nullable: true })
   @Column({ type: 'text', nullable: true })
   adminNotes?: string;
+
+  // Set when a SaaS admin deletes the tenant; purged after purgeScheduledAt
+  @Field(() => Date, { nullable: true })
+  @Column({ type: 'timestamptz', nullable: true })
+  pendingDeletionAt?: Date | null;
+
+  @Field(() => Date, { nullable: true })
+  @Column({ type: 'timestamptz', nullable: true })
+  purgeScheduledAt?: Date | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  deletionSnapshotPath?: string | null;
 }
@@ -43,6 +43,9 @@ import { PreventNestToAutoLogGraphqlErrorsFilter } from 'src/engine/core-modules
 import { ResolverValidationPipe } from 'src/engine/core-modules/graphql/pipes/resolver-validation.pipe';
 import { TwentyConfigService } from 'src/engine/core-modules/twenty-config/twenty-config.service';
 import { UserWorkspaceService } from 'src/engine/core-modules/user-workspace/user-workspace.service';
+import { WorkspaceUsageDTO } from 'src/engine/core-modules/workspace-quota/dtos/workspace-usage.dto';
+import { WorkspaceQuotaService } from 'src/engine/core-modules/workspace-quota/services/workspace-quota.service';
+import { WorkspaceQuotaGraphqlApiExceptionFilter } from 'src/engine/core-modules/workspace-quota/utils/workspace-quota-graphql-api-exception.filter';
 import { UserEntity } from 'src/engine/core-modules/user/user.entity';
 import { ActivateWorkspaceInput } from 'src/engine/core-modules/workspace/dtos/activate-workspace-input';
 import {
@@ -92,6 +95,7 @@ const OriginHeader = createParamDecorator(
 @UseFilters(
   PreventNestToAutoLogGraphqlErrorsFilter,
   PermissionsGraphqlApiExceptionFilter,
+  WorkspaceQuotaGraphqlApiExceptionFilter,
 )
 export class WorkspaceResolver {
   constructor(
@@ -108,6 +112,7 @@ export class WorkspaceResolver {
     private readonly dnsManagerService: DnsManagerService,
     private readonly customDomainManagerService: CustomDomainManagerService,
     private readonly applicationService: ApplicationService,
+    private readonly workspaceQuotaService: WorkspaceQuotaService,
   ) {}
 
   @Query(() => WorkspaceEntity)
@@ -304,6 +309,13 @@ export class WorkspaceResolver {
     return await this.userWorkspaceService.getUserCount(workspace.id);
   }
 
+  @ResolveField(() => WorkspaceUsageDTO)
+  async usage(
+    @Parent() workspace: WorkspaceEntity,
+  ): Promise<WorkspaceUsageDTO> {
+    return await this.workspaceQuotaService.getWorkspaceUsage(workspace);
+  }
+
   @ResolveField(() => String)
   async logo(@Parent() workspace: WorkspaceEntity): Promise<string> {
     if (workspace.logo) {
@@ -1,3 +1,5 @@
+import { msg } from '@lingui/core/macro';
+
 import {
   AuthException,
   AuthExceptionCode,
@@ -44,10 +46,26 @@ const isAuthEnabled = (
   return false;
 };
 
+const assertIsNotDisabledOrThrow = (
+  workspace: Pick<WorkspaceEntity, 'id' | 'isDisabled'>,
+) => {
+  if (workspace.isDisabled === true) {
+    throw new AuthException(
+      `Workspace ${workspace.id} is suspended`,
+      AuthExceptionCode.WORKSPACE_SUSPENDED,
+      {
+        userFriendlyMessage: msg`This workspace has been suspended. Please contact your administrator.`,
+      },
+    );
+  }
+};
+
 export const workspaceValidator: {
   isAuthEnabledOrThrow: typeof isAuthEnabledOrThrow;
   isAuthEnabled: typeof isAuthEnabled;
+  assertIsNotDisabledOrThrow: typeof assertIsNotDisabledOrThrow;
 } = {
   isAuthEnabledOrThrow: isAuthEnabledOrThrow,
   isAuthEnabled: isAuthEnabled,
+  assertIsNotDisabledOrThrow: assertIsNotDisabledOrThrow,
 };
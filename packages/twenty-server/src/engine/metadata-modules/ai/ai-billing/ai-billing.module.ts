@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 
+import { UsageCounterModule } from 'src/engine/core-modules/usage-metering/usage-counter.module';
 import { AIBillingService } from 'src/engine/metadata-modules/ai/ai-billing/services/ai-billing.service';
 import { AiModelsModule } from 'src/engine/metadata-modules/ai/ai-models/ai-models.module';
 import { WorkspaceEventEmitterModule } from 'src/engine/workspace-event-emitter/workspace-event-emitter.module';
 
 @Module({
-  imports: [WorkspaceEventEmitterModule, AiModelsModule],
+  imports: [WorkspaceEventEmitterModule, AiModelsModule, UsageCounterModule],
   providers: [AIBillingService],
   exports: [AIBillingService],
 })
@@ -2,6 +2,7 @@ import { Test, type TestingModule } from '@nestjs/testing';
 
 import { BILLING_FEATURE_USED } from 'src/engine/core-modules/billing/constants/billing-feature-used.constant';
 import { BillingMeterEventName } from 'src/engine/core-modules/billing/enums/billing-meter-event-names';
+import { UsageCounterService } from 'src/engine/core-modules/usage-metering/services/usage-counter.service';
 import { AIBillingService } from 'src/engine/metadata-modules/ai/ai-billing/services/ai-billing.service';
 import { AiModelRegistryService } from 'src/engine/metadata-modules/ai/ai-models/services/ai-model-registry.service';
 import { WorkspaceEventEmitter } from 'src/engine/workspace-event-emitter/workspace-event-emitter';
@@ -9,6 +10,7 @@ import { WorkspaceEventEmitter } from 'src/engine/workspace-event-emitter/worksp
 describe('AIBillingService', () => {
   let service: AIBillingService;
   let mockWorkspaceEventEmitter: jest.Mocked<WorkspaceEventEmitter>;
+  let mockUsageCounterService: { incrementAiTokenCount: jest.Mock };
 
   const mockTokenUsage = {
     inputTokens: 1000,
@@ -31,6 +33,10 @@ describe('AIBillingService', () => {
       }),
     };
 
+    mockUsageCounterService = {
+      incrementAiTokenCount: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AIBillingService,
@@ -42,6 +48,10 @@ describe('AIBillingService', () => {
           provide: AiModelRegistryService,
           useValue: mockAiModelRegistryMethods,
         },
+        {
+          provide: UsageCounterService,
+          useValue: mockUsageCounterService,
+        },
       ],
     }).compile();
 
@@ -106,5 +116,17 @@ describe('AIBillingService', () => {
         'workspace-1',
       );
     });
+
+    it('should meter the input and output tokens of the workspace', async () => {
+      await service.calculateAndBillUsage(
+        'gpt-4o',
+        mockTokenUsage,
+        'workspace-1',
+      );
+
+      expect(
+        mockUsageCounterService.incrementAiTokenCount,
+      ).toHaveBeenCalledWith('workspace-1', 1500);
+    });
   });
 });
@@ -5,6 +5,7 @@ import { LanguageModelUsage } from 'ai';
 import { BILLING_FEATURE_USED } from 'src/engine/core-modules/billing/constants/billing-feature-used.constant';
 import { BillingMeterEventName } from 'src/engine/core-modules/billing/enums/billing-meter-event-names';
 import { type BillingUsageEvent } from 'src/engine/core-modules/billing/types/billing-usage-event.type';
+import { UsageCounterService } from 'src/engine/core-modules/usage-metering/services/usage-counter.service';
 import { convertCentsToBillingCredits } from 'src/engine/metadata-modules/ai/ai-billing/utils/convert-cents-to-billing-credits.util';
 import { type ModelId } from 'src/engine/metadata-modules/ai/ai-models/constants/ai-models.const';
 import { AiModelRegistryService } from 'src/engine/metadata-modules/ai/ai-models/services/ai-model-registry.service';
@@ -17,6 +18,7 @@ export class AIBillingService {
   constructor(
     private readonly workspaceEventEmitter: WorkspaceEventEmitter,
     private readonly aiModelRegistryService: AiModelRegistryService,
+    private readonly usageCounterService: UsageCounterService,
   ) {}
 
   async calculateCost(
@@ -53,6 +55,11 @@ export class AIBillingService {
     const creditsUsed = Math.round(convertCentsToBillingCredits(costInCents));
 
     this.sendAiTokenUsageEvent(workspaceId, creditsUsed, modelId, agentId);
+
+    await this.usageCounterService.incrementAiTokenCount(
+      workspaceId,
+      (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0),
+    );
   }
 
   private sendAiTokenUsageEvent(
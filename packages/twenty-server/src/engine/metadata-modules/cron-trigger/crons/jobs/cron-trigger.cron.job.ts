@@ -37,6 +37,7 @@ export class CronTriggerCronJob {
     const activeWorkspaces = await this.workspaceRepository.find({
       where: {
         activationStatus: WorkspaceActivationStatus.ACTIVE,
+        isDisabled: false,
       },
       select: ['id'],
     });
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 
 import { TokenModule } from 'src/engine/core-modules/auth/token/token.module';
 import { JwtModule } from 'src/engine/core-modules/jwt/jwt.module';
+import { UsageCounterModule } from 'src/engine/core-modules/usage-metering/usage-counter.module';
 import { DataSourceModule } from 'src/engine/metadata-modules/data-source/data-source.module';
 import { WorkspaceManyOrAllFlatEntityMapsCacheModule } from 'src/engine/metadata-modules/flat-entity/services/workspace-many-or-all-flat-entity-maps-cache.module';
 import { MiddlewareService } from 'src/engine/middlewares/middleware.service';
@@ -14,6 +15,7 @@ import { WorkspaceCacheStorageModule } from 'src/engine/workspace-cache-storage/
     WorkspaceManyOrAllFlatEntityMapsCacheModule,
     TokenModule,
     JwtModule,
+    UsageCounterModule,
   ],
   providers: [MiddlewareService],
   exports: [MiddlewareService],
@@ -12,6 +12,7 @@ import { getAuthExceptionRestStatus } from 'src/engine/core-modules/auth/utils/g
 import { ExceptionHandlerService } from 'src/engine/core-modules/exception-handler/exception-handler.service';
 import { ErrorCode } from 'src/engine/core-modules/graphql/utils/graphql-errors.util';
 import { JwtWrapperService } from 'src/engine/core-modules/jwt/services/jwt-wrapper.service';
+import { UsageCounterService } from 'src/engine/core-modules/usage-metering/services/usage-counter.service';
 import { DataSourceService } from 'src/engine/metadata-modules/data-source/data-source.service';
 import { WorkspaceManyOrAllFlatEntityMapsCacheService } from 'src/engine/metadata-modules/flat-entity/services/workspace-many-or-all-flat-entity-maps-cache.service';
 import { INTERNAL_SERVER_ERROR } from 'src/engine/middlewares/constants/default-error-message.constant';
@@ -31,6 +32,7 @@ export class MiddlewareService {
     private readonly dataSourceService: DataSourceService,
     private readonly exceptionHandlerService: ExceptionHandlerService,
     private readonly jwtWrapperService: JwtWrapperService,
+    private readonly usageCounterService: UsageCounterService,
   ) {}
 
   public isTokenPresent(request: Request): boolean {
@@ -129,6 +131,10 @@ export class MiddlewareService {
     }
 
     this.bindDataToRequestObject(data, request, metadataVersion);
+
+    if (isDefined(data.workspace)) {
+      await this.usageCounterService.incrementApiCallCount(data.workspace.id);
+    }
   }
 
   public async hydrateGraphqlRequest(request: Request) {
@@ -148,6 +154,10 @@ export class MiddlewareService {
       : undefined;
 
     this.bindDataToRequestObject(data, request, metadataVersion);
+
+    if (isDefined(data.workspace)) {
+      await this.usageCounterService.incrementApiCallCount(data.workspace.id);
+    }
   }
 
   private hasErrorStatus(error: unknown): error is { status: number } {
@@ -4,6 +4,7 @@ import { Args, Resolver, Subscription } from '@nestjs/graphql';
 import { RedisPubSub } from 'graphql-redis-subscriptions';
 import { isDefined } from 'twenty-shared/utils';
 
+import { type WorkspaceEntity } from 'src/engine/core-modules/workspace/workspace.entity';
 import { PreventNestToAutoLogGraphqlErrorsFilter } from 'src/engine/core-modules/graphql/filters/prevent-nest-to-auto-log-graphql-errors.filter';
 import { ResolverValidationPipe } from 'src/engine/core-modules/graphql/pipes/resolver-validation.pipe';
 import { NoPermissionGuard } from 'src/engine/guards/no-permission.guard';
@@ -12,6 +13,7 @@ import { WorkspaceAuthGuard } from 'src/engine/guards/workspace-auth.guard';
 import { OnDbEventDTO } from 'src/engine/subscriptions/dtos/on-db-event.dto';
 import { OnDbEventInput } from 'src/engine/subscriptions/dtos/on-db-event.input';
 import { ON_DB_EVENT_TRIGGER } from 'src/engine/subscriptions/constants/on-db-event-trigger';
+import { type DbEventPayload } from 'src/engine/subscriptions/types/db-event-payload.type';
 
 @Resolver()
 @UseGuards(WorkspaceAuthGuard, UserAuthGuard, NoPermissionGuard)
@@ -22,9 +24,14 @@ export class SubscriptionsResolver {
 
   @Subscription(() => OnDbEventDTO, {
     filter: (
-      payload: { onDbEvent: OnDbEventDTO },
+      payload: DbEventPayload,
       variables: { input: OnDbEventInput },
+      context: { req: { workspace?: WorkspaceEntity } },
     ) => {
+      if (payload.workspaceId !== context.req.workspace?.id) {
+        return false;
+      }
+
       const isActionMatching =
         !isDefined(variables.input.action) ||
         payload.onDbEvent.action === variables.input.action;
@@ -1,11 +1,13 @@
 import { Inject, Injectable } from '@nestjs/common';
 
 import { RedisPubSub } from 'graphql-redis-subscriptions';
+import { isDefined } from 'twenty-shared/utils';
 
 import { type ObjectRecordEvent } from 'src/engine/core-modules/event-emitter/types/object-record-event.event';
 import { WorkspaceEventBatch } from 'src/engine/workspace-event-emitter/types/workspace-event-batch.type';
 import { transformEventToWebhookEvent } from 'src/engine/core-modules/webhook/utils/transform-event-to-webhook-event';
 import { ON_DB_EVENT_TRIGGER } from 'src/engine/subscriptions/constants/on-db-event-trigger';
+import { removeSecretFromWebhookRecord } from 'src/utils/remove-secret-from-webhook-record';
 
 @Injectable()
 export class SubscriptionsService {
@@ -22,7 +24,18 @@ export class SubscriptionsService {
         event: eventData,
       });
 
+      const recordBefore =
+        'before' in eventData.properties &&
+        'after' in eventData.properties &&
+        isDefined(eventData.properties.before)
+          ? removeSecretFromWebhookRecord(
+              eventData.properties.before,
+              nameSingular === 'webhook',
+            )
+          : undefined;
+
       await this.pubSub.publish(ON_DB_EVENT_TRIGGER, {
+        workspaceId: workspaceEventBatch.workspaceId,
         onDbEvent: {
           action: operation,
           objectNameSingular: nameSingular,
@@ -30,6 +43,7 @@ export class SubscriptionsService {
           record,
           ...(updatedFields && { updatedFields }),
         },
+        ...(isDefined(recordBefore) && { recordBefore }),
       });
     }
   }
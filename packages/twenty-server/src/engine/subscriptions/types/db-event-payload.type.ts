@@ -0,0 +1,12 @@
+import { type ObjectRecord } from 'twenty-shared/types';
+
+import { type OnDbEventDTO } from 'src/engine/subscriptions/dtos/on-db-event.dto';
+
+// Message published on the ON_DB_EVENT_TRIGGER channel
+export type DbEventPayload = {
+  workspaceId: string;
+  onDbEvent: OnDbEventDTO;
+  // State of an updated record before the update, so that filtered
+  // subscriptions can tell when a record stops matching their filter
+  recordBefore?: ObjectRecord;
+};
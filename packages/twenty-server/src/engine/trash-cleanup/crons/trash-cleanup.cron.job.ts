@@ -75,6 +75,7 @@ export class TrashCleanupCronJob {
     const workspaces = await this.workspaceRepository.find({
       where: {
         activationStatus: WorkspaceActivationStatus.ACTIVE,
+        isDisabled: false,
       },
       select: ['id', 'trashRetentionDays'],
       order: { id: 'ASC' },
@@ -59,6 +59,7 @@ import { WorkspaceSelectQueryBuilder } from 'src/engine/twenty-orm/repository/wo
 import { WorkspaceRepository } from 'src/engine/twenty-orm/repository/workspace.repository';
 import { type RolePermissionConfig } from 'src/engine/twenty-orm/types/role-permission-config';
 import { computePermissionIntersection } from 'src/engine/twenty-orm/utils/compute-permission-intersection.util';
+import { executeWithRecordChanges } from 'src/engine/twenty-orm/utils/execute-with-record-changes.util';
 import { formatData } from 'src/engine/twenty-orm/utils/format-data.util';
 import { formatResult } from 'src/engine/twenty-orm/utils/format-result.util';
 import { formatTwentyOrmEventToDatabaseBatchEvent } from 'src/engine/twenty-orm/utils/format-twenty-orm-event-to-database-batch-event.util';
@@ -1211,56 +1212,63 @@ export class WorkspaceEntityManager extends EntityManager {
         updatedColumns,
       });
 
-      const result = await new EntityPersistExecutor(
-        this.connection,
-        queryRunnerForEntityPersistExecutor,
-        'save',
-        target,
-        formattedEntityOrEntities as ObjectLiteral[],
-        options as SaveOptions | (SaveOptions & { reload: false }),
-      )
-        .execute()
-        .then(() => formattedEntityOrEntities as Entity[])
-        .finally(() => queryRunnerForEntityPersistExecutor.release());
-
-      const resultArray = Array.isArray(result) ? result : [result];
-
-      let formattedResult = formatResult<Entity[]>(
-        resultArray,
-        objectMetadataItem,
-        this.internalContext.flatObjectMetadataMaps,
-        this.internalContext.flatFieldMetadataMaps,
-      );
-
-      const updatedEntities = formattedResult.filter(
-        (entity) => beforeUpdateMapById[entity.id],
-      );
-      const createdEntities = formattedResult.filter(
-        (entity) => !beforeUpdateMapById[entity.id],
-      );
-
-      this.internalContext.eventEmitterService.emitDatabaseBatchEvent(
-        formatTwentyOrmEventToDatabaseBatchEvent({
-          action: DatabaseEventAction.UPDATED,
-          objectMetadataItem,
-          flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
-          workspaceId: this.internalContext.workspaceId,
-          entities: updatedEntities,
-          beforeEntities: updatedEntities.map(
+      let formattedResult = await executeWithRecordChanges({
+        queryRunner: queryRunnerForEntityPersistExecutor,
+        eventEmitterService: this.internalContext.eventEmitterService,
+        write: async () => {
+          const result = await new EntityPersistExecutor(
+            this.connection,
+            queryRunnerForEntityPersistExecutor,
+            'save',
+            target,
+            formattedEntityOrEntities as ObjectLiteral[],
+            options as SaveOptions | (SaveOptions & { reload: false }),
+          )
+            .execute()
+            .then(() => formattedEntityOrEntities as Entity[]);
+
+          const resultArray = Array.isArray(result) ? result : [result];
+
+          const formattedEntities = formatResult<Entity[]>(
+            resultArray,
+            objectMetadataItem,
+            this.internalContext.flatObjectMetadataMaps,
+            this.internalContext.flatFieldMetadataMaps,
+          );
+
+          const updatedEntities = formattedEntities.filter(
             (entity) => beforeUpdateMapById[entity.id],
-          ),
-        }),
-      );
-
-      this.internalContext.eventEmitterService.emitDatabaseBatchEvent(
-        formatTwentyOrmEventToDatabaseBatchEvent({
-          action: DatabaseEventAction.CREATED,
-          objectMetadataItem,
-          flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
-          workspaceId: this.internalContext.workspaceId,
-          entities: createdEntities,
-        }),
-      );
+          );
+          const createdEntities = formattedEntities.filter(
+            (entity) => !beforeUpdateMapById[entity.id],
+          );
+
+          return {
+            result: formattedEntities,
+            databaseBatchEvents: [
+              formatTwentyOrmEventToDatabaseBatchEvent({
+                action: DatabaseEventAction.UPDATED,
+                objectMetadataItem,
+                flatFieldMetadataMaps:
+                  this.internalContext.flatFieldMetadataMaps,
+                workspaceId: this.internalContext.workspaceId,
+                entities: updatedEntities,
+                beforeEntities: updatedEntities.map(
+                  (entity) => beforeUpdateMapById[entity.id],
+                ),
+              }),
+              formatTwentyOrmEventToDatabaseBatchEvent({
+                action: DatabaseEventAction.CREATED,
+                objectMetadataItem,
+                flatFieldMetadataMaps:
+                  this.internalContext.flatFieldMetadataMaps,
+                workspaceId: this.internalContext.workspaceId,
+                entities: createdEntities,
+              }),
+            ],
+          };
+        },
+      }).finally(() => queryRunnerForEntityPersistExecutor.release());
 
       const permissionCheckApplies =
         permissionOptionsFromArgs?.shouldBypassPermissionChecks !== true &&
@@ -1420,34 +1428,42 @@ export class WorkspaceEntityManager extends EntityManager {
       this.internalContext.flatFieldMetadataMaps,
     );
 
-    const result = new EntityPersistExecutor(
-      this.connection,
-      queryRunnerForEntityPersistExecutor,
-      'remove',
-      target as string | undefined,
-      formattedEntity as ObjectLiteral,
-      options as RemoveOptions,
-    )
-      .execute()
-      .then(() => formattedEntity as Entity | Entity[])
-      .finally(() => queryRunnerForEntityPersistExecutor.release());
-
-    const formattedResult = formatResult<Entity[]>(
-      result,
-      objectMetadataItem,
-      this.internalContext.flatObjectMetadataMaps,
-      this.internalContext.flatFieldMetadataMaps,
-    );
+    const formattedResult = await executeWithRecordChanges({
+      queryRunner: queryRunnerForEntityPersistExecutor,
+      eventEmitterService: this.internalContext.eventEmitterService,
+      write: async () => {
+        const result = await new EntityPersistExecutor(
+          this.connection,
+          queryRunnerForEntityPersistExecutor,
+          'remove',
+          target as string | undefined,
+          formattedEntity as ObjectLiteral,
+          options as RemoveOptions,
+        )
+          .execute()
+          .then(() => formattedEntity as Entity | Entity[]);
+
+        const formattedEntities = formatResult<Entity[]>(
+          result,
+          objectMetadataItem,
+          this.internalContext.flatObjectMetadataMaps,
+          this.internalContext.flatFieldMetadataMaps,
+        );
 
-    this.internalContext.eventEmitterService.emitDatabaseBatchEvent(
-      formatTwentyOrmEventToDatabaseBatchEvent({
-        action: DatabaseEventAction.DESTROYED,
-        objectMetadataItem,
-        flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
-        workspaceId: this.internalContext.workspaceId,
-        entities: formattedResult,
-      }),
-    );
+        return {
+          result: formattedEntities,
+          databaseBatchEvents: [
+            formatTwentyOrmEventToDatabaseBatchEvent({
+              action: DatabaseEventAction.DESTROYED,
+              objectMetadataItem,
+              flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
+              workspaceId: this.internalContext.workspaceId,
+              entities: formattedEntities,
+            }),
+          ],
+        };
+      },
+    }).finally(() => queryRunnerForEntityPersistExecutor.release());
 
     return isEntityArray ? formattedResult : formattedResult[0];
   }
@@ -1541,34 +1557,42 @@ export class WorkspaceEntityManager extends EntityManager {
       this.internalContext.flatFieldMetadataMaps,
     );
 
-    const result = new EntityPersistExecutor(
-      this.connection,
-      queryRunnerForEntityPersistExecutor,
-      'soft-remove',
-      target,
-      formattedEntity as ObjectLiteral,
-      options as SaveOptions,
-    )
-      .execute()
-      .then(() => formattedEntity as Entity)
-      .finally(() => queryRunnerForEntityPersistExecutor.release());
-
-    const formattedResult = formatResult<Entity[]>(
-      result,
-      objectMetadataItem,
-      this.internalContext.flatObjectMetadataMaps,
-      this.internalContext.flatFieldMetadataMaps,
-    );
+    const formattedResult = await executeWithRecordChanges({
+      queryRunner: queryRunnerForEntityPersistExecutor,
+      eventEmitterService: this.internalContext.eventEmitterService,
+      write: async () => {
+        const result = await new EntityPersistExecutor(
+          this.connection,
+          queryRunnerForEntityPersistExecutor,
+          'soft-remove',
+          target,
+          formattedEntity as ObjectLiteral,
+          options as SaveOptions,
+        )
+          .execute()
+          .then(() => formattedEntity as Entity);
+
+        const formattedEntities = formatResult<Entity[]>(
+          result,
+          objectMetadataItem,
+          this.internalContext.flatObjectMetadataMaps,
+          this.internalContext.flatFieldMetadataMaps,
+        );
 
-    this.internalContext.eventEmitterService.emitDatabaseBatchEvent(
-      formatTwentyOrmEventToDatabaseBatchEvent({
-        action: DatabaseEventAction.DELETED,
-        objectMetadataItem,
-        flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
-        workspaceId: this.internalContext.workspaceId,
-        entities: formattedResult,
-      }),
-    );
+        return {
+          result: formattedEntities,
+          databaseBatchEvents: [
+            formatTwentyOrmEventToDatabaseBatchEvent({
+              action: DatabaseEventAction.DELETED,
+              objectMetadataItem,
+              flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
+              workspaceId: this.internalContext.workspaceId,
+              entities: formattedEntities,
+            }),
+          ],
+        };
+      },
+    }).finally(() => queryRunnerForEntityPersistExecutor.release());
 
     return isEntityArray ? formattedResult : formattedResult[0];
   }
@@ -1658,34 +1682,42 @@ export class WorkspaceEntityManager extends EntityManager {
       this.internalContext.flatFieldMetadataMaps,
     );
 
-    const result = new EntityPersistExecutor(
-      this.connection,
-      queryRunnerForEntityPersistExecutor,
-      'recover',
-      target,
-      formattedEntity as ObjectLiteral,
-      options as SaveOptions,
-    )
-      .execute()
-      .then(() => formattedEntity as Entity)
-      .finally(() => queryRunnerForEntityPersistExecutor.release());
-
-    const formattedResult = formatResult<Entity[]>(
-      result,
-      objectMetadataItem,
-      this.internalContext.flatObjectMetadataMaps,
-      this.internalContext.flatFieldMetadataMaps,
-    );
+    const formattedResult = await executeWithRecordChanges({
+      queryRunner: queryRunnerForEntityPersistExecutor,
+      eventEmitterService: this.internalContext.eventEmitterService,
+      write: async () => {
+        const result = await new EntityPersistExecutor(
+          this.connection,
+          queryRunnerForEntityPersistExecutor,
+          'recover',
+          target,
+          formattedEntity as ObjectLiteral,
+          options as SaveOptions,
+        )
+          .execute()
+          .then(() => formattedEntity as Entity);
+
+        const formattedEntities = formatResult<Entity[]>(
+          result,
+          objectMetadataItem,
+          this.internalContext.flatObjectMetadataMaps,
+          this.internalContext.flatFieldMetadataMaps,
+        );
 
-    this.internalContext.eventEmitterService.emitDatabaseBatchEvent(
-      formatTwentyOrmEventToDatabaseBatchEvent({
-        action: DatabaseEventAction.RESTORED,
-        objectMetadataItem,
-        flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
-        workspaceId: this.internalContext.workspaceId,
-        entities: formattedResult,
-      }),
-    );
+        return {
+          result: formattedEntities,
+          databaseBatchEvents: [
+            formatTwentyOrmEventToDatabaseBatchEvent({
+              action: DatabaseEventAction.RESTORED,
+              objectMetadataItem,
+              flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
+              workspaceId: this.internalContext.workspaceId,
+              entities: formattedEntities,
+            }),
+          ],
+        };
+      },
+    }).finally(() => queryRunnerForEntityPersistExecutor.release());
 
     return isEntityArray ? formattedResult : formattedResult[0];
   }
@@ -27,6 +27,7 @@ import { type WorkspaceDeleteQueryBuilder } from 'src/engine/twenty-orm/reposito
 import { WorkspaceSelectQueryBuilder } from 'src/engine/twenty-orm/repository/workspace-select-query-builder';
 import { type WorkspaceSoftDeleteQueryBuilder } from 'src/engine/twenty-orm/repository/workspace-soft-delete-query-builder';
 import { type WorkspaceUpdateQueryBuilder } from 'src/engine/twenty-orm/repository/workspace-update-query-builder';
+import { executeQueryBuilderWithRecordChanges } from 'src/engine/twenty-orm/utils/execute-with-record-changes.util';
 import { formatData } from 'src/engine/twenty-orm/utils/format-data.util';
 import { formatResult } from 'src/engine/twenty-orm/utils/format-result.util';
 import { formatTwentyOrmEventToDatabaseBatchEvent } from 'src/engine/twenty-orm/utils/format-twenty-orm-event-to-database-batch-event.util';
@@ -115,111 +116,118 @@ export class WorkspaceInsertQueryBuilder<
         shouldBypassPermissionChecks: this.shouldBypassPermissionChecks,
       });
 
-      const mainAliasTarget = this.getMainAliasTarget();
+      return await executeQueryBuilderWithRecordChanges({
+        queryBuilder: this,
+        queryRunner: this.queryRunner,
+        eventEmitterService: this.internalContext.eventEmitterService,
+        write: async () => {
+          const mainAliasTarget = this.getMainAliasTarget();
 
-      const objectMetadata = getObjectMetadataFromEntityTarget(
-        mainAliasTarget,
-        this.internalContext,
-      );
-
-      if (isDefined(this.relationNestedConfig)) {
-        const nestedRelationQueryBuilder = new WorkspaceSelectQueryBuilder(
-          this as unknown as WorkspaceSelectQueryBuilder<T>,
-          this.objectRecordsPermissions,
-          this.internalContext,
-          this.shouldBypassPermissionChecks,
-          this.authContext,
-          this.featureFlagMap,
-        );
-
-        const updatedValues =
-          await this.relationNestedQueries.processRelationNestedQueries({
-            entities: this.expressionMap.valuesSet as
-              | QueryDeepPartialEntityWithNestedRelationFields<T>
-              | QueryDeepPartialEntityWithNestedRelationFields<T>[],
-            relationNestedConfig: this.relationNestedConfig,
-            queryBuilder: nestedRelationQueryBuilder,
-          });
-
-        this.expressionMap.valuesSet = updatedValues;
-      }
-
-      const result = await super.execute();
-      const eventSelectQueryBuilder = (
-        this.connection.manager as WorkspaceEntityManager
-      ).createQueryBuilder(
-        mainAliasTarget,
-        this.expressionMap.mainAlias?.metadata.name ?? '',
-        undefined,
-        {
-          shouldBypassPermissionChecks: true,
-        },
-      ) as WorkspaceSelectQueryBuilder<T>;
-
-      eventSelectQueryBuilder.whereInIds(
-        result.identifiers.map((identifier) => identifier.id),
-      );
-
-      const afterResult = await eventSelectQueryBuilder.getMany();
-
-      const formattedResultForEvent = formatResult<T[]>(
-        afterResult,
-        objectMetadata,
-        this.internalContext.flatObjectMetadataMaps,
-        this.internalContext.flatFieldMetadataMaps,
-      );
+          const objectMetadata = getObjectMetadataFromEntityTarget(
+            mainAliasTarget,
+            this.internalContext,
+          );
 
-      this.internalContext.eventEmitterService.emitDatabaseBatchEvent(
-        formatTwentyOrmEventToDatabaseBatchEvent({
-          action: DatabaseEventAction.CREATED,
-          objectMetadataItem: objectMetadata,
-          flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
-          workspaceId: this.internalContext.workspaceId,
-          entities: formattedResultForEvent,
-          authContext: this.authContext,
-        }),
-      );
+          if (isDefined(this.relationNestedConfig)) {
+            const nestedRelationQueryBuilder = new WorkspaceSelectQueryBuilder(
+              this as unknown as WorkspaceSelectQueryBuilder<T>,
+              this.objectRecordsPermissions,
+              this.internalContext,
+              this.shouldBypassPermissionChecks,
+              this.authContext,
+              this.featureFlagMap,
+            );
+
+            const updatedValues =
+              await this.relationNestedQueries.processRelationNestedQueries({
+                entities: this.expressionMap.valuesSet as
+                  | QueryDeepPartialEntityWithNestedRelationFields<T>
+                  | QueryDeepPartialEntityWithNestedRelationFields<T>[],
+                relationNestedConfig: this.relationNestedConfig,
+                queryBuilder: nestedRelationQueryBuilder,
+              });
+
+            this.expressionMap.valuesSet = updatedValues;
+          }
+
+          const result = await super.execute();
+          const eventSelectQueryBuilder = (
+            this.connection.manager as WorkspaceEntityManager
+          ).createQueryBuilder(
+            mainAliasTarget,
+            this.expressionMap.mainAlias?.metadata.name ?? '',
+            this.queryRunner,
+            {
+              shouldBypassPermissionChecks: true,
+            },
+          ) as WorkspaceSelectQueryBuilder<T>;
+
+          eventSelectQueryBuilder.whereInIds(
+            result.identifiers.map((identifier) => identifier.id),
+          );
 
-      this.internalContext.eventEmitterService.emitDatabaseBatchEvent(
-        formatTwentyOrmEventToDatabaseBatchEvent({
-          action: DatabaseEventAction.UPSERTED,
-          objectMetadataItem: objectMetadata,
-          flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
-          workspaceId: this.internalContext.workspaceId,
-          entities: formattedResultForEvent,
-          authContext: this.authContext,
-        }),
-      );
+          const afterResult = await eventSelectQueryBuilder.getMany();
 
-      // TypeORM returns all entity columns for insertions
-      const resultWithoutInsertionExtraColumns = !isDefined(result.raw)
-        ? []
-        : result.raw.map((rawResult: Record<string, string>) =>
-            Object.keys(rawResult)
-              .filter(
-                (key) =>
-                  this.expressionMap.returning.includes(key) ||
-                  this.expressionMap.returning === '*',
-              )
-              .reduce((filtered: Record<string, string>, key) => {
-                filtered[key] = rawResult[key];
-
-                return filtered;
-              }, {}),
+          const formattedResultForEvent = formatResult<T[]>(
+            afterResult,
+            objectMetadata,
+            this.internalContext.flatObjectMetadataMaps,
+            this.internalContext.flatFieldMetadataMaps,
           );
 
-      const formattedResult = formatResult<T[]>(
-        resultWithoutInsertionExtraColumns,
-        objectMetadata,
-        this.internalContext.flatObjectMetadataMaps,
-        this.internalContext.flatFieldMetadataMaps,
-      );
+          const databaseBatchEvents = [
+            formatTwentyOrmEventToDatabaseBatchEvent({
+              action: DatabaseEventAction.CREATED,
+              objectMetadataItem: objectMetadata,
+              flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
+              workspaceId: this.internalContext.workspaceId,
+              entities: formattedResultForEvent,
+              authContext: this.authContext,
+            }),
+            formatTwentyOrmEventToDatabaseBatchEvent({
+              action: DatabaseEventAction.UPSERTED,
+              objectMetadataItem: objectMetadata,
+              flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
+              workspaceId: this.internalContext.workspaceId,
+              entities: formattedResultForEvent,
+              authContext: this.authContext,
+            }),
+          ];
+
+          // TypeORM returns all entity columns for insertions
+          const resultWithoutInsertionExtraColumns = !isDefined(result.raw)
+            ? []
+            : result.raw.map((rawResult: Record<string, string>) =>
+                Object.keys(rawResult)
+                  .filter(
+                    (key) =>
+                      this.expressionMap.returning.includes(key) ||
+                      this.expressionMap.returning === '*',
+                  )
+                  .reduce((filtered: Record<string, string>, key) => {
+                    filtered[key] = rawResult[key];
+
+                    return filtered;
+                  }, {}),
+              );
+
+          const formattedResult = formatResult<T[]>(
+            resultWithoutInsertionExtraColumns,
+            objectMetadata,
+            this.internalContext.flatObjectMetadataMaps,
+            this.internalContext.flatFieldMetadataMaps,
+          );
 
-      return {
-        raw: resultWithoutInsertionExtraColumns,
-        generatedMaps: formattedResult,
-        identifiers: result.identifiers,
-      };
+          return {
+            result: {
+              raw: resultWithoutInsertionExtraColumns,
+              generatedMaps: formattedResult,
+              identifiers: result.identifiers,
+            },
+            databaseBatchEvents,
+          };
+        },
+      });
     } catch (error) {
       const objectMetadata = getObjectMetadataFromEntityTarget(
         this.getMainAliasTarget(),
@@ -24,6 +24,7 @@ import { type WorkspaceSelectQueryBuilder } from 'src/engine/twenty-orm/reposito
 import { type WorkspaceUpdateQueryBuilder } from 'src/engine/twenty-orm/repository/workspace-update-query-builder';
 import { applyTableAliasOnWhereCondition } from 'src/engine/twenty-orm/utils/apply-table-alias-on-where-condition';
 import { computeEventSelectQueryBuilder } from 'src/engine/twenty-orm/utils/compute-event-select-query-builder.util';
+import { executeQueryBuilderWithRecordChanges } from 'src/engine/twenty-orm/utils/execute-with-record-changes.util';
 import { formatResult } from 'src/engine/twenty-orm/utils/format-result.util';
 import { formatTwentyOrmEventToDatabaseBatchEvent } from 'src/engine/twenty-orm/utils/format-twenty-orm-event-to-database-batch-event.util';
 import { getObjectMetadataFromEntityTarget } from 'src/engine/twenty-orm/utils/get-object-metadata-from-entity-target.util';
@@ -78,67 +79,76 @@ export class WorkspaceSoftDeleteQueryBuilder<
         shouldBypassPermissionChecks: this.shouldBypassPermissionChecks,
       });
 
-      const mainAliasTarget = this.getMainAliasTarget();
-
-      const objectMetadata = getObjectMetadataFromEntityTarget(
-        mainAliasTarget,
-        this.internalContext,
-      );
-
-      const beforeEventSelectQueryBuilder = computeEventSelectQueryBuilder<T>({
+      return await executeQueryBuilderWithRecordChanges({
         queryBuilder: this,
-        authContext: this.authContext,
-        internalContext: this.internalContext,
-        featureFlagMap: this.featureFlagMap,
-        expressionMap: this.expressionMap,
-        objectRecordsPermissions: this.objectRecordsPermissions,
+        queryRunner: this.queryRunner,
+        eventEmitterService: this.internalContext.eventEmitterService,
+        write: async () => {
+          const mainAliasTarget = this.getMainAliasTarget();
+
+          const objectMetadata = getObjectMetadataFromEntityTarget(
+            mainAliasTarget,
+            this.internalContext,
+          );
+
+          const beforeEventSelectQueryBuilder =
+            computeEventSelectQueryBuilder<T>({
+              queryBuilder: this,
+              authContext: this.authContext,
+              internalContext: this.internalContext,
+              featureFlagMap: this.featureFlagMap,
+              expressionMap: this.expressionMap,
+              objectRecordsPermissions: this.objectRecordsPermissions,
+            });
+
+          const tableName = computeTableName(
+            objectMetadata.nameSingular,
+            objectMetadata.isCustom,
+          );
+
+          const before = await beforeEventSelectQueryBuilder.getMany();
+
+          this.expressionMap.wheres = applyTableAliasOnWhereCondition({
+            condition: this.expressionMap.wheres,
+            tableName,
+            aliasName: objectMetadata.nameSingular,
+          }) as WhereClause[];
+
+          const after = await super.execute();
+
+          const formattedAfter = formatResult<T[]>(
+            after.raw,
+            objectMetadata,
+            this.internalContext.flatObjectMetadataMaps,
+            this.internalContext.flatFieldMetadataMaps,
+          );
+
+          const formattedBefore = formatResult<T[]>(
+            before,
+            objectMetadata,
+            this.internalContext.flatObjectMetadataMaps,
+            this.internalContext.flatFieldMetadataMaps,
+          );
+
+          const databaseBatchEvent = formatTwentyOrmEventToDatabaseBatchEvent({
+            action: DatabaseEventAction.DELETED,
+            objectMetadataItem: objectMetadata,
+            flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
+            workspaceId: this.internalContext.workspaceId,
+            entities: formattedBefore,
+            authContext: this.authContext,
+          });
+
+          return {
+            result: {
+              raw: after.raw,
+              generatedMaps: formattedAfter,
+              affected: after.affected,
+            },
+            databaseBatchEvents: [databaseBatchEvent],
+          };
+        },
       });
-
-      const tableName = computeTableName(
-        objectMetadata.nameSingular,
-        objectMetadata.isCustom,
-      );
-
-      const before = await beforeEventSelectQueryBuilder.getMany();
-
-      this.expressionMap.wheres = applyTableAliasOnWhereCondition({
-        condition: this.expressionMap.wheres,
-        tableName,
-        aliasName: objectMetadata.nameSingular,
-      }) as WhereClause[];
-
-      const after = await super.execute();
-
-      const formattedAfter = formatResult<T[]>(
-        after.raw,
-        objectMetadata,
-        this.internalContext.flatObjectMetadataMaps,
-        this.internalContext.flatFieldMetadataMaps,
-      );
-
-      const formattedBefore = formatResult<T[]>(
-        before,
-        objectMetadata,
-        this.internalContext.flatObjectMetadataMaps,
-        this.internalContext.flatFieldMetadataMaps,
-      );
-
-      this.internalContext.eventEmitterService.emitDatabaseBatchEvent(
-        formatTwentyOrmEventToDatabaseBatchEvent({
-          action: DatabaseEventAction.DELETED,
-          objectMetadataItem: objectMetadata,
-          flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
-          workspaceId: this.internalContext.workspaceId,
-          entities: formattedBefore,
-          authContext: this.authContext,
-        }),
-      );
-
-      return {
-        raw: after.raw,
-        generatedMaps: formattedAfter,
-        affected: after.affected,
-      };
     } catch (error) {
       throw computeTwentyORMException(error);
     }
@@ -31,6 +31,7 @@ import { WorkspaceSelectQueryBuilder } from 'src/engine/twenty-orm/repository/wo
 import { type WorkspaceSoftDeleteQueryBuilder } from 'src/engine/twenty-orm/repository/workspace-soft-delete-query-builder';
 import { applyTableAliasOnWhereCondition } from 'src/engine/twenty-orm/utils/apply-table-alias-on-where-condition';
 import { computeEventSelectQueryBuilder } from 'src/engine/twenty-orm/utils/compute-event-select-query-builder.util';
+import { executeQueryBuilderWithRecordChanges } from 'src/engine/twenty-orm/utils/execute-with-record-changes.util';
 import { formatData } from 'src/engine/twenty-orm/utils/format-data.util';
 import { formatResult } from 'src/engine/twenty-orm/utils/format-result.util';
 import { formatTwentyOrmEventToDatabaseBatchEvent } from 'src/engine/twenty-orm/utils/format-twenty-orm-event-to-database-batch-event.util';
@@ -101,122 +102,129 @@ export class WorkspaceUpdateQueryBuilder<
         shouldBypassPermissionChecks: this.shouldBypassPermissionChecks,
       });
 
-      const mainAliasTarget = this.getMainAliasTarget();
-
-      const objectMetadata = getObjectMetadataFromEntityTarget(
-        mainAliasTarget,
-        this.internalContext,
-      );
-
-      const eventSelectQueryBuilder = computeEventSelectQueryBuilder<T>({
+      return await executeQueryBuilderWithRecordChanges({
         queryBuilder: this,
-        authContext: this.authContext,
-        internalContext: this.internalContext,
-        featureFlagMap: this.featureFlagMap,
-        expressionMap: this.expressionMap,
-        objectRecordsPermissions: this.objectRecordsPermissions,
-      });
-
-      const tableName = computeTableName(
-        objectMetadata.nameSingular,
-        objectMetadata.isCustom,
-      );
-
-      const before = await eventSelectQueryBuilder.getMany();
-
-      if (before.length > QUERY_MAX_RECORDS) {
-        throw new TwentyORMException(
-          `Cannot update more than ${QUERY_MAX_RECORDS} records at once`,
-          TwentyORMExceptionCode.TOO_MANY_RECORDS_TO_UPDATE,
-          {
-            userFriendlyMessage: msg`You can only update up to ${QUERY_MAX_RECORDS} records at once.`,
-          },
-        );
-      }
-
-      this.expressionMap.wheres = applyTableAliasOnWhereCondition({
-        condition: this.expressionMap.wheres,
-        tableName,
-        aliasName: objectMetadata.nameSingular,
-      }) as WhereClause[];
-
-      const nestedRelationQueryBuilder = new WorkspaceSelectQueryBuilder(
-        this as unknown as WorkspaceSelectQueryBuilder<T>,
-        this.objectRecordsPermissions,
-        this.internalContext,
-        this.shouldBypassPermissionChecks,
-        this.authContext,
-        this.featureFlagMap,
-      );
-
-      if (isDefined(this.relationNestedConfig)) {
-        const updatedValues =
-          await this.relationNestedQueries.processRelationNestedQueries({
-            entities: this.expressionMap.valuesSet as
-              | QueryDeepPartialEntityWithNestedRelationFields<T>
-              | QueryDeepPartialEntityWithNestedRelationFields<T>[],
-            relationNestedConfig: this.relationNestedConfig,
-            queryBuilder: nestedRelationQueryBuilder,
+        queryRunner: this.queryRunner,
+        eventEmitterService: this.internalContext.eventEmitterService,
+        write: async () => {
+          const mainAliasTarget = this.getMainAliasTarget();
+
+          const objectMetadata = getObjectMetadataFromEntityTarget(
+            mainAliasTarget,
+            this.internalContext,
+          );
+
+          const eventSelectQueryBuilder = computeEventSelectQueryBuilder<T>({
+            queryBuilder: this,
+            authContext: this.authContext,
+            internalContext: this.internalContext,
+            featureFlagMap: this.featureFlagMap,
+            expressionMap: this.expressionMap,
+            objectRecordsPermissions: this.objectRecordsPermissions,
           });
 
-        this.expressionMap.valuesSet =
-          updatedValues.length === 1 ? updatedValues[0] : updatedValues;
-      }
-
-      const formattedBefore = formatResult<T[]>(
-        before,
-        objectMetadata,
-        this.internalContext.flatObjectMetadataMaps,
-        this.internalContext.flatFieldMetadataMaps,
-      );
-
-      const result = await super.execute();
-
-      const after = await eventSelectQueryBuilder.getMany();
-
-      const formattedAfter = formatResult<T[]>(
-        after,
-        objectMetadata,
-        this.internalContext.flatObjectMetadataMaps,
-        this.internalContext.flatFieldMetadataMaps,
-      );
-
-      this.internalContext.eventEmitterService.emitDatabaseBatchEvent(
-        formatTwentyOrmEventToDatabaseBatchEvent({
-          action: DatabaseEventAction.UPDATED,
-          objectMetadataItem: objectMetadata,
-          flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
-          workspaceId: this.internalContext.workspaceId,
-          entities: formattedAfter,
-          beforeEntities: formattedBefore,
-          authContext: this.authContext,
-        }),
-      );
-
-      this.internalContext.eventEmitterService.emitDatabaseBatchEvent(
-        formatTwentyOrmEventToDatabaseBatchEvent({
-          action: DatabaseEventAction.UPSERTED,
-          objectMetadataItem: objectMetadata,
-          flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
-          workspaceId: this.internalContext.workspaceId,
-          entities: formattedAfter,
-          beforeEntities: formattedBefore,
-          authContext: this.authContext,
-        }),
-      );
-
-      const formattedResult = formatResult<T[]>(
-        result.raw,
-        objectMetadata,
-        this.internalContext.flatObjectMetadataMaps,
-        this.internalContext.flatFieldMetadataMaps,
-      );
-
-      return {
-        raw: result.raw,
-        generatedMaps: formattedResult,
-        affected: result.affected,
-      };
+          const tableName = computeTableName(
+            objectMetadata.nameSingular,
+            objectMetadata.isCustom,
+          );
+
+          const before = await eventSelectQueryBuilder.getMany();
+
+          if (before.length > QUERY_MAX_RECORDS) {
+            throw new TwentyORMException(
+              `Cannot update more than ${QUERY_MAX_RECORDS} records at once`,
+              TwentyORMExceptionCode.TOO_MANY_RECORDS_TO_UPDATE,
+              {
+                userFriendlyMessage: msg`You can only update up to ${QUERY_MAX_RECORDS} records at once.`,
+              },
+            );
+          }
+
+          this.expressionMap.wheres = applyTableAliasOnWhereCondition({
+            condition: this.expressionMap.wheres,
+            tableName,
+            aliasName: objectMetadata.nameSingular,
+          }) as WhereClause[];
+
+          const nestedRelationQueryBuilder = new WorkspaceSelectQueryBuilder(
+            this as unknown as WorkspaceSelectQueryBuilder<T>,
+            this.objectRecordsPermissions,
+            this.internalContext,
+            this.shouldBypassPermissionChecks,
+            this.authContext,
+            this.featureFlagMap,
+          );
+
+          if (isDefined(this.relationNestedConfig)) {
+            const updatedValues =
+              await this.relationNestedQueries.processRelationNestedQueries({
+                entities: this.expressionMap.valuesSet as
+                  | QueryDeepPartialEntityWithNestedRelationFields<T>
+                  | QueryDeepPartialEntityWithNestedRelationFields<T>[],
+                relationNestedConfig: this.relationNestedConfig,
+                queryBuilder: nestedRelationQueryBuilder,
+              });
+
+            this.expressionMap.valuesSet =
+              updatedValues.length === 1 ? updatedValues[0] : updatedValues;
+          }
+
+          const formattedBefore = formatResult<T[]>(
+            before,
+            objectMetadata,
+            this.internalContext.flatObjectMetadataMaps,
+            this.internalContext.flatFieldMetadataMaps,
+          );
+
+          const result = await super.execute();
+
+          const after = await eventSelectQueryBuilder.getMany();
+
+          const formattedAfter = formatResult<T[]>(
+            after,
+            objectMetadata,
+            this.internalContext.flatObjectMetadataMaps,
+            this.internalContext.flatFieldMetadataMaps,
+          );
+
+          const databaseBatchEvents = [
+            formatTwentyOrmEventToDatabaseBatchEvent({
+              action: DatabaseEventAction.UPDATED,
+              objectMetadataItem: objectMetadata,
+              flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
+              workspaceId: this.internalContext.workspaceId,
+              entities: formattedAfter,
+              beforeEntities: formattedBefore,
+              authContext: this.authContext,
+            }),
+            formatTwentyOrmEventToDatabaseBatchEvent({
+              action: DatabaseEventAction.UPSERTED,
+              objectMetadataItem: objectMetadata,
+              flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
+              workspaceId: this.internalContext.workspaceId,
+              entities: formattedAfter,
+              beforeEntities: formattedBefore,
+              authContext: this.authContext,
+            }),
+          ];
+
+          const formattedResult = formatResult<T[]>(
+            result.raw,
+            objectMetadata,
+            this.internalContext.flatObjectMetadataMaps,
+            this.internalContext.flatFieldMetadataMaps,
+          );
+
+          return {
+            result: {
+              raw: result.raw,
+              generatedMaps: formattedResult,
+              affected: result.affected,
+            },
+            databaseBatchEvents,
+          };
+        },
+      });
     } catch (error) {
       const objectMetadata = getObjectMetadataFromEntityTarget(
         this.getMainAliasTarget(),
@@ -249,124 +257,133 @@ export class WorkspaceUpdateQueryBuilder<
         });
       }
 
-      const mainAliasTarget = this.getMainAliasTarget();
-
-      const objectMetadata = getObjectMetadataFromEntityTarget(
-        mainAliasTarget,
-        this.internalContext,
-      );
-
-      const eventSelectQueryBuilder = computeEventSelectQueryBuilder<T>({
+      return await executeQueryBuilderWithRecordChanges({
         queryBuilder: this,
-        authContext: this.authContext,
-        internalContext: this.internalContext,
-        featureFlagMap: this.featureFlagMap,
-        expressionMap: this.expressionMap,
-        objectRecordsPermissions: this.objectRecordsPermissions,
-      });
-
-      eventSelectQueryBuilder.whereInIds(
-        this.manyInputs.map((input) => input.criteria),
-      );
-
-      const beforeRecords = await eventSelectQueryBuilder.getMany();
-
-      const formattedBefore = formatResult<T[]>(
-        beforeRecords,
-        objectMetadata,
-        this.internalContext.flatObjectMetadataMaps,
-        this.internalContext.flatFieldMetadataMaps,
-      );
-
-      const results: UpdateResult[] = [];
-
-      const nestedRelationQueryBuilder = new WorkspaceSelectQueryBuilder(
-        this as unknown as WorkspaceSelectQueryBuilder<T>,
-        this.objectRecordsPermissions,
-        this.internalContext,
-        this.shouldBypassPermissionChecks,
-        this.authContext,
-        this.featureFlagMap,
-      );
-
-      this.relationNestedConfig =
-        this.relationNestedQueries.prepareNestedRelationQueries(
-          this.manyInputs.map(
-            (input) => input.partialEntity,
-          ) as QueryDeepPartialEntityWithNestedRelationFields<T>[],
-          mainAliasTarget,
-        );
-
-      if (isDefined(this.relationNestedConfig)) {
-        const updatedValues =
-          await this.relationNestedQueries.processRelationNestedQueries({
-            entities: this.manyInputs.map((input) => input.partialEntity) as
-              | QueryDeepPartialEntityWithNestedRelationFields<T>
-              | QueryDeepPartialEntityWithNestedRelationFields<T>[],
-            relationNestedConfig: this.relationNestedConfig,
-            queryBuilder: nestedRelationQueryBuilder,
+        queryRunner: this.queryRunner,
+        eventEmitterService: this.internalContext.eventEmitterService,
+        write: async () => {
+          const mainAliasTarget = this.getMainAliasTarget();
+
+          const objectMetadata = getObjectMetadataFromEntityTarget(
+            mainAliasTarget,
+            this.internalContext,
+          );
+
+          const eventSelectQueryBuilder = computeEventSelectQueryBuilder<T>({
+            queryBuilder: this,
+            authContext: this.authContext,
+            internalContext: this.internalContext,
+            featureFlagMap: this.featureFlagMap,
+            expressionMap: this.expressionMap,
+            objectRecordsPermissions: this.objectRecordsPermissions,
           });
 
-        this.manyInputs = updatedValues.map((updatedValue, index) => ({
-          criteria: this.manyInputs[index].criteria,
-          partialEntity: updatedValue,
-        }));
-      }
-
-      for (const input of this.manyInputs) {
-        this.expressionMap.valuesSet = input.partialEntity;
-        this.where({ id: input.criteria });
-
-        const result = await super.execute();
-
-        results.push(result);
-      }
-
-      const afterRecords = await eventSelectQueryBuilder.getMany();
-
-      const formattedAfter = formatResult<T[]>(
-        afterRecords,
-        objectMetadata,
-        this.internalContext.flatObjectMetadataMaps,
-        this.internalContext.flatFieldMetadataMaps,
-      );
-
-      this.internalContext.eventEmitterService.emitDatabaseBatchEvent(
-        formatTwentyOrmEventToDatabaseBatchEvent({
-          action: DatabaseEventAction.UPDATED,
-          objectMetadataItem: objectMetadata,
-          flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
-          workspaceId: this.internalContext.workspaceId,
-          entities: formattedAfter,
-          beforeEntities: formattedBefore,
-          authContext: this.authContext,
-        }),
-      );
-
-      this.internalContext.eventEmitterService.emitDatabaseBatchEvent(
-        formatTwentyOrmEventToDatabaseBatchEvent({
-          action: DatabaseEventAction.UPSERTED,
-          objectMetadataItem: objectMetadata,
-          flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
-          workspaceId: this.internalContext.workspaceId,
-          entities: formattedAfter,
-          beforeEntities: formattedBefore,
-          authContext: this.authContext,
-        }),
-      );
-
-      const formattedResults = formatResult<T[]>(
-        results.flatMap((result) => result.raw),
-        objectMetadata,
-        this.internalContext.flatObjectMetadataMaps,
-        this.internalContext.flatFieldMetadataMaps,
-      );
-
-      return {
-        raw: results.flatMap((result) => result.raw),
-        generatedMaps: formattedResults,
-        affected: results.length,
-      };
+          eventSelectQueryBuilder.whereInIds(
+            this.manyInputs.map((input) => input.criteria),
+          );
+
+          const beforeRecords = await eventSelectQueryBuilder.getMany();
+
+          const formattedBefore = formatResult<T[]>(
+            beforeRecords,
+            objectMetadata,
+            this.internalContext.flatObjectMetadataMaps,
+            this.internalContext.flatFieldMetadataMaps,
+          );
+
+          const results: UpdateResult[] = [];
+
+          const nestedRelationQueryBuilder = new WorkspaceSelectQueryBuilder(
+            this as unknown as WorkspaceSelectQueryBuilder<T>,
+            this.objectRecordsPermissions,
+            this.internalContext,
+            this.shouldBypassPermissionChecks,
+            this.authContext,
+            this.featureFlagMap,
+          );
+
+          this.relationNestedConfig =
+            this.relationNestedQueries.prepareNestedRelationQueries(
+              this.manyInputs.map(
+                (input) => input.partialEntity,
+              ) as QueryDeepPartialEntityWithNestedRelationFields<T>[],
+              mainAliasTarget,
+            );
+
+          if (isDefined(this.relationNestedConfig)) {
+            const updatedValues =
+              await this.relationNestedQueries.processRelationNestedQueries({
+                entities: this.manyInputs.map(
+                  (input) => input.partialEntity,
+                ) as
+                  | QueryDeepPartialEntityWithNestedRelationFields<T>
+                  | QueryDeepPartialEntityWithNestedRelationFields<T>[],
+                relationNestedConfig: this.relationNestedConfig,
+                queryBuilder: nestedRelationQueryBuilder,
+              });
+
+            this.manyInputs = updatedValues.map((updatedValue, index) => ({
+              criteria: this.manyInputs[index].criteria,
+              partialEntity: updatedValue,
+            }));
+          }
+
+          for (const input of this.manyInputs) {
+            this.expressionMap.valuesSet = input.partialEntity;
+            this.where({ id: input.criteria });
+
+            const result = await super.execute();
+
+            results.push(result);
+          }
+
+          const afterRecords = await eventSelectQueryBuilder.getMany();
+
+          const formattedAfter = formatResult<T[]>(
+            afterRecords,
+            objectMetadata,
+            this.internalContext.flatObjectMetadataMaps,
+            this.internalContext.flatFieldMetadataMaps,
+          );
+
+          const databaseBatchEvents = [
+            formatTwentyOrmEventToDatabaseBatchEvent({
+              action: DatabaseEventAction.UPDATED,
+              objectMetadataItem: objectMetadata,
+              flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
+              workspaceId: this.internalContext.workspaceId,
+              entities: formattedAfter,
+              beforeEntities: formattedBefore,
+              authContext: this.authContext,
+            }),
+            formatTwentyOrmEventToDatabaseBatchEvent({
+              action: DatabaseEventAction.UPSERTED,
+              objectMetadataItem: objectMetadata,
+              flatFieldMetadataMaps: this.internalContext.flatFieldMetadataMaps,
+              workspaceId: this.internalContext.workspaceId,
+              entities: formattedAfter,
+              beforeEntities: formattedBefore,
+              authContext: this.authContext,
+            }),
+          ];
+
+          const formattedResults = formatResult<T[]>(
+            results.flatMap((result) => result.raw),
+            objectMetadata,
+            this.internalContext.flatObjectMetadataMaps,
+            this.internalContext.flatFieldMetadataMaps,
+          );
+
+          return {
+            result: {
+              raw: results.flatMap((result) => result.raw),
+              generatedMaps: formattedResults,
+              affected: results.length,
+            },
+            databaseBatchEvents,
+          };
+        },
+      });
     } catch (error) {
       const objectMetadata = getObjectMetadataFromEntityTarget(
         this.getMainAliasTarget(),
@@ -0,0 +1,99 @@
+import { isDefined } from 'twenty-shared/utils';
+import { type DataSource, type ObjectLiteral, type QueryRunner } from 'typeorm';
+
+import { type DatabaseEventAction } from 'src/engine/api/graphql/graphql-query-runner/enums/database-event-action';
+import { insertRecordChanges } from 'src/engine/core-modules/record-change/utils/insert-record-changes.util';
+import {
+  type DatabaseBatchEventInput,
+  type WorkspaceEventEmitter,
+} from 'src/engine/workspace-event-emitter/workspace-event-emitter';
+
+type WriteResult<Result> = {
+  result: Result;
+  databaseBatchEvents: (
+    | DatabaseBatchEventInput<ObjectLiteral, DatabaseEventAction>
+    | undefined
+  )[];
+};
+
+// Runs a write of workspace records and records its changes in the same
+// transaction, then emits its events. The transaction is only opened and
+// committed here when the query runner is not already in one, the events are
+// then emitted once the write is committed.
+export const executeWithRecordChanges = async <Result>({
+  queryRunner,
+  eventEmitterService,
+  write,
+}: {
+  queryRunner: QueryRunner;
+  eventEmitterService: WorkspaceEventEmitter;
+  write: () => Promise<WriteResult<Result>>;
+}): Promise<Result> => {
+  const isTransactionOwner = !queryRunner.isTransactionActive;
+
+  if (isTransactionOwner) {
+    await queryRunner.startTransaction();
+  }
+
+  try {
+    const { result, databaseBatchEvents } = await write();
+
+    for (const databaseBatchEvent of databaseBatchEvents) {
+      if (isDefined(databaseBatchEvent)) {
+        await insertRecordChanges(queryRunner, databaseBatchEvent);
+      }
+    }
+
+    if (isTransactionOwner) {
+      await queryRunner.commitTransaction();
+    }
+
+    for (const databaseBatchEvent of databaseBatchEvents) {
+      eventEmitterService.emitDatabaseBatchEvent(databaseBatchEvent);
+    }
+
+    return result;
+  } catch (error) {
+    if (isTransactionOwner && queryRunner.isTransactionActive) {
+      await queryRunner.rollbackTransaction();
+    }
+
+    throw error;
+  }
+};
+
+// Same as executeWithRecordChanges for a query builder: the builder, and the
+// builders created from it during the write, run on the query runner of the
+// transaction. queryRunner is the one the builder was created with, if any.
+export const executeQueryBuilderWithRecordChanges = async <Result>({
+  queryBuilder,
+  queryRunner: queryBuilderQueryRunner,
+  eventEmitterService,
+  write,
+}: {
+  queryBuilder: {
+    connection: DataSource;
+    setQueryRunner: (queryRunner: QueryRunner) => unknown;
+  };
+  queryRunner: QueryRunner | undefined;
+  eventEmitterService: WorkspaceEventEmitter;
+  write: () => Promise<WriteResult<Result>>;
+}): Promise<Result> => {
+  const queryRunner =
+    queryBuilderQueryRunner ?? queryBuilder.connection.createQueryRunner();
+
+  queryBuilder.setQueryRunner(queryRunner);
+
+  try {
+    return await executeWithRecordChanges({
+      queryRunner,
+      eventEmitterService,
+      write,
+    });
+  } finally {
+    if (!isDefined(queryBuilderQueryRunner)) {
+      await queryRunner.release();
+      Object.assign(queryBuilder, { queryRunner: undefined });
+    }
+  }
+};
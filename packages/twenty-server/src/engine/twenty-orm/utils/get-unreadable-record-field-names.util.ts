@@ -0,0 +1,52 @@
+import { type RestrictedFieldsPermissions } from 'twenty-shared/types';
+import { isDefined } from 'twenty-shared/utils';
+
+import { type FlatEntityMaps } from 'src/engine/metadata-modules/flat-entity/types/flat-entity-maps.type';
+import { type FlatFieldMetadata } from 'src/engine/metadata-modules/flat-field-metadata/types/flat-field-metadata.type';
+import { type FlatObjectMetadata } from 'src/engine/metadata-modules/flat-object-metadata/types/flat-object-metadata.type';
+import { processFieldMetadataForColumnNameMapping } from 'src/engine/twenty-orm/utils/process-field-metadata-for-column-name-mapping.util';
+
+// Returns the keys of an object record (as found in record events) that hold
+// fields the role is not allowed to read
+export const getUnreadableRecordFieldNames = (
+  flatObjectMetadata: FlatObjectMetadata,
+  flatFieldMetadataMaps: FlatEntityMaps<FlatFieldMetadata>,
+  restrictedFields: RestrictedFieldsPermissions,
+): string[] => {
+  const unreadableFieldNames: string[] = [];
+
+  const isUnreadable = (fieldMetadataId: string) =>
+    restrictedFields[fieldMetadataId]?.canRead === false;
+
+  processFieldMetadataForColumnNameMapping(
+    flatObjectMetadata,
+    flatFieldMetadataMaps,
+    {
+      processCompositeField: ({ fieldMetadataId, fieldMetadata }) => {
+        if (isUnreadable(fieldMetadataId)) {
+          unreadableFieldNames.push(fieldMetadata.name);
+        }
+      },
+      processRelationField: ({
+        fieldMetadataId,
+        joinColumnName,
+        connectFieldName,
+      }) => {
+        if (isUnreadable(fieldMetadataId)) {
+          unreadableFieldNames.push(joinColumnName);
+
+          if (isDefined(connectFieldName)) {
+            unreadableFieldNames.push(connectFieldName);
+          }
+        }
+      },
+      processSimpleField: ({ fieldMetadataId, columnName }) => {
+        if (isUnreadable(fieldMetadataId)) {
+          unreadableFieldNames.push(columnName);
+        }
+      },
+    },
+  );
+
+  return unreadableFieldNames;
+};
@@ -0,0 +1,94 @@
+import { isRecordMatchingFilter } from 'src/engine/utils/is-record-matching-filter.util';
+
+describe('isRecordMatchingFilter', () => {
+  const record = {
+    id: 'person-id',
+    name: { firstName: 'John', lastName: 'Doe' },
+    city: 'Paris',
+    score: 42,
+    tags: ['VIP', 'PARTNER'],
+    companyId: null,
+    createdAt: '2026-03-01T10:00:00.000Z',
+  };
+
+  it('should match an empty filter', () => {
+    expect(isRecordMatchingFilter({ record, filter: {} })).toBe(true);
+  });
+
+  it('should compare field values', () => {
+    expect(
+      isRecordMatchingFilter({
+        record,
+        filter: { city: { eq: 'Paris' }, score: { gte: 40, lt: 50 } },
+      }),
+    ).toBe(true);
+    expect(
+      isRecordMatchingFilter({ record, filter: { city: { neq: 'Paris' } } }),
+    ).toBe(false);
+    expect(
+      isRecordMatchingFilter({
+        record,
+        filter: { createdAt: { gt: '2026-01-01T00:00:00.000Z' } },
+      }),
+    ).toBe(true);
+  });
+
+  it('should match composite sub-fields and patterns', () => {
+    expect(
+      isRecordMatchingFilter({
+        record,
+        filter: { name: { firstName: { ilike: 'jo%' } } },
+      }),
+    ).toBe(true);
+    expect(
+      isRecordMatchingFilter({
+        record,
+        filter: { name: { lastName: { in: ['Smith'] } } },
+      }),
+    ).toBe(false);
+  });
+
+  it('should handle null checks and arrays', () => {
+    expect(
+      isRecordMatchingFilter({
+        record,
+        filter: { companyId: { is: 'NULL' }, tags: { containsIlike: '%vip%' } },
+      }),
+    ).toBe(true);
+    expect(
+      isRecordMatchingFilter({
+        record,
+        filter: { tags: { isEmptyArray: true } },
+      }),
+    ).toBe(false);
+  });
+
+  it('should combine filters with and, or and not', () => {
+    expect(
+      isRecordMatchingFilter({
+        record,
+        filter: {
+          and: [
+            { or: [{ city: { eq: 'London' } }, { score: { gt: 40 } }] },
+            { not: { city: { eq: 'London' } } },
+          ],
+        },
+      }),
+    ).toBe(true);
+    expect(
+      isRecordMatchingFilter({
+        record,
+        filter: { or: [{ city: { eq: 'London' } }, { score: { lt: 10 } }] },
+      }),
+    ).toBe(false);
+  });
+
+  it('should not match regex comparators', () => {
+    expect(
+      isRecordMatchingFilter({
+        record,
+        filter: { city: { regex: '^Par' } },
+      }),
+    ).toBe(false);
+  });
+});
@@ -47,6 +47,9 @@ export const getResolverName = (
     case 'groupBy':
       return `${camelCase(objectMetadata.namePlural)}GroupBy`;
 
+    case 'onEvent':
+      return `on${pascalCase(objectMetadata.nameSingular)}Event`;
+
     default:
       throw new Error(`Unknown resolver type: ${type}`);
   }
@@ -0,0 +1,179 @@
+import { isObject } from '@sniptt/guards';
+import { type RecordGqlOperationFilter } from 'twenty-shared/types';
+import { isDefined } from 'twenty-shared/utils';
+
+type FieldFilter = Record<string, unknown>;
+
+const COMPARATORS = [
+  'eq',
+  'neq',
+  'in',
+  'is',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'like',
+  'ilike',
+  'startsWith',
+  'containsAny',
+  'containsIlike',
+  'isEmptyArray',
+] as const;
+
+type Comparator = (typeof COMPARATORS)[number];
+
+const isComparator = (key: string): key is Comparator =>
+  (COMPARATORS as readonly string[]).includes(key);
+
+const likePatternToRegExp = (pattern: string, flags?: string) =>
+  new RegExp(
+    `^${pattern
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/%/g, '.*')
+      .replace(/_/g, '.')}$`,
+    flags,
+  );
+
+const isEmptyValue = (value: unknown) =>
+  !isDefined(value) ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+const compareValues = (value: unknown, other: unknown) => {
+  if (typeof value === 'number' && typeof other === 'number') {
+    return value - other;
+  }
+
+  const valueDate = new Date(value as string).getTime();
+  const otherDate = new Date(other as string).getTime();
+
+  if (!Number.isNaN(valueDate) && !Number.isNaN(otherDate)) {
+    return valueDate - otherDate;
+  }
+
+  return String(value).localeCompare(String(other));
+};
+
+const isValueMatchingComparator = (
+  value: unknown,
+  comparator: Comparator,
+  expected: unknown,
+): boolean => {
+  switch (comparator) {
+    case 'eq':
+      return value === expected;
+    case 'neq':
+      return value !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(value);
+    case 'is':
+      return expected === 'NULL' ? !isDefined(value) : isDefined(value);
+    case 'gt':
+      return isDefined(value) && compareValues(value, expected) > 0;
+    case 'gte':
+      return isDefined(value) && compareValues(value, expected) >= 0;
+    case 'lt':
+      return isDefined(value) && compareValues(value, expected) < 0;
+    case 'lte':
+      return isDefined(value) && compareValues(value, expected) <= 0;
+    case 'like':
+      return (
+        typeof value === 'string' &&
+        likePatternToRegExp(String(expected)).test(value)
+      );
+    case 'ilike':
+      return (
+        typeof value === 'string' &&
+        likePatternToRegExp(String(expected), 'i').test(value)
+      );
+    case 'startsWith':
+      return typeof value === 'string' && value.startsWith(String(expected));
+    case 'containsAny':
+      return (
+        Array.isArray(value) &&
+        Array.isArray(expected) &&
+        expected.some((item) => value.includes(item))
+      );
+    case 'containsIlike':
+      return (
+        Array.isArray(value) &&
+        value.some(
+          (item) =>
+            typeof item === 'string' &&
+            likePatternToRegExp(String(expected), 'i').test(item),
+        )
+      );
+    case 'isEmptyArray':
+      return isEmptyValue(value) === expected;
+  }
+};
+
+const isValueMatchingFieldFilter = (
+  value: unknown,
+  fieldFilter: FieldFilter,
+): boolean =>
+  Object.entries(fieldFilter).every(([key, expected]) => {
+    if (!isDefined(expected)) {
+      return true;
+    }
+
+    if (isComparator(key)) {
+      return isValueMatchingComparator(value, key, expected);
+    }
+
+    // Composite sub-field, e.g. { name: { firstName: { eq: 'John' } } }
+    const subFieldValue = isObject(value)
+      ? (value as Record<string, unknown>)[key]
+      : undefined;
+
+    return (
+      isObject(expected) &&
+      isValueMatchingFieldFilter(subFieldValue, expected as FieldFilter)
+    );
+  });
+
+// In-memory counterpart of the record filters accepted by the GraphQL and
+// REST APIs, for records that are not read from the database. Fields are
+// compared by value without their metadata, so relation filters only work on
+// their join column (e.g. companyId). User regexes (regex and iregex) are not
+// supported as they would run on every event.
+export const isRecordMatchingFilter = ({
+  record,
+  filter,
+}: {
+  record: Record<string, unknown>;
+  filter: RecordGqlOperationFilter;
+}): boolean =>
+  Object.entries(filter).every(([key, value]) => {
+    if (!isDefined(value)) {
+      return true;
+    }
+
+    switch (key) {
+      case 'and':
+        return (value as RecordGqlOperationFilter[]).every((subFilter) =>
+          isRecordMatchingFilter({ record, filter: subFilter }),
+        );
+      case 'or': {
+        const subFilters = Array.isArray(value) ? value : [value];
+
+        return (
+          subFilters.length === 0 ||
+          subFilters.some((subFilter: RecordGqlOperationFilter) =>
+            isRecordMatchingFilter({ record, filter: subFilter }),
+          )
+        );
+      }
+      case 'not':
+        return !isRecordMatchingFilter({
+          record,
+          filter: value as RecordGqlOperationFilter,
+        });
+      default:
+        return (
+          isObject(value) &&
+          isValueMatchingFieldFilter(record[key], value as FieldFilter)
+        );
+    }
+  });
@@ -467,6 +467,9 @@ export const WORKFLOW_RUN_STANDARD_FIELD_IDS = {
   favorites: '20202020-4baf-4604-b899-2f7fcfbbf90d',
   timelineActivities: '20202020-af4d-4eb0-babc-eb960a45b356',
   searchVector: '20202020-0b91-4ded-b1ac-cbd5efa58cb9',
+  parentWorkflowRun: '20202020-a2af-4fe5-8da3-69625b299828',
+  childWorkflowRuns: '20202020-bdf7-4dde-b726-c05f466b5de5',
+  isTestRun: '20202020-1d5c-4f49-a67a-4e7e888d1d3b',
 } as const;
 
 export const WORKFLOW_VERSION_STANDARD_FIELD_IDS = {
@@ -43,6 +43,7 @@ export class CalendarEventListFetchCronJob {
     const activeWorkspaces = await this.workspaceRepository.find({
       where: {
         activationStatus: WorkspaceActivationStatus.ACTIVE,
+        isDisabled: false,
       },
     });
 
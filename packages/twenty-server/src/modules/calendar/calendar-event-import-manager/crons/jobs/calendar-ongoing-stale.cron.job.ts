@@ -37,6 +37,7 @@ export class CalendarOngoingStaleCronJob {
     const activeWorkspaces = await this.workspaceRepository.find({
       where: {
         activationStatus: WorkspaceActivationStatus.ACTIVE,
+        isDisabled: false,
       },
     });
 
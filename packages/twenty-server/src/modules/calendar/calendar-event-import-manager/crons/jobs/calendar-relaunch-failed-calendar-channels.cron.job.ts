@@ -45,6 +45,7 @@ export class CalendarRelaunchFailedCalendarChannelsCronJob {
     const activeWorkspaces = await this.workspaceRepository.find({
       where: {
         activationStatus: WorkspaceActivationStatus.ACTIVE,
+        isDisabled: false,
       },
     });
 
@@ -0,0 +1 @@
+export const MESSAGE_RECEIVED_EVENT_NAME = 'message_received';
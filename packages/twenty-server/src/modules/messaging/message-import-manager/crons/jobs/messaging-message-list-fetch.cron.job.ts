@@ -41,6 +41,7 @@ export class MessagingMessageListFetchCronJob {
     const activeWorkspaces = await this.workspaceRepository.find({
       where: {
         activationStatus: WorkspaceActivationStatus.ACTIVE,
+        isDisabled: false,
       },
     });
 
@@ -45,6 +45,7 @@ export class MessagingRelaunchFailedMessageChannelsCronJob {
     const activeWorkspaces = await this.workspaceRepository.find({
       where: {
         activationStatus: WorkspaceActivationStatus.ACTIVE,
+        isDisabled: false,
       },
     });
 
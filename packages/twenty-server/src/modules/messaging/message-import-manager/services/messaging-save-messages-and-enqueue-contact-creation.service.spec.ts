@@ -8,6 +8,7 @@ import { MessageQueueService } from 'src/engine/core-modules/message-queue/servi
 import { getQueueToken } from 'src/engine/core-modules/message-queue/utils/get-queue-token.util';
 import { ObjectMetadataEntity } from 'src/engine/metadata-modules/object-metadata/object-metadata.entity';
 import { TwentyORMGlobalManager } from 'src/engine/twenty-orm/twenty-orm-global.manager';
+import { WorkspaceEventEmitter } from 'src/engine/workspace-event-emitter/workspace-event-emitter';
 import { type ConnectedAccountWorkspaceEntity } from 'src/modules/connected-account/standard-objects/connected-account.workspace-entity';
 import { CreateCompanyAndContactJob } from 'src/modules/contact-creation-manager/jobs/create-company-and-contact.job';
 import { MessageDirection } from 'src/modules/messaging/common/enums/message-direction.enum';
@@ -15,6 +16,7 @@ import {
   MessageChannelContactAutoCreationPolicy,
   type MessageChannelWorkspaceEntity,
 } from 'src/modules/messaging/common/standard-objects/message-channel.workspace-entity';
+import { MESSAGE_RECEIVED_EVENT_NAME } from 'src/modules/messaging/message-import-manager/constants/message-received-event-name.constant';
 import { MessagingMessageService } from 'src/modules/messaging/message-import-manager/services/messaging-message.service';
 import { MessagingSaveMessagesAndEnqueueContactCreationService } from 'src/modules/messaging/message-import-manager/services/messaging-save-messages-and-enqueue-contact-creation.service';
 import { type MessageWithParticipants } from 'src/modules/messaging/message-import-manager/types/message';
@@ -25,6 +27,7 @@ describe('MessagingSaveMessagesAndEnqueueContactCreationService', () => {
   let messageQueueService: MessageQueueService;
   let messageService: MessagingMessageService;
   let messageParticipantService: MessagingMessageParticipantService;
+  let workspaceEventEmitter: { emitCustomBatchEvent: jest.Mock };
 
   let datasourceInstance: { transaction: jest.Mock };
 
@@ -38,6 +41,7 @@ describe('MessagingSaveMessagesAndEnqueueContactCreationService', () => {
 
   const mockMessageChannel: MessageChannelWorkspaceEntity = {
     id: 'message-channel-id',
+    handle: 'test@example.com',
     isContactAutoCreationEnabled: true,
     contactAutoCreationPolicy:
       MessageChannelContactAutoCreationPolicy.SENT_AND_RECEIVED,
@@ -108,6 +112,7 @@ describe('MessagingSaveMessagesAndEnqueueContactCreationService', () => {
         return callback({});
       }),
     };
+    workspaceEventEmitter = { emitCustomBatchEvent: jest.fn() };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -159,6 +164,10 @@ describe('MessagingSaveMessagesAndEnqueueContactCreationService', () => {
               .mockResolvedValue(datasourceInstance),
           },
         },
+        {
+          provide: WorkspaceEventEmitter,
+          useValue: workspaceEventEmitter,
+        },
       ],
     }).compile();
 
@@ -250,6 +259,33 @@ describe('MessagingSaveMessagesAndEnqueueContactCreationService', () => {
     );
   });
 
+  it('should emit a message received event for new incoming messages only', async () => {
+    await service.saveMessagesAndEnqueueContactCreation(
+      mockMessages,
+      mockMessageChannel,
+      mockConnectedAccount,
+      workspaceId,
+    );
+
+    expect(workspaceEventEmitter.emitCustomBatchEvent).toHaveBeenCalledWith(
+      MESSAGE_RECEIVED_EVENT_NAME,
+      [
+        {
+          messageId: 'db-message-id-2',
+          messageChannelId: 'message-channel-id',
+          mailbox: 'test@example.com',
+          headerMessageId: 'header-message-id-2',
+          subject: 'Test Subject 2',
+          text: 'Test content 2',
+          receivedAt: mockMessages[1].receivedAt,
+          attachments: [],
+          participants: mockMessages[1].participants,
+        },
+      ],
+      workspaceId,
+    );
+  });
+
   it('should not create personal emails contacts', async () => {
     await service.saveMessagesAndEnqueueContactCreation(
       [
@@ -1,27 +1,33 @@
 import { Injectable } from '@nestjs/common';
 
 import { FieldActorSource, MessageParticipantRole } from 'twenty-shared/types';
+import { isDefined } from 'twenty-shared/utils';
 
 import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
 import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
 import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
 import { type WorkspaceEntityManager } from 'src/engine/twenty-orm/entity-manager/workspace-entity-manager';
 import { TwentyORMGlobalManager } from 'src/engine/twenty-orm/twenty-orm-global.manager';
+import { WorkspaceEventEmitter } from 'src/engine/workspace-event-emitter/workspace-event-emitter';
 import { type ConnectedAccountWorkspaceEntity } from 'src/modules/connected-account/standard-objects/connected-account.workspace-entity';
 import {
   CreateCompanyAndContactJob,
   type CreateCompanyAndContactJobData,
 } from 'src/modules/contact-creation-manager/jobs/create-company-and-contact.job';
+import { MessageDirection } from 'src/modules/messaging/common/enums/message-direction.enum';
 import {
   MessageChannelContactAutoCreationPolicy,
+  type MessageChannelVisibility,
   type MessageChannelWorkspaceEntity,
 } from 'src/modules/messaging/common/standard-objects/message-channel.workspace-entity';
 import {
   type Participant,
   type ParticipantWithMessageId,
 } from 'src/modules/messaging/message-import-manager/drivers/gmail/types/gmail-message.type';
+import { MESSAGE_RECEIVED_EVENT_NAME } from 'src/modules/messaging/message-import-manager/constants/message-received-event-name.constant';
 import { MessagingMessageService } from 'src/modules/messaging/message-import-manager/services/messaging-message.service';
 import { type MessageWithParticipants } from 'src/modules/messaging/message-import-manager/types/message';
+import { type MessageReceivedEvent } from 'src/modules/messaging/message-import-manager/types/message-received-event.type';
 import { MessagingMessageParticipantService } from 'src/modules/messaging/message-participant-manager/services/messaging-message-participant.service';
 import { isWorkEmail } from 'src/utils/is-work-email';
 
@@ -33,6 +39,7 @@ export class MessagingSaveMessagesAndEnqueueContactCreationService {
     private readonly messageService: MessagingMessageService,
     private readonly messageParticipantService: MessagingMessageParticipantService,
     private readonly twentyORMGlobalManager: TwentyORMGlobalManager,
+    private readonly workspaceEventEmitter: WorkspaceEventEmitter,
   ) {}
 
   async saveMessagesAndEnqueueContactCreation(
@@ -48,9 +55,13 @@ export class MessagingSaveMessagesAndEnqueueContactCreationService {
         workspaceId,
       });
 
-    const participantsWithMessageId = await workspaceDataSource?.transaction(
+    const {
+      participantsWithMessageId,
+      messageExternalIdsAndIdsMap,
+      createdMessageIds,
+    } = await workspaceDataSource.transaction(
       async (transactionManager: WorkspaceEntityManager) => {
-        const { messageExternalIdsAndIdsMap } =
+        const { createdMessages, messageExternalIdsAndIdsMap } =
           await this.messageService.saveMessagesWithinTransaction(
             messagesToSave,
             messageChannel.id,
@@ -107,10 +118,24 @@ export class MessagingSaveMessagesAndEnqueueContactCreationService {
           transactionManager,
         );
 
-        return participantsWithMessageId;
+        return {
+          participantsWithMessageId,
+          messageExternalIdsAndIdsMap,
+          createdMessageIds: new Set(
+            createdMessages.map((createdMessage) => createdMessage.id),
+          ),
+        };
       },
     );
 
+    this.emitMessageReceivedEvents(
+      messagesToSave,
+      messageExternalIdsAndIdsMap,
+      createdMessageIds,
+      messageChannel,
+      workspaceId,
+    );
+
     if (messageChannel.isContactAutoCreationEnabled) {
       const contactsToCreate = participantsWithMessageId.filter(
         (participant) => participant.shouldCreateContact,
@@ -127,4 +152,52 @@ export class MessagingSaveMessagesAndEnqueueContactCreationService {
       );
     }
   }
+
+  // Messages already imported through another channel are not considered
+  // received again
+  private emitMessageReceivedEvents(
+    messagesToSave: MessageWithParticipants[],
+    messageExternalIdsAndIdsMap: Map<string, string>,
+    createdMessageIds: Set<string | undefined>,
+    messageChannel: MessageChannelWorkspaceEntity,
+    workspaceId: string,
+  ) {
+    const messageReceivedEvents = new Map<string, MessageReceivedEvent>();
+
+    for (const message of messagesToSave) {
+      const messageId = messageExternalIdsAndIdsMap.get(message.externalId);
+
+      if (
+        message.direction !== MessageDirection.INCOMING ||
+        !isDefined(messageId) ||
+        !createdMessageIds.has(messageId) ||
+        messageReceivedEvents.has(messageId)
+      ) {
+        continue;
+      }
+
+      messageReceivedEvents.set(messageId, {
+        messageId,
+        messageChannelId: messageChannel.id,
+        mailbox: messageChannel.handle,
+        visibility: messageChannel.visibility as MessageChannelVisibility,
+        headerMessageId: message.headerMessageId ?? '',
+        subject: message.subject ?? '',
+        text: message.text ?? '',
+        receivedAt: message.receivedAt,
+        attachments: message.attachments,
+        participants: message.participants,
+      });
+    }
+
+    if (messageReceivedEvents.size === 0) {
+      return;
+    }
+
+    this.workspaceEventEmitter.emitCustomBatchEvent<MessageReceivedEvent>(
+      MESSAGE_RECEIVED_EVENT_NAME,
+      [...messageReceivedEvents.values()],
+      workspaceId,
+    );
+  }
 }
@@ -0,0 +1,20 @@
+import { type MessageChannelVisibility } from 'src/modules/messaging/common/standard-objects/message-channel.workspace-entity';
+import { type MessageParticipant } from 'src/modules/messaging/message-import-manager/types/message';
+
+// Emitted once per incoming message imported for the first time in the
+// workspace
+export type MessageReceivedEvent = {
+  messageId: string;
+  messageChannelId: string;
+  mailbox: string | null;
+  // Subject and text are only shared as far as the channel visibility allows
+  visibility: MessageChannelVisibility;
+  headerMessageId: string;
+  subject: string;
+  text: string;
+  receivedAt: Date | null;
+  attachments: {
+    filename: string;
+  }[];
+  participants: MessageParticipant[];
+};
@@ -20,6 +20,8 @@ import { WorkflowWorkspaceEntity } from './workflow.workspace-entity';
 export enum AutomatedTriggerType {
   DATABASE_EVENT = 'DATABASE_EVENT',
   CRON = 'CRON',
+  WAIT_FOR_EVENT = 'WAIT_FOR_EVENT',
+  EMAIL_RECEIVED = 'EMAIL_RECEIVED',
 }
 
 @WorkspaceEntity({
@@ -51,6 +53,18 @@ export class WorkflowAutomatedTriggerWorkspaceEntity extends BaseWorkspaceEntity
         position: 1,
         color: 'blue',
       },
+      {
+        value: AutomatedTriggerType.WAIT_FOR_EVENT,
+        label: 'Wait For Event',
+        position: 2,
+        color: 'orange',
+      },
+      {
+        value: AutomatedTriggerType.EMAIL_RECEIVED,
+        label: 'Email Received',
+        position: 3,
+        color: 'purple',
+      },
     ],
   })
   type: AutomatedTriggerType;
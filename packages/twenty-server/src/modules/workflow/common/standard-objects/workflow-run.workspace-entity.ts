@@ -74,6 +74,10 @@ export type WorkflowRunState = {
   };
   stepInfos: WorkflowRunStepInfos;
   workflowRunError?: string;
+  // Step of the parent run that started this run as a sub-workflow
+  parentStepId?: string;
+  // Outputs used instead of executing steps during a test run, by step id
+  testRunFixtures?: Record<string, object>;
 };
 
 const NAME_FIELD_NAME = 'name';
@@ -208,6 +212,16 @@ export class WorkflowRunWorkspaceEntity extends BaseWorkspaceEntity {
   })
   state: WorkflowRunState;
 
+  @WorkspaceField({
+    standardId: WORKFLOW_RUN_STANDARD_FIELD_IDS.isTestRun,
+    type: FieldMetadataType.BOOLEAN,
+    label: msg`Test run`,
+    description: msg`Whether the run simulated its side effects`,
+    icon: 'IconFlask',
+    defaultValue: false,
+  })
+  isTestRun: boolean;
+
   @WorkspaceField({
     standardId: WORKFLOW_RUN_STANDARD_FIELD_IDS.position,
     type: FieldMetadataType.POSITION,
@@ -266,6 +280,35 @@ export class WorkflowRunWorkspaceEntity extends BaseWorkspaceEntity {
   @WorkspaceJoinColumn('workflow')
   workflowId: string;
 
+  @WorkspaceRelation({
+    standardId: WORKFLOW_RUN_STANDARD_FIELD_IDS.parentWorkflowRun,
+    type: RelationType.MANY_TO_ONE,
+    label: msg`Parent run`,
+    description: msg`Workflow run that started this run as a sub-workflow.`,
+    icon: 'IconHierarchy2',
+    inverseSideTarget: () => WorkflowRunWorkspaceEntity,
+    inverseSideFieldKey: 'childWorkflowRuns',
+    onDelete: RelationOnDeleteAction.SET_NULL,
+  })
+  @WorkspaceIsNullable()
+  parentWorkflowRun: Relation<WorkflowRunWorkspaceEntity> | null;
+
+  @WorkspaceJoinColumn('parentWorkflowRun')
+  parentWorkflowRunId: string | null;
+
+  @WorkspaceRelation({
+    standardId: WORKFLOW_RUN_STANDARD_FIELD_IDS.childWorkflowRuns,
+    type: RelationType.ONE_TO_MANY,
+    label: msg`Sub-workflow runs`,
+    description: msg`Workflow runs started by this run's sub-workflow steps.`,
+    icon: 'IconHierarchy2',
+    inverseSideTarget: () => WorkflowRunWorkspaceEntity,
+    inverseSideFieldKey: 'parentWorkflowRun',
+    onDelete: RelationOnDeleteAction.SET_NULL,
+  })
+  @WorkspaceIsNullable()
+  childWorkflowRuns: Relation<WorkflowRunWorkspaceEntity[]>;
+
   @WorkspaceRelation({
     standardId: WORKFLOW_RUN_STANDARD_FIELD_IDS.favorites,
     type: RelationType.ONE_TO_MANY,
@@ -74,6 +74,28 @@ export class WorkflowCommonWorkspaceService {
     return this.getValidWorkflowVersionOrFail(workflowVersion);
   }
 
+  async getActiveWorkflowVersion({
+    workspaceId,
+    workflowId,
+  }: {
+    workspaceId: string;
+    workflowId: string;
+  }): Promise<WorkflowVersionWorkspaceEntity | null> {
+    const workflowVersionRepository =
+      await this.twentyORMGlobalManager.getRepositoryForWorkspace<WorkflowVersionWorkspaceEntity>(
+        workspaceId,
+        'workflowVersion',
+        { shouldBypassPermissionChecks: true },
+      );
+
+    return workflowVersionRepository.findOne({
+      where: {
+        workflowId,
+        status: WorkflowVersionStatus.ACTIVE,
+      },
+    });
+  }
+
   async getValidWorkflowVersionOrFail(
     workflowVersion: WorkflowVersionWorkspaceEntity | null,
   ): Promise<WorkflowVersionWorkspaceEntity> {
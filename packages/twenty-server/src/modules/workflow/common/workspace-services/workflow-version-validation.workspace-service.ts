@@ -20,6 +20,8 @@ import {
 } from 'src/modules/workflow/common/standard-objects/workflow-version.workspace-entity';
 import { assertWorkflowVersionIsDraft } from 'src/modules/workflow/common/utils/assert-workflow-version-is-draft.util';
 import { WorkflowCommonWorkspaceService } from 'src/modules/workflow/common/workspace-services/workflow-common.workspace-service';
+import { WorkflowTriggerType } from 'src/modules/workflow/workflow-trigger/types/workflow-trigger.type';
+import { assertEmailReceivedTriggerSettingsAreValid } from 'src/modules/workflow/workflow-trigger/utils/assert-email-received-trigger-settings-are-valid.util';
 
 @Injectable()
 export class WorkflowVersionValidationWorkspaceService {
@@ -109,6 +111,10 @@ export class WorkflowVersionValidationWorkspaceService {
         WorkflowQueryValidationExceptionCode.FORBIDDEN,
       );
     }
+
+    if (payload.data.trigger?.type === WorkflowTriggerType.EMAIL_RECEIVED) {
+      assertEmailReceivedTriggerSettingsAreValid(payload.data.trigger.settings);
+    }
   }
 
   async validateWorkflowVersionForDeleteOne(
@@ -0,0 +1 @@
+export const WORKFLOW_BUNDLE_FORMAT_VERSION = 1;
@@ -0,0 +1,17 @@
+// Keys of step and trigger settings holding workspace-specific ids
+export const WORKFLOW_BUNDLE_METADATA_ID_KEYS = [
+  'fieldMetadataId',
+  'objectMetadataId',
+];
+
+export const WORKFLOW_BUNDLE_WORKFLOW_ID_KEY = 'workflowId';
+
+// Keys of step and trigger settings holding an object name
+export const WORKFLOW_BUNDLE_OBJECT_NAME_KEYS = [
+  'objectName',
+  'objectNameSingular',
+  'objectType',
+];
+
+// Database event names are "<objectName>.<action>"
+export const WORKFLOW_BUNDLE_EVENT_NAME_KEY = 'eventName';
@@ -0,0 +1,8 @@
+import { CustomException } from 'src/utils/custom-exception';
+
+export class WorkflowBundleException extends CustomException<WorkflowBundleExceptionCode> {}
+
+export enum WorkflowBundleExceptionCode {
+  WORKFLOW_NOT_FOUND = 'WORKFLOW_NOT_FOUND',
+  INVALID_BUNDLE = 'INVALID_BUNDLE',
+}
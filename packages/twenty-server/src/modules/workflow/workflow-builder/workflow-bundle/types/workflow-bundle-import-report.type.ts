@@ -0,0 +1,13 @@
+import { type WorkflowBundleReference } from 'src/modules/workflow/workflow-builder/workflow-bundle/types/workflow-bundle.type';
+
+export type WorkflowBundleUnresolvedReference = WorkflowBundleReference & {
+  versionName: string | null;
+  stepId: string;
+};
+
+export type WorkflowBundleImportReport = {
+  workflowId: string;
+  workflowVersionIds: string[];
+  activated: boolean;
+  unresolvedReferences: WorkflowBundleUnresolvedReference[];
+};
@@ -0,0 +1,42 @@
+import { type Sources } from 'twenty-shared/types';
+
+import { type WorkflowVersionStatus } from 'src/modules/workflow/common/standard-objects/workflow-version.workspace-entity';
+import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+import { type WorkflowTrigger } from 'src/modules/workflow/workflow-trigger/types/workflow-trigger.type';
+
+// Workspace-specific ids are kept as-is in the bundle and described by name
+// here, so that they can be remapped in the target workspace
+export type WorkflowBundleReference =
+  | { type: 'object'; objectName: string }
+  | { type: 'field'; objectName: string; fieldName: string }
+  | { type: 'workflow'; workflowName: string };
+
+export type WorkflowBundleVersion = {
+  name: string | null;
+  status: WorkflowVersionStatus;
+  trigger: WorkflowTrigger | null;
+  steps: WorkflowAction[] | null;
+};
+
+export type WorkflowBundleServerlessFunction = {
+  name: string;
+  description: string | null;
+  timeoutSeconds: number;
+  handlerName: string;
+  handlerPath: string;
+  code: Sources;
+};
+
+export type WorkflowBundle = {
+  formatVersion: number;
+  exportedAt: string;
+  workflow: {
+    name: string | null;
+  };
+  // Oldest first
+  versions: WorkflowBundleVersion[];
+  // By "<serverlessFunctionId>:<serverlessFunctionVersion>" of the code steps
+  serverlessFunctions: Record<string, WorkflowBundleServerlessFunction>;
+  // By id in the source workspace
+  references: Record<string, WorkflowBundleReference>;
+};
@@ -0,0 +1,48 @@
+import { collectWorkflowBundleReferences } from 'src/modules/workflow/workflow-builder/workflow-bundle/utils/collect-workflow-bundle-references.util';
+
+describe('collectWorkflowBundleReferences', () => {
+  it('should collect metadata ids, workflow ids and object names', () => {
+    const result = collectWorkflowBundleReferences([
+      {
+        type: 'DATABASE_EVENT',
+        settings: { eventName: 'company.updated' },
+      },
+      [
+        {
+          type: 'FIND_RECORDS',
+          settings: {
+            input: {
+              objectName: 'person',
+              filter: {
+                recordFilters: [{ fieldMetadataId: 'field-id', value: 'Acme' }],
+              },
+            },
+          },
+        },
+        {
+          type: 'RUN_WORKFLOW',
+          settings: { input: { workflowId: 'workflow-id' } },
+        },
+      ],
+    ]);
+
+    expect(result).toEqual({
+      metadataIds: ['field-id'],
+      workflowIds: ['workflow-id'],
+      objectNames: ['company', 'person'],
+    });
+  });
+
+  it('should ignore variables', () => {
+    const result = collectWorkflowBundleReferences({
+      objectName: '{{trigger.objectName}}',
+      workflowId: '{{step.workflowId}}',
+    });
+
+    expect(result).toEqual({
+      metadataIds: [],
+      workflowIds: [],
+      objectNames: [],
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { replaceWorkflowBundleIds } from 'src/modules/workflow/workflow-builder/workflow-bundle/utils/replace-workflow-bundle-ids.util';
+
+describe('replaceWorkflowBundleIds', () => {
+  it('should replace known ids and keep the others', () => {
+    const result = replaceWorkflowBundleIds(
+      {
+        input: {
+          objectName: 'company',
+          recordFilters: [
+            { fieldMetadataId: 'source-field-id', value: 'Acme' },
+            { fieldMetadataId: 'unknown-field-id', value: 'Inc' },
+          ],
+          workflowId: 'source-workflow-id',
+        },
+      },
+      {
+        'source-field-id': 'target-field-id',
+        'source-workflow-id': 'target-workflow-id',
+      },
+    );
+
+    expect(result).toEqual({
+      input: {
+        objectName: 'company',
+        recordFilters: [
+          { fieldMetadataId: 'target-field-id', value: 'Acme' },
+          { fieldMetadataId: 'unknown-field-id', value: 'Inc' },
+        ],
+        workflowId: 'target-workflow-id',
+      },
+    });
+  });
+
+  it('should not replace ids under other keys', () => {
+    const result = replaceWorkflowBundleIds(
+      { id: 'source-field-id' },
+      { 'source-field-id': 'target-field-id' },
+    );
+
+    expect(result).toEqual({ id: 'source-field-id' });
+  });
+});
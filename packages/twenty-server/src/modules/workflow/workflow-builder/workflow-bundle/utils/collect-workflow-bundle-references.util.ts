@@ -0,0 +1,65 @@
+import { isNonEmptyString, isObject } from '@sniptt/guards';
+
+import {
+  WORKFLOW_BUNDLE_EVENT_NAME_KEY,
+  WORKFLOW_BUNDLE_METADATA_ID_KEYS,
+  WORKFLOW_BUNDLE_OBJECT_NAME_KEYS,
+  WORKFLOW_BUNDLE_WORKFLOW_ID_KEY,
+} from 'src/modules/workflow/workflow-builder/workflow-bundle/constants/workflow-bundle-reference-keys';
+
+export type WorkflowBundleCollectedReferences = {
+  metadataIds: string[];
+  workflowIds: string[];
+  objectNames: string[];
+};
+
+const isVariable = (value: string) => value.includes('{{');
+
+export const collectWorkflowBundleReferences = (
+  value: unknown,
+): WorkflowBundleCollectedReferences => {
+  const metadataIds = new Set<string>();
+  const workflowIds = new Set<string>();
+  const objectNames = new Set<string>();
+
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+
+      return;
+    }
+
+    if (!isObject(node)) {
+      return;
+    }
+
+    for (const [key, child] of Object.entries(node)) {
+      if (!isNonEmptyString(child)) {
+        visit(child);
+        continue;
+      }
+
+      if (isVariable(child)) {
+        continue;
+      }
+
+      if (WORKFLOW_BUNDLE_METADATA_ID_KEYS.includes(key)) {
+        metadataIds.add(child);
+      } else if (key === WORKFLOW_BUNDLE_WORKFLOW_ID_KEY) {
+        workflowIds.add(child);
+      } else if (WORKFLOW_BUNDLE_OBJECT_NAME_KEYS.includes(key)) {
+        objectNames.add(child);
+      } else if (key === WORKFLOW_BUNDLE_EVENT_NAME_KEY) {
+        objectNames.add(child.split('.')[0]);
+      }
+    }
+  };
+
+  visit(value);
+
+  return {
+    metadataIds: [...metadataIds],
+    workflowIds: [...workflowIds],
+    objectNames: [...objectNames],
+  };
+};
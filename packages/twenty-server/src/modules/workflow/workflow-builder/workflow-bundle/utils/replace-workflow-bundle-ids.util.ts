@@ -0,0 +1,41 @@
+import { isObject } from '@sniptt/guards';
+
+import {
+  WORKFLOW_BUNDLE_METADATA_ID_KEYS,
+  WORKFLOW_BUNDLE_WORKFLOW_ID_KEY,
+} from 'src/modules/workflow/workflow-builder/workflow-bundle/constants/workflow-bundle-reference-keys';
+
+const ID_KEYS = [
+  ...WORKFLOW_BUNDLE_METADATA_ID_KEYS,
+  WORKFLOW_BUNDLE_WORKFLOW_ID_KEY,
+];
+
+// Ids missing from idBySourceId are left untouched
+export const replaceWorkflowBundleIds = <T>(
+  value: T,
+  idBySourceId: Record<string, string>,
+): T => {
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      replaceWorkflowBundleIds(item, idBySourceId),
+    ) as T;
+  }
+
+  if (!isObject(value)) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => {
+      if (
+        ID_KEYS.includes(key) &&
+        typeof child === 'string' &&
+        child in idBySourceId
+      ) {
+        return [key, idBySourceId[child]];
+      }
+
+      return [key, replaceWorkflowBundleIds(child, idBySourceId)];
+    }),
+  ) as T;
+};
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { RecordPositionModule } from 'src/engine/core-modules/record-position/record-position.module';
+import { ServerlessFunctionEntity } from 'src/engine/metadata-modules/serverless-function/serverless-function.entity';
+import { ServerlessFunctionModule } from 'src/engine/metadata-modules/serverless-function/serverless-function.module';
+import { WorkflowCommonModule } from 'src/modules/workflow/common/workflow-common.module';
+import { WorkflowBundleWorkspaceService } from 'src/modules/workflow/workflow-builder/workflow-bundle/workflow-bundle.workspace-service';
+import { WorkflowTriggerModule } from 'src/modules/workflow/workflow-trigger/workflow-trigger.module';
+
+@Module({
+  imports: [
+    WorkflowCommonModule,
+    WorkflowTriggerModule,
+    ServerlessFunctionModule,
+    RecordPositionModule,
+    TypeOrmModule.forFeature([ServerlessFunctionEntity]),
+  ],
+  providers: [WorkflowBundleWorkspaceService],
+  exports: [WorkflowBundleWorkspaceService],
+})
+export class WorkflowBundleModule {}
@@ -0,0 +1,672 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { isDefined } from 'twenty-shared/utils';
+import { TRIGGER_STEP_ID } from 'twenty-shared/workflow';
+import { In, Repository } from 'typeorm';
+
+import { RecordPositionService } from 'src/engine/core-modules/record-position/services/record-position.service';
+import { type FlatEntityMaps } from 'src/engine/metadata-modules/flat-entity/types/flat-entity-maps.type';
+import { type FlatFieldMetadata } from 'src/engine/metadata-modules/flat-field-metadata/types/flat-field-metadata.type';
+import { type FlatObjectMetadata } from 'src/engine/metadata-modules/flat-object-metadata/types/flat-object-metadata.type';
+import { ServerlessFunctionEntity } from 'src/engine/metadata-modules/serverless-function/serverless-function.entity';
+import { ServerlessFunctionService } from 'src/engine/metadata-modules/serverless-function/serverless-function.service';
+import { type WorkspaceEntityManager } from 'src/engine/twenty-orm/entity-manager/workspace-entity-manager';
+import { type WorkspaceRepository } from 'src/engine/twenty-orm/repository/workspace.repository';
+import { TwentyORMGlobalManager } from 'src/engine/twenty-orm/twenty-orm-global.manager';
+import {
+  WorkflowVersionStatus,
+  type WorkflowVersionWorkspaceEntity,
+} from 'src/modules/workflow/common/standard-objects/workflow-version.workspace-entity';
+import {
+  WorkflowStatus,
+  type WorkflowWorkspaceEntity,
+} from 'src/modules/workflow/common/standard-objects/workflow.workspace-entity';
+import { WorkflowCommonWorkspaceService } from 'src/modules/workflow/common/workspace-services/workflow-common.workspace-service';
+import { WORKFLOW_BUNDLE_FORMAT_VERSION } from 'src/modules/workflow/workflow-builder/workflow-bundle/constants/workflow-bundle-format-version';
+import {
+  WorkflowBundleException,
+  WorkflowBundleExceptionCode,
+} from 'src/modules/workflow/workflow-builder/workflow-bundle/exceptions/workflow-bundle.exception';
+import {
+  type WorkflowBundleImportReport,
+  type WorkflowBundleUnresolvedReference,
+} from 'src/modules/workflow/workflow-builder/workflow-bundle/types/workflow-bundle-import-report.type';
+import {
+  type WorkflowBundle,
+  type WorkflowBundleReference,
+  type WorkflowBundleServerlessFunction,
+  type WorkflowBundleVersion,
+} from 'src/modules/workflow/workflow-builder/workflow-bundle/types/workflow-bundle.type';
+import { collectWorkflowBundleReferences } from 'src/modules/workflow/workflow-builder/workflow-bundle/utils/collect-workflow-bundle-references.util';
+import { replaceWorkflowBundleIds } from 'src/modules/workflow/workflow-builder/workflow-bundle/utils/replace-workflow-bundle-ids.util';
+import { isWorkflowCodeAction } from 'src/modules/workflow/workflow-executor/workflow-actions/code/guards/is-workflow-code-action.guard';
+import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+import { WorkflowTriggerWorkspaceService } from 'src/modules/workflow/workflow-trigger/workspace-services/workflow-trigger.workspace-service';
+
+const getServerlessFunctionKey = ({
+  serverlessFunctionId,
+  serverlessFunctionVersion,
+}: {
+  serverlessFunctionId: string;
+  serverlessFunctionVersion: string;
+}) => `${serverlessFunctionId}:${serverlessFunctionVersion}`;
+
+@Injectable()
+export class WorkflowBundleWorkspaceService {
+  private readonly logger = new Logger(WorkflowBundleWorkspaceService.name);
+
+  constructor(
+    private readonly twentyORMGlobalManager: TwentyORMGlobalManager,
+    private readonly workflowCommonWorkspaceService: WorkflowCommonWorkspaceService,
+    private readonly workflowTriggerWorkspaceService: WorkflowTriggerWorkspaceService,
+    private readonly serverlessFunctionService: ServerlessFunctionService,
+    private readonly recordPositionService: RecordPositionService,
+    @InjectRepository(ServerlessFunctionEntity)
+    private readonly serverlessFunctionRepository: Repository<ServerlessFunctionEntity>,
+  ) {}
+
+  async exportWorkflow({
+    workspaceId,
+    workflowId,
+  }: {
+    workspaceId: string;
+    workflowId: string;
+  }): Promise<WorkflowBundle> {
+    const workflowRepository =
+      await this.twentyORMGlobalManager.getRepositoryForWorkspace<WorkflowWorkspaceEntity>(
+        workspaceId,
+        'workflow',
+        { shouldBypassPermissionChecks: true },
+      );
+
+    const workflowVersionRepository =
+      await this.twentyORMGlobalManager.getRepositoryForWorkspace<WorkflowVersionWorkspaceEntity>(
+        workspaceId,
+        'workflowVersion',
+        { shouldBypassPermissionChecks: true },
+      );
+
+    const workflow = await workflowRepository.findOne({
+      where: { id: workflowId },
+    });
+
+    if (!isDefined(workflow)) {
+      throw new WorkflowBundleException(
+        'Workflow not found',
+        WorkflowBundleExceptionCode.WORKFLOW_NOT_FOUND,
+      );
+    }
+
+    const workflowVersions = await workflowVersionRepository.find({
+      where: { workflowId },
+      order: { createdAt: 'ASC' },
+    });
+
+    const versions: WorkflowBundleVersion[] = workflowVersions.map(
+      (workflowVersion) => ({
+        name: workflowVersion.name,
+        status: workflowVersion.status,
+        trigger: workflowVersion.trigger,
+        steps: workflowVersion.steps,
+      }),
+    );
+
+    return {
+      formatVersion: WORKFLOW_BUNDLE_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      workflow: {
+        name: workflow.name,
+      },
+      versions,
+      serverlessFunctions: await this.exportServerlessFunctions({
+        workspaceId,
+        steps: versions.flatMap((version) => version.steps ?? []),
+      }),
+      references: await this.exportReferences({
+        workspaceId,
+        versions,
+      }),
+    };
+  }
+
+  // The bundle is imported as a new workflow whose latest version is a
+  // draft; older versions are kept as archived history
+  async importWorkflow({
+    workspaceId,
+    bundle,
+    activate = false,
+  }: {
+    workspaceId: string;
+    bundle: WorkflowBundle;
+    activate?: boolean;
+  }): Promise<WorkflowBundleImportReport> {
+    this.assertBundleIsValid(bundle);
+
+    const workflowRepository =
+      await this.twentyORMGlobalManager.getRepositoryForWorkspace<WorkflowWorkspaceEntity>(
+        workspaceId,
+        'workflow',
+        { shouldBypassPermissionChecks: true },
+      );
+
+    const workflowVersionRepository =
+      await this.twentyORMGlobalManager.getRepositoryForWorkspace<WorkflowVersionWorkspaceEntity>(
+        workspaceId,
+        'workflowVersion',
+        { shouldBypassPermissionChecks: true },
+      );
+
+    const { idBySourceId, objectNames } = await this.resolveReferences({
+      workspaceId,
+      references: bundle.references ?? {},
+      workflowRepository,
+    });
+
+    const unresolvedReferences = bundle.versions.flatMap((version) =>
+      this.getUnresolvedReferences({
+        version,
+        references: bundle.references ?? {},
+        idBySourceId,
+        objectNames,
+      }),
+    );
+
+    const workflowPosition =
+      await this.recordPositionService.buildRecordPosition({
+        value: 'first',
+        objectMetadata: {
+          isCustom: false,
+          nameSingular: 'workflow',
+        },
+        workspaceId,
+      });
+
+    // Serverless functions are created outside of the workspace transaction,
+    // so they are deleted again when the import fails
+    const serverlessFunctionIdByKey: Record<string, string> = {};
+
+    const versionsToInsert: Array<
+      Pick<
+        WorkflowVersionWorkspaceEntity,
+        'name' | 'status' | 'position' | 'trigger' | 'steps'
+      >
+    > = [];
+
+    let workflowId: string;
+    const workflowVersionIds: string[] = [];
+
+    try {
+      await this.importServerlessFunctions({
+        workspaceId,
+        serverlessFunctions: bundle.serverlessFunctions ?? {},
+        serverlessFunctionIdByKey,
+      });
+
+      for (const [index, version] of bundle.versions.entries()) {
+        const isLatestVersion = index === bundle.versions.length - 1;
+
+        versionsToInsert.push({
+          name: version.name ?? `v${index + 1}`,
+          status: isLatestVersion
+            ? WorkflowVersionStatus.DRAFT
+            : WorkflowVersionStatus.ARCHIVED,
+          position: await this.recordPositionService.buildRecordPosition({
+            value: 'first',
+            objectMetadata: {
+              isCustom: false,
+              nameSingular: 'workflowVersion',
+            },
+            workspaceId,
+            index,
+          }),
+          trigger: isDefined(version.trigger)
+            ? replaceWorkflowBundleIds(version.trigger, idBySourceId)
+            : null,
+          steps: isDefined(version.steps)
+            ? replaceWorkflowBundleIds(version.steps, idBySourceId).map(
+                (step) =>
+                  this.remapCodeStep({ step, serverlessFunctionIdByKey }),
+              )
+            : null,
+        });
+      }
+
+      const workspaceDataSource =
+        await this.twentyORMGlobalManager.getDataSourceForWorkspace({
+          workspaceId,
+        });
+
+      workflowId = await workspaceDataSource.transaction(
+        async (transactionManager: WorkspaceEntityManager) => {
+          const insertWorkflowResult = await workflowRepository.insert(
+            {
+              name: bundle.workflow?.name ?? null,
+              statuses: [WorkflowStatus.DRAFT],
+              position: workflowPosition,
+            },
+            transactionManager,
+          );
+
+          const insertedWorkflowId = (
+            insertWorkflowResult.generatedMaps[0] as WorkflowWorkspaceEntity
+          ).id;
+
+          for (const versionToInsert of versionsToInsert) {
+            const insertVersionResult = await workflowVersionRepository.insert(
+              { ...versionToInsert, workflowId: insertedWorkflowId },
+              transactionManager,
+            );
+
+            workflowVersionIds.push(
+              (
+                insertVersionResult
+                  .generatedMaps[0] as WorkflowVersionWorkspaceEntity
+              ).id,
+            );
+          }
+
+          return insertedWorkflowId;
+        },
+      );
+    } catch (error) {
+      await this.deleteImportedServerlessFunctions({
+        workspaceId,
+        serverlessFunctionIds: Object.values(serverlessFunctionIdByKey),
+      });
+
+      throw error;
+    }
+
+    // A version with dangling references would fail at run time
+    const shouldActivate = activate && unresolvedReferences.length === 0;
+
+    if (shouldActivate) {
+      await this.workflowTriggerWorkspaceService.activateWorkflowVersion(
+        workflowVersionIds[workflowVersionIds.length - 1],
+        workspaceId,
+      );
+    }
+
+    return {
+      workflowId,
+      workflowVersionIds,
+      activated: shouldActivate,
+      unresolvedReferences,
+    };
+  }
+
+  private assertBundleIsValid(bundle: WorkflowBundle) {
+    if (bundle?.formatVersion !== WORKFLOW_BUNDLE_FORMAT_VERSION) {
+      throw new WorkflowBundleException(
+        `Unsupported workflow bundle format version: ${bundle?.formatVersion}`,
+        WorkflowBundleExceptionCode.INVALID_BUNDLE,
+      );
+    }
+
+    if (!Array.isArray(bundle.versions) || bundle.versions.length === 0) {
+      throw new WorkflowBundleException(
+        'Workflow bundle has no version',
+        WorkflowBundleExceptionCode.INVALID_BUNDLE,
+      );
+    }
+  }
+
+  private async exportServerlessFunctions({
+    workspaceId,
+    steps,
+  }: {
+    workspaceId: string;
+    steps: WorkflowAction[];
+  }): Promise<Record<string, WorkflowBundleServerlessFunction>> {
+    const serverlessFunctions: Record<
+      string,
+      WorkflowBundleServerlessFunction
+    > = {};
+
+    for (const step of steps) {
+      if (!isWorkflowCodeAction(step)) {
+        continue;
+      }
+
+      const { serverlessFunctionId, serverlessFunctionVersion } =
+        step.settings.input;
+
+      const key = getServerlessFunctionKey({
+        serverlessFunctionId,
+        serverlessFunctionVersion,
+      });
+
+      if (isDefined(serverlessFunctions[key])) {
+        continue;
+      }
+
+      const serverlessFunction =
+        await this.serverlessFunctionRepository.findOne({
+          where: { id: serverlessFunctionId, workspaceId },
+        });
+
+      if (!isDefined(serverlessFunction)) {
+        continue;
+      }
+
+      const code =
+        await this.serverlessFunctionService.getServerlessFunctionSourceCode(
+          workspaceId,
+          serverlessFunctionId,
+          serverlessFunctionVersion,
+        );
+
+      serverlessFunctions[key] = {
+        name: serverlessFunction.name,
+        description: serverlessFunction.description,
+        timeoutSeconds: serverlessFunction.timeoutSeconds,
+        handlerName: serverlessFunction.handlerName,
+        handlerPath: serverlessFunction.handlerPath,
+        code: code ?? {},
+      };
+    }
+
+    return serverlessFunctions;
+  }
+
+  private async importServerlessFunctions({
+    workspaceId,
+    serverlessFunctions,
+    serverlessFunctionIdByKey,
+  }: {
+    workspaceId: string;
+    serverlessFunctions: Record<string, WorkflowBundleServerlessFunction>;
+    serverlessFunctionIdByKey: Record<string, string>;
+  }): Promise<void> {
+    for (const [key, serverlessFunction] of Object.entries(
+      serverlessFunctions,
+    )) {
+      const createdServerlessFunction =
+        await this.serverlessFunctionService.createOneServerlessFunction(
+          {
+            name: serverlessFunction.name,
+            description: serverlessFunction.description ?? undefined,
+            timeoutSeconds: serverlessFunction.timeoutSeconds,
+          },
+          workspaceId,
+        );
+
+      if (!isDefined(createdServerlessFunction)) {
+        continue;
+      }
+
+      serverlessFunctionIdByKey[key] = createdServerlessFunction.id;
+
+      await this.serverlessFunctionService.updateOneServerlessFunction(
+        {
+          id: createdServerlessFunction.id,
+          update: {
+            name: serverlessFunction.name,
+            description: serverlessFunction.description ?? undefined,
+            timeoutSeconds: serverlessFunction.timeoutSeconds,
+            handlerName: serverlessFunction.handlerName,
+            handlerPath: serverlessFunction.handlerPath,
+            code: serverlessFunction.code,
+          },
+        },
+        workspaceId,
+      );
+    }
+  }
+
+  private async deleteImportedServerlessFunctions({
+    workspaceId,
+    serverlessFunctionIds,
+  }: {
+    workspaceId: string;
+    serverlessFunctionIds: string[];
+  }) {
+    for (const serverlessFunctionId of serverlessFunctionIds) {
+      try {
+        await this.serverlessFunctionService.deleteOneServerlessFunction({
+          id: serverlessFunctionId,
+          workspaceId,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to delete serverless function ${serverlessFunctionId} of a failed workflow import: ${error}`,
+        );
+      }
+    }
+  }
+
+  private remapCodeStep({
+    step,
+    serverlessFunctionIdByKey,
+  }: {
+    step: WorkflowAction;
+    serverlessFunctionIdByKey: Record<string, string>;
+  }): WorkflowAction {
+    if (!isWorkflowCodeAction(step)) {
+      return step;
+    }
+
+    const serverlessFunctionId =
+      serverlessFunctionIdByKey[getServerlessFunctionKey(step.settings.input)];
+
+    if (!isDefined(serverlessFunctionId)) {
+      return step;
+    }
+
+    return {
+      ...step,
+      settings: {
+        ...step.settings,
+        input: {
+          ...step.settings.input,
+          serverlessFunctionId,
+          serverlessFunctionVersion: 'draft',
+        },
+      },
+    };
+  }
+
+  private async exportReferences({
+    workspaceId,
+    versions,
+  }: {
+    workspaceId: string;
+    versions: WorkflowBundleVersion[];
+  }): Promise<Record<string, WorkflowBundleReference>> {
+    const { metadataIds, workflowIds } = collectWorkflowBundleReferences(
+      versions.map((version) => [version.trigger, version.steps]),
+    );
+
+    const { flatObjectMetadataMaps, flatFieldMetadataMaps } =
+      await this.workflowCommonWorkspaceService.getFlatEntityMaps(workspaceId);
+
+    const references: Record<string, WorkflowBundleReference> = {};
+
+    for (const metadataId of metadataIds) {
+      const reference = this.getMetadataReference({
+        metadataId,
+        flatObjectMetadataMaps,
+        flatFieldMetadataMaps,
+      });
+
+      if (isDefined(reference)) {
+        references[metadataId] = reference;
+      }
+    }
+
+    if (workflowIds.length > 0) {
+      const workflowRepository =
+        await this.twentyORMGlobalManager.getRepositoryForWorkspace<WorkflowWorkspaceEntity>(
+          workspaceId,
+          'workflow',
+          { shouldBypassPermissionChecks: true },
+        );
+
+      const workflows = await workflowRepository.find({
+        where: { id: In(workflowIds) },
+      });
+
+      for (const workflow of workflows) {
+        if (isDefined(workflow.name)) {
+          references[workflow.id] = {
+            type: 'workflow',
+            workflowName: workflow.name,
+          };
+        }
+      }
+    }
+
+    return references;
+  }
+
+  private getMetadataReference({
+    metadataId,
+    flatObjectMetadataMaps,
+    flatFieldMetadataMaps,
+  }: {
+    metadataId: string;
+    flatObjectMetadataMaps: FlatEntityMaps<FlatObjectMetadata>;
+    flatFieldMetadataMaps: FlatEntityMaps<FlatFieldMetadata>;
+  }): WorkflowBundleReference | undefined {
+    const flatFieldMetadata = flatFieldMetadataMaps.byId[metadataId];
+
+    if (isDefined(flatFieldMetadata)) {
+      const flatObjectMetadata =
+        flatObjectMetadataMaps.byId[flatFieldMetadata.objectMetadataId];
+
+      return isDefined(flatObjectMetadata)
+        ? {
+            type: 'field',
+            objectName: flatObjectMetadata.nameSingular,
+            fieldName: flatFieldMetadata.name,
+          }
+        : undefined;
+    }
+
+    const flatObjectMetadata = flatObjectMetadataMaps.byId[metadataId];
+
+    return isDefined(flatObjectMetadata)
+      ? { type: 'object', objectName: flatObjectMetadata.nameSingular }
+      : undefined;
+  }
+
+  private async resolveReferences({
+    workspaceId,
+    references,
+    workflowRepository,
+  }: {
+    workspaceId: string;
+    references: Record<string, WorkflowBundleReference>;
+    workflowRepository: WorkspaceRepository<WorkflowWorkspaceEntity>;
+  }): Promise<{
+    idBySourceId: Record<string, string>;
+    objectNames: Set<string>;
+  }> {
+    const {
+      flatObjectMetadataMaps,
+      flatFieldMetadataMaps,
+      objectIdByNameSingular,
+    } =
+      await this.workflowCommonWorkspaceService.getFlatEntityMaps(workspaceId);
+
+    const workflowNames = Object.values(references).flatMap((reference) =>
+      reference.type === 'workflow' ? [reference.workflowName] : [],
+    );
+
+    const workflows =
+      workflowNames.length > 0
+        ? await workflowRepository.find({
+            where: { name: In(workflowNames) },
+          })
+        : [];
+
+    const idBySourceId: Record<string, string> = {};
+
+    for (const [sourceId, reference] of Object.entries(references)) {
+      let targetId: string | undefined;
+
+      switch (reference.type) {
+        case 'object':
+          targetId = objectIdByNameSingular[reference.objectName];
+          break;
+        case 'field': {
+          const objectId = objectIdByNameSingular[reference.objectName];
+
+          targetId = flatObjectMetadataMaps.byId[
+            objectId
+          ]?.fieldMetadataIds.find(
+            (fieldMetadataId) =>
+              flatFieldMetadataMaps.byId[fieldMetadataId]?.name ===
+              reference.fieldName,
+          );
+          break;
+        }
+        case 'workflow':
+          targetId = workflows.find(
+            (workflow) => workflow.name === reference.workflowName,
+          )?.id;
+          break;
+      }
+
+      if (isDefined(targetId)) {
+        idBySourceId[sourceId] = targetId;
+      }
+    }
+
+    return {
+      idBySourceId,
+      objectNames: new Set(Object.keys(objectIdByNameSingular)),
+    };
+  }
+
+  private getUnresolvedReferences({
+    version,
+    references,
+    idBySourceId,
+    objectNames,
+  }: {
+    version: WorkflowBundleVersion;
+    references: Record<string, WorkflowBundleReference>;
+    idBySourceId: Record<string, string>;
+    objectNames: Set<string>;
+  }): WorkflowBundleUnresolvedReference[] {
+    const stepsWithId: Array<{ stepId: string; value: unknown }> = [
+      { stepId: TRIGGER_STEP_ID, value: version.trigger },
+      ...(version.steps ?? []).map((step) => ({
+        stepId: step.id,
+        value: step,
+      })),
+    ];
+
+    return stepsWithId.flatMap(({ stepId, value }) => {
+      const collectedReferences = collectWorkflowBundleReferences(value);
+
+      const unresolvedSourceIds = [
+        ...collectedReferences.metadataIds,
+        ...collectedReferences.workflowIds,
+      ].filter(
+        (sourceId) =>
+          isDefined(references[sourceId]) && !isDefined(idBySourceId[sourceId]),
+      );
+
+      const unresolvedObjectNames = collectedReferences.objectNames.filter(
+        (objectName) => !objectNames.has(objectName),
+      );
+
+      return [
+        ...unresolvedSourceIds.map((sourceId) => ({
+          ...references[sourceId],
+          versionName: version.name,
+          stepId,
+        })),
+        ...unresolvedObjectNames.map((objectName) => ({
+          type: 'object' as const,
+          objectName,
+          versionName: version.name,
+          stepId,
+        })),
+      ];
+    });
+  }
+}
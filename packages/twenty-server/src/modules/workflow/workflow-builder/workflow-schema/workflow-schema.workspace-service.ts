@@ -2,7 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 
 import { isString } from '@sniptt/guards';
-import { isDefined, isValidVariable } from 'twenty-shared/utils';
+import { isDefined, isValidUuid, isValidVariable } from 'twenty-shared/utils';
 import {
   BaseOutputSchemaV2,
   BulkRecordsAvailability,
@@ -83,6 +83,9 @@ export class WorkflowSchemaWorkspaceService {
       case WorkflowTriggerType.CRON: {
         return {};
       }
+      case WorkflowTriggerType.EMAIL_RECEIVED: {
+        return this.computeEmailReceivedTriggerOutputSchema({ workspaceId });
+      }
       case WorkflowActionType.SEND_EMAIL: {
         return this.computeSendEmailActionOutputSchema();
       }
@@ -127,6 +130,79 @@ export class WorkflowSchemaWorkspaceService {
           },
         };
       }
+      case WorkflowActionType.IF_ELSE:
+      case WorkflowActionType.SWITCH: {
+        return {
+          branchId: {
+            label: 'Branch Id',
+            isLeaf: true,
+            type: 'string',
+            value: generateFakeValue('string'),
+          },
+          branchLabel: {
+            label: 'Branch Label',
+            isLeaf: true,
+            type: 'string',
+            value: generateFakeValue('string'),
+          },
+        };
+      }
+      case WorkflowActionType.WAIT_FOR_EVENT: {
+        return {
+          branchId: {
+            label: 'Branch Id',
+            isLeaf: true,
+            type: 'string',
+            value: generateFakeValue('string'),
+          },
+          branchLabel: {
+            label: 'Branch Label',
+            isLeaf: true,
+            type: 'string',
+            value: generateFakeValue('string'),
+          },
+          timedOut: {
+            label: 'Timed Out',
+            isLeaf: true,
+            type: 'boolean',
+            value: false,
+          },
+          event: {
+            label: 'Event',
+            isLeaf: false,
+            type: 'object',
+            value: await this.computeDatabaseEventTriggerOutputSchema({
+              eventName: step.settings.input.eventName,
+              workspaceId,
+            }),
+          },
+        };
+      }
+      case WorkflowActionType.RUN_WORKFLOW: {
+        return {
+          workflowRunId: {
+            label: 'Workflow Run Id',
+            isLeaf: true,
+            type: 'string',
+            value: generateFakeValue('string'),
+          },
+          status: {
+            label: 'Status',
+            isLeaf: true,
+            type: 'string',
+            value: 'COMPLETED',
+          },
+          output: {
+            label: 'Output',
+            isLeaf: false,
+            type: 'object',
+            value: await this.computeRunWorkflowActionOutputSchema({
+              workflowId: step.settings.input.workflowId,
+              workspaceId,
+            }),
+          },
+        };
+      }
       case WorkflowActionType.AI_AGENT: {
         const agentId = step.settings.input.agentId;
 
@@ -166,6 +242,42 @@ export class WorkflowSchemaWorkspaceService {
     }
   }
 
+  // The sub-workflow output is the merged result of the final steps of its
+  // active version, see getWorkflowRunOutput
+  private async computeRunWorkflowActionOutputSchema({
+    workflowId,
+    workspaceId,
+  }: {
+    workflowId: string;
+    workspaceId: string;
+  }): Promise<OutputSchema> {
+    if (!isValidUuid(workflowId)) {
+      return {};
+    }
+
+    const workflowVersion =
+      await this.workflowCommonWorkspaceService.getActiveWorkflowVersion({
+        workflowId,
+        workspaceId,
+      });
+
+    const finalStepOutputSchemas = (workflowVersion?.steps ?? [])
+      .filter((step) => (step.nextStepIds ?? []).length === 0)
+      .map((step) => step.settings.outputSchema);
+
+    if (finalStepOutputSchemas.length === 1) {
+      return finalStepOutputSchemas[0];
+    }
+
+    return finalStepOutputSchemas.reduce<OutputSchema>(
+      (outputSchema, finalStepOutputSchema) =>
+        '_outputSchemaType' in finalStepOutputSchema
+          ? outputSchema
+          : { ...outputSchema, ...finalStepOutputSchema },
+      {},
+    );
+  }
+
   async enrichOutputSchema({
     step,
     workspaceId,
@@ -227,6 +339,110 @@ export class WorkflowSchemaWorkspaceService {
     );
   }
 
+  private async computeEmailReceivedTriggerOutputSchema({
+    workspaceId,
+  }: {
+    workspaceId: string;
+  }): Promise<OutputSchema> {
+    const message: Node = {
+      isLeaf: false,
+      label: 'Message',
+      icon: 'IconMail',
+      type: 'object',
+      value: {
+        id: {
+          isLeaf: true,
+          type: 'string',
+          value: generateFakeValue('string'),
+        },
+        subject: {
+          isLeaf: true,
+          type: 'string',
+          icon: 'IconAbc',
+          value: generateFakeValue('string'),
+        },
+        text: {
+          isLeaf: true,
+          type: 'string',
+          icon: 'IconAlignLeft',
+          value: generateFakeValue('string'),
+        },
+        mailbox: {
+          isLeaf: true,
+          type: 'string',
+          icon: 'IconInbox',
+          value: generateFakeValue('string'),
+        },
+        headerMessageId: {
+          isLeaf: true,
+          type: 'string',
+          value: generateFakeValue('string'),
+        },
+        receivedAt: {
+          isLeaf: true,
+          type: 'string',
+          icon: 'IconCalendarEvent',
+          value: generateFakeValue('Date'),
+        },
+        attachments: {
+          isLeaf: true,
+          type: 'array',
+          icon: 'IconPaperclip',
+          value: 'Returns an array of attachments',
+        },
+        from: {
+          isLeaf: false,
+          type: 'object',
+          icon: 'IconUser',
+          value: {
+            handle: {
+              isLeaf: true,
+              type: 'string',
+              value: generateFakeValue('string'),
+            },
+            displayName: {
+              isLeaf: true,
+              type: 'string',
+              value: generateFakeValue('string'),
+            },
+          },
+        },
+      },
+    };
+
+    const participants: Leaf = {
+      isLeaf: true,
+      label: 'Participants',
+      type: 'array',
+      icon: 'IconUsers',
+      value: 'Returns an array of message participants',
+    };
+
+    const person: Node = {
+      isLeaf: false,
+      label: 'Sender Person',
+      icon: 'IconUser',
+      type: 'object',
+      value: await this.computeRecordOutputSchema({
+        objectType: 'person',
+        workspaceId,
+      }),
+    };
+
+    const company: Node = {
+      isLeaf: false,
+      label: 'Sender Company',
+      icon: 'IconBuildingSkyscraper',
+      type: 'object',
+      value: await this.computeRecordOutputSchema({
+        objectType: 'company',
+        workspaceId,
+      }),
+    };
+
+    return { message, participants, person, company } satisfies OutputSchema;
+  }
+
   private async computeFindRecordsOutputSchema({
     objectType,
     workspaceId,
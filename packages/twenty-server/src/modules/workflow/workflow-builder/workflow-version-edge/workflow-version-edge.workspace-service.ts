@@ -15,6 +15,10 @@ import { assertWorkflowVersionIsDraft } from 'src/modules/workflow/common/utils/
 import { WorkflowCommonWorkspaceService } from 'src/modules/workflow/common/workspace-services/workflow-common.workspace-service';
 import { computeWorkflowVersionStepChanges } from 'src/modules/workflow/workflow-builder/utils/compute-workflow-version-step-updates.util';
 import { WorkflowStepConnectionOptions } from 'src/modules/workflow/workflow-builder/workflow-version-step/types/WorkflowStepCreationOptions';
+import { isWorkflowBranchAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/guards/is-workflow-branch-action.guard';
+import { buildWorkflowBranchStep } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/build-workflow-branch-step.util';
+import { getDefaultWorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/get-default-workflow-branch.util';
+import { getWorkflowBranches } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/get-workflow-branches.util';
 import {
   type WorkflowAction,
   WorkflowActionType,
@@ -319,6 +323,15 @@ export class WorkflowVersionEdgeWorkspaceService {
           });
         }
 
+      case WorkflowActionType.IF_ELSE:
+      case WorkflowActionType.SWITCH:
+      case WorkflowActionType.WAIT_FOR_EVENT:
+        return this.buildUpdatedBranchSourceStep({
+          sourceStep,
+          target,
+          branchId: sourceConnectionOptions.settings.branchId,
+        });
+
       default:
         return this.buildUpdatedSourceStep({
           sourceStep,
@@ -344,6 +357,13 @@ export class WorkflowVersionEdgeWorkspaceService {
       };
     }
 
+    if (isWorkflowBranchAction(sourceStep)) {
+      return this.buildUpdatedBranchSourceStep({
+        sourceStep,
+        target,
+      });
+    }
+
     const updatedSourceStep = {
       ...sourceStep,
       nextStepIds: [...(sourceStep.nextStepIds ?? []), target],
@@ -355,6 +375,62 @@ export class WorkflowVersionEdgeWorkspaceService {
     };
   }
 
+  // Without branch, the edge goes to the default branch, or to the last one
+  // when all branches have a condition
+  private buildUpdatedBranchSourceStep({
+    sourceStep,
+    target,
+    branchId,
+  }: {
+    sourceStep: WorkflowAction;
+    target: string;
+    branchId?: string;
+  }): {
+    updatedSourceStep: WorkflowAction;
+    shouldPersist: boolean;
+  } {
+    if (!isWorkflowBranchAction(sourceStep)) {
+      throw new WorkflowVersionEdgeException(
+        `Source step '${sourceStep.id}' is not a branch step`,
+        WorkflowVersionEdgeExceptionCode.INVALID_REQUEST,
+      );
+    }
+
+    const branches = getWorkflowBranches(sourceStep);
+
+    const branch = isDefined(branchId)
+      ? branches.find((branch) => branch.id === branchId)
+      : (getDefaultWorkflowBranch(sourceStep) ?? branches[branches.length - 1]);
+
+    if (!isDefined(branch)) {
+      throw new WorkflowVersionEdgeException(
+        `Branch '${branchId ?? 'default'}' not found in step '${sourceStep.id}'`,
+        WorkflowVersionEdgeExceptionCode.NOT_FOUND,
+      );
+    }
+
+    if (branch.nextStepIds.includes(target)) {
+      return {
+        updatedSourceStep: sourceStep,
+        shouldPersist: false,
+      };
+    }
+
+    return {
+      updatedSourceStep: buildWorkflowBranchStep({
+        step: sourceStep,
+        updateBranch: (stepBranch) =>
+          stepBranch.id === branch.id
+            ? {
+                ...stepBranch,
+                nextStepIds: [...stepBranch.nextStepIds, target],
+              }
+            : stepBranch,
+      }),
+      shouldPersist: true,
+    };
+  }
+
   private async deleteTriggerEdge({
     trigger,
     steps,
@@ -445,12 +521,22 @@ export class WorkflowVersionEdgeWorkspaceService {
           sourceConnectionOptions,
         })
       : {
-          updatedSourceStep: {
-            ...sourceStep,
-            nextStepIds: sourceStep.nextStepIds?.filter(
-              (nextStepId: string) => nextStepId !== target,
-            ),
-          },
+          updatedSourceStep: isWorkflowBranchAction(sourceStep)
+            ? buildWorkflowBranchStep({
+                step: sourceStep,
+                updateBranch: (branch) => ({
+                  ...branch,
+                  nextStepIds: branch.nextStepIds.filter(
+                    (nextStepId) => nextStepId !== target,
+                  ),
+                }),
+              })
+            : {
+                ...sourceStep,
+                nextStepIds: sourceStep.nextStepIds?.filter(
+                  (nextStepId: string) => nextStepId !== target,
+                ),
+              },
           shouldPersist: true,
         };
 
@@ -537,6 +623,46 @@ export class WorkflowVersionEdgeWorkspaceService {
           shouldPersist: true,
         };
 
+      case WorkflowActionType.IF_ELSE:
+      case WorkflowActionType.SWITCH:
+      case WorkflowActionType.WAIT_FOR_EVENT: {
+        if (!isWorkflowBranchAction(sourceStep)) {
+          throw new WorkflowVersionEdgeException(
+            `Source step '${sourceStep.id}' is not a branch step`,
+            WorkflowVersionEdgeExceptionCode.INVALID_REQUEST,
+          );
+        }
+
+        const { branchId } = sourceConnectionOptions.settings;
+
+        const branch = getWorkflowBranches(sourceStep).find(
+          (branch) => branch.id === branchId,
+        );
+
+        if (!isDefined(branch) || !branch.nextStepIds.includes(target)) {
+          return {
+            updatedSourceStep: sourceStep,
+            shouldPersist: false,
+          };
+        }
+
+        return {
+          updatedSourceStep: buildWorkflowBranchStep({
+            step: sourceStep,
+            updateBranch: (stepBranch) =>
+              stepBranch.id === branchId
+                ? {
+                    ...stepBranch,
+                    nextStepIds: stepBranch.nextStepIds.filter(
+                      (id) => id !== target,
+                    ),
+                  }
+                : stepBranch,
+          }),
+          shouldPersist: true,
+        };
+      }
+
       default:
         return {
           updatedSourceStep: {
@@ -7,5 +7,16 @@ type WorkflowIteratorStepConnectionOptions = {
   };
 };
 
+type WorkflowBranchStepConnectionOptions = {
+  connectedStepType:
+    | WorkflowActionType.IF_ELSE
+    | WorkflowActionType.SWITCH
+    | WorkflowActionType.WAIT_FOR_EVENT;
+  settings: {
+    branchId: string;
+  };
+};
+
 export type WorkflowStepConnectionOptions =
-  WorkflowIteratorStepConnectionOptions;
+  | WorkflowIteratorStepConnectionOptions
+  | WorkflowBranchStepConnectionOptions;
@@ -6,6 +6,11 @@ import {
   WorkflowVersionStepExceptionCode,
 } from 'src/modules/workflow/common/exceptions/workflow-version-step.exception';
 import { type WorkflowStepConnectionOptions } from 'src/modules/workflow/workflow-builder/workflow-version-step/types/WorkflowStepCreationOptions';
+import { isWorkflowBranchAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/guards/is-workflow-branch-action.guard';
+import { type WorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-branch.type';
+import { buildWorkflowBranchStep } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/build-workflow-branch-step.util';
+import { getDefaultWorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/get-default-workflow-branch.util';
+import { getWorkflowBranches } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/get-workflow-branches.util';
 import { type WorkflowIteratorActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/iterator/types/workflow-iterator-action-settings.type';
 import {
   type WorkflowAction,
@@ -135,6 +140,30 @@ const updateParentStepNextStepIds = ({
     };
   } else {
     updatedSteps = steps.map((step) => {
+      if (step.id === parentStepId && isWorkflowBranchAction(step)) {
+        const branches = getWorkflowBranches(step);
+        const defaultBranch =
+          getDefaultWorkflowBranch(step) ?? branches[branches.length - 1];
+        const isNextStepInBranch = branches.some((branch) =>
+          branch.nextStepIds.includes(nextStepId ?? ''),
+        );
+
+        return buildWorkflowBranchStep({
+          step,
+          updateBranch: (branch) => {
+            // The inserted step takes the place of the next step in its
+            // branches, or joins the default branch
+            const shouldInsertInBranch = isNextStepInBranch
+              ? branch.nextStepIds.includes(nextStepId ?? '')
+              : branch.id === defaultBranch?.id;
+
+            return shouldInsertInBranch
+              ? insertStepInBranch({ branch, insertedStepId, nextStepId })
+              : branch;
+          },
+        });
+      }
+
       if (step.id === parentStepId) {
         return {
           ...step,
@@ -212,6 +241,43 @@ const updateStepsWithOptions = ({
       });
 
       break;
+    case WorkflowActionType.IF_ELSE:
+    case WorkflowActionType.SWITCH:
+    case WorkflowActionType.WAIT_FOR_EVENT: {
+      const { branchId } = parentStepConnectionOptions.settings;
+
+      updatedSteps = steps.map((step) => {
+        if (step.id === parentStepId) {
+          if (!isWorkflowBranchAction(step)) {
+            throw new WorkflowVersionStepException(
+              `Step ${step.id} is not a branch step`,
+              WorkflowVersionStepExceptionCode.INVALID_REQUEST,
+            );
+          }
+
+          if (
+            !getWorkflowBranches(step).some((branch) => branch.id === branchId)
+          ) {
+            throw new WorkflowVersionStepException(
+              `Branch ${branchId} not found in step ${step.id}`,
+              WorkflowVersionStepExceptionCode.INVALID_REQUEST,
+            );
+          }
+
+          return buildWorkflowBranchStep({
+            step,
+            updateBranch: (branch) =>
+              branch.id === branchId
+                ? insertStepInBranch({ branch, insertedStepId, nextStepId })
+                : branch,
+          });
+        }
+
+        return step;
+      });
+
+      break;
+    }
     default:
       break;
   }
@@ -221,3 +287,21 @@ const updateStepsWithOptions = ({
     updatedTrigger: trigger,
   };
 };
+
+const insertStepInBranch = ({
+  branch,
+  insertedStepId,
+  nextStepId,
+}: {
+  branch: WorkflowBranch;
+  insertedStepId: string;
+  nextStepId?: string;
+}): WorkflowBranch => ({
+  ...branch,
+  nextStepIds: [
+    ...new Set([
+      ...branch.nextStepIds.filter((id) => id !== nextStepId),
+      insertedStepId,
+    ]),
+  ],
+});
@@ -1,6 +1,8 @@
 import { isDefined } from 'twenty-shared/utils';
 import { TRIGGER_STEP_ID } from 'twenty-shared/workflow';
 
+import { isWorkflowBranchAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/guards/is-workflow-branch-action.guard';
+import { buildWorkflowBranchStep } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/build-workflow-branch-step.util';
 import {
   type WorkflowAction,
   WorkflowActionType,
@@ -52,6 +54,26 @@ export const removeStep = ({
     existingSteps
       ?.filter((step) => step.id !== stepIdToDelete)
       .map((step) => {
+        if (
+          isWorkflowBranchAction(step) &&
+          step.nextStepIds?.includes(stepIdToDelete)
+        ) {
+          return buildWorkflowBranchStep({
+            step,
+            updateBranch: (branch) =>
+              branch.nextStepIds.includes(stepIdToDelete)
+                ? {
+                    ...branch,
+                    nextStepIds: computeUpdatedNextStepIds({
+                      existingNextStepIds: branch.nextStepIds,
+                      stepIdToRemove: stepIdToDelete,
+                      stepToDeleteChildrenIds,
+                    }),
+                  }
+                : branch,
+          });
+        }
+
         if (step.nextStepIds?.includes(stepIdToDelete)) {
           return {
             ...step,
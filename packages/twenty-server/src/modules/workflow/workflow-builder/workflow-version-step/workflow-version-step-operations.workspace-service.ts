@@ -1,7 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 
-import { FieldMetadataType } from 'twenty-shared/types';
+import { FieldMetadataType, StepLogicalOperator } from 'twenty-shared/types';
 import { isDefined, isValidUuid } from 'twenty-shared/utils';
 import { Repository } from 'typeorm';
 import { v4 } from 'uuid';
@@ -22,6 +22,8 @@ import {
 } from 'src/modules/workflow/common/exceptions/workflow-version-step.exception';
 import { type WorkflowVersionWorkspaceEntity } from 'src/modules/workflow/common/standard-objects/workflow-version.workspace-entity';
 import { WorkflowCommonWorkspaceService } from 'src/modules/workflow/common/workspace-services/workflow-common.workspace-service';
+import { isWorkflowBranchAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/guards/is-workflow-branch-action.guard';
+import { buildWorkflowBranchStep } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/build-workflow-branch-step.util';
 import { type BaseWorkflowActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action-settings.type';
 import {
   type WorkflowAction,
@@ -443,6 +445,118 @@ export class WorkflowVersionStepOperationsWorkspaceService {
           },
         };
       }
+      case WorkflowActionType.IF_ELSE: {
+        const ifFilterGroupId = v4();
+
+        return {
+          builtStep: {
+            ...baseStep,
+            name: 'If / Else',
+            type: WorkflowActionType.IF_ELSE,
+            settings: {
+              ...BASE_STEP_DEFINITION,
+              input: {
+                stepFilterGroups: [
+                  {
+                    id: ifFilterGroupId,
+                    logicalOperator: StepLogicalOperator.AND,
+                  },
+                ],
+                stepFilters: [],
+                branches: [
+                  {
+                    id: v4(),
+                    label: 'If',
+                    filterGroupId: ifFilterGroupId,
+                    nextStepIds: [],
+                  },
+                  {
+                    id: v4(),
+                    label: 'Else',
+                    nextStepIds: [],
+                  },
+                ],
+              },
+            },
+          },
+        };
+      }
+      case WorkflowActionType.SWITCH: {
+        return {
+          builtStep: {
+            ...baseStep,
+            name: 'Switch',
+            type: WorkflowActionType.SWITCH,
+            settings: {
+              ...BASE_STEP_DEFINITION,
+              input: {
+                value: '',
+                branches: [
+                  {
+                    id: v4(),
+                    label: 'Default',
+                    nextStepIds: [],
+                  },
+                ],
+              },
+            },
+          },
+        };
+      }
+      case WorkflowActionType.RUN_WORKFLOW: {
+        return {
+          builtStep: {
+            ...baseStep,
+            name: 'Run Workflow',
+            type: WorkflowActionType.RUN_WORKFLOW,
+            settings: {
+              ...BASE_STEP_DEFINITION,
+              input: {
+                workflowId: '',
+                payload: {},
+                waitForCompletion: true,
+              },
+            },
+          },
+        };
+      }
+      case WorkflowActionType.WAIT_FOR_EVENT: {
+        return {
+          builtStep: {
+            ...baseStep,
+            name: 'Wait for Event',
+            type: WorkflowActionType.WAIT_FOR_EVENT,
+            settings: {
+              ...BASE_STEP_DEFINITION,
+              input: {
+                eventName: '',
+                recordId: '',
+                stepFilterGroups: [],
+                stepFilters: [],
+                timeout: {
+                  days: 1,
+                  hours: 0,
+                  minutes: 0,
+                  seconds: 0,
+                },
+                branches: [
+                  {
+                    id: v4(),
+                    label: 'Event received',
+                    nextStepIds: [],
+                  },
+                  {
+                    id: v4(),
+                    label: 'Timed out',
+                    isTimeout: true,
+                    nextStepIds: [],
+                  },
+                ],
+              },
+            },
+          },
+        };
+      }
       default:
         throw new WorkflowVersionStepException(
           `WorkflowActionType '${type}' unknown`,
@@ -612,6 +726,22 @@ export class WorkflowVersionStepOperationsWorkspaceService {
           },
         };
       }
+      case WorkflowActionType.IF_ELSE:
+      case WorkflowActionType.SWITCH:
+      case WorkflowActionType.WAIT_FOR_EVENT: {
+        if (!isWorkflowBranchAction(step)) {
+          return step;
+        }
+
+        return {
+          ...buildWorkflowBranchStep({
+            step,
+            updateBranch: (branch) => ({ ...branch, nextStepIds: [] }),
+          }),
+          id: v4(),
+          position: duplicatedStepPosition,
+        };
+      }
       default: {
         return {
           ...step,
@@ -23,6 +23,8 @@ import { assertWorkflowVersionIsDraft } from 'src/modules/workflow/common/utils/
 import { assertWorkflowVersionTriggerIsDefined } from 'src/modules/workflow/common/utils/assert-workflow-version-trigger-is-defined.util';
 import { WorkflowVersionStepOperationsWorkspaceService } from 'src/modules/workflow/workflow-builder/workflow-version-step/workflow-version-step-operations.workspace-service';
 import { WorkflowVersionStepWorkspaceService } from 'src/modules/workflow/workflow-builder/workflow-version-step/workflow-version-step.workspace-service';
+import { isWorkflowBranchAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/guards/is-workflow-branch-action.guard';
+import { buildWorkflowBranchStep } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/build-workflow-branch-step.util';
 import {
   WorkflowActionType,
   type WorkflowAction,
@@ -279,6 +281,18 @@ export class WorkflowVersionWorkspaceService {
           };
         }
 
+        if (isWorkflowBranchAction(remappedStep)) {
+          return buildWorkflowBranchStep({
+            step: remappedStep,
+            updateBranch: (branch) => ({
+              ...branch,
+              nextStepIds: branch.nextStepIds.map(
+                (oldId) => oldToNewIdMap.get(oldId) ?? oldId,
+              ),
+            }),
+          });
+        }
+
         return remappedStep;
       },
     );
@@ -0,0 +1 @@
+export const RETRY_WORKFLOW_STEP_JOB_NAME = 'RetryWorkflowStepJob';
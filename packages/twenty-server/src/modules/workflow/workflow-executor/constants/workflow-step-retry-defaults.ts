@@ -0,0 +1,15 @@
+import { WorkflowStepErrorClass } from 'src/modules/workflow/workflow-executor/types/workflow-step-error-class.type';
+
+export const WORKFLOW_STEP_RETRY_DEFAULTS = {
+  maxAttempts: 3,
+  initialDelayMs: 10 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+  // Errors that are likely to go away on their own. OTHER (validation
+  // errors, 4xx responses...) has to be opted in per step
+  retryableErrorClasses: [
+    WorkflowStepErrorClass.TIMEOUT,
+    WorkflowStepErrorClass.NETWORK,
+    WorkflowStepErrorClass.RATE_LIMIT,
+    WorkflowStepErrorClass.SERVER_ERROR,
+  ],
+};
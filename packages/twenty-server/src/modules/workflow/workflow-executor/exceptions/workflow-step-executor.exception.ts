@@ -7,4 +7,6 @@ export enum WorkflowStepExecutorExceptionCode {
   INVALID_STEP_TYPE = 'INVALID_STEP_TYPE',
   STEP_NOT_FOUND = 'STEP_NOT_FOUND',
   INTERNAL_ERROR = 'INTERNAL_ERROR',
+  INVALID_STEP_INPUT = 'INVALID_STEP_INPUT',
+  MAX_SUB_WORKFLOW_DEPTH_REACHED = 'MAX_SUB_WORKFLOW_DEPTH_REACHED',
 }
@@ -7,6 +7,8 @@ import {
   WorkflowStepExecutorExceptionCode,
 } from 'src/modules/workflow/workflow-executor/exceptions/workflow-step-executor.exception';
 import { AiAgentWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/ai-agent/ai-agent.workflow-action';
+import { IfElseWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/if-else.workflow-action';
+import { SwitchWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/switch.workflow-action';
 import { CodeWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/code/code.workflow-action';
 import { DelayWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/delay/delay.workflow-action';
 import { EmptyWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/empty/empty.workflow-action';
@@ -18,8 +20,10 @@ import { DeleteRecordWorkflowAction } from 'src/modules/workflow/workflow-execut
 import { FindRecordsWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/record-crud/find-records.workflow-action';
 import { UpdateRecordWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/record-crud/update-record.workflow-action';
 import { UpsertRecordWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/record-crud/upsert-record.workflow-action';
+import { RunWorkflowWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/run-workflow.workflow-action';
 import { ToolExecutorWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/tool-executor-workflow-action';
 import { WorkflowActionType } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+import { WaitForEventWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/wait-for-event.workflow-action';
 
 @Injectable()
 export class WorkflowActionFactory {
@@ -37,6 +41,10 @@ export class WorkflowActionFactory {
     private readonly aiAgentWorkflowAction: AiAgentWorkflowAction,
     private readonly emptyWorkflowAction: EmptyWorkflowAction,
     private readonly delayWorkflowAction: DelayWorkflowAction,
+    private readonly ifElseWorkflowAction: IfElseWorkflowAction,
+    private readonly switchWorkflowAction: SwitchWorkflowAction,
+    private readonly runWorkflowWorkflowAction: RunWorkflowWorkflowAction,
+    private readonly waitForEventWorkflowAction: WaitForEventWorkflowAction,
   ) {}
 
   get(stepType: WorkflowActionType): WorkflowAction {
@@ -69,6 +77,14 @@ export class WorkflowActionFactory {
         return this.emptyWorkflowAction;
       case WorkflowActionType.DELAY:
         return this.delayWorkflowAction;
+      case WorkflowActionType.IF_ELSE:
+        return this.ifElseWorkflowAction;
+      case WorkflowActionType.SWITCH:
+        return this.switchWorkflowAction;
+      case WorkflowActionType.RUN_WORKFLOW:
+        return this.runWorkflowWorkflowAction;
+      case WorkflowActionType.WAIT_FOR_EVENT:
+        return this.waitForEventWorkflowAction;
       default:
         throw new WorkflowStepExecutorException(
           `Workflow step executor not found for step type '${stepType}'`,
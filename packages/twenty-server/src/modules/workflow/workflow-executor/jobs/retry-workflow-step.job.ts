@@ -0,0 +1,73 @@
+import { Scope } from '@nestjs/common';
+
+import { StepStatus } from 'twenty-shared/workflow';
+
+import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
+import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { WorkflowRunStatus } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
+import { RETRY_WORKFLOW_STEP_JOB_NAME } from 'src/modules/workflow/workflow-executor/constants/retry-workflow-step-job-name';
+import { type RetryWorkflowStepJobData } from 'src/modules/workflow/workflow-executor/types/retry-workflow-step-job-data.type';
+import { WorkflowExecutorWorkspaceService } from 'src/modules/workflow/workflow-executor/workspace-services/workflow-executor.workspace-service';
+import { WorkflowRunWorkspaceService } from 'src/modules/workflow/workflow-runner/workflow-run/workflow-run.workspace-service';
+
+@Processor({
+  queueName: MessageQueue.delayedJobsQueue,
+  scope: Scope.REQUEST,
+})
+export class RetryWorkflowStepJob {
+  constructor(
+    private readonly workflowExecutorWorkspaceService: WorkflowExecutorWorkspaceService,
+    private readonly workflowRunWorkspaceService: WorkflowRunWorkspaceService,
+  ) {}
+
+  @Process(RETRY_WORKFLOW_STEP_JOB_NAME)
+  async handle({
+    workspaceId,
+    workflowRunId,
+    stepId,
+    attemptCount,
+  }: RetryWorkflowStepJobData): Promise<void> {
+    try {
+      const workflowRun =
+        await this.workflowRunWorkspaceService.getWorkflowRunOrFail({
+          workflowRunId,
+          workspaceId,
+        });
+
+      // The run may have been stopped while the step was waiting
+      if (
+        workflowRun.status !== WorkflowRunStatus.RUNNING ||
+        workflowRun.state?.stepInfos[stepId]?.status !== StepStatus.PENDING
+      ) {
+        return;
+      }
+
+      await this.workflowRunWorkspaceService.updateWorkflowRunStepInfo({
+        stepId,
+        stepInfo: {
+          status: StepStatus.NOT_STARTED,
+        },
+        workflowRunId,
+        workspaceId,
+      });
+
+      await this.workflowExecutorWorkspaceService.executeFromSteps({
+        stepIds: [stepId],
+        workflowRunId,
+        workspaceId,
+        attemptCount,
+      });
+    } catch (error) {
+      await this.workflowRunWorkspaceService.endWorkflowRun({
+        workflowRunId,
+        workspaceId,
+        status: WorkflowRunStatus.FAILED,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Unknown error during step retry',
+      });
+    }
+  }
+}
@@ -0,0 +1,6 @@
+export type RetryWorkflowStepJobData = {
+  workspaceId: string;
+  workflowRunId: string;
+  stepId: string;
+  attemptCount: number;
+};
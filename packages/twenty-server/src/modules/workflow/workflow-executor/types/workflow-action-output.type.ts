@@ -1,6 +1,8 @@
 export type WorkflowActionOutput = {
   result?: object;
   error?: string;
+  // Status code of the failed HTTP call, used to decide whether to retry
+  errorStatusCode?: number;
   pendingEvent?: boolean;
   shouldEndWorkflowRun?: boolean;
   shouldRemainRunning?: boolean;
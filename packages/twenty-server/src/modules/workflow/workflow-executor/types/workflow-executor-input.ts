@@ -4,6 +4,8 @@ export type WorkflowExecutorInput = {
   workspaceId: string;
   shouldComputeWorkflowRunStatus?: boolean;
   executedStepsCount?: number;
+  // Attempt of stepIds, when they are retried after a failure
+  attemptCount?: number;
 };
 
 export type WorkflowBranchExecutorInput = {
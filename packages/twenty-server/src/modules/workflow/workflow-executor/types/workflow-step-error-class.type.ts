@@ -0,0 +1,7 @@
+export enum WorkflowStepErrorClass {
+  TIMEOUT = 'TIMEOUT',
+  NETWORK = 'NETWORK',
+  RATE_LIMIT = 'RATE_LIMIT',
+  SERVER_ERROR = 'SERVER_ERROR',
+  OTHER = 'OTHER',
+}
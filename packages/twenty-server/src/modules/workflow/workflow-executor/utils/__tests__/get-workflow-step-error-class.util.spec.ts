@@ -0,0 +1,44 @@
+import { WorkflowStepErrorClass } from 'src/modules/workflow/workflow-executor/types/workflow-step-error-class.type';
+import { getWorkflowStepErrorClass } from 'src/modules/workflow/workflow-executor/utils/get-workflow-step-error-class.util';
+
+describe('getWorkflowStepErrorClass', () => {
+  it('should classify errors from their status code first', () => {
+    expect(getWorkflowStepErrorClass({ error: 'Nope', statusCode: 429 })).toBe(
+      WorkflowStepErrorClass.RATE_LIMIT,
+    );
+    expect(
+      getWorkflowStepErrorClass({ error: { message: 'Bad' }, statusCode: 502 }),
+    ).toBe(WorkflowStepErrorClass.SERVER_ERROR);
+    expect(
+      getWorkflowStepErrorClass({ error: 'timeout', statusCode: 400 }),
+    ).toBe(WorkflowStepErrorClass.OTHER);
+  });
+
+  it('should read status codes from axios messages', () => {
+    expect(
+      getWorkflowStepErrorClass({
+        error: 'Request failed with status code 503',
+      }),
+    ).toBe(WorkflowStepErrorClass.SERVER_ERROR);
+  });
+
+  it('should classify timeouts and network errors', () => {
+    expect(
+      getWorkflowStepErrorClass({ error: 'timeout of 5000ms exceeded' }),
+    ).toBe(WorkflowStepErrorClass.TIMEOUT);
+    expect(
+      getWorkflowStepErrorClass({
+        error: 'getaddrinfo ENOTFOUND api.example.com',
+      }),
+    ).toBe(WorkflowStepErrorClass.NETWORK);
+  });
+
+  it('should fall back to other', () => {
+    expect(getWorkflowStepErrorClass({ error: 'Record not found' })).toBe(
+      WorkflowStepErrorClass.OTHER,
+    );
+    expect(getWorkflowStepErrorClass({ error: undefined })).toBe(
+      WorkflowStepErrorClass.OTHER,
+    );
+  });
+});
@@ -2,6 +2,7 @@ import { StepStatus } from 'twenty-shared/workflow';
 
 import { WorkflowRunStatus } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
 import { shouldExecuteStep } from 'src/modules/workflow/workflow-executor/utils/should-execute-step.util';
+import { shouldSkipStepExecution } from 'src/modules/workflow/workflow-executor/utils/should-skip-step-execution.util';
 import {
   type WorkflowAction,
   WorkflowActionType,
@@ -467,4 +468,98 @@ describe('shouldExecuteStep', () => {
 
     expect(result).toBe(false);
   });
+
+  describe('with a branch parent', () => {
+    const branchSteps = [
+      {
+        id: 'if-else',
+        type: WorkflowActionType.IF_ELSE,
+        settings: {
+          errorHandlingOptions: {
+            continueOnFailure: { value: false },
+            retryOnFailure: { value: false },
+          },
+          input: {
+            branches: [
+              { id: 'if', label: 'If', filterGroupId: 'g', nextStepIds: ['a'] },
+              { id: 'else', label: 'Else', nextStepIds: ['b'] },
+            ],
+          },
+        },
+        nextStepIds: ['a', 'b'],
+      },
+      {
+        id: 'a',
+        type: WorkflowActionType.CODE,
+        settings: {},
+        nextStepIds: ['join'],
+      },
+      {
+        id: 'b',
+        type: WorkflowActionType.CODE,
+        settings: {},
+        nextStepIds: ['join'],
+      },
+      {
+        id: 'join',
+        type: WorkflowActionType.CODE,
+        settings: {},
+        nextStepIds: [],
+      },
+    ] as unknown as WorkflowAction[];
+
+    it('should only execute the steps of the selected branch', () => {
+      const stepInfos = {
+        'if-else': {
+          status: StepStatus.SUCCESS,
+          result: { branchId: 'else', branchLabel: 'Else' },
+        },
+        a: { status: StepStatus.NOT_STARTED },
+        b: { status: StepStatus.NOT_STARTED },
+      };
+
+      expect(
+        shouldExecuteStep({
+          stepInfos,
+          steps: branchSteps,
+          step: branchSteps[1],
+          workflowRunStatus: WorkflowRunStatus.RUNNING,
+        }),
+      ).toBe(false);
+      expect(
+        shouldSkipStepExecution({
+          stepInfos,
+          steps: branchSteps,
+          step: branchSteps[1],
+        }),
+      ).toBe(true);
+      expect(
+        shouldExecuteStep({
+          stepInfos,
+          steps: branchSteps,
+          step: branchSteps[2],
+          workflowRunStatus: WorkflowRunStatus.RUNNING,
+        }),
+      ).toBe(true);
+    });
+
+    it('should execute a join step once the selected branch succeeded', () => {
+      expect(
+        shouldExecuteStep({
+          stepInfos: {
+            'if-else': {
+              status: StepStatus.SUCCESS,
+              result: { branchId: 'if', branchLabel: 'If' },
+            },
+            a: { status: StepStatus.SUCCESS },
+            b: { status: StepStatus.SKIPPED },
+            join: { status: StepStatus.NOT_STARTED },
+          },
+          steps: branchSteps,
+          step: branchSteps[3],
+          workflowRunStatus: WorkflowRunStatus.RUNNING,
+        }),
+      ).toBe(true);
+    });
+  });
 });
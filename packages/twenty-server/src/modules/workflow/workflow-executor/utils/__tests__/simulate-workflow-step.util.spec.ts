@@ -0,0 +1,167 @@
+import { simulateWorkflowStep } from 'src/modules/workflow/workflow-executor/utils/simulate-workflow-step.util';
+import {
+  type WorkflowAction,
+  WorkflowActionType,
+} from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+
+describe('simulateWorkflowStep', () => {
+  const errorHandlingOptions = {
+    continueOnFailure: { value: false },
+    retryOnFailure: { value: false },
+  };
+
+  const updateRecordStep: WorkflowAction = {
+    id: 'update-step',
+    name: 'Update Record',
+    type: WorkflowActionType.UPDATE_RECORD,
+    settings: {
+      input: {
+        objectName: 'company',
+        objectRecordId: '{{trigger.object.id}}',
+        objectRecord: { name: '{{trigger.object.name}} Inc' },
+      },
+      errorHandlingOptions,
+      outputSchema: {},
+    },
+    valid: true,
+  };
+
+  const context = {
+    trigger: { object: { id: 'company-id', name: 'Acme' } },
+  };
+
+  it('should return the fixture of the step when one is provided', () => {
+    const result = simulateWorkflowStep({
+      step: updateRecordStep,
+      context,
+      testRunFixtures: { 'update-step': { id: 'fixture-id' } },
+    });
+
+    expect(result).toEqual({ result: { id: 'fixture-id' } });
+  });
+
+  it('should build the record output from the resolved input', () => {
+    const result = simulateWorkflowStep({ step: updateRecordStep, context });
+
+    expect(result).toEqual({
+      result: { id: 'company-id', name: 'Acme Inc' },
+    });
+  });
+
+  it('should describe the email instead of sending it', () => {
+    const result = simulateWorkflowStep({
+      step: {
+        id: 'email-step',
+        name: 'Send Email',
+        type: WorkflowActionType.SEND_EMAIL,
+        settings: {
+          input: {
+            connectedAccountId: 'account-id',
+            email: 'contact@acme.com',
+            subject: 'Welcome {{trigger.object.name}}',
+          },
+          errorHandlingOptions,
+          outputSchema: {},
+        },
+        valid: true,
+      },
+      context,
+    });
+
+    expect(result).toEqual({
+      result: {
+        recipient: 'contact@acme.com',
+        subject: 'Welcome Acme',
+        connectedAccountId: 'account-id',
+        attachmentCount: 0,
+      },
+    });
+  });
+
+  it('should return the resolved request instead of calling the endpoint', () => {
+    const result = simulateWorkflowStep({
+      step: {
+        id: 'http-step',
+        name: 'HTTP Request',
+        type: WorkflowActionType.HTTP_REQUEST,
+        settings: {
+          input: {
+            url: 'https://api.acme.com/companies/{{trigger.object.id}}',
+            method: 'POST',
+            body: { name: '{{trigger.object.name}}' },
+          },
+          errorHandlingOptions,
+          outputSchema: {},
+        },
+        valid: true,
+      },
+      context,
+    });
+
+    expect(result).toEqual({
+      result: {
+        url: 'https://api.acme.com/companies/company-id',
+        method: 'POST',
+        headers: {},
+        body: { name: 'Acme' },
+      },
+    });
+  });
+
+  it('should take the event branch of a wait for event step', () => {
+    const result = simulateWorkflowStep({
+      step: {
+        id: 'wait-step',
+        name: 'Wait for event',
+        type: WorkflowActionType.WAIT_FOR_EVENT,
+        settings: {
+          input: {
+            eventName: 'company.updated',
+            recordId: '{{trigger.object.id}}',
+            branches: [
+              {
+                id: 'timeout-branch',
+                label: 'Timed out',
+                nextStepIds: [],
+                isTimeout: true,
+              },
+              { id: 'event-branch', label: 'Updated', nextStepIds: [] },
+            ],
+          },
+          errorHandlingOptions,
+          outputSchema: {},
+        },
+        valid: true,
+      },
+      context,
+    });
+
+    expect(result).toEqual({
+      result: {
+        branchId: 'event-branch',
+        branchLabel: 'Updated',
+        timedOut: false,
+        event: null,
+      },
+    });
+  });
+
+  it('should return undefined for steps without side effects', () => {
+    const result = simulateWorkflowStep({
+      step: {
+        id: 'find-step',
+        name: 'Find Records',
+        type: WorkflowActionType.FIND_RECORDS,
+        settings: {
+          input: { objectName: 'company' },
+          errorHandlingOptions,
+          outputSchema: {},
+        },
+        valid: true,
+      },
+      context,
+    });
+
+    expect(result).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { isDefined } from 'twenty-shared/utils';
+
+import { WorkflowStepErrorClass } from 'src/modules/workflow/workflow-executor/types/workflow-step-error-class.type';
+
+const TIMEOUT_ERROR_PATTERN =
+  /timeout|timed out|ETIMEDOUT|ESOCKETTIMEDOUT|ECONNABORTED/i;
+const NETWORK_ERROR_PATTERN =
+  /ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|EHOSTUNREACH|ENETUNREACH|EPIPE|socket hang up|network error/i;
+const STATUS_CODE_PATTERN = /status code (\d{3})/i;
+
+export const getWorkflowStepErrorClass = ({
+  error,
+  statusCode,
+}: {
+  error: unknown;
+  statusCode?: number;
+}): WorkflowStepErrorClass => {
+  const message = typeof error === 'string' ? error : JSON.stringify(error);
+  const status =
+    statusCode ?? Number(STATUS_CODE_PATTERN.exec(message ?? '')?.[1]);
+
+  if (isDefined(status) && !Number.isNaN(status)) {
+    if (status === 429) {
+      return WorkflowStepErrorClass.RATE_LIMIT;
+    }
+
+    if (status === 408 || status === 504) {
+      return WorkflowStepErrorClass.TIMEOUT;
+    }
+
+    if (status >= 500) {
+      return WorkflowStepErrorClass.SERVER_ERROR;
+    }
+
+    if (status >= 400) {
+      return WorkflowStepErrorClass.OTHER;
+    }
+  }
+
+  if (!isDefined(message)) {
+    return WorkflowStepErrorClass.OTHER;
+  }
+
+  if (TIMEOUT_ERROR_PATTERN.test(message)) {
+    return WorkflowStepErrorClass.TIMEOUT;
+  }
+
+  if (NETWORK_ERROR_PATTERN.test(message)) {
+    return WorkflowStepErrorClass.NETWORK;
+  }
+
+  return WorkflowStepErrorClass.OTHER;
+};
@@ -0,0 +1,15 @@
+import { WORKFLOW_STEP_RETRY_DEFAULTS } from 'src/modules/workflow/workflow-executor/constants/workflow-step-retry-defaults';
+
+// Exponential backoff: the first retry waits initialDelayMs, then the delay
+// doubles on every failed attempt, capped to one hour
+export const getWorkflowStepRetryDelay = ({
+  failedAttemptCount,
+  initialDelayMs,
+}: {
+  failedAttemptCount: number;
+  initialDelayMs: number;
+}): number =>
+  Math.min(
+    initialDelayMs * 2 ** (failedAttemptCount - 1),
+    WORKFLOW_STEP_RETRY_DEFAULTS.maxDelayMs,
+  );
@@ -0,0 +1,39 @@
+import { isDefined } from 'twenty-shared/utils';
+
+import { WORKFLOW_STEP_RETRY_DEFAULTS } from 'src/modules/workflow/workflow-executor/constants/workflow-step-retry-defaults';
+import { type WorkflowStepErrorClass } from 'src/modules/workflow/workflow-executor/types/workflow-step-error-class.type';
+import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+
+export type WorkflowStepRetryOptions = {
+  maxAttempts: number;
+  initialDelayMs: number;
+  retryableErrorClasses: WorkflowStepErrorClass[];
+};
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+// Returns null when the step is not set to retry on failure
+export const getWorkflowStepRetryOptions = (
+  step: WorkflowAction,
+): WorkflowStepRetryOptions | null => {
+  const retryOnFailure = step.settings.errorHandlingOptions?.retryOnFailure;
+
+  if (retryOnFailure?.value !== true) {
+    return null;
+  }
+
+  return {
+    maxAttempts: isPositiveInteger(retryOnFailure.maxAttempts)
+      ? retryOnFailure.maxAttempts
+      : WORKFLOW_STEP_RETRY_DEFAULTS.maxAttempts,
+    initialDelayMs: isPositiveInteger(retryOnFailure.initialDelayMs)
+      ? retryOnFailure.initialDelayMs
+      : WORKFLOW_STEP_RETRY_DEFAULTS.initialDelayMs,
+    retryableErrorClasses:
+      isDefined(retryOnFailure.retryableErrorClasses) &&
+      retryOnFailure.retryableErrorClasses.length > 0
+        ? retryOnFailure.retryableErrorClasses
+        : WORKFLOW_STEP_RETRY_DEFAULTS.retryableErrorClasses,
+  };
+};
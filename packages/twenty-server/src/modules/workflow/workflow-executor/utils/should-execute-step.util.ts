@@ -4,6 +4,7 @@ import { type WorkflowRunStepInfos } from 'twenty-shared/workflow';
 import { WorkflowRunStatus } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
 import { shouldExecuteChildStep } from 'src/modules/workflow/workflow-executor/utils/should-execute-child-step.util';
 import { stepHasBeenStarted } from 'src/modules/workflow/workflow-executor/utils/step-has-been-started.util';
+import { getStepInfosWithUnselectedBranchesSkipped } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/get-step-infos-with-unselected-branches-skipped.util';
 import { isWorkflowIteratorAction } from 'src/modules/workflow/workflow-executor/workflow-actions/iterator/guards/is-workflow-iterator-action.guard';
 import { shouldExecuteIteratorStep } from 'src/modules/workflow/workflow-executor/workflow-actions/iterator/utils/should-execute-iterator-step.util';
 import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
@@ -42,6 +43,10 @@ export const shouldExecuteStep = ({
 
   return shouldExecuteChildStep({
     parentSteps,
-    stepInfos,
+    stepInfos: getStepInfosWithUnselectedBranchesSkipped({
+      stepId: step.id,
+      parentSteps,
+      stepInfos,
+    }),
   });
 };
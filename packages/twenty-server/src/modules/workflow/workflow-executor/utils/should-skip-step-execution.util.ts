@@ -1,6 +1,7 @@
 import { isDefined } from 'twenty-shared/utils';
 import { StepStatus, type WorkflowRunStepInfos } from 'twenty-shared/workflow';
 
+import { getStepInfosWithUnselectedBranchesSkipped } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/get-step-infos-with-unselected-branches-skipped.util';
 import { isWorkflowIteratorAction } from 'src/modules/workflow/workflow-executor/workflow-actions/iterator/guards/is-workflow-iterator-action.guard';
 import { shouldSkipIteratorStepExecution } from 'src/modules/workflow/workflow-executor/workflow-actions/iterator/utils/should-skip-iterator-step-execution.util';
 import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
@@ -31,9 +32,15 @@ export const shouldSkipStepExecution = ({
     return false;
   }
 
+  const parentStepInfos = getStepInfosWithUnselectedBranchesSkipped({
+    stepId: step.id,
+    parentSteps,
+    stepInfos,
+  });
+
   return parentSteps.every(
     (step) =>
-      stepInfos[step.id]?.status === StepStatus.SKIPPED ||
-      stepInfos[step.id]?.status === StepStatus.STOPPED,
+      parentStepInfos[step.id]?.status === StepStatus.SKIPPED ||
+      parentStepInfos[step.id]?.status === StepStatus.STOPPED,
   );
 };
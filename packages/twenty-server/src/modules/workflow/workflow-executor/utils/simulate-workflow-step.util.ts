@@ -0,0 +1,139 @@
+import { isDefined, resolveInput } from 'twenty-shared/utils';
+import { v4 } from 'uuid';
+
+import { type WorkflowActionOutput } from 'src/modules/workflow/workflow-executor/types/workflow-action-output.type';
+import { type WorkflowAiAgentActionInput } from 'src/modules/workflow/workflow-executor/workflow-actions/ai-agent/types/workflow-ai-agent-action-input.type';
+import { getDefaultWorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/get-default-workflow-branch.util';
+import { type WorkflowCodeActionInput } from 'src/modules/workflow/workflow-executor/workflow-actions/code/types/workflow-code-action-input.type';
+import { type WorkflowHttpRequestActionInput } from 'src/modules/workflow/workflow-executor/workflow-actions/http-request/types/workflow-http-request-action-input.type';
+import { type WorkflowSendEmailActionInput } from 'src/modules/workflow/workflow-executor/workflow-actions/mail-sender/types/workflow-send-email-action-input.type';
+import {
+  type WorkflowCreateRecordActionInput,
+  type WorkflowDeleteRecordActionInput,
+  type WorkflowUpdateRecordActionInput,
+  type WorkflowUpsertRecordActionInput,
+} from 'src/modules/workflow/workflow-executor/workflow-actions/record-crud/types/workflow-record-crud-action-input.type';
+import {
+  type WorkflowAction,
+  WorkflowActionType,
+} from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+import { type WorkflowWaitForEventResult } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/types/workflow-wait-for-event-result.type';
+
+// Returns the output a step produces during a test run, or undefined when the
+// step has no side effect and can be executed for real. Steps that call out
+// of the workspace return their resolved input so that builders can check it,
+// steps that wait return as if their wait was over
+export const simulateWorkflowStep = ({
+  step,
+  context,
+  testRunFixtures,
+}: {
+  step: WorkflowAction;
+  context: Record<string, unknown>;
+  testRunFixtures?: Record<string, object>;
+}): WorkflowActionOutput | undefined => {
+  const fixture = testRunFixtures?.[step.id];
+
+  if (isDefined(fixture)) {
+    return { result: fixture };
+  }
+
+  switch (step.type) {
+    case WorkflowActionType.CREATE_RECORD: {
+      const { objectRecord } = resolveInput(
+        step.settings.input,
+        context,
+      ) as WorkflowCreateRecordActionInput;
+
+      return { result: { ...objectRecord, id: v4() } };
+    }
+    case WorkflowActionType.UPSERT_RECORD: {
+      const { objectRecord } = resolveInput(
+        step.settings.input,
+        context,
+      ) as WorkflowUpsertRecordActionInput;
+
+      return { result: { ...objectRecord, id: objectRecord?.id ?? v4() } };
+    }
+    case WorkflowActionType.UPDATE_RECORD: {
+      const { objectRecordId, objectRecord } = resolveInput(
+        step.settings.input,
+        context,
+      ) as WorkflowUpdateRecordActionInput;
+
+      return { result: { ...objectRecord, id: objectRecordId } };
+    }
+    case WorkflowActionType.DELETE_RECORD: {
+      const { objectRecordId } = resolveInput(
+        step.settings.input,
+        context,
+      ) as WorkflowDeleteRecordActionInput;
+
+      return {
+        result: { id: objectRecordId, deletedAt: new Date().toISOString() },
+      };
+    }
+    case WorkflowActionType.SEND_EMAIL: {
+      const { email, subject, connectedAccountId } = resolveInput(
+        step.settings.input,
+        context,
+      ) as WorkflowSendEmailActionInput;
+
+      return {
+        result: {
+          recipient: email,
+          subject: subject ?? '',
+          connectedAccountId,
+          attachmentCount: 0,
+        },
+      };
+    }
+    case WorkflowActionType.HTTP_REQUEST: {
+      const { url, method, headers, body } = resolveInput(
+        step.settings.input,
+        context,
+      ) as WorkflowHttpRequestActionInput;
+
+      return { result: { url, method, headers: headers ?? {}, body } };
+    }
+    case WorkflowActionType.CODE: {
+      const {
+        serverlessFunctionId,
+        serverlessFunctionVersion,
+        serverlessFunctionInput,
+      } = resolveInput(step.settings.input, context) as WorkflowCodeActionInput;
+
+      return {
+        result: {
+          serverlessFunctionId,
+          serverlessFunctionVersion,
+          serverlessFunctionInput,
+        },
+      };
+    }
+    case WorkflowActionType.AI_AGENT: {
+      const { agentId, prompt } = resolveInput(
+        step.settings.input,
+        context,
+      ) as WorkflowAiAgentActionInput;
+
+      return { result: { agentId: agentId ?? null, prompt: prompt ?? '' } };
+    }
+    case WorkflowActionType.DELAY:
+      return { result: { success: true } };
+    case WorkflowActionType.WAIT_FOR_EVENT: {
+      const eventBranch = getDefaultWorkflowBranch(step);
+
+      const result: WorkflowWaitForEventResult = {
+        branchId: eventBranch?.id ?? null,
+        branchLabel: eventBranch?.label ?? null,
+        timedOut: false,
+        event: null,
+      };
+
+      return { result };
+    }
+    default:
+      return undefined;
+  }
+};
@@ -0,0 +1,138 @@
+import { StepLogicalOperator, ViewFilterOperand } from 'twenty-shared/types';
+
+import { IfElseWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/if-else.workflow-action';
+import { SwitchWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/switch.workflow-action';
+import {
+  type WorkflowAction,
+  WorkflowActionType,
+} from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+
+const errorHandlingOptions = {
+  continueOnFailure: { value: false },
+  retryOnFailure: { value: false },
+};
+
+const runInfo = { workflowRunId: 'workflow-run-id', workspaceId: 'ws-id' };
+
+describe('IfElseWorkflowAction', () => {
+  const action = new IfElseWorkflowAction();
+
+  const buildStep = (): WorkflowAction => ({
+    id: 'if-else',
+    name: 'If / Else',
+    type: WorkflowActionType.IF_ELSE,
+    valid: true,
+    settings: {
+      outputSchema: {},
+      errorHandlingOptions,
+      input: {
+        stepFilterGroups: [
+          { id: 'big-deal', logicalOperator: StepLogicalOperator.AND },
+          { id: 'small-deal', logicalOperator: StepLogicalOperator.AND },
+        ],
+        stepFilters: [
+          {
+            id: 'amount-gte',
+            type: 'NUMBER',
+            stepOutputKey: '{{trigger.amount}}',
+            operand: ViewFilterOperand.GREATER_THAN_OR_EQUAL,
+            value: '10000',
+            stepFilterGroupId: 'big-deal',
+          },
+          {
+            id: 'amount-lte',
+            type: 'NUMBER',
+            stepOutputKey: '{{trigger.amount}}',
+            operand: ViewFilterOperand.LESS_THAN_OR_EQUAL,
+            value: '100',
+            stepFilterGroupId: 'small-deal',
+          },
+        ],
+        branches: [
+          { id: 'else', label: 'Else', nextStepIds: ['c'] },
+          {
+            id: 'big',
+            label: 'Big deal',
+            filterGroupId: 'big-deal',
+            nextStepIds: ['a'],
+          },
+          {
+            id: 'small',
+            label: 'Small deal',
+            filterGroupId: 'small-deal',
+            nextStepIds: ['b'],
+          },
+        ],
+      },
+    },
+  });
+
+  it('should select the first matching branch', async () => {
+    const output = await action.execute({
+      currentStepId: 'if-else',
+      steps: [buildStep()],
+      context: { trigger: { amount: 50 } },
+      runInfo,
+    });
+
+    expect(output.result).toEqual({
+      branchId: 'small',
+      branchLabel: 'Small deal',
+    });
+  });
+
+  it('should fall back to the else branch', async () => {
+    const output = await action.execute({
+      currentStepId: 'if-else',
+      steps: [buildStep()],
+      context: { trigger: { amount: 5000 } },
+      runInfo,
+    });
+
+    expect(output.result).toEqual({ branchId: 'else', branchLabel: 'Else' });
+  });
+});
+
+describe('SwitchWorkflowAction', () => {
+  const action = new SwitchWorkflowAction();
+
+  const buildStep = (): WorkflowAction => ({
+    id: 'switch',
+    name: 'Switch',
+    type: WorkflowActionType.SWITCH,
+    valid: true,
+    settings: {
+      outputSchema: {},
+      errorHandlingOptions,
+      input: {
+        value: '{{trigger.stage}}',
+        branches: [
+          { id: 'won', label: 'Won', caseValue: 'WON', nextStepIds: ['a'] },
+          { id: 'lost', label: 'Lost', caseValue: 'LOST', nextStepIds: ['b'] },
+        ],
+      },
+    },
+  });
+
+  it('should select the branch matching the value', async () => {
+    const output = await action.execute({
+      currentStepId: 'switch',
+      steps: [buildStep()],
+      context: { trigger: { stage: 'LOST' } },
+      runInfo,
+    });
+
+    expect(output.result).toEqual({ branchId: 'lost', branchLabel: 'Lost' });
+  });
+
+  it('should select no branch when nothing matches and there is no default', async () => {
+    const output = await action.execute({
+      currentStepId: 'switch',
+      steps: [buildStep()],
+      context: { trigger: { stage: 'NEW' } },
+      runInfo,
+    });
+
+    expect(output.result).toEqual({ branchId: null, branchLabel: null });
+  });
+});
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+
+import { IfElseWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/if-else.workflow-action';
+import { SwitchWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/switch.workflow-action';
+
+@Module({
+  providers: [IfElseWorkflowAction, SwitchWorkflowAction],
+  exports: [IfElseWorkflowAction, SwitchWorkflowAction],
+})
+export class BranchActionModule {}
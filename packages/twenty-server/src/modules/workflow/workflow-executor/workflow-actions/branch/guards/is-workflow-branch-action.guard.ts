@@ -0,0 +1,12 @@
+import {
+  type WorkflowAction,
+  WorkflowActionType,
+  type WorkflowBranchAction,
+} from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+
+export const isWorkflowBranchAction = (
+  action: WorkflowAction,
+): action is WorkflowBranchAction =>
+  action.type === WorkflowActionType.IF_ELSE ||
+  action.type === WorkflowActionType.SWITCH ||
+  action.type === WorkflowActionType.WAIT_FOR_EVENT;
@@ -0,0 +1,9 @@
+import {
+  type WorkflowAction,
+  WorkflowActionType,
+  type WorkflowSwitchAction,
+} from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+
+export const isWorkflowSwitchAction = (
+  action: WorkflowAction,
+): action is WorkflowSwitchAction => action.type === WorkflowActionType.SWITCH;
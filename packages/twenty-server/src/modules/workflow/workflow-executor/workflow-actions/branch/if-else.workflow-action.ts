@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+
+import { isDefined, resolveInput } from 'twenty-shared/utils';
+
+import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/interfaces/workflow-action.interface';
+
+import {
+  WorkflowStepExecutorException,
+  WorkflowStepExecutorExceptionCode,
+} from 'src/modules/workflow/workflow-executor/exceptions/workflow-step-executor.exception';
+import { type WorkflowActionInput } from 'src/modules/workflow/workflow-executor/types/workflow-action-input';
+import { type WorkflowActionOutput } from 'src/modules/workflow/workflow-executor/types/workflow-action-output.type';
+import { findStepOrThrow } from 'src/modules/workflow/workflow-executor/utils/find-step-or-throw.util';
+import { isWorkflowIfElseAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/guards/is-workflow-if-else-action.guard';
+import { type WorkflowBranchResult } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-branch-result.type';
+import { getBranchFilterConditions } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/get-branch-filter-conditions.util';
+import { getDefaultWorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/get-default-workflow-branch.util';
+import { evaluateFilterConditions } from 'src/modules/workflow/workflow-executor/workflow-actions/filter/utils/evaluate-filter-conditions.util';
+
+@Injectable()
+export class IfElseWorkflowAction implements WorkflowAction {
+  async execute(input: WorkflowActionInput): Promise<WorkflowActionOutput> {
+    const { currentStepId, steps, context } = input;
+
+    const step = findStepOrThrow({
+      stepId: currentStepId,
+      steps,
+    });
+
+    if (!isWorkflowIfElseAction(step)) {
+      throw new WorkflowStepExecutorException(
+        'Step is not an if/else action',
+        WorkflowStepExecutorExceptionCode.INVALID_STEP_TYPE,
+      );
+    }
+
+    const {
+      stepFilterGroups = [],
+      stepFilters = [],
+      branches = [],
+    } = step.settings.input;
+
+    const resolvedFilters = stepFilters.map((filter) => ({
+      ...filter,
+      rightOperand: resolveInput(filter.value, context),
+      leftOperand: resolveInput(filter.stepOutputKey, context),
+    }));
+
+    // Branches are evaluated in order, the first matching one is taken
+    const selectedBranch =
+      branches.find(
+        (branch) =>
+          isDefined(branch.filterGroupId) &&
+          evaluateFilterConditions(
+            getBranchFilterConditions({
+              filterGroupId: branch.filterGroupId,
+              filterGroups: stepFilterGroups,
+              filters: resolvedFilters,
+            }),
+          ),
+      ) ?? getDefaultWorkflowBranch(step);
+
+    return {
+      result: {
+        branchId: selectedBranch?.id ?? null,
+        branchLabel: selectedBranch?.label ?? null,
+      } satisfies WorkflowBranchResult,
+    };
+  }
+}
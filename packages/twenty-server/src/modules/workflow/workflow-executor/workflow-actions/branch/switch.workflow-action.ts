@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+
+import { ViewFilterOperand } from 'twenty-shared/types';
+import { isDefined, resolveInput } from 'twenty-shared/utils';
+
+import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/interfaces/workflow-action.interface';
+
+import {
+  WorkflowStepExecutorException,
+  WorkflowStepExecutorExceptionCode,
+} from 'src/modules/workflow/workflow-executor/exceptions/workflow-step-executor.exception';
+import { type WorkflowActionInput } from 'src/modules/workflow/workflow-executor/types/workflow-action-input';
+import { type WorkflowActionOutput } from 'src/modules/workflow/workflow-executor/types/workflow-action-output.type';
+import { findStepOrThrow } from 'src/modules/workflow/workflow-executor/utils/find-step-or-throw.util';
+import { isWorkflowSwitchAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/guards/is-workflow-switch-action.guard';
+import { type WorkflowBranchResult } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-branch-result.type';
+import { getDefaultWorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/get-default-workflow-branch.util';
+import { evaluateFilterConditions } from 'src/modules/workflow/workflow-executor/workflow-actions/filter/utils/evaluate-filter-conditions.util';
+
+@Injectable()
+export class SwitchWorkflowAction implements WorkflowAction {
+  async execute(input: WorkflowActionInput): Promise<WorkflowActionOutput> {
+    const { currentStepId, steps, context } = input;
+
+    const step = findStepOrThrow({
+      stepId: currentStepId,
+      steps,
+    });
+
+    if (!isWorkflowSwitchAction(step)) {
+      throw new WorkflowStepExecutorException(
+        'Step is not a switch action',
+        WorkflowStepExecutorExceptionCode.INVALID_STEP_TYPE,
+      );
+    }
+
+    const { value, branches = [] } = step.settings.input;
+
+    const resolvedValue = resolveInput(value, context);
+
+    // Each case is an "is" filter, compared loosely so that a number output
+    // matches its string case value
+    const selectedBranch =
+      branches.find(
+        (branch) =>
+          isDefined(branch.caseValue) &&
+          evaluateFilterConditions({
+            filters: [
+              {
+                id: branch.id,
+                type: 'UNKNOWN',
+                operand: ViewFilterOperand.IS,
+                stepFilterGroupId: '',
+                leftOperand: resolvedValue,
+                rightOperand: resolveInput(branch.caseValue, context),
+              },
+            ],
+          }),
+      ) ?? getDefaultWorkflowBranch(step);
+
+    return {
+      result: {
+        branchId: selectedBranch?.id ?? null,
+        branchLabel: selectedBranch?.label ?? null,
+      } satisfies WorkflowBranchResult,
+    };
+  }
+}
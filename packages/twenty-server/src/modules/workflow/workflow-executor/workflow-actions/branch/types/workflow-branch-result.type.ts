@@ -0,0 +1,4 @@
+export type WorkflowBranchResult = {
+  branchId: string | null;
+  branchLabel: string | null;
+};
@@ -0,0 +1,5 @@
+export type WorkflowBranch = {
+  id: string;
+  label: string;
+  nextStepIds: string[];
+};
@@ -0,0 +1,17 @@
+import { type StepFilter, type StepFilterGroup } from 'twenty-shared/types';
+
+import { type WorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-branch.type';
+import { type BaseWorkflowActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action-settings.type';
+
+// A branch without filter group is the else branch
+export type WorkflowIfElseBranch = WorkflowBranch & {
+  filterGroupId?: string;
+};
+
+export type WorkflowIfElseActionSettings = BaseWorkflowActionSettings & {
+  input: {
+    stepFilterGroups?: StepFilterGroup[];
+    stepFilters?: StepFilter[];
+    branches: WorkflowIfElseBranch[];
+  };
+};
@@ -0,0 +1,14 @@
+import { type WorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-branch.type';
+import { type BaseWorkflowActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action-settings.type';
+
+// A branch without case value is the default branch
+export type WorkflowSwitchBranch = WorkflowBranch & {
+  caseValue?: string;
+};
+
+export type WorkflowSwitchActionSettings = BaseWorkflowActionSettings & {
+  input: {
+    value: string;
+    branches: WorkflowSwitchBranch[];
+  };
+};
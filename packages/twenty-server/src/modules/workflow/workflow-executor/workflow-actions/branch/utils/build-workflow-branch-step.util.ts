@@ -0,0 +1,31 @@
+import { type WorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-branch.type';
+import { type WorkflowBranchAction } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+
+// The nextStepIds of a branch step always list the next steps of all its
+// branches, so that graph traversals do not need to know about branches
+export const buildWorkflowBranchStep = <T extends WorkflowBranchAction>({
+  step,
+  updateBranch,
+}: {
+  step: T;
+  updateBranch: (branch: WorkflowBranch) => WorkflowBranch;
+}): T => {
+  const branches = (step.settings.input.branches ?? []).map(
+    (branch: WorkflowBranch) => ({
+      ...branch,
+      ...updateBranch(branch),
+    }),
+  );
+
+  return {
+    ...step,
+    nextStepIds: [...new Set(branches.flatMap((branch) => branch.nextStepIds))],
+    settings: {
+      ...step.settings,
+      input: {
+        ...step.settings.input,
+        branches,
+      },
+    },
+  };
+};
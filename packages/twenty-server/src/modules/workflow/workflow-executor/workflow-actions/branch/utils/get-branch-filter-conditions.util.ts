@@ -0,0 +1,46 @@
+import { type StepFilterGroup } from 'twenty-shared/types';
+
+// Keeps the filter group of a branch and its descendants, the branch group
+// becoming the root group
+export const getBranchFilterConditions = <
+  T extends { stepFilterGroupId: string },
+>({
+  filterGroupId,
+  filterGroups,
+  filters,
+}: {
+  filterGroupId: string;
+  filterGroups: StepFilterGroup[];
+  filters: T[];
+}): { filterGroups: StepFilterGroup[]; filters: T[] } => {
+  const branchGroupIds = new Set([filterGroupId]);
+
+  let hasAddedGroup = true;
+
+  while (hasAddedGroup) {
+    hasAddedGroup = false;
+
+    for (const filterGroup of filterGroups) {
+      if (
+        !branchGroupIds.has(filterGroup.id) &&
+        branchGroupIds.has(filterGroup.parentStepFilterGroupId ?? '')
+      ) {
+        branchGroupIds.add(filterGroup.id);
+        hasAddedGroup = true;
+      }
+    }
+  }
+
+  return {
+    filterGroups: filterGroups
+      .filter((filterGroup) => branchGroupIds.has(filterGroup.id))
+      .map((filterGroup) =>
+        filterGroup.id === filterGroupId
+          ? { ...filterGroup, parentStepFilterGroupId: undefined }
+          : filterGroup,
+      ),
+    filters: filters.filter((filter) =>
+      branchGroupIds.has(filter.stepFilterGroupId),
+    ),
+  };
+};
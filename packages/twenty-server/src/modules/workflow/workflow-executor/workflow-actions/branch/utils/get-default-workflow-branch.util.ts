@@ -0,0 +1,27 @@
+import { isDefined } from 'twenty-shared/utils';
+
+import { isWorkflowIfElseAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/guards/is-workflow-if-else-action.guard';
+import { isWorkflowSwitchAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/guards/is-workflow-switch-action.guard';
+import { type WorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-branch.type';
+import { type WorkflowBranchAction } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+
+// The branch taken when no condition matches: the else branch of an
+// IF_ELSE, the branch without case value of a SWITCH, the event branch of a
+// WAIT_FOR_EVENT
+export const getDefaultWorkflowBranch = (
+  step: WorkflowBranchAction,
+): WorkflowBranch | undefined => {
+  if (isWorkflowIfElseAction(step)) {
+    return step.settings.input.branches?.find(
+      (branch) => !isDefined(branch.filterGroupId),
+    );
+  }
+
+  if (isWorkflowSwitchAction(step)) {
+    return step.settings.input.branches?.find(
+      (branch) => !isDefined(branch.caseValue),
+    );
+  }
+
+  return step.settings.input.branches?.find((branch) => !branch.isTimeout);
+};
@@ -0,0 +1,29 @@
+import { StepStatus, type WorkflowRunStepInfos } from 'twenty-shared/workflow';
+
+import { isStepInUnselectedBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/is-step-in-unselected-branch.util';
+import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+
+// Seen from a step, a branch parent that selected another branch counts as
+// skipped: the step is skipped too, unless it is a join with another path
+export const getStepInfosWithUnselectedBranchesSkipped = ({
+  stepId,
+  parentSteps,
+  stepInfos,
+}: {
+  stepId: string;
+  parentSteps: WorkflowAction[];
+  stepInfos: WorkflowRunStepInfos;
+}): WorkflowRunStepInfos =>
+  parentSteps.reduce<WorkflowRunStepInfos>(
+    (acc, parentStep) =>
+      isStepInUnselectedBranch({ parentStep, stepId, stepInfos })
+        ? {
+            ...acc,
+            [parentStep.id]: {
+              ...acc[parentStep.id],
+              status: StepStatus.SKIPPED,
+            },
+          }
+        : acc,
+    stepInfos,
+  );
@@ -0,0 +1,6 @@
+import { type WorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-branch.type';
+import { type WorkflowBranchAction } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+
+export const getWorkflowBranches = (
+  step: WorkflowBranchAction,
+): WorkflowBranch[] => step.settings.input.branches ?? [];
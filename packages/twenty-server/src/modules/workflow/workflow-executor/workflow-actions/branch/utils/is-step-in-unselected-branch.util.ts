@@ -0,0 +1,33 @@
+import { StepStatus, type WorkflowRunStepInfos } from 'twenty-shared/workflow';
+
+import { isWorkflowBranchAction } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/guards/is-workflow-branch-action.guard';
+import { type WorkflowBranchResult } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-branch-result.type';
+import { getWorkflowBranches } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/get-workflow-branches.util';
+import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+
+export const isStepInUnselectedBranch = ({
+  parentStep,
+  stepId,
+  stepInfos,
+}: {
+  parentStep: WorkflowAction;
+  stepId: string;
+  stepInfos: WorkflowRunStepInfos;
+}) => {
+  if (
+    !isWorkflowBranchAction(parentStep) ||
+    stepInfos[parentStep.id]?.status !== StepStatus.SUCCESS
+  ) {
+    return false;
+  }
+
+  const branchResult = stepInfos[parentStep.id]?.result as
+    | WorkflowBranchResult
+    | undefined;
+
+  const selectedBranch = getWorkflowBranches(parentStep).find(
+    (branch) => branch.id === branchResult?.branchId,
+  );
+
+  return !(selectedBranch?.nextStepIds ?? []).includes(stepId);
+};
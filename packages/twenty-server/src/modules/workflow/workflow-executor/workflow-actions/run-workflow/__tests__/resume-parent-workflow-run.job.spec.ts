@@ -0,0 +1,168 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+
+import { StepStatus } from 'twenty-shared/workflow';
+
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { getQueueToken } from 'src/engine/core-modules/message-queue/utils/get-queue-token.util';
+import { WorkflowRunStatus } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
+import { RESUME_PARENT_WORKFLOW_RUN_JOB_NAME } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/constants/resume-parent-workflow-run-job-name';
+import { ResumeParentWorkflowRunJob } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/jobs/resume-parent-workflow-run.job';
+import {
+  type WorkflowAction,
+  WorkflowActionType,
+} from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+import { RUN_WORKFLOW_JOB_NAME } from 'src/modules/workflow/workflow-runner/constants/run-workflow-job-name';
+import { WorkflowRunWorkspaceService } from 'src/modules/workflow/workflow-runner/workflow-run/workflow-run.workspace-service';
+
+describe('ResumeParentWorkflowRunJob', () => {
+  let job: ResumeParentWorkflowRunJob;
+  let workflowRunWorkspaceService: {
+    getWorkflowRunOrFail: jest.Mock;
+    updateWorkflowRunStepInfo: jest.Mock;
+    endWorkflowRun: jest.Mock;
+  };
+  let messageQueueService: { add: jest.Mock };
+  let delayedJobsQueueService: { add: jest.Mock };
+
+  const runWorkflowStep: WorkflowAction = {
+    id: 'run-workflow-step',
+    name: 'Run Workflow',
+    type: WorkflowActionType.RUN_WORKFLOW,
+    valid: true,
+    settings: {
+      outputSchema: {},
+      errorHandlingOptions: {
+        retryOnFailure: { value: false },
+        continueOnFailure: { value: false },
+      },
+      input: {
+        workflowId: 'child-workflow-id',
+        payload: {},
+        waitForCompletion: true,
+      },
+    },
+  };
+
+  const jobData = {
+    workspaceId: 'workspace-id',
+    workflowRunId: 'child-run-id',
+  };
+
+  const mockWorkflowRuns = (parentStepStatus: StepStatus) => {
+    workflowRunWorkspaceService.getWorkflowRunOrFail.mockImplementation(
+      async ({ workflowRunId }: { workflowRunId: string }) =>
+        workflowRunId === 'child-run-id'
+          ? {
+              id: 'child-run-id',
+              status: WorkflowRunStatus.COMPLETED,
+              parentWorkflowRunId: 'parent-run-id',
+              state: {
+                parentStepId: 'run-workflow-step',
+                flow: { steps: [] },
+                stepInfos: {},
+              },
+            }
+          : {
+              id: 'parent-run-id',
+              status: WorkflowRunStatus.RUNNING,
+              state: {
+                flow: { steps: [runWorkflowStep] },
+                stepInfos: {
+                  'run-workflow-step': { status: parentStepStatus },
+                },
+              },
+            },
+    );
+  };
+
+  beforeEach(async () => {
+    workflowRunWorkspaceService = {
+      getWorkflowRunOrFail: jest.fn(),
+      updateWorkflowRunStepInfo: jest.fn(),
+      endWorkflowRun: jest.fn(),
+    };
+    messageQueueService = { add: jest.fn() };
+    delayedJobsQueueService = { add: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ResumeParentWorkflowRunJob,
+        {
+          provide: WorkflowRunWorkspaceService,
+          useValue: workflowRunWorkspaceService,
+        },
+        {
+          provide: getQueueToken(MessageQueue.workflowQueue),
+          useValue: messageQueueService,
+        },
+        {
+          provide: getQueueToken(MessageQueue.delayedJobsQueue),
+          useValue: delayedJobsQueueService,
+        },
+      ],
+    }).compile();
+
+    job = await module.resolve(ResumeParentWorkflowRunJob);
+  });
+
+  it('should resume the parent run once its step is pending', async () => {
+    mockWorkflowRuns(StepStatus.PENDING);
+
+    await job.handle(jobData);
+
+    expect(
+      workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({
+        stepId: 'run-workflow-step',
+        workflowRunId: 'parent-run-id',
+        stepInfo: expect.objectContaining({ status: StepStatus.SUCCESS }),
+      }),
+    );
+    expect(messageQueueService.add).toHaveBeenCalledWith(
+      RUN_WORKFLOW_JOB_NAME,
+      {
+        workspaceId: 'workspace-id',
+        workflowRunId: 'parent-run-id',
+        lastExecutedStepId: 'run-workflow-step',
+      },
+    );
+  });
+
+  it('should retry with a growing delay while the parent step is still running', async () => {
+    mockWorkflowRuns(StepStatus.RUNNING);
+
+    await job.handle({ ...jobData, attempt: 3 });
+
+    expect(delayedJobsQueueService.add).toHaveBeenCalledWith(
+      RESUME_PARENT_WORKFLOW_RUN_JOB_NAME,
+      { ...jobData, attempt: 4 },
+      { delay: 8000 },
+    );
+    expect(
+      workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+    ).not.toHaveBeenCalled();
+  });
+
+  it('should fail the parent step once the attempts are exhausted', async () => {
+    mockWorkflowRuns(StepStatus.RUNNING);
+
+    await job.handle({ ...jobData, attempt: 9 });
+
+    expect(delayedJobsQueueService.add).not.toHaveBeenCalled();
+    expect(
+      workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({
+        stepId: 'run-workflow-step',
+        stepInfo: expect.objectContaining({ status: StepStatus.FAILED }),
+      }),
+    );
+    expect(workflowRunWorkspaceService.endWorkflowRun).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workflowRunId: 'parent-run-id',
+        status: WorkflowRunStatus.FAILED,
+      }),
+    );
+  });
+});
@@ -0,0 +1,231 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+
+import { WorkflowRunStatus } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
+import { WorkflowCommonWorkspaceService } from 'src/modules/workflow/common/workspace-services/workflow-common.workspace-service';
+import { MAX_SUB_WORKFLOW_DEPTH } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/constants/max-sub-workflow-depth';
+import { RunWorkflowWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/run-workflow.workflow-action';
+import {
+  type WorkflowAction,
+  WorkflowActionType,
+} from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+import { WorkflowRunWorkspaceService } from 'src/modules/workflow/workflow-runner/workflow-run/workflow-run.workspace-service';
+import { WorkflowRunnerWorkspaceService } from 'src/modules/workflow/workflow-runner/workspace-services/workflow-runner.workspace-service';
+import { WorkflowTriggerType } from 'src/modules/workflow/workflow-trigger/types/workflow-trigger.type';
+
+describe('RunWorkflowWorkflowAction', () => {
+  let action: RunWorkflowWorkflowAction;
+  let workflowRunWorkspaceService: {
+    getWorkflowRun: jest.Mock;
+    getWorkflowRunOrFail: jest.Mock;
+  };
+  let workflowCommonWorkspaceService: {
+    getActiveWorkflowVersion: jest.Mock;
+    getObjectMetadataInfo: jest.Mock;
+  };
+  let workflowRunnerWorkspaceService: { run: jest.Mock };
+
+  const createRunWorkflowStep = (
+    input: Partial<{
+      workflowId: string;
+      payload: object | string;
+      waitForCompletion: boolean;
+    }> = {},
+  ): WorkflowAction => ({
+    id: 'run-workflow-step',
+    name: 'Run Workflow',
+    type: WorkflowActionType.RUN_WORKFLOW,
+    valid: true,
+    settings: {
+      outputSchema: {},
+      errorHandlingOptions: {
+        retryOnFailure: { value: false },
+        continueOnFailure: { value: false },
+      },
+      input: {
+        workflowId: 'child-workflow-id',
+        payload: { companyName: '{{trigger.name}}' },
+        waitForCompletion: true,
+        ...input,
+      },
+    },
+  });
+
+  const execute = (step: WorkflowAction) =>
+    action.execute({
+      currentStepId: step.id,
+      steps: [step],
+      context: { trigger: { name: 'Acme' } },
+      runInfo: { workflowRunId: 'parent-run-id', workspaceId: 'workspace-id' },
+    });
+
+  beforeEach(async () => {
+    workflowRunWorkspaceService = {
+      getWorkflowRun: jest.fn(),
+      getWorkflowRunOrFail: jest.fn().mockResolvedValue({
+        id: 'parent-run-id',
+        parentWorkflowRunId: null,
+        createdBy: { source: 'MANUAL', name: 'Tim' },
+      }),
+    };
+    workflowCommonWorkspaceService = {
+      getActiveWorkflowVersion: jest.fn().mockResolvedValue({
+        id: 'child-version-id',
+        trigger: { type: WorkflowTriggerType.MANUAL, settings: {} },
+      }),
+      getObjectMetadataInfo: jest.fn().mockResolvedValue({
+        flatObjectMetadata: { namePlural: 'companies' },
+      }),
+    };
+    workflowRunnerWorkspaceService = {
+      run: jest.fn().mockResolvedValue({
+        workflowRunId: 'child-run-id',
+        status: WorkflowRunStatus.ENQUEUED,
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RunWorkflowWorkflowAction,
+        {
+          provide: WorkflowRunWorkspaceService,
+          useValue: workflowRunWorkspaceService,
+        },
+        {
+          provide: WorkflowCommonWorkspaceService,
+          useValue: workflowCommonWorkspaceService,
+        },
+        {
+          provide: WorkflowRunnerWorkspaceService,
+          useValue: workflowRunnerWorkspaceService,
+        },
+      ],
+    }).compile();
+
+    action = module.get(RunWorkflowWorkflowAction);
+  });
+
+  it('should start a linked sub-workflow run and wait for it', async () => {
+    const result = await execute(createRunWorkflowStep());
+
+    expect(workflowRunnerWorkspaceService.run).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workspaceId: 'workspace-id',
+        workflowVersionId: 'child-version-id',
+        payload: { companyName: 'Acme' },
+        parentWorkflowRunId: 'parent-run-id',
+        parentStepId: 'run-workflow-step',
+      }),
+    );
+    expect(result).toEqual({ pendingEvent: true });
+  });
+
+  it('should return the sub-workflow run id without waiting', async () => {
+    const result = await execute(
+      createRunWorkflowStep({
+        payload: '{"companyName": "Acme"}',
+        waitForCompletion: false,
+      }),
+    );
+
+    expect(workflowRunnerWorkspaceService.run).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: { companyName: 'Acme' } }),
+    );
+    expect(result).toEqual({ result: { workflowRunId: 'child-run-id' } });
+  });
+
+  it('should refuse sub-workflows nested too deeply', async () => {
+    workflowRunWorkspaceService.getWorkflowRunOrFail.mockResolvedValue({
+      id: 'parent-run-id',
+      parentWorkflowRunId: 'ancestor-run-id',
+    });
+    workflowRunWorkspaceService.getWorkflowRun.mockResolvedValue({
+      id: 'ancestor-run-id',
+      parentWorkflowRunId: 'ancestor-run-id',
+    });
+
+    await expect(execute(createRunWorkflowStep())).rejects.toThrow(
+      `Sub-workflows cannot be nested more than ${MAX_SUB_WORKFLOW_DEPTH} levels deep`,
+    );
+    expect(workflowRunnerWorkspaceService.run).not.toHaveBeenCalled();
+  });
+
+  it('should refuse workflows that do not start with a manual trigger', async () => {
+    workflowCommonWorkspaceService.getActiveWorkflowVersion.mockResolvedValue({
+      id: 'child-version-id',
+      trigger: { type: WorkflowTriggerType.DATABASE_EVENT },
+    });
+
+    await expect(execute(createRunWorkflowStep())).rejects.toThrow(
+      'Sub-workflow must start with a manual trigger',
+    );
+  });
+
+  it('should fail the step when the sub-workflow run is throttled', async () => {
+    workflowRunnerWorkspaceService.run.mockResolvedValue({
+      workflowRunId: 'child-run-id',
+      status: WorkflowRunStatus.FAILED,
+    });
+
+    await expect(execute(createRunWorkflowStep())).rejects.toThrow(
+      'Sub-workflow run could not be started: throttle limit reached',
+    );
+  });
+
+  it('should refuse a payload that is not an object', async () => {
+    await expect(
+      execute(createRunWorkflowStep({ payload: '[1, 2]' })),
+    ).rejects.toThrow('Sub-workflow payload must be an object');
+    expect(workflowRunnerWorkspaceService.run).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a payload that is not the record expected by the trigger', async () => {
+    workflowCommonWorkspaceService.getActiveWorkflowVersion.mockResolvedValue({
+      id: 'child-version-id',
+      trigger: {
+        type: WorkflowTriggerType.MANUAL,
+        settings: {
+          availability: {
+            type: 'SINGLE_RECORD',
+            objectNameSingular: 'company',
+          },
+        },
+      },
+    });
+
+    await expect(execute(createRunWorkflowStep())).rejects.toThrow(
+      'Sub-workflow payload must be a company record with an id',
+    );
+    expect(workflowRunnerWorkspaceService.run).not.toHaveBeenCalled();
+  });
+
+  it('should accept the records expected by a bulk records trigger', async () => {
+    workflowCommonWorkspaceService.getActiveWorkflowVersion.mockResolvedValue({
+      id: 'child-version-id',
+      trigger: {
+        type: WorkflowTriggerType.MANUAL,
+        settings: {
+          availability: {
+            type: 'BULK_RECORDS',
+            objectNameSingular: 'company',
+          },
+        },
+      },
+    });
+
+    const payload = {
+      companies: [{ id: '20202020-0b5d-4b0e-9b6e-5b0a0c4e0b2a' }],
+    };
+
+    await execute(createRunWorkflowStep({ payload }));
+
+    expect(workflowRunnerWorkspaceService.run).toHaveBeenCalledWith(
+      expect.objectContaining({ payload }),
+    );
+
+    await expect(
+      execute(createRunWorkflowStep({ payload: { companies: 'Acme' } })),
+    ).rejects.toThrow(
+      'Sub-workflow payload must contain a companies array of records',
+    );
+  });
+});
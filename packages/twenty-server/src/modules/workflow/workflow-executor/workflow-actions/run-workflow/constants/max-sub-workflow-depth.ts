@@ -0,0 +1,2 @@
+// A run started by a RUN_WORKFLOW step is one level deeper than its parent
+export const MAX_SUB_WORKFLOW_DEPTH = 5;
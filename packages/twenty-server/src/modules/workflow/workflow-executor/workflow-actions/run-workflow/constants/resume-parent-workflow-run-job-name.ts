@@ -0,0 +1 @@
+export const RESUME_PARENT_WORKFLOW_RUN_JOB_NAME = 'ResumeParentWorkflowRunJob';
@@ -0,0 +1,235 @@
+import { Scope } from '@nestjs/common';
+
+import { isDefined } from 'twenty-shared/utils';
+import { StepStatus } from 'twenty-shared/workflow';
+
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
+import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import { WorkflowRunStatus } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
+import { RESUME_PARENT_WORKFLOW_RUN_JOB_NAME } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/constants/resume-parent-workflow-run-job-name';
+import { isWorkflowRunWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/guards/is-workflow-run-workflow-action.guard';
+import { type ResumeParentWorkflowRunJobData } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/types/resume-parent-workflow-run-job-data.type';
+import { type WorkflowRunWorkflowResult } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/types/workflow-run-workflow-result.type';
+import { getWorkflowRunOutput } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/utils/get-workflow-run-output.util';
+import {
+  WorkflowRunException,
+  WorkflowRunExceptionCode,
+} from 'src/modules/workflow/workflow-runner/exceptions/workflow-run.exception';
+import { RUN_WORKFLOW_JOB_NAME } from 'src/modules/workflow/workflow-runner/constants/run-workflow-job-name';
+import { type RunWorkflowJobData } from 'src/modules/workflow/workflow-runner/types/run-workflow-job-data.type';
+import { WorkflowRunWorkspaceService } from 'src/modules/workflow/workflow-runner/workflow-run/workflow-run.workspace-service';
+
+// The sub-workflow run may end before the parent step is marked as pending.
+// The job is then retried with an exponential back-off, and the parent step
+// fails once the attempts are exhausted.
+const PARENT_STEP_NOT_PENDING_YET_RETRY_BASE_DELAY_MS = 1000;
+const PARENT_STEP_NOT_PENDING_YET_MAX_RETRY_DELAY_MS = 60_000;
+const PARENT_STEP_NOT_PENDING_YET_MAX_ATTEMPTS = 10;
+
+@Processor({
+  queueName: MessageQueue.delayedJobsQueue,
+  scope: Scope.REQUEST,
+})
+export class ResumeParentWorkflowRunJob {
+  constructor(
+    @InjectMessageQueue(MessageQueue.workflowQueue)
+    private readonly messageQueueService: MessageQueueService,
+    @InjectMessageQueue(MessageQueue.delayedJobsQueue)
+    private readonly delayedJobsQueueService: MessageQueueService,
+    private readonly workflowRunWorkspaceService: WorkflowRunWorkspaceService,
+  ) {}
+
+  @Process(RESUME_PARENT_WORKFLOW_RUN_JOB_NAME)
+  async handle({
+    workspaceId,
+    workflowRunId,
+    attempt = 0,
+  }: ResumeParentWorkflowRunJobData): Promise<void> {
+    const childWorkflowRun =
+      await this.workflowRunWorkspaceService.getWorkflowRunOrFail({
+        workflowRunId,
+        workspaceId,
+      });
+
+    const parentWorkflowRunId = childWorkflowRun.parentWorkflowRunId;
+    const parentStepId = childWorkflowRun.state?.parentStepId;
+
+    if (!isDefined(parentWorkflowRunId) || !isDefined(parentStepId)) {
+      return;
+    }
+
+    try {
+      const parentWorkflowRun =
+        await this.workflowRunWorkspaceService.getWorkflowRunOrFail({
+          workflowRunId: parentWorkflowRunId,
+          workspaceId,
+        });
+
+      if (parentWorkflowRun.status !== WorkflowRunStatus.RUNNING) {
+        return;
+      }
+
+      const parentStep = parentWorkflowRun.state?.flow?.steps?.find(
+        (step) => step.id === parentStepId,
+      );
+
+      if (!isDefined(parentStep) || !isWorkflowRunWorkflowAction(parentStep)) {
+        throw new WorkflowRunException(
+          'Step not found or is not a run workflow action',
+          WorkflowRunExceptionCode.INVALID_INPUT,
+        );
+      }
+
+      const parentStepStatus =
+        parentWorkflowRun.state?.stepInfos[parentStepId]?.status;
+
+      if (parentStepStatus === StepStatus.RUNNING) {
+        if (attempt + 1 >= PARENT_STEP_NOT_PENDING_YET_MAX_ATTEMPTS) {
+          await this.failParentStep({
+            workspaceId,
+            parentWorkflowRunId,
+            parentStepId,
+            error:
+              'Sub-workflow run ended but the step never started waiting for it',
+          });
+
+          return;
+        }
+
+        await this.delayedJobsQueueService.add<ResumeParentWorkflowRunJobData>(
+          RESUME_PARENT_WORKFLOW_RUN_JOB_NAME,
+          { workspaceId, workflowRunId, attempt: attempt + 1 },
+          {
+            delay: Math.min(
+              PARENT_STEP_NOT_PENDING_YET_RETRY_BASE_DELAY_MS * 2 ** attempt,
+              PARENT_STEP_NOT_PENDING_YET_MAX_RETRY_DELAY_MS,
+            ),
+          },
+        );
+
+        return;
+      }
+
+      // Fire-and-forget steps already succeeded when the run was started
+      if (parentStepStatus !== StepStatus.PENDING) {
+        return;
+      }
+
+      const result: WorkflowRunWorkflowResult = {
+        workflowRunId,
+        status: childWorkflowRun.status,
+        output: getWorkflowRunOutput(childWorkflowRun.state),
+      };
+
+      if (childWorkflowRun.status !== WorkflowRunStatus.COMPLETED) {
+        const error = `Sub-workflow run ended with status ${childWorkflowRun.status}${
+          isDefined(childWorkflowRun.state?.workflowRunError)
+            ? `: ${childWorkflowRun.state.workflowRunError}`
+            : ''
+        }`;
+
+        if (
+          !parentStep.settings.errorHandlingOptions?.continueOnFailure?.value
+        ) {
+          await this.failParentStep({
+            workspaceId,
+            parentWorkflowRunId,
+            parentStepId,
+            error,
+          });
+
+          return;
+        }
+
+        await this.completeParentStep({
+          workspaceId,
+          parentWorkflowRunId,
+          parentStepId,
+          result: { ...result, error },
+        });
+
+        return;
+      }
+
+      await this.completeParentStep({
+        workspaceId,
+        parentWorkflowRunId,
+        parentStepId,
+        result,
+      });
+    } catch (error) {
+      await this.workflowRunWorkspaceService.endWorkflowRun({
+        workflowRunId: parentWorkflowRunId,
+        workspaceId,
+        status: WorkflowRunStatus.FAILED,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Unknown error during sub-workflow resume',
+      });
+    }
+  }
+
+  private async failParentStep({
+    workspaceId,
+    parentWorkflowRunId,
+    parentStepId,
+    error,
+  }: {
+    workspaceId: string;
+    parentWorkflowRunId: string;
+    parentStepId: string;
+    error: string;
+  }) {
+    await this.workflowRunWorkspaceService.updateWorkflowRunStepInfo({
+      stepId: parentStepId,
+      stepInfo: {
+        status: StepStatus.FAILED,
+        error,
+      },
+      workspaceId,
+      workflowRunId: parentWorkflowRunId,
+    });
+
+    await this.workflowRunWorkspaceService.endWorkflowRun({
+      workflowRunId: parentWorkflowRunId,
+      workspaceId,
+      status: WorkflowRunStatus.FAILED,
+      error,
+    });
+  }
+
+  private async completeParentStep({
+    workspaceId,
+    parentWorkflowRunId,
+    parentStepId,
+    result,
+  }: {
+    workspaceId: string;
+    parentWorkflowRunId: string;
+    parentStepId: string;
+    result: WorkflowRunWorkflowResult;
+  }) {
+    await this.workflowRunWorkspaceService.updateWorkflowRunStepInfo({
+      stepId: parentStepId,
+      stepInfo: {
+        status: StepStatus.SUCCESS,
+        result,
+      },
+      workspaceId,
+      workflowRunId: parentWorkflowRunId,
+    });
+
+    await this.messageQueueService.add<RunWorkflowJobData>(
+      RUN_WORKFLOW_JOB_NAME,
+      {
+        workspaceId,
+        workflowRunId: parentWorkflowRunId,
+        lastExecutedStepId: parentStepId,
+      },
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { forwardRef, Module } from '@nestjs/common';
+
+import { WorkflowCommonModule } from 'src/modules/workflow/common/workflow-common.module';
+import { ResumeParentWorkflowRunJob } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/jobs/resume-parent-workflow-run.job';
+import { RunWorkflowWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/run-workflow.workflow-action';
+import { WorkflowRunnerModule } from 'src/modules/workflow/workflow-runner/workflow-runner.module';
+import { WorkflowRunModule } from 'src/modules/workflow/workflow-runner/workflow-run/workflow-run.module';
+
+@Module({
+  imports: [
+    WorkflowCommonModule,
+    WorkflowRunModule,
+    // forwardRef needed: WorkflowRunnerModule imports the workflow executor
+    forwardRef(() => WorkflowRunnerModule),
+  ],
+  providers: [RunWorkflowWorkflowAction, ResumeParentWorkflowRunJob],
+  exports: [RunWorkflowWorkflowAction],
+})
+export class RunWorkflowActionModule {}
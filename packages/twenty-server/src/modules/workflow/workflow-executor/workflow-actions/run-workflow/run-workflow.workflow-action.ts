@@ -0,0 +1,255 @@
+import { forwardRef, Inject, Injectable } from '@nestjs/common';
+
+import { isObject, isString } from '@sniptt/guards';
+import { isDefined, isValidUuid, resolveInput } from 'twenty-shared/utils';
+
+import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/interfaces/workflow-action.interface';
+
+import { WorkflowRunStatus } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
+import { WorkflowCommonWorkspaceService } from 'src/modules/workflow/common/workspace-services/workflow-common.workspace-service';
+import {
+  WorkflowStepExecutorException,
+  WorkflowStepExecutorExceptionCode,
+} from 'src/modules/workflow/workflow-executor/exceptions/workflow-step-executor.exception';
+import { type WorkflowActionInput } from 'src/modules/workflow/workflow-executor/types/workflow-action-input';
+import { type WorkflowActionOutput } from 'src/modules/workflow/workflow-executor/types/workflow-action-output.type';
+import { findStepOrThrow } from 'src/modules/workflow/workflow-executor/utils/find-step-or-throw.util';
+import { MAX_SUB_WORKFLOW_DEPTH } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/constants/max-sub-workflow-depth';
+import { isWorkflowRunWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/guards/is-workflow-run-workflow-action.guard';
+import { type WorkflowRunWorkflowActionInput } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/types/workflow-run-workflow-action-input.type';
+import { WorkflowRunWorkspaceService } from 'src/modules/workflow/workflow-runner/workflow-run/workflow-run.workspace-service';
+import { WorkflowRunnerWorkspaceService } from 'src/modules/workflow/workflow-runner/workspace-services/workflow-runner.workspace-service';
+import {
+  type WorkflowManualTrigger,
+  WorkflowTriggerType,
+} from 'src/modules/workflow/workflow-trigger/types/workflow-trigger.type';
+
+const isRecordPayload = (value: unknown): boolean =>
+  isObject(value) &&
+  isString((value as { id?: unknown }).id) &&
+  isValidUuid((value as { id: string }).id);
+
+@Injectable()
+export class RunWorkflowWorkflowAction implements WorkflowAction {
+  constructor(
+    private readonly workflowCommonWorkspaceService: WorkflowCommonWorkspaceService,
+    private readonly workflowRunWorkspaceService: WorkflowRunWorkspaceService,
+    // forwardRef needed: the workflow runner executes this action
+    @Inject(forwardRef(() => WorkflowRunnerWorkspaceService))
+    private readonly workflowRunnerWorkspaceService: WorkflowRunnerWorkspaceService,
+  ) {}
+
+  async execute({
+    currentStepId,
+    steps,
+    runInfo,
+    context,
+  }: WorkflowActionInput): Promise<WorkflowActionOutput> {
+    const step = findStepOrThrow({
+      stepId: currentStepId,
+      steps,
+    });
+
+    if (!isWorkflowRunWorkflowAction(step)) {
+      throw new WorkflowStepExecutorException(
+        'Step is not a run workflow action',
+        WorkflowStepExecutorExceptionCode.INVALID_STEP_TYPE,
+      );
+    }
+
+    const { workflowId, payload, waitForCompletion } = resolveInput(
+      step.settings.input,
+      context,
+    ) as WorkflowRunWorkflowActionInput;
+
+    if (!isDefined(workflowId)) {
+      throw new WorkflowStepExecutorException(
+        'Workflow to run is required',
+        WorkflowStepExecutorExceptionCode.INVALID_STEP_INPUT,
+      );
+    }
+
+    const triggerPayload = this.parsePayload(payload);
+
+    const parentWorkflowRun =
+      await this.workflowRunWorkspaceService.getWorkflowRunOrFail({
+        workflowRunId: runInfo.workflowRunId,
+        workspaceId: runInfo.workspaceId,
+      });
+
+    const parentDepth = await this.getWorkflowRunDepth({
+      parentWorkflowRunId: parentWorkflowRun.parentWorkflowRunId,
+      workspaceId: runInfo.workspaceId,
+    });
+
+    if (parentDepth + 1 > MAX_SUB_WORKFLOW_DEPTH) {
+      throw new WorkflowStepExecutorException(
+        `Sub-workflows cannot be nested more than ${MAX_SUB_WORKFLOW_DEPTH} levels deep`,
+        WorkflowStepExecutorExceptionCode.MAX_SUB_WORKFLOW_DEPTH_REACHED,
+      );
+    }
+
+    const workflowVersion =
+      await this.workflowCommonWorkspaceService.getActiveWorkflowVersion({
+        workflowId,
+        workspaceId: runInfo.workspaceId,
+      });
+
+    if (!isDefined(workflowVersion)) {
+      throw new WorkflowStepExecutorException(
+        'Sub-workflow has no active version',
+        WorkflowStepExecutorExceptionCode.INVALID_STEP_INPUT,
+      );
+    }
+
+    if (workflowVersion.trigger?.type !== WorkflowTriggerType.MANUAL) {
+      throw new WorkflowStepExecutorException(
+        'Sub-workflow must start with a manual trigger',
+        WorkflowStepExecutorExceptionCode.INVALID_STEP_INPUT,
+      );
+    }
+
+    await this.assertPayloadMatchesManualTrigger({
+      trigger: workflowVersion.trigger,
+      payload: triggerPayload,
+      workspaceId: runInfo.workspaceId,
+    });
+
+    // Started like any other run, so throttling and billing apply to it
+    const { workflowRunId, status } =
+      await this.workflowRunnerWorkspaceService.run({
+        workspaceId: runInfo.workspaceId,
+        workflowVersionId: workflowVersion.id,
+        payload: triggerPayload,
+        source: parentWorkflowRun.createdBy,
+        isTestRun: parentWorkflowRun.isTestRun,
+        // Fixtures are keyed by step id, so the sub-workflow steps can be
+        // stubbed from the parent test run
+        testRunFixtures: parentWorkflowRun.state?.testRunFixtures,
+        parentWorkflowRunId: parentWorkflowRun.id,
+        parentStepId: currentStepId,
+      });
+
+    if (status === WorkflowRunStatus.FAILED) {
+      throw new WorkflowStepExecutorException(
+        'Sub-workflow run could not be started: throttle limit reached',
+        WorkflowStepExecutorExceptionCode.INTERNAL_ERROR,
+      );
+    }
+
+    // The step stays pending until ResumeParentWorkflowRunJob reports the
+    // end of the sub-workflow run
+    if (waitForCompletion) {
+      return {
+        pendingEvent: true,
+      };
+    }
+
+    return {
+      result: {
+        workflowRunId,
+      },
+    };
+  }
+
+  private parsePayload(payload: object | string | undefined): object {
+    let parsedPayload: unknown = payload ?? {};
+
+    if (isString(payload)) {
+      try {
+        parsedPayload = JSON.parse(payload === '' ? '{}' : payload);
+      } catch {
+        throw new WorkflowStepExecutorException(
+          'Sub-workflow payload is not valid JSON',
+          WorkflowStepExecutorExceptionCode.INVALID_STEP_INPUT,
+        );
+      }
+    }
+
+    if (!isObject(parsedPayload) || Array.isArray(parsedPayload)) {
+      throw new WorkflowStepExecutorException(
+        'Sub-workflow payload must be an object',
+        WorkflowStepExecutorExceptionCode.INVALID_STEP_INPUT,
+      );
+    }
+
+    return parsedPayload;
+  }
+
+  // The payload becomes the trigger output of the sub-workflow, so it must
+  // have the shape its manual trigger exposes to the next steps
+  private async assertPayloadMatchesManualTrigger({
+    trigger,
+    payload,
+    workspaceId,
+  }: {
+    trigger: WorkflowManualTrigger;
+    payload: object;
+    workspaceId: string;
+  }): Promise<void> {
+    const { availability, objectType } = trigger.settings;
+
+    if (availability?.type === 'BULK_RECORDS') {
+      const { flatObjectMetadata } =
+        await this.workflowCommonWorkspaceService.getObjectMetadataInfo(
+          availability.objectNameSingular,
+          workspaceId,
+        );
+      const records = (payload as Record<string, unknown>)[
+        flatObjectMetadata.namePlural
+      ];
+
+      if (!Array.isArray(records) || !records.every(isRecordPayload)) {
+        throw new WorkflowStepExecutorException(
+          `Sub-workflow payload must contain a ${flatObjectMetadata.namePlural} array of records`,
+          WorkflowStepExecutorExceptionCode.INVALID_STEP_INPUT,
+        );
+      }
+
+      return;
+    }
+
+    // Triggers saved before availability existed only had an object type
+    const recordObjectType =
+      availability?.type === 'SINGLE_RECORD'
+        ? availability.objectNameSingular
+        : isDefined(availability)
+          ? undefined
+          : objectType;
+
+    if (isDefined(recordObjectType) && !isRecordPayload(payload)) {
+      throw new WorkflowStepExecutorException(
+        `Sub-workflow payload must be a ${recordObjectType} record with an id`,
+        WorkflowStepExecutorExceptionCode.INVALID_STEP_INPUT,
+      );
+    }
+  }
+
+  private async getWorkflowRunDepth({
+    parentWorkflowRunId,
+    workspaceId,
+  }: {
+    parentWorkflowRunId: string | null;
+    workspaceId: string;
+  }): Promise<number> {
+    let depth = 0;
+    let currentParentWorkflowRunId = parentWorkflowRunId;
+
+    while (
+      isDefined(currentParentWorkflowRunId) &&
+      depth <= MAX_SUB_WORKFLOW_DEPTH
+    ) {
+      const parentWorkflowRun =
+        await this.workflowRunWorkspaceService.getWorkflowRun({
+          workflowRunId: currentParentWorkflowRunId,
+          workspaceId,
+        });
+
+      depth++;
+      currentParentWorkflowRunId =
+        parentWorkflowRun?.parentWorkflowRunId ?? null;
+    }
+
+    return depth;
+  }
+}
@@ -0,0 +1,7 @@
+export type ResumeParentWorkflowRunJobData = {
+  workspaceId: string;
+  // The sub-workflow run that just ended
+  workflowRunId: string;
+  // Number of times the job waited for the parent step to become pending
+  attempt?: number;
+};
@@ -0,0 +1,7 @@
+export type WorkflowRunWorkflowActionInput = {
+  workflowId: string;
+  // Passed as the payload of the sub-workflow manual trigger, either as an
+  // object or as its JSON string
+  payload: object | string;
+  waitForCompletion: boolean;
+};
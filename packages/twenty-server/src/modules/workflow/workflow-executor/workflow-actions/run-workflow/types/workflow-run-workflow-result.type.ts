@@ -0,0 +1,10 @@
+import { type WorkflowRunStatus } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
+
+export type WorkflowRunWorkflowResult = {
+  workflowRunId: string;
+  // Only set once the sub-workflow run has ended
+  status?: WorkflowRunStatus;
+  output?: object;
+  // Set when the sub-workflow did not complete and the step continues on failure
+  error?: string;
+};
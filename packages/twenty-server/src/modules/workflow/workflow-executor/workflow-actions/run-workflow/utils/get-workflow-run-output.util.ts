@@ -0,0 +1,28 @@
+import { isDefined } from 'twenty-shared/utils';
+import { StepStatus } from 'twenty-shared/workflow';
+
+import { type WorkflowRunState } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
+
+// The output of a run is the merged result of its final steps, i.e. the
+// successful steps that have no next step
+export const getWorkflowRunOutput = (
+  state: WorkflowRunState | null | undefined,
+): object => {
+  if (!isDefined(state)) {
+    return {};
+  }
+
+  return state.flow.steps
+    .filter(
+      (step) =>
+        (step.nextStepIds ?? []).length === 0 &&
+        state.stepInfos[step.id]?.status === StepStatus.SUCCESS,
+    )
+    .reduce<object>(
+      (output, step) => ({
+        ...output,
+        ...(state.stepInfos[step.id]?.result ?? {}),
+      }),
+      {},
+    );
+};
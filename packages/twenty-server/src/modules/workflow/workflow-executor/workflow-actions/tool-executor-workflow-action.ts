@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 
-import { resolveInput } from 'twenty-shared/utils';
+import { isDefined, resolveInput } from 'twenty-shared/utils';
 
 import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/interfaces/workflow-action.interface';
 
@@ -51,6 +51,9 @@ export class ToolExecutorWorkflowAction implements WorkflowAction {
     return {
       result: toolOutput.result as object,
       error: toolOutput.error,
+      ...(isDefined(toolOutput.error) && {
+        errorStatusCode: toolOutput.status,
+      }),
     };
   }
 }
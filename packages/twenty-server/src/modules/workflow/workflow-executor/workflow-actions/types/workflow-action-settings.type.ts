@@ -1,3 +1,4 @@
+import { type WorkflowStepErrorClass } from 'src/modules/workflow/workflow-executor/types/workflow-step-error-class.type';
 import { type OutputSchema } from 'src/modules/workflow/workflow-builder/workflow-schema/types/output-schema.type';
 import { type WorkflowAiAgentActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/ai-agent/types/workflow-ai-agent-action-settings.type';
 import { type WorkflowCodeActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/code/types/workflow-code-action-settings.type';
@@ -20,6 +21,9 @@ export type BaseWorkflowActionSettings = {
   errorHandlingOptions: {
     retryOnFailure: {
       value: boolean;
+      maxAttempts?: number;
+      initialDelayMs?: number;
+      retryableErrorClasses?: WorkflowStepErrorClass[];
     };
     continueOnFailure: {
       value: boolean;
@@ -13,4 +13,8 @@ export enum WorkflowActionType {
   ITERATOR = 'ITERATOR',
   EMPTY = 'EMPTY',
   DELAY = 'DELAY',
+  IF_ELSE = 'IF_ELSE',
+  SWITCH = 'SWITCH',
+  RUN_WORKFLOW = 'RUN_WORKFLOW',
+  WAIT_FOR_EVENT = 'WAIT_FOR_EVENT',
 }
@@ -1,3 +1,5 @@
+import { type WorkflowIfElseActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-if-else-action-settings.type';
+import { type WorkflowSwitchActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-switch-action-settings.type';
 import { type WorkflowAiAgentActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/ai-agent/types/workflow-ai-agent-action-settings.type';
 import { type WorkflowCodeActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/code/types/workflow-code-action-settings.type';
 import { type WorkflowDelayActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/delay/types/workflow-delay-action-settings.type';
@@ -6,6 +8,7 @@ import { type WorkflowFormActionSettings } from 'src/modules/workflow/workflow-e
 import { type WorkflowHttpRequestActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/http-request/types/workflow-http-request-action-settings.type';
 import { type WorkflowIteratorActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/iterator/types/workflow-iterator-action-settings.type';
 import { type WorkflowSendEmailActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/mail-sender/types/workflow-send-email-action-settings.type';
+import { type WorkflowRunWorkflowActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/types/workflow-run-workflow-action-settings.type';
 import {
   type WorkflowCreateRecordActionSettings,
   type WorkflowDeleteRecordActionSettings,
@@ -14,6 +17,7 @@ import {
   type WorkflowUpsertRecordActionSettings,
 } from 'src/modules/workflow/workflow-executor/workflow-actions/record-crud/types/workflow-record-crud-action-settings.type';
 import { type WorkflowActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action-settings.type';
+import { type WorkflowWaitForEventActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/types/workflow-wait-for-event-action-settings.type';
 
 // Import the enum from its dedicated file to avoid circular dependencies
 import { WorkflowActionType } from './workflow-action-type.enum';
@@ -103,6 +107,32 @@ export type WorkflowDelayAction = BaseWorkflowAction & {
   settings: WorkflowDelayActionSettings;
 };
 
+export type WorkflowIfElseAction = BaseWorkflowAction & {
+  type: WorkflowActionType.IF_ELSE;
+  settings: WorkflowIfElseActionSettings;
+};
+
+export type WorkflowSwitchAction = BaseWorkflowAction & {
+  type: WorkflowActionType.SWITCH;
+  settings: WorkflowSwitchActionSettings;
+};
+
+export type WorkflowRunWorkflowAction = BaseWorkflowAction & {
+  type: WorkflowActionType.RUN_WORKFLOW;
+  settings: WorkflowRunWorkflowActionSettings;
+};
+
+export type WorkflowWaitForEventAction = BaseWorkflowAction & {
+  type: WorkflowActionType.WAIT_FOR_EVENT;
+  settings: WorkflowWaitForEventActionSettings;
+};
+
+// Steps whose nextStepIds are split into branches, only one being taken
+export type WorkflowBranchAction =
+  | WorkflowIfElseAction
+  | WorkflowSwitchAction
+  | WorkflowWaitForEventAction;
+
 export type WorkflowAction =
   | WorkflowCodeAction
   | WorkflowSendEmailAction
@@ -117,4 +147,8 @@ export type WorkflowAction =
   | WorkflowAiAgentAction
   | WorkflowIteratorAction
   | WorkflowEmptyAction
-  | WorkflowDelayAction;
+  | WorkflowDelayAction
+  | WorkflowIfElseAction
+  | WorkflowSwitchAction
+  | WorkflowRunWorkflowAction
+  | WorkflowWaitForEventAction;
@@ -0,0 +1,291 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+
+import { StepLogicalOperator, ViewFilterOperand } from 'twenty-shared/types';
+import { StepStatus } from 'twenty-shared/workflow';
+
+import { type ObjectRecordUpdateEvent } from 'src/engine/core-modules/event-emitter/types/object-record-update.event';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { getQueueToken } from 'src/engine/core-modules/message-queue/utils/get-queue-token.util';
+import { WorkflowRunStatus } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
+import {
+  type WorkflowAction,
+  WorkflowActionType,
+} from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+import { RESUME_WAIT_FOR_EVENT_WORKFLOW_JOB_NAME } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/constants/resume-wait-for-event-workflow-job-name';
+import { ResumeWaitForEventWorkflowJob } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/jobs/resume-wait-for-event-workflow.job';
+import { RUN_WORKFLOW_JOB_NAME } from 'src/modules/workflow/workflow-runner/constants/run-workflow-job-name';
+import { WorkflowRunWorkspaceService } from 'src/modules/workflow/workflow-runner/workflow-run/workflow-run.workspace-service';
+import { AutomatedTriggerWorkspaceService } from 'src/modules/workflow/workflow-trigger/automated-trigger/automated-trigger.workspace-service';
+
+describe('ResumeWaitForEventWorkflowJob', () => {
+  let job: ResumeWaitForEventWorkflowJob;
+  let workflowRunWorkspaceService: {
+    getWorkflowRunOrFail: jest.Mock;
+    updateWorkflowRunStepInfo: jest.Mock;
+    endWorkflowRun: jest.Mock;
+  };
+  let automatedTriggerWorkspaceService: {
+    deleteWaitForEventTrigger: jest.Mock;
+  };
+  let messageQueueService: { add: jest.Mock };
+  let delayedJobsQueueService: { add: jest.Mock };
+
+  const waitForEventStep: WorkflowAction = {
+    id: 'wait-step',
+    name: 'Wait for Event',
+    type: WorkflowActionType.WAIT_FOR_EVENT,
+    valid: true,
+    settings: {
+      outputSchema: {},
+      errorHandlingOptions: {
+        retryOnFailure: { value: false },
+        continueOnFailure: { value: false },
+      },
+      input: {
+        eventName: 'opportunity.updated',
+        recordId: '{{trigger.object.id}}',
+        stepFilterGroups: [
+          { id: 'group-1', logicalOperator: StepLogicalOperator.AND },
+        ],
+        stepFilters: [
+          {
+            id: 'filter-1',
+            type: 'SELECT',
+            stepOutputKey: '{{wait-step.event.properties.after.stage}}',
+            operand: ViewFilterOperand.IS,
+            value: 'WON',
+            stepFilterGroupId: 'group-1',
+          },
+        ],
+        timeout: { days: 1 },
+        branches: [
+          { id: 'event-branch', label: 'Event received', nextStepIds: ['a'] },
+          {
+            id: 'timeout-branch',
+            label: 'Timed out',
+            isTimeout: true,
+            nextStepIds: ['b'],
+          },
+        ],
+      },
+    },
+  };
+
+  const jobData = {
+    workspaceId: 'workspace-id',
+    workflowRunId: 'workflow-run-id',
+    stepId: 'wait-step',
+  };
+
+  const buildEvent = (stage: string): ObjectRecordUpdateEvent => ({
+    recordId: 'opportunity-id',
+    properties: {
+      updatedFields: ['stage'],
+      before: { stage: 'NEW' },
+      after: { stage },
+    },
+  });
+
+  beforeEach(async () => {
+    workflowRunWorkspaceService = {
+      getWorkflowRunOrFail: jest.fn().mockResolvedValue({
+        id: 'workflow-run-id',
+        status: WorkflowRunStatus.RUNNING,
+        state: {
+          flow: { steps: [waitForEventStep] },
+          stepInfos: {
+            trigger: { status: StepStatus.SUCCESS, result: {} },
+            'wait-step': { status: StepStatus.PENDING },
+          },
+        },
+      }),
+      updateWorkflowRunStepInfo: jest.fn(),
+      endWorkflowRun: jest.fn(),
+    };
+    automatedTriggerWorkspaceService = {
+      deleteWaitForEventTrigger: jest.fn().mockResolvedValue(true),
+    };
+    messageQueueService = { add: jest.fn() };
+    delayedJobsQueueService = { add: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ResumeWaitForEventWorkflowJob,
+        {
+          provide: WorkflowRunWorkspaceService,
+          useValue: workflowRunWorkspaceService,
+        },
+        {
+          provide: AutomatedTriggerWorkspaceService,
+          useValue: automatedTriggerWorkspaceService,
+        },
+        {
+          provide: getQueueToken(MessageQueue.workflowQueue),
+          useValue: messageQueueService,
+        },
+        {
+          provide: getQueueToken(MessageQueue.delayedJobsQueue),
+          useValue: delayedJobsQueueService,
+        },
+      ],
+    }).compile();
+
+    job = await module.resolve(ResumeWaitForEventWorkflowJob);
+  });
+
+  it('should resume the run on the event branch when the event matches', async () => {
+    const event = buildEvent('WON');
+
+    await job.handle({ ...jobData, events: [event] });
+
+    expect(
+      automatedTriggerWorkspaceService.deleteWaitForEventTrigger,
+    ).toHaveBeenCalledWith(jobData);
+    expect(
+      workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+    ).toHaveBeenCalledWith({
+      stepId: 'wait-step',
+      stepInfo: {
+        status: StepStatus.SUCCESS,
+        result: {
+          branchId: 'event-branch',
+          branchLabel: 'Event received',
+          timedOut: false,
+          event,
+        },
+      },
+      workspaceId: 'workspace-id',
+      workflowRunId: 'workflow-run-id',
+    });
+    expect(messageQueueService.add).toHaveBeenCalledWith(
+      RUN_WORKFLOW_JOB_NAME,
+      {
+        workspaceId: 'workspace-id',
+        workflowRunId: 'workflow-run-id',
+        lastExecutedStepId: 'wait-step',
+      },
+    );
+  });
+
+  it('should keep waiting when the event does not match the conditions', async () => {
+    await job.handle({ ...jobData, events: [buildEvent('LOST')] });
+
+    expect(workflowRunWorkspaceService.endWorkflowRun).not.toHaveBeenCalled();
+    expect(
+      automatedTriggerWorkspaceService.deleteWaitForEventTrigger,
+    ).not.toHaveBeenCalled();
+    expect(
+      workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+    ).not.toHaveBeenCalled();
+    expect(messageQueueService.add).not.toHaveBeenCalled();
+  });
+
+  it('should resume the run with the first event of the batch that matches', async () => {
+    const matchingEvent = buildEvent('WON');
+
+    await job.handle({
+      ...jobData,
+      events: [buildEvent('LOST'), matchingEvent, buildEvent('WON')],
+    });
+
+    expect(
+      workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({
+        stepInfo: {
+          status: StepStatus.SUCCESS,
+          result: expect.objectContaining({ branchId: 'event-branch' }),
+        },
+      }),
+    );
+    expect(
+      workflowRunWorkspaceService.updateWorkflowRunStepInfo.mock.calls[0][0]
+        .stepInfo.result.event,
+    ).toBe(matchingEvent);
+  });
+
+  it('should resume the run on the timeout branch when no event came', async () => {
+    await job.handle(jobData);
+
+    expect(
+      workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({
+        stepInfo: {
+          status: StepStatus.SUCCESS,
+          result: {
+            branchId: 'timeout-branch',
+            branchLabel: 'Timed out',
+            timedOut: true,
+            event: null,
+          },
+        },
+      }),
+    );
+    expect(messageQueueService.add).toHaveBeenCalled();
+  });
+
+  it('should do nothing when the step was already resumed', async () => {
+    automatedTriggerWorkspaceService.deleteWaitForEventTrigger.mockResolvedValue(
+      false,
+    );
+
+    await job.handle(jobData);
+
+    expect(
+      workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+    ).not.toHaveBeenCalled();
+    expect(messageQueueService.add).not.toHaveBeenCalled();
+  });
+
+  describe('when the step is not pending yet', () => {
+    beforeEach(() => {
+      workflowRunWorkspaceService.getWorkflowRunOrFail.mockResolvedValue({
+        id: 'workflow-run-id',
+        status: WorkflowRunStatus.RUNNING,
+        state: {
+          flow: { steps: [waitForEventStep] },
+          stepInfos: {
+            trigger: { status: StepStatus.SUCCESS, result: {} },
+            'wait-step': { status: StepStatus.RUNNING },
+          },
+        },
+      });
+    });
+
+    it('should retry with a growing delay', async () => {
+      const events = [buildEvent('WON')];
+
+      await job.handle({ ...jobData, events, attempt: 2 });
+
+      expect(delayedJobsQueueService.add).toHaveBeenCalledWith(
+        RESUME_WAIT_FOR_EVENT_WORKFLOW_JOB_NAME,
+        { ...jobData, events, attempt: 3 },
+        { delay: 4000 },
+      );
+      expect(
+        workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should fail the step once the attempts are exhausted', async () => {
+      await job.handle({ ...jobData, events: [buildEvent('WON')], attempt: 9 });
+
+      expect(delayedJobsQueueService.add).not.toHaveBeenCalled();
+      expect(
+        automatedTriggerWorkspaceService.deleteWaitForEventTrigger,
+      ).toHaveBeenCalledWith(jobData);
+      expect(
+        workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          stepId: 'wait-step',
+          stepInfo: expect.objectContaining({ status: StepStatus.FAILED }),
+        }),
+      );
+      expect(workflowRunWorkspaceService.endWorkflowRun).toHaveBeenCalledWith(
+        expect.objectContaining({ status: WorkflowRunStatus.FAILED }),
+      );
+    });
+  });
+});
@@ -0,0 +1,2 @@
+export const RESUME_WAIT_FOR_EVENT_WORKFLOW_JOB_NAME =
+  'ResumeWaitForEventWorkflowJob';
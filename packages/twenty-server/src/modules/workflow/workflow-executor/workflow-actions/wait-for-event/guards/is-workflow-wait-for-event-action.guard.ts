@@ -0,0 +1,10 @@
+import {
+  type WorkflowAction,
+  WorkflowActionType,
+  type WorkflowWaitForEventAction,
+} from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+
+export const isWorkflowWaitForEventAction = (
+  action: WorkflowAction,
+): action is WorkflowWaitForEventAction =>
+  action.type === WorkflowActionType.WAIT_FOR_EVENT;
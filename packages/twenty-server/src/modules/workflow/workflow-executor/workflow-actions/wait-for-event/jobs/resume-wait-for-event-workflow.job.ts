@@ -0,0 +1,254 @@
+import { Scope } from '@nestjs/common';
+
+import { isDefined, resolveInput } from 'twenty-shared/utils';
+import {
+  getWorkflowRunContext,
+  StepStatus,
+  type WorkflowRunStepInfos,
+} from 'twenty-shared/workflow';
+
+import { type ObjectRecordNonDestructiveEvent } from 'src/engine/core-modules/event-emitter/types/object-record-non-destructive-event';
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
+import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import { WorkflowRunStatus } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
+import { getDefaultWorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/utils/get-default-workflow-branch.util';
+import { evaluateFilterConditions } from 'src/modules/workflow/workflow-executor/workflow-actions/filter/utils/evaluate-filter-conditions.util';
+import { type WorkflowWaitForEventAction } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
+import { RESUME_WAIT_FOR_EVENT_WORKFLOW_JOB_NAME } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/constants/resume-wait-for-event-workflow-job-name';
+import { isWorkflowWaitForEventAction } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/guards/is-workflow-wait-for-event-action.guard';
+import { type ResumeWaitForEventWorkflowJobData } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/types/resume-wait-for-event-workflow-job-data.type';
+import { type WorkflowWaitForEventResult } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/types/workflow-wait-for-event-result.type';
+import {
+  WorkflowRunException,
+  WorkflowRunExceptionCode,
+} from 'src/modules/workflow/workflow-runner/exceptions/workflow-run.exception';
+import { RUN_WORKFLOW_JOB_NAME } from 'src/modules/workflow/workflow-runner/constants/run-workflow-job-name';
+import { type RunWorkflowJobData } from 'src/modules/workflow/workflow-runner/types/run-workflow-job-data.type';
+import { WorkflowRunWorkspaceService } from 'src/modules/workflow/workflow-runner/workflow-run/workflow-run.workspace-service';
+import { AutomatedTriggerWorkspaceService } from 'src/modules/workflow/workflow-trigger/automated-trigger/automated-trigger.workspace-service';
+
+// The event may happen before the step is marked as pending. The job is then
+// retried with an exponential back-off, and the step fails once the attempts
+// are exhausted.
+const STEP_NOT_PENDING_YET_RETRY_BASE_DELAY_MS = 1000;
+const STEP_NOT_PENDING_YET_MAX_RETRY_DELAY_MS = 60_000;
+const STEP_NOT_PENDING_YET_MAX_ATTEMPTS = 10;
+
+@Processor({
+  queueName: MessageQueue.delayedJobsQueue,
+  scope: Scope.REQUEST,
+})
+export class ResumeWaitForEventWorkflowJob {
+  constructor(
+    @InjectMessageQueue(MessageQueue.workflowQueue)
+    private readonly messageQueueService: MessageQueueService,
+    @InjectMessageQueue(MessageQueue.delayedJobsQueue)
+    private readonly delayedJobsQueueService: MessageQueueService,
+    private readonly workflowRunWorkspaceService: WorkflowRunWorkspaceService,
+    private readonly automatedTriggerWorkspaceService: AutomatedTriggerWorkspaceService,
+  ) {}
+
+  @Process(RESUME_WAIT_FOR_EVENT_WORKFLOW_JOB_NAME)
+  async handle(data: ResumeWaitForEventWorkflowJobData): Promise<void> {
+    const { workspaceId, workflowRunId, stepId, events, attempt = 0 } = data;
+
+    try {
+      const workflowRun =
+        await this.workflowRunWorkspaceService.getWorkflowRunOrFail({
+          workflowRunId,
+          workspaceId,
+        });
+
+      if (workflowRun.status !== WorkflowRunStatus.RUNNING) {
+        await this.automatedTriggerWorkspaceService.deleteWaitForEventTrigger({
+          workflowRunId,
+          stepId,
+          workspaceId,
+        });
+
+        return;
+      }
+
+      const step = workflowRun.state?.flow?.steps?.find(
+        (step) => step.id === stepId,
+      );
+
+      if (!isDefined(step) || !isWorkflowWaitForEventAction(step)) {
+        throw new WorkflowRunException(
+          'Step not found or is not a wait for event action',
+          WorkflowRunExceptionCode.INVALID_INPUT,
+        );
+      }
+
+      const stepInfos = workflowRun.state?.stepInfos ?? {};
+      const stepStatus = stepInfos[stepId]?.status;
+
+      if (stepStatus === StepStatus.RUNNING) {
+        if (attempt + 1 >= STEP_NOT_PENDING_YET_MAX_ATTEMPTS) {
+          await this.automatedTriggerWorkspaceService.deleteWaitForEventTrigger(
+            { workflowRunId, stepId, workspaceId },
+          );
+
+          await this.failStep({
+            workspaceId,
+            workflowRunId,
+            stepId,
+            error: 'Step never started waiting for the event',
+          });
+
+          return;
+        }
+
+        await this.delayedJobsQueueService.add<ResumeWaitForEventWorkflowJobData>(
+          RESUME_WAIT_FOR_EVENT_WORKFLOW_JOB_NAME,
+          { ...data, attempt: attempt + 1 },
+          {
+            delay: Math.min(
+              STEP_NOT_PENDING_YET_RETRY_BASE_DELAY_MS * 2 ** attempt,
+              STEP_NOT_PENDING_YET_MAX_RETRY_DELAY_MS,
+            ),
+          },
+        );
+
+        return;
+      }
+
+      // Already resumed by an earlier event or by the timeout
+      if (stepStatus !== StepStatus.PENDING) {
+        return;
+      }
+
+      const timedOut = !isDefined(events);
+
+      // Resume on the first event of the batch that meets the conditions
+      const event = timedOut
+        ? undefined
+        : events.find((event) =>
+            this.matchesStepConditions({ step, stepInfos, event }),
+          );
+
+      if (!timedOut && !isDefined(event)) {
+        return;
+      }
+
+      const hasDeletedWaitForEventTrigger =
+        await this.automatedTriggerWorkspaceService.deleteWaitForEventTrigger({
+          workflowRunId,
+          stepId,
+          workspaceId,
+        });
+
+      // Another job resumed the step in the meantime
+      if (!hasDeletedWaitForEventTrigger) {
+        return;
+      }
+
+      const selectedBranch = timedOut
+        ? step.settings.input.branches?.find((branch) => branch.isTimeout)
+        : getDefaultWorkflowBranch(step);
+
+      const result: WorkflowWaitForEventResult = {
+        branchId: selectedBranch?.id ?? null,
+        branchLabel: selectedBranch?.label ?? null,
+        timedOut,
+        event: event ?? null,
+      };
+
+      await this.workflowRunWorkspaceService.updateWorkflowRunStepInfo({
+        stepId,
+        stepInfo: {
+          status: StepStatus.SUCCESS,
+          result,
+        },
+        workspaceId,
+        workflowRunId,
+      });
+
+      await this.messageQueueService.add<RunWorkflowJobData>(
+        RUN_WORKFLOW_JOB_NAME,
+        {
+          workspaceId,
+          workflowRunId,
+          lastExecutedStepId: stepId,
+        },
+      );
+    } catch (error) {
+      await this.workflowRunWorkspaceService.endWorkflowRun({
+        workflowRunId,
+        workspaceId,
+        status: WorkflowRunStatus.FAILED,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Unknown error during wait for event resume',
+      });
+    }
+  }
+
+  private matchesStepConditions({
+    step,
+    stepInfos,
+    event,
+  }: {
+    step: WorkflowWaitForEventAction;
+    stepInfos: WorkflowRunStepInfos;
+    event: ObjectRecordNonDestructiveEvent;
+  }) {
+    const { stepFilterGroups, stepFilters } = step.settings.input;
+
+    if (
+      !isDefined(stepFilterGroups) ||
+      !isDefined(stepFilters) ||
+      stepFilters.length === 0
+    ) {
+      return true;
+    }
+
+    // Conditions read the event through the step own output
+    const context = {
+      ...getWorkflowRunContext(stepInfos),
+      [step.id]: { event },
+    };
+
+    return evaluateFilterConditions({
+      filterGroups: stepFilterGroups,
+      filters: stepFilters.map((filter) => ({
+        ...filter,
+        rightOperand: resolveInput(filter.value, context),
+        leftOperand: resolveInput(filter.stepOutputKey, context),
+      })),
+    });
+  }
+
+  private async failStep({
+    workspaceId,
+    workflowRunId,
+    stepId,
+    error,
+  }: {
+    workspaceId: string;
+    workflowRunId: string;
+    stepId: string;
+    error: string;
+  }) {
+    await this.workflowRunWorkspaceService.updateWorkflowRunStepInfo({
+      stepId,
+      stepInfo: {
+        status: StepStatus.FAILED,
+        error,
+      },
+      workspaceId,
+      workflowRunId,
+    });
+
+    await this.workflowRunWorkspaceService.endWorkflowRun({
+      workflowRunId,
+      workspaceId,
+      status: WorkflowRunStatus.FAILED,
+      error,
+    });
+  }
+}
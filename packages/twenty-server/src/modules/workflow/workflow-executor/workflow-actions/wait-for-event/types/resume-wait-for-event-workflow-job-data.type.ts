@@ -0,0 +1,10 @@
+import { type ObjectRecordNonDestructiveEvent } from 'src/engine/core-modules/event-emitter/types/object-record-non-destructive-event';
+
+export type ResumeWaitForEventWorkflowJobData = {
+  workspaceId: string;
+  workflowRunId: string;
+  stepId: string;
+  // Events of the waited record in one batch, missing when the wait timed out
+  events?: ObjectRecordNonDestructiveEvent[];
+  attempt?: number;
+};
@@ -0,0 +1,26 @@
+import { type StepFilter, type StepFilterGroup } from 'twenty-shared/types';
+
+import { type WorkflowBranch } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-branch.type';
+
+// The timeout branch is taken when no matching event happened in time, the
+// other branch when one did
+export type WorkflowWaitForEventBranch = WorkflowBranch & {
+  isTimeout?: boolean;
+};
+
+export type WorkflowWaitForEventActionInput = {
+  // A database event name, e.g. opportunity.updated
+  eventName: string;
+  recordId: string;
+  // For updated and upserted events, only wait for changes on these fields
+  fields?: string[];
+  stepFilterGroups?: StepFilterGroup[];
+  stepFilters?: StepFilter[];
+  timeout?: {
+    days?: number;
+    hours?: number;
+    minutes?: number;
+    seconds?: number;
+  };
+  branches: WorkflowWaitForEventBranch[];
+};
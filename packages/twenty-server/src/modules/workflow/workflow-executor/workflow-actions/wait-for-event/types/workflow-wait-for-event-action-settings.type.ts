@@ -0,0 +1,6 @@
+import { type BaseWorkflowActionSettings } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action-settings.type';
+import { type WorkflowWaitForEventActionInput } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/types/workflow-wait-for-event-action-input.type';
+
+export type WorkflowWaitForEventActionSettings = BaseWorkflowActionSettings & {
+  input: WorkflowWaitForEventActionInput;
+};
@@ -0,0 +1,7 @@
+import { type ObjectRecordNonDestructiveEvent } from 'src/engine/core-modules/event-emitter/types/object-record-non-destructive-event';
+import { type WorkflowBranchResult } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/types/workflow-branch-result.type';
+
+export type WorkflowWaitForEventResult = WorkflowBranchResult & {
+  timedOut: boolean;
+  event: ObjectRecordNonDestructiveEvent | null;
+};
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+
+import { ResumeWaitForEventWorkflowJob } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/jobs/resume-wait-for-event-workflow.job';
+import { WaitForEventWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/wait-for-event.workflow-action';
+import { WorkflowRunModule } from 'src/modules/workflow/workflow-runner/workflow-run/workflow-run.module';
+import { AutomatedTriggerModule } from 'src/modules/workflow/workflow-trigger/automated-trigger/automated-trigger.module';
+
+@Module({
+  imports: [AutomatedTriggerModule, WorkflowRunModule],
+  providers: [WaitForEventWorkflowAction, ResumeWaitForEventWorkflowJob],
+  exports: [WaitForEventWorkflowAction],
+})
+export class WaitForEventActionModule {}
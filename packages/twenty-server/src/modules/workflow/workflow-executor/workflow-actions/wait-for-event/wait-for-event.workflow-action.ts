@@ -0,0 +1,110 @@
+import { Injectable } from '@nestjs/common';
+
+import { isNonEmptyString } from '@sniptt/guards';
+import { resolveInput } from 'twenty-shared/utils';
+
+import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/interfaces/workflow-action.interface';
+
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import {
+  WorkflowStepExecutorException,
+  WorkflowStepExecutorExceptionCode,
+} from 'src/modules/workflow/workflow-executor/exceptions/workflow-step-executor.exception';
+import { type WorkflowActionInput } from 'src/modules/workflow/workflow-executor/types/workflow-action-input';
+import { type WorkflowActionOutput } from 'src/modules/workflow/workflow-executor/types/workflow-action-output.type';
+import { findStepOrThrow } from 'src/modules/workflow/workflow-executor/utils/find-step-or-throw.util';
+import { RESUME_WAIT_FOR_EVENT_WORKFLOW_JOB_NAME } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/constants/resume-wait-for-event-workflow-job-name';
+import { isWorkflowWaitForEventAction } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/guards/is-workflow-wait-for-event-action.guard';
+import { type ResumeWaitForEventWorkflowJobData } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/types/resume-wait-for-event-workflow-job-data.type';
+import { type WorkflowWaitForEventActionInput } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/types/workflow-wait-for-event-action-input.type';
+import { WorkflowRunWorkspaceService } from 'src/modules/workflow/workflow-runner/workflow-run/workflow-run.workspace-service';
+import { AutomatedTriggerWorkspaceService } from 'src/modules/workflow/workflow-trigger/automated-trigger/automated-trigger.workspace-service';
+
+// Suspends the run until the database event listener sees a matching event
+// on the record, or until the timeout job fires
+@Injectable()
+export class WaitForEventWorkflowAction implements WorkflowAction {
+  constructor(
+    private readonly automatedTriggerWorkspaceService: AutomatedTriggerWorkspaceService,
+    private readonly workflowRunWorkspaceService: WorkflowRunWorkspaceService,
+    @InjectMessageQueue(MessageQueue.delayedJobsQueue)
+    private readonly messageQueueService: MessageQueueService,
+  ) {}
+
+  async execute({
+    currentStepId,
+    steps,
+    runInfo,
+    context,
+  }: WorkflowActionInput): Promise<WorkflowActionOutput> {
+    const step = findStepOrThrow({
+      stepId: currentStepId,
+      steps,
+    });
+
+    if (!isWorkflowWaitForEventAction(step)) {
+      throw new WorkflowStepExecutorException(
+        'Step is not a wait for event action',
+        WorkflowStepExecutorExceptionCode.INVALID_STEP_TYPE,
+      );
+    }
+
+    const { eventName, recordId, fields, timeout } = resolveInput(
+      step.settings.input,
+      context,
+    ) as WorkflowWaitForEventActionInput;
+
+    if (!isNonEmptyString(eventName) || !isNonEmptyString(recordId)) {
+      throw new WorkflowStepExecutorException(
+        'Event name and record id are required to wait for an event',
+        WorkflowStepExecutorExceptionCode.INVALID_STEP_INPUT,
+      );
+    }
+
+    const workflowRun =
+      await this.workflowRunWorkspaceService.getWorkflowRunOrFail({
+        workflowRunId: runInfo.workflowRunId,
+        workspaceId: runInfo.workspaceId,
+      });
+
+    await this.automatedTriggerWorkspaceService.addWaitForEventTrigger({
+      workflowId: workflowRun.workflowId,
+      settings: {
+        eventName,
+        workflowRunId: runInfo.workflowRunId,
+        stepId: currentStepId,
+        recordId,
+        fields,
+      },
+      workspaceId: runInfo.workspaceId,
+    });
+
+    const { days = 0, hours = 0, minutes = 0, seconds = 0 } = timeout ?? {};
+
+    const timeoutInMs =
+      days * 24 * 60 * 60 * 1000 +
+      hours * 60 * 60 * 1000 +
+      minutes * 60 * 1000 +
+      seconds * 1000;
+
+    if (timeoutInMs > 0) {
+      await this.messageQueueService.add<ResumeWaitForEventWorkflowJobData>(
+        RESUME_WAIT_FOR_EVENT_WORKFLOW_JOB_NAME,
+        {
+          workspaceId: runInfo.workspaceId,
+          workflowRunId: runInfo.workflowRunId,
+          stepId: currentStepId,
+        },
+        {
+          delay: timeoutInMs,
+        },
+      );
+    }
+
+    return {
+      pendingEvent: true,
+    };
+  }
+}
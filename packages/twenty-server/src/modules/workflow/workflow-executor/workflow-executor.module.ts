@@ -4,8 +4,10 @@ import { BillingModule } from 'src/engine/core-modules/billing/billing.module';
 import { FeatureFlagModule } from 'src/engine/core-modules/feature-flag/feature-flag.module';
 import { ToolModule } from 'src/engine/core-modules/tool/tool.module';
 import { WorkflowCommonModule } from 'src/modules/workflow/common/workflow-common.module';
+import { RetryWorkflowStepJob } from 'src/modules/workflow/workflow-executor/jobs/retry-workflow-step.job';
 import { WorkflowActionFactory } from 'src/modules/workflow/workflow-executor/factories/workflow-action.factory';
 import { AiAgentActionModule } from 'src/modules/workflow/workflow-executor/workflow-actions/ai-agent/ai-agent-action.module';
+import { BranchActionModule } from 'src/modules/workflow/workflow-executor/workflow-actions/branch/branch-action.module';
 import { CodeActionModule } from 'src/modules/workflow/workflow-executor/workflow-actions/code/code-action.module';
 import { DelayActionModule } from 'src/modules/workflow/workflow-executor/workflow-actions/delay/delay-action.module';
 import { EmptyActionModule } from 'src/modules/workflow/workflow-executor/workflow-actions/empty/empty-action.module';
@@ -13,7 +15,9 @@ import { FilterActionModule } from 'src/modules/workflow/workflow-executor/workf
 import { FormActionModule } from 'src/modules/workflow/workflow-executor/workflow-actions/form/form-action.module';
 import { IteratorActionModule } from 'src/modules/workflow/workflow-executor/workflow-actions/iterator/iterator-action.module';
 import { RecordCRUDActionModule } from 'src/modules/workflow/workflow-executor/workflow-actions/record-crud/record-crud-action.module';
+import { RunWorkflowActionModule } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/run-workflow-action.module';
 import { ToolExecutorWorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/tool-executor-workflow-action';
+import { WaitForEventActionModule } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/wait-for-event-action.module';
 import { WorkflowExecutorWorkspaceService } from 'src/modules/workflow/workflow-executor/workspace-services/workflow-executor.workspace-service';
 import { WorkflowRunModule } from 'src/modules/workflow/workflow-runner/workflow-run/workflow-run.module';
 
@@ -28,6 +32,9 @@ import { WorkflowRunModule } from 'src/modules/workflow/workflow-runner/workflow
     BillingModule,
     FilterActionModule,
     IteratorActionModule,
+    BranchActionModule,
+    RunWorkflowActionModule,
+    WaitForEventActionModule,
     AiAgentActionModule,
     EmptyActionModule,
     FeatureFlagModule,
@@ -37,6 +44,7 @@ import { WorkflowRunModule } from 'src/modules/workflow/workflow-runner/workflow
     WorkflowExecutorWorkspaceService,
     WorkflowActionFactory,
     ToolExecutorWorkflowAction,
+    RetryWorkflowStepJob,
   ],
   exports: [WorkflowExecutorWorkspaceService],
 })
@@ -48,6 +48,7 @@ describe('WorkflowExecutorWorkspaceService', () => {
   const mockWorkflowRunWorkspaceService = {
     endWorkflowRun: jest.fn(),
     updateWorkflowRunStepInfo: jest.fn(),
+    updateWorkflowRunStepInfos: jest.fn(),
     getWorkflowRunOrFail: jest.fn(),
   };
 
@@ -60,6 +61,10 @@ describe('WorkflowExecutorWorkspaceService', () => {
     add: jest.fn(),
   };
 
+  const mockDelayedJobsQueueService = {
+    add: jest.fn(),
+  };
+
   beforeEach(async () => {
     jest.clearAllMocks();
 
@@ -88,6 +93,10 @@ describe('WorkflowExecutorWorkspaceService', () => {
           provide: `MESSAGE_QUEUE_${MessageQueue.workflowQueue}`,
           useValue: mockMessageQueueService,
         },
+        {
+          provide: `MESSAGE_QUEUE_${MessageQueue.delayedJobsQueue}`,
+          useValue: mockDelayedJobsQueueService,
+        },
       ],
     }).compile();
 
@@ -261,6 +270,251 @@ describe('WorkflowExecutorWorkspaceService', () => {
       });
     });
 
+    it('should schedule a retry with backoff when the step can be retried', async () => {
+      const retriedStep = {
+        ...mockSteps[0],
+        settings: {
+          ...mockSteps[0].settings,
+          errorHandlingOptions: {
+            continueOnFailure: { value: false },
+            retryOnFailure: { value: true, initialDelayMs: 1000 },
+          },
+        },
+      } as WorkflowAction;
+
+      mockWorkflowRunWorkspaceService.getWorkflowRunOrFail.mockReturnValueOnce({
+        state: {
+          flow: { steps: [retriedStep, mockSteps[1]] },
+          stepInfos: mockStepInfos,
+        },
+        workflowId: 'workflow-id',
+      });
+      mockWorkflowExecutor.execute.mockResolvedValueOnce({
+        error: 'connect ECONNREFUSED',
+      });
+
+      await service.executeFromSteps({
+        workflowRunId: mockWorkflowRunId,
+        stepIds: ['step-1'],
+        workspaceId: mockWorkspaceId,
+        attemptCount: 2,
+        shouldComputeWorkflowRunStatus: false,
+      });
+
+      expect(
+        workflowRunWorkspaceService.updateWorkflowRunStepInfos,
+      ).toHaveBeenCalledWith({
+        stepInfos: {
+          'step-1': {
+            status: StepStatus.PENDING,
+            error: 'connect ECONNREFUSED',
+            history: [
+              { status: StepStatus.FAILED, error: 'connect ECONNREFUSED' },
+            ],
+          },
+        },
+        workflowRunId: mockWorkflowRunId,
+        workspaceId: mockWorkspaceId,
+      });
+      expect(mockDelayedJobsQueueService.add).toHaveBeenCalledWith(
+        'RetryWorkflowStepJob',
+        {
+          workspaceId: mockWorkspaceId,
+          workflowRunId: mockWorkflowRunId,
+          stepId: 'step-1',
+          attemptCount: 3,
+        },
+        { delay: 2000 },
+      );
+      expect(
+        workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+      ).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail the step once the last attempt failed', async () => {
+      const retriedStep = {
+        ...mockSteps[0],
+        settings: {
+          ...mockSteps[0].settings,
+          errorHandlingOptions: {
+            continueOnFailure: { value: false },
+            retryOnFailure: { value: true, maxAttempts: 2 },
+          },
+        },
+      } as WorkflowAction;
+
+      mockWorkflowRunWorkspaceService.getWorkflowRunOrFail.mockReturnValueOnce({
+        state: {
+          flow: { steps: [retriedStep, mockSteps[1]] },
+          stepInfos: mockStepInfos,
+        },
+        workflowId: 'workflow-id',
+      });
+      mockWorkflowExecutor.execute.mockResolvedValueOnce({
+        error: 'Request failed with status code 503',
+      });
+
+      await service.executeFromSteps({
+        workflowRunId: mockWorkflowRunId,
+        stepIds: ['step-1'],
+        workspaceId: mockWorkspaceId,
+        attemptCount: 2,
+        shouldComputeWorkflowRunStatus: false,
+      });
+
+      expect(mockDelayedJobsQueueService.add).not.toHaveBeenCalled();
+      expect(
+        workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+      ).toHaveBeenLastCalledWith({
+        stepId: 'step-1',
+        stepInfo: {
+          error: 'Request failed with status code 503',
+          status: StepStatus.FAILED,
+        },
+        workflowRunId: mockWorkflowRunId,
+        workspaceId: mockWorkspaceId,
+      });
+    });
+
+    it('should not retry errors that are not retryable', async () => {
+      const retriedStep = {
+        ...mockSteps[0],
+        settings: {
+          ...mockSteps[0].settings,
+          errorHandlingOptions: {
+            continueOnFailure: { value: false },
+            retryOnFailure: { value: true },
+          },
+        },
+      } as WorkflowAction;
+
+      mockWorkflowRunWorkspaceService.getWorkflowRunOrFail.mockReturnValueOnce({
+        state: {
+          flow: { steps: [retriedStep, mockSteps[1]] },
+          stepInfos: mockStepInfos,
+        },
+        workflowId: 'workflow-id',
+      });
+      mockWorkflowExecutor.execute.mockResolvedValueOnce({
+        error: 'Invalid email',
+        errorStatusCode: 400,
+      });
+
+      await service.executeFromSteps({
+        workflowRunId: mockWorkflowRunId,
+        stepIds: ['step-1'],
+        workspaceId: mockWorkspaceId,
+        shouldComputeWorkflowRunStatus: false,
+      });
+
+      expect(mockDelayedJobsQueueService.add).not.toHaveBeenCalled();
+    });
+
+    it('should continue to the next steps with the error as output when continueOnFailure is set', async () => {
+      const continuedStep = {
+        ...mockSteps[0],
+        settings: {
+          ...mockSteps[0].settings,
+          errorHandlingOptions: {
+            continueOnFailure: { value: true },
+            retryOnFailure: { value: false },
+          },
+        },
+      } as WorkflowAction;
+
+      mockWorkflowRunWorkspaceService.getWorkflowRunOrFail.mockReturnValueOnce({
+        state: {
+          flow: { steps: [continuedStep, mockSteps[1]] },
+          stepInfos: mockStepInfos,
+        },
+        workflowId: 'workflow-id',
+      });
+      mockWorkflowExecutor.execute.mockResolvedValueOnce({
+        error: 'Step execution failed',
+      });
+
+      await service.executeFromSteps({
+        workflowRunId: mockWorkflowRunId,
+        stepIds: ['step-1'],
+        workspaceId: mockWorkspaceId,
+      });
+
+      expect(
+        workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+      ).toHaveBeenNthCalledWith(2, {
+        stepId: 'step-1',
+        stepInfo: {
+          result: { error: 'Step execution failed' },
+          status: StepStatus.SUCCESS,
+        },
+        workflowRunId: mockWorkflowRunId,
+        workspaceId: mockWorkspaceId,
+      });
+      expect(workflowActionFactory.get).toHaveBeenCalledWith(
+        WorkflowActionType.SEND_EMAIL,
+      );
+    });
+
+    it('should simulate side effecting steps of a test run without billing them', async () => {
+      const codeStep = {
+        id: 'step-1',
+        name: 'Code',
+        type: WorkflowActionType.CODE,
+        valid: true,
+        settings: {
+          input: {
+            serverlessFunctionId: 'function-id',
+            serverlessFunctionVersion: 'draft',
+            serverlessFunctionInput: { name: '{{trigger.name}}' },
+          },
+          errorHandlingOptions: {
+            continueOnFailure: { value: false },
+            retryOnFailure: { value: false },
+          },
+          outputSchema: {},
+        },
+        nextStepIds: [],
+      } as WorkflowAction;
+
+      mockWorkflowRunWorkspaceService.getWorkflowRunOrFail.mockReturnValueOnce({
+        state: {
+          flow: { steps: [codeStep] },
+          stepInfos: {
+            trigger: { result: { name: 'Acme' }, status: StepStatus.SUCCESS },
+            'step-1': { status: StepStatus.NOT_STARTED },
+          },
+        },
+        workflowId: 'workflow-id',
+        isTestRun: true,
+      });
+
+      await service.executeFromSteps({
+        workflowRunId: mockWorkflowRunId,
+        stepIds: ['step-1'],
+        workspaceId: mockWorkspaceId,
+        shouldComputeWorkflowRunStatus: false,
+      });
+
+      expect(mockWorkflowExecutor.execute).not.toHaveBeenCalled();
+      expect(mockBillingService.canBillMeteredProduct).not.toHaveBeenCalled();
+      expect(workspaceEventEmitter.emitCustomBatchEvent).not.toHaveBeenCalled();
+      expect(
+        workflowRunWorkspaceService.updateWorkflowRunStepInfo,
+      ).toHaveBeenCalledWith({
+        stepId: 'step-1',
+        stepInfo: {
+          status: StepStatus.SUCCESS,
+          result: {
+            serverlessFunctionId: 'function-id',
+            serverlessFunctionVersion: 'draft',
+            serverlessFunctionInput: { name: 'Acme' },
+          },
+        },
+        workflowRunId: mockWorkflowRunId,
+        workspaceId: mockWorkspaceId,
+      });
+    });
+
     it('should handle pending events', async () => {
       const mockPendingEvent = {
         pendingEvent: true,
@@ -21,13 +21,19 @@ import { MessageQueueService } from 'src/engine/core-modules/message-queue/servi
 import { WorkspaceEventEmitter } from 'src/engine/workspace-event-emitter/workspace-event-emitter';
 import { WorkflowRunStatus } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
 import { workflowHasRunningSteps } from 'src/modules/workflow/common/utils/workflow-has-running-steps.util';
+import { RETRY_WORKFLOW_STEP_JOB_NAME } from 'src/modules/workflow/workflow-executor/constants/retry-workflow-step-job-name';
 import { WorkflowActionFactory } from 'src/modules/workflow/workflow-executor/factories/workflow-action.factory';
 import { type WorkflowActionOutput } from 'src/modules/workflow/workflow-executor/types/workflow-action-output.type';
 import {
   type WorkflowBranchExecutorInput,
   type WorkflowExecutorInput,
 } from 'src/modules/workflow/workflow-executor/types/workflow-executor-input';
+import { type RetryWorkflowStepJobData } from 'src/modules/workflow/workflow-executor/types/retry-workflow-step-job-data.type';
+import { getWorkflowStepErrorClass } from 'src/modules/workflow/workflow-executor/utils/get-workflow-step-error-class.util';
+import { getWorkflowStepRetryDelay } from 'src/modules/workflow/workflow-executor/utils/get-workflow-step-retry-delay.util';
+import { getWorkflowStepRetryOptions } from 'src/modules/workflow/workflow-executor/utils/get-workflow-step-retry-options.util';
 import { shouldExecuteStep } from 'src/modules/workflow/workflow-executor/utils/should-execute-step.util';
+import { simulateWorkflowStep } from 'src/modules/workflow/workflow-executor/utils/simulate-workflow-step.util';
 import { shouldSkipStepExecution } from 'src/modules/workflow/workflow-executor/utils/should-skip-step-execution.util';
 import { workflowShouldFail } from 'src/modules/workflow/workflow-executor/utils/workflow-should-fail.util';
 import { workflowShouldKeepRunning } from 'src/modules/workflow/workflow-executor/utils/workflow-should-keep-running.util';
@@ -49,6 +55,8 @@ export class WorkflowExecutorWorkspaceService {
     private readonly billingService: BillingService,
     @InjectMessageQueue(MessageQueue.workflowQueue)
     private readonly messageQueueService: MessageQueueService,
+    @InjectMessageQueue(MessageQueue.delayedJobsQueue)
+    private readonly delayedJobsQueueService: MessageQueueService,
   ) {}
 
   async executeFromSteps({
@@ -57,11 +65,13 @@ export class WorkflowExecutorWorkspaceService {
     workspaceId,
     shouldComputeWorkflowRunStatus = true,
     executedStepsCount = 0,
+    attemptCount,
   }: WorkflowExecutorInput) {
     await Promise.all(
       stepIds.map(async (stepIdToExecute) => {
         await this.executeFromStep({
           stepId: stepIdToExecute,
+          attemptCount,
           workflowRunId,
           workspaceId,
           executedStepsCount,
@@ -79,6 +89,7 @@ export class WorkflowExecutorWorkspaceService {
 
   private async executeFromStep({
     stepId,
+    attemptCount = 1,
     workflowRunId,
     workspaceId,
     executedStepsCount,
@@ -107,6 +118,7 @@ export class WorkflowExecutorWorkspaceService {
     }
 
     let actionOutput: WorkflowActionOutput;
+    let isSimulated = false;
 
     if (
       shouldExecuteStep({
@@ -116,13 +128,25 @@ export class WorkflowExecutorWorkspaceService {
         workflowRunStatus: workflowRun.status,
       })
     ) {
-      actionOutput = await this.executeStep({
-        step: stepToExecute,
-        steps,
-        stepInfos,
-        workflowRunId,
-        workspaceId,
-      });
+      const simulatedOutput = workflowRun.isTestRun
+        ? simulateWorkflowStep({
+            step: stepToExecute,
+            context: getWorkflowRunContext(stepInfos),
+            testRunFixtures: workflowRun.state.testRunFixtures,
+          })
+        : undefined;
+
+      isSimulated = isDefined(simulatedOutput);
+
+      actionOutput =
+        simulatedOutput ??
+        (await this.executeStep({
+          step: stepToExecute,
+          steps,
+          stepInfos,
+          workflowRunId,
+          workspaceId,
+        }));
     } else if (
       shouldSkipStepExecution({
         step: stepToExecute,
@@ -139,10 +163,42 @@ export class WorkflowExecutorWorkspaceService {
 
     const isError = isDefined(actionOutput.error);
 
-    if (!isError) {
+    // Simulated steps did not run, so they are not billed
+    if (!isError && !isSimulated) {
       this.sendWorkflowNodeRunEvent(workspaceId, workflowRun.workflowId);
     }
 
+    if (
+      isError &&
+      actionOutput.error !== BILLING_WORKFLOW_EXECUTION_ERROR_MESSAGE
+    ) {
+      const hasScheduledRetry = await this.scheduleStepRetry({
+        step: stepToExecute,
+        stepInfo: stepInfos[stepId],
+        actionOutput,
+        attemptCount,
+        workflowRunId,
+        workspaceId,
+      });
+
+      if (hasScheduledRetry) {
+        return;
+      }
+
+      // The error is exposed as the step output so that next steps can
+      // branch on it
+      if (
+        stepToExecute.settings.errorHandlingOptions?.continueOnFailure?.value
+      ) {
+        actionOutput = {
+          result: {
+            ...(actionOutput.result ?? {}),
+            error: actionOutput.error,
+          },
+        };
+      }
+    }
+
     const { shouldProcessNextSteps } = await this.processStepExecutionResult({
       actionOutput,
       stepId,
@@ -399,6 +455,75 @@ export class WorkflowExecutorWorkspaceService {
     }
   }
 
+  // Failed attempts are kept in the step history, and the step stays
+  // pending until RetryWorkflowStepJob runs it again from the queue
+  private async scheduleStepRetry({
+    step,
+    stepInfo,
+    actionOutput,
+    attemptCount,
+    workflowRunId,
+    workspaceId,
+  }: {
+    step: WorkflowAction;
+    stepInfo: WorkflowRunStepInfo | undefined;
+    actionOutput: WorkflowActionOutput;
+    attemptCount: number;
+    workflowRunId: string;
+    workspaceId: string;
+  }): Promise<boolean> {
+    const retryOptions = getWorkflowStepRetryOptions(step);
+
+    if (!isDefined(retryOptions) || attemptCount >= retryOptions.maxAttempts) {
+      return false;
+    }
+
+    const errorClass = getWorkflowStepErrorClass({
+      error: actionOutput.error,
+      statusCode: actionOutput.errorStatusCode,
+    });
+
+    if (!retryOptions.retryableErrorClasses.includes(errorClass)) {
+      return false;
+    }
+
+    await this.workflowRunWorkspaceService.updateWorkflowRunStepInfos({
+      stepInfos: {
+        [step.id]: {
+          status: StepStatus.PENDING,
+          error: actionOutput.error,
+          history: [
+            ...(stepInfo?.history ?? []),
+            {
+              status: StepStatus.FAILED,
+              error: actionOutput.error,
+            },
+          ],
+        },
+      },
+      workflowRunId,
+      workspaceId,
+    });
+
+    await this.delayedJobsQueueService.add<RetryWorkflowStepJobData>(
+      RETRY_WORKFLOW_STEP_JOB_NAME,
+      {
+        workspaceId,
+        workflowRunId,
+        stepId: step.id,
+        attemptCount: attemptCount + 1,
+      },
+      {
+        delay: getWorkflowStepRetryDelay({
+          failedAttemptCount: attemptCount,
+          initialDelayMs: retryOptions.initialDelayMs,
+        }),
+      },
+    );
+
+    return true;
+  }
+
   private async continueExecutionFromStepInAnotherJob({
     lastExecutedStepId,
     workflowRunId,
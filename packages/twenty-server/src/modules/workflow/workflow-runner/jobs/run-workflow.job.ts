@@ -180,6 +180,9 @@ export class RunWorkflowJob {
       case WorkflowTriggerType.MANUAL:
         key = MetricsKeys.WorkflowRunStartedManualTrigger;
         break;
+      case WorkflowTriggerType.EMAIL_RECEIVED:
+        key = MetricsKeys.WorkflowRunStartedEmailReceivedTrigger;
+        break;
       default:
         throw new Error('Invalid trigger type');
     }
@@ -0,0 +1 @@
+export const WORKFLOW_RUN_ENQUEUE_JOB_NAME = 'WorkflowRunEnqueueJob';
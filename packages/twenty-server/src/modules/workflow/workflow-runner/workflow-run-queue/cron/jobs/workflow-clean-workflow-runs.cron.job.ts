@@ -41,6 +41,7 @@ export class WorkflowCleanWorkflowRunsJob {
     const activeWorkspaces = await this.workspaceRepository.find({
       where: {
         activationStatus: WorkspaceActivationStatus.ACTIVE,
+        isDisabled: false,
       },
     });
 
@@ -3,6 +3,7 @@ import { Scope } from '@nestjs/common';
 import { Process } from 'src/engine/core-modules/message-queue/decorators/process.decorator';
 import { Processor } from 'src/engine/core-modules/message-queue/decorators/processor.decorator';
 import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { WORKFLOW_RUN_ENQUEUE_JOB_NAME } from 'src/modules/workflow/workflow-runner/workflow-run-queue/constants/workflow-run-enqueue-job-name';
 import { WorkflowRunEnqueueWorkspaceService } from 'src/modules/workflow/workflow-runner/workflow-run-queue/workspace-services/workflow-run-enqueue.workspace-service';
 
 export type WorkflowRunEnqueueJobData = {
@@ -16,7 +17,7 @@ export class WorkflowRunEnqueueJob {
     private readonly WorkflowRunEnqueueWorkspaceService: WorkflowRunEnqueueWorkspaceService,
   ) {}
 
-  @Process(WorkflowRunEnqueueJob.name)
+  @Process(WORKFLOW_RUN_ENQUEUE_JOB_NAME)
   async handle({
     workspaceId,
     isCacheMode,
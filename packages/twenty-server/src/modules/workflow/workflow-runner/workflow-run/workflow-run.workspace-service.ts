@@ -7,6 +7,9 @@ import { type QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialE
 import { v4 } from 'uuid';
 
 import { WithLock } from 'src/engine/core-modules/cache-lock/with-lock.decorator';
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
 import { MetricsService } from 'src/engine/core-modules/metrics/metrics.service';
 import { MetricsKeys } from 'src/engine/core-modules/metrics/types/metrics-keys.type';
 import { RecordPositionService } from 'src/engine/core-modules/record-position/services/record-position.service';
@@ -18,11 +21,14 @@ import {
 } from 'src/modules/workflow/common/standard-objects/workflow-run.workspace-entity';
 import { type WorkflowVersionWorkspaceEntity } from 'src/modules/workflow/common/standard-objects/workflow-version.workspace-entity';
 import { WorkflowCommonWorkspaceService } from 'src/modules/workflow/common/workspace-services/workflow-common.workspace-service';
+import { RESUME_PARENT_WORKFLOW_RUN_JOB_NAME } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/constants/resume-parent-workflow-run-job-name';
+import { type ResumeParentWorkflowRunJobData } from 'src/modules/workflow/workflow-executor/workflow-actions/run-workflow/types/resume-parent-workflow-run-job-data.type';
 import { type WorkflowAction } from 'src/modules/workflow/workflow-executor/workflow-actions/types/workflow-action.type';
 import {
   WorkflowRunException,
   WorkflowRunExceptionCode,
 } from 'src/modules/workflow/workflow-runner/exceptions/workflow-run.exception';
+import { AutomatedTriggerWorkspaceService } from 'src/modules/workflow/workflow-trigger/automated-trigger/automated-trigger.workspace-service';
 
 @Injectable()
 export class WorkflowRunWorkspaceService {
@@ -31,6 +37,9 @@ export class WorkflowRunWorkspaceService {
     private readonly workflowCommonWorkspaceService: WorkflowCommonWorkspaceService,
     private readonly recordPositionService: RecordPositionService,
     private readonly metricsService: MetricsService,
+    @InjectMessageQueue(MessageQueue.delayedJobsQueue)
+    private readonly delayedJobsQueueService: MessageQueueService,
+    private readonly automatedTriggerWorkspaceService: AutomatedTriggerWorkspaceService,
   ) {}
 
   async createWorkflowRun({
@@ -41,6 +50,10 @@ export class WorkflowRunWorkspaceService {
     triggerPayload,
     error,
     workspaceId,
+    parentWorkflowRunId,
+    parentStepId,
+    isTestRun = false,
+    testRunFixtures,
   }: {
     workflowVersionId: string;
     createdBy: ActorMetadata;
@@ -52,6 +65,10 @@ export class WorkflowRunWorkspaceService {
     workflowRunId?: string;
     error?: string;
     workspaceId: string;
+    parentWorkflowRunId?: string;
+    parentStepId?: string;
+    isTestRun?: boolean;
+    testRunFixtures?: Record<string, object>;
   }) {
     const workflowRunRepository =
       await this.twentyORMGlobalManager.getRepositoryForWorkspace<WorkflowRunWorkspaceEntity>(
@@ -95,7 +112,13 @@ export class WorkflowRunWorkspaceService {
       workspaceId,
     });
 
-    const initState = this.getInitState(workflowVersion, triggerPayload, error);
+    const initState = this.getInitState({
+      workflowVersion,
+      triggerPayload,
+      error,
+      parentStepId,
+      testRunFixtures,
+    });
 
     const lastWorkflowRun = await workflowRunRepository.findOne({
       where: {
@@ -120,6 +143,8 @@ export class WorkflowRunWorkspaceService {
       position,
       state: initState,
       enqueuedAt: status === WorkflowRunStatus.ENQUEUED ? new Date() : null,
+      parentWorkflowRunId: parentWorkflowRunId ?? null,
+      isTestRun,
     };
 
     await workflowRunRepository.insert(workflowRun);
@@ -201,6 +226,22 @@ export class WorkflowRunWorkspaceService {
 
     await this.updateWorkflowRun({ workflowRunId, workspaceId, partialUpdate });
 
+    // A run stopped or failed while waiting for an event has no timeout job
+    // left to remove its wait triggers
+    await this.automatedTriggerWorkspaceService.deleteWorkflowRunWaitForEventTriggers(
+      { workflowRunId, workspaceId },
+    );
+
+    if (isDefined(workflowRunToUpdate.parentWorkflowRunId)) {
+      await this.delayedJobsQueueService.add<ResumeParentWorkflowRunJobData>(
+        RESUME_PARENT_WORKFLOW_RUN_JOB_NAME,
+        {
+          workspaceId,
+          workflowRunId,
+        },
+      );
+    }
+
     await this.metricsService.incrementCounter({
       key:
         status === WorkflowRunStatus.COMPLETED
@@ -397,11 +438,19 @@ export class WorkflowRunWorkspaceService {
     );
   }
 
-  private getInitState(
-    workflowVersion: WorkflowVersionWorkspaceEntity,
-    triggerPayload: object,
-    error?: string,
-  ): WorkflowRunState | undefined {
+  private getInitState({
+    workflowVersion,
+    triggerPayload,
+    error,
+    parentStepId,
+    testRunFixtures,
+  }: {
+    workflowVersion: WorkflowVersionWorkspaceEntity;
+    triggerPayload: object;
+    error?: string;
+    parentStepId?: string;
+    testRunFixtures?: Record<string, object>;
+  }): WorkflowRunState | undefined {
     if (
       !isDefined(workflowVersion.trigger) ||
       !isDefined(workflowVersion.steps)
@@ -424,6 +473,8 @@ export class WorkflowRunWorkspaceService {
         ),
       },
       workflowRunError: error,
+      parentStepId,
+      testRunFixtures,
     };
   }
 
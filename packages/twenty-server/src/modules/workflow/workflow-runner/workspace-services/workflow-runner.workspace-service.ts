@@ -24,12 +24,10 @@ import {
   WorkflowRunException,
   WorkflowRunExceptionCode,
 } from 'src/modules/workflow/workflow-runner/exceptions/workflow-run.exception';
-import { RunWorkflowJob } from 'src/modules/workflow/workflow-runner/jobs/run-workflow.job';
+import { RUN_WORKFLOW_JOB_NAME } from 'src/modules/workflow/workflow-runner/constants/run-workflow-job-name';
 import { type RunWorkflowJobData } from 'src/modules/workflow/workflow-runner/types/run-workflow-job-data.type';
-import {
-  WorkflowRunEnqueueJob,
-  type WorkflowRunEnqueueJobData,
-} from 'src/modules/workflow/workflow-runner/workflow-run-queue/jobs/workflow-run-enqueue.job';
+import { WORKFLOW_RUN_ENQUEUE_JOB_NAME } from 'src/modules/workflow/workflow-runner/workflow-run-queue/constants/workflow-run-enqueue-job-name';
+import { type WorkflowRunEnqueueJobData } from 'src/modules/workflow/workflow-runner/workflow-run-queue/jobs/workflow-run-enqueue.job';
 import { WorkflowThrottlingWorkspaceService } from 'src/modules/workflow/workflow-runner/workflow-run-queue/workspace-services/workflow-throttling.workspace-service';
 import { WorkflowRunWorkspaceService } from 'src/modules/workflow/workflow-runner/workflow-run/workflow-run.workspace-service';
 import { WorkflowTriggerType } from 'src/modules/workflow/workflow-trigger/types/workflow-trigger.type';
@@ -54,12 +52,20 @@ export class WorkflowRunnerWorkspaceService {
     payload,
     source,
     workflowRunId: initialWorkflowRunId,
+    isTestRun = false,
+    testRunFixtures,
+    parentWorkflowRunId,
+    parentStepId,
   }: {
     workspaceId: string;
     workflowVersionId: string;
     payload: object;
     source: ActorMetadata;
     workflowRunId?: string;
+    isTestRun?: boolean;
+    testRunFixtures?: Record<string, object>;
+    parentWorkflowRunId?: string;
+    parentStepId?: string;
   }) {
     const canFeatureBeUsed =
       await this.billingUsageService.canFeatureBeUsed(workspaceId);
@@ -88,16 +94,25 @@ export class WorkflowRunnerWorkspaceService {
         initialWorkflowRunId,
         source,
         payload,
+        isTestRun,
+        parentWorkflowRunId,
+        parentStepId,
       });
     }
 
-    if (isManualTrigger) {
+    // Test runs are started from the builder, so they skip the run queue
+    // like manual triggers do
+    if (isManualTrigger || isTestRun) {
       return this.enqueueWorkflowRun({
         workspaceId,
         workflowVersionId,
         initialWorkflowRunId,
         source,
         payload,
+        isTestRun,
+        testRunFixtures,
+        parentWorkflowRunId,
+        parentStepId,
       });
     }
 
@@ -120,7 +135,7 @@ export class WorkflowRunnerWorkspaceService {
     lastExecutedStepId: string;
   }) {
     await this.messageQueueService.add<RunWorkflowJobData>(
-      RunWorkflowJob.name,
+      RUN_WORKFLOW_JOB_NAME,
       {
         workspaceId,
         workflowRunId,
@@ -264,12 +279,18 @@ export class WorkflowRunnerWorkspaceService {
     initialWorkflowRunId,
     source,
     payload,
+    isTestRun,
+    parentWorkflowRunId,
+    parentStepId,
   }: {
     workspaceId: string;
     workflowVersionId: string;
     initialWorkflowRunId?: string;
     source: ActorMetadata;
     payload: object;
+    isTestRun: boolean;
+    parentWorkflowRunId?: string;
+    parentStepId?: string;
   }) {
     const workflowRunId =
       await this.workflowRunWorkspaceService.createWorkflowRun({
@@ -280,9 +301,12 @@ export class WorkflowRunnerWorkspaceService {
         triggerPayload: payload,
         error: 'Throttle limit reached',
         workspaceId,
+        isTestRun,
+        parentWorkflowRunId,
+        parentStepId,
       });
 
-    return { workflowRunId };
+    return { workflowRunId, status: WorkflowRunStatus.FAILED };
   }
 
   private async enqueueWorkflowRun({
@@ -291,12 +315,20 @@ export class WorkflowRunnerWorkspaceService {
     initialWorkflowRunId,
     source,
     payload,
+    isTestRun,
+    testRunFixtures,
+    parentWorkflowRunId,
+    parentStepId,
   }: {
     workspaceId: string;
     workflowVersionId: string;
     initialWorkflowRunId?: string;
     source: ActorMetadata;
     payload: object;
+    isTestRun: boolean;
+    testRunFixtures?: Record<string, object>;
+    parentWorkflowRunId?: string;
+    parentStepId?: string;
   }) {
     const workflowRunId =
       await this.workflowRunWorkspaceService.createWorkflowRun({
@@ -306,17 +338,21 @@ export class WorkflowRunnerWorkspaceService {
         status: WorkflowRunStatus.ENQUEUED,
         triggerPayload: payload,
         workspaceId,
+        isTestRun,
+        testRunFixtures,
+        parentWorkflowRunId,
+        parentStepId,
       });
 
     await this.messageQueueService.add<RunWorkflowJobData>(
-      RunWorkflowJob.name,
+      RUN_WORKFLOW_JOB_NAME,
       {
         workspaceId,
         workflowRunId,
       },
     );
 
-    return { workflowRunId };
+    return { workflowRunId, status: WorkflowRunStatus.ENQUEUED };
   }
 
   private async createNotStartedWorkflowRunAndTriggerEnqueueJob({
@@ -347,13 +383,13 @@ export class WorkflowRunnerWorkspaceService {
     );
 
     await this.messageQueueService.add<WorkflowRunEnqueueJobData>(
-      WorkflowRunEnqueueJob.name,
+      WORKFLOW_RUN_ENQUEUE_JOB_NAME,
       {
         workspaceId,
         isCacheMode: true,
       },
     );
 
-    return { workflowRunId };
+    return { workflowRunId, status: WorkflowRunStatus.NOT_STARTED };
   }
 }
@@ -11,14 +11,28 @@ const createWorkflowVersionEdgeSchema = z.object({
   source: z.string().describe('The ID of the source step'),
   target: z.string().describe('The ID of the target step'),
   sourceConnectionOptions: z
-    .object({
-      connectedStepType: z.literal(WorkflowActionType.ITERATOR),
-      settings: z.object({
-        isConnectedToLoop: z.boolean(),
+    .union([
+      z.object({
+        connectedStepType: z.literal(WorkflowActionType.ITERATOR),
+        settings: z.object({
+          isConnectedToLoop: z.boolean(),
+        }),
       }),
-    })
+      z.object({
+        connectedStepType: z.enum([
+          WorkflowActionType.IF_ELSE,
+          WorkflowActionType.SWITCH,
+          WorkflowActionType.WAIT_FOR_EVENT,
+        ]),
+        settings: z.object({
+          branchId: z.string().describe('The ID of the branch'),
+        }),
+      }),
+    ])
     .optional()
-    .describe('Optional connection options for iterator steps'),
+    .describe(
+      'Optional connection options for iterator steps and branches of if/else, switch and wait for event steps',
+    ),
 });
 
 type CreateWorkflowVersionEdgeInput = z.infer<
@@ -8,6 +8,7 @@ import { AutomatedTriggerWorkspaceService } from 'src/modules/workflow/workflow-
 import { WorkflowCronTriggerCronCommand } from 'src/modules/workflow/workflow-trigger/automated-trigger/crons/commands/workflow-cron-trigger.cron.command';
 import { WorkflowCronTriggerCronJob } from 'src/modules/workflow/workflow-trigger/automated-trigger/crons/jobs/workflow-cron-trigger-cron.job';
 import { WorkflowDatabaseEventTriggerListener } from 'src/modules/workflow/workflow-trigger/automated-trigger/listeners/workflow-database-event-trigger.listener';
+import { WorkflowEmailReceivedTriggerListener } from 'src/modules/workflow/workflow-trigger/automated-trigger/listeners/workflow-email-received-trigger.listener';
 
 @Module({
   imports: [
@@ -18,6 +19,7 @@ import { WorkflowDatabaseEventTriggerListener } from 'src/modules/workflow/workf
   providers: [
     AutomatedTriggerWorkspaceService,
     WorkflowDatabaseEventTriggerListener,
+    WorkflowEmailReceivedTriggerListener,
     WorkflowCronTriggerCronJob,
     WorkflowCronTriggerCronCommand,
   ],
@@ -1,11 +1,16 @@
 import { Injectable } from '@nestjs/common';
 
+import { Not, Raw } from 'typeorm';
+
 import { TwentyORMGlobalManager } from 'src/engine/twenty-orm/twenty-orm-global.manager';
 import {
-  type AutomatedTriggerType,
+  AutomatedTriggerType,
   type WorkflowAutomatedTriggerWorkspaceEntity,
 } from 'src/modules/workflow/common/standard-objects/workflow-automated-trigger.workspace-entity';
-import { type AutomatedTriggerSettings } from 'src/modules/workflow/workflow-trigger/automated-trigger/constants/automated-trigger-settings';
+import {
+  type AutomatedTriggerSettings,
+  type WaitForEventTriggerSettings,
+} from 'src/modules/workflow/workflow-trigger/automated-trigger/constants/automated-trigger-settings';
 
 @Injectable()
 export class AutomatedTriggerWorkspaceService {
@@ -50,6 +55,86 @@ export class AutomatedTriggerWorkspaceService {
         'workflowAutomatedTrigger',
       );
 
-    await workflowAutomatedTriggerRepository.delete({ workflowId });
+    // Runs waiting for an event outlive the version that started them
+    await workflowAutomatedTriggerRepository.delete({
+      workflowId,
+      type: Not(AutomatedTriggerType.WAIT_FOR_EVENT),
+    });
+  }
+
+  async addWaitForEventTrigger({
+    workflowId,
+    settings,
+    workspaceId,
+  }: {
+    workflowId: string;
+    settings: WaitForEventTriggerSettings;
+    workspaceId: string;
+  }) {
+    await this.deleteWaitForEventTrigger({
+      workflowRunId: settings.workflowRunId,
+      stepId: settings.stepId,
+      workspaceId,
+    });
+
+    await this.addAutomatedTrigger({
+      workflowId,
+      type: AutomatedTriggerType.WAIT_FOR_EVENT,
+      settings,
+      workspaceId,
+    });
+  }
+
+  async deleteWaitForEventTrigger({
+    workflowRunId,
+    stepId,
+    workspaceId,
+  }: {
+    workflowRunId: string;
+    stepId: string;
+    workspaceId: string;
+  }): Promise<boolean> {
+    const workflowAutomatedTriggerRepository =
+      await this.twentyORMGlobalManager.getRepositoryForWorkspace<WorkflowAutomatedTriggerWorkspaceEntity>(
+        workspaceId,
+        'workflowAutomatedTrigger',
+      );
+
+    // The delete is the claim: when an event and the timeout resume the step
+    // concurrently, only the one that removed the trigger resumes the run
+    const { affected } = await workflowAutomatedTriggerRepository.delete({
+      type: AutomatedTriggerType.WAIT_FOR_EVENT,
+      settings: Raw(
+        (settings) =>
+          `${settings}->>'workflowRunId' = :workflowRunId AND ${settings}->>'stepId' = :stepId`,
+        { workflowRunId, stepId },
+      ),
+    });
+
+    return (affected ?? 0) > 0;
+  }
+
+  async deleteWorkflowRunWaitForEventTriggers({
+    workflowRunId,
+    workspaceId,
+  }: {
+    workflowRunId: string;
+    workspaceId: string;
+  }) {
+    const workflowAutomatedTriggerRepository =
+      await this.twentyORMGlobalManager.getRepositoryForWorkspace<WorkflowAutomatedTriggerWorkspaceEntity>(
+        workspaceId,
+        'workflowAutomatedTrigger',
+      );
+
+    await workflowAutomatedTriggerRepository.delete({
+      type: AutomatedTriggerType.WAIT_FOR_EVENT,
+      settings: Raw(
+        (settings) => `${settings}->>'workflowRunId' = :workflowRunId`,
+        {
+          workflowRunId,
+        },
+      ),
+    });
   }
 }
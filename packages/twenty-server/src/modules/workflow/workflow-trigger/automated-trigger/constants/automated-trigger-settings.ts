@@ -19,6 +19,24 @@ export type CronTriggerSettings = {
   pattern: string;
 };
 
+// Registered by a WAIT_FOR_EVENT step while its run waits for an event on
+// one record, removed once the run resumes
+export type WaitForEventTriggerSettings = BaseDatabaseEventTriggerSettings & {
+  workflowRunId: string;
+  stepId: string;
+  recordId: string;
+  fields?: string[];
+};
+
+export type EmailReceivedTriggerSettings = {
+  senderDomain?: string;
+  subjectPattern?: string;
+  mailbox?: string;
+  hasAttachment?: boolean;
+};
+
 export type AutomatedTriggerSettings =
   | DatabaseEventTriggerSettings
-  | CronTriggerSettings;
+  | CronTriggerSettings
+  | WaitForEventTriggerSettings
+  | EmailReceivedTriggerSettings;
@@ -0,0 +1 @@
+export const EMAIL_RECEIVED_SUBJECT_PATTERN_MAX_LENGTH = 200;
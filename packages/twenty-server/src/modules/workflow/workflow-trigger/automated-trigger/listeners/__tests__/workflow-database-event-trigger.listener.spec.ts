@@ -6,6 +6,7 @@ import { TwentyORMGlobalManager } from 'src/engine/twenty-orm/twenty-orm-global.
 import { type WorkspaceEventBatch } from 'src/engine/workspace-event-emitter/types/workspace-event-batch.type';
 import { AutomatedTriggerType } from 'src/modules/workflow/common/standard-objects/workflow-automated-trigger.workspace-entity';
 import { WorkflowCommonWorkspaceService } from 'src/modules/workflow/common/workspace-services/workflow-common.workspace-service';
+import { RESUME_WAIT_FOR_EVENT_WORKFLOW_JOB_NAME } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/constants/resume-wait-for-event-workflow-job-name';
 import { WorkflowDatabaseEventTriggerListener } from 'src/modules/workflow/workflow-trigger/automated-trigger/listeners/workflow-database-event-trigger.listener';
 import { WorkflowTriggerJob } from 'src/modules/workflow/workflow-trigger/jobs/workflow-trigger.job';
 
@@ -71,6 +72,10 @@ describe('WorkflowDatabaseEventTriggerListener', () => {
           provide: 'MESSAGE_QUEUE_workflow-queue',
           useValue: messageQueueService,
         },
+        {
+          provide: 'MESSAGE_QUEUE_delayed-jobs-queue',
+          useValue: messageQueueService,
+        },
         {
           provide: WorkflowCommonWorkspaceService,
           useValue: {
@@ -349,5 +354,52 @@ describe('WorkflowDatabaseEventTriggerListener', () => {
         { retryLimit: 3 },
       );
     });
+
+    it('should resume a waiting run with every event of its record in the batch', async () => {
+      const batchPayload: WorkspaceEventBatch<any> = {
+        ...mockPayload,
+        events: [
+          mockPayload.events[0],
+          {
+            ...mockPayload.events[0],
+            recordId: 'other-record',
+          },
+          {
+            ...mockPayload.events[0],
+            properties: {
+              updatedFields: ['field1'],
+              before: { field1: 'new' },
+              after: { field1: 'newer' },
+            },
+          },
+        ],
+      };
+
+      mockRepository.find.mockResolvedValue([
+        {
+          type: AutomatedTriggerType.WAIT_FOR_EVENT,
+          workflowId,
+          settings: {
+            eventName: databaseEventName,
+            recordId: 'test-record',
+            workflowRunId: 'workflow-run-id',
+            stepId: 'wait-step',
+          },
+        },
+      ]);
+
+      await listener.handleObjectRecordUpdateEvent(batchPayload);
+
+      expect(messageQueueService.add).toHaveBeenCalledTimes(1);
+      expect(messageQueueService.add).toHaveBeenCalledWith(
+        RESUME_WAIT_FOR_EVENT_WORKFLOW_JOB_NAME,
+        {
+          workspaceId,
+          workflowRunId: 'workflow-run-id',
+          stepId: 'wait-step',
+          events: [batchPayload.events[0], batchPayload.events[2]],
+        },
+      );
+    });
   });
 });
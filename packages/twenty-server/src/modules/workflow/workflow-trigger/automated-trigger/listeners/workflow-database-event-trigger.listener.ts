@@ -27,9 +27,12 @@ import {
   type WorkflowAutomatedTriggerWorkspaceEntity,
 } from 'src/modules/workflow/common/standard-objects/workflow-automated-trigger.workspace-entity';
 import { WorkflowCommonWorkspaceService } from 'src/modules/workflow/common/workspace-services/workflow-common.workspace-service';
+import { RESUME_WAIT_FOR_EVENT_WORKFLOW_JOB_NAME } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/constants/resume-wait-for-event-workflow-job-name';
+import { type ResumeWaitForEventWorkflowJobData } from 'src/modules/workflow/workflow-executor/workflow-actions/wait-for-event/types/resume-wait-for-event-workflow-job-data.type';
 import {
   type UpdateEventTriggerSettings,
   type UpsertEventTriggerSettings,
+  type WaitForEventTriggerSettings,
 } from 'src/modules/workflow/workflow-trigger/automated-trigger/constants/automated-trigger-settings';
 import {
   WorkflowTriggerJob,
@@ -46,6 +49,8 @@ export class WorkflowDatabaseEventTriggerListener {
     private readonly twentyORMGlobalManager: TwentyORMGlobalManager,
     @InjectMessageQueue(MessageQueue.workflowQueue)
     private readonly messageQueueService: MessageQueueService,
+    @InjectMessageQueue(MessageQueue.delayedJobsQueue)
+    private readonly delayedJobsQueueService: MessageQueueService,
     private readonly workflowCommonWorkspaceService: WorkflowCommonWorkspaceService,
   ) {}
 
@@ -334,7 +339,10 @@ export class WorkflowDatabaseEventTriggerListener {
 
     const eventListeners = await workflowAutomatedTriggerRepository.find({
       where: {
-        type: AutomatedTriggerType.DATABASE_EVENT,
+        type: In([
+          AutomatedTriggerType.DATABASE_EVENT,
+          AutomatedTriggerType.WAIT_FOR_EVENT,
+        ]),
         settings: Raw(
           () =>
             `"${automatedTriggerTableName}"."settings"->>'eventName' = :eventName`,
@@ -344,6 +352,15 @@ export class WorkflowDatabaseEventTriggerListener {
     });
 
     for (const eventListener of eventListeners) {
+      if (eventListener.type === AutomatedTriggerType.WAIT_FOR_EVENT) {
+        await this.resumeWaitingWorkflowRun({
+          payload,
+          eventListener,
+          action,
+        });
+        continue;
+      }
+
       for (const eventPayload of payload.events) {
         const shouldTriggerJob = this.shouldTriggerJob({
           eventPayload,
@@ -366,6 +383,40 @@ export class WorkflowDatabaseEventTriggerListener {
     }
   }
 
+  // Runs waiting in a WAIT_FOR_EVENT step only listen to their record, step
+  // conditions are checked when resuming as they need the run context
+  private async resumeWaitingWorkflowRun({
+    payload,
+    eventListener,
+    action,
+  }: {
+    payload: WorkspaceEventBatch<ObjectRecordNonDestructiveEvent>;
+    eventListener: WorkflowAutomatedTriggerWorkspaceEntity;
+    action: DatabaseEventAction;
+  }) {
+    const settings = eventListener.settings as WaitForEventTriggerSettings;
+
+    const eventPayloads = payload.events.filter(
+      (eventPayload) =>
+        eventPayload.recordId === settings.recordId &&
+        this.shouldTriggerJob({ eventPayload, eventListener, action }),
+    );
+
+    if (eventPayloads.length === 0) {
+      return;
+    }
+
+    await this.delayedJobsQueueService.add<ResumeWaitForEventWorkflowJobData>(
+      RESUME_WAIT_FOR_EVENT_WORKFLOW_JOB_NAME,
+      {
+        workspaceId: payload.workspaceId,
+        workflowRunId: settings.workflowRunId,
+        stepId: settings.stepId,
+        events: eventPayloads,
+      },
+    );
+  }
+
   private shouldTriggerJob({
     eventPayload,
     eventListener,
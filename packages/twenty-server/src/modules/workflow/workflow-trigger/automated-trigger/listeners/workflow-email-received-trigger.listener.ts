@@ -0,0 +1,155 @@
+import { Injectable } from '@nestjs/common';
+
+import { FIELD_RESTRICTED_ADDITIONAL_PERMISSIONS_REQUIRED } from 'twenty-shared/constants';
+import { MessageParticipantRole } from 'twenty-shared/types';
+import { isDefined } from 'twenty-shared/utils';
+
+import { OnCustomBatchEvent } from 'src/engine/api/graphql/graphql-query-runner/decorators/on-custom-batch-event.decorator';
+import { InjectMessageQueue } from 'src/engine/core-modules/message-queue/decorators/message-queue.decorator';
+import { MessageQueue } from 'src/engine/core-modules/message-queue/message-queue.constants';
+import { MessageQueueService } from 'src/engine/core-modules/message-queue/services/message-queue.service';
+import { TwentyORMGlobalManager } from 'src/engine/twenty-orm/twenty-orm-global.manager';
+import { CustomWorkspaceEventBatch } from 'src/engine/workspace-event-emitter/types/custom-workspace-batch-event.type';
+import { MessageChannelVisibility } from 'src/modules/messaging/common/standard-objects/message-channel.workspace-entity';
+import { type MessageParticipantWorkspaceEntity } from 'src/modules/messaging/common/standard-objects/message-participant.workspace-entity';
+import { MESSAGE_RECEIVED_EVENT_NAME } from 'src/modules/messaging/message-import-manager/constants/message-received-event-name.constant';
+import { type MessageReceivedEvent } from 'src/modules/messaging/message-import-manager/types/message-received-event.type';
+import {
+  AutomatedTriggerType,
+  type WorkflowAutomatedTriggerWorkspaceEntity,
+} from 'src/modules/workflow/common/standard-objects/workflow-automated-trigger.workspace-entity';
+import { type EmailReceivedTriggerSettings } from 'src/modules/workflow/workflow-trigger/automated-trigger/constants/automated-trigger-settings';
+import { isEmailReceivedTriggerMatching } from 'src/modules/workflow/workflow-trigger/automated-trigger/utils/is-email-received-trigger-matching.util';
+import {
+  WorkflowTriggerJob,
+  type WorkflowTriggerJobData,
+} from 'src/modules/workflow/workflow-trigger/jobs/workflow-trigger.job';
+
+@Injectable()
+export class WorkflowEmailReceivedTriggerListener {
+  constructor(
+    private readonly twentyORMGlobalManager: TwentyORMGlobalManager,
+    @InjectMessageQueue(MessageQueue.workflowQueue)
+    private readonly messageQueueService: MessageQueueService,
+  ) {}
+
+  @OnCustomBatchEvent(MESSAGE_RECEIVED_EVENT_NAME)
+  async handleMessageReceivedEvent(
+    batchEvent: CustomWorkspaceEventBatch<MessageReceivedEvent>,
+  ) {
+    const workspaceId = batchEvent.workspaceId;
+
+    if (!isDefined(workspaceId)) {
+      return;
+    }
+
+    const workflowAutomatedTriggerRepository =
+      await this.twentyORMGlobalManager.getRepositoryForWorkspace<WorkflowAutomatedTriggerWorkspaceEntity>(
+        workspaceId,
+        'workflowAutomatedTrigger',
+        { shouldBypassPermissionChecks: true },
+      );
+
+    const emailReceivedTriggers = await workflowAutomatedTriggerRepository.find(
+      {
+        where: { type: AutomatedTriggerType.EMAIL_RECEIVED },
+      },
+    );
+
+    if (emailReceivedTriggers.length === 0) {
+      return;
+    }
+
+    for (const event of batchEvent.events) {
+      // Triggers are recreated on activation, so messages received before
+      // it, such as the ones of the initial import of a mailbox, are skipped
+      const matchingTriggers = emailReceivedTriggers.filter(
+        (trigger) =>
+          isDefined(event.receivedAt) &&
+          new Date(event.receivedAt) >= new Date(trigger.createdAt) &&
+          isEmailReceivedTriggerMatching({
+            event,
+            settings: trigger.settings as EmailReceivedTriggerSettings,
+          }),
+      );
+
+      if (matchingTriggers.length === 0) {
+        continue;
+      }
+
+      const payload = await this.buildTriggerPayload({ event, workspaceId });
+
+      for (const trigger of matchingTriggers) {
+        await this.messageQueueService.add<WorkflowTriggerJobData>(
+          WorkflowTriggerJob.name,
+          {
+            workspaceId,
+            workflowId: trigger.workflowId,
+            payload,
+          },
+          { retryLimit: 3 },
+        );
+      }
+    }
+  }
+
+  // Participants are read back from the database as the person they were
+  // matched with is only known once the messages are saved. Subject and text
+  // are restricted like they are for API reads of the message
+  private async buildTriggerPayload({
+    event,
+    workspaceId,
+  }: {
+    event: MessageReceivedEvent;
+    workspaceId: string;
+  }) {
+    const messageParticipantRepository =
+      await this.twentyORMGlobalManager.getRepositoryForWorkspace<MessageParticipantWorkspaceEntity>(
+        workspaceId,
+        'messageParticipant',
+        { shouldBypassPermissionChecks: true },
+      );
+
+    const messageParticipants = await messageParticipantRepository.find({
+      where: { messageId: event.messageId },
+      relations: { person: { company: true } },
+    });
+
+    const sender = messageParticipants.find(
+      (participant) => participant.role === MessageParticipantRole.FROM,
+    );
+
+    const { person, ...senderParticipant } = sender ?? {};
+    const { company, ...senderPerson } = person ?? {};
+
+    const isSharingEverything =
+      event.visibility === MessageChannelVisibility.SHARE_EVERYTHING;
+
+    const isSharingSubject =
+      isSharingEverything ||
+      event.visibility === MessageChannelVisibility.SUBJECT;
+
+    return {
+      message: {
+        id: event.messageId,
+        messageChannelId: event.messageChannelId,
+        mailbox: event.mailbox,
+        headerMessageId: event.headerMessageId,
+        subject: isSharingSubject
+          ? event.subject
+          : FIELD_RESTRICTED_ADDITIONAL_PERMISSIONS_REQUIRED,
+        text: isSharingEverything
+          ? event.text
+          : FIELD_RESTRICTED_ADDITIONAL_PERMISSIONS_REQUIRED,
+        receivedAt: event.receivedAt,
+        attachments: isSharingEverything ? event.attachments : [],
+        from: isDefined(sender) ? senderParticipant : null,
+      },
+      participants: messageParticipants.map(
+        ({ person: _person, ...participant }) => participant,
+      ),
+      person: isDefined(person) ? senderPerson : null,
+      company: company ?? null,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import { MessageParticipantRole } from 'twenty-shared/types';
+
+import { MessageChannelVisibility } from 'src/modules/messaging/common/standard-objects/message-channel.workspace-entity';
+import { type MessageReceivedEvent } from 'src/modules/messaging/message-import-manager/types/message-received-event.type';
+import { isEmailReceivedTriggerMatching } from 'src/modules/workflow/workflow-trigger/automated-trigger/utils/is-email-received-trigger-matching.util';
+
+describe('isEmailReceivedTriggerMatching', () => {
+  const event: MessageReceivedEvent = {
+    messageId: 'message-id',
+    messageChannelId: 'message-channel-id',
+    mailbox: 'sales@twenty.com',
+    visibility: MessageChannelVisibility.SHARE_EVERYTHING,
+    headerMessageId: 'header-message-id',
+    subject: 'Invoice #1234 for March',
+    text: 'Please find the invoice attached',
+    receivedAt: new Date('2026-01-01T00:00:00.000Z'),
+    attachments: [{ filename: 'invoice.pdf' }],
+    participants: [
+      {
+        role: MessageParticipantRole.FROM,
+        handle: 'billing@eu.acme.com',
+        displayName: 'Acme Billing',
+      },
+      {
+        role: MessageParticipantRole.TO,
+        handle: 'sales@twenty.com',
+        displayName: 'Sales',
+      },
+    ],
+  };
+
+  it('should match any message when no filter is set', () => {
+    expect(isEmailReceivedTriggerMatching({ event, settings: {} })).toBe(true);
+  });
+
+  it('should match the sender domain and its subdomains', () => {
+    expect(
+      isEmailReceivedTriggerMatching({
+        event,
+        settings: { senderDomain: '@ACME.com' },
+      }),
+    ).toBe(true);
+    expect(
+      isEmailReceivedTriggerMatching({
+        event,
+        settings: { senderDomain: 'other.com' },
+      }),
+    ).toBe(false);
+  });
+
+  it('should match the subject pattern anywhere and case-insensitively', () => {
+    expect(
+      isEmailReceivedTriggerMatching({
+        event,
+        settings: { subjectPattern: 'INVOICE #' },
+      }),
+    ).toBe(true);
+    expect(
+      isEmailReceivedTriggerMatching({
+        event,
+        settings: { subjectPattern: 'refund' },
+      }),
+    ).toBe(false);
+  });
+
+  it('should match the wildcards of the subject pattern', () => {
+    expect(
+      isEmailReceivedTriggerMatching({
+        event,
+        settings: { subjectPattern: 'invoice #12?4 * march' },
+      }),
+    ).toBe(true);
+    expect(
+      isEmailReceivedTriggerMatching({
+        event,
+        settings: { subjectPattern: 'invoice #12?4 * april' },
+      }),
+    ).toBe(false);
+  });
+
+  it('should match regular expression characters literally', () => {
+    expect(
+      isEmailReceivedTriggerMatching({
+        event,
+        settings: { subjectPattern: '^invoice #\\d+' },
+      }),
+    ).toBe(false);
+    expect(
+      isEmailReceivedTriggerMatching({
+        event: { ...event, subject: 'Re: (a+)+ [urgent]' },
+        settings: { subjectPattern: '(a+)+' },
+      }),
+    ).toBe(true);
+  });
+
+  it('should match the mailbox and the attachment filter', () => {
+    expect(
+      isEmailReceivedTriggerMatching({
+        event,
+        settings: { mailbox: 'Sales@Twenty.com', hasAttachment: true },
+      }),
+    ).toBe(true);
+    expect(
+      isEmailReceivedTriggerMatching({
+        event,
+        settings: { mailbox: 'support@twenty.com' },
+      }),
+    ).toBe(false);
+    expect(
+      isEmailReceivedTriggerMatching({
+        event,
+        settings: { hasAttachment: false },
+      }),
+    ).toBe(false);
+  });
+
+  it('should only match metadata only mailboxes targeted by the trigger', () => {
+    const metadataOnlyEvent = {
+      ...event,
+      visibility: MessageChannelVisibility.METADATA,
+    };
+
+    expect(
+      isEmailReceivedTriggerMatching({
+        event: metadataOnlyEvent,
+        settings: {},
+      }),
+    ).toBe(false);
+    expect(
+      isEmailReceivedTriggerMatching({
+        event: metadataOnlyEvent,
+        settings: { mailbox: 'sales@twenty.com' },
+      }),
+    ).toBe(true);
+    expect(
+      isEmailReceivedTriggerMatching({
+        event: metadataOnlyEvent,
+        settings: { mailbox: 'sales@twenty.com', subjectPattern: 'invoice' },
+      }),
+    ).toBe(false);
+  });
+});
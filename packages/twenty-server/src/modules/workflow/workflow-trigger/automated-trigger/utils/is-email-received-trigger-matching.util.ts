@@ -0,0 +1,124 @@
+import { isNonEmptyString } from '@sniptt/guards';
+import { MessageParticipantRole } from 'twenty-shared/types';
+import { isDefined } from 'twenty-shared/utils';
+
+import { MessageChannelVisibility } from 'src/modules/messaging/common/standard-objects/message-channel.workspace-entity';
+import { type MessageReceivedEvent } from 'src/modules/messaging/message-import-manager/types/message-received-event.type';
+import { type EmailReceivedTriggerSettings } from 'src/modules/workflow/workflow-trigger/automated-trigger/constants/automated-trigger-settings';
+
+const getSenderDomain = (event: MessageReceivedEvent) => {
+  const senderHandle = event.participants.find(
+    (participant) => participant.role === MessageParticipantRole.FROM,
+  )?.handle;
+
+  return senderHandle?.split('@').pop()?.toLowerCase();
+};
+
+const isSenderDomainMatching = (
+  event: MessageReceivedEvent,
+  senderDomain: string,
+) => {
+  const expectedDomain = senderDomain.trim().replace(/^@/, '').toLowerCase();
+  const actualDomain = getSenderDomain(event);
+
+  if (!isDefined(actualDomain)) {
+    return false;
+  }
+
+  return (
+    actualDomain === expectedDomain ||
+    actualDomain.endsWith(`.${expectedDomain}`)
+  );
+};
+
+// The pattern is a case-insensitive glob found anywhere in the subject: `*`
+// stands for any characters and `?` for a single one. Only the last star is
+// backtracked to, so the scan stays within subject length × pattern length.
+const isSubjectMatching = (
+  event: MessageReceivedEvent,
+  subjectPattern: string,
+) => {
+  const subject = event.subject.toLowerCase();
+  const pattern = `*${subjectPattern.toLowerCase()}*`;
+
+  let subjectIndex = 0;
+  let patternIndex = 0;
+  let lastStarPatternIndex = -1;
+  let lastStarSubjectIndex = 0;
+
+  while (subjectIndex < subject.length) {
+    const patternCharacter = pattern[patternIndex];
+
+    if (patternCharacter === '*') {
+      lastStarPatternIndex = patternIndex;
+      lastStarSubjectIndex = subjectIndex;
+      patternIndex++;
+    } else if (
+      patternCharacter === '?' ||
+      patternCharacter === subject[subjectIndex]
+    ) {
+      subjectIndex++;
+      patternIndex++;
+    } else if (lastStarPatternIndex !== -1) {
+      patternIndex = lastStarPatternIndex + 1;
+      lastStarSubjectIndex++;
+      subjectIndex = lastStarSubjectIndex;
+    } else {
+      return false;
+    }
+  }
+
+  while (pattern[patternIndex] === '*') {
+    patternIndex++;
+  }
+
+  return patternIndex === pattern.length;
+};
+
+export const isEmailReceivedTriggerMatching = ({
+  event,
+  settings,
+}: {
+  event: MessageReceivedEvent;
+  settings: EmailReceivedTriggerSettings;
+}) => {
+  const isMetadataOnly = event.visibility === MessageChannelVisibility.METADATA;
+
+  // Mailboxes that only share metadata are watched by the triggers that
+  // target them explicitly
+  if (isMetadataOnly && !isNonEmptyString(settings.mailbox)) {
+    return false;
+  }
+
+  if (
+    isNonEmptyString(settings.senderDomain) &&
+    !isSenderDomainMatching(event, settings.senderDomain)
+  ) {
+    return false;
+  }
+
+  // The subject of a metadata only mailbox cannot be matched without
+  // leaking it
+  if (
+    isNonEmptyString(settings.subjectPattern) &&
+    (isMetadataOnly || !isSubjectMatching(event, settings.subjectPattern))
+  ) {
+    return false;
+  }
+
+  if (
+    isNonEmptyString(settings.mailbox) &&
+    settings.mailbox.trim().toLowerCase() !== event.mailbox?.toLowerCase()
+  ) {
+    return false;
+  }
+
+  if (
+    isDefined(settings.hasAttachment) &&
+    settings.hasAttachment !== event.attachments.length > 0
+  ) {
+    return false;
+  }
+
+  return true;
+};
@@ -11,6 +11,7 @@ export enum WorkflowTriggerType {
   MANUAL = 'MANUAL',
   CRON = 'CRON',
   WEBHOOK = 'WEBHOOK',
+  EMAIL_RECEIVED = 'EMAIL_RECEIVED',
 }
 
 type BaseWorkflowTriggerSettings = {
@@ -86,8 +87,21 @@ export type WorkflowWebhookTrigger = BaseTrigger & {
     );
 };
 
+// Every filter is optional, a trigger without filters fires on each message
+// received in the workspace
+export type WorkflowEmailReceivedTrigger = BaseTrigger & {
+  type: WorkflowTriggerType.EMAIL_RECEIVED;
+  settings: BaseWorkflowTriggerSettings & {
+    senderDomain?: string;
+    subjectPattern?: string;
+    mailbox?: string;
+    hasAttachment?: boolean;
+  };
+};
+
 export type WorkflowTrigger =
   | WorkflowDatabaseEventTrigger
   | WorkflowManualTrigger
   | WorkflowCronTrigger
-  | WorkflowWebhookTrigger;
+  | WorkflowWebhookTrigger
+  | WorkflowEmailReceivedTrigger;
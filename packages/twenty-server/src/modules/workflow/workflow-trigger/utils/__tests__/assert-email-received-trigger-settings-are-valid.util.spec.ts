@@ -0,0 +1,35 @@
+import { EMAIL_RECEIVED_SUBJECT_PATTERN_MAX_LENGTH } from 'src/modules/workflow/workflow-trigger/automated-trigger/constants/email-received-subject-pattern-max-length';
+import { WorkflowTriggerException } from 'src/modules/workflow/workflow-trigger/exceptions/workflow-trigger.exception';
+import { assertEmailReceivedTriggerSettingsAreValid } from 'src/modules/workflow/workflow-trigger/utils/assert-email-received-trigger-settings-are-valid.util';
+
+describe('assertEmailReceivedTriggerSettingsAreValid', () => {
+  it('should accept settings without subject pattern', () => {
+    expect(() =>
+      assertEmailReceivedTriggerSettingsAreValid({ senderDomain: 'acme.com' }),
+    ).not.toThrow();
+  });
+
+  it('should accept a subject pattern with regular expression characters', () => {
+    expect(() =>
+      assertEmailReceivedTriggerSettingsAreValid({ subjectPattern: '(a+)+ *' }),
+    ).not.toThrow();
+  });
+
+  it('should reject a subject pattern that is too long', () => {
+    expect(() =>
+      assertEmailReceivedTriggerSettingsAreValid({
+        subjectPattern: 'a'.repeat(
+          EMAIL_RECEIVED_SUBJECT_PATTERN_MAX_LENGTH + 1,
+        ),
+      }),
+    ).toThrow(WorkflowTriggerException);
+  });
+
+  it('should reject a subject pattern that is not a text', () => {
+    expect(() =>
+      assertEmailReceivedTriggerSettingsAreValid({
+        subjectPattern: 42 as unknown as string,
+      }),
+    ).toThrow(WorkflowTriggerException);
+  });
+});
@@ -0,0 +1,33 @@
+import { msg } from '@lingui/core/macro';
+import { isString } from '@sniptt/guards';
+import { isDefined } from 'twenty-shared/utils';
+
+import { EMAIL_RECEIVED_SUBJECT_PATTERN_MAX_LENGTH } from 'src/modules/workflow/workflow-trigger/automated-trigger/constants/email-received-subject-pattern-max-length';
+import {
+  WorkflowTriggerException,
+  WorkflowTriggerExceptionCode,
+} from 'src/modules/workflow/workflow-trigger/exceptions/workflow-trigger.exception';
+import { type WorkflowEmailReceivedTrigger } from 'src/modules/workflow/workflow-trigger/types/workflow-trigger.type';
+
+export function assertEmailReceivedTriggerSettingsAreValid(
+  settings: Partial<WorkflowEmailReceivedTrigger['settings']> | undefined,
+) {
+  const subjectPattern: unknown = settings?.subjectPattern;
+
+  if (!isDefined(subjectPattern)) {
+    return;
+  }
+
+  if (
+    !isString(subjectPattern) ||
+    subjectPattern.length > EMAIL_RECEIVED_SUBJECT_PATTERN_MAX_LENGTH
+  ) {
+    throw new WorkflowTriggerException(
+      'Invalid subject pattern provided in email received trigger',
+      WorkflowTriggerExceptionCode.INVALID_WORKFLOW_TRIGGER,
+      {
+        userFriendlyMessage: msg`Subject pattern must be a text of at most ${EMAIL_RECEIVED_SUBJECT_PATTERN_MAX_LENGTH} characters`,
+      },
+    );
+  }
+}
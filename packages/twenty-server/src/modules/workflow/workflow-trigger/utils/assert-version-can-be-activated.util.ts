@@ -14,6 +14,7 @@ import {
   WorkflowTriggerExceptionCode,
 } from 'src/modules/workflow/workflow-trigger/exceptions/workflow-trigger.exception';
 import { WorkflowTriggerType } from 'src/modules/workflow/workflow-trigger/types/workflow-trigger.type';
+import { assertEmailReceivedTriggerSettingsAreValid } from 'src/modules/workflow/workflow-trigger/utils/assert-email-received-trigger-settings-are-valid.util';
 import { assertFormStepIsValid } from 'src/modules/workflow/workflow-trigger/utils/assert-form-step-is-valid.util';
 
 export function assertVersionCanBeActivated(
@@ -98,6 +99,9 @@ function assertTriggerSettingsAreValid(
     case WorkflowTriggerType.CRON:
       assertCronTriggerSettingsAreValid(settings);
       break;
+    case WorkflowTriggerType.EMAIL_RECEIVED:
+      assertEmailReceivedTriggerSettingsAreValid(settings);
+      break;
     default:
       throw new WorkflowTriggerException(
         'Invalid trigger type for enabling workflow trigger',
@@ -18,7 +18,10 @@ import { WorkflowRunnerWorkspaceService } from 'src/modules/workflow/workflow-ru
 import { WORKFLOW_VERSION_STATUS_UPDATED } from 'src/modules/workflow/workflow-status/constants/workflow-version-status-updated.constants';
 import { type WorkflowVersionStatusUpdate } from 'src/modules/workflow/workflow-status/jobs/workflow-statuses-update.job';
 import { AutomatedTriggerWorkspaceService } from 'src/modules/workflow/workflow-trigger/automated-trigger/automated-trigger.workspace-service';
-import { type DatabaseEventTriggerSettings } from 'src/modules/workflow/workflow-trigger/automated-trigger/constants/automated-trigger-settings';
+import {
+  type DatabaseEventTriggerSettings,
+  type EmailReceivedTriggerSettings,
+} from 'src/modules/workflow/workflow-trigger/automated-trigger/constants/automated-trigger-settings';
 import {
   WorkflowTriggerException,
   WorkflowTriggerExceptionCode,
@@ -44,12 +47,16 @@ export class WorkflowTriggerWorkspaceService {
     createdBy,
     workflowRunId,
     workspaceId,
+    isTestRun,
+    testRunFixtures,
   }: {
     workflowVersionId: string;
     payload: object;
     createdBy: ActorMetadata;
     workflowRunId?: string;
     workspaceId: string;
+    isTestRun?: boolean;
+    testRunFixtures?: Record<string, object>;
   }) {
     await this.workflowCommonWorkspaceService.getWorkflowVersionOrFail({
       workflowVersionId,
@@ -62,6 +69,8 @@ export class WorkflowTriggerWorkspaceService {
       workflowVersionId,
       payload,
       source: createdBy,
+      isTestRun,
+      testRunFixtures,
     });
   }
 
@@ -323,6 +332,19 @@ export class WorkflowTriggerWorkspaceService {
 
         return;
       }
+      case WorkflowTriggerType.EMAIL_RECEIVED: {
+        const settings = workflowVersion.trigger
+          .settings as EmailReceivedTriggerSettings;
+
+        await this.automatedTriggerWorkspaceService.addAutomatedTrigger({
+          workflowId: workflowVersion.workflowId,
+          type: AutomatedTriggerType.EMAIL_RECEIVED,
+          settings,
+          workspaceId,
+        });
+
+        return;
+      }
       default: {
         assertNever(workflowVersion.trigger);
       }
@@ -338,6 +360,7 @@ export class WorkflowTriggerWorkspaceService {
     switch (workflowVersion.trigger.type) {
       case WorkflowTriggerType.DATABASE_EVENT:
       case WorkflowTriggerType.CRON:
+      case WorkflowTriggerType.EMAIL_RECEIVED:
         await this.automatedTriggerWorkspaceService.deleteAutomatedTrigger({
           workflowId: workflowVersion.workflowId,
           workspaceId,
@@ -23,6 +23,7 @@ export { workflowCronTriggerSchema } from './schemas/cron-trigger-schema';
 export { workflowDatabaseEventTriggerSchema } from './schemas/database-event-trigger-schema';
 export { workflowDeleteRecordActionSchema } from './schemas/delete-record-action-schema';
 export { workflowDeleteRecordActionSettingsSchema } from './schemas/delete-record-action-settings-schema';
+export { workflowEmailReceivedTriggerSchema } from './schemas/email-received-trigger-schema';
 export { workflowEmptyActionSchema } from './schemas/empty-action-schema';
 export { workflowEmptyActionSettingsSchema } from './schemas/empty-action-settings-schema';
 export { workflowFilterActionSchema } from './schemas/filter-action-schema';
@@ -33,16 +34,24 @@ export { workflowFormActionSchema } from './schemas/form-action-schema';
 export { workflowFormActionSettingsSchema } from './schemas/form-action-settings-schema';
 export { workflowHttpRequestActionSchema } from './schemas/http-request-action-schema';
 export { workflowHttpRequestActionSettingsSchema } from './schemas/http-request-action-settings-schema';
+export { workflowIfElseActionSchema } from './schemas/if-else-action-schema';
+export { workflowIfElseActionSettingsSchema } from './schemas/if-else-action-settings-schema';
 export { workflowIteratorActionSchema } from './schemas/iterator-action-schema';
 export { workflowIteratorActionSettingsSchema } from './schemas/iterator-action-settings-schema';
 export { workflowManualTriggerSchema } from './schemas/manual-trigger-schema';
 export { objectRecordSchema } from './schemas/object-record-schema';
+export { workflowRunWorkflowActionSchema } from './schemas/run-workflow-action-schema';
+export { workflowRunWorkflowActionSettingsSchema } from './schemas/run-workflow-action-settings-schema';
 export { workflowSendEmailActionSchema } from './schemas/send-email-action-schema';
 export { workflowSendEmailActionSettingsSchema } from './schemas/send-email-action-settings-schema';
+export { workflowSwitchActionSchema } from './schemas/switch-action-schema';
+export { workflowSwitchActionSettingsSchema } from './schemas/switch-action-settings-schema';
 export { workflowUpdateRecordActionSchema } from './schemas/update-record-action-schema';
 export { workflowUpdateRecordActionSettingsSchema } from './schemas/update-record-action-settings-schema';
 export { workflowUpsertRecordActionSchema } from './schemas/upsert-record-action-schema';
 export { workflowUpsertRecordActionSettingsSchema } from './schemas/upsert-record-action-settings-schema';
+export { workflowWaitForEventActionSchema } from './schemas/wait-for-event-action-schema';
+export { workflowWaitForEventActionSettingsSchema } from './schemas/wait-for-event-action-settings-schema';
 export { workflowWebhookTriggerSchema } from './schemas/webhook-trigger-schema';
 export { workflowActionSchema } from './schemas/workflow-action-schema';
 export { workflowDelayActionSchema } from './schemas/workflow-delay-action-schema';
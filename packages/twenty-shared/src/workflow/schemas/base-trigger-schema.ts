@@ -8,9 +8,9 @@ export const baseTriggerSchema = z.object({
       'Human-readable name for the trigger. Optional but recommended for clarity.',
     ),
   type: z
-    .enum(['DATABASE_EVENT', 'MANUAL', 'CRON', 'WEBHOOK'])
+    .enum(['DATABASE_EVENT', 'MANUAL', 'CRON', 'WEBHOOK', 'EMAIL_RECEIVED'])
     .describe(
-      'Type of trigger. DATABASE_EVENT for record changes, MANUAL for user-initiated, CRON for scheduled, WEBHOOK for external calls.',
+      'Type of trigger. DATABASE_EVENT for record changes, MANUAL for user-initiated, CRON for scheduled, WEBHOOK for external calls, EMAIL_RECEIVED for imported incoming emails.',
     ),
   position: z
     .object({ x: z.number(), y: z.number() })
@@ -14,6 +14,28 @@ export const baseWorkflowActionSettingsSchema = z.object({
   errorHandlingOptions: z.object({
     retryOnFailure: z.object({
       value: z.boolean().describe('Whether to retry the action if it fails.'),
+      maxAttempts: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Maximum number of attempts, the first one included.'),
+      initialDelayMs: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(
+          'Delay before the first retry in milliseconds, doubled on every failed attempt.',
+        ),
+      retryableErrorClasses: z
+        .array(
+          z.enum(['TIMEOUT', 'NETWORK', 'RATE_LIMIT', 'SERVER_ERROR', 'OTHER']),
+        )
+        .optional()
+        .describe(
+          'Kinds of errors to retry. Defaults to timeouts, network errors, rate limits and server errors.',
+        ),
     }),
     continueOnFailure: z.object({
       value: z
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { baseTriggerSchema } from './base-trigger-schema';
+
+export const workflowEmailReceivedTriggerSchema = baseTriggerSchema.extend({
+  type: z.literal('EMAIL_RECEIVED'),
+  settings: z.object({
+    outputSchema: z.looseObject({}),
+    senderDomain: z
+      .string()
+      .optional()
+      .describe('Only trigger for senders of this domain or its subdomains.'),
+    subjectPattern: z
+      .string()
+      .optional()
+      .describe('Case-insensitive regular expression the subject must match.'),
+    mailbox: z
+      .string()
+      .optional()
+      .describe('Only trigger for messages received on this mailbox.'),
+    hasAttachment: z
+      .boolean()
+      .optional()
+      .describe('Only trigger for messages with (or without) attachments.'),
+  }),
+});
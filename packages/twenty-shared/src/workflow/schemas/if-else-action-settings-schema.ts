@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { baseWorkflowActionSettingsSchema } from './base-workflow-action-settings-schema';
+import { workflowFilterActionSettingsSchema } from './filter-action-settings-schema';
+
+export const workflowIfElseActionSettingsSchema =
+  baseWorkflowActionSettingsSchema.extend({
+    input: z.object({
+      stepFilterGroups:
+        workflowFilterActionSettingsSchema.shape.input.shape.stepFilterGroups,
+      stepFilters:
+        workflowFilterActionSettingsSchema.shape.input.shape.stepFilters,
+      branches: z.array(
+        z.object({
+          id: z.string(),
+          label: z.string(),
+          filterGroupId: z
+            .string()
+            .optional()
+            .describe('Condition of the branch. The else branch has none.'),
+          nextStepIds: z.array(z.string()),
+        }),
+      ),
+    }),
+  });
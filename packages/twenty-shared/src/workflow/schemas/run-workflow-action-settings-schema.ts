@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { baseWorkflowActionSettingsSchema } from './base-workflow-action-settings-schema';
+
+export const workflowRunWorkflowActionSettingsSchema =
+  baseWorkflowActionSettingsSchema.extend({
+    input: z.object({
+      workflowId: z
+        .string()
+        .describe('Workflow whose active version is run as a sub-workflow'),
+      payload: z
+        .union([z.record(z.string(), z.any()), z.string()])
+        .describe('Payload of the sub-workflow manual trigger'),
+      waitForCompletion: z
+        .boolean()
+        .describe('Wait for the sub-workflow run to end before continuing'),
+    }),
+  });
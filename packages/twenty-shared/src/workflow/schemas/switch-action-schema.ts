@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { baseWorkflowActionSchema } from './base-workflow-action-schema';
+import { workflowSwitchActionSettingsSchema } from './switch-action-settings-schema';
+
+export const workflowSwitchActionSchema = baseWorkflowActionSchema.extend({
+  type: z.literal('SWITCH'),
+  settings: workflowSwitchActionSettingsSchema,
+});
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { baseWorkflowActionSettingsSchema } from './base-workflow-action-settings-schema';
+
+export const workflowSwitchActionSettingsSchema =
+  baseWorkflowActionSettingsSchema.extend({
+    input: z.object({
+      value: z.string().describe('Value compared with the case of each branch'),
+      branches: z.array(
+        z.object({
+          id: z.string(),
+          label: z.string(),
+          caseValue: z
+            .string()
+            .optional()
+            .describe('Case of the branch. The default branch has none.'),
+          nextStepIds: z.array(z.string()),
+        }),
+      ),
+    }),
+  });
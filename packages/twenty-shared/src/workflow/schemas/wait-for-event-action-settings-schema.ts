@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { baseWorkflowActionSettingsSchema } from './base-workflow-action-settings-schema';
+import { workflowFilterActionSettingsSchema } from './filter-action-settings-schema';
+
+export const workflowWaitForEventActionSettingsSchema =
+  baseWorkflowActionSettingsSchema.extend({
+    input: z.object({
+      eventName: z
+        .string()
+        .describe('Database event to wait for, e.g. opportunity.updated'),
+      recordId: z.string().describe('Record the event must happen on'),
+      fields: z.array(z.string()).optional(),
+      stepFilterGroups:
+        workflowFilterActionSettingsSchema.shape.input.shape.stepFilterGroups,
+      stepFilters:
+        workflowFilterActionSettingsSchema.shape.input.shape.stepFilters,
+      timeout: z
+        .object({
+          days: z.union([z.number().min(0), z.string()]).optional(),
+          hours: z.union([z.number().min(0), z.string()]).optional(),
+          minutes: z.union([z.number().min(0), z.string()]).optional(),
+          seconds: z.union([z.number().min(0), z.string()]).optional(),
+        })
+        .optional(),
+      branches: z.array(
+        z.object({
+          id: z.string(),
+          label: z.string(),
+          isTimeout: z
+            .boolean()
+            .optional()
+            .describe('Taken when no matching event happened in time.'),
+          nextStepIds: z.array(z.string()),
+        }),
+      ),
+    }),
+  });
@@ -8,10 +8,14 @@ import { workflowFilterActionSchema } from './filter-action-schema';
 import { workflowFindRecordsActionSchema } from './find-records-action-schema';
 import { workflowFormActionSchema } from './form-action-schema';
 import { workflowHttpRequestActionSchema } from './http-request-action-schema';
+import { workflowIfElseActionSchema } from './if-else-action-schema';
 import { workflowIteratorActionSchema } from './iterator-action-schema';
+import { workflowRunWorkflowActionSchema } from './run-workflow-action-schema';
 import { workflowSendEmailActionSchema } from './send-email-action-schema';
+import { workflowSwitchActionSchema } from './switch-action-schema';
 import { workflowUpdateRecordActionSchema } from './update-record-action-schema';
 import { workflowUpsertRecordActionSchema } from './upsert-record-action-schema';
+import { workflowWaitForEventActionSchema } from './wait-for-event-action-schema';
 import { workflowDelayActionSchema } from './workflow-delay-action-schema';
 
 export const workflowActionSchema = z.discriminatedUnion('type', [
@@ -29,4 +33,8 @@ export const workflowActionSchema = z.discriminatedUnion('type', [
   workflowIteratorActionSchema,
   workflowDelayActionSchema,
   workflowEmptyActionSchema,
+  workflowIfElseActionSchema,
+  workflowSwitchActionSchema,
+  workflowRunWorkflowActionSchema,
+  workflowWaitForEventActionSchema,
 ]);
@@ -13,4 +13,5 @@ export const workflowRunSchema = z.looseObject({
   deletedAt: z.string().nullable(),
   endedAt: z.string().nullable(),
   name: z.string(),
+  isTestRun: z.boolean().optional(),
 });
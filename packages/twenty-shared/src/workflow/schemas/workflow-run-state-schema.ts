@@ -10,4 +10,6 @@ export const workflowRunStateSchema = z.object({
   }),
   stepInfos: workflowRunStateStepInfosSchema,
   workflowRunError: z.any().optional(),
+  parentStepId: z.string().optional(),
+  testRunFixtures: z.record(z.string(), z.any()).optional(),
 });
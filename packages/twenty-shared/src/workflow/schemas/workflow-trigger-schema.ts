@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { workflowCronTriggerSchema } from './cron-trigger-schema';
 import { workflowDatabaseEventTriggerSchema } from './database-event-trigger-schema';
+import { workflowEmailReceivedTriggerSchema } from './email-received-trigger-schema';
 import { workflowManualTriggerSchema } from './manual-trigger-schema';
 import { workflowWebhookTriggerSchema } from './webhook-trigger-schema';
 
@@ -9,4 +10,5 @@ export const workflowTriggerSchema = z.discriminatedUnion('type', [
   workflowManualTriggerSchema,
   workflowCronTriggerSchema,
   workflowWebhookTriggerSchema,
+  workflowEmailReceivedTriggerSchema,
 ]);